@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "bets" ADD COLUMN     "lineCount" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "stakePerLine" DECIMAL(18,8),
+ADD COLUMN     "systemSizes" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
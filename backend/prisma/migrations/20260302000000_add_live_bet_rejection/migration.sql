@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "BetStatus" ADD VALUE 'REJECTED';
+
+-- AlterTable
+ALTER TABLE "bets" ADD COLUMN     "rejectionReason" TEXT;
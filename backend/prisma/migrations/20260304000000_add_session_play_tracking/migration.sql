@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "lastRealityCheckAt" TIMESTAMPTZ,
+ADD COLUMN     "startedAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing sessions started when they were created
+UPDATE "sessions" SET "startedAt" = "createdAt";
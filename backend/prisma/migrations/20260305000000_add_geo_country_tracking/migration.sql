@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN     "country" TEXT;
+
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "country" TEXT;
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "isGeoWhitelisted" BOOLEAN NOT NULL DEFAULT false;
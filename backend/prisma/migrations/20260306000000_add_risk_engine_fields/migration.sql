@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "user_risk_profiles" ADD COLUMN     "stakeFactor" DECIMAL(5,4) NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "bet_legs" ADD COLUMN     "marketOverround" DECIMAL(18,8),
+ADD COLUMN     "oddsAfterPlacement" DECIMAL(18,8);
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "sports" ADD COLUMN     "maxLiability" DECIMAL(18,8);
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "maxLiability" DECIMAL(18,8);
+
+-- AlterTable
+ALTER TABLE "markets" ADD COLUMN     "maxLiability" DECIMAL(18,8);
+
+-- AlterTable
+ALTER TABLE "user_risk_profiles" ADD COLUMN     "stakeMultiplier" DECIMAL(6,4) NOT NULL DEFAULT 1;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "deposit_addresses" (
+    "id" TEXT NOT NULL,
+    "walletId" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "derivationIndex" SERIAL NOT NULL,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "deposit_addresses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "deposit_addresses_address_key" ON "deposit_addresses"("address");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "deposit_addresses_derivationIndex_key" ON "deposit_addresses"("derivationIndex");
+
+-- CreateIndex
+CREATE INDEX "deposit_addresses_networkId_idx" ON "deposit_addresses"("networkId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "deposit_addresses_walletId_networkId_key" ON "deposit_addresses"("walletId", "networkId");
+
+-- AddForeignKey
+ALTER TABLE "deposit_addresses" ADD CONSTRAINT "deposit_addresses_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "wallets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
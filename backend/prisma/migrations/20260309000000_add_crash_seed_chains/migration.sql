@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "crash_rounds" ADD COLUMN "chainId" TEXT,
+ADD COLUMN "chainIndex" INTEGER;
+
+-- CreateTable
+CREATE TABLE "crash_seed_chains" (
+    "id" TEXT NOT NULL,
+    "genesisSeed" TEXT NOT NULL,
+    "terminatingHash" TEXT NOT NULL,
+    "length" INTEGER NOT NULL,
+    "clientSeedSource" TEXT NOT NULL,
+    "clientSeed" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "roundsPlayed" INTEGER NOT NULL DEFAULT 0,
+    "activatedAt" TIMESTAMPTZ,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "crash_seed_chains_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "crash_seed_chains_terminatingHash_key" ON "crash_seed_chains"("terminatingHash");
+
+-- CreateIndex
+CREATE INDEX "crash_seed_chains_status_idx" ON "crash_seed_chains"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "crash_rounds_chainId_chainIndex_key" ON "crash_rounds"("chainId", "chainIndex");
+
+-- AddForeignKey
+ALTER TABLE "crash_rounds" ADD CONSTRAINT "crash_rounds_chainId_fkey" FOREIGN KEY ("chainId") REFERENCES "crash_seed_chains"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "provably_fair_seeds" ADD COLUMN "jackpotNonce" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "jackpot_draws" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "seedId" TEXT NOT NULL,
+    "gameSlug" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "betAmount" DECIMAL(18,8) NOT NULL,
+    "betAmountUsd" DECIMAL(18,8) NOT NULL,
+    "serverSeedHash" TEXT NOT NULL,
+    "clientSeed" TEXT NOT NULL,
+    "nonce" INTEGER NOT NULL,
+    "result" DOUBLE PRECISION NOT NULL,
+    "tier" TEXT,
+    "winAmountUsd" DECIMAL(18,8),
+    "winAmount" DECIMAL(18,8),
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "jackpot_draws_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "jackpot_draws_userId_createdAt_idx" ON "jackpot_draws"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "jackpot_draws_tier_createdAt_idx" ON "jackpot_draws"("tier", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "jackpot_draws" ADD CONSTRAINT "jackpot_draws_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "jackpot_draws" ADD CONSTRAINT "jackpot_draws_seedId_fkey" FOREIGN KEY ("seedId") REFERENCES "provably_fair_seeds"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "tournaments" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "gameSlug" TEXT NOT NULL,
+    "scoringType" TEXT NOT NULL,
+    "entryFee" DECIMAL(18,8) NOT NULL DEFAULT 0,
+    "currency" TEXT NOT NULL,
+    "basePrizePool" DECIMAL(18,8) NOT NULL DEFAULT 0,
+    "prizePool" DECIMAL(18,8) NOT NULL DEFAULT 0,
+    "prizeDistribution" JSONB NOT NULL,
+    "maxParticipants" INTEGER NOT NULL,
+    "minParticipants" INTEGER NOT NULL DEFAULT 1,
+    "status" TEXT NOT NULL DEFAULT 'upcoming',
+    "startTime" TIMESTAMPTZ NOT NULL,
+    "endTime" TIMESTAMPTZ NOT NULL,
+    "finalizedAt" TIMESTAMPTZ,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "tournaments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tournament_entries" (
+    "id" TEXT NOT NULL,
+    "tournamentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "score" DECIMAL(18,8) NOT NULL DEFAULT 0,
+    "roundsPlayed" INTEGER NOT NULL DEFAULT 0,
+    "rank" INTEGER,
+    "prize" DECIMAL(18,8) NOT NULL DEFAULT 0,
+    "joinedAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tournament_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tournaments_status_startTime_idx" ON "tournaments"("status", "startTime");
+
+-- CreateIndex
+CREATE INDEX "tournaments_gameSlug_status_idx" ON "tournaments"("gameSlug", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tournament_entries_tournamentId_userId_key" ON "tournament_entries"("tournamentId", "userId");
+
+-- CreateIndex
+CREATE INDEX "tournament_entries_tournamentId_score_idx" ON "tournament_entries"("tournamentId", "score");
+
+-- CreateIndex
+CREATE INDEX "tournament_entries_userId_idx" ON "tournament_entries"("userId");
+
+-- AddForeignKey
+ALTER TABLE "tournament_entries" ADD CONSTRAINT "tournament_entries_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "tournaments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tournament_entries" ADD CONSTRAINT "tournament_entries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
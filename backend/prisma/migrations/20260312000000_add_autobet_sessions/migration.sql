@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "autobet_sessions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "gameSlug" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "config" JSONB NOT NULL,
+    "gameOptions" JSONB NOT NULL,
+    "baseBetAmount" DECIMAL(18,8) NOT NULL,
+    "currentBetAmount" DECIMAL(18,8) NOT NULL,
+    "betsCompleted" INTEGER NOT NULL DEFAULT 0,
+    "totalWagered" DECIMAL(18,8) NOT NULL DEFAULT 0,
+    "totalPayout" DECIMAL(18,8) NOT NULL DEFAULT 0,
+    "totalProfit" DECIMAL(18,8) NOT NULL DEFAULT 0,
+    "wins" INTEGER NOT NULL DEFAULT 0,
+    "losses" INTEGER NOT NULL DEFAULT 0,
+    "streak" INTEGER NOT NULL DEFAULT 0,
+    "results" JSONB NOT NULL DEFAULT '[]',
+    "stopReason" TEXT,
+    "lastError" TEXT,
+    "startedAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "stoppedAt" TIMESTAMPTZ,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "autobet_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "autobet_sessions_userId_gameSlug_status_idx" ON "autobet_sessions"("userId", "gameSlug", "status");
+
+-- CreateIndex
+CREATE INDEX "autobet_sessions_status_idx" ON "autobet_sessions"("status");
+
+-- AddForeignKey
+ALTER TABLE "autobet_sessions" ADD CONSTRAINT "autobet_sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
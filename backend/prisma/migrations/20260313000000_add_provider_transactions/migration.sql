@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "provider_transactions" (
+    "id" TEXT NOT NULL,
+    "providerId" TEXT NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sessionId" TEXT,
+    "roundId" TEXT,
+    "currency" TEXT NOT NULL,
+    "amount" DECIMAL(18,8) NOT NULL,
+    "transactionId" TEXT,
+    "referenceId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'completed',
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "provider_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "provider_transactions_providerId_externalId_key" ON "provider_transactions"("providerId", "externalId");
+
+-- CreateIndex
+CREATE INDEX "provider_transactions_providerId_referenceId_idx" ON "provider_transactions"("providerId", "referenceId");
+
+-- CreateIndex
+CREATE INDEX "provider_transactions_userId_idx" ON "provider_transactions"("userId");
+
+-- CreateIndex
+CREATE INDEX "provider_transactions_sessionId_idx" ON "provider_transactions"("sessionId");
+
+-- AddForeignKey
+ALTER TABLE "provider_transactions" ADD CONSTRAINT "provider_transactions_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "game_providers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "provider_transactions" ADD CONSTRAINT "provider_transactions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "emailVerifiedAt" TIMESTAMPTZ;
+
+-- Existing accounts predate verification: treat them as verified so their
+-- withdrawals keep working
+UPDATE "users" SET "emailVerifiedAt" = "createdAt";
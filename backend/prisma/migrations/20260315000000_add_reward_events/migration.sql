@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "reward_events" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "step" TEXT NOT NULL,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reward_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reward_events_key_step_key" ON "reward_events"("key", "step");
+
+-- CreateIndex
+CREATE INDEX "reward_events_createdAt_idx" ON "reward_events"("createdAt");
@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "bets" ADD COLUMN "bonusStake" DECIMAL(18,8) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "bonuses" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "walletId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "sourceId" TEXT,
+    "amount" DECIMAL(18,8) NOT NULL,
+    "balance" DECIMAL(18,8) NOT NULL,
+    "wageringRequired" DECIMAL(18,8) NOT NULL,
+    "wageringProgress" DECIMAL(18,8) NOT NULL DEFAULT 0,
+    "minOdds" DECIMAL(18,8),
+    "contributions" JSONB,
+    "maxConversion" DECIMAL(18,8),
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "convertedAmount" DECIMAL(18,8),
+    "expiresAt" TIMESTAMPTZ,
+    "closedAt" TIMESTAMPTZ,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "bonuses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bonuses_userId_status_idx" ON "bonuses"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "bonuses_walletId_status_idx" ON "bonuses"("walletId", "status");
+
+-- CreateIndex
+CREATE INDEX "bonuses_status_expiresAt_idx" ON "bonuses"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "bonuses" ADD CONSTRAINT "bonuses_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bonuses" ADD CONSTRAINT "bonuses_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "wallets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing bonus balances become one bonus each with a 1x wagering requirement
+INSERT INTO "bonuses" ("id", "userId", "walletId", "source", "amount", "balance", "wageringRequired", "updatedAt")
+SELECT gen_random_uuid()::text, "userId", "id", 'LEGACY', "bonusBalance", "bonusBalance", "bonusBalance", CURRENT_TIMESTAMP
+FROM "wallets"
+WHERE "bonusBalance" > 0;
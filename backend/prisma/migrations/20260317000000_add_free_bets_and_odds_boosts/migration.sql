@@ -0,0 +1,78 @@
+-- AlterTable
+ALTER TABLE "bets" ADD COLUMN "freeBetId" TEXT,
+ADD COLUMN "boostCost" DECIMAL(18,8);
+
+-- AlterTable
+ALTER TABLE "bet_legs" ADD COLUMN "oddsBoostId" TEXT,
+ADD COLUMN "originalOdds" DECIMAL(18,8);
+
+-- CreateTable
+CREATE TABLE "free_bets" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "promotionId" TEXT,
+    "currency" TEXT NOT NULL,
+    "amount" DECIMAL(18,8) NOT NULL,
+    "minOdds" DECIMAL(18,8),
+    "sportSlugs" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "marketTypes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "expiresAt" TIMESTAMPTZ NOT NULL,
+    "usedAt" TIMESTAMPTZ,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "free_bets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "odds_boosts" (
+    "id" TEXT NOT NULL,
+    "selectionId" TEXT NOT NULL,
+    "promotionId" TEXT,
+    "title" TEXT,
+    "boostedOdds" DECIMAL(18,8) NOT NULL,
+    "maxStakeUsd" DECIMAL(18,8) NOT NULL,
+    "startsAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMPTZ NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "odds_boosts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bets_freeBetId_idx" ON "bets"("freeBetId");
+
+-- CreateIndex
+CREATE INDEX "bet_legs_oddsBoostId_idx" ON "bet_legs"("oddsBoostId");
+
+-- CreateIndex
+CREATE INDEX "free_bets_userId_status_idx" ON "free_bets"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "free_bets_status_expiresAt_idx" ON "free_bets"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "odds_boosts_selectionId_idx" ON "odds_boosts"("selectionId");
+
+-- CreateIndex
+CREATE INDEX "odds_boosts_isActive_expiresAt_idx" ON "odds_boosts"("isActive", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "bets" ADD CONSTRAINT "bets_freeBetId_fkey" FOREIGN KEY ("freeBetId") REFERENCES "free_bets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bet_legs" ADD CONSTRAINT "bet_legs_oddsBoostId_fkey" FOREIGN KEY ("oddsBoostId") REFERENCES "odds_boosts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "free_bets" ADD CONSTRAINT "free_bets_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "free_bets" ADD CONSTRAINT "free_bets_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "promotions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "odds_boosts" ADD CONSTRAINT "odds_boosts_selectionId_fkey" FOREIGN KEY ("selectionId") REFERENCES "selections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "odds_boosts" ADD CONSTRAINT "odds_boosts_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "promotions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,98 @@
+-- AlterEnum
+ALTER TYPE "TxType" ADD VALUE 'TIP';
+ALTER TYPE "TxType" ADD VALUE 'RAIN';
+
+-- AlterEnum
+ALTER TYPE "NotifType" ADD VALUE 'TIP_RECEIVED';
+
+-- CreateTable
+CREATE TABLE "community_rooms" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" TEXT NOT NULL DEFAULT 'GENERAL',
+    "language" TEXT,
+    "sportSlug" TEXT,
+    "slowModeSeconds" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "community_rooms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "community_messages" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'TEXT',
+    "metadata" JSONB,
+    "replyToId" TEXT,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+    "deletedBy" TEXT,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "community_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "community_mutes" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "roomId" TEXT,
+    "reason" TEXT,
+    "mutedBy" TEXT NOT NULL,
+    "expiresAt" TIMESTAMPTZ,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "community_mutes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "community_rooms_slug_key" ON "community_rooms"("slug");
+
+-- CreateIndex
+CREATE INDEX "community_rooms_type_isActive_idx" ON "community_rooms"("type", "isActive");
+
+-- CreateIndex
+CREATE INDEX "community_messages_roomId_createdAt_idx" ON "community_messages"("roomId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "community_messages_userId_idx" ON "community_messages"("userId");
+
+-- CreateIndex
+CREATE INDEX "community_mutes_userId_idx" ON "community_mutes"("userId");
+
+-- CreateIndex
+CREATE INDEX "community_mutes_roomId_idx" ON "community_mutes"("roomId");
+
+-- AddForeignKey
+ALTER TABLE "community_messages" ADD CONSTRAINT "community_messages_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "community_rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_messages" ADD CONSTRAINT "community_messages_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_messages" ADD CONSTRAINT "community_messages_replyToId_fkey" FOREIGN KEY ("replyToId") REFERENCES "community_messages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_mutes" ADD CONSTRAINT "community_mutes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_mutes" ADD CONSTRAINT "community_mutes_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "community_rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Default rooms: a general lobby, one room per language and one per active sport
+INSERT INTO "community_rooms" ("id", "slug", "name", "type", "language", "sortOrder", "updatedAt") VALUES
+    (gen_random_uuid()::text, 'general', 'General', 'GENERAL', NULL, 0, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'lang-en', 'English', 'LANGUAGE', 'en', 10, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'lang-es', 'Español', 'LANGUAGE', 'es', 11, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'lang-de', 'Deutsch', 'LANGUAGE', 'de', 12, CURRENT_TIMESTAMP);
+
+INSERT INTO "community_rooms" ("id", "slug", "name", "type", "sportSlug", "sortOrder", "updatedAt")
+SELECT gen_random_uuid()::text, 'sport-' || "slug", "name", 'SPORT', "slug", 100 + "sortOrder", CURRENT_TIMESTAMP
+FROM "sports"
+WHERE "isActive" = true;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE UNIQUE INDEX "transactions_walletId_txHash_type_key" ON "transactions"("walletId", "txHash", "type");
@@ -1286,6 +1286,7 @@ async function main() {
     },
     create: {
       email: 'admin@cryptobet.com',
+      emailVerifiedAt: new Date(),
       username: 'admin',
       passwordHash: adminPasswordHash,
       role: 'SUPER_ADMIN' as any,
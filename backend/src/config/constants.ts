@@ -58,6 +58,54 @@ export const VIP_TIERS: readonly VipTier[] = [
 /** Portion of rakeback that goes to user's bonus wallet vs main wallet */
 export const RAKEBACK_WALLET_SPLIT = 0.5;
 
+/** Expected margin on sports bets, used as their house edge for rakeback */
+export const SPORTS_HOUSE_EDGE = 0.05;
+
+/** House edge for provider games that publish neither houseEdge nor RTP */
+export const DEFAULT_CASINO_HOUSE_EDGE = 0.03;
+
+// ─── Bonus Wagering ────────────────────────────────────────────────────────
+
+/**
+ * Percent of a stake that counts toward a bonus's wagering requirement, by
+ * in-house game slug or provider game category. Promotions can override
+ * these per bonus (`conditions.contributions`).
+ */
+export const BONUS_WAGERING_CONTRIBUTIONS: Record<string, number> = {
+  slots: 100,
+  slots5: 100,
+  jackpotslots: 100,
+  scratchcard: 100,
+  blackjack: 10,
+  baccarat: 10,
+  'video-poker': 10,
+  poker: 10,
+  faro: 10,
+  roulette: 20,
+  craps: 20,
+  sicbo: 20,
+  table: 10,
+  live: 10,
+  sports: 100,
+};
+
+/** Contribution (percent) for casino games not listed above */
+export const DEFAULT_BONUS_WAGERING_CONTRIBUTION = 100;
+
+/** Sports bets below these combined odds do not count toward wagering */
+export const BONUS_SPORTS_MIN_ODDS = 1.5;
+
+/** Wagering requirement (x bonus amount) for welcome drops and calendar rewards */
+export const DEFAULT_BONUS_WAGERING_MULTIPLIER = 5;
+
+/** Days a bonus stays active before its remaining balance expires */
+export const BONUS_EXPIRY_DAYS = 30;
+
+// ─── Free Bets & Odds Boosts ───────────────────────────────────────────────
+
+/** Days a free-bet token can be used for, unless the promotion sets its own */
+export const FREE_BET_EXPIRY_DAYS = 7;
+
 // ─── Referral System ───────────────────────────────────────────────────────
 
 /** Referral milestone rewards: { numberOfReferrals: rewardAmount (USD) } */
@@ -41,6 +41,23 @@ export const config = {
   GITHUB_CLIENT_SECRET: optionalEnv('GITHUB_CLIENT_SECRET'),
   GITHUB_CALLBACK_URL: optionalEnv('GITHUB_CALLBACK_URL', 'http://localhost:3001/api/auth/github/callback'),
 
+  // Reverse proxies allowed to set X-Forwarded-For and the country header:
+  // comma-separated addresses or CIDR blocks
+  TRUSTED_PROXIES: requireEnv('TRUSTED_PROXIES', '127.0.0.1,::1'),
+
+  // Geo-restriction: country header set by a trusted proxy/CDN (e.g. cf-ipcountry)
+  // and/or an offline CSV of `start,end,countryCode` IP ranges
+  GEO_COUNTRY_HEADER: optionalEnv('GEO_COUNTRY_HEADER'),
+  GEO_IP_DB_PATH: optionalEnv('GEO_IP_DB_PATH'),
+
+  // EVM deposits: HD key deposit addresses are derived from (m/44'/60'/0'/0/<index>).
+  // Prefer the account-level xpub; a mnemonic is accepted for local dev chains.
+  EVM_DEPOSIT_XPUB: optionalEnv('EVM_DEPOSIT_XPUB'),
+  EVM_DEPOSIT_MNEMONIC: optionalEnv('EVM_DEPOSIT_MNEMONIC'),
+
+  // EVM withdrawals: signing key of the HOT AdminWallet that pays them out
+  EVM_HOT_WALLET_PRIVATE_KEY: optionalEnv('EVM_HOT_WALLET_PRIVATE_KEY'),
+
   // Frontend
   FRONTEND_URL: requireEnv('FRONTEND_URL', 'http://localhost:3000'),
 
@@ -62,6 +79,17 @@ export const config = {
   SMTP_USER: optionalEnv('SMTP_USER'),
   SMTP_PASS: optionalEnv('SMTP_PASS'),
   SMTP_FROM: optionalEnv('SMTP_FROM', 'noreply@cryptobet.com'),
+  // Implicit TLS (port 465); otherwise STARTTLS is used when offered
+  SMTP_SECURE: optionalEnv('SMTP_SECURE', 'false') === 'true',
+
+  // Email delivery: 'smtp' or 'outbox' (JSON files in EMAIL_OUTBOX_DIR, for
+  // development and tests). Defaults to smtp when SMTP_HOST is set.
+  EMAIL_TRANSPORT: optionalEnv('EMAIL_TRANSPORT', process.env.SMTP_HOST ? 'smtp' : 'outbox') as 'smtp' | 'outbox',
+  EMAIL_OUTBOX_DIR: optionalEnv('EMAIL_OUTBOX_DIR', 'email-outbox')!,
+
+  // Withdrawals while a bonus is still being wagered: 'block' refuses them,
+  // 'forfeit' cancels the active bonuses and lets the withdrawal through
+  BONUS_WITHDRAWAL_POLICY: optionalEnv('BONUS_WITHDRAWAL_POLICY', 'block') as 'block' | 'forfeit',
 } as const;
 
 export type Config = typeof config;
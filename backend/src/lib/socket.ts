@@ -1,20 +1,133 @@
 import { Server as HttpServer } from 'http';
-import { Server as SocketIOServer, Socket } from 'socket.io';
+import { Server as SocketIOServer, Socket, type Namespace } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
 import { config } from '../config/index.js';
+import { createRedisConnection } from './redis.js';
+import { prisma } from './prisma.js';
+import { verifySocketToken, type JwtPayload } from '../middleware/auth.js';
+import { registerCommunityChatSocket } from '../modules/chat/chat.socket.js';
 
 let io: SocketIOServer | null = null;
 
 /** Only log socket events in non-production environments */
 const DEBUG = process.env.NODE_ENV !== 'production';
 
+/** Every namespace, so revocation can reach sockets on any of them */
+const NAMESPACES = ['/', '/live', '/casino', '/notifications', '/chat', '/admin'];
+
+const ADMIN_ROLES = ['ADMIN', 'SUPER_ADMIN'];
+
+/** Room in the /admin namespace that every connected admin joins */
+export const ADMIN_ROOM = 'admins';
+
+interface SocketData {
+  user?: JwtPayload;
+  sessionId?: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Handshake authentication
+// ---------------------------------------------------------------------------
+
+function handshakeToken(socket: Socket): string | null {
+  const auth = socket.handshake.auth as { token?: unknown } | undefined;
+  if (typeof auth?.token === 'string' && auth.token) {
+    return auth.token;
+  }
+
+  const header = socket.handshake.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length);
+  }
+
+  return null;
+}
+
+function authError(code: string, message: string): Error {
+  return Object.assign(new Error(message), { data: { code } });
+}
+
+/**
+ * Namespace middleware that verifies the handshake's access token
+ * (`auth: { token }` or an `Authorization: Bearer` header) and stores the
+ * user on `socket.data.user`. Guests without a token are let through unless
+ * `required`; a token that fails verification is always refused so the
+ * client knows to refresh it.
+ *
+ * Verified sockets then join `user:<id>` and `session:<id>` on connection
+ * (`joinPrivateRooms`); nothing else may join those rooms.
+ */
+function authenticateHandshake(options: { required?: boolean; roles?: string[] } = {}) {
+  return (socket: Socket, next: (err?: Error) => void): void => {
+    const token = handshakeToken(socket);
+
+    if (!token) {
+      if (options.required) {
+        next(authError('AUTH_REQUIRED', 'Authentication required.'));
+        return;
+      }
+      next();
+      return;
+    }
+
+    verifySocketToken(token)
+      .then((auth) => {
+        if (!auth) {
+          next(authError('AUTH_INVALID', 'Invalid or expired token.'));
+          return;
+        }
+        if (options.roles && !options.roles.includes(auth.user.role)) {
+          next(authError('FORBIDDEN', 'Access denied.'));
+          return;
+        }
+
+        const data = socket.data as SocketData;
+        data.user = auth.user;
+        data.sessionId = auth.sessionId;
+        next();
+      })
+      .catch((err: unknown) => {
+        console.error(`[Socket.IO] Handshake authentication failed on ${socket.id}:`, err);
+        next(authError('AUTH_FAILED', 'Authentication failed.'));
+      });
+  };
+}
+
+function joinPrivateRooms(socket: Socket): void {
+  const { user, sessionId } = socket.data as SocketData;
+  if (!user) return;
+  void socket.join(`user:${user.id}`);
+  if (sessionId) {
+    void socket.join(`session:${sessionId}`);
+  }
+}
+
+async function canJoinSupportRoom(user: JwtPayload, roomId: string): Promise<boolean> {
+  if (ADMIN_ROLES.includes(user.role)) return true;
+  const room = await prisma.chatRoom.findUnique({ where: { id: roomId }, select: { userId: true } });
+  return room?.userId === user.id;
+}
+
+/**
+ * The verified user behind a socket, or undefined for guests.
+ */
+export function socketUser(socket: Socket): JwtPayload | undefined {
+  return (socket.data as SocketData).user;
+}
+
 /**
  * Initializes the Socket.IO server, attaches it to the given HTTP server,
- * and sets up the four application namespaces:
+ * and sets up the application namespaces. Emits are relayed through
+ * Redis, so they reach clients connected to any backend instance:
  *
  *  /live           - live sports betting odds, scores, match updates
  *  /casino         - casino game state (crash multiplier, round results, etc.)
  *  /notifications  - per-user notification delivery
- *  /chat           - live chat between users and support
+ *  /chat           - support chat and the community chat rooms
+ *  /admin          - back-office events, ADMIN and SUPER_ADMIN only
+ *
+ * Every namespace authenticates the handshake token (see
+ * `authenticateHandshake`); /admin refuses anyone without an admin role.
  */
 export function setupSocketIO(httpServer: HttpServer): SocketIOServer {
   io = new SocketIOServer(httpServer, {
@@ -29,9 +142,26 @@ export function setupSocketIO(httpServer: HttpServer): SocketIOServer {
     maxHttpBufferSize: 1e6, // 1 MB
   });
 
+  // Fan out emits and room broadcasts across instances
+  const pubClient = createRedisConnection();
+  const subClient = pubClient.duplicate();
+  io.adapter(createAdapter(pubClient, subClient));
+
+  for (const name of NAMESPACES) {
+    const nsp = io.of(name);
+    nsp.use(
+      name === '/admin'
+        ? authenticateHandshake({ required: true, roles: ADMIN_ROLES })
+        : authenticateHandshake(),
+    );
+    nsp.on('connection', joinPrivateRooms);
+  }
+
   // ─── Default namespace (/) ─────────────────────────────────────────────
   io.on('connection', (socket: Socket) => {
     socket.on('join:room', (room: string) => {
+      // Private rooms are only joined through the handshake
+      if (typeof room !== 'string' || room.startsWith('user:') || room.startsWith('session:')) return;
       void socket.join(room);
     });
 
@@ -90,9 +220,15 @@ export function setupSocketIO(httpServer: HttpServer): SocketIOServer {
   // ─── /notifications namespace ──────────────────────────────────────────
   const notificationsNsp = io.of('/notifications');
   notificationsNsp.on('connection', (socket: Socket) => {
-    // Authenticate and join user-specific room for private notifications
-    socket.on('authenticate', (userId: string) => {
-      void socket.join(`user:${userId}`);
+    // Verified sockets are already in their user room. Kept for older
+    // clients; the id they send is ignored.
+    socket.on('authenticate', () => {
+      const user = socketUser(socket);
+      if (!user) {
+        socket.emit('error', { code: 'AUTH_REQUIRED', message: 'Authentication required.' });
+        return;
+      }
+      socket.emit('authenticated', { userId: user.id });
     });
 
     socket.on('error', (err: Error) => {
@@ -103,34 +239,50 @@ export function setupSocketIO(httpServer: HttpServer): SocketIOServer {
   // ─── /chat namespace ───────────────────────────────────────────────────
   const chatNsp = io.of('/chat');
   chatNsp.on('connection', (socket: Socket) => {
-    // Join a chat room (global lobby, support ticket, etc.)
+    // Join a support chat room: its owner or an admin only
     socket.on('join:channel', (channelId: string) => {
-      void socket.join(`channel:${channelId}`);
+      const user = socketUser(socket);
+      if (!user || typeof channelId !== 'string') return;
+      void canJoinSupportRoom(user, channelId)
+        .then((allowed) => {
+          if (allowed) return socket.join(`channel:${channelId}`);
+          socket.emit('error', { code: 'FORBIDDEN', message: 'You do not have access to this chat room' });
+        })
+        .catch((err: unknown) => {
+          console.error(`[Socket.IO /chat] join:channel failed on ${socket.id}:`, err);
+        });
     });
 
     socket.on('leave:channel', (channelId: string) => {
       void socket.leave(`channel:${channelId}`);
     });
 
-    // Relay a chat message to the channel
-    socket.on('message', (data: { channelId: string; content: string; userId: string }) => {
+    // Relay a chat message to the channel. The sender is the verified user,
+    // and only to a channel this socket has joined.
+    socket.on('message', (data: { channelId: string; content: string }) => {
+      const user = socketUser(socket);
+      if (!user || !socket.rooms.has(`channel:${data?.channelId}`)) return;
       chatNsp.to(`channel:${data.channelId}`).emit('message', {
-        userId: data.userId,
+        userId: user.id,
         content: data.content,
         timestamp: new Date().toISOString(),
       });
     });
 
     // Typing indicator
-    socket.on('typing:start', (data: { channelId: string; userId: string }) => {
+    socket.on('typing:start', (data: { channelId: string }) => {
+      const user = socketUser(socket);
+      if (!user || !socket.rooms.has(`channel:${data?.channelId}`)) return;
       socket.to(`channel:${data.channelId}`).emit('typing:start', {
-        userId: data.userId,
+        userId: user.id,
       });
     });
 
-    socket.on('typing:stop', (data: { channelId: string; userId: string }) => {
+    socket.on('typing:stop', (data: { channelId: string }) => {
+      const user = socketUser(socket);
+      if (!user || !socket.rooms.has(`channel:${data?.channelId}`)) return;
       socket.to(`channel:${data.channelId}`).emit('typing:stop', {
-        userId: data.userId,
+        userId: user.id,
       });
     });
 
@@ -139,12 +291,41 @@ export function setupSocketIO(httpServer: HttpServer): SocketIOServer {
     });
   });
 
+  // Community rooms (community:join / community:message)
+  registerCommunityChatSocket(chatNsp);
+
+  // ─── /admin namespace ──────────────────────────────────────────────────
+  const adminNsp = io.of('/admin');
+  adminNsp.on('connection', (socket: Socket) => {
+    void socket.join(ADMIN_ROOM);
+
+    socket.on('error', (err: Error) => {
+      console.error(`[Socket.IO /admin] Error on ${socket.id}:`, err.message);
+    });
+  });
+
   if (DEBUG) {
-    console.log('[Socket.IO] Server initialized with namespaces: /, /live, /casino, /notifications, /chat');
+    console.log(`[Socket.IO] Server initialized with namespaces: ${NAMESPACES.join(', ')}`);
   }
   return io;
 }
 
+/**
+ * Disconnect a user's live sockets on every namespace and instance, e.g.
+ * after logout or a ban. With `sessionId` only that session's sockets are
+ * dropped. A no-op before `setupSocketIO()`.
+ */
+export function disconnectSessionSockets(userId: string, sessionId?: string): void {
+  if (!io) return;
+  const room = sessionId ? `session:${sessionId}` : `user:${userId}`;
+  for (const name of NAMESPACES) {
+    const nsp: Namespace = io.of(name);
+    nsp.to(room).emit('session:revoked', { reason: 'SESSION_REVOKED' });
+    // Without closing the transport outright, so the event above is delivered first
+    nsp.in(room).disconnectSockets();
+  }
+}
+
 /**
  * Returns the singleton Socket.IO server instance.
  * Throws if `setupSocketIO()` has not been called yet.
@@ -156,4 +337,4 @@ export function getIO(): SocketIOServer {
   return io;
 }
 
-export default { setupSocketIO, getIO };
+export default { setupSocketIO, getIO, disconnectSessionSockets };
@@ -1,6 +1,7 @@
 import type { FastifyReply, FastifyRequest } from 'fastify';
 import jwt from 'jsonwebtoken';
 import { config } from '../config/index.js';
+import { prisma } from '../lib/prisma.js';
 
 export interface JwtPayload {
   id: string;
@@ -41,6 +42,11 @@ const cacheCleanupInterval = setInterval(() => {
       tokenCache.delete(key);
     }
   }
+  for (const [key, entry] of sessionCache) {
+    if (now - entry.checkedAt >= SESSION_CHECK_TTL_MS) {
+      sessionCache.delete(key);
+    }
+  }
 }, CACHE_TTL_MS);
 
 // Allow the process to exit cleanly without this interval keeping it alive
@@ -95,6 +101,116 @@ function verifyToken(token: string): JwtPayload {
   return payload;
 }
 
+// ---------------------------------------------------------------------------
+// Session checks
+// ---------------------------------------------------------------------------
+
+interface CachedSession {
+  sessionId: string | null;
+  deadline: number | null; // epoch ms after which the session is no longer valid
+  isRevoked: boolean;
+  checkedAt: number;
+}
+
+const sessionCache = new Map<string, CachedSession>();
+
+const SESSION_CHECK_TTL_MS = 30 * 1000; // re-read the Session row at most every 30s
+
+/**
+ * Load (or reuse the cached copy of) the login session behind an access
+ * token. A session ends when its row expires (logout-all, forced expiry by
+ * the session monitor) or when the user's responsible-gambling
+ * `sessionTimeout` has run out since the session started, in which case the
+ * row is expired here as well.
+ *
+ * Tokens without a Session row (issued at registration) are not tracked.
+ * `fresh` skips the cache and always re-reads the row.
+ */
+async function loadSession(token: string, fresh = false): Promise<CachedSession> {
+  const now = Date.now();
+  const cached = sessionCache.get(token);
+  if (!fresh && cached && now - cached.checkedAt < SESSION_CHECK_TTL_MS) {
+    return cached;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { token },
+    select: {
+      id: true,
+      expiresAt: true,
+      startedAt: true,
+      isRevoked: true,
+      user: { select: { sessionTimeout: true } },
+    },
+  });
+
+  if (!session) {
+    const untracked = { sessionId: null, deadline: null, isRevoked: false, checkedAt: now };
+    sessionCache.set(token, untracked);
+    return untracked;
+  }
+
+  let deadline = session.expiresAt.getTime();
+  if (session.user.sessionTimeout) {
+    const timeoutAt = session.startedAt.getTime() + session.user.sessionTimeout * 60 * 1000;
+    if (timeoutAt <= now && deadline > now) {
+      await prisma.session.update({
+        where: { id: session.id },
+        data: { expiresAt: new Date(timeoutAt) },
+      });
+    }
+    deadline = Math.min(deadline, timeoutAt);
+  }
+
+  const entry = { sessionId: session.id, deadline, isRevoked: session.isRevoked, checkedAt: now };
+  sessionCache.set(token, entry);
+  return entry;
+}
+
+/**
+ * Whether the login session behind an access token is still valid.
+ */
+async function isSessionActive(token: string): Promise<boolean> {
+  const session = await loadSession(token);
+  return session.deadline === null || session.deadline > Date.now();
+}
+
+// ---------------------------------------------------------------------------
+// Socket.IO handshake
+// ---------------------------------------------------------------------------
+
+export interface SocketAuth {
+  user: JwtPayload;
+  /** Session row behind the token, null for untracked tokens */
+  sessionId: string | null;
+}
+
+/**
+ * Verify the access token presented in a Socket.IO handshake. Returns null
+ * when the token is invalid or its session has ended.
+ *
+ * Unlike HTTP requests, a revoked session is refused here too: refresh
+ * rotation revokes the old session while requests made with its access
+ * token may still be in flight, but a new socket should always use the
+ * current token. The session row is always re-read (not the 30s cache), so
+ * a session revoked on any instance cannot open new sockets.
+ */
+export async function verifySocketToken(token: string): Promise<SocketAuth | null> {
+  let user: JwtPayload;
+  try {
+    user = verifyToken(token);
+  } catch {
+    return null;
+  }
+
+  const session = await loadSession(token, true);
+  if (session.isRevoked || (session.deadline !== null && session.deadline <= Date.now())) {
+    return null;
+  }
+
+  return { user, sessionId: session.sessionId };
+}
+
 /**
  * Required authentication middleware.
  * Rejects the request with 401 if no valid token is present.
@@ -116,8 +232,9 @@ export async function authenticate(
     return;
   }
 
+  let payload: JwtPayload;
   try {
-    request.user = verifyToken(token);
+    payload = verifyToken(token);
   } catch (err) {
     const message =
       err instanceof jwt.TokenExpiredError
@@ -133,7 +250,21 @@ export async function authenticate(
         message,
       },
     });
+    return;
   }
+
+  if (!(await isSessionActive(token))) {
+    void reply.status(401).send({
+      success: false,
+      error: {
+        code: 'SESSION_EXPIRED',
+        message: 'Your session has expired. Please log in again.',
+      },
+    });
+    return;
+  }
+
+  request.user = payload;
 }
 
 /**
@@ -151,7 +282,10 @@ export async function optionalAuth(
   }
 
   try {
-    request.user = verifyToken(token);
+    const payload = verifyToken(token);
+    if (await isSessionActive(token)) {
+      request.user = payload;
+    }
   } catch {
     // Token is invalid but auth is optional - continue without user
   }
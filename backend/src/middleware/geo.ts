@@ -0,0 +1,301 @@
+import { readFile } from 'fs/promises';
+import { isIP } from 'net';
+import type { FastifyReply, FastifyRequest, RouteGenericInterface } from 'fastify';
+import { config } from '../config/index.js';
+import { prisma } from '../lib/prisma.js';
+import { redis } from '../lib/redis.js';
+import { logger } from './logger.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** ISO 3166-1 alpha-2 country of the client, null when unknown. */
+    country?: string | null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Offline IP-range database
+// ---------------------------------------------------------------------------
+
+interface IpRange {
+  start: bigint;
+  end: bigint;
+  country: string;
+}
+
+/** IPv4 addresses are looked up in their IPv4-mapped IPv6 form (::ffff:a.b.c.d). */
+const IPV4_MAPPED_PREFIX = 0xffff00000000n;
+const MAX_IPV4 = 0xffffffffn;
+
+let ipRangesPromise: Promise<IpRange[]> | null = null;
+
+function parseIpv4(ip: string): bigint {
+  return ip.split('.').reduce((acc, part) => (acc << 8n) + BigInt(parseInt(part, 10)), 0n);
+}
+
+function parseIpv6(ip: string): bigint {
+  let address = ip.split('%')[0];
+
+  // Embedded IPv4 tail (e.g. ::ffff:1.2.3.4)
+  const lastColon = address.lastIndexOf(':');
+  const tail = address.slice(lastColon + 1);
+  if (tail.includes('.')) {
+    const v4 = parseIpv4(tail);
+    address = `${address.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const [head, rest] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const restGroups = rest ? rest.split(':') : [];
+  const missing = 8 - headGroups.length - restGroups.length;
+  const groups = rest !== undefined
+    ? [...headGroups, ...Array<string>(missing).fill('0'), ...restGroups]
+    : headGroups;
+
+  return groups.reduce((acc, group) => (acc << 16n) + BigInt(parseInt(group || '0', 16)), 0n);
+}
+
+/**
+ * Numeric form of an address in the IPv6 space. Returns null for anything
+ * that is not a valid IP.
+ */
+function ipToBigInt(ip: string): bigint | null {
+  const version = isIP(ip);
+  if (version === 4) return IPV4_MAPPED_PREFIX + parseIpv4(ip);
+  if (version === 6) return parseIpv6(ip);
+  return null;
+}
+
+/**
+ * Range boundary from the database: either an address or a plain integer
+ * (as in IP2Location-style exports, where values up to 2^32 are IPv4).
+ */
+function parseBoundary(value: string): bigint | null {
+  const trimmed = value.trim().replace(/^"|"$/g, '');
+  if (/^\d+$/.test(trimmed)) {
+    const n = BigInt(trimmed);
+    return n <= MAX_IPV4 ? IPV4_MAPPED_PREFIX + n : n;
+  }
+  return ipToBigInt(trimmed);
+}
+
+/**
+ * Load the CSV range database configured in GEO_IP_DB_PATH. Each line is
+ * `start,end,countryCode[,...]`; extra columns and unparseable lines are ignored.
+ */
+async function loadIpRanges(path: string): Promise<IpRange[]> {
+  const content = await readFile(path, 'utf-8');
+  const ranges: IpRange[] = [];
+
+  for (const line of content.split('\n')) {
+    const [startRaw, endRaw, countryRaw] = line.split(',');
+    if (!startRaw || !endRaw || !countryRaw) continue;
+
+    const start = parseBoundary(startRaw);
+    const end = parseBoundary(endRaw);
+    const country = countryRaw.trim().replace(/^"|"$/g, '').toUpperCase();
+    if (start === null || end === null || !/^[A-Z]{2}$/.test(country)) continue;
+
+    ranges.push({ start, end, country });
+  }
+
+  ranges.sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+  logger.info({ path, ranges: ranges.length }, '[Geo] IP range database loaded');
+  return ranges;
+}
+
+function getIpRanges(): Promise<IpRange[]> {
+  if (!config.GEO_IP_DB_PATH) return Promise.resolve([]);
+  if (!ipRangesPromise) {
+    ipRangesPromise = loadIpRanges(config.GEO_IP_DB_PATH).catch((err) => {
+      const msg = err instanceof Error ? err.message : String(err);
+      logger.error({ error: msg, path: config.GEO_IP_DB_PATH }, '[Geo] Failed to load IP range database');
+      return [];
+    });
+  }
+  return ipRangesPromise;
+}
+
+/**
+ * Country for an IP address from the offline database, or null when the
+ * address is private, unknown or no database is configured.
+ */
+export async function lookupCountryByIp(ip: string): Promise<string | null> {
+  const value = ipToBigInt(ip);
+  if (value === null) return null;
+
+  const ranges = await getIpRanges();
+  let lo = 0;
+  let hi = ranges.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const range = ranges[mid];
+    if (value < range.start) {
+      hi = mid - 1;
+    } else if (value > range.end) {
+      lo = mid + 1;
+    } else {
+      return range.country;
+    }
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Trusted proxies
+// ---------------------------------------------------------------------------
+
+interface CidrRange {
+  start: bigint;
+  end: bigint;
+}
+
+/**
+ * Parse an address or CIDR block (`10.0.0.0/8`, `fd00::/8`) into a range in
+ * the IPv6 space. IPv4 prefixes are widened to their IPv4-mapped form.
+ */
+function parseCidr(entry: string): CidrRange | null {
+  const [address, bitsRaw] = entry.trim().split('/');
+  const base = ipToBigInt(address);
+  if (base === null) return null;
+
+  const maxBits = isIP(address) === 4 ? 32 : 128;
+  const bits = bitsRaw === undefined ? maxBits : parseInt(bitsRaw, 10);
+  if (!Number.isInteger(bits) || bits < 0 || bits > maxBits) return null;
+
+  const hostMask = (1n << BigInt(maxBits - bits)) - 1n;
+  return { start: base & ~hostMask, end: base | hostMask };
+}
+
+const trustedProxyRanges: CidrRange[] = config.TRUSTED_PROXIES
+  .split(',')
+  .filter((entry) => entry.trim() !== '')
+  .map((entry) => {
+    const range = parseCidr(entry);
+    if (!range) logger.warn({ entry }, '[Geo] Ignoring invalid TRUSTED_PROXIES entry');
+    return range;
+  })
+  .filter((range): range is CidrRange => range !== null);
+
+/**
+ * Whether `address` is one of our reverse proxies (TRUSTED_PROXIES). Used as
+ * Fastify's `trustProxy` so X-Forwarded-For is only honoured for hops through
+ * them, and to decide whether the country header can be believed.
+ */
+export function isTrustedProxy(address: string | undefined): boolean {
+  if (!address) return false;
+  const value = ipToBigInt(address);
+  if (value === null) return false;
+  return trustedProxyRanges.some((range) => value >= range.start && value <= range.end);
+}
+
+// ---------------------------------------------------------------------------
+// Country resolution hook
+// ---------------------------------------------------------------------------
+
+/**
+ * Global onRequest hook: resolves `request.country`. A country header
+ * (GEO_COUNTRY_HEADER, e.g. `cf-ipcountry`) wins when the request reached us
+ * directly from a trusted proxy; otherwise the client IP is looked up in the
+ * offline range database.
+ */
+export async function resolveCountry(request: FastifyRequest): Promise<void> {
+  request.country = null;
+
+  if (config.GEO_COUNTRY_HEADER && isTrustedProxy(request.socket.remoteAddress)) {
+    const header = request.headers[config.GEO_COUNTRY_HEADER.toLowerCase()];
+    const value = (Array.isArray(header) ? header[0] : header)?.trim().toUpperCase();
+    // XX = unknown (Cloudflare convention)
+    if (value && /^[A-Z]{2}$/.test(value) && value !== 'XX') {
+      request.country = value;
+      return;
+    }
+  }
+
+  try {
+    request.country = await lookupCountryByIp(request.ip);
+  } catch {
+    // Unresolvable address - leave country unknown
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Blocked countries
+// ---------------------------------------------------------------------------
+
+/** Invalidated by the admin geo-restriction endpoints. */
+export const GEO_RESTRICTIONS_CACHE_KEY = 'geo:restrictions';
+const GEO_RESTRICTIONS_CACHE_TTL = 300; // 5 minutes
+
+async function getBlockedCountries(): Promise<Set<string>> {
+  const cached = await redis.get(GEO_RESTRICTIONS_CACHE_KEY);
+  if (cached) {
+    return new Set(JSON.parse(cached) as string[]);
+  }
+
+  const restrictions = await prisma.geoRestriction.findMany({
+    where: { isBlocked: true },
+    select: { countryCode: true },
+  });
+  const codes = restrictions.map((r) => r.countryCode.toUpperCase());
+  await redis.setex(GEO_RESTRICTIONS_CACHE_KEY, GEO_RESTRICTIONS_CACHE_TTL, JSON.stringify(codes));
+  return new Set(codes);
+}
+
+/**
+ * Whether the country is blocked by a GeoRestriction row.
+ */
+export async function isCountryBlocked(country: string | null | undefined): Promise<boolean> {
+  if (!country) return false;
+  const blocked = await getBlockedCountries();
+  return blocked.has(country.toUpperCase());
+}
+
+// ---------------------------------------------------------------------------
+// Guard
+// ---------------------------------------------------------------------------
+
+/**
+ * Geo-restriction guard for registration, deposits, bets and casino play.
+ * Rejects with 403 GEO_RESTRICTED when the resolved country is blocked, unless
+ * the authenticated user has been whitelisted by an admin. Use AFTER
+ * authenticate on authenticated routes so the whitelist can be checked.
+ * Requests whose country cannot be resolved are allowed.
+ */
+export async function geoGuard<RouteGeneric extends RouteGenericInterface>(
+  request: FastifyRequest<RouteGeneric>,
+  reply: FastifyReply,
+): Promise<void> {
+  const country = request.country;
+  if (!(await isCountryBlocked(country))) return;
+
+  if (request.user) {
+    const user = await prisma.user.findUnique({
+      where: { id: request.user.id },
+      select: { isGeoWhitelisted: true },
+    });
+    if (user?.isGeoWhitelisted) return;
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      userId: request.user?.id,
+      action: 'GEO_BLOCKED',
+      resource: 'request',
+      details: { method: request.method, url: request.url },
+      ipAddress: request.ip,
+      userAgent: request.headers['user-agent'],
+      country,
+    },
+  });
+
+  void reply.status(403).send({
+    success: false,
+    error: {
+      code: 'GEO_RESTRICTED',
+      message: 'This service is not available in your country.',
+    },
+  });
+}
+
+export default { resolveCountry, geoGuard };
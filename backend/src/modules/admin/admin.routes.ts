@@ -1,7 +1,9 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../../lib/prisma.js';
+import { redis } from '../../lib/redis.js';
 import { logger } from '../../middleware/logger.js';
 import { authenticate, adminGuard } from '../../middleware/auth.js';
+import { GEO_RESTRICTIONS_CACHE_KEY } from '../../middleware/geo.js';
 import { validate, validateParams, validateQuery } from '../../middleware/validate.js';
 import * as adminService from './admin.service.js';
 import { AdminError } from './admin.service.js';
@@ -23,11 +25,15 @@ import {
   listUsersQuerySchema,
   editUserSchema,
   banUserSchema,
+  geoWhitelistSchema,
+  stakeMultiplierSchema,
   adjustBalanceSchema,
   addNoteSchema,
   type ListUsersQuery,
   type EditUserInput,
   type BanUserInput,
+  type GeoWhitelistInput,
+  type StakeMultiplierInput,
   type AdjustBalanceInput,
   type AddNoteInput,
   // KYC
@@ -46,16 +52,30 @@ import {
   listGameConfigsQuerySchema,
   updateGameConfigSchema,
   updateHouseEdgeSchema,
+  createCrashSeedChainSchema,
+  activateCrashSeedChainSchema,
+  listTournamentsQuerySchema,
+  createTournamentSchema,
+  updateTournamentSchema,
+  cancelTournamentSchema,
   type ListGameConfigsQuery,
   type UpdateGameConfigInput,
   type UpdateHouseEdgeInput,
+  type CreateCrashSeedChainInput,
+  type ActivateCrashSeedChainInput,
+  type ListTournamentsQuery,
+  type CreateTournamentInput,
+  type UpdateTournamentInput,
+  type CancelTournamentInput,
   // Financial
   listTransactionsQuerySchema,
   listWithdrawalsQuerySchema,
   withdrawalActionSchema,
+  completeWithdrawalSchema,
   type ListTransactionsQuery,
   type ListWithdrawalsQuery,
   type WithdrawalActionInput,
+  type CompleteWithdrawalInput,
   // Sports
   createSportSchema,
   updateSportSchema,
@@ -86,10 +106,13 @@ import {
   listOddsProvidersQuerySchema,
   configureOddsProviderSchema,
   createOddsProviderSchema,
+  listOddsBoostsQuerySchema,
+  createOddsBoostSchema,
   type SyncOddsInput,
   type ListOddsProvidersQuery,
   type ConfigureOddsProviderInput,
   type CreateOddsProviderInput,
+  type CreateOddsBoostInput,
   // Promotions
   createPromotionSchema,
   updatePromotionSchema,
@@ -477,6 +500,34 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
     },
   );
 
+  // PUT /admin/users/:userId/geo-whitelist
+  fastify.put(
+    '/admin/users/:userId/geo-whitelist',
+    { preHandler: [validateParams(userIdParams), validate(geoWhitelistSchema)] },
+    async (request: FastifyRequest<{ Params: UserIdParams; Body: GeoWhitelistInput }>, reply: FastifyReply) => {
+      try {
+        const user = await adminService.setGeoWhitelist(request.params.userId, request.body, request.user!.id);
+        return reply.send({ success: true, data: { user } });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    },
+  );
+
+  // PUT /admin/users/:userId/stake-multiplier
+  fastify.put(
+    '/admin/users/:userId/stake-multiplier',
+    { preHandler: [validateParams(userIdParams), validate(stakeMultiplierSchema)] },
+    async (request: FastifyRequest<{ Params: UserIdParams; Body: StakeMultiplierInput }>, reply: FastifyReply) => {
+      try {
+        const riskProfile = await adminService.setStakeMultiplier(request.params.userId, request.body, request.user!.id);
+        return reply.send({ success: true, data: { riskProfile } });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    },
+  );
+
   // POST /admin/users/:userId/adjust-balance
   fastify.post(
     '/admin/users/:userId/adjust-balance',
@@ -657,6 +708,117 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
     },
   );
 
+  // GET /admin/casino/crash/chains
+  fastify.get(
+    '/admin/casino/crash/chains',
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const chains = await adminService.listCrashSeedChains();
+        return reply.send({ success: true, data: { chains } });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    },
+  );
+
+  // POST /admin/casino/crash/chains
+  fastify.post(
+    '/admin/casino/crash/chains',
+    { preHandler: [validate(createCrashSeedChainSchema)] },
+    async (request: FastifyRequest<{ Body: CreateCrashSeedChainInput }>, reply: FastifyReply) => {
+      try {
+        const chain = await adminService.createCrashSeedChain(request.body, request.user!.id);
+        return reply.status(201).send({ success: true, data: { chain } });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    },
+  );
+
+  // POST /admin/casino/crash/chains/:id/activate
+  fastify.post(
+    '/admin/casino/crash/chains/:id/activate',
+    { preHandler: [validateParams(idParams), validate(activateCrashSeedChainSchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: ActivateCrashSeedChainInput }>, reply: FastifyReply) => {
+      try {
+        const chain = await adminService.activateCrashSeedChain(request.params.id, request.body, request.user!.id);
+        return reply.send({ success: true, data: { chain } });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    },
+  );
+
+  // GET /admin/casino/tournaments
+  fastify.get(
+    '/admin/casino/tournaments',
+    { preHandler: [validateQuery(listTournamentsQuerySchema)] },
+    async (request: FastifyRequest<{ Querystring: ListTournamentsQuery }>, reply: FastifyReply) => {
+      try {
+        const result = await adminService.listTournaments(request.query);
+        return reply.send({ success: true, data: result });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    },
+  );
+
+  // GET /admin/casino/tournaments/:id
+  fastify.get(
+    '/admin/casino/tournaments/:id',
+    { preHandler: [validateParams(idParams)] },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      try {
+        const result = await adminService.getTournament(request.params.id);
+        return reply.send({ success: true, data: result });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    },
+  );
+
+  // POST /admin/casino/tournaments
+  fastify.post(
+    '/admin/casino/tournaments',
+    { preHandler: [validate(createTournamentSchema)] },
+    async (request: FastifyRequest<{ Body: CreateTournamentInput }>, reply: FastifyReply) => {
+      try {
+        const tournament = await adminService.createTournament(request.body, request.user!.id);
+        return reply.status(201).send({ success: true, data: { tournament } });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    },
+  );
+
+  // PUT /admin/casino/tournaments/:id
+  fastify.put(
+    '/admin/casino/tournaments/:id',
+    { preHandler: [validateParams(idParams), validate(updateTournamentSchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: UpdateTournamentInput }>, reply: FastifyReply) => {
+      try {
+        const tournament = await adminService.updateTournament(request.params.id, request.body, request.user!.id);
+        return reply.send({ success: true, data: { tournament } });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    },
+  );
+
+  // POST /admin/casino/tournaments/:id/cancel
+  fastify.post(
+    '/admin/casino/tournaments/:id/cancel',
+    { preHandler: [validateParams(idParams), validate(cancelTournamentSchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: CancelTournamentInput }>, reply: FastifyReply) => {
+      try {
+        const result = await adminService.cancelTournament(request.params.id, request.body, request.user!.id);
+        return reply.send({ success: true, data: result });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    },
+  );
+
   // =========================================================================
   // FINANCIAL MANAGEMENT
   // =========================================================================
@@ -717,6 +879,34 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
     },
   );
 
+  // POST /admin/withdrawals/:id/complete - record a payout made by hand
+  fastify.post(
+    '/admin/withdrawals/:id/complete',
+    { preHandler: [validateParams(idParams), validate(completeWithdrawalSchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: CompleteWithdrawalInput }>, reply: FastifyReply) => {
+      try {
+        const result = await adminService.completeWithdrawal(request.params.id, request.body, request.user!.id);
+        return reply.send({ success: true, data: result });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    },
+  );
+
+  // POST /admin/deposits/:id/release - credit a deposit held by a deposit limit
+  fastify.post(
+    '/admin/deposits/:id/release',
+    { preHandler: [validateParams(idParams)] },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      try {
+        const result = await adminService.releaseHeldDeposit(request.params.id, request.user!.id);
+        return reply.send({ success: true, data: result });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    },
+  );
+
   // =========================================================================
   // SPORTS MANAGEMENT
   // =========================================================================
@@ -1013,6 +1203,54 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
     },
   );
 
+  // GET /admin/odds-boosts
+  fastify.get(
+    '/admin/odds-boosts',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const query = listOddsBoostsQuerySchema.safeParse(request.query);
+      if (!query.success) {
+        return reply.status(400).send({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: query.error.issues[0]?.message ?? 'Invalid query' },
+        });
+      }
+      try {
+        const result = await adminService.listOddsBoosts(query.data);
+        return reply.send({ success: true, data: result });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    },
+  );
+
+  // POST /admin/odds-boosts
+  fastify.post(
+    '/admin/odds-boosts',
+    { preHandler: [validate(createOddsBoostSchema)] },
+    async (request: FastifyRequest<{ Body: CreateOddsBoostInput }>, reply: FastifyReply) => {
+      try {
+        const boost = await adminService.createOddsBoost(request.body, request.user!.id);
+        return reply.status(201).send({ success: true, data: { boost } });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    },
+  );
+
+  // DELETE /admin/odds-boosts/:id (deactivates; settled bets keep their boost)
+  fastify.delete(
+    '/admin/odds-boosts/:id',
+    { preHandler: [validateParams(idParams)] },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      try {
+        const boost = await adminService.deactivateOddsBoost(request.params.id, request.user!.id);
+        return reply.send({ success: true, data: { boost } });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    },
+  );
+
   // =========================================================================
   // PROMOTIONS MANAGEMENT
   // =========================================================================
@@ -1594,6 +1832,7 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
         const restriction = await prisma.geoRestriction.create({
           data: { countryCode, countryName: countryName || countryCode, isBlocked: true },
         });
+        await redis.del(GEO_RESTRICTIONS_CACHE_KEY);
         return reply.send({ success: true, data: restriction });
       } catch (error) {
         handleError(error, reply);
@@ -1607,6 +1846,7 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
     async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
       try {
         await prisma.geoRestriction.delete({ where: { id: request.params.id } });
+        await redis.del(GEO_RESTRICTIONS_CACHE_KEY);
         return reply.send({ success: true, data: { message: 'Restriction removed' } });
       } catch (error) {
         handleError(error, reply);
@@ -3877,6 +4117,7 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
             });
             results.push(result);
           }
+          await redis.del(GEO_RESTRICTIONS_CACHE_KEY);
           return reply.send({ success: true, data: results });
         }
         // Single update
@@ -3895,6 +4136,7 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
               reason: body.reason || null,
             },
           });
+          await redis.del(GEO_RESTRICTIONS_CACHE_KEY);
           return reply.send({ success: true, data: result });
         }
         return reply.send({ success: true, data: { message: 'No changes' } });
@@ -3927,6 +4169,7 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
             reason: reason || null,
           },
         });
+        await redis.del(GEO_RESTRICTIONS_CACHE_KEY);
         return reply.send({ success: true, data: restriction });
       } catch (error) {
         handleError(error, reply);
@@ -3940,6 +4183,7 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
     async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
       try {
         await prisma.geoRestriction.delete({ where: { id: request.params.id } });
+        await redis.del(GEO_RESTRICTIONS_CACHE_KEY);
         return reply.send({ success: true, data: { message: 'Restriction removed' } });
       } catch (error) {
         handleError(error, reply);
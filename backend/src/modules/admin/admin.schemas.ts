@@ -129,6 +129,18 @@ export const banUserSchema = z.object({
 });
 export type BanUserInput = z.infer<typeof banUserSchema>;
 
+export const geoWhitelistSchema = z.object({
+  whitelisted: z.boolean(),
+  reason: z.string().max(1000).optional(),
+});
+export type GeoWhitelistInput = z.infer<typeof geoWhitelistSchema>;
+
+export const stakeMultiplierSchema = z.object({
+  multiplier: z.number().positive().max(99),
+  reason: z.string().max(1000).optional(),
+});
+export type StakeMultiplierInput = z.infer<typeof stakeMultiplierSchema>;
+
 export const adjustBalanceSchema = z.object({
   currencySymbol: z.string().min(1).optional(),
   currency: z.string().min(1).optional(),
@@ -229,6 +241,59 @@ export const updateHouseEdgeSchema = z.object({
 });
 export type UpdateHouseEdgeInput = z.infer<typeof updateHouseEdgeSchema>;
 
+export const createCrashSeedChainSchema = z.object({
+  length: z.number().int().min(1).max(1_000_000),
+  clientSeedSource: z.string().min(1, 'Describe the public value the client seed will be taken from').max(500),
+});
+export type CreateCrashSeedChainInput = z.infer<typeof createCrashSeedChainSchema>;
+
+export const activateCrashSeedChainSchema = z.object({
+  clientSeed: z.string().min(1, 'Client seed is required').max(256),
+});
+export type ActivateCrashSeedChainInput = z.infer<typeof activateCrashSeedChainSchema>;
+
+export const listTournamentsQuerySchema = paginationSchema.extend({
+  status: z.enum(['upcoming', 'active', 'completed', 'cancelled']).optional(),
+  gameSlug: z.string().optional(),
+});
+export type ListTournamentsQuery = z.infer<typeof listTournamentsQuerySchema>;
+
+const tournamentFieldsSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  gameSlug: z.string().min(1, 'Game slug is required'),
+  scoringType: z.enum(['highest_multiplier', 'most_profit', 'wagering_volume']),
+  entryFee: z.number().min(0),
+  currency: z.string().min(1).max(20),
+  basePrizePool: z.number().min(0),
+  // Share of the prize pool per rank, from 1st place down
+  prizeDistribution: z
+    .array(z.number().min(0).max(1))
+    .min(1)
+    .max(100)
+    .refine((shares) => shares.reduce((sum, s) => sum + s, 0) <= 1 + 1e-9, 'Prize shares must not exceed 100%')
+    .optional(),
+  maxParticipants: z.number().int().min(1),
+  minParticipants: z.number().int().min(1).optional().default(1),
+  startTime: z.string().refine((v) => !isNaN(Date.parse(v)), 'Invalid date format'),
+  endTime: z.string().refine((v) => !isNaN(Date.parse(v)), 'Invalid date format'),
+});
+
+export const createTournamentSchema = tournamentFieldsSchema
+  .refine((t) => Date.parse(t.endTime) > Date.parse(t.startTime), 'endTime must be after startTime')
+  .refine((t) => t.minParticipants <= t.maxParticipants, 'minParticipants must not exceed maxParticipants');
+export type CreateTournamentInput = z.infer<typeof createTournamentSchema>;
+
+export const updateTournamentSchema = tournamentFieldsSchema.partial().extend({
+  minParticipants: z.number().int().min(1).optional(),
+});
+export type UpdateTournamentInput = z.infer<typeof updateTournamentSchema>;
+
+export const cancelTournamentSchema = z.object({
+  reason: z.string().min(1, 'Cancellation reason is required').max(1000),
+});
+export type CancelTournamentInput = z.infer<typeof cancelTournamentSchema>;
+
 // =============================================================================
 // Financial Management
 // =============================================================================
@@ -254,6 +319,11 @@ export const withdrawalActionSchema = z.object({
 });
 export type WithdrawalActionInput = z.infer<typeof withdrawalActionSchema>;
 
+export const completeWithdrawalSchema = z.object({
+  txHash: z.string().trim().min(1).max(200),
+});
+export type CompleteWithdrawalInput = z.infer<typeof completeWithdrawalSchema>;
+
 // =============================================================================
 // Sports Management
 // =============================================================================
@@ -275,6 +345,7 @@ export const updateSportSchema = z.object({
   active: z.boolean().optional(),
   sortOrder: z.number().int().optional(),
   order: z.number().int().optional(),
+  maxLiability: z.number().positive().nullable().optional(),
 });
 export type UpdateSportInput = z.infer<typeof updateSportSchema>;
 
@@ -327,6 +398,7 @@ export const updateEventSchema = z.object({
   isFeatured: z.boolean().optional(),
   isLive: z.boolean().optional(),
   streamUrl: z.string().url().nullable().optional(),
+  maxLiability: z.number().positive().nullable().optional(),
 });
 export type UpdateEventInput = z.infer<typeof updateEventSchema>;
 
@@ -363,6 +435,7 @@ export const updateMarketSchema = z.object({
   status: z.enum(['OPEN', 'SUSPENDED', 'SETTLED', 'CANCELLED', 'VOIDED']).optional(),
   period: z.string().max(20).optional(),
   sortOrder: z.number().int().optional(),
+  maxLiability: z.number().positive().nullable().optional(),
 });
 export type UpdateMarketInput = z.infer<typeof updateMarketSchema>;
 
@@ -445,6 +518,29 @@ export const createOddsProviderSchema = z.object({
 });
 export type CreateOddsProviderInput = z.infer<typeof createOddsProviderSchema>;
 
+export const listOddsBoostsQuerySchema = paginationSchema.extend({
+  isActive: z
+    .string()
+    .optional()
+    .transform((v) => (v === 'true' ? true : v === 'false' ? false : undefined)),
+  eventId: z.string().optional(),
+});
+export type ListOddsBoostsQuery = z.infer<typeof listOddsBoostsQuerySchema>;
+
+export const createOddsBoostSchema = z
+  .object({
+    selectionId: z.string().min(1, 'Selection ID is required'),
+    // Restrict the boost to users who claimed this ODDS_BOOST promotion
+    promotionId: z.string().min(1).optional(),
+    title: z.string().max(200).optional(),
+    boostedOdds: z.number().positive().min(1.001, 'Odds must be > 1'),
+    maxStakeUsd: z.number().positive(),
+    startsAt: z.string().refine((v) => !isNaN(Date.parse(v)), 'Invalid date format').optional(),
+    expiresAt: z.string().refine((v) => !isNaN(Date.parse(v)), 'Invalid date format'),
+  })
+  .refine((b) => !b.startsAt || Date.parse(b.expiresAt) > Date.parse(b.startsAt), 'expiresAt must be after startsAt');
+export type CreateOddsBoostInput = z.infer<typeof createOddsBoostSchema>;
+
 // =============================================================================
 // Promotions Management
 // =============================================================================
@@ -1,11 +1,22 @@
 import { Prisma, type EventStatus, type MarketStatus, type SelectionStatus, type SelectionResult } from '@prisma/client';
 import { prisma } from '../../lib/prisma.js';
 import { redis } from '../../lib/redis.js';
+import { disconnectSessionSockets } from '../../lib/socket.js';
+import { GEO_RESTRICTIONS_CACHE_KEY } from '../../middleware/geo.js';
 import { oddsSyncQueue, betSettlementQueue } from '../../queues/index.js';
+import { queueWithdrawalBroadcast, supportsAutomaticPayout } from '../../services/withdrawal-broadcaster.js';
+import { createSeedChain, activateSeedChain, listSeedChains } from '../casino/games/crash/crash-chain.service.js';
+import { tournamentService, type TournamentInput } from '../casino/tournament.service.js';
+import { GameError } from '../../services/casino/BaseGame.js';
+import { bonusShareOf, creditStakeReturn } from '../promotions/bonus.service.js';
+import { reinstateFreeBet } from '../betting/freeBet.service.js';
+import { creditHeldDeposit } from '../wallets/deposit.service.js';
 import type {
   ListUsersQuery,
   EditUserInput,
   BanUserInput,
+  GeoWhitelistInput,
+  StakeMultiplierInput,
   AdjustBalanceInput,
   AddNoteInput,
   ListKycQuery,
@@ -16,9 +27,16 @@ import type {
   ListGameConfigsQuery,
   UpdateGameConfigInput,
   UpdateHouseEdgeInput,
+  CreateCrashSeedChainInput,
+  ActivateCrashSeedChainInput,
+  ListTournamentsQuery,
+  CreateTournamentInput,
+  UpdateTournamentInput,
+  CancelTournamentInput,
   ListTransactionsQuery,
   ListWithdrawalsQuery,
   WithdrawalActionInput,
+  CompleteWithdrawalInput,
   CreateSportInput,
   UpdateSportInput,
   ListSportsQuery,
@@ -35,6 +53,8 @@ import type {
   ListOddsProvidersQuery,
   ConfigureOddsProviderInput,
   CreateOddsProviderInput,
+  ListOddsBoostsQuery,
+  CreateOddsBoostInput,
   CreatePromotionInput,
   UpdatePromotionInput,
   ListPromotionsQuery,
@@ -607,6 +627,8 @@ export async function getUser(userId: string) {
           avgStake: user.riskProfile.avgStake.toString(),
           maxStake: user.riskProfile.maxStake.toString(),
           flags: user.riskProfile.flags,
+          stakeFactor: user.riskProfile.stakeFactor.toString(),
+          stakeMultiplier: user.riskProfile.stakeMultiplier.toString(),
         }
       : null,
     notes: user.adminNotes.map((n) => ({
@@ -672,6 +694,7 @@ export async function banUser(userId: string, input: BanUserInput, adminId: stri
     where: { userId, isRevoked: false },
     data: { isRevoked: true },
   });
+  disconnectSessionSockets(userId);
 
   await createAuditLog(adminId, 'BAN_USER', 'user', userId, { reason: input.reason });
   return updated;
@@ -692,6 +715,53 @@ export async function unbanUser(userId: string, adminId: string) {
   return updated;
 }
 
+/**
+ * Exempt a user from (or re-subject them to) country blocking.
+ */
+export async function setGeoWhitelist(userId: string, input: GeoWhitelistInput, adminId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) throw new AdminError('USER_NOT_FOUND', 'User not found', 404);
+
+  const updated = await prisma.user.update({
+    where: { id: userId },
+    data: { isGeoWhitelisted: input.whitelisted },
+    select: { id: true, email: true, username: true, isGeoWhitelisted: true },
+  });
+
+  await createAuditLog(
+    adminId,
+    input.whitelisted ? 'GEO_WHITELIST_USER' : 'GEO_UNWHITELIST_USER',
+    'user',
+    userId,
+    { reason: input.reason },
+  );
+  return updated;
+}
+
+export async function setStakeMultiplier(userId: string, input: StakeMultiplierInput, adminId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) throw new AdminError('USER_NOT_FOUND', 'User not found', 404);
+
+  const multiplier = new Prisma.Decimal(input.multiplier);
+  const profile = await prisma.userRiskProfile.upsert({
+    where: { userId },
+    create: { userId, stakeMultiplier: multiplier },
+    update: { stakeMultiplier: multiplier },
+    select: { userId: true, riskLevel: true, stakeFactor: true, stakeMultiplier: true },
+  });
+
+  await createAuditLog(adminId, 'SET_STAKE_MULTIPLIER', 'user', userId, {
+    multiplier: input.multiplier,
+    reason: input.reason,
+  });
+  return {
+    userId: profile.userId,
+    riskLevel: profile.riskLevel,
+    stakeFactor: profile.stakeFactor.toString(),
+    stakeMultiplier: profile.stakeMultiplier.toString(),
+  };
+}
+
 export async function adjustBalance(userId: string, input: AdjustBalanceInput, adminId: string) {
   const user = await prisma.user.findUnique({ where: { id: userId } });
   if (!user) throw new AdminError('USER_NOT_FOUND', 'User not found', 404);
@@ -1042,6 +1112,12 @@ export async function voidBet(betId: string, input: VoidBetInput, adminId: strin
       data: { status: 'VOID' },
     });
 
+    // Free bets get their token back instead of a refund
+    if (bet.freeBetId) {
+      await reinstateFreeBet(tx, bet.freeBetId);
+      return voidedBet;
+    }
+
     // Refund stake to user wallet
     const currency = await tx.currency.findUnique({
       where: { symbol: bet.currencySymbol },
@@ -1054,10 +1130,7 @@ export async function voidBet(betId: string, input: VoidBetInput, adminId: strin
       });
 
       if (wallet) {
-        await tx.wallet.update({
-          where: { id: wallet.id },
-          data: { balance: { increment: bet.stake } },
-        });
+        await creditStakeReturn(tx, wallet.id, bet.stake, bonusShareOf(bet.stake, bet.bonusStake));
 
         await tx.transaction.create({
           data: {
@@ -1083,9 +1156,10 @@ export async function voidBet(betId: string, input: VoidBetInput, adminId: strin
     userId: bet.userId,
     stake: bet.stake.toString(),
     reason: input.reason,
+    ...(bet.freeBetId ? { freeBetId: bet.freeBetId } : {}),
   });
 
-  return { bet: result, refundedAmount: bet.stake.toString() };
+  return { bet: result, refundedAmount: bet.freeBetId ? '0' : bet.stake.toString() };
 }
 
 export async function settleManually(betId: string, input: SettleManuallyInput, adminId: string) {
@@ -1119,10 +1193,7 @@ export async function settleManually(betId: string, input: SettleManuallyInput,
         });
 
         if (wallet) {
-          await tx.wallet.update({
-            where: { id: wallet.id },
-            data: { balance: { increment: actualWin } },
-          });
+          await creditStakeReturn(tx, wallet.id, actualWin, bonusShareOf(bet.stake, bet.bonusStake));
 
           await tx.transaction.create({
             data: {
@@ -1140,6 +1211,10 @@ export async function settleManually(betId: string, input: SettleManuallyInput,
           });
         }
       }
+    } else if (input.result === 'VOID' && bet.freeBetId) {
+      // Free bets get their token back instead of a refund
+      actualWin = new Prisma.Decimal(0);
+      await reinstateFreeBet(tx, bet.freeBetId);
     } else if (input.result === 'VOID') {
       // Refund stake
       actualWin = bet.stake;
@@ -1154,10 +1229,7 @@ export async function settleManually(betId: string, input: SettleManuallyInput,
         });
 
         if (wallet) {
-          await tx.wallet.update({
-            where: { id: wallet.id },
-            data: { balance: { increment: bet.stake } },
-          });
+          await creditStakeReturn(tx, wallet.id, bet.stake, bonusShareOf(bet.stake, bet.bonusStake));
 
           await tx.transaction.create({
             data: {
@@ -1311,6 +1383,181 @@ export async function updateHouseEdge(input: UpdateHouseEdgeInput, adminId: stri
   };
 }
 
+export async function listCrashSeedChains() {
+  return listSeedChains();
+}
+
+export async function createCrashSeedChain(input: CreateCrashSeedChainInput, adminId: string) {
+  const chain = await createSeedChain(input.length, input.clientSeedSource);
+
+  await createAuditLog(adminId, 'CREATE_CRASH_SEED_CHAIN', 'crash_seed_chain', chain.id, {
+    length: chain.length,
+    terminatingHash: chain.terminatingHash,
+    clientSeedSource: chain.clientSeedSource,
+  });
+
+  return chain;
+}
+
+export async function activateCrashSeedChain(chainId: string, input: ActivateCrashSeedChainInput, adminId: string) {
+  const chain = await prisma.crashSeedChain.findUnique({ where: { id: chainId }, select: { status: true } });
+  if (!chain) throw new AdminError('CHAIN_NOT_FOUND', 'Seed chain not found', 404);
+  if (chain.status !== 'PENDING') {
+    throw new AdminError('CHAIN_NOT_PENDING', 'The client seed of this chain has already been set');
+  }
+
+  const activated = await activateSeedChain(chainId, input.clientSeed);
+
+  await createAuditLog(adminId, 'ACTIVATE_CRASH_SEED_CHAIN', 'crash_seed_chain', chainId, {
+    clientSeed: input.clientSeed,
+    clientSeedSource: activated.clientSeedSource,
+  });
+
+  return activated;
+}
+
+export async function listTournaments(query: ListTournamentsQuery) {
+  const { page, limit, status, gameSlug } = query;
+
+  const where: Prisma.TournamentWhereInput = {};
+  if (status) where.status = status;
+  if (gameSlug) where.gameSlug = gameSlug;
+
+  const [tournaments, total] = await Promise.all([
+    prisma.tournament.findMany({
+      where,
+      include: { _count: { select: { entries: true } } },
+      orderBy: { startTime: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.tournament.count({ where }),
+  ]);
+
+  return {
+    tournaments: tournaments.map((t) => ({
+      id: t.id,
+      name: t.name,
+      gameSlug: t.gameSlug,
+      scoringType: t.scoringType,
+      status: t.status,
+      currency: t.currency,
+      entryFee: t.entryFee.toString(),
+      basePrizePool: t.basePrizePool.toString(),
+      prizePool: t.prizePool.toString(),
+      prizeDistribution: t.prizeDistribution,
+      participantCount: t._count.entries,
+      minParticipants: t.minParticipants,
+      maxParticipants: t.maxParticipants,
+      startTime: t.startTime.toISOString(),
+      endTime: t.endTime.toISOString(),
+      finalizedAt: t.finalizedAt?.toISOString() ?? null,
+      createdBy: t.createdBy,
+      createdAt: t.createdAt.toISOString(),
+    })),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+export async function getTournament(tournamentId: string) {
+  const exists = await prisma.tournament.count({ where: { id: tournamentId } });
+  if (!exists) throw new AdminError('TOURNAMENT_NOT_FOUND', 'Tournament not found', 404);
+
+  return tournamentService.getTournamentDetails(tournamentId);
+}
+
+function toTournamentInput(input: UpdateTournamentInput): Partial<TournamentInput> {
+  const { gameSlug, startTime, endTime, ...rest } = input;
+  return {
+    ...rest,
+    game: gameSlug,
+    startTime: startTime !== undefined ? new Date(startTime) : undefined,
+    endTime: endTime !== undefined ? new Date(endTime) : undefined,
+  };
+}
+
+async function assertTournamentTargets(gameSlug?: string, currency?: string) {
+  if (gameSlug) {
+    const game = await prisma.casinoGame.findUnique({ where: { slug: gameSlug }, select: { id: true } });
+    if (!game) throw new AdminError('GAME_NOT_FOUND', `Casino game "${gameSlug}" not found`, 404);
+  }
+  if (currency) {
+    const found = await prisma.currency.findUnique({ where: { symbol: currency.toUpperCase() }, select: { id: true } });
+    if (!found) throw new AdminError('CURRENCY_NOT_FOUND', `Currency "${currency}" not found`, 404);
+  }
+}
+
+export async function createTournament(input: CreateTournamentInput, adminId: string) {
+  await assertTournamentTargets(input.gameSlug, input.currency);
+
+  const tournament = await tournamentService.createTournament(
+    toTournamentInput(input) as TournamentInput,
+    adminId,
+  );
+
+  await createAuditLog(adminId, 'CREATE_TOURNAMENT', 'tournament', tournament.id, {
+    name: tournament.name,
+    gameSlug: tournament.game,
+    scoringType: tournament.scoringType,
+    currency: tournament.currency,
+    entryFee: tournament.entryFee,
+    basePrizePool: tournament.basePrizePool,
+    startTime: tournament.startTime.toISOString(),
+    endTime: tournament.endTime.toISOString(),
+  });
+
+  return tournament;
+}
+
+export async function updateTournament(tournamentId: string, input: UpdateTournamentInput, adminId: string) {
+  const existing = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+  if (!existing) throw new AdminError('TOURNAMENT_NOT_FOUND', 'Tournament not found', 404);
+
+  await assertTournamentTargets(input.gameSlug, input.currency);
+
+  const minParticipants = input.minParticipants ?? existing.minParticipants;
+  const maxParticipants = input.maxParticipants ?? existing.maxParticipants;
+  if (minParticipants > maxParticipants) {
+    throw new AdminError('INVALID_PARTICIPANT_LIMITS', 'minParticipants must not exceed maxParticipants');
+  }
+
+  let tournament;
+  try {
+    tournament = await tournamentService.updateTournament(tournamentId, toTournamentInput(input));
+  } catch (err) {
+    if (err instanceof GameError) throw new AdminError(err.code, err.message);
+    throw err;
+  }
+
+  await createAuditLog(adminId, 'UPDATE_TOURNAMENT', 'tournament', tournamentId, {
+    changes: input,
+    previousStatus: existing.status,
+  });
+
+  return tournament;
+}
+
+export async function cancelTournament(tournamentId: string, input: CancelTournamentInput, adminId: string) {
+  const existing = await prisma.tournament.findUnique({ where: { id: tournamentId }, select: { status: true } });
+  if (!existing) throw new AdminError('TOURNAMENT_NOT_FOUND', 'Tournament not found', 404);
+
+  const refunded = await tournamentService.cancelTournament(tournamentId, input.reason);
+  if (refunded === null) {
+    throw new AdminError('TOURNAMENT_ENDED', 'Only upcoming or active tournaments can be cancelled');
+  }
+
+  await createAuditLog(adminId, 'CANCEL_TOURNAMENT', 'tournament', tournamentId, {
+    reason: input.reason,
+    previousStatus: existing.status,
+    refundedEntries: refunded,
+  });
+
+  return { id: tournamentId, status: 'cancelled', refundedEntries: refunded };
+}
+
 // =============================================================================
 // FINANCIAL MANAGEMENT
 // =============================================================================
@@ -1464,6 +1711,12 @@ export async function approveWithdrawal(txId: string, adminId: string) {
     data: { status: 'APPROVED', approvedBy: adminId },
   });
 
+  // EVM networks are signed, broadcast and tracked to completion by the
+  // withdrawal-processing worker; others wait for completeWithdrawal
+  if (await supportsAutomaticPayout(tx.networkId)) {
+    await queueWithdrawalBroadcast(txId);
+  }
+
   await createAuditLog(adminId, 'APPROVE_WITHDRAWAL', 'transaction', txId, {
     userId: tx.wallet.userId,
     amount: tx.amount.toString(),
@@ -1472,6 +1725,70 @@ export async function approveWithdrawal(txId: string, adminId: string) {
   return { transaction: { ...updated, amount: updated.amount.toString(), fee: updated.fee.toString() } };
 }
 
+/**
+ * Complete an APPROVED withdrawal that was paid out by hand (networks without
+ * automatic payout): record the txHash and debit the locked funds.
+ */
+export async function completeWithdrawal(txId: string, input: CompleteWithdrawalInput, adminId: string) {
+  const tx = await prisma.transaction.findUnique({
+    where: { id: txId },
+    include: { wallet: { include: { currency: true } } },
+  });
+
+  if (!tx) throw new AdminError('TX_NOT_FOUND', 'Transaction not found', 404);
+  if (tx.type !== 'WITHDRAWAL') throw new AdminError('NOT_WITHDRAWAL', 'Transaction is not a withdrawal');
+  if (tx.status !== 'APPROVED') throw new AdminError('NOT_APPROVED', 'Withdrawal is not approved');
+
+  const totalDebit = tx.amount.add(tx.fee);
+  const { decimals, symbol } = tx.wallet.currency;
+
+  const updated = await prisma.$transaction(async (ptx) => {
+    // Status-guarded: the broadcaster may have picked it up in the meantime
+    const { count } = await ptx.transaction.updateMany({
+      where: { id: txId, status: 'APPROVED' },
+      data: {
+        status: 'COMPLETED',
+        txHash: input.txHash,
+        metadata: {
+          ...(typeof tx.metadata === 'object' && tx.metadata !== null && !Array.isArray(tx.metadata) ? tx.metadata : {}),
+          completedAt: new Date().toISOString(),
+          completedBy: adminId,
+          manualPayout: true,
+        },
+      },
+    });
+    if (count === 0) throw new AdminError('NOT_APPROVED', 'Withdrawal is not approved');
+
+    await ptx.wallet.update({
+      where: { id: tx.walletId },
+      data: {
+        balance: { decrement: totalDebit },
+        lockedBalance: { decrement: totalDebit },
+      },
+    });
+
+    await ptx.notification.create({
+      data: {
+        userId: tx.wallet.userId,
+        type: 'WITHDRAWAL_APPROVED',
+        title: 'Withdrawal Sent',
+        message: `Your withdrawal of ${tx.amount.toFixed(decimals)} ${symbol} has been sent.`,
+        data: { transactionId: txId, amount: tx.amount.toString(), currency: symbol, txHash: input.txHash },
+      },
+    });
+
+    return ptx.transaction.findUniqueOrThrow({ where: { id: txId } });
+  });
+
+  await createAuditLog(adminId, 'COMPLETE_WITHDRAWAL', 'transaction', txId, {
+    userId: tx.wallet.userId,
+    amount: tx.amount.toString(),
+    txHash: input.txHash,
+  });
+
+  return { transaction: { ...updated, amount: updated.amount.toString(), fee: updated.fee.toString() } };
+}
+
 export async function rejectWithdrawal(txId: string, input: WithdrawalActionInput, adminId: string) {
   const tx = await prisma.transaction.findUnique({
     where: { id: txId },
@@ -1511,6 +1828,32 @@ export async function rejectWithdrawal(txId: string, input: WithdrawalActionInpu
   return { transaction: { ...result, amount: result.amount.toString(), fee: result.fee.toString() } };
 }
 
+/**
+ * Credit a deposit held for breaching the user's deposit limit, without
+ * waiting for the limit to allow it.
+ */
+export async function releaseHeldDeposit(txId: string, adminId: string) {
+  const tx = await prisma.transaction.findUnique({
+    where: { id: txId },
+    include: { wallet: { select: { userId: true } } },
+  });
+
+  if (!tx) throw new AdminError('TX_NOT_FOUND', 'Transaction not found', 404);
+  if (tx.type !== 'DEPOSIT') throw new AdminError('NOT_DEPOSIT', 'Transaction is not a deposit');
+  if (tx.status !== 'PENDING') throw new AdminError('NOT_HELD', 'Deposit is not on hold');
+
+  const credited = await creditHeldDeposit(txId, adminId);
+  if (!credited) throw new AdminError('NOT_HELD', 'Deposit is not on hold');
+
+  await createAuditLog(adminId, 'RELEASE_HELD_DEPOSIT', 'transaction', txId, {
+    userId: tx.wallet.userId,
+    amount: tx.amount.toString(),
+  });
+
+  const updated = await prisma.transaction.findUniqueOrThrow({ where: { id: txId } });
+  return { transaction: { ...updated, amount: updated.amount.toString(), fee: updated.fee.toString() } };
+}
+
 // =============================================================================
 // SPORTS MANAGEMENT
 // =============================================================================
@@ -1760,6 +2103,7 @@ export async function updateEvent(id: string, input: UpdateEventInput, adminId:
   if (input.isFeatured !== undefined) updateData.isFeatured = input.isFeatured;
   if (input.isLive !== undefined) updateData.isLive = input.isLive;
   if (input.streamUrl !== undefined) updateData.streamUrl = input.streamUrl;
+  if (input.maxLiability !== undefined) updateData.maxLiability = input.maxLiability;
 
   const event = await prisma.event.update({
     where: { id },
@@ -1811,6 +2155,7 @@ export async function updateMarket(id: string, input: UpdateMarketInput, adminId
   if (input.status !== undefined) updateData.status = input.status as MarketStatus;
   if (input.period !== undefined) updateData.period = input.period;
   if (input.sortOrder !== undefined) updateData.sortOrder = input.sortOrder;
+  if (input.maxLiability !== undefined) updateData.maxLiability = input.maxLiability;
 
   const market = await prisma.market.update({
     where: { id },
@@ -2030,6 +2375,132 @@ export async function configureOddsProvider(id: string, input: ConfigureOddsProv
   return provider;
 }
 
+export async function listOddsBoosts(query: ListOddsBoostsQuery) {
+  const { page, limit, isActive, eventId } = query;
+
+  const where: Prisma.OddsBoostWhereInput = {};
+  if (isActive !== undefined) where.isActive = isActive;
+  if (eventId) where.selection = { market: { eventId } };
+
+  const [boosts, total] = await Promise.all([
+    prisma.oddsBoost.findMany({
+      where,
+      include: {
+        selection: {
+          select: {
+            name: true,
+            odds: true,
+            market: { select: { name: true, event: { select: { id: true, name: true } } } },
+          },
+        },
+        _count: { select: { legs: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.oddsBoost.count({ where }),
+  ]);
+
+  // Cost so far: the extra payout on settled bets that took each boost
+  const costs = boosts.length > 0
+    ? await prisma.bet.findMany({
+        where: { boostCost: { gt: 0 }, legs: { some: { oddsBoostId: { in: boosts.map((b) => b.id) } } } },
+        select: { boostCost: true, currencySymbol: true, legs: { select: { oddsBoostId: true } } },
+      })
+    : [];
+  const costMap = new Map<string, Record<string, string>>();
+  for (const bet of costs) {
+    for (const leg of bet.legs) {
+      if (!leg.oddsBoostId) continue;
+      const byCurrency = costMap.get(leg.oddsBoostId) ?? {};
+      byCurrency[bet.currencySymbol] = new Prisma.Decimal(byCurrency[bet.currencySymbol] ?? 0)
+        .add(bet.boostCost!)
+        .toString();
+      costMap.set(leg.oddsBoostId, byCurrency);
+    }
+  }
+
+  return {
+    boosts: boosts.map((b) => ({
+      id: b.id,
+      title: b.title,
+      selectionId: b.selectionId,
+      selectionName: b.selection.name,
+      marketName: b.selection.market.name,
+      eventId: b.selection.market.event.id,
+      eventName: b.selection.market.event.name,
+      currentOdds: b.selection.odds.toString(),
+      boostedOdds: b.boostedOdds.toString(),
+      maxStakeUsd: b.maxStakeUsd.toString(),
+      promotionId: b.promotionId,
+      isActive: b.isActive,
+      startsAt: b.startsAt.toISOString(),
+      expiresAt: b.expiresAt.toISOString(),
+      betCount: b._count.legs,
+      boostCost: costMap.get(b.id) ?? {},
+      createdBy: b.createdBy,
+      createdAt: b.createdAt.toISOString(),
+    })),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+export async function createOddsBoost(input: CreateOddsBoostInput, adminId: string) {
+  const selection = await prisma.selection.findUnique({
+    where: { id: input.selectionId },
+    select: { odds: true },
+  });
+  if (!selection) throw new AdminError('SELECTION_NOT_FOUND', 'Selection not found', 404);
+  if (selection.odds.gte(input.boostedOdds)) {
+    throw new AdminError('BOOST_NOT_HIGHER', `Boosted odds must be above the current price (${selection.odds.toString()})`);
+  }
+
+  if (input.promotionId) {
+    const promotion = await prisma.promotion.findUnique({ where: { id: input.promotionId }, select: { type: true } });
+    if (!promotion) throw new AdminError('PROMOTION_NOT_FOUND', 'Promotion not found', 404);
+    if (promotion.type !== 'ODDS_BOOST') {
+      throw new AdminError('INVALID_PROMOTION', 'Only ODDS_BOOST promotions can gate an odds boost');
+    }
+  }
+
+  const boost = await prisma.oddsBoost.create({
+    data: {
+      selectionId: input.selectionId,
+      promotionId: input.promotionId ?? null,
+      title: input.title ?? null,
+      boostedOdds: new Prisma.Decimal(input.boostedOdds),
+      maxStakeUsd: new Prisma.Decimal(input.maxStakeUsd),
+      ...(input.startsAt ? { startsAt: new Date(input.startsAt) } : {}),
+      expiresAt: new Date(input.expiresAt),
+      createdBy: adminId,
+    },
+  });
+
+  await createAuditLog(adminId, 'CREATE_ODDS_BOOST', 'odds_boost', boost.id, {
+    selectionId: input.selectionId,
+    originalOdds: selection.odds.toString(),
+    boostedOdds: input.boostedOdds,
+    maxStakeUsd: input.maxStakeUsd,
+    promotionId: input.promotionId,
+  });
+
+  return boost;
+}
+
+export async function deactivateOddsBoost(id: string, adminId: string) {
+  const existing = await prisma.oddsBoost.findUnique({ where: { id }, select: { isActive: true } });
+  if (!existing) throw new AdminError('BOOST_NOT_FOUND', 'Odds boost not found', 404);
+
+  const boost = await prisma.oddsBoost.update({ where: { id }, data: { isActive: false } });
+
+  await createAuditLog(adminId, 'DEACTIVATE_ODDS_BOOST', 'odds_boost', id, { wasActive: existing.isActive });
+  return boost;
+}
+
 // =============================================================================
 // PROMOTIONS MANAGEMENT
 // =============================================================================
@@ -2603,6 +3074,7 @@ export async function addGeoRestriction(input: AddGeoRestrictionInput, adminId:
       where: { countryCode: input.countryCode },
       data: { isBlocked: true, reason: input.reason },
     });
+    await redis.del(GEO_RESTRICTIONS_CACHE_KEY);
     await createAuditLog(adminId, 'ADD_GEO_RESTRICTION', 'geo_restriction', updated.id, input as Record<string, unknown>);
     return updated;
   }
@@ -2611,7 +3083,7 @@ export async function addGeoRestriction(input: AddGeoRestrictionInput, adminId:
     data: { countryCode: input.countryCode, countryName: input.countryName, isBlocked: true, reason: input.reason },
   });
 
-  await redis.del('geo:restrictions');
+  await redis.del(GEO_RESTRICTIONS_CACHE_KEY);
   await createAuditLog(adminId, 'ADD_GEO_RESTRICTION', 'geo_restriction', restriction.id, input as Record<string, unknown>);
   return restriction;
 }
@@ -2621,7 +3093,7 @@ export async function removeGeoRestriction(id: string, adminId: string) {
   if (!existing) throw new AdminError('NOT_FOUND', 'Geo restriction not found', 404);
 
   await prisma.geoRestriction.delete({ where: { id } });
-  await redis.del('geo:restrictions');
+  await redis.del(GEO_RESTRICTIONS_CACHE_KEY);
   await createAuditLog(adminId, 'REMOVE_GEO_RESTRICTION', 'geo_restriction', id, { countryCode: existing.countryCode });
   return { message: 'Geo restriction removed' };
 }
@@ -2677,7 +3149,15 @@ export async function getRevenueReport(query: RevenueReportQuery) {
 
   const bets = await prisma.bet.findMany({
     where: betWhere,
-    select: { stake: true, actualWin: true, currencySymbol: true, status: true, createdAt: true },
+    select: {
+      stake: true,
+      actualWin: true,
+      currencySymbol: true,
+      status: true,
+      createdAt: true,
+      freeBetId: true,
+      boostCost: true,
+    },
   });
 
   const deposits = await prisma.transaction.findMany({
@@ -2690,16 +3170,25 @@ export async function getRevenueReport(query: RevenueReportQuery) {
     select: { amount: true, createdAt: true },
   });
 
+  // Free-bet stakes are not cash staked; they and boost costs are reported
+  // on their own (boost costs are already part of winnings)
+  const cashStakeOf = (bet: { stake: Prisma.Decimal; freeBetId: string | null }) =>
+    bet.freeBetId ? 0 : Number(bet.stake);
+
   // Aggregate totals
   let totalStaked = 0;
   let totalWinnings = 0;
+  let totalFreeBetStake = 0;
+  let totalBoostCost = 0;
   let totalBetsCount = 0;
   let wonBetsCount = 0;
   let lostBetsCount = 0;
 
   for (const bet of bets) {
-    totalStaked += Number(bet.stake);
+    totalStaked += cashStakeOf(bet);
     totalWinnings += bet.actualWin ? Number(bet.actualWin) : 0;
+    totalFreeBetStake += bet.freeBetId ? Number(bet.stake) : 0;
+    totalBoostCost += bet.boostCost ? Number(bet.boostCost) : 0;
     totalBetsCount++;
     if (bet.status === 'WON') wonBetsCount++;
     if (bet.status === 'LOST') lostBetsCount++;
@@ -2721,14 +3210,23 @@ export async function getRevenueReport(query: RevenueReportQuery) {
     return date.toISOString().split('T')[0];
   };
 
-  const grouped = new Map<string, { staked: number; winnings: number; profit: number; bets: number }>();
+  const grouped = new Map<string, {
+    staked: number;
+    winnings: number;
+    profit: number;
+    freeBetStake: number;
+    boostCost: number;
+    bets: number;
+  }>();
 
   for (const bet of bets) {
     const key = getKey(bet.createdAt);
-    const entry = grouped.get(key) ?? { staked: 0, winnings: 0, profit: 0, bets: 0 };
-    entry.staked += Number(bet.stake);
+    const entry = grouped.get(key) ?? { staked: 0, winnings: 0, profit: 0, freeBetStake: 0, boostCost: 0, bets: 0 };
+    entry.staked += cashStakeOf(bet);
     entry.winnings += bet.actualWin ? Number(bet.actualWin) : 0;
-    entry.profit += Number(bet.stake) - (bet.actualWin ? Number(bet.actualWin) : 0);
+    entry.profit += cashStakeOf(bet) - (bet.actualWin ? Number(bet.actualWin) : 0);
+    entry.freeBetStake += bet.freeBetId ? Number(bet.stake) : 0;
+    entry.boostCost += bet.boostCost ? Number(bet.boostCost) : 0;
     entry.bets += 1;
     grouped.set(key, entry);
   }
@@ -2738,6 +3236,8 @@ export async function getRevenueReport(query: RevenueReportQuery) {
       totalStaked: totalStaked.toFixed(2),
       totalWinnings: totalWinnings.toFixed(2),
       grossProfit: grossProfit.toFixed(2),
+      totalFreeBetStake: totalFreeBetStake.toFixed(2),
+      totalBoostCost: totalBoostCost.toFixed(2),
       totalDeposited: totalDeposited.toFixed(2),
       totalWithdrawn: totalWithdrawn.toFixed(2),
       netRevenue: netRevenue.toFixed(2),
@@ -2753,6 +3253,8 @@ export async function getRevenueReport(query: RevenueReportQuery) {
         staked: data.staked.toFixed(2),
         winnings: data.winnings.toFixed(2),
         profit: data.profit.toFixed(2),
+        freeBetStake: data.freeBetStake.toFixed(2),
+        boostCost: data.boostCost.toFixed(2),
         bets: data.bets,
       })),
     period: { start: start.toISOString(), end: end.toISOString(), groupBy },
@@ -1,5 +1,7 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { authenticate } from '../../middleware/auth.js';
+import { geoGuard } from '../../middleware/geo.js';
+import { createRateLimiter } from '../../middleware/rateLimit.js';
 import { validate } from '../../middleware/validate.js';
 import { config } from '../../config/index.js';
 import { prisma } from '../../lib/prisma.js';
@@ -9,6 +11,8 @@ import {
   refreshSchema,
   forgotPasswordSchema,
   resetPasswordSchema,
+  verifyEmailSchema,
+  confirmDeviceSchema,
   twoFactorSetupVerifySchema,
   twoFactorVerifySchema,
   twoFactorDisableSchema,
@@ -17,6 +21,8 @@ import {
   type RefreshInput,
   type ForgotPasswordInput,
   type ResetPasswordInput,
+  type VerifyEmailInput,
+  type ConfirmDeviceInput,
   type TwoFactorSetupVerifyInput,
   type TwoFactorVerifyInput,
   type TwoFactorDisableInput,
@@ -57,6 +63,9 @@ function getUserAgent(request: FastifyRequest): string {
   return (request.headers['user-agent'] as string) ?? 'unknown';
 }
 
+/** Device confirmation codes are short, so guesses are also limited per IP */
+const confirmDeviceRateLimit = createRateLimiter('auth-confirm-device', 10, 15 * 60);
+
 // ---------------------------------------------------------------------------
 // Route registration
 // ---------------------------------------------------------------------------
@@ -67,7 +76,7 @@ export default async function authRoutes(fastify: FastifyInstance): Promise<void
   // =======================================================================
   fastify.post(
     '/api/v1/auth/register',
-    { preHandler: [validate(registerSchema)] },
+    { preHandler: [geoGuard, validate(registerSchema)] },
     async (request: FastifyRequest, reply: FastifyReply) => {
       try {
         const body = request.body as RegisterInput;
@@ -93,7 +102,27 @@ export default async function authRoutes(fastify: FastifyInstance): Promise<void
         const body = request.body as LoginInput;
         const ip = getIp(request);
         const ua = getUserAgent(request);
-        const result = await authService.login(body, ip, ua);
+        const result = await authService.login(body, ip, ua, request.country ?? null);
+        return success(reply, result);
+      } catch (err) {
+        if (err instanceof authService.AuthError) {
+          return error(reply, err.code, err.message, err.statusCode);
+        }
+        throw err;
+      }
+    },
+  );
+
+  // =======================================================================
+  // POST /api/v1/auth/login/confirm-device
+  // =======================================================================
+  fastify.post(
+    '/api/v1/auth/login/confirm-device',
+    { preHandler: [confirmDeviceRateLimit, validate(confirmDeviceSchema)] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { confirmationToken, code } = request.body as ConfirmDeviceInput;
+        const result = await authService.confirmDevice(confirmationToken, code);
         return success(reply, result);
       } catch (err) {
         if (err instanceof authService.AuthError) {
@@ -192,6 +221,45 @@ export default async function authRoutes(fastify: FastifyInstance): Promise<void
     },
   );
 
+  // =======================================================================
+  // POST /api/v1/auth/verify-email
+  // =======================================================================
+  fastify.post(
+    '/api/v1/auth/verify-email',
+    { preHandler: [validate(verifyEmailSchema)] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { token } = request.body as VerifyEmailInput;
+        const result = await authService.verifyEmail(token);
+        return success(reply, result);
+      } catch (err) {
+        if (err instanceof authService.AuthError) {
+          return error(reply, err.code, err.message, err.statusCode);
+        }
+        throw err;
+      }
+    },
+  );
+
+  // =======================================================================
+  // POST /api/v1/auth/verify-email/resend
+  // =======================================================================
+  fastify.post(
+    '/api/v1/auth/verify-email/resend',
+    { preHandler: [authenticate] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const result = await authService.resendVerificationEmail(request.user!.id);
+        return success(reply, result);
+      } catch (err) {
+        if (err instanceof authService.AuthError) {
+          return error(reply, err.code, err.message, err.statusCode);
+        }
+        throw err;
+      }
+    },
+  );
+
   // =======================================================================
   // GET /api/v1/auth/google - Redirect to Google OAuth
   // =======================================================================
@@ -230,7 +298,7 @@ export default async function authRoutes(fastify: FastifyInstance): Promise<void
 
         const ip = getIp(request);
         const ua = getUserAgent(request);
-        const result = await googleService.handleGoogleCallback(code, ip, ua);
+        const result = await googleService.handleGoogleCallback(code, ip, ua, request.country ?? null);
 
         // Redirect to frontend with tokens
         const redirectUrl = new URL('/auth/oauth-callback', config.FRONTEND_URL);
@@ -287,7 +355,7 @@ export default async function authRoutes(fastify: FastifyInstance): Promise<void
 
         const ip = getIp(request);
         const ua = getUserAgent(request);
-        const result = await githubService.handleGithubCallback(code, ip, ua);
+        const result = await githubService.handleGithubCallback(code, ip, ua, request.country ?? null);
 
         const redirectUrl = new URL('/auth/oauth-callback', config.FRONTEND_URL);
         redirectUrl.searchParams.set('accessToken', result.tokens.accessToken);
@@ -358,7 +426,7 @@ export default async function authRoutes(fastify: FastifyInstance): Promise<void
         const { tempToken, token } = request.body as TwoFactorVerifyInput;
         const ip = getIp(request);
         const ua = getUserAgent(request);
-        const result = await twoFactorService.verify(tempToken, token, ip, ua);
+        const result = await twoFactorService.verify(tempToken, token, ip, ua, request.country ?? null);
         return success(reply, result);
       } catch (err) {
         if (err instanceof authService.AuthError) {
@@ -99,6 +99,27 @@ export const resetPasswordSchema = z.object({
 
 export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
 
+// ---------------------------------------------------------------------------
+// Verify Email
+// ---------------------------------------------------------------------------
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
+
+// ---------------------------------------------------------------------------
+// Confirm Device (login flow)
+// ---------------------------------------------------------------------------
+
+export const confirmDeviceSchema = z.object({
+  confirmationToken: z.string().min(1, 'Confirmation token is required'),
+  code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
+export type ConfirmDeviceInput = z.infer<typeof confirmDeviceSchema>;
+
 // ---------------------------------------------------------------------------
 // 2FA Setup Verify
 // ---------------------------------------------------------------------------
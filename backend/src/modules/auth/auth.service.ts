@@ -3,8 +3,11 @@ import jwt from 'jsonwebtoken';
 import crypto from 'node:crypto';
 import { prisma } from '../../lib/prisma.js';
 import { redis } from '../../lib/redis.js';
+import { disconnectSessionSockets } from '../../lib/socket.js';
 import { config } from '../../config/index.js';
 import type { JwtPayload } from '../../middleware/auth.js';
+import { isCountryBlocked } from '../../middleware/geo.js';
+import { sendUserEmail } from '../email/email.service.js';
 import type { RegisterInput, LoginInput } from './auth.schemas.js';
 
 // ---------------------------------------------------------------------------
@@ -19,6 +22,15 @@ const PASSWORD_RESET_PREFIX = 'auth:reset:';
 const PASSWORD_RESET_TTL = 60 * 60; // 1 hour
 const TEMP_TOKEN_SECRET = config.JWT_SECRET + ':2fa-temp';
 const TEMP_TOKEN_EXPIRY = '5m';
+const EMAIL_VERIFY_PREFIX = 'auth:verify-email:';
+const EMAIL_VERIFY_TTL = 24 * 60 * 60; // 24 hours
+const EMAIL_RESEND_COOLDOWN_PREFIX = 'auth:verify-resend:cooldown:';
+const EMAIL_RESEND_COOLDOWN_SECONDS = 60;
+const EMAIL_RESEND_COUNT_PREFIX = 'auth:verify-resend:count:';
+const EMAIL_RESEND_MAX_PER_HOUR = 5;
+const DEVICE_CONFIRM_PREFIX = 'auth:device-confirm:';
+const DEVICE_CONFIRM_TTL = 10 * 60; // 10 minutes
+const DEVICE_CONFIRM_MAX_ATTEMPTS = 5;
 
 /** The major currencies for which a wallet is auto-created upon registration. */
 const DEFAULT_WALLET_CURRENCIES = [
@@ -204,6 +216,8 @@ export async function register(input: RegisterInput) {
     return newUser;
   });
 
+  await issueEmailVerification(user.id);
+
   // Generate tokens
   const tokens = generateTokens({
     id: user.id,
@@ -218,6 +232,106 @@ export async function register(input: RegisterInput) {
   };
 }
 
+// ---------------------------------------------------------------------------
+// Email verification
+// ---------------------------------------------------------------------------
+
+async function issueEmailVerification(userId: string): Promise<void> {
+  const token = crypto.randomBytes(32).toString('hex');
+  await redis.setex(`${EMAIL_VERIFY_PREFIX}${token}`, EMAIL_VERIFY_TTL, userId);
+
+  await sendUserEmail(userId, 'verify-email', {
+    verifyUrl: `${config.FRONTEND_URL}/verify-email?token=${token}`,
+    expiresHours: EMAIL_VERIFY_TTL / 3600,
+  });
+}
+
+export async function verifyEmail(token: string) {
+  const redisKey = `${EMAIL_VERIFY_PREFIX}${token}`;
+  const userId = await redis.get(redisKey);
+
+  if (!userId) {
+    throw new AuthError(
+      'INVALID_VERIFICATION_TOKEN',
+      'Invalid or expired email verification link',
+      400,
+    );
+  }
+
+  await redis.del(redisKey);
+
+  // Only the first verification counts (several links may be outstanding)
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, emailVerifiedAt: null },
+    data: { emailVerifiedAt: new Date() },
+  });
+
+  if (count > 0) {
+    await prisma.auditLog.create({
+      data: {
+        userId,
+        action: 'EMAIL_VERIFIED',
+        resource: 'user',
+        resourceId: userId,
+      },
+    });
+
+    await sendUserEmail(userId, 'welcome');
+  }
+
+  return { message: 'Your email address has been verified.' };
+}
+
+/**
+ * Send a fresh verification link. Throttled to one per minute and
+ * EMAIL_RESEND_MAX_PER_HOUR per hour.
+ */
+export async function resendVerificationEmail(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, emailVerifiedAt: true },
+  });
+
+  if (!user) {
+    throw new AuthError('USER_NOT_FOUND', 'User not found', 404);
+  }
+  if (user.emailVerifiedAt) {
+    throw new AuthError('EMAIL_ALREADY_VERIFIED', 'Your email address is already verified', 400);
+  }
+
+  const cooldown = await redis.set(
+    `${EMAIL_RESEND_COOLDOWN_PREFIX}${userId}`,
+    '1',
+    'EX',
+    EMAIL_RESEND_COOLDOWN_SECONDS,
+    'NX',
+  );
+  if (!cooldown) {
+    throw new AuthError(
+      'VERIFICATION_RESEND_THROTTLED',
+      'Please wait a minute before requesting another verification email',
+      429,
+    );
+  }
+
+  const countKey = `${EMAIL_RESEND_COUNT_PREFIX}${userId}`;
+  const sent = await redis.incr(countKey);
+  if (sent === 1) {
+    await redis.expire(countKey, 60 * 60);
+  }
+  if (sent > EMAIL_RESEND_MAX_PER_HOUR) {
+    throw new AuthError(
+      'VERIFICATION_RESEND_THROTTLED',
+      'Too many verification emails requested. Please try again later.',
+      429,
+    );
+  }
+
+  await issueEmailVerification(userId);
+
+  return { message: 'A new verification email has been sent.' };
+}
+
 // ---------------------------------------------------------------------------
 // login
 // ---------------------------------------------------------------------------
@@ -226,6 +340,7 @@ export async function login(
   input: LoginInput,
   ip: string,
   userAgent: string,
+  country: string | null = null,
 ) {
   const { email, password } = input;
 
@@ -294,28 +409,180 @@ export async function login(
   }
 
   // No 2FA - complete login
-  return completeLogin(user, ip, userAgent);
+  return loginWithDeviceCheck(user, ip, userAgent, country);
 }
 
 // ---------------------------------------------------------------------------
-// completeLogin (shared by login + 2FA verify)
+// New-device confirmation
 // ---------------------------------------------------------------------------
 
+export interface LoginUser {
+  id: string;
+  email: string;
+  role: string;
+  vipTier: string;
+  username: string;
+  avatar: string | null;
+  kycLevel: string;
+  twoFactorEnabled: boolean;
+  referralCode: string;
+  emailVerifiedAt: Date | null;
+  createdAt: Date;
+}
+
+interface DeviceChallenge {
+  userId: string;
+  codeHash: string;
+  ip: string;
+  userAgent: string;
+  country: string | null;
+}
+
+function hashCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+/**
+ * A login is from a new device when the user has signed in before but never
+ * from this IP/user-agent combination.
+ */
+async function isNewDevice(userId: string, ip: string, userAgent: string): Promise<boolean> {
+  const [priorSessions, knownDevice] = await Promise.all([
+    prisma.session.count({ where: { userId } }),
+    prisma.session.findFirst({
+      where: { userId, ipAddress: ip, userAgent },
+      select: { id: true },
+    }),
+  ]);
+  return priorSessions > 0 && !knownDevice;
+}
+
+/**
+ * Issue a session for a user whose credentials (and 2FA) checked out, or
+ * email a one-time code and return a confirmation token when the login
+ * comes from a new device.
+ */
+export async function loginWithDeviceCheck(
+  user: LoginUser,
+  ip: string,
+  userAgent: string,
+  country: string | null = null,
+) {
+  if (!(await isNewDevice(user.id, ip, userAgent))) {
+    return completeLogin(user, ip, userAgent, country, true);
+  }
+
+  const confirmationToken = crypto.randomBytes(32).toString('hex');
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+  const challenge: DeviceChallenge = {
+    userId: user.id,
+    codeHash: hashCode(code),
+    ip,
+    userAgent,
+    country,
+  };
+  await redis.setex(
+    `${DEVICE_CONFIRM_PREFIX}${confirmationToken}`,
+    DEVICE_CONFIRM_TTL,
+    JSON.stringify(challenge),
+  );
+
+  await sendUserEmail(user.id, 'login-confirmation', {
+    code,
+    device: userAgent || 'Unknown device',
+    ipAddress: ip,
+    location: country ?? 'unknown location',
+    time: new Date().toUTCString(),
+    expiresMinutes: DEVICE_CONFIRM_TTL / 60,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: user.id,
+      action: 'LOGIN_DEVICE_CHALLENGE',
+      resource: 'user',
+      resourceId: user.id,
+      ipAddress: ip,
+      userAgent,
+      country,
+    },
+  });
+
+  return {
+    requiresTwoFactor: false,
+    requiresDeviceConfirmation: true,
+    confirmationToken,
+  };
+}
+
+/**
+ * Exchange a new-device confirmation token and the emailed code for a
+ * session. The session is bound to the device the challenge was issued for.
+ */
+export async function confirmDevice(confirmationToken: string, code: string) {
+  const redisKey = `${DEVICE_CONFIRM_PREFIX}${confirmationToken}`;
+  const attemptsKey = `${redisKey}:attempts`;
+  const invalidToken = new AuthError(
+    'INVALID_CONFIRMATION_TOKEN',
+    'Login confirmation is invalid or has expired. Please sign in again.',
+    401,
+  );
+
+  const raw = await redis.get(redisKey);
+  if (!raw) throw invalidToken;
+
+  // Counted before the code is checked, so parallel guesses each use up an attempt
+  const attempts = await redis.incr(attemptsKey);
+  if (attempts === 1) {
+    await redis.expire(attemptsKey, DEVICE_CONFIRM_TTL);
+  }
+  if (attempts > DEVICE_CONFIRM_MAX_ATTEMPTS) {
+    await redis.del(redisKey, attemptsKey);
+    throw new AuthError('TOO_MANY_ATTEMPTS', 'Too many incorrect codes. Please sign in again.', 429);
+  }
+
+  const challenge = JSON.parse(raw) as DeviceChallenge;
+  const expected = Buffer.from(challenge.codeHash, 'hex');
+  const given = Buffer.from(hashCode(code), 'hex');
+
+  if (!crypto.timingSafeEqual(expected, given)) {
+    if (attempts === DEVICE_CONFIRM_MAX_ATTEMPTS) {
+      await redis.del(redisKey, attemptsKey);
+      throw new AuthError('TOO_MANY_ATTEMPTS', 'Too many incorrect codes. Please sign in again.', 429);
+    }
+    throw new AuthError('INVALID_CONFIRMATION_CODE', 'Invalid confirmation code', 401);
+  }
+
+  // Single use: only the request that deletes the challenge gets a session
+  const claimed = await redis.del(redisKey);
+  await redis.del(attemptsKey);
+  if (claimed === 0) throw invalidToken;
+
+  const user = await prisma.user.findUnique({ where: { id: challenge.userId } });
+  if (!user) {
+    throw new AuthError('USER_NOT_FOUND', 'User not found', 404);
+  }
+  if (user.isBanned || !user.isActive) {
+    throw new AuthError('ACCOUNT_INACTIVE', 'Your account is not available', 403);
+  }
+
+  return completeLogin(user, challenge.ip, challenge.userAgent, challenge.country, true);
+}
+
+// ---------------------------------------------------------------------------
+// completeLogin (shared by login, 2FA verify, device confirmation and OAuth)
+// ---------------------------------------------------------------------------
+
+/**
+ * `deviceChecked` is set when the caller already vetted the device; logins
+ * that skip the check (OAuth) get a new-device alert email instead.
+ */
 export async function completeLogin(
-  user: {
-    id: string;
-    email: string;
-    role: string;
-    vipTier: string;
-    username: string;
-    avatar: string | null;
-    kycLevel: string;
-    twoFactorEnabled: boolean;
-    referralCode: string;
-    createdAt: Date;
-  },
+  user: LoginUser,
   ip: string,
   userAgent: string,
+  country: string | null = null,
+  deviceChecked = false,
 ) {
   const tokens = generateTokens({
     id: user.id,
@@ -328,6 +595,8 @@ export async function completeLogin(
   const refreshExpiryMs = parseExpiryToMs(config.JWT_REFRESH_EXPIRY);
   const expiresAt = new Date(Date.now() + refreshExpiryMs);
 
+  const unvettedNewDevice = !deviceChecked && (await isNewDevice(user.id, ip, userAgent));
+
   // Create session record
   const session = await prisma.session.create({
     data: {
@@ -336,6 +605,7 @@ export async function completeLogin(
       refreshToken: tokens.refreshToken,
       ipAddress: ip,
       userAgent,
+      country,
       expiresAt,
     },
   });
@@ -355,10 +625,21 @@ export async function completeLogin(
       resourceId: session.id,
       ipAddress: ip,
       userAgent,
+      country,
       details: { method: 'password' },
     },
   });
 
+  if (unvettedNewDevice) {
+    await sendUserEmail(user.id, 'new-device-login', {
+      device: userAgent || 'Unknown device',
+      ipAddress: ip,
+      location: country ?? 'unknown location',
+      time: new Date().toUTCString(),
+      securityUrl: `${config.FRONTEND_URL}/settings`,
+    });
+  }
+
   // Fetch wallets to include balances in login response
   const wallets = await prisma.wallet.findMany({
     where: { userId: user.id },
@@ -416,6 +697,7 @@ export async function refreshToken(token: string) {
       where: { userId: session.userId },
       data: { isRevoked: true },
     });
+    disconnectSessionSockets(session.userId);
     throw new AuthError(
       'TOKEN_REUSE_DETECTED',
       'Token reuse detected. All sessions have been invalidated for security.',
@@ -427,6 +709,18 @@ export async function refreshToken(token: string) {
     throw new AuthError('SESSION_EXPIRED', 'Session has expired', 401);
   }
 
+  // Responsible gambling session timeout: refreshing does not extend play time
+  if (
+    session.user.sessionTimeout &&
+    Date.now() - session.startedAt.getTime() >= session.user.sessionTimeout * 60 * 1000
+  ) {
+    await prisma.session.update({
+      where: { id: session.id },
+      data: { expiresAt: new Date() },
+    });
+    throw new AuthError('SESSION_TIMEOUT', 'Your session time limit has been reached. Please log in again.', 401);
+  }
+
   // Revoke the old session
   await prisma.session.update({
     where: { id: session.id },
@@ -452,7 +746,10 @@ export async function refreshToken(token: string) {
       refreshToken: newTokens.refreshToken,
       ipAddress: session.ipAddress,
       userAgent: session.userAgent,
+      country: session.country,
       expiresAt,
+      startedAt: session.startedAt,
+      lastRealityCheckAt: session.lastRealityCheckAt,
     },
   });
 
@@ -479,6 +776,7 @@ export async function logout(sessionId: string, userId: string) {
     where: { id: sessionId },
     data: { isRevoked: true },
   });
+  disconnectSessionSockets(userId, sessionId);
 
   return { message: 'Logged out successfully' };
 }
@@ -499,13 +797,10 @@ export async function forgotPassword(email: string) {
     const redisKey = `${PASSWORD_RESET_PREFIX}${resetToken}`;
     await redis.setex(redisKey, PASSWORD_RESET_TTL, user.id);
 
-    // In production, send an email with the reset link here.
-    // For development, log the token.
-    if (config.NODE_ENV !== 'production') {
-      console.log(
-        `[Auth] Password reset token for ${email}: ${resetToken}`,
-      );
-    }
+    await sendUserEmail(user.id, 'password-reset', {
+      resetUrl: `${config.FRONTEND_URL}/reset-password?token=${resetToken}`,
+      expiresMinutes: PASSWORD_RESET_TTL / 60,
+    });
 
     // Audit log
     await prisma.auditLog.create({
@@ -567,6 +862,8 @@ export async function resetPassword(token: string, newPassword: string) {
     });
   });
 
+  disconnectSessionSockets(userId);
+
   // Delete the reset token
   await redis.del(redisKey);
 
@@ -604,6 +901,7 @@ export async function getCurrentUser(userId: string) {
   return {
     id: user.id,
     email: user.email,
+    emailVerified: user.emailVerifiedAt !== null,
     username: user.username,
     avatar: user.avatar,
     dateOfBirth: user.dateOfBirth,
@@ -680,6 +978,7 @@ export async function revokeSession(sessionId: string, userId: string) {
     where: { id: sessionId },
     data: { isRevoked: true },
   });
+  disconnectSessionSockets(userId, sessionId);
 
   return { message: 'Session revoked successfully' };
 }
@@ -694,8 +993,9 @@ export async function findOrCreateOAuthUser(params: {
   email: string;
   name: string;
   avatar?: string | null;
+  country?: string | null;
 }) {
-  const { provider, providerId, email, name, avatar } = params;
+  const { provider, providerId, email, name, avatar, country } = params;
   const providerIdField = provider === 'google' ? 'googleId' : 'githubId';
 
   // Try to find by provider ID first
@@ -717,11 +1017,18 @@ export async function findOrCreateOAuthUser(params: {
       data: {
         [providerIdField]: providerId,
         ...(avatar && !user.avatar ? { avatar } : {}),
+        // The provider vouches for the address
+        ...(!user.emailVerifiedAt ? { emailVerifiedAt: new Date() } : {}),
       },
     });
     return user;
   }
 
+  // Creating an account counts as registration: apply geo-restrictions
+  if (await isCountryBlocked(country)) {
+    throw new AuthError('GEO_RESTRICTED', 'Registration is not available in your country', 403);
+  }
+
   // Create new user
   const referralCode = generateReferralCode();
 
@@ -763,6 +1070,7 @@ export async function findOrCreateOAuthUser(params: {
         passwordHash,
         avatar: avatar ?? null,
         referralCode,
+        emailVerifiedAt: new Date(),
         [providerIdField]: providerId,
       },
     });
@@ -831,6 +1139,7 @@ function sanitizeUser(user: {
   kycLevel?: string;
   twoFactorEnabled?: boolean;
   referralCode?: string;
+  emailVerifiedAt?: Date | null;
   createdAt?: Date;
 }) {
   return {
@@ -843,6 +1152,7 @@ function sanitizeUser(user: {
     kycLevel: user.kycLevel ?? null,
     twoFactorEnabled: user.twoFactorEnabled ?? false,
     referralCode: user.referralCode ?? null,
+    emailVerified: user.emailVerifiedAt != null,
     createdAt: user.createdAt ?? null,
   };
 }
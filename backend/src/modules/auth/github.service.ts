@@ -63,6 +63,7 @@ export async function handleGithubCallback(
   code: string,
   ip: string,
   userAgent: string,
+  country: string | null = null,
 ) {
   if (!config.GITHUB_CLIENT_ID || !config.GITHUB_CLIENT_SECRET) {
     throw new AuthError(
@@ -170,10 +171,11 @@ export async function handleGithubCallback(
     email: primaryEmail,
     name: githubUser.name ?? githubUser.login,
     avatar: githubUser.avatar_url ?? null,
+    country,
   });
 
   // Complete login
-  const result = await completeLogin(user, ip, userAgent);
+  const result = await completeLogin(user, ip, userAgent, country);
 
   return result;
 }
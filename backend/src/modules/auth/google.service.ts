@@ -63,6 +63,7 @@ export async function handleGoogleCallback(
   code: string,
   ip: string,
   userAgent: string,
+  country: string | null = null,
 ) {
   if (!config.GOOGLE_CLIENT_ID || !config.GOOGLE_CLIENT_SECRET) {
     throw new AuthError(
@@ -137,10 +138,11 @@ export async function handleGoogleCallback(
     email: googleUser.email,
     name: googleUser.name || googleUser.email.split('@')[0],
     avatar: googleUser.picture ?? null,
+    country,
   });
 
   // Complete login (creates session, audit log, etc.)
-  const result = await completeLogin(user, ip, userAgent);
+  const result = await completeLogin(user, ip, userAgent, country);
 
   return result;
 }
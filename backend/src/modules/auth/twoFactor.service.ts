@@ -7,7 +7,7 @@ import { redis } from '../../lib/redis.js';
 import {
   AuthError,
   decodeTempToken,
-  completeLogin,
+  loginWithDeviceCheck,
 } from './auth.service.js';
 
 // ---------------------------------------------------------------------------
@@ -176,6 +176,7 @@ export async function verify(
   token: string,
   ip: string,
   userAgent: string,
+  country: string | null = null,
 ) {
   // Decode temp token to get userId
   const userId = decodeTempToken(tempToken);
@@ -247,8 +248,8 @@ export async function verify(
     });
   }
 
-  // 2FA passed - complete login
-  const result = await completeLogin(user, ip, userAgent);
+  // 2FA passed - complete login (or confirm a new device first)
+  const result = await loginWithDeviceCheck(user, ip, userAgent, country);
 
   return result;
 }
@@ -0,0 +1,251 @@
+import { Prisma } from '@prisma/client';
+import type { FinalScoreDistribution, ScoreOutcome } from '../../services/liveOddsEngine.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Joint probability below which a combination is treated as impossible. */
+const MIN_JOINT_PROBABILITY = 1e-4;
+
+const MIN_COMBINED_ODDS = new Prisma.Decimal('1.01');
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface BetBuilderLeg {
+  odds: Prisma.Decimal;
+  outcome: string;
+  handicap: Prisma.Decimal | null;
+  params: string | null;
+  market: {
+    name: string;
+    marketKey: string;
+    type: string;
+    period: string;
+  };
+}
+
+export interface BetBuilderPrice {
+  /** Correlated price offered for the combination. */
+  combinedOdds: Prisma.Decimal;
+  /** Plain product of the leg odds (what a parlay would pay). */
+  independentOdds: Prisma.Decimal;
+  /** combinedOdds / independentOdds, never above 1. */
+  correlationFactor: Prisma.Decimal;
+  /** Model probability that every modelled leg wins, null when nothing could be modelled. */
+  jointProbability: number | null;
+  /** Which legs (by index) were priced by the score model. */
+  modelledLegs: number[];
+  contradictory: boolean;
+}
+
+/**
+ * Share of a final score a leg wins: 1 = win, 0 = lose, 0.5 = push / half.
+ */
+type LegEvaluator = (score: ScoreOutcome) => number;
+
+// ---------------------------------------------------------------------------
+// Leg classification
+// ---------------------------------------------------------------------------
+
+function parseLine(leg: BetBuilderLeg, allowMarketName: boolean): number | null {
+  if (leg.handicap) return leg.handicap.toNumber();
+
+  if (leg.params) {
+    const keyed = leg.params.match(/(?:handicap|total|line|points)=(-?\d+(?:\.\d+)?)/);
+    if (keyed) return parseFloat(keyed[1]);
+    const bare = leg.params.match(/^\s*(-?\d+(?:\.\d+)?)\s*$/);
+    if (bare) return parseFloat(bare[1]);
+  }
+
+  const keyMatch = leg.market.marketKey.match(/OU([\d.]+)/i);
+  if (keyMatch) return parseFloat(keyMatch[1]);
+
+  if (allowMarketName) {
+    const nameMatch = leg.market.name.match(/(\d+(?:\.\d+)?)/);
+    if (nameMatch) return parseFloat(nameMatch[1]);
+  }
+
+  return null;
+}
+
+// Asian quarter lines (e.g. -0.25) are half on each neighbouring line.
+function lineResult(diff: number): number {
+  const quarter = Math.abs((diff * 4) % 2) === 1;
+  if (quarter) {
+    return (lineResult(diff - 0.25) + lineResult(diff + 0.25)) / 2;
+  }
+  if (diff > 0) return 1;
+  if (diff === 0) return 0.5;
+  return 0;
+}
+
+/**
+ * Map a leg onto the final score. Follows the market conventions used by
+ * auto-settlement (moneyline / totals / spread), plus double chance, draw no
+ * bet and both teams to score. Returns null for anything the score model
+ * cannot represent (props, non full-time periods, outrights).
+ */
+function buildLegEvaluator(leg: BetBuilderLeg, hasDraws: boolean): LegEvaluator | null {
+  if (leg.market.period && leg.market.period.toUpperCase() !== 'FT') return null;
+
+  const outcome = leg.outcome.toUpperCase();
+  const typeLower = leg.market.type.toLowerCase();
+  const keyLower = leg.market.marketKey.toLowerCase();
+  const nameLower = leg.market.name.toLowerCase();
+
+  if (typeLower === 'outright' || keyLower.includes('outright')) return null;
+
+  // Both teams to score
+  if (keyLower.includes('btts') || keyLower.includes('both_teams') || nameLower.includes('both teams')) {
+    if (outcome === 'YES') return (s) => (s.home > 0 && s.away > 0 ? 1 : 0);
+    if (outcome === 'NO') return (s) => (s.home > 0 && s.away > 0 ? 0 : 1);
+    return null;
+  }
+
+  // Double chance
+  if (nameLower.includes('double chance') || keyLower.includes('double_chance')) {
+    if (outcome === '1X' || outcome === 'HOME_DRAW') return (s) => (s.home >= s.away ? 1 : 0);
+    if (outcome === 'X2' || outcome === 'DRAW_AWAY') return (s) => (s.away >= s.home ? 1 : 0);
+    if (outcome === '12' || outcome === 'HOME_AWAY') return (s) => (s.home !== s.away ? 1 : 0);
+    return null;
+  }
+
+  // Draw no bet
+  if (nameLower.includes('draw no bet') || keyLower.includes('draw_no_bet')) {
+    if (outcome === 'HOME' || outcome === '1') return (s) => lineResult(s.home - s.away);
+    if (outcome === 'AWAY' || outcome === '2') return (s) => lineResult(s.away - s.home);
+    return null;
+  }
+
+  // Totals / Over-Under
+  if (
+    typeLower === 'total' ||
+    keyLower.startsWith('ou') || keyLower.includes('over_under') || keyLower.includes('total') ||
+    nameLower.includes('over/under') || nameLower.includes('total')
+  ) {
+    const line = parseLine(leg, true);
+    if (line === null) return null;
+    if (outcome === 'OVER') return (s) => lineResult(s.home + s.away - line);
+    if (outcome === 'UNDER') return (s) => lineResult(line - (s.home + s.away));
+    return null;
+  }
+
+  // Spread / Asian Handicap (line applies to the selected side)
+  if (
+    typeLower === 'spread' ||
+    keyLower.includes('handicap') || keyLower.includes('spread') ||
+    nameLower.includes('handicap') || nameLower.includes('spread')
+  ) {
+    const line = parseLine(leg, false);
+    if (line === null) return null;
+    if (outcome === 'HOME' || outcome === '1') return (s) => lineResult(s.home - s.away + line);
+    if (outcome === 'AWAY' || outcome === '2') return (s) => lineResult(s.away - s.home + line);
+    return null;
+  }
+
+  // Moneyline / 1X2. Without draws a level score goes to overtime: split it.
+  const tie = hasDraws ? 0 : 0.5;
+  if (outcome === 'HOME' || outcome === '1') return (s) => (s.home > s.away ? 1 : s.home === s.away ? tie : 0);
+  if (outcome === 'AWAY' || outcome === '2') return (s) => (s.away > s.home ? 1 : s.home === s.away ? tie : 0);
+  if (outcome === 'DRAW' || outcome === 'X') return (s) => (s.home === s.away ? 1 : 0);
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Pricing
+// ---------------------------------------------------------------------------
+
+/**
+ * Price a same-event combination.
+ *
+ * Each leg keeps its own (already margined) book price; the score model is
+ * only used to measure how correlated the legs are. The plain product of the
+ * leg odds is scaled by P(A)·P(B)·… / P(A ∩ B ∩ …) over the modelled legs, so
+ * positively correlated legs (e.g. home win + over 2.5) are shortened. The
+ * factor is capped at 1: a combination never pays more than the parlay would.
+ * Legs the model cannot represent are treated as independent.
+ */
+export function priceBetBuilder(
+  legs: BetBuilderLeg[],
+  distribution: FinalScoreDistribution | null,
+): BetBuilderPrice {
+  const independentOdds = legs.reduce((acc, l) => acc.mul(l.odds), new Prisma.Decimal(1));
+
+  const modelled: Array<{ index: number; evaluate: LegEvaluator }> = [];
+  if (distribution) {
+    legs.forEach((leg, index) => {
+      const evaluate = buildLegEvaluator(leg, distribution.hasDraws);
+      if (evaluate) modelled.push({ index, evaluate });
+    });
+  }
+
+  if (!distribution || modelled.length === 0) {
+    return {
+      combinedOdds: independentOdds,
+      independentOdds,
+      correlationFactor: new Prisma.Decimal(1),
+      jointProbability: null,
+      modelledLegs: [],
+      contradictory: false,
+    };
+  }
+
+  const marginals = modelled.map(() => 0);
+  let joint = 0;
+  for (const score of distribution.outcomes) {
+    let weight = 1;
+    modelled.forEach((m, i) => {
+      const share = m.evaluate(score);
+      marginals[i] += score.prob * share;
+      weight *= share;
+    });
+    joint += score.prob * weight;
+  }
+
+  const modelledLegs = modelled.map((m) => m.index);
+
+  if (joint < MIN_JOINT_PROBABILITY) {
+    return {
+      combinedOdds: new Prisma.Decimal(0),
+      independentOdds,
+      correlationFactor: new Prisma.Decimal(0),
+      jointProbability: joint,
+      modelledLegs,
+      contradictory: true,
+    };
+  }
+
+  const independentProbability = marginals.reduce((acc, p) => acc * p, 1);
+  const factor = new Prisma.Decimal(Math.min(1, independentProbability / joint).toFixed(6));
+
+  let combinedOdds = independentOdds.mul(factor).toDecimalPlaces(2, Prisma.Decimal.ROUND_DOWN);
+  if (combinedOdds.lt(MIN_COMBINED_ODDS)) combinedOdds = MIN_COMBINED_ODDS;
+
+  return {
+    combinedOdds,
+    independentOdds,
+    correlationFactor: combinedOdds.div(independentOdds).toDecimalPlaces(8),
+    jointProbability: joint,
+    modelledLegs,
+    contradictory: false,
+  };
+}
+
+/**
+ * Correlation discount baked into a placed Bet Builder: the accepted price
+ * relative to the product of its leg odds. Settlement and cashout apply it to
+ * the leg-by-leg parlay maths so a correlated combination is not paid as if
+ * its legs were independent.
+ */
+export function betBuilderCorrelationFactor(
+  betOdds: Prisma.Decimal,
+  legs: Array<{ oddsAtPlacement: Prisma.Decimal }>,
+): Prisma.Decimal {
+  const independentOdds = legs.reduce((acc, l) => acc.mul(l.oddsAtPlacement), new Prisma.Decimal(1));
+  if (independentOdds.lte(0) || betOdds.gte(independentOdds)) return new Prisma.Decimal(1);
+  return betOdds.div(independentOdds);
+}
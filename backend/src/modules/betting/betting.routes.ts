@@ -1,5 +1,6 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { authenticate } from '../../middleware/auth.js';
+import { geoGuard } from '../../middleware/geo.js';
 import { validate, validateParams, validateQuery } from '../../middleware/validate.js';
 import { prisma } from '../../lib/prisma.js';
 import {
@@ -7,15 +8,23 @@ import {
   betHistoryQuerySchema,
   betIdParamsSchema,
   cashoutSchema,
+  betBuilderQuoteSchema,
+  freeBetsQuerySchema,
+  oddsBoostsQuerySchema,
   type PlaceBetInput,
   type BetHistoryQuery,
   type BetIdParams,
   type CashoutInput,
+  type BetBuilderQuoteInput,
+  type FreeBetsQuery,
+  type OddsBoostsQuery,
 } from './betting.schemas.js';
 import * as bettingService from './betting.service.js';
 import { BetError } from './betting.service.js';
 import * as cashoutService from './cashout.service.js';
 import { CashoutError } from './cashout.service.js';
+import { listFreeBets } from './freeBet.service.js';
+import { listAvailableBoosts } from './oddsBoost.service.js';
 
 export default async function bettingRoutes(fastify: FastifyInstance): Promise<void> {
   // All betting routes require authentication
@@ -24,7 +33,7 @@ export default async function bettingRoutes(fastify: FastifyInstance): Promise<v
   // ─── POST /api/v1/bets/place ────────────────────────────────────────────
   fastify.post(
     '/place',
-    { preHandler: [validate(placeBetSchema)] },
+    { preHandler: [geoGuard, validate(placeBetSchema)] },
     async (request: FastifyRequest<{ Body: PlaceBetInput }>, reply: FastifyReply) => {
       try {
         request.log.info({ body: request.body, userId: request.user?.id }, 'BET PLACE REQUEST');
@@ -52,6 +61,30 @@ export default async function bettingRoutes(fastify: FastifyInstance): Promise<v
       } catch (err) {
         if (err instanceof BetError) {
           request.log.warn({ code: err.code, message: err.message, body: request.body }, 'BET PLACE FAILED');
+          return reply.status(400).send({
+            success: false,
+            error: {
+              code: err.code,
+              message: err.message,
+              ...(err.maxStake !== undefined ? { maxStake: err.maxStake } : {}),
+            },
+          });
+        }
+        throw err;
+      }
+    },
+  );
+
+  // ─── POST /api/v1/bets/bet-builder/quote ────────────────────────────────
+  fastify.post(
+    '/bet-builder/quote',
+    { preHandler: [validate(betBuilderQuoteSchema)] },
+    async (request: FastifyRequest<{ Body: BetBuilderQuoteInput }>, reply: FastifyReply) => {
+      try {
+        const quote = await bettingService.quoteBetBuilder(request.body.selectionIds);
+        return reply.status(200).send({ success: true, data: { quote } });
+      } catch (err) {
+        if (err instanceof BetError) {
           return reply.status(400).send({
             success: false,
             error: { code: err.code, message: err.message },
@@ -81,6 +114,26 @@ export default async function bettingRoutes(fastify: FastifyInstance): Promise<v
     },
   );
 
+  // ─── GET /api/v1/bets/free-bets ─────────────────────────────────────────
+  fastify.get(
+    '/free-bets',
+    { preHandler: [validateQuery(freeBetsQuerySchema)] },
+    async (request: FastifyRequest<{ Querystring: FreeBetsQuery }>, reply: FastifyReply) => {
+      const freeBets = await listFreeBets(request.user!.id, request.query.status);
+      return reply.status(200).send({ success: true, data: { freeBets } });
+    },
+  );
+
+  // ─── GET /api/v1/bets/odds-boosts ───────────────────────────────────────
+  fastify.get(
+    '/odds-boosts',
+    { preHandler: [validateQuery(oddsBoostsQuerySchema)] },
+    async (request: FastifyRequest<{ Querystring: OddsBoostsQuery }>, reply: FastifyReply) => {
+      const boosts = await listAvailableBoosts(request.user!.id, request.query.eventId);
+      return reply.status(200).send({ success: true, data: { boosts } });
+    },
+  );
+
   // ─── GET /api/v1/bets/:id ──────────────────────────────────────────────
   fastify.get(
     '/:id',
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { NAMED_SYSTEMS, type NamedSystem } from './system.service.js';
 
 // ---------------------------------------------------------------------------
 // Shared helpers
@@ -22,7 +23,7 @@ const paginationSchema = z.object({
 // ---------------------------------------------------------------------------
 
 export const placeBetSchema = z.object({
-  type: z.enum(['SINGLE', 'PARLAY', 'BET_BUILDER']),
+  type: z.enum(['SINGLE', 'PARLAY', 'SYSTEM', 'BET_BUILDER']),
   selections: z
     .array(
       z.object({
@@ -38,18 +39,38 @@ export const placeBetSchema = z.object({
     .min(0.0001, 'Minimum stake is 0.0001'),
   currency: z.string().min(1, 'Currency is required'),
   oddsChangePolicy: z.enum(['ACCEPT_ANY', 'ACCEPT_HIGHER', 'REJECT']).default('REJECT'),
-  isLive: z.boolean().optional().default(false),
+  // SYSTEM only: "N from M" combination size, or a named full-cover system.
+  // For system bets `stake` is the stake per line.
+  systemSize: z.number().int().positive().optional(),
+  systemType: z
+    .enum(Object.keys(NAMED_SYSTEMS) as [NamedSystem, ...NamedSystem[]])
+    .optional(),
+  // Stake the bet with a free-bet token; `stake` must equal the token amount
+  freeBetId: z.string().min(1).optional(),
 });
 
 export type PlaceBetInput = z.infer<typeof placeBetSchema>;
 
+// ---------------------------------------------------------------------------
+// Bet Builder Quote
+// ---------------------------------------------------------------------------
+
+export const betBuilderQuoteSchema = z.object({
+  selectionIds: z
+    .array(z.string().min(1, 'Selection ID is required'))
+    .min(2, 'Bet Builder requires at least 2 selections')
+    .max(15, 'Maximum 15 selections per Bet Builder'),
+});
+
+export type BetBuilderQuoteInput = z.infer<typeof betBuilderQuoteSchema>;
+
 // ---------------------------------------------------------------------------
 // Bet History
 // ---------------------------------------------------------------------------
 
 export const betHistoryQuerySchema = paginationSchema.extend({
   status: z
-    .enum(['PENDING', 'ACCEPTED', 'WON', 'LOST', 'VOID', 'CASHOUT', 'PARTIALLY_SETTLED'])
+    .enum(['PENDING', 'ACCEPTED', 'WON', 'LOST', 'VOID', 'CASHOUT', 'PARTIALLY_SETTLED', 'REJECTED'])
     .optional(),
   type: z.enum(['SINGLE', 'PARLAY', 'SYSTEM', 'BET_BUILDER']).optional(),
   dateFrom: z.string().optional(),
@@ -85,3 +106,19 @@ export type CashoutInput = z.infer<typeof cashoutSchema>;
 export const shareBetSchema = z.object({});
 
 export type ShareBetInput = z.infer<typeof shareBetSchema>;
+
+// ---------------------------------------------------------------------------
+// Free bets & odds boosts
+// ---------------------------------------------------------------------------
+
+export const freeBetsQuerySchema = z.object({
+  status: z.enum(['ACTIVE', 'USED', 'EXPIRED']).optional(),
+});
+
+export type FreeBetsQuery = z.infer<typeof freeBetsQuerySchema>;
+
+export const oddsBoostsQuerySchema = z.object({
+  eventId: z.string().min(1).optional(),
+});
+
+export type OddsBoostsQuery = z.infer<typeof oddsBoostsQuerySchema>;
@@ -1,9 +1,32 @@
 import crypto from 'node:crypto';
-import { Prisma, type BetStatus, type BetType, type BetLegStatus } from '@prisma/client';
+import { Prisma, type BetStatus, type BetType, type BetLegStatus, type FreeBet, type OddsBoost } from '@prisma/client';
 import { prisma } from '../../lib/prisma.js';
-import { redis } from '../../lib/redis.js';
-import { rewardCalculationQueue } from '../../queues/index.js';
+import { betProcessingQueue } from '../../queues/index.js';
+import { broadcastBetAcceptance } from '../live/live.service.js';
 import type { PlaceBetInput, BetHistoryQuery } from './betting.schemas.js';
+import {
+  MIN_SYSTEM_SELECTIONS,
+  MAX_SYSTEM_LINES,
+  resolveSystemSizes,
+  countSystemLines,
+  countCombinations,
+  calculateSystemPotentialWin,
+  calculateSystemCashoutValue,
+} from './system.service.js';
+import { priceBetBuilder, betBuilderCorrelationFactor } from './betBuilder.service.js';
+import { buildFinalScoreDistribution } from '../../services/liveOddsEngine.js';
+import { checkLossLimit } from '../users/responsibleGambling.service.js';
+import { captureBetPricing, getStakeFactor } from '../../services/riskEngine.js';
+import { getLiabilityHeadroom } from './liability.service.js';
+import {
+  splitStake,
+  debitStake,
+  bonusShareOf,
+  creditStakeReturn,
+  type StakeSplit,
+} from '../promotions/bonus.service.js';
+import { getUsableFreeBet, checkFreeBetEligibility, useFreeBet, reinstateFreeBet } from './freeBet.service.js';
+import { findApplicableBoosts, checkBoostStakeCaps } from './oddsBoost.service.js';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -13,7 +36,7 @@ const MIN_STAKE = new Prisma.Decimal('0.0001');
 const MAX_STAKE_DEFAULT = new Prisma.Decimal('100000');
 const MAX_PARLAY_LEGS = 15;
 const MIN_PARLAY_LEGS = 2;
-const LIVE_BET_DELAY_MS = 6000; // 6 second delay for live bets
+const LIVE_BET_DELAY_MS = 6000; // 6 second delay for live bets (fallback when not configured)
 
 // ---------------------------------------------------------------------------
 // Place Bet
@@ -30,6 +53,10 @@ export interface PlaceBetResult {
     potentialWin: string;
     status: string;
     isLive: boolean;
+    systemSizes: number[];
+    stakePerLine: string | null;
+    lineCount: number;
+    freeBetId: string | null;
     legs: Array<{
       id: string;
       selectionId: string;
@@ -37,6 +64,8 @@ export interface PlaceBetResult {
       marketName: string | null;
       selectionName: string | null;
       oddsAtPlacement: string;
+      /** Price replaced by an odds boost */
+      originalOdds: string | null;
       status: string;
     }>;
     createdAt: string;
@@ -48,7 +77,7 @@ export async function placeBet(
   input: PlaceBetInput,
   ipAddress?: string,
 ): Promise<PlaceBetResult> {
-  const { type, selections, stake, currency, oddsChangePolicy, isLive } = input;
+  const { type, selections, stake, currency, oddsChangePolicy, systemSize, systemType, freeBetId } = input;
   const stakeDecimal = new Prisma.Decimal(stake);
 
   // ── Pre-validation ──────────────────────────────────────────────────────
@@ -74,6 +103,25 @@ export async function placeBet(
     throw new BetError('COOLING_OFF', 'You are in a cooling-off period.');
   }
 
+  // Free bet: the token is the stake
+  let freeBet: FreeBet | null = null;
+  if (freeBetId) {
+    if (type === 'SYSTEM') {
+      throw new BetError('FREE_BET_NOT_ELIGIBLE', 'Free bets cannot be used on system bets.');
+    }
+    const usable = await getUsableFreeBet(userId, freeBetId, currency);
+    if ('code' in usable) {
+      throw new BetError(usable.code, usable.message);
+    }
+    if (!stakeDecimal.eq(usable.token.amount)) {
+      throw new BetError(
+        'FREE_BET_STAKE',
+        `This free bet has a fixed stake of ${usable.token.amount.toString()} ${usable.token.currency}.`,
+      );
+    }
+    freeBet = usable.token;
+  }
+
   // Validate stake
   if (stakeDecimal.lt(MIN_STAKE)) {
     throw new BetError('STAKE_TOO_LOW', `Minimum stake is ${MIN_STAKE.toString()}`);
@@ -92,6 +140,30 @@ export async function placeBet(
     }
   }
 
+  // SYSTEM: resolve combination sizes; `stake` is charged once per line
+  let systemSizes: number[] = [];
+  let lineCount = 1;
+  if (type === 'SYSTEM') {
+    if (selections.length < MIN_SYSTEM_SELECTIONS) {
+      throw new BetError('INVALID_SELECTIONS', `System bet requires at least ${MIN_SYSTEM_SELECTIONS} selections.`);
+    }
+    const resolved = resolveSystemSizes(selections.length, systemSize, systemType);
+    if ('error' in resolved) {
+      throw new BetError('INVALID_SYSTEM', resolved.error);
+    }
+    systemSizes = resolved.sizes;
+    lineCount = countSystemLines(selections.length, systemSizes);
+    if (lineCount > MAX_SYSTEM_LINES) {
+      throw new BetError('INVALID_SYSTEM', `System bet allows a maximum of ${MAX_SYSTEM_LINES} lines (requested ${lineCount}).`);
+    }
+  } else if (systemSize !== undefined || systemType !== undefined) {
+    throw new BetError('INVALID_SYSTEM', 'systemSize and systemType are only valid for SYSTEM bets.');
+  }
+
+  const totalStake = stakeDecimal.mul(lineCount);
+  // What the house actually takes in (nothing for a free bet)
+  const cashStake = freeBet ? new Prisma.Decimal(0) : totalStake;
+
   // ── Fetch and validate all selections ───────────────────────────────────
 
   const selectionIds = selections.map((s) => s.selectionId);
@@ -101,7 +173,13 @@ export async function placeBet(
       market: {
         include: {
           event: {
-            select: { id: true, name: true, status: true },
+            select: {
+              id: true,
+              name: true,
+              status: true,
+              isLive: true,
+              competition: { select: { sport: { select: { slug: true } } } },
+            },
           },
         },
       },
@@ -112,9 +190,24 @@ export async function placeBet(
     throw new BetError('SELECTION_NOT_FOUND', 'One or more selections were not found.');
   }
 
+  // In-play is decided from the events, never from the client: a bet with any
+  // live leg goes through the live delay and odds re-check
+  const isLive = dbSelections.some((s) => s.market.event.status === 'LIVE' || s.market.event.isLive);
+
   // Build lookup map
   const selectionMap = new Map(dbSelections.map((s) => [s.id, s]));
 
+  // Odds boosts: pre-match singles and parlays (not free bets) take the
+  // boosted price while it beats the market price
+  const boosts = !freeBet && !isLive && (type === 'SINGLE' || type === 'PARLAY')
+    ? await findApplicableBoosts(userId, selectionIds)
+    : new Map<string, OddsBoost>();
+  for (const [selectionId, boost] of boosts) {
+    if (boost.boostedOdds.lte(selectionMap.get(selectionId)!.odds)) boosts.delete(selectionId);
+  }
+  const offeredOdds = (selectionId: string) =>
+    boosts.get(selectionId)?.boostedOdds ?? selectionMap.get(selectionId)!.odds;
+
   // Validate each selection
   const eventIds = new Set<string>();
   for (const sel of selections) {
@@ -142,7 +235,7 @@ export async function placeBet(
     }
 
     // Odds change validation
-    const currentOdds = dbSel.odds;
+    const currentOdds = offeredOdds(dbSel.id);
     const requestedOdds = new Prisma.Decimal(sel.odds);
 
     if (!currentOdds.eq(requestedOdds)) {
@@ -161,22 +254,13 @@ export async function placeBet(
       // ACCEPT_ANY: continue with current odds
     }
 
-    // Stake limit check
-    const maxStake = dbSel.maxStake ?? MAX_STAKE_DEFAULT;
-    if (stakeDecimal.gt(maxStake)) {
-      throw new BetError(
-        'STAKE_TOO_HIGH',
-        `Maximum stake for "${dbSel.name}" is ${maxStake.toString()}.`,
-      );
-    }
-
-    // Check for duplicate events in parlay (not applicable for BET_BUILDER)
-    if (type === 'PARLAY') {
+    // Check for duplicate events in parlay/system (not applicable for BET_BUILDER)
+    if (type === 'PARLAY' || type === 'SYSTEM') {
       const eventId = dbSel.market.event.id;
       if (eventIds.has(eventId)) {
         throw new BetError(
           'DUPLICATE_EVENT',
-          `Parlay cannot contain multiple selections from the same event: "${dbSel.market.event.name}".`,
+          `${type === 'SYSTEM' ? 'System bet' : 'Parlay'} cannot contain multiple selections from the same event: "${dbSel.market.event.name}".`,
         );
       }
       eventIds.add(eventId);
@@ -211,32 +295,82 @@ export async function placeBet(
 
   // ── Calculate combined odds and potential winnings ───────────────────────
 
-  let combinedOdds: Prisma.Decimal;
-  if (type === 'SINGLE') {
-    combinedOdds = selectionMap.get(selections[0].selectionId)!.odds;
-  } else {
-    // PARLAY: product of all selection odds
-    combinedOdds = new Prisma.Decimal(1);
-    for (const sel of selections) {
-      const dbSel = selectionMap.get(sel.selectionId)!;
-      combinedOdds = combinedOdds.mul(dbSel.odds);
+  const price = await calculateBetPrice(
+    type,
+    selections.map((sel) => ({ selectionId: sel.selectionId, odds: offeredOdds(sel.selectionId) })),
+    stakeDecimal,
+    systemSizes,
+  );
+  const { combinedOdds } = price;
+  // A winning free bet pays the profit only
+  const potentialWin = freeBet ? price.potentialWin.minus(totalStake) : price.potentialWin;
+
+  if (freeBet) {
+    const ineligible = checkFreeBetEligibility(
+      freeBet,
+      combinedOdds,
+      selections.map((sel) => {
+        const dbSel = selectionMap.get(sel.selectionId)!;
+        return {
+          name: dbSel.name,
+          sportSlug: dbSel.market.event.competition?.sport.slug ?? null,
+          marketType: dbSel.market.type,
+        };
+      }),
+    );
+    if (ineligible) {
+      throw new BetError(ineligible.code, ineligible.message);
     }
   }
 
-  const potentialWin = stakeDecimal.mul(combinedOdds);
+  // ── Stake limits and liability caps ─────────────────────────────────────
 
-  // ── Handle live bet delay ───────────────────────────────────────────────
-
-  if (isLive) {
-    const delayKey = `live_bet_delay:${userId}:${Date.now()}`;
-    await redis.set(delayKey, JSON.stringify({ userId, input, ipAddress }), 'PX', LIVE_BET_DELAY_MS);
-    // For now, we proceed synchronously but flag it. In production, a queue worker
-    // would pick this up after the delay.
+  // Each boost caps what a user can stake at the boosted price
+  const boostBreach = await checkBoostStakeCaps(userId, [...boosts.values()], currency, totalStake);
+  if (boostBreach) {
+    throw new BetError(boostBreach.code, boostBreach.message, boostBreach.maxStake);
   }
 
+  // Live bets are held in PENDING and accepted by the bet-processing worker
+  // once the delay has passed and the selections have been re-validated.
+  const initialStatus: BetStatus = isLive ? 'PENDING' : 'ACCEPTED';
+
   // ── Atomic transaction: deduct balance + create bet ─────────────────────
 
   const bet = await prisma.$transaction(async (tx) => {
+    // Stake limits and liability caps (the caps are locked until commit)
+    const stakeBreach = await checkStakeLimits(tx, {
+      userId,
+      type,
+      systemSizes,
+      legs: selections.map((sel) => {
+        const dbSel = selectionMap.get(sel.selectionId)!;
+        return {
+          selectionId: dbSel.id,
+          name: dbSel.name,
+          maxStake: dbSel.maxStake,
+          marketId: dbSel.marketId,
+          eventId: dbSel.market.event.id,
+        };
+      }),
+      currency,
+      stake: stakeDecimal,
+      exposure: potentialWin.minus(cashStake),
+    });
+    if (stakeBreach) {
+      throw new BetError(stakeBreach.code, stakeBreach.message, stakeBreach.maxStake);
+    }
+
+    // Responsible gambling: the whole stake must fit inside the user's loss
+    // limits. The user row lock serializes this with the user's other wagers.
+    if (!freeBet) {
+      await tx.$queryRaw`SELECT id FROM users WHERE id = ${userId} FOR UPDATE`;
+      const lossBreach = await checkLossLimit(userId, currency, totalStake, tx);
+      if (lossBreach) {
+        throw new BetError(lossBreach.code, lossBreach.message);
+      }
+    }
+
     // Find user's wallet for this currency
     const currencyRecord = await tx.currency.findUnique({
       where: { symbol: currency.toUpperCase() },
@@ -259,46 +393,59 @@ export async function placeBet(
       });
     }
 
-    // Check available balance (balance - lockedBalance)
-    const available = wallet.balance.minus(wallet.lockedBalance);
-    if (available.lt(stakeDecimal)) {
-      throw new BetError(
-        'INSUFFICIENT_BALANCE',
-        `Insufficient balance. Available: ${available.toString()}, Required: ${stakeDecimal.toString()}.`,
-      );
-    }
+    let stakeSplit: StakeSplit = { cash: new Prisma.Decimal(0), bonus: new Prisma.Decimal(0) };
+    if (freeBet) {
+      // The token is the stake: nothing is taken from the wallet
+      if (!(await useFreeBet(tx, freeBet.id))) {
+        throw new BetError('FREE_BET_UNAVAILABLE', 'This free bet has already been used or has expired.');
+      }
+    } else {
+      // Check available balance (balance - lockedBalance, then bonus funds)
+      const available = wallet.balance.minus(wallet.lockedBalance);
+      const split = splitStake(available, wallet.bonusBalance, totalStake);
+      if (!split) {
+        throw new BetError(
+          'INSUFFICIENT_BALANCE',
+          `Insufficient balance. Available: ${available.plus(wallet.bonusBalance).toString()}, Required: ${totalStake.toString()}.`,
+        );
+      }
 
-    // Lock the stake amount
-    await tx.wallet.update({
-      where: { id: wallet.id },
-      data: {
-        balance: { decrement: stakeDecimal },
-        lockedBalance: { increment: new Prisma.Decimal(0) }, // Balance already deducted
-      },
-    });
+      // Take the stake: cash first, then bonus funds
+      await debitStake(tx, wallet.id, split);
+      stakeSplit = split;
+    }
 
     // Create the bet
     const createdBet = await tx.bet.create({
       data: {
         userId,
         type: type as BetType,
-        stake: stakeDecimal,
+        stake: totalStake,
+        bonusStake: stakeSplit.bonus,
+        freeBetId: freeBet?.id ?? null,
         currencySymbol: currency.toUpperCase(),
         potentialWin,
         odds: combinedOdds,
-        status: 'ACCEPTED',
-        isLive: isLive ?? false,
-        isCashoutAvailable: true,
+        systemSizes,
+        stakePerLine: type === 'SYSTEM' ? stakeDecimal : null,
+        lineCount,
+        status: initialStatus,
+        isLive,
+        // Free bets and boosted bets cannot be cashed out
+        isCashoutAvailable: initialStatus === 'ACCEPTED' && !freeBet && boosts.size === 0,
         ipAddress,
         legs: {
           create: selections.map((sel) => {
             const dbSel = selectionMap.get(sel.selectionId)!;
+            const boost = boosts.get(dbSel.id);
             return {
               selectionId: dbSel.id,
               eventName: dbSel.market.event.name,
               marketName: dbSel.market.name,
               selectionName: dbSel.name,
-              oddsAtPlacement: dbSel.odds,
+              oddsAtPlacement: offeredOdds(dbSel.id),
+              oddsBoostId: boost?.id ?? null,
+              originalOdds: boost ? dbSel.odds : null,
               status: 'PENDING' as BetLegStatus,
             };
           }),
@@ -314,13 +461,16 @@ export async function placeBet(
       data: {
         walletId: wallet.id,
         type: 'BET',
-        amount: stakeDecimal.negated(),
+        amount: cashStake.negated(),
         status: 'COMPLETED',
         metadata: {
           betId: createdBet.id,
           referenceId: createdBet.referenceId,
           type: createdBet.type,
           odds: combinedOdds.toString(),
+          ...(type === 'SYSTEM' ? { systemSizes, lineCount } : {}),
+          ...(stakeSplit.bonus.gt(0) ? { bonusAmount: stakeSplit.bonus.toString() } : {}),
+          ...(freeBet ? { freeBetId: freeBet.id, freeBetStake: totalStake.toString() } : {}),
         },
       },
     });
@@ -336,14 +486,14 @@ export async function placeBet(
           id: `${dbSel.marketId}_${dbSel.id}`,
           marketId: dbSel.marketId,
           selectionId: dbSel.id,
-          totalStake: stakeDecimal,
+          totalStake: cashStake,
           potentialPayout: potentialWin,
-          netExposure: potentialWin.minus(stakeDecimal),
+          netExposure: potentialWin.minus(cashStake),
         },
         update: {
-          totalStake: { increment: stakeDecimal },
+          totalStake: { increment: cashStake },
           potentialPayout: { increment: potentialWin },
-          netExposure: { increment: potentialWin.minus(stakeDecimal) },
+          netExposure: { increment: potentialWin.minus(cashStake) },
         },
       });
     }
@@ -351,23 +501,13 @@ export async function placeBet(
     return createdBet;
   });
 
-  // ── Trigger rakeback / VIP wagered update (async) ───────────────────────
-  await rewardCalculationQueue.add('bet-placed', {
-    userId,
-    betId: bet.id,
-    stake: stakeDecimal.toString(),
-    currency: currency.toUpperCase(),
-    type,
-    timestamp: new Date().toISOString(),
-  });
+  // Wagering rewards (totalWagered, rakeback, VIP) are applied at settlement
+  if (bet.status === 'PENDING') {
+    await scheduleLiveBetAcceptance(bet.id, oddsChangePolicy);
+  }
 
-  // ── Update user's total wagered ─────────────────────────────────────────
-  await prisma.user.update({
-    where: { id: userId },
-    data: {
-      totalWagered: { increment: stakeDecimal },
-    },
-  });
+  // Fire-and-forget: pricing evidence for the risk engine
+  void captureBetPricing(bet.id);
 
   return {
     bet: {
@@ -380,6 +520,10 @@ export async function placeBet(
       potentialWin: bet.potentialWin.toString(),
       status: bet.status,
       isLive: bet.isLive,
+      systemSizes: bet.systemSizes,
+      stakePerLine: bet.stakePerLine?.toString() ?? null,
+      lineCount: bet.lineCount,
+      freeBetId: bet.freeBetId,
       legs: bet.legs.map((l) => ({
         id: l.id,
         selectionId: l.selectionId,
@@ -387,6 +531,7 @@ export async function placeBet(
         marketName: l.marketName,
         selectionName: l.selectionName,
         oddsAtPlacement: l.oddsAtPlacement.toString(),
+        originalOdds: l.originalOdds?.toString() ?? null,
         status: l.status,
       })),
       createdAt: bet.createdAt.toISOString(),
@@ -394,6 +539,582 @@ export async function placeBet(
   };
 }
 
+// ---------------------------------------------------------------------------
+// Pricing
+// ---------------------------------------------------------------------------
+
+/**
+ * Combined odds and potential return for a bet.
+ *
+ * SINGLE / PARLAY: product of leg odds, `stake` is the bet stake.
+ * BET_BUILDER: correlated same-event price (see betBuilder.service).
+ * SYSTEM: sum of every line's return, `stake` is the stake per line and the
+ * odds are the effective price on the total stake.
+ */
+async function calculateBetPrice(
+  type: string,
+  legs: Array<{ selectionId: string; odds: Prisma.Decimal }>,
+  stake: Prisma.Decimal,
+  systemSizes: number[],
+): Promise<{ combinedOdds: Prisma.Decimal; potentialWin: Prisma.Decimal }> {
+  const legOdds = legs.map((l) => l.odds);
+
+  if (type === 'SYSTEM') {
+    const potentialWin = calculateSystemPotentialWin(legOdds, systemSizes, stake);
+    const totalStake = stake.mul(countSystemLines(legOdds.length, systemSizes));
+    return { combinedOdds: potentialWin.div(totalStake).toDecimalPlaces(8), potentialWin };
+  }
+
+  if (type === 'BET_BUILDER') {
+    const { price } = await loadBetBuilderPrice(legs.map((l) => l.selectionId));
+    if (price.contradictory) {
+      throw new BetError(
+        'CONTRADICTORY_SELECTIONS',
+        'These Bet Builder selections cannot all win together.',
+      );
+    }
+    return { combinedOdds: price.combinedOdds, potentialWin: stake.mul(price.combinedOdds) };
+  }
+
+  const combinedOdds = legOdds.reduce((acc, o) => acc.mul(o), new Prisma.Decimal(1));
+  return { combinedOdds, potentialWin: stake.mul(combinedOdds) };
+}
+
+// ---------------------------------------------------------------------------
+// Stake limits
+// ---------------------------------------------------------------------------
+
+interface StakeLimitLeg {
+  selectionId: string;
+  name: string;
+  maxStake: Prisma.Decimal | null;
+  marketId: string;
+  eventId: string;
+}
+
+interface StakeLimitBreach {
+  code: string;
+  message: string;
+  /** Largest stake (per line for SYSTEM bets) that would have been accepted */
+  maxStake: Prisma.Decimal;
+}
+
+/**
+ * Whether `stake` fits under every selection's max stake (scaled by the
+ * user's risk stake factor) and the market, event and sport liability caps.
+ * `stake` is the stake per line and `exposure` the bet's net payout
+ * (potentialWin minus the cash stake). `excludeBetId` leaves a PENDING bet's
+ * own reservation out of the open exposure when it is re-checked.
+ *
+ * Call it inside the transaction that writes the bet: the liability caps stay
+ * locked until that transaction ends.
+ */
+async function checkStakeLimits(tx: Prisma.TransactionClient, params: {
+  userId: string;
+  type: string;
+  systemSizes: number[];
+  legs: StakeLimitLeg[];
+  currency: string;
+  stake: Prisma.Decimal;
+  exposure: Prisma.Decimal;
+  excludeBetId?: string;
+}): Promise<StakeLimitBreach | null> {
+  const { userId, type, systemSizes, legs, currency, stake, exposure, excludeBetId } = params;
+
+  // Risk engine stake factor scales every selection's max stake for this user
+  const stakeFactor = await getStakeFactor(userId);
+
+  // System bets: number of lines holding any one selection
+  const linesPerSelection = type === 'SYSTEM'
+    ? systemSizes.reduce((acc, k) => acc + countCombinations(legs.length - 1, k - 1), 0)
+    : 1;
+
+  // Stake limit (system bets: spread across every line holding this selection)
+  let stakeLimit: { name: string; maxStake: Prisma.Decimal } | null = null;
+  for (const leg of legs) {
+    const maxStake = (leg.maxStake ?? MAX_STAKE_DEFAULT)
+      .mul(stakeFactor)
+      .div(linesPerSelection)
+      .toDecimalPlaces(8, Prisma.Decimal.ROUND_DOWN);
+    if (!stakeLimit || maxStake.lt(stakeLimit.maxStake)) {
+      stakeLimit = { name: leg.name, maxStake };
+    }
+  }
+  if (!stakeLimit) return null;
+
+  const liability = await getLiabilityHeadroom(
+    tx,
+    legs.map((l) => ({ selectionId: l.selectionId, marketId: l.marketId, eventId: l.eventId })),
+    currency,
+    exposure.div(stake),
+    { excludeBetId },
+  );
+  const maxAcceptableStake = liability
+    ? Prisma.Decimal.min(liability.maxStake, stakeLimit.maxStake)
+    : stakeLimit.maxStake;
+
+  if (stake.lte(maxAcceptableStake)) return null;
+
+  if (liability && liability.maxStake.lte(stakeLimit.maxStake)) {
+    return {
+      code: 'LIABILITY_LIMIT_EXCEEDED',
+      message: `This bet would exceed the liability limit on ${liability.scope} "${liability.name}". Maximum stake is ${maxAcceptableStake.toString()}.`,
+      maxStake: maxAcceptableStake,
+    };
+  }
+  return {
+    code: 'STAKE_TOO_HIGH',
+    message: `Maximum stake for "${stakeLimit.name}" is ${maxAcceptableStake.toString()}.`,
+    maxStake: maxAcceptableStake,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Bet Builder
+// ---------------------------------------------------------------------------
+
+export interface BetBuilderQuote {
+  eventId: string;
+  eventName: string;
+  combinedOdds: string;
+  independentOdds: string;
+  correlationFactor: string;
+  legs: Array<{
+    selectionId: string;
+    selectionName: string;
+    marketName: string;
+    odds: string;
+    correlated: boolean;
+  }>;
+}
+
+/**
+ * Price the event and legs behind a Bet Builder. Legs are returned in the
+ * order of `selectionIds`; the event's final-score distribution is built from
+ * its current score when it is live.
+ */
+async function loadBetBuilderPrice(selectionIds: string[]) {
+  const dbSelections = await prisma.selection.findMany({
+    where: { id: { in: selectionIds } },
+    include: {
+      market: {
+        include: {
+          event: {
+            select: {
+              id: true,
+              name: true,
+              status: true,
+              isLive: true,
+              scores: true,
+              metadata: true,
+              competition: { select: { sport: { select: { slug: true } } } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (dbSelections.length !== selectionIds.length) {
+    throw new BetError('SELECTION_NOT_FOUND', 'One or more selections were not found.');
+  }
+
+  const selectionMap = new Map(dbSelections.map((s) => [s.id, s]));
+  const legs = selectionIds.map((id) => selectionMap.get(id)!);
+
+  const event = legs[0].market.event;
+  const scores = event.scores as Record<string, number> | null;
+  const isLive = event.status === 'LIVE' || event.isLive;
+  const distribution = buildFinalScoreDistribution(
+    event.competition.sport.slug,
+    scores?.home ?? 0,
+    scores?.away ?? 0,
+    event.metadata as Record<string, unknown> | null,
+    isLive,
+  );
+
+  const price = priceBetBuilder(legs, distribution);
+  return { legs, price };
+}
+
+/**
+ * Quote a Bet Builder before placement. Applies the same structural checks as
+ * placeBet (one event, one selection per market, everything open) and rejects
+ * combinations the score model says cannot win together.
+ */
+export async function quoteBetBuilder(selectionIds: string[]): Promise<BetBuilderQuote> {
+  if (selectionIds.length < MIN_PARLAY_LEGS) {
+    throw new BetError('INVALID_SELECTIONS', `Bet Builder requires at least ${MIN_PARLAY_LEGS} selections.`);
+  }
+  if (selectionIds.length > MAX_PARLAY_LEGS) {
+    throw new BetError('INVALID_SELECTIONS', `Bet Builder allows a maximum of ${MAX_PARLAY_LEGS} selections.`);
+  }
+  if (new Set(selectionIds).size !== selectionIds.length) {
+    throw new BetError('INVALID_SELECTIONS', 'Bet Builder cannot contain the same selection twice.');
+  }
+
+  const { legs, price } = await loadBetBuilderPrice(selectionIds);
+
+  const marketIds = new Set<string>();
+  for (const sel of legs) {
+    if (sel.market.event.id !== legs[0].market.event.id) {
+      throw new BetError('MULTI_EVENT_BET_BUILDER', 'Bet Builder selections must all be from the same event.');
+    }
+    if (marketIds.has(sel.marketId)) {
+      throw new BetError(
+        'DUPLICATE_MARKET',
+        `Bet Builder cannot contain multiple selections from the same market: "${sel.market.name}".`,
+      );
+    }
+    marketIds.add(sel.marketId);
+
+    if (sel.status !== 'ACTIVE') {
+      throw new BetError('SELECTION_NOT_ACTIVE', `Selection "${sel.name}" is not active (current: ${sel.status}).`);
+    }
+    if (sel.market.status !== 'OPEN') {
+      throw new BetError('MARKET_NOT_OPEN', `Market "${sel.market.name}" is not open (current: ${sel.market.status}).`);
+    }
+    if (sel.market.event.status === 'ENDED' || sel.market.event.status === 'CANCELLED') {
+      throw new BetError('EVENT_ENDED', `Event "${sel.market.event.name}" has ended or been cancelled.`);
+    }
+  }
+
+  if (price.contradictory) {
+    throw new BetError(
+      'CONTRADICTORY_SELECTIONS',
+      'These Bet Builder selections cannot all win together.',
+    );
+  }
+
+  const modelled = new Set(price.modelledLegs);
+  return {
+    eventId: legs[0].market.event.id,
+    eventName: legs[0].market.event.name,
+    combinedOdds: price.combinedOdds.toString(),
+    independentOdds: price.independentOdds.toString(),
+    correlationFactor: price.correlationFactor.toString(),
+    legs: legs.map((sel, i) => ({
+      selectionId: sel.id,
+      selectionName: sel.name,
+      marketName: sel.market.name,
+      odds: sel.odds.toString(),
+      correlated: modelled.size > 1 && modelled.has(i),
+    })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Live bet acceptance
+// ---------------------------------------------------------------------------
+
+export interface LiveBetAcceptanceJob {
+  betId: string;
+  oddsChangePolicy: PlaceBetInput['oddsChangePolicy'];
+}
+
+export interface LiveBetAcceptanceResult {
+  betId: string;
+  status: 'ACCEPTED' | 'REJECTED' | 'SKIPPED';
+  code?: string;
+  reason?: string;
+}
+
+/**
+ * Live bet acceptance delay, from the `live_bet_delay_seconds` site config.
+ */
+export async function getLiveBetDelayMs(): Promise<number> {
+  const row = await prisma.siteConfig.findUnique({
+    where: { key: 'live_bet_delay_seconds' },
+    select: { value: true },
+  });
+  const seconds = Number(row?.value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : LIVE_BET_DELAY_MS;
+}
+
+/**
+ * Queue a PENDING live bet for re-validation after the acceptance delay.
+ */
+export async function scheduleLiveBetAcceptance(
+  betId: string,
+  oddsChangePolicy: PlaceBetInput['oddsChangePolicy'],
+): Promise<void> {
+  const delay = await getLiveBetDelayMs();
+  const data: LiveBetAcceptanceJob = { betId, oddsChangePolicy };
+  await betProcessingQueue.add('live-bet-acceptance', data, {
+    delay,
+    jobId: `live-bet-${betId}`,
+  });
+}
+
+/**
+ * Re-validate a delayed live bet against the current state of its selections
+ * and either accept it (at the current price when the odds change policy
+ * allows a move, and while it still fits the stake limits and liability
+ * caps) or reject it and refund the stake. Safe to run more than once:
+ * anything no longer PENDING is skipped.
+ */
+export async function processLiveBetAcceptance(
+  job: LiveBetAcceptanceJob,
+): Promise<LiveBetAcceptanceResult> {
+  const { betId, oddsChangePolicy } = job;
+
+  const bet = await prisma.bet.findUnique({
+    where: { id: betId },
+    include: {
+      legs: {
+        include: {
+          selection: {
+            include: {
+              market: {
+                include: {
+                  event: { select: { id: true, name: true, status: true } },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!bet || bet.status !== 'PENDING') {
+    return { betId, status: 'SKIPPED' };
+  }
+
+  // ── Re-validate every leg ────────────────────────────────────────────────
+
+  let rejection: { code: string; reason: string } | null = null;
+  for (const leg of bet.legs) {
+    const sel = leg.selection;
+
+    if (sel.status !== 'ACTIVE') {
+      rejection = { code: 'SELECTION_NOT_ACTIVE', reason: `Selection "${sel.name}" is no longer active.` };
+    } else if (sel.market.status !== 'OPEN') {
+      rejection = { code: 'MARKET_NOT_OPEN', reason: `Market "${sel.market.name}" is not open.` };
+    } else if (sel.market.event.status === 'ENDED' || sel.market.event.status === 'CANCELLED') {
+      rejection = { code: 'EVENT_ENDED', reason: `Event "${sel.market.event.name}" has ended or been cancelled.` };
+    } else if (!sel.odds.eq(leg.oddsAtPlacement)) {
+      if (oddsChangePolicy === 'REJECT') {
+        rejection = {
+          code: 'ODDS_CHANGED',
+          reason: `Odds for "${sel.name}" changed from ${leg.oddsAtPlacement.toString()} to ${sel.odds.toString()}.`,
+        };
+      } else if (oddsChangePolicy === 'ACCEPT_HIGHER' && sel.odds.lt(leg.oddsAtPlacement)) {
+        rejection = {
+          code: 'ODDS_DECREASED',
+          reason: `Odds for "${sel.name}" decreased from ${leg.oddsAtPlacement.toString()} to ${sel.odds.toString()}.`,
+        };
+      }
+    }
+
+    if (rejection) break;
+  }
+
+  if (rejection) {
+    return rejectPendingBet(bet, rejection);
+  }
+
+  // ── Accept at current prices ─────────────────────────────────────────────
+
+  // Bet Builder prices move with the score too: a combination that can no
+  // longer win together is rejected rather than accepted at a dead price.
+  let price: { combinedOdds: Prisma.Decimal; potentialWin: Prisma.Decimal };
+  try {
+    price = await calculateBetPrice(
+      bet.type,
+      bet.legs.map((l) => ({ selectionId: l.selectionId, odds: l.selection.odds })),
+      bet.stakePerLine ?? bet.stake,
+      bet.systemSizes,
+    );
+  } catch (err) {
+    if (err instanceof BetError) {
+      return rejectPendingBet(bet, { code: err.code, reason: err.message });
+    }
+    throw err;
+  }
+  const { combinedOdds } = price;
+  // A winning free bet pays the profit only
+  const potentialWin = bet.freeBetId ? price.potentialWin.minus(bet.stake) : price.potentialWin;
+  const payoutDelta = potentialWin.minus(bet.potentialWin);
+
+  const outcome = await prisma.$transaction(async (tx): Promise<boolean | StakeLimitBreach> => {
+    // The new price (and anything placed during the delay) must still fit the
+    // stake limits and liability caps; this bet's own reservation is excluded
+    const stakeBreach = await checkStakeLimits(tx, {
+      userId: bet.userId,
+      type: bet.type,
+      systemSizes: bet.systemSizes,
+      legs: bet.legs.map((l) => ({
+        selectionId: l.selectionId,
+        name: l.selection.name,
+        maxStake: l.selection.maxStake,
+        marketId: l.selection.marketId,
+        eventId: l.selection.market.event.id,
+      })),
+      currency: bet.currencySymbol,
+      stake: bet.stakePerLine ?? bet.stake,
+      exposure: potentialWin.minus(bet.freeBetId ? 0 : bet.stake),
+      excludeBetId: bet.id,
+    });
+    if (stakeBreach) return stakeBreach;
+
+    const updated = await tx.bet.updateMany({
+      where: { id: bet.id, status: 'PENDING' },
+      data: {
+        status: 'ACCEPTED',
+        odds: combinedOdds,
+        potentialWin,
+        isCashoutAvailable: !bet.freeBetId,
+      },
+    });
+    if (updated.count === 0) return false;
+
+    for (const leg of bet.legs) {
+      if (!leg.selection.odds.eq(leg.oddsAtPlacement)) {
+        await tx.betLeg.update({
+          where: { id: leg.id },
+          data: { oddsAtPlacement: leg.selection.odds },
+        });
+      }
+
+      if (!payoutDelta.isZero()) {
+        await tx.marketLiability.updateMany({
+          where: { id: `${leg.selection.marketId}_${leg.selectionId}` },
+          data: {
+            potentialPayout: { increment: payoutDelta },
+            netExposure: { increment: payoutDelta },
+          },
+        });
+      }
+    }
+
+    return true;
+  });
+
+  if (typeof outcome === 'object') {
+    return rejectPendingBet(bet, { code: outcome.code, reason: outcome.message });
+  }
+  if (!outcome) {
+    return { betId, status: 'SKIPPED' };
+  }
+
+  broadcastBetAcceptance(bet.userId, {
+    betId: bet.id,
+    status: 'ACCEPTED',
+    odds: combinedOdds.toString(),
+    potentialWin: potentialWin.toString(),
+  });
+
+  return { betId, status: 'ACCEPTED' };
+}
+
+/**
+ * Reject a PENDING bet: void its legs, refund the stake (or give back the
+ * free-bet token), release the liability it reserved and tell the user why.
+ */
+async function rejectPendingBet(
+  bet: {
+    id: string;
+    userId: string;
+    referenceId: string;
+    stake: Prisma.Decimal;
+    bonusStake: Prisma.Decimal;
+    freeBetId: string | null;
+    potentialWin: Prisma.Decimal;
+    odds: Prisma.Decimal;
+    currencySymbol: string;
+    legs: Array<{ selectionId: string; selection: { marketId: string } }>;
+  },
+  rejection: { code: string; reason: string },
+): Promise<LiveBetAcceptanceResult> {
+  const cashStake = bet.freeBetId ? new Prisma.Decimal(0) : bet.stake;
+
+  const rejected = await prisma.$transaction(async (tx) => {
+    const updated = await tx.bet.updateMany({
+      where: { id: bet.id, status: 'PENDING' },
+      data: {
+        status: 'REJECTED',
+        rejectionReason: rejection.reason,
+        settledAt: new Date(),
+        actualWin: cashStake,
+        isCashoutAvailable: false,
+      },
+    });
+    if (updated.count === 0) return false;
+
+    await tx.betLeg.updateMany({
+      where: { betId: bet.id },
+      data: { status: 'VOID' },
+    });
+
+    if (bet.freeBetId) {
+      await reinstateFreeBet(tx, bet.freeBetId);
+    }
+
+    const currency = await tx.currency.findUnique({
+      where: { symbol: bet.currencySymbol },
+      select: { id: true },
+    });
+    const wallet = currency
+      ? await tx.wallet.findUnique({
+          where: { userId_currencyId: { userId: bet.userId, currencyId: currency.id } },
+        })
+      : null;
+
+    if (!wallet) {
+      throw new BetError('WALLET_NOT_FOUND', `No ${bet.currencySymbol} wallet found to refund bet ${bet.id}.`);
+    }
+
+    if (cashStake.gt(0)) {
+      await creditStakeReturn(tx, wallet.id, cashStake, bonusShareOf(bet.stake, bet.bonusStake));
+    }
+
+    await tx.transaction.create({
+      data: {
+        walletId: wallet.id,
+        type: 'ADJUSTMENT',
+        amount: cashStake,
+        status: 'COMPLETED',
+        metadata: {
+          betId: bet.id,
+          referenceId: bet.referenceId,
+          type: 'LIVE_BET_REJECTED',
+          code: rejection.code,
+          reason: rejection.reason,
+          ...(bet.freeBetId ? { freeBetId: bet.freeBetId } : {}),
+        },
+      },
+    });
+
+    for (const leg of bet.legs) {
+      await tx.marketLiability.updateMany({
+        where: { id: `${leg.selection.marketId}_${leg.selectionId}` },
+        data: {
+          totalStake: { decrement: cashStake },
+          potentialPayout: { decrement: bet.potentialWin },
+          netExposure: { decrement: bet.potentialWin.minus(cashStake) },
+        },
+      });
+    }
+
+    return true;
+  });
+
+  if (!rejected) {
+    return { betId: bet.id, status: 'SKIPPED' };
+  }
+
+  broadcastBetAcceptance(bet.userId, {
+    betId: bet.id,
+    status: 'REJECTED',
+    odds: bet.odds.toString(),
+    potentialWin: bet.potentialWin.toString(),
+    reason: rejection.reason,
+  });
+
+  return { betId: bet.id, status: 'REJECTED', code: rejection.code, reason: rejection.reason };
+}
+
 // ---------------------------------------------------------------------------
 // User's bet history
 // ---------------------------------------------------------------------------
@@ -608,6 +1329,8 @@ async function calculateCashoutValue(
     type: string;
     stake: Prisma.Decimal;
     odds: Prisma.Decimal;
+    systemSizes: number[];
+    stakePerLine: Prisma.Decimal | null;
     legs: Array<{
       oddsAtPlacement: Prisma.Decimal;
       status: string;
@@ -621,6 +1344,12 @@ async function calculateCashoutValue(
 ): Promise<Prisma.Decimal | null> {
   const CASHOUT_MARGIN = new Prisma.Decimal('0.95');
 
+  if (bet.type === 'SYSTEM') {
+    if (!bet.stakePerLine) return null;
+    const value = calculateSystemCashoutValue(bet.legs, bet.systemSizes, bet.stakePerLine);
+    return value && value.gt(0) ? value : null;
+  }
+
   if (bet.type === 'SINGLE') {
     const leg = bet.legs[0];
     if (!leg || leg.status !== 'PENDING') return null;
@@ -662,9 +1391,14 @@ async function calculateCashoutValue(
 
   if (!hasUnsettled) return null; // All settled, no cashout needed
 
+  const correlation = bet.type === 'BET_BUILDER'
+    ? betBuilderCorrelationFactor(bet.odds, bet.legs)
+    : new Prisma.Decimal(1);
+
   const value = bet.stake
     .mul(settledMultiplier)
     .mul(unsettledMultiplier)
+    .mul(correlation)
     .mul(CASHOUT_MARGIN);
 
   return value.gt(0) ? value : null;
@@ -685,11 +1419,15 @@ function formatBetResponse(bet: {
   cashoutAmount: Prisma.Decimal | null;
   cashoutAt: Date | null;
   odds: Prisma.Decimal;
+  systemSizes: number[];
+  stakePerLine: Prisma.Decimal | null;
+  lineCount: number;
   status: string;
   settledAt: Date | null;
   isLive: boolean;
   isCashoutAvailable: boolean;
   shareCode: string | null;
+  freeBetId: string | null;
   createdAt: Date;
   legs: Array<{
     id: string;
@@ -698,6 +1436,7 @@ function formatBetResponse(bet: {
     marketName: string | null;
     selectionName: string | null;
     oddsAtPlacement: Prisma.Decimal;
+    originalOdds: Prisma.Decimal | null;
     status: string;
     selection: {
       name: string;
@@ -731,11 +1470,15 @@ function formatBetResponse(bet: {
     cashoutAmount: bet.cashoutAmount?.toString() ?? null,
     cashoutAt: bet.cashoutAt?.toISOString() ?? null,
     odds: bet.odds.toString(),
+    systemSizes: bet.systemSizes,
+    stakePerLine: bet.stakePerLine?.toString() ?? null,
+    lineCount: bet.lineCount,
     status: bet.status,
     settledAt: bet.settledAt?.toISOString() ?? null,
     isLive: bet.isLive,
     isCashoutAvailable: bet.isCashoutAvailable,
     shareCode: bet.shareCode,
+    freeBetId: bet.freeBetId,
     createdAt: bet.createdAt.toISOString(),
     legs: bet.legs.map((l) => ({
       id: l.id,
@@ -744,6 +1487,7 @@ function formatBetResponse(bet: {
       marketName: l.marketName,
       selectionName: l.selectionName,
       oddsAtPlacement: l.oddsAtPlacement.toString(),
+      originalOdds: l.originalOdds?.toString() ?? null,
       currentOdds: l.selection.odds.toString(),
       status: l.status,
       selectionStatus: l.selection.status,
@@ -773,10 +1517,13 @@ function formatBetResponse(bet: {
 
 export class BetError extends Error {
   public code: string;
+  /** Largest stake that would have been accepted, set when a stake is too high. */
+  public maxStake?: string;
 
-  constructor(code: string, message: string) {
+  constructor(code: string, message: string, maxStake?: Prisma.Decimal) {
     super(message);
     this.name = 'BetError';
     this.code = code;
+    this.maxStake = maxStake?.toString();
   }
 }
@@ -1,6 +1,11 @@
 import { Prisma, type BetStatus } from '@prisma/client';
 import { prisma } from '../../lib/prisma.js';
 import { redis } from '../../lib/redis.js';
+import { calculateSystemCashoutValue } from './system.service.js';
+import { betBuilderCorrelationFactor } from './betBuilder.service.js';
+import { recordSettledBet } from '../../services/riskEngine.js';
+import { queueSportsBetWager } from '../rewards/wager.service.js';
+import { bonusShareOf, creditStakeReturn } from '../promotions/bonus.service.js';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -30,6 +35,7 @@ export class CashoutError extends Error {
  *
  * SINGLE: cashoutValue = stake * (oddsAtPlacement / currentOdds) * margin
  * PARLAY: complex - product of settled odds * ratio of unsettled legs * margin
+ * SYSTEM: each line priced as a parlay at stakePerLine, summed
  */
 export async function getCashoutValue(betId: string): Promise<{
   available: boolean;
@@ -184,24 +190,25 @@ export async function cashout(
       const stakeReduction = bet.stake.mul(proportion);
       const newStake = bet.stake.minus(stakeReduction);
       const newPotentialWin = bet.potentialWin.mul(new Prisma.Decimal(1).minus(proportion));
+      const newStakePerLine = bet.stakePerLine
+        ? bet.stakePerLine.mul(new Prisma.Decimal(1).minus(proportion))
+        : null;
+      const newBonusStake = bet.bonusStake.mul(new Prisma.Decimal(1).minus(proportion));
 
       await tx.bet.update({
         where: { id: betId },
         data: {
           stake: newStake,
           potentialWin: newPotentialWin,
+          stakePerLine: newStakePerLine,
+          bonusStake: newBonusStake,
           cashoutAmount: cashoutAmount,
           cashoutAt,
         },
       });
 
-      // Credit partial cashout to wallet
-      await tx.wallet.update({
-        where: { id: wallet.id },
-        data: {
-          balance: { increment: cashoutAmount },
-        },
-      });
+      // Credit partial cashout to wallet (bonus-funded share back to bonus funds)
+      const credited = await creditStakeReturn(tx, wallet.id, cashoutAmount, bonusShareOf(bet.stake, bet.bonusStake));
 
       // Record transaction
       await tx.transaction.create({
@@ -215,6 +222,7 @@ export async function cashout(
             type: 'PARTIAL_CASHOUT',
             originalStake: bet.stake.toString(),
             newStake: newStake.toString(),
+            ...(credited.bonus.gt(0) ? { bonusAmount: credited.bonus.toString() } : {}),
           },
         },
       });
@@ -245,13 +253,8 @@ export async function cashout(
         data: { status: 'VOID' },
       });
 
-      // Credit cashout to wallet
-      await tx.wallet.update({
-        where: { id: wallet.id },
-        data: {
-          balance: { increment: cashoutAmount },
-        },
-      });
+      // Credit cashout to wallet (bonus-funded share back to bonus funds)
+      const credited = await creditStakeReturn(tx, wallet.id, cashoutAmount, bonusShareOf(bet.stake, bet.bonusStake));
 
       // Record transaction
       await tx.transaction.create({
@@ -265,6 +268,7 @@ export async function cashout(
             type: 'CASHOUT',
             originalStake: bet.stake.toString(),
             originalOdds: bet.odds.toString(),
+            ...(credited.bonus.gt(0) ? { bonusAmount: credited.bonus.toString() } : {}),
           },
         },
       });
@@ -281,6 +285,12 @@ export async function cashout(
   // Invalidate cached data
   await redis.del(`bet:cashout:${betId}`);
 
+  // A full cashout closes the bet: feed it to the risk engine and rewards
+  if (result.status === 'CASHOUT') {
+    void recordSettledBet(betId);
+    await queueSportsBetWager(betId);
+  }
+
   return { bet: result };
 }
 
@@ -308,6 +318,9 @@ export async function updateCashoutAvailability(betId: string): Promise<void> {
   if (!bet) return;
   if (bet.status !== 'ACCEPTED' && bet.status !== 'PENDING') return;
 
+  // Free bets and boosted bets are never cashed out
+  if (bet.freeBetId || bet.legs.some((l) => l.oddsBoostId)) return;
+
   const value = calculateValue(bet);
   const isAvailable = value !== null && value.gt(0);
 
@@ -328,6 +341,9 @@ function calculateValue(
     type: string;
     stake: Prisma.Decimal;
     odds: Prisma.Decimal;
+    systemSizes: number[];
+    stakePerLine: Prisma.Decimal | null;
+    lineCount: number;
     legs: Array<{
       oddsAtPlacement: Prisma.Decimal;
       status: string;
@@ -352,7 +368,12 @@ function calculateValue(
       .mul(CASHOUT_MARGIN);
   }
 
-  // PARLAY
+  if (bet.type === 'SYSTEM') {
+    const stakePerLine = bet.stakePerLine ?? bet.stake.div(bet.lineCount);
+    return calculateSystemCashoutValue(bet.legs, bet.systemSizes, stakePerLine);
+  }
+
+  // PARLAY / BET_BUILDER
   let settledMultiplier = new Prisma.Decimal(1);
   let unsettledMultiplier = new Prisma.Decimal(1);
   let hasUnsettled = false;
@@ -380,8 +401,14 @@ function calculateValue(
   if (hasLost) return null;
   if (!hasUnsettled) return null; // All settled
 
+  // BET_BUILDER: legs are correlated, keep the discount applied at placement
+  const correlation = bet.type === 'BET_BUILDER'
+    ? betBuilderCorrelationFactor(bet.odds, bet.legs)
+    : new Prisma.Decimal(1);
+
   return bet.stake
     .mul(settledMultiplier)
     .mul(unsettledMultiplier)
+    .mul(correlation)
     .mul(CASHOUT_MARGIN);
 }
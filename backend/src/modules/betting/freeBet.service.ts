@@ -0,0 +1,198 @@
+import { Prisma, type FreeBet } from '@prisma/client';
+import { prisma } from '../../lib/prisma.js';
+import { FREE_BET_EXPIRY_DAYS } from '../../config/constants.js';
+
+// ---------------------------------------------------------------------------
+// Free-bet tokens
+// ---------------------------------------------------------------------------
+// A token is a fixed stake in one currency, granted by a FREE_BET promotion.
+// Attaching it to a bet slip places the bet without debiting the wallet; a
+// winning bet pays the profit only (payout minus stake). Tokens can carry a
+// minimum combined price and sport / market type restrictions.
+//
+//   - SYSTEM bets cannot use a token.
+//   - Bets placed with a token cannot be cashed out and do not count as
+//     wagers for rewards or bonus wagering.
+//   - A rejected or voided bet gives the token back (until it expires).
+// ---------------------------------------------------------------------------
+
+export type FreeBetStatus = 'ACTIVE' | 'USED' | 'EXPIRED';
+
+export interface IssueFreeBetInput {
+  userId: string;
+  currency: string;
+  amount: Prisma.Decimal;
+  promotionId?: string;
+  minOdds?: number | null;
+  sportSlugs?: string[];
+  marketTypes?: string[];
+  expiryDays?: number;
+}
+
+/**
+ * Give a user a free-bet token.
+ */
+export async function issueFreeBet(
+  tx: Prisma.TransactionClient,
+  input: IssueFreeBetInput,
+): Promise<FreeBet> {
+  const days = input.expiryDays ?? FREE_BET_EXPIRY_DAYS;
+  return tx.freeBet.create({
+    data: {
+      userId: input.userId,
+      promotionId: input.promotionId ?? null,
+      currency: input.currency.toUpperCase(),
+      amount: input.amount,
+      minOdds: input.minOdds != null ? new Prisma.Decimal(input.minOdds) : null,
+      sportSlugs: input.sportSlugs ?? [],
+      marketTypes: input.marketTypes ?? [],
+      expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Using a token
+// ---------------------------------------------------------------------------
+
+export interface FreeBetBreach {
+  code: string;
+  message: string;
+}
+
+/**
+ * Load one of the user's tokens and check it can stake a bet in `currency`.
+ */
+export async function getUsableFreeBet(
+  userId: string,
+  freeBetId: string,
+  currency: string,
+): Promise<{ token: FreeBet } | FreeBetBreach> {
+  const token = await prisma.freeBet.findFirst({ where: { id: freeBetId, userId } });
+
+  if (!token) {
+    return { code: 'FREE_BET_NOT_FOUND', message: 'Free bet not found.' };
+  }
+  if (token.status !== 'ACTIVE' || token.expiresAt <= new Date()) {
+    return { code: 'FREE_BET_UNAVAILABLE', message: 'This free bet has already been used or has expired.' };
+  }
+  if (token.currency !== currency.toUpperCase()) {
+    return {
+      code: 'FREE_BET_CURRENCY',
+      message: `This free bet can only be used for ${token.currency} bets.`,
+    };
+  }
+
+  return { token };
+}
+
+/**
+ * Whether a priced slip meets the token's conditions. `legs` carry each
+ * selection's sport slug and market type.
+ */
+export function checkFreeBetEligibility(
+  token: FreeBet,
+  combinedOdds: Prisma.Decimal,
+  legs: Array<{ name: string; sportSlug: string | null; marketType: string }>,
+): FreeBetBreach | null {
+  if (token.minOdds && combinedOdds.lt(token.minOdds)) {
+    return {
+      code: 'FREE_BET_MIN_ODDS',
+      message: `This free bet requires combined odds of at least ${token.minOdds.toString()} (slip: ${combinedOdds.toString()}).`,
+    };
+  }
+
+  for (const leg of legs) {
+    if (token.sportSlugs.length > 0 && (!leg.sportSlug || !token.sportSlugs.includes(leg.sportSlug))) {
+      return {
+        code: 'FREE_BET_NOT_ELIGIBLE',
+        message: `This free bet cannot be used on "${leg.name}" (sport not eligible).`,
+      };
+    }
+    if (token.marketTypes.length > 0 && !token.marketTypes.includes(leg.marketType)) {
+      return {
+        code: 'FREE_BET_NOT_ELIGIBLE',
+        message: `This free bet cannot be used on "${leg.name}" (market type not eligible).`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Mark a token as used. Returns false when it was used concurrently.
+ */
+export async function useFreeBet(tx: Prisma.TransactionClient, freeBetId: string): Promise<boolean> {
+  const { count } = await tx.freeBet.updateMany({
+    where: { id: freeBetId, status: 'ACTIVE', expiresAt: { gt: new Date() } },
+    data: { status: 'USED', usedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Give back the token of a rejected or voided bet. A token past its expiry
+ * goes straight to EXPIRED.
+ */
+export async function reinstateFreeBet(tx: Prisma.TransactionClient, freeBetId: string): Promise<void> {
+  const token = await tx.freeBet.findUnique({ where: { id: freeBetId }, select: { expiresAt: true } });
+  if (!token) return;
+
+  await tx.freeBet.updateMany({
+    where: { id: freeBetId, status: 'USED' },
+    data: {
+      status: token.expiresAt > new Date() ? 'ACTIVE' : 'EXPIRED',
+      usedAt: null,
+    },
+  });
+}
+
+/**
+ * Expire unused tokens past their expiry date.
+ */
+export async function expireFreeBets(): Promise<number> {
+  const { count } = await prisma.freeBet.updateMany({
+    where: { status: 'ACTIVE', expiresAt: { lte: new Date() } },
+    data: { status: 'EXPIRED' },
+  });
+  return count;
+}
+
+// ---------------------------------------------------------------------------
+// Listing
+// ---------------------------------------------------------------------------
+
+export interface FreeBetSummary {
+  id: string;
+  currency: string;
+  amount: string;
+  minOdds: string | null;
+  sportSlugs: string[];
+  marketTypes: string[];
+  status: string;
+  expiresAt: string;
+  usedAt: string | null;
+  createdAt: string;
+}
+
+export async function listFreeBets(userId: string, status?: FreeBetStatus): Promise<FreeBetSummary[]> {
+  const tokens = await prisma.freeBet.findMany({
+    where: { userId, ...(status ? { status } : {}) },
+    orderBy: { createdAt: 'desc' },
+    take: 100,
+  });
+
+  return tokens.map((t) => ({
+    id: t.id,
+    currency: t.currency,
+    amount: t.amount.toString(),
+    minOdds: t.minOdds?.toString() ?? null,
+    sportSlugs: t.sportSlugs,
+    marketTypes: t.marketTypes,
+    status: t.status,
+    expiresAt: t.expiresAt.toISOString(),
+    usedAt: t.usedAt?.toISOString() ?? null,
+    createdAt: t.createdAt.toISOString(),
+  }));
+}
@@ -0,0 +1,187 @@
+import { Prisma } from '@prisma/client';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Bets whose payout is still owed if their selections win. */
+const OPEN_BET_STATUSES = Prisma.sql`('PENDING', 'ACCEPTED', 'PARTIALLY_SETTLED')`;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type LiabilityScope = 'market' | 'event' | 'sport';
+
+export interface LiabilityLeg {
+  selectionId: string;
+  marketId: string;
+  eventId: string;
+}
+
+export interface LiabilityHeadroom {
+  scope: LiabilityScope;
+  /** Name of the market, event or sport with the tightest cap. */
+  name: string;
+  limitUsd: Prisma.Decimal;
+  exposureUsd: Prisma.Decimal;
+  /** Largest stake (in the bet's currency) that fits under the cap. */
+  maxStake: Prisma.Decimal;
+}
+
+// ---------------------------------------------------------------------------
+// Exposure
+// ---------------------------------------------------------------------------
+
+/**
+ * Net exposure (potential payout minus stake) of open bets matching `legFilter`,
+ * in USD. Each bet is counted once however many of its legs match, so a
+ * multi is charged in full against every market, event and sport it touches.
+ */
+async function openExposureUsd(
+  db: Prisma.TransactionClient,
+  legFilter: Prisma.Sql,
+  excludeBetId?: string,
+): Promise<Prisma.Decimal> {
+  const rows = await db.$queryRaw<Array<{ exposure: Prisma.Decimal | null }>>(Prisma.sql`
+    SELECT COALESCE(SUM((b."potentialWin" - b."stake") * c."exchangeRateUsd"), 0) AS "exposure"
+    FROM bets b
+    INNER JOIN currencies c ON c."symbol" = b."currencySymbol"
+    WHERE b."status" IN ${OPEN_BET_STATUSES}
+      ${excludeBetId ? Prisma.sql`AND b."id" <> ${excludeBetId}` : Prisma.empty}
+      AND EXISTS (
+        SELECT 1
+        FROM bet_legs bl
+        INNER JOIN selections s ON s."id" = bl."selectionId"
+        INNER JOIN markets m ON m."id" = s."marketId"
+        INNER JOIN events e ON e."id" = m."eventId"
+        INNER JOIN competitions co ON co."id" = e."competitionId"
+        WHERE bl."betId" = b."id" AND ${legFilter}
+      )
+  `);
+  return new Prisma.Decimal(rows[0]?.exposure ?? 0);
+}
+
+// ---------------------------------------------------------------------------
+// Caps
+// ---------------------------------------------------------------------------
+
+/**
+ * Tightest liability cap a new bet would run into. Market caps apply to the
+ * exposure on the backed selection (the outcome the book loses on), event and
+ * sport caps to all open bets on the event or sport.
+ *
+ * `exposurePerStake` is the bet's net payout per unit of requested stake, i.e.
+ * (potentialWin - totalStake) / stake. Returns null when none of the legs fall
+ * under a configured cap. `excludeBetId` leaves one open bet out of the
+ * exposure, for re-checking a PENDING bet against its own reservation.
+ *
+ * Run it inside the transaction that creates (or re-prices) the bet: it takes
+ * a transaction-scoped advisory lock on every capped event and sport, so
+ * concurrent bets against the same cap are checked one after another and
+ * each sees the exposure the previous one committed.
+ */
+export async function getLiabilityHeadroom(
+  tx: Prisma.TransactionClient,
+  legs: LiabilityLeg[],
+  currency: string,
+  exposurePerStake: Prisma.Decimal,
+  options: { excludeBetId?: string } = {},
+): Promise<LiabilityHeadroom | null> {
+  if (legs.length === 0 || exposurePerStake.lte(0)) return null;
+
+  const marketIds = [...new Set(legs.map((l) => l.marketId))];
+  const eventIds = [...new Set(legs.map((l) => l.eventId))];
+
+  const [markets, events, currencyRecord] = await Promise.all([
+    tx.market.findMany({
+      where: { id: { in: marketIds }, maxLiability: { not: null } },
+      select: { id: true, name: true, maxLiability: true },
+    }),
+    tx.event.findMany({
+      where: { id: { in: eventIds } },
+      select: {
+        id: true,
+        name: true,
+        maxLiability: true,
+        competition: { select: { sport: { select: { id: true, name: true, maxLiability: true } } } },
+      },
+    }),
+    tx.currency.findUnique({
+      where: { symbol: currency.toUpperCase() },
+      select: { exchangeRateUsd: true },
+    }),
+  ]);
+
+  const rate = currencyRecord?.exchangeRateUsd;
+  if (!rate || rate.lte(0)) return null;
+
+  const caps: Array<{
+    scope: LiabilityScope;
+    name: string;
+    limitUsd: Prisma.Decimal;
+    filter: Prisma.Sql;
+    lockKey: string;
+  }> = [];
+
+  for (const market of markets) {
+    for (const leg of legs.filter((l) => l.marketId === market.id)) {
+      caps.push({
+        scope: 'market',
+        name: market.name,
+        limitUsd: market.maxLiability!,
+        filter: Prisma.sql`bl."selectionId" = ${leg.selectionId}`,
+        // Market caps are serialized per event, like event caps
+        lockKey: `liability:event:${leg.eventId}`,
+      });
+    }
+  }
+
+  const sports = new Map<string, { name: string; maxLiability: Prisma.Decimal }>();
+  for (const event of events) {
+    if (event.maxLiability) {
+      caps.push({
+        scope: 'event',
+        name: event.name,
+        limitUsd: event.maxLiability,
+        filter: Prisma.sql`e."id" = ${event.id}`,
+        lockKey: `liability:event:${event.id}`,
+      });
+    }
+    const sport = event.competition.sport;
+    if (sport.maxLiability) {
+      sports.set(sport.id, { name: sport.name, maxLiability: sport.maxLiability });
+    }
+  }
+  for (const [sportId, sport] of sports) {
+    caps.push({
+      scope: 'sport',
+      name: sport.name,
+      limitUsd: sport.maxLiability,
+      filter: Prisma.sql`co."sportId" = ${sportId}`,
+      lockKey: `liability:sport:${sportId}`,
+    });
+  }
+
+  // Always in the same order, so two bets never wait on each other's locks
+  const lockKeys = [...new Set(caps.map((c) => c.lockKey))].sort();
+  for (const key of lockKeys) {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${key}))`;
+  }
+
+  let tightest: LiabilityHeadroom | null = null;
+  for (const cap of caps) {
+    const exposureUsd = await openExposureUsd(tx, cap.filter, options.excludeBetId);
+    const headroomUsd = Prisma.Decimal.max(cap.limitUsd.minus(exposureUsd), 0);
+    const maxStake = headroomUsd
+      .div(rate)
+      .div(exposurePerStake)
+      .toDecimalPlaces(8, Prisma.Decimal.ROUND_DOWN);
+
+    if (!tightest || maxStake.lt(tightest.maxStake)) {
+      tightest = { scope: cap.scope, name: cap.name, limitUsd: cap.limitUsd, exposureUsd, maxStake };
+    }
+  }
+
+  return tightest;
+}
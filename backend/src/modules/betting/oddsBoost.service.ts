@@ -0,0 +1,202 @@
+import { Prisma, type OddsBoost } from '@prisma/client';
+import { prisma } from '../../lib/prisma.js';
+
+// ---------------------------------------------------------------------------
+// Odds boosts
+// ---------------------------------------------------------------------------
+// A boost offers a better price on one selection for a time window. Pre-match
+// SINGLE and PARLAY bets take the boosted price automatically; each user can
+// stake up to the boost's maxStakeUsd at it. Boosts tied to an ODDS_BOOST
+// promotion are only offered to users who claimed that promotion.
+//
+// Boosted legs keep the price they replaced (BetLeg.originalOdds), so
+// settlement can record the extra payout as the bet's boostCost. Boosted
+// bets cannot be cashed out.
+// ---------------------------------------------------------------------------
+
+function activeBoostWhere(now: Date): Prisma.OddsBoostWhereInput {
+  return { isActive: true, startsAt: { lte: now }, expiresAt: { gt: now } };
+}
+
+/**
+ * The boost a user gets on each of `selectionIds`, keyed by selection id.
+ * When several boosts overlap the best price wins.
+ */
+export async function findApplicableBoosts(
+  userId: string,
+  selectionIds: string[],
+): Promise<Map<string, OddsBoost>> {
+  const boosts = await prisma.oddsBoost.findMany({
+    where: { selectionId: { in: selectionIds }, ...activeBoostWhere(new Date()) },
+    orderBy: { boostedOdds: 'desc' },
+  });
+  if (boosts.length === 0) return new Map();
+
+  const promotionIds = [...new Set(boosts.map((b) => b.promotionId).filter((id): id is string => !!id))];
+  const claimed = promotionIds.length > 0
+    ? new Set(
+        (await prisma.promoClaim.findMany({
+          where: { userId, promotionId: { in: promotionIds } },
+          select: { promotionId: true },
+        })).map((c) => c.promotionId),
+      )
+    : new Set<string>();
+
+  const applicable = new Map<string, OddsBoost>();
+  for (const boost of boosts) {
+    if (boost.promotionId && !claimed.has(boost.promotionId)) continue;
+    if (!applicable.has(boost.selectionId)) applicable.set(boost.selectionId, boost);
+  }
+  return applicable;
+}
+
+/**
+ * Stake (USD) the user already has on a boost, across currencies. Rejected
+ * and void bets do not count.
+ */
+export async function getBoostStakeUsedUsd(userId: string, boostId: string): Promise<Prisma.Decimal> {
+  const stakes = await prisma.bet.groupBy({
+    by: ['currencySymbol'],
+    where: {
+      userId,
+      status: { notIn: ['REJECTED', 'VOID'] },
+      legs: { some: { oddsBoostId: boostId } },
+    },
+    _sum: { stake: true },
+  });
+  if (stakes.length === 0) return new Prisma.Decimal(0);
+
+  const rates = await prisma.currency.findMany({
+    where: { symbol: { in: stakes.map((s) => s.currencySymbol) } },
+    select: { symbol: true, exchangeRateUsd: true },
+  });
+  const rateMap = new Map(rates.map((r) => [r.symbol, r.exchangeRateUsd]));
+
+  return stakes.reduce(
+    (sum, s) => sum.add((s._sum.stake ?? new Prisma.Decimal(0)).mul(rateMap.get(s.currencySymbol) ?? 0)),
+    new Prisma.Decimal(0),
+  );
+}
+
+export interface BoostStakeBreach {
+  code: string;
+  message: string;
+  /** Largest stake (in the bet's currency) every boost on the slip still allows */
+  maxStake: Prisma.Decimal;
+}
+
+/**
+ * Whether `stake` `currency` fits inside the user's remaining allowance on
+ * every boost of a slip.
+ */
+export async function checkBoostStakeCaps(
+  userId: string,
+  boosts: OddsBoost[],
+  currency: string,
+  stake: Prisma.Decimal,
+): Promise<BoostStakeBreach | null> {
+  if (boosts.length === 0) return null;
+
+  const rate = (await prisma.currency.findUnique({
+    where: { symbol: currency.toUpperCase() },
+    select: { exchangeRateUsd: true },
+  }))?.exchangeRateUsd;
+  if (!rate || rate.lte(0)) return null;
+
+  let breach: BoostStakeBreach | null = null;
+  for (const boost of boosts) {
+    const remainingUsd = Prisma.Decimal.max(
+      boost.maxStakeUsd.minus(await getBoostStakeUsedUsd(userId, boost.id)),
+      0,
+    );
+    const maxStake = remainingUsd.div(rate).toDecimalPlaces(8, Prisma.Decimal.ROUND_DOWN);
+    if (stake.gt(maxStake) && (!breach || maxStake.lt(breach.maxStake))) {
+      breach = {
+        code: 'BOOST_STAKE_LIMIT',
+        message: `The boosted price allows a maximum stake of ${maxStake.toString()} ${currency.toUpperCase()} ($${remainingUsd.toFixed(2)} USD remaining).`,
+        maxStake,
+      };
+    }
+  }
+  return breach;
+}
+
+// ---------------------------------------------------------------------------
+// Listing
+// ---------------------------------------------------------------------------
+
+export interface OddsBoostSummary {
+  id: string;
+  title: string | null;
+  selectionId: string;
+  selectionName: string;
+  marketName: string;
+  eventId: string;
+  eventName: string;
+  startTime: string;
+  originalOdds: string;
+  boostedOdds: string;
+  maxStakeUsd: string;
+  promotionId: string | null;
+  expiresAt: string;
+}
+
+/**
+ * Boosts currently on offer, optionally for one event. With a user id,
+ * promotion-only boosts the user has not claimed are left out.
+ */
+export async function listAvailableBoosts(
+  userId?: string,
+  eventId?: string,
+): Promise<OddsBoostSummary[]> {
+  const boosts = await prisma.oddsBoost.findMany({
+    where: {
+      ...activeBoostWhere(new Date()),
+      selection: {
+        status: 'ACTIVE',
+        market: { status: 'OPEN', event: { isLive: false, ...(eventId ? { id: eventId } : {}) } },
+      },
+    },
+    include: {
+      selection: {
+        include: {
+          market: {
+            include: { event: { select: { id: true, name: true, startTime: true } } },
+          },
+        },
+      },
+    },
+    orderBy: { expiresAt: 'asc' },
+    take: 100,
+  });
+
+  const claimed = userId
+    ? new Set(
+        (await prisma.promoClaim.findMany({
+          where: {
+            userId,
+            promotionId: { in: boosts.map((b) => b.promotionId).filter((id): id is string => !!id) },
+          },
+          select: { promotionId: true },
+        })).map((c) => c.promotionId),
+      )
+    : new Set<string>();
+
+  return boosts
+    .filter((b) => !b.promotionId || claimed.has(b.promotionId))
+    .map((b) => ({
+      id: b.id,
+      title: b.title,
+      selectionId: b.selectionId,
+      selectionName: b.selection.name,
+      marketName: b.selection.market.name,
+      eventId: b.selection.market.event.id,
+      eventName: b.selection.market.event.name,
+      startTime: b.selection.market.event.startTime.toISOString(),
+      originalOdds: b.selection.odds.toString(),
+      boostedOdds: b.boostedOdds.toString(),
+      maxStakeUsd: b.maxStakeUsd.toString(),
+      promotionId: b.promotionId,
+      expiresAt: b.expiresAt.toISOString(),
+    }));
+}
@@ -0,0 +1,278 @@
+import { Prisma } from '@prisma/client';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Named full-cover systems. Each one requires an exact number of selections
+ * and expands into every combination of the listed sizes.
+ *
+ * e.g. YANKEE on 4 selections = 6 doubles + 4 trebles + 1 four-fold = 11 lines.
+ */
+export const NAMED_SYSTEMS = {
+  TRIXIE: { selections: 3, sizes: [2, 3] },
+  PATENT: { selections: 3, sizes: [1, 2, 3] },
+  YANKEE: { selections: 4, sizes: [2, 3, 4] },
+  LUCKY_15: { selections: 4, sizes: [1, 2, 3, 4] },
+  CANADIAN: { selections: 5, sizes: [2, 3, 4, 5] },
+  LUCKY_31: { selections: 5, sizes: [1, 2, 3, 4, 5] },
+  HEINZ: { selections: 6, sizes: [2, 3, 4, 5, 6] },
+  LUCKY_63: { selections: 6, sizes: [1, 2, 3, 4, 5, 6] },
+  SUPER_HEINZ: { selections: 7, sizes: [2, 3, 4, 5, 6, 7] },
+  GOLIATH: { selections: 8, sizes: [2, 3, 4, 5, 6, 7, 8] },
+} as const;
+
+export type NamedSystem = keyof typeof NAMED_SYSTEMS;
+
+export const MIN_SYSTEM_SELECTIONS = 3;
+export const MAX_SYSTEM_LINES = 1000;
+
+const CASHOUT_MARGIN = new Prisma.Decimal('0.95');
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface SystemLeg {
+  oddsAtPlacement: Prisma.Decimal;
+  status: string;
+}
+
+interface SystemCashoutLeg extends SystemLeg {
+  selection: {
+    odds: Prisma.Decimal;
+  };
+}
+
+export interface SystemSettlement {
+  payout: Prisma.Decimal;
+  winningLines: number;
+  voidLines: number;
+  losingLines: number;
+}
+
+// ---------------------------------------------------------------------------
+// Combinatorics
+// ---------------------------------------------------------------------------
+
+/**
+ * Binomial coefficient C(n, k).
+ */
+export function countCombinations(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  return Math.round(result);
+}
+
+/**
+ * All k-sized combinations of `items`, preserving input order.
+ */
+export function combinations<T>(items: T[], k: number): T[][] {
+  const result: T[][] = [];
+  const combo: T[] = [];
+
+  const walk = (start: number) => {
+    if (combo.length === k) {
+      result.push([...combo]);
+      return;
+    }
+    for (let i = start; i <= items.length - (k - combo.length); i++) {
+      combo.push(items[i]);
+      walk(i + 1);
+      combo.pop();
+    }
+  };
+
+  if (k > 0 && k <= items.length) walk(0);
+  return result;
+}
+
+/**
+ * Total number of lines a system produces for `selectionCount` selections.
+ */
+export function countSystemLines(selectionCount: number, sizes: number[]): number {
+  return sizes.reduce((acc, k) => acc + countCombinations(selectionCount, k), 0);
+}
+
+/**
+ * Expand legs into every line of the system. The line set only depends on
+ * which legs are on the bet, so it can be re-derived at settlement time.
+ */
+export function expandSystemLines<T>(legs: T[], sizes: number[]): T[][] {
+  return [...sizes].sort((a, b) => a - b).flatMap((k) => combinations(legs, k));
+}
+
+/**
+ * Resolve the combination sizes for a system bet, either from a named system
+ * (TRIXIE, YANKEE, ...) or from an "N from M" size. Returns an error message
+ * instead of sizes when the request does not describe a valid system.
+ */
+export function resolveSystemSizes(
+  selectionCount: number,
+  systemSize?: number,
+  systemType?: NamedSystem,
+): { sizes: number[] } | { error: string } {
+  if (systemType) {
+    const named = NAMED_SYSTEMS[systemType];
+    if (selectionCount !== named.selections) {
+      return {
+        error: `${systemType} requires exactly ${named.selections} selections.`,
+      };
+    }
+    return { sizes: [...named.sizes] };
+  }
+
+  if (systemSize === undefined) {
+    return { error: 'System bets require a systemSize or systemType.' };
+  }
+
+  if (systemSize < 1 || systemSize >= selectionCount) {
+    return {
+      error: `System size must be between 1 and ${selectionCount - 1} for ${selectionCount} selections.`,
+    };
+  }
+
+  return { sizes: [systemSize] };
+}
+
+// ---------------------------------------------------------------------------
+// Pricing
+// ---------------------------------------------------------------------------
+
+/**
+ * Sum of the potential return of every line at `stakePerLine`.
+ */
+export function calculateSystemPotentialWin(
+  odds: Prisma.Decimal[],
+  sizes: number[],
+  stakePerLine: Prisma.Decimal,
+): Prisma.Decimal {
+  let total = new Prisma.Decimal(0);
+  for (const line of expandSystemLines(odds, sizes)) {
+    const lineOdds = line.reduce((acc, o) => acc.mul(o), new Prisma.Decimal(1));
+    total = total.add(stakePerLine.mul(lineOdds));
+  }
+  return total;
+}
+
+// ---------------------------------------------------------------------------
+// Settlement
+// ---------------------------------------------------------------------------
+
+/**
+ * Multiplier a settled leg contributes to every line it appears in.
+ * Mirrors parlay settlement: void/push legs count as 1.0, half results
+ * use half the profit or half the stake.
+ */
+function legFactor(leg: SystemLeg): Prisma.Decimal {
+  switch (leg.status) {
+    case 'WON':
+      return leg.oddsAtPlacement;
+    case 'VOID':
+    case 'PUSH':
+      return new Prisma.Decimal(1);
+    case 'HALF_WIN':
+      return new Prisma.Decimal(1).add(leg.oddsAtPlacement.minus(1).div(2));
+    case 'HALF_LOSE':
+      return new Prisma.Decimal('0.5');
+    default:
+      return new Prisma.Decimal(0);
+  }
+}
+
+/**
+ * Settle each line of a fully-resulted system bet independently and sum the
+ * returns. A line is lost as soon as one of its legs is lost; the rest of
+ * the system keeps paying.
+ */
+export function settleSystemLines(
+  legs: SystemLeg[],
+  sizes: number[],
+  stakePerLine: Prisma.Decimal,
+): SystemSettlement {
+  let payout = new Prisma.Decimal(0);
+  let winningLines = 0;
+  let voidLines = 0;
+  let losingLines = 0;
+
+  for (const line of expandSystemLines(legs, sizes)) {
+    const multiplier = line.reduce((acc, leg) => acc.mul(legFactor(leg)), new Prisma.Decimal(1));
+
+    if (multiplier.lte(0)) {
+      losingLines++;
+      continue;
+    }
+
+    if (line.every((leg) => leg.status === 'VOID' || leg.status === 'PUSH')) {
+      voidLines++;
+    } else {
+      winningLines++;
+    }
+    payout = payout.add(stakePerLine.mul(multiplier));
+  }
+
+  return { payout, winningLines, voidLines, losingLines };
+}
+
+// ---------------------------------------------------------------------------
+// Cashout
+// ---------------------------------------------------------------------------
+
+/**
+ * Cashout value of a system bet, priced line by line. Lines with a lost leg
+ * are worth nothing, fully settled lines are worth their settled return, and
+ * open lines are priced like a parlay (settled odds * placement/current
+ * ratio of open legs * margin).
+ *
+ * Returns null when no line is still open.
+ */
+export function calculateSystemCashoutValue(
+  legs: SystemCashoutLeg[],
+  sizes: number[],
+  stakePerLine: Prisma.Decimal,
+): Prisma.Decimal | null {
+  let total = new Prisma.Decimal(0);
+  let hasOpenLine = false;
+
+  for (const line of expandSystemLines(legs, sizes)) {
+    let settledMultiplier = new Prisma.Decimal(1);
+    let unsettledMultiplier = new Prisma.Decimal(1);
+    let isOpen = false;
+    let isLost = false;
+
+    for (const leg of line) {
+      if (leg.status === 'PENDING') {
+        const currentOdds = leg.selection.odds;
+        if (currentOdds.lte(0)) return null;
+        isOpen = true;
+        unsettledMultiplier = unsettledMultiplier.mul(leg.oddsAtPlacement.div(currentOdds));
+        continue;
+      }
+
+      const factor = legFactor(leg);
+      if (factor.lte(0)) {
+        isLost = true;
+        break;
+      }
+      settledMultiplier = settledMultiplier.mul(factor);
+    }
+
+    if (isLost) continue;
+
+    if (isOpen) {
+      hasOpenLine = true;
+      total = total.add(
+        stakePerLine.mul(settledMultiplier).mul(unsettledMultiplier).mul(CASHOUT_MARGIN),
+      );
+    } else {
+      total = total.add(stakePerLine.mul(settledMultiplier));
+    }
+  }
+
+  if (!hasOpenLine) return null;
+  return total;
+}
@@ -1,12 +1,24 @@
-import { redis } from '../../lib/redis.js';
-import { type GameResult, type BetRequest } from '../../services/casino/BaseGame.js';
+import { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../../lib/prisma.js';
+import { autobetQueue } from '../../queues/index.js';
+import { GameError, type GameResult } from '../../services/casino/BaseGame.js';
+import { gameRegistry } from '../../services/casino/GameRegistry.js';
+import { checkLossLimit } from '../users/responsibleGambling.service.js';
 
-// Import all non-stateful game instances
-import { wheelGame } from './games/wheel/wheel.service.js';
-import { limboGame } from './games/limbo/limbo.service.js';
-import { kenoGame } from './games/keno/keno.service.js';
-import { baccaratGame } from './games/baccarat/baccarat.service.js';
-import { slotsGame } from './games/slots/slots.service.js';
+// ---------------------------------------------------------------------------
+// Auto-bet — server-side sessions driven by BullMQ
+// ---------------------------------------------------------------------------
+// Every session is an AutoBetSession row plus one job on the `autobet` queue
+// (jobId = session id). Each run of the job plays a single bet through the
+// game's play(), writes the session's progress, and delays the same job
+// until the next bet is due. Progress lives in the database and the job in
+// Redis, so sessions carry on after a disconnect or a server restart.
+//
+// If the process dies between a round settling and its progress write, the
+// job is picked up again as stalled and the session plays that bet once more;
+// the round itself is booked normally either way.
+// ---------------------------------------------------------------------------
 
 // ---------------------------------------------------------------------------
 // Types
@@ -14,33 +26,48 @@ import { slotsGame } from './games/slots/slots.service.js';
 
 type OnAction = 'reset' | 'increase';
 
-interface AutoBetConfig {
+export interface StreakRule {
+  on: 'win' | 'loss';
+  /** Streak length that triggers the rule */
+  count: number;
+  /** Game options merged into the options of the following bets */
+  options: Record<string, unknown>;
+}
+
+export interface AutoBetConfig {
   betAmount: number;
   currency: string;
   numberOfBets: number;
   stopOnProfit?: number;       // Stop if total profit exceeds this
   stopOnLoss?: number;         // Stop if total loss exceeds this (positive number)
+  stopOnWinMultiplier?: number; // Stop after a single round pays at least this multiplier
   onWinAction: OnAction;
   onWinPercent?: number;       // Percent to increase on win (e.g. 50 = 50%)
   onLossAction: OnAction | 'martingale';
   onLossPercent?: number;      // Percent to increase on loss
   delayMs?: number;            // Delay between bets in ms (min 100)
   gameOptions?: Record<string, unknown>; // Game-specific options (passed every round)
+  streakRules?: StreakRule[];  // Switch game options after win/loss streaks
 }
 
+type SessionStatus = 'running' | 'stopped' | 'completed' | 'error';
+
 interface AutoBetSession {
+  id: string;
   userId: string;
   gameSlug: string;
   config: AutoBetConfig;
-  status: 'running' | 'stopped' | 'completed' | 'error';
+  status: SessionStatus;
   betsCompleted: number;
   totalWagered: number;
   totalPayout: number;
   totalProfit: number;
   currentBetAmount: number;
   baseBetAmount: number;
+  currentGameOptions: Record<string, unknown>;
   wins: number;
   losses: number;
+  streak: number;
   results: AutoBetRoundSummary[];
   startedAt: string;
   stoppedAt?: string;
@@ -64,27 +91,78 @@ interface AutoBetStatus {
   session: AutoBetSession | null;
 }
 
+type SessionRow = Prisma.AutoBetSessionGetPayload<{}>;
+
 // ---------------------------------------------------------------------------
-// Game registry - non-stateful games that support auto-bet
+// Configuration
 // ---------------------------------------------------------------------------
 
-const SUPPORTED_GAMES: Record<string, { play: (userId: string, bet: BetRequest) => Promise<GameResult> }> = {
-  'wheel': wheelGame,
-  'limbo': limboGame,
-  'keno': kenoGame,
-  'baccarat': baccaratGame,
-  'slots': slotsGame,
+// Games whose play() only opens a round that needs further actions
+const MULTI_STEP_GAMES = new Set([
+  'crash',
+  'mines',
+  'blackjack',
+  'hilo',
+  'poker',
+  'tower',
+  'dragontower',
+  'video-poker',
+  'minesweeper',
+  'ludo',
+]);
+
+// Bets rejected with these codes end the session normally instead of as an error
+const STOP_ERROR_CODES: Record<string, string> = {
+  INSUFFICIENT_BALANCE: 'Insufficient balance',
+  LOSS_LIMIT_EXCEEDED: 'Loss limit reached',
+  SELF_EXCLUDED: 'Self-excluded',
+  COOLING_OFF: 'Cooling-off period',
+  USER_BANNED: 'Account suspended',
+  BET_TOO_HIGH: 'Bet above the game maximum',
+  BET_TOO_LOW: 'Bet below the game minimum',
 };
 
-// Games that will be added when their modules are loaded
-// dice, coinflip, plinko are also non-stateful but imported dynamically to avoid circular deps
-
-const REDIS_KEY_PREFIX = 'autobet:session:';
-const REDIS_STOP_KEY_PREFIX = 'autobet:stop:';
-const REDIS_TTL = 7200; // 2 hours
 const MIN_DELAY_MS = 100;
 const MAX_DELAY_MS = 5000;
 const MAX_BETS = 10000;
+const MAX_STREAK_RULES = 10;
+const MAX_RESULTS = 100;
+
+/** Finished sessions stay listed for this long */
+const RECENT_SESSION_MS = 2 * 60 * 60 * 1000; // 2 hours
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function toDecimal(value: number): Decimal {
+  return new Decimal(value.toFixed(8));
+}
+
+function toSession(row: SessionRow): AutoBetSession {
+  return {
+    id: row.id,
+    userId: row.userId,
+    gameSlug: row.gameSlug,
+    config: row.config as unknown as AutoBetConfig,
+    status: row.status as SessionStatus,
+    betsCompleted: row.betsCompleted,
+    totalWagered: row.totalWagered.toNumber(),
+    totalPayout: row.totalPayout.toNumber(),
+    totalProfit: row.totalProfit.toNumber(),
+    currentBetAmount: row.currentBetAmount.toNumber(),
+    baseBetAmount: row.baseBetAmount.toNumber(),
+    currentGameOptions: row.gameOptions as Record<string, unknown>,
+    wins: row.wins,
+    losses: row.losses,
+    streak: row.streak,
+    results: row.results as unknown as AutoBetRoundSummary[],
+    startedAt: row.startedAt.toISOString(),
+    stoppedAt: row.stoppedAt?.toISOString(),
+    stopReason: row.stopReason ?? undefined,
+    lastError: row.lastError ?? undefined,
+  };
+}
 
 // ---------------------------------------------------------------------------
 // AutoBetService
@@ -92,16 +170,8 @@ const MAX_BETS = 10000;
 
 export class AutoBetService {
   /**
-   * Register additional games for auto-bet support.
-   */
-  registerGame(slug: string, game: { play: (userId: string, bet: BetRequest) => Promise<GameResult> }): void {
-    SUPPORTED_GAMES[slug] = game;
-  }
-
-  /**
-   * Start an auto-bet session.
-   * Runs bets sequentially with configurable delay.
-   * Returns immediately; bets run asynchronously.
+   * Start an auto-bet session on any single-round game in the registry.
+   * Returns immediately; bets are played by the autobet queue worker.
    */
   async start(
     userId: string,
@@ -109,286 +179,270 @@ export class AutoBetService {
     config: AutoBetConfig,
   ): Promise<{ sessionId: string; message: string }> {
     // Validate game
-    const game = SUPPORTED_GAMES[gameSlug];
-    if (!game) {
-      throw new Error(`Game "${gameSlug}" is not supported for auto-bet. Supported: ${Object.keys(SUPPORTED_GAMES).join(', ')}`);
-    }
-
-    // Check for existing session
-    const existingKey = REDIS_KEY_PREFIX + `${userId}:${gameSlug}`;
-    const existing = await redis.get(existingKey);
-    if (existing) {
-      const session: AutoBetSession = JSON.parse(existing);
-      if (session.status === 'running') {
-        throw new Error('An auto-bet session is already running for this game.');
-      }
+    const game = gameRegistry.get(gameSlug);
+    if (!game || MULTI_STEP_GAMES.has(gameSlug)) {
+      throw new GameError('AUTOBET_NOT_SUPPORTED', `Game "${gameSlug}" is not supported for auto-bet.`);
     }
 
     // Validate config
-    if (config.betAmount <= 0) {
-      throw new Error('Bet amount must be greater than zero.');
+    if (typeof config.betAmount !== 'number' || !(config.betAmount > 0)) {
+      throw new GameError('BET_INVALID', 'Bet amount must be greater than zero.');
     }
-    if (config.numberOfBets <= 0 || config.numberOfBets > MAX_BETS) {
-      throw new Error(`Number of bets must be between 1 and ${MAX_BETS}.`);
+    if (!Number.isInteger(config.numberOfBets) || config.numberOfBets <= 0 || config.numberOfBets > MAX_BETS) {
+      throw new GameError('INVALID_CONFIG', `Number of bets must be between 1 and ${MAX_BETS}.`);
     }
     if (config.stopOnProfit !== undefined && config.stopOnProfit <= 0) {
-      throw new Error('stopOnProfit must be positive.');
+      throw new GameError('INVALID_CONFIG', 'stopOnProfit must be positive.');
     }
     if (config.stopOnLoss !== undefined && config.stopOnLoss <= 0) {
-      throw new Error('stopOnLoss must be positive.');
+      throw new GameError('INVALID_CONFIG', 'stopOnLoss must be positive.');
+    }
+    if (config.stopOnWinMultiplier !== undefined && config.stopOnWinMultiplier <= 1) {
+      throw new GameError('INVALID_CONFIG', 'stopOnWinMultiplier must be greater than 1.');
+    }
+    const streakRules = config.streakRules ?? [];
+    if (streakRules.length > MAX_STREAK_RULES) {
+      throw new GameError('INVALID_CONFIG', `At most ${MAX_STREAK_RULES} streak rules are allowed.`);
+    }
+    for (const rule of streakRules) {
+      if ((rule.on !== 'win' && rule.on !== 'loss') || !Number.isInteger(rule.count) || rule.count < 1
+        || typeof rule.options !== 'object' || rule.options === null) {
+        throw new GameError('INVALID_CONFIG', 'Each streak rule needs on (win|loss), a positive count and options.');
+      }
     }
 
-    const delayMs = Math.max(MIN_DELAY_MS, Math.min(config.delayMs ?? 200, MAX_DELAY_MS));
-
-    // Initialize session
-    const session: AutoBetSession = {
-      userId,
-      gameSlug,
-      config: { ...config, delayMs },
-      status: 'running',
-      betsCompleted: 0,
-      totalWagered: 0,
-      totalPayout: 0,
-      totalProfit: 0,
-      currentBetAmount: config.betAmount,
-      baseBetAmount: config.betAmount,
-      wins: 0,
-      losses: 0,
-      results: [],
-      startedAt: new Date().toISOString(),
-    };
-
-    const sessionKey = existingKey;
-    await redis.set(sessionKey, JSON.stringify(session), 'EX', REDIS_TTL);
+    // Fail fast if the first bet would already breach a loss limit
+    const lossBreach = await checkLossLimit(userId, config.currency, toDecimal(config.betAmount));
+    if (lossBreach) {
+      throw new GameError(lossBreach.code, lossBreach.message);
+    }
 
-    // Clear any stop signal
-    await redis.del(REDIS_STOP_KEY_PREFIX + `${userId}:${gameSlug}`);
+    // Check for existing session
+    const existing = await prisma.autoBetSession.findFirst({
+      where: { userId, gameSlug, status: 'running' },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new GameError('AUTOBET_RUNNING', 'An auto-bet session is already running for this game.');
+    }
 
-    // Run the auto-bet loop asynchronously
-    this.runLoop(userId, gameSlug, sessionKey, game, delayMs).catch((err) => {
-      console.error(`[AutoBet] Fatal error for ${userId}:${gameSlug}:`, err);
+    const delayMs = Math.max(MIN_DELAY_MS, Math.min(config.delayMs ?? 200, MAX_DELAY_MS));
+    const storedConfig: AutoBetConfig = { ...config, delayMs, streakRules };
+
+    const session = await prisma.autoBetSession.create({
+      data: {
+        userId,
+        gameSlug,
+        currency: config.currency,
+        config: storedConfig as unknown as Prisma.InputJsonObject,
+        gameOptions: (config.gameOptions ?? {}) as Prisma.InputJsonObject,
+        baseBetAmount: toDecimal(config.betAmount),
+        currentBetAmount: toDecimal(config.betAmount),
+      },
     });
 
+    await this.enqueue(session.id, 0);
+
     return {
-      sessionId: `${userId}:${gameSlug}`,
+      sessionId: session.id,
       message: `Auto-bet started: ${config.numberOfBets} bets on ${gameSlug}`,
     };
   }
 
   /**
-   * Stop an active auto-bet session.
+   * Stop an active auto-bet session. A bet already in flight still settles.
    */
   async stop(userId: string, gameSlug: string): Promise<{ message: string }> {
-    const sessionKey = REDIS_KEY_PREFIX + `${userId}:${gameSlug}`;
-    const raw = await redis.get(sessionKey);
-
-    if (!raw) {
-      throw new Error('No auto-bet session found for this game.');
-    }
+    const stopped = await prisma.autoBetSession.updateMany({
+      where: { userId, gameSlug, status: 'running' },
+      data: { status: 'stopped', stopReason: 'User requested stop', stoppedAt: new Date() },
+    });
 
-    const session: AutoBetSession = JSON.parse(raw);
-    if (session.status !== 'running') {
-      throw new Error(`Auto-bet session is not running (status: ${session.status}).`);
+    if (stopped.count === 0) {
+      throw new GameError('AUTOBET_NOT_RUNNING', 'No running auto-bet session found for this game.');
     }
 
-    // Signal stop
-    await redis.set(REDIS_STOP_KEY_PREFIX + `${userId}:${gameSlug}`, '1', 'EX', 60);
-
-    return { message: 'Stop signal sent. Auto-bet will stop after current bet completes.' };
+    return { message: 'Auto-bet stopped.' };
   }
 
   /**
-   * Get the current auto-bet status for a user and game.
+   * Get the latest auto-bet session of a user for a game.
    */
   async getStatus(userId: string, gameSlug: string): Promise<AutoBetStatus> {
-    const sessionKey = REDIS_KEY_PREFIX + `${userId}:${gameSlug}`;
-    const raw = await redis.get(sessionKey);
+    const row = await prisma.autoBetSession.findFirst({
+      where: { userId, gameSlug },
+      orderBy: { startedAt: 'desc' },
+    });
 
-    if (!raw) {
+    if (!row) {
       return { isActive: false, session: null };
     }
 
-    const session: AutoBetSession = JSON.parse(raw);
     return {
-      isActive: session.status === 'running',
-      session,
+      isActive: row.status === 'running',
+      session: toSession(row),
     };
   }
 
   /**
-   * Get all active auto-bet sessions for a user.
+   * Get a user's running auto-bet sessions and those that ended recently.
    */
   async getAllSessions(userId: string): Promise<AutoBetSession[]> {
-    const sessions: AutoBetSession[] = [];
+    const rows = await prisma.autoBetSession.findMany({
+      where: {
+        userId,
+        OR: [{ status: 'running' }, { updatedAt: { gte: new Date(Date.now() - RECENT_SESSION_MS) } }],
+      },
+      orderBy: { startedAt: 'desc' },
+    });
 
-    for (const slug of Object.keys(SUPPORTED_GAMES)) {
-      const key = REDIS_KEY_PREFIX + `${userId}:${slug}`;
-      const raw = await redis.get(key);
-      if (raw) {
-        sessions.push(JSON.parse(raw));
+    return rows.map(toSession);
+  }
+
+  /**
+   * Re-queue running sessions whose job is missing (e.g. after Redis lost
+   * its data) or failed. Jobs that are still scheduled are left as they are.
+   */
+  async resumeSessions(): Promise<number> {
+    const running = await prisma.autoBetSession.findMany({
+      where: { status: 'running' },
+      select: { id: true },
+    });
+
+    for (const session of running) {
+      const job = await autobetQueue.getJob(session.id);
+      if (!job) {
+        await this.enqueue(session.id, 0);
+      } else if (await job.isFailed()) {
+        await job.retry();
       }
     }
-
-    return sessions;
+    return running.length;
   }
 
   // -------------------------------------------------------------------------
-  // Internal: auto-bet loop
+  // Worker step
   // -------------------------------------------------------------------------
 
-  private async runLoop(
-    userId: string,
-    gameSlug: string,
-    sessionKey: string,
-    game: { play: (userId: string, bet: BetRequest) => Promise<GameResult> },
-    delayMs: number,
-  ): Promise<void> {
-    let session: AutoBetSession;
+  /**
+   * Play the next bet of a session. Returns the delay until the following
+   * bet, or null when the session has ended.
+   */
+  async runStep(sessionId: string): Promise<number | null> {
+    const row = await prisma.autoBetSession.findUnique({ where: { id: sessionId } });
+    if (!row || row.status !== 'running') return null;
 
-    const loadSession = async (): Promise<AutoBetSession | null> => {
-      const raw = await redis.get(sessionKey);
-      if (!raw) return null;
-      return JSON.parse(raw);
-    };
+    const session = toSession(row);
+    const { config } = session;
 
-    const saveSession = async (s: AutoBetSession): Promise<void> => {
-      await redis.set(sessionKey, JSON.stringify(s), 'EX', REDIS_TTL);
-    };
+    const stopReason = this.getStopReason(session);
+    if (stopReason) {
+      await this.finish(sessionId, session.betsCompleted >= config.numberOfBets ? 'completed' : 'stopped', stopReason);
+      return null;
+    }
 
-    const shouldStop = async (): Promise<string | null> => {
-      // Check stop signal
-      const stopSignal = await redis.get(REDIS_STOP_KEY_PREFIX + `${userId}:${gameSlug}`);
-      if (stopSignal) return 'User requested stop';
+    let result: GameResult;
+    try {
+      const game = gameRegistry.get(session.gameSlug);
+      if (!game) {
+        throw new GameError('GAME_NOT_FOUND', `Game "${session.gameSlug}" not found.`);
+      }
 
-      const s = await loadSession();
-      if (!s) return 'Session not found';
-      if (s.status !== 'running') return `Session status: ${s.status}`;
+      result = await game.play(session.userId, {
+        amount: session.currentBetAmount,
+        currency: config.currency,
+        options: session.currentGameOptions,
+      });
+    } catch (err) {
+      if (err instanceof GameError && STOP_ERROR_CODES[err.code]) {
+        await this.finish(sessionId, 'stopped', STOP_ERROR_CODES[err.code]);
+      } else {
+        await this.finish(sessionId, 'error', undefined, err instanceof Error ? err.message : String(err));
+      }
+      return null;
+    }
+
+    // Update progress
+    const isWin = result.payout > result.betAmount;
+    const streak = isWin ? Math.max(session.streak, 0) + 1 : Math.min(session.streak, 0) - 1;
+    const totalProfit = session.totalProfit + result.profit;
+
+    const results = [
+      ...session.results,
+      {
+        roundIndex: session.betsCompleted,
+        roundId: result.roundId,
+        betAmount: result.betAmount,
+        payout: result.payout,
+        profit: result.profit,
+        multiplier: result.multiplier,
+        isWin,
+        runningProfit: totalProfit,
+      },
+    ].slice(-MAX_RESULTS);
+
+    // A streak rule fires once, on the bet its streak reaches the count
+    let gameOptions = session.currentGameOptions;
+    for (const rule of config.streakRules ?? []) {
+      const ruleStreak = rule.on === 'win' ? streak : -streak;
+      if (ruleStreak === rule.count) {
+        gameOptions = { ...gameOptions, ...rule.options };
+      }
+    }
 
-      // Check stop conditions
-      if (s.betsCompleted >= s.config.numberOfBets) return 'All bets completed';
-      if (s.config.stopOnProfit && s.totalProfit >= s.config.stopOnProfit) return `Profit target reached: ${s.totalProfit}`;
-      if (s.config.stopOnLoss && s.totalProfit <= -s.config.stopOnLoss) return `Loss limit reached: ${s.totalProfit}`;
+    const nextBet = this.calculateNextBet(session.baseBetAmount, session.currentBetAmount, isWin, config);
+
+    await prisma.autoBetSession.update({
+      where: { id: sessionId },
+      data: {
+        betsCompleted: { increment: 1 },
+        totalWagered: { increment: toDecimal(result.betAmount) },
+        totalPayout: { increment: toDecimal(result.payout) },
+        totalProfit: { increment: toDecimal(result.profit) },
+        wins: { increment: isWin ? 1 : 0 },
+        losses: { increment: isWin ? 0 : 1 },
+        streak,
+        currentBetAmount: toDecimal(nextBet),
+        gameOptions: gameOptions as Prisma.InputJsonObject,
+        results: results as unknown as Prisma.InputJsonArray,
+      },
+    });
 
+    if (config.stopOnWinMultiplier && result.multiplier >= config.stopOnWinMultiplier) {
+      await this.finish(sessionId, 'stopped', `Win multiplier reached: ${result.multiplier}x`);
       return null;
-    };
+    }
 
-    try {
-      const loaded = await loadSession();
-      if (!loaded) return;
-      session = loaded;
-
-      for (let i = 0; i < session.config.numberOfBets; i++) {
-        // Check stop conditions
-        const stopReason = await shouldStop();
-        if (stopReason) {
-          session = (await loadSession()) ?? session;
-          session.status = session.betsCompleted >= session.config.numberOfBets ? 'completed' : 'stopped';
-          session.stopReason = stopReason;
-          session.stoppedAt = new Date().toISOString();
-          await saveSession(session);
-          await redis.del(REDIS_STOP_KEY_PREFIX + `${userId}:${gameSlug}`);
-          return;
-        }
+    return config.delayMs ?? MIN_DELAY_MS;
+  }
 
-        // Reload session to get current bet amount
-        session = (await loadSession()) ?? session;
-
-        try {
-          // Place bet
-          const betRequest: BetRequest = {
-            amount: session.currentBetAmount,
-            currency: session.config.currency,
-            options: session.config.gameOptions ?? {},
-          };
-
-          const result = await game.play(userId, betRequest);
-
-          // Update session
-          const isWin = result.payout > result.betAmount;
-          session.betsCompleted++;
-          session.totalWagered += result.betAmount;
-          session.totalPayout += result.payout;
-          session.totalProfit += result.profit;
-
-          if (isWin) {
-            session.wins++;
-          } else {
-            session.losses++;
-          }
-
-          // Adjust bet amount based on win/loss action
-          session.currentBetAmount = this.calculateNextBet(
-            session.baseBetAmount,
-            session.currentBetAmount,
-            isWin,
-            session.config,
-          );
-
-          // Add round summary (keep last 100)
-          const summary: AutoBetRoundSummary = {
-            roundIndex: i,
-            roundId: result.roundId,
-            betAmount: result.betAmount,
-            payout: result.payout,
-            profit: result.profit,
-            multiplier: result.multiplier,
-            isWin,
-            runningProfit: session.totalProfit,
-          };
-
-          session.results.push(summary);
-          if (session.results.length > 100) {
-            session.results = session.results.slice(-100);
-          }
-
-          await saveSession(session);
-        } catch (err) {
-          const errorMsg = err instanceof Error ? err.message : String(err);
-
-          // If insufficient balance, stop gracefully
-          if (errorMsg.includes('Insufficient') || errorMsg.includes('balance')) {
-            session.status = 'stopped';
-            session.stopReason = 'Insufficient balance';
-            session.stoppedAt = new Date().toISOString();
-            await saveSession(session);
-            return;
-          }
-
-          // Other errors: log and stop
-          session.status = 'error';
-          session.lastError = errorMsg;
-          session.stoppedAt = new Date().toISOString();
-          await saveSession(session);
-          return;
-        }
+  // -------------------------------------------------------------------------
+  // Internal helpers
+  // -------------------------------------------------------------------------
 
-        // Delay between bets
-        if (i < session.config.numberOfBets - 1) {
-          await this.sleep(delayMs);
-        }
-      }
+  private async enqueue(sessionId: string, delay: number): Promise<void> {
+    await autobetQueue.add('autobet-session', { sessionId }, { jobId: sessionId, delay });
+  }
 
-      // All bets completed
-      session = (await loadSession()) ?? session;
-      session.status = 'completed';
-      session.stopReason = 'All bets completed';
-      session.stoppedAt = new Date().toISOString();
-      await saveSession(session);
-    } catch (err) {
-      console.error(`[AutoBet] Loop error for ${userId}:${gameSlug}:`, err);
-
-      try {
-        const s = await loadSession();
-        if (s) {
-          s.status = 'error';
-          s.lastError = err instanceof Error ? err.message : String(err);
-          s.stoppedAt = new Date().toISOString();
-          await saveSession(s);
-        }
-      } catch {
-        /* ignore cleanup errors */
-      }
-    }
+  private getStopReason(session: AutoBetSession): string | null {
+    const { config } = session;
+    if (session.betsCompleted >= config.numberOfBets) return 'All bets completed';
+    if (config.stopOnProfit && session.totalProfit >= config.stopOnProfit) return `Profit target reached: ${session.totalProfit}`;
+    if (config.stopOnLoss && session.totalProfit <= -config.stopOnLoss) return `Loss limit reached: ${session.totalProfit}`;
+    return null;
+  }
+
+  /** End a session that is still running (a user stop wins over the worker) */
+  private async finish(
+    sessionId: string,
+    status: Exclude<SessionStatus, 'running'>,
+    stopReason?: string,
+    lastError?: string,
+  ): Promise<void> {
+    await prisma.autoBetSession.updateMany({
+      where: { id: sessionId, status: 'running' },
+      data: { status, stopReason: stopReason ?? null, lastError: lastError ?? null, stoppedAt: new Date() },
+    });
   }
 
   // -------------------------------------------------------------------------
@@ -428,10 +482,6 @@ export class AutoBetService {
       }
     }
   }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
 
 export const autoBetService = new AutoBetService();
@@ -1,25 +1,40 @@
 import crypto from 'crypto';
+import { isDeepStrictEqual } from 'util';
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { authenticate } from '../../middleware/auth.js';
+import { authenticate, optionalAuth } from '../../middleware/auth.js';
+import { geoGuard } from '../../middleware/geo.js';
+import { createRateLimiter } from '../../middleware/rateLimit.js';
 import { prisma } from '../../lib/prisma.js';
 import { redis } from '../../lib/redis.js';
 import { ProvablyFairService } from '../../services/casino/ProvablyFairService.js';
 import { GameError } from '../../services/casino/BaseGame.js';
 import { gameRegistry } from '../../services/casino/GameRegistry.js';
 import { crashGameService } from './games/crash/crash.service.js';
+import { listSeedChains, verifySeedChain, MAX_VERIFY_RANGE } from './games/crash/crash-chain.service.js';
 import { minesGame } from './games/mines/mines.service.js';
 import { blackjackGame } from './games/blackjack/blackjack.service.js';
 import { hiLoGame } from './games/hilo/hilo.service.js';
 import { towerGame } from './games/tower/tower.service.js';
 import { videoPokerGame } from './games/videopoker/videopoker.service.js';
-import { autoBetService } from './autobet.service.js';
-import { jackpotService } from './jackpot.service.js';
+import { autoBetService, type StreakRule } from './autobet.service.js';
+import { jackpotService, type JackpotTier } from './jackpot.service.js';
 import { liveFeedService } from './livefeed.service.js';
 import { dragonTowerGame } from './games/dragontower/dragontower.service.js';
 import { pokerGame } from './games/poker/poker.service.js';
 import { trenballGame } from './games/trenball/trenball.service.js';
 import { getActiveVirtualMatches } from './games/virtualsports/virtualsports.service.js';
 import { tournamentService } from './tournament.service.js';
+import {
+  isDemoPlay,
+  isDemoRequest,
+  resolveDemoPlayer,
+  runAsDemo,
+  getDemoBalance,
+  getDemoBalances,
+  refillDemoBalance,
+  getDemoHistory,
+  DEMO_START_BALANCE,
+} from './demo.service.js';
 
 const fairService = new ProvablyFairService();
 
@@ -27,20 +42,84 @@ const fairService = new ProvablyFairService();
 // Helper: standard error response
 // ---------------------------------------------------------------------------
 
-function errorResponse(reply: FastifyReply, err: unknown): void {
+function errorResponse(reply: FastifyReply, err: unknown): FastifyReply {
   if (err instanceof GameError) {
-    void reply.status(400).send({
+    return reply.status(400).send({
       success: false,
       error: { code: err.code, message: err.message },
     });
-  } else {
-    const message = err instanceof Error ? err.message : 'Internal server error';
-    console.error('[Casino] Unhandled error:', err);
-    void reply.status(500).send({
-      success: false,
-      error: { code: 'INTERNAL_ERROR', message },
-    });
   }
+  const message = err instanceof Error ? err.message : 'Internal server error';
+  console.error('[Casino] Unhandled error:', err);
+  return reply.status(500).send({
+    success: false,
+    error: { code: 'INTERNAL_ERROR', message },
+  });
+}
+
+function parseJackpotTier(tier: string | undefined): JackpotTier | undefined {
+  if (tier === undefined) return undefined;
+  const upper = tier.toUpperCase();
+  if (upper !== 'MINI' && upper !== 'MAJOR' && upper !== 'GRAND') {
+    throw new GameError('INVALID_TIER', 'Tier must be one of MINI, MAJOR, GRAND.');
+  }
+  return upper;
+}
+
+// ---------------------------------------------------------------------------
+// Helper: demo mode
+// ---------------------------------------------------------------------------
+
+/** Demo play is open to visitors, so it is limited per IP */
+const demoRateLimit = createRateLimiter('casino-demo', 120, 60);
+
+/**
+ * preHandler for demo endpoints: resolves the demo player of the logged-in
+ * user or the visitor.
+ */
+async function demoAuth(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  await demoRateLimit(request, reply);
+  if (reply.sent) return;
+  await optionalAuth(request, reply);
+  request.demoPlayer = resolveDemoPlayer(request, reply);
+}
+
+/**
+ * preHandler for game endpoints: demo requests go through demoAuth, real
+ * play requires a logged-in user.
+ */
+async function playerAuth(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  if (isDemoRequest(request)) {
+    return demoAuth(request, reply);
+  }
+  return authenticate(request, reply);
+}
+
+/**
+ * Wrap a game handler so demo requests run as the demo player.
+ */
+function asPlayer<R extends FastifyRequest>(
+  handler: (request: R, reply: FastifyReply) => Promise<unknown>,
+) {
+  return (request: R, reply: FastifyReply) =>
+    request.demoPlayer
+      ? runAsDemo(request.demoPlayer, () => handler(request, reply))
+      : handler(request, reply);
+}
+
+/** Id the games see: the demo player's in demo mode, otherwise the user's */
+function playerId(request: FastifyRequest): string {
+  return request.demoPlayer?.id ?? request.user!.id;
+}
+
+/** Balance shown after a game action (virtual during demo play) */
+async function getPlayerBalance(userId: string, currency: string): Promise<number> {
+  if (isDemoPlay()) return getDemoBalance(userId, currency);
+  const wallet = await prisma.wallet.findFirst({
+    where: { userId, currency: { symbol: currency } },
+    select: { balance: true },
+  });
+  return wallet ? wallet.balance.toNumber() : 0;
 }
 
 // ---------------------------------------------------------------------------
@@ -222,17 +301,25 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
 
   /**
    * POST /api/v1/casino/fairness/verify — verify a past game
+   * With `options` (the round's recorded result plus betAmount) the full
+   * outcome is replayed by the game itself.
    */
   app.post(
     '/api/v1/casino/fairness/verify',
     async (
       request: FastifyRequest<{
-        Body: { serverSeed: string; clientSeed: string; nonce: number; gameType: string };
+        Body: {
+          serverSeed: string;
+          clientSeed: string;
+          nonce: number;
+          gameType: string;
+          options?: Record<string, any>;
+        };
       }>,
       reply: FastifyReply,
     ) => {
       try {
-        const { serverSeed, clientSeed, nonce, gameType } = request.body;
+        const { serverSeed, clientSeed, nonce, gameType, options } = request.body;
 
         if (!serverSeed || !clientSeed || nonce === undefined || !gameType) {
           return reply.status(400).send({
@@ -241,11 +328,113 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
           });
         }
 
+        if (options) {
+          const game = gameType === crashGameService.slug ? crashGameService : gameRegistry.get(gameType);
+          if (!game) {
+            throw new GameError('GAME_NOT_FOUND', `Game "${gameType}" not found.`);
+          }
+          return {
+            success: true,
+            data: {
+              hash: fairService.hashServerSeed(serverSeed),
+              result: game.replay(serverSeed, clientSeed, nonce, { betAmount: 0, ...options }),
+            },
+          };
+        }
+
         const result = fairService.verify(serverSeed, clientSeed, nonce, gameType);
 
         return { success: true, data: result };
       } catch (err) {
-        errorResponse(reply, err);
+        return errorResponse(reply, err);
+      }
+    },
+  );
+
+  /**
+   * GET /api/v1/casino/fairness/verify/:roundId — replay a recorded round
+   * Needs the round's server seed to be revealed (seed pair rotated, or the
+   * crash round over) and compares the replay with the stored result.
+   */
+  app.get<{ Params: { roundId: string } }>(
+    '/api/v1/casino/fairness/verify/:roundId',
+    { preHandler: [authenticate] },
+    async (
+      request: FastifyRequest<{ Params: { roundId: string } }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        const userId = request.user!.id;
+        const { roundId } = request.params;
+
+        const round = await prisma.casinoRound.findFirst({
+          where: { id: roundId, userId },
+        });
+
+        if (!round) {
+          return reply.status(404).send({
+            success: false,
+            error: { code: 'ROUND_NOT_FOUND', message: 'Round not found.' },
+          });
+        }
+
+        const isCrash = round.gameSlug === crashGameService.slug;
+        const seed = isCrash
+          ? await prisma.crashRound.findFirst({
+              where: { serverSeedHash: round.serverSeedHash, status: 'CRASHED' },
+              select: { serverSeed: true },
+            })
+          : await prisma.provablyFairSeed.findFirst({
+              where: { userId, serverSeedHash: round.serverSeedHash, isRevealed: true },
+              select: { serverSeed: true },
+            });
+
+        if (!seed) {
+          return reply.status(400).send({
+            success: false,
+            error: {
+              code: 'SEED_NOT_REVEALED',
+              message: 'The server seed for this round has not been revealed yet. Rotate your seed pair first.',
+            },
+          });
+        }
+
+        const game = isCrash ? crashGameService : gameRegistry.get(round.gameSlug);
+        if (!game) {
+          throw new GameError('GAME_NOT_FOUND', `Game "${round.gameSlug}" not found.`);
+        }
+
+        const stored = round.result as Record<string, any>;
+        let replayed: Record<string, any>;
+        try {
+          replayed = game.replay(seed.serverSeed, round.clientSeed, round.nonce, {
+            ...stored,
+            betAmount: round.betAmount.toNumber(),
+          });
+        } catch (err) {
+          if (err instanceof GameError) throw err;
+          throw new GameError('REPLAY_FAILED', 'This round was recorded without the data needed to replay it.');
+        }
+
+        // Compare in stored (JSON) form; key order does not matter
+        const result = JSON.parse(JSON.stringify(replayed));
+
+        return reply.status(200).send({
+          success: true,
+          data: {
+            roundId: round.id,
+            game: round.gameSlug,
+            serverSeed: seed.serverSeed,
+            serverSeedHash: round.serverSeedHash,
+            clientSeed: round.clientSeed,
+            nonce: round.nonce,
+            result,
+            stored,
+            matches: isDeepStrictEqual(result, stored),
+          },
+        });
+      } catch (err) {
+        return errorResponse(reply, err);
       }
     },
   );
@@ -372,8 +561,8 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/games/:slug/play',
-    { preHandler: [authenticate] },
-    async (
+    { preHandler: [playerAuth, geoGuard] },
+    asPlayer(async (
       request: FastifyRequest<{
         Params: { slug: string };
         Body: { amount: number; currency: string; options?: any };
@@ -385,7 +574,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
         const body = request.body as any;
         const { currency } = body;
         const amount = normalizeBetAmount(body);
-        const userId = request.user!.id;
+        const userId = playerId(request);
 
         // Merge body-level fields into options for games that send them flat
         let options = body.options || {};
@@ -418,17 +607,88 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
 
         // If the game didn't already include newBalance, fetch it now
         if (result.newBalance === undefined) {
-          const wallet = await prisma.wallet.findFirst({
-            where: { userId, currency: { symbol: currency } },
-            select: { balance: true },
-          });
-          result.newBalance = wallet ? wallet.balance.toNumber() : 0;
+          result.newBalance = await getPlayerBalance(userId, currency);
         }
 
         return { success: true, data: result };
       } catch (err) {
         errorResponse(reply, err);
       }
+    }),
+  );
+
+  // =========================================================================
+  // DEMO MODE
+  // =========================================================================
+
+  /**
+   * GET /api/v1/casino/demo/balance - demo balances (optionally one currency)
+   */
+  app.get<{ Querystring: { currency?: string } }>(
+    '/api/v1/casino/demo/balance',
+    { preHandler: [demoAuth] },
+    async (
+      request: FastifyRequest<{ Querystring: { currency?: string } }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        const { id } = request.demoPlayer!;
+        const { currency } = request.query;
+
+        if (currency) {
+          const balance = await getDemoBalance(id, currency);
+          return reply.status(200).send({ success: true, data: { currency: currency.toUpperCase(), balance } });
+        }
+
+        const balances = await getDemoBalances(id);
+        return reply.status(200).send({ success: true, data: { startBalance: DEMO_START_BALANCE, balances } });
+      } catch (err) {
+        return errorResponse(reply, err);
+      }
+    },
+  );
+
+  /**
+   * POST /api/v1/casino/demo/refill - reset a demo balance to the start amount
+   */
+  app.post<{ Body: { currency: string } }>(
+    '/api/v1/casino/demo/refill',
+    { preHandler: [demoAuth] },
+    async (
+      request: FastifyRequest<{ Body: { currency: string } }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        const { currency } = request.body ?? {};
+        if (!currency || typeof currency !== 'string') {
+          throw new GameError('CURRENCY_INVALID', 'Currency must be a valid string.');
+        }
+
+        const balance = await refillDemoBalance(request.demoPlayer!.id, currency);
+        return reply.status(200).send({ success: true, data: { currency: currency.toUpperCase(), balance } });
+      } catch (err) {
+        return errorResponse(reply, err);
+      }
+    },
+  );
+
+  /**
+   * GET /api/v1/casino/demo/history - recent demo rounds
+   */
+  app.get<{ Querystring: { limit?: string } }>(
+    '/api/v1/casino/demo/history',
+    { preHandler: [demoAuth] },
+    async (
+      request: FastifyRequest<{ Querystring: { limit?: string } }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        const limit = Math.min(100, Math.max(1, parseInt(request.query.limit ?? '20', 10) || 20));
+        const rounds = await getDemoHistory(request.demoPlayer!.id, limit);
+        return reply.status(200).send({ success: true, data: rounds });
+      } catch (err) {
+        return errorResponse(reply, err);
+      }
     },
   );
 
@@ -441,7 +701,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/crash/bet',
-    { preHandler: [authenticate] },
+    { preHandler: [authenticate, geoGuard] },
     async (
       request: FastifyRequest<{
         Body: { amount: number; currency: string; autoCashout?: number };
@@ -461,11 +721,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
         );
 
         // Include updated balance in response
-        const wallet = await prisma.wallet.findFirst({
-          where: { userId, currency: { symbol: currency } },
-          select: { balance: true },
-        });
-        const newBalance = wallet ? wallet.balance.toNumber() : 0;
+        const newBalance = await getPlayerBalance(userId, currency);
 
         return { success: true, data: { ...result, newBalance } };
       } catch (err) {
@@ -508,7 +764,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    * GET /api/v1/casino/crash/current — get current round state
    */
   app.get('/api/v1/casino/crash/current', async (_request, _reply) => {
-    const state = crashGameService.getCurrentState();
+    const state = await crashGameService.getCurrentState();
     return { success: true, data: state };
   });
 
@@ -531,6 +787,39 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
     },
   );
 
+  /**
+   * GET /api/v1/casino/crash/chains — seed chains with their terminating hashes
+   */
+  app.get('/api/v1/casino/crash/chains', async (_request, reply) => {
+    try {
+      const chains = await listSeedChains();
+      return { success: true, data: chains };
+    } catch (err) {
+      errorResponse(reply, err);
+    }
+  });
+
+  /**
+   * GET /api/v1/casino/crash/chains/:chainId/verify — check finished rounds
+   * with chain index in [from, to] against the chain
+   */
+  app.get(
+    '/api/v1/casino/crash/chains/:chainId/verify',
+    async (
+      request: FastifyRequest<{ Params: { chainId: string }; Querystring: { from?: string; to?: string } }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        const from = parseInt(request.query.from ?? '1', 10);
+        const to = request.query.to !== undefined ? parseInt(request.query.to, 10) : from + MAX_VERIFY_RANGE - 1;
+        const result = await verifySeedChain(request.params.chainId, from, to);
+        return { success: true, data: result };
+      } catch (err) {
+        errorResponse(reply, err);
+      }
+    },
+  );
+
   // =========================================================================
   // MINES GAME
   // =========================================================================
@@ -540,15 +829,15 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/mines/start',
-    { preHandler: [authenticate] },
-    async (
+    { preHandler: [playerAuth, geoGuard] },
+    asPlayer(async (
       request: FastifyRequest<{
         Body: { amount: number; currency: string; mineCount: number };
       }>,
       reply: FastifyReply,
     ) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const amount = normalizeBetAmount(request.body);
         const { currency } = request.body;
         // Accept both mineCount and minesCount
@@ -565,17 +854,13 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
         });
 
         // Include updated balance
-        const minesWallet = await prisma.wallet.findFirst({
-          where: { userId, currency: { symbol: currency } },
-          select: { balance: true },
-        });
-        const newBalance = minesWallet ? minesWallet.balance.toNumber() : 0;
+        const newBalance = await getPlayerBalance(userId, currency);
 
         return { success: true, data: { ...result, newBalance } };
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   /**
@@ -583,13 +868,13 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/mines/reveal',
-    { preHandler: [authenticate] },
-    async (
+    { preHandler: [playerAuth] },
+    asPlayer(async (
       request: FastifyRequest<{ Body: { position: number } }>,
       reply: FastifyReply,
     ) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const { position } = request.body;
 
         const result = await minesGame.reveal(userId, position);
@@ -597,7 +882,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   /**
@@ -605,16 +890,16 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/mines/cashout',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest, reply: FastifyReply) => {
+    { preHandler: [playerAuth] },
+    asPlayer(async (request: FastifyRequest, reply: FastifyReply) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const result = await minesGame.cashout(userId);
         return { success: true, data: result };
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   /**
@@ -622,16 +907,16 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.get(
     '/api/v1/casino/mines/active',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest, reply: FastifyReply) => {
+    { preHandler: [playerAuth] },
+    asPlayer(async (request: FastifyRequest, reply: FastifyReply) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const result = await minesGame.getActiveGame(userId);
         return { success: true, data: result };
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   /**
@@ -639,10 +924,10 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/mines/forfeit',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest, reply: FastifyReply) => {
+    { preHandler: [playerAuth] },
+    asPlayer(async (request: FastifyRequest, reply: FastifyReply) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const key = `mines:session:${userId}`;
         const raw = await redis.get(key);
         if (!raw) {
@@ -650,17 +935,13 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
         }
         await redis.del(key);
 
-        const wallet = await prisma.wallet.findFirst({
-          where: { userId, currency: { symbol: JSON.parse(raw).currency || 'USDT' } },
-          select: { balance: true },
-        });
-        const newBalance = wallet ? wallet.balance.toNumber() : 0;
+        const newBalance = await getPlayerBalance(userId, JSON.parse(raw).currency || 'USDT');
 
         return { success: true, data: { message: 'Game forfeited.', newBalance } };
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   // =========================================================================
@@ -669,6 +950,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
 
   // Helper to fetch all wallet balances for a user
   async function getUserBalances(userId: string) {
+    if (isDemoPlay()) return getDemoBalances(userId);
     const wallets = await prisma.wallet.findMany({
       where: { userId },
       include: { currency: { select: { symbol: true } } },
@@ -772,23 +1054,19 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/blackjack/deal',
-    { preHandler: [authenticate] },
-    async (
+    { preHandler: [playerAuth, geoGuard] },
+    asPlayer(async (
       request: FastifyRequest<{ Body: { amount?: number; betAmount?: number; currency: string } }>,
       reply: FastifyReply,
     ) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const amount = normalizeBetAmount(request.body);
         const { currency } = request.body;
 
         const result = await blackjackGame.deal(userId, { amount, currency });
 
-        const bjWallet = await prisma.wallet.findFirst({
-          where: { userId, currency: { symbol: currency } },
-          select: { balance: true },
-        });
-        const bjNewBalance = bjWallet ? bjWallet.balance.toNumber() : 0;
+        const bjNewBalance = await getPlayerBalance(userId, currency);
 
         const resp = buildBlackjackResponse(result, {
           betAmount: amount,
@@ -801,7 +1079,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   /** Helper: run a blackjack action and return transformed response.
@@ -831,11 +1109,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
       }
 
       // Fetch balance in the correct currency
-      const wallet = await prisma.wallet.findFirst({
-        where: { userId, currency: { symbol: currency } },
-        select: { balance: true },
-      });
-      const newBalance = wallet ? wallet.balance.toNumber() : 0;
+      const newBalance = await getPlayerBalance(userId, currency);
 
       const resp = buildBlackjackResponse(result, { betAmount, currency, newBalance });
       return { success: true, data: resp };
@@ -849,11 +1123,11 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/blackjack/hit',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const userId = request.user!.id;
+    { preHandler: [playerAuth] },
+    asPlayer(async (request: FastifyRequest, reply: FastifyReply) => {
+      const userId = playerId(request);
       return handleBlackjackAction(userId, () => blackjackGame.hit(userId), reply);
-    },
+    }),
   );
 
   /**
@@ -861,11 +1135,11 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/blackjack/stand',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const userId = request.user!.id;
+    { preHandler: [playerAuth] },
+    asPlayer(async (request: FastifyRequest, reply: FastifyReply) => {
+      const userId = playerId(request);
       return handleBlackjackAction(userId, () => blackjackGame.stand(userId), reply);
-    },
+    }),
   );
 
   /**
@@ -873,11 +1147,11 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/blackjack/double',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const userId = request.user!.id;
+    { preHandler: [playerAuth] },
+    asPlayer(async (request: FastifyRequest, reply: FastifyReply) => {
+      const userId = playerId(request);
       return handleBlackjackAction(userId, () => blackjackGame.double(userId), reply);
-    },
+    }),
   );
 
   /**
@@ -885,11 +1159,11 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/blackjack/split',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const userId = request.user!.id;
+    { preHandler: [playerAuth] },
+    asPlayer(async (request: FastifyRequest, reply: FastifyReply) => {
+      const userId = playerId(request);
       return handleBlackjackAction(userId, () => blackjackGame.split(userId), reply);
-    },
+    }),
   );
 
   /**
@@ -897,13 +1171,13 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/blackjack/action',
-    { preHandler: [authenticate] },
-    async (
+    { preHandler: [playerAuth] },
+    asPlayer(async (
       request: FastifyRequest<{ Body: { action: string } }>,
       reply: FastifyReply,
     ) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const { action } = request.body;
 
         if (!action || typeof action !== 'string') {
@@ -944,7 +1218,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   /**
@@ -952,16 +1226,16 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.get(
     '/api/v1/casino/blackjack/active',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest, reply: FastifyReply) => {
+    { preHandler: [playerAuth] },
+    asPlayer(async (request: FastifyRequest, reply: FastifyReply) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const result = await blackjackGame.getActiveGame(userId);
         return { success: true, data: result };
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   // =========================================================================
@@ -973,30 +1247,26 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/hilo/start',
-    { preHandler: [authenticate] },
-    async (
+    { preHandler: [playerAuth, geoGuard] },
+    asPlayer(async (
       request: FastifyRequest<{ Body: { amount?: number; betAmount?: number; currency: string } }>,
       reply: FastifyReply,
     ) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const amount = normalizeBetAmount(request.body);
         const { currency } = request.body;
 
         const result = await hiLoGame.start(userId, { amount, currency });
 
         // Include updated balance
-        const hiloWallet = await prisma.wallet.findFirst({
-          where: { userId, currency: { symbol: currency } },
-          select: { balance: true },
-        });
-        const hiloNewBalance = hiloWallet ? hiloWallet.balance.toNumber() : 0;
+        const hiloNewBalance = await getPlayerBalance(userId, currency);
 
         return { success: true, data: { result, newBalance: hiloNewBalance } };
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   /**
@@ -1004,13 +1274,13 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/hilo/guess',
-    { preHandler: [authenticate] },
-    async (
+    { preHandler: [playerAuth] },
+    asPlayer(async (
       request: FastifyRequest<{ Body: { direction: 'higher' | 'lower' } }>,
       reply: FastifyReply,
     ) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const { direction } = request.body;
 
         const result = await hiLoGame.guess(userId, direction);
@@ -1020,7 +1290,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   /**
@@ -1028,10 +1298,10 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/hilo/cashout',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest, reply: FastifyReply) => {
+    { preHandler: [playerAuth] },
+    asPlayer(async (request: FastifyRequest, reply: FastifyReply) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const result = await hiLoGame.cashout(userId);
         const balances = await getUserBalances(userId);
         const newBalance = balances.length > 0 ? balances[0].balance : 0;
@@ -1039,7 +1309,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   /**
@@ -1047,16 +1317,16 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.get(
     '/api/v1/casino/hilo/active',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest, reply: FastifyReply) => {
+    { preHandler: [playerAuth] },
+    asPlayer(async (request: FastifyRequest, reply: FastifyReply) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const result = await hiLoGame.getActiveGame(userId);
         return { success: true, data: result };
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   // =========================================================================
@@ -1162,15 +1432,15 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/tower/start',
-    { preHandler: [authenticate] },
-    async (
+    { preHandler: [playerAuth, geoGuard] },
+    asPlayer(async (
       request: FastifyRequest<{
         Body: { amount?: number; betAmount?: number; currency: string; difficulty?: string };
       }>,
       reply: FastifyReply,
     ) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const amount = normalizeBetAmount(request.body);
         const { currency, difficulty } = request.body;
 
@@ -1181,17 +1451,13 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
         });
 
         // Include updated balance
-        const towerWallet = await prisma.wallet.findFirst({
-          where: { userId, currency: { symbol: currency } },
-          select: { balance: true },
-        });
-        const towerNewBalance = towerWallet ? towerWallet.balance.toNumber() : 0;
+        const towerNewBalance = await getPlayerBalance(userId, currency);
 
         return { success: true, data: { result, newBalance: towerNewBalance } };
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   /**
@@ -1199,13 +1465,13 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/tower/climb',
-    { preHandler: [authenticate] },
-    async (
+    { preHandler: [playerAuth] },
+    asPlayer(async (
       request: FastifyRequest<{ Body: { column: number } }>,
       reply: FastifyReply,
     ) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const { column } = request.body;
 
         const result = await towerGame.climb(userId, column);
@@ -1215,7 +1481,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   /**
@@ -1223,10 +1489,10 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/tower/cashout',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest, reply: FastifyReply) => {
+    { preHandler: [playerAuth] },
+    asPlayer(async (request: FastifyRequest, reply: FastifyReply) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const result = await towerGame.cashout(userId);
         const balances = await getUserBalances(userId);
         const newBalance = balances.length > 0 ? balances[0].balance : 0;
@@ -1234,7 +1500,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   // =========================================================================
@@ -1246,15 +1512,15 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/dragontower/start',
-    { preHandler: [authenticate] },
-    async (
+    { preHandler: [playerAuth, geoGuard] },
+    asPlayer(async (
       request: FastifyRequest<{
         Body: { amount?: number; betAmount?: number; currency: string; difficulty?: string };
       }>,
       reply: FastifyReply,
     ) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const amount = normalizeBetAmount(request.body);
         const { currency, difficulty } = request.body;
 
@@ -1265,17 +1531,13 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
         });
 
         // Include updated balance
-        const dtWallet = await prisma.wallet.findFirst({
-          where: { userId, currency: { symbol: currency } },
-          select: { balance: true },
-        });
-        const dtNewBalance = dtWallet ? dtWallet.balance.toNumber() : 0;
+        const dtNewBalance = await getPlayerBalance(userId, currency);
 
         return { success: true, data: { result, newBalance: dtNewBalance } };
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   /**
@@ -1283,13 +1545,13 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/dragontower/pick',
-    { preHandler: [authenticate] },
-    async (
+    { preHandler: [playerAuth] },
+    asPlayer(async (
       request: FastifyRequest<{ Body: { position: number } }>,
       reply: FastifyReply,
     ) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const { position } = request.body;
 
         const result = await dragonTowerGame.pick(userId, position);
@@ -1299,7 +1561,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   /**
@@ -1307,10 +1569,10 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/dragontower/cashout',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest, reply: FastifyReply) => {
+    { preHandler: [playerAuth] },
+    asPlayer(async (request: FastifyRequest, reply: FastifyReply) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const result = await dragonTowerGame.cashout(userId);
         const balances = await getUserBalances(userId);
         const newBalance = balances.length > 0 ? balances[0].balance : 0;
@@ -1318,7 +1580,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   // =========================================================================
@@ -1330,30 +1592,26 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/video-poker/deal',
-    { preHandler: [authenticate] },
-    async (
+    { preHandler: [playerAuth, geoGuard] },
+    asPlayer(async (
       request: FastifyRequest<{ Body: { amount?: number; betAmount?: number; currency: string } }>,
       reply: FastifyReply,
     ) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const amount = normalizeBetAmount(request.body);
         const { currency } = request.body;
 
         const result = await videoPokerGame.deal(userId, { amount, currency });
 
         // Include updated balance
-        const vpWallet = await prisma.wallet.findFirst({
-          where: { userId, currency: { symbol: currency } },
-          select: { balance: true },
-        });
-        const vpNewBalance = vpWallet ? vpWallet.balance.toNumber() : 0;
+        const vpNewBalance = await getPlayerBalance(userId, currency);
 
         return { success: true, data: { result, newBalance: vpNewBalance } };
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   /**
@@ -1361,13 +1619,13 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/video-poker/draw',
-    { preHandler: [authenticate] },
-    async (
+    { preHandler: [playerAuth] },
+    asPlayer(async (
       request: FastifyRequest<{ Body: { holds: boolean[] } }>,
       reply: FastifyReply,
     ) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const { holds } = request.body;
 
         const result = await videoPokerGame.draw(userId, holds);
@@ -1377,7 +1635,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   // =========================================================================
@@ -1389,29 +1647,25 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/poker/deal',
-    { preHandler: [authenticate] },
-    async (
+    { preHandler: [playerAuth, geoGuard] },
+    asPlayer(async (
       request: FastifyRequest<{ Body: { amount?: number; betAmount?: number; currency: string } }>,
       reply: FastifyReply,
     ) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const amount = normalizeBetAmount(request.body);
         const { currency } = request.body;
 
         const result = await pokerGame.deal(userId, { amount, currency });
 
-        const wallet = await prisma.wallet.findFirst({
-          where: { userId, currency: { symbol: currency } },
-          select: { balance: true },
-        });
-        const newBalance = wallet ? wallet.balance.toNumber() : 0;
+        const newBalance = await getPlayerBalance(userId, currency);
 
         return { success: true, data: { result, newBalance } };
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   /**
@@ -1419,13 +1673,13 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/poker/action',
-    { preHandler: [authenticate] },
-    async (
+    { preHandler: [playerAuth] },
+    asPlayer(async (
       request: FastifyRequest<{ Body: { action: string } }>,
       reply: FastifyReply,
     ) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const { action } = request.body;
 
         if (!action || typeof action !== 'string') {
@@ -1475,7 +1729,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   /**
@@ -1483,16 +1737,16 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.get(
     '/api/v1/casino/poker/active',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest, reply: FastifyReply) => {
+    { preHandler: [playerAuth] },
+    asPlayer(async (request: FastifyRequest, reply: FastifyReply) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const result = await pokerGame.getActiveGame(userId);
         return { success: true, data: result };
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   // =========================================================================
@@ -1504,15 +1758,15 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/trenball/play',
-    { preHandler: [authenticate] },
-    async (
+    { preHandler: [playerAuth, geoGuard] },
+    asPlayer(async (
       request: FastifyRequest<{
         Body: { amount?: number; betAmount?: number; currency: string; team: string; autoCashout?: number };
       }>,
       reply: FastifyReply,
     ) => {
       try {
-        const userId = request.user!.id;
+        const userId = playerId(request);
         const amount = normalizeBetAmount(request.body);
         const { currency, team, autoCashout } = request.body;
 
@@ -1526,7 +1780,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
       } catch (err) {
         errorResponse(reply, err);
       }
-    },
+    }),
   );
 
   // =========================================================================
@@ -1538,7 +1792,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/autobet/start',
-    { preHandler: [authenticate] },
+    { preHandler: [authenticate, geoGuard] },
     async (
       request: FastifyRequest<{
         Body: {
@@ -1548,12 +1802,14 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
           numberOfBets: number;
           stopOnProfit?: number;
           stopOnLoss?: number;
+          stopOnWinMultiplier?: number;
           onWinAction: 'reset' | 'increase';
           onWinPercent?: number;
           onLossAction: 'reset' | 'increase' | 'martingale';
           onLossPercent?: number;
           delayMs?: number;
           gameOptions?: Record<string, unknown>;
+          streakRules?: StreakRule[];
         };
       }>,
       reply: FastifyReply,
@@ -1567,12 +1823,14 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
           numberOfBets,
           stopOnProfit,
           stopOnLoss,
+          stopOnWinMultiplier,
           onWinAction,
           onWinPercent,
           onLossAction,
           onLossPercent,
           delayMs,
           gameOptions,
+          streakRules,
         } = request.body;
 
         const result = await autoBetService.start(userId, gameSlug, {
@@ -1581,12 +1839,14 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
           numberOfBets,
           stopOnProfit,
           stopOnLoss,
+          stopOnWinMultiplier,
           onWinAction: onWinAction ?? 'reset',
           onWinPercent,
           onLossAction: onLossAction ?? 'reset',
           onLossPercent,
           delayMs,
           gameOptions,
+          streakRules,
         });
 
         return { success: true, data: result };
@@ -1673,6 +1933,49 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
     }
   });
 
+  /**
+   * GET /api/v1/casino/jackpot/history - jackpot wins with verification data
+   */
+  app.get<{ Querystring: { page?: string; limit?: string; tier?: string } }>(
+    '/api/v1/casino/jackpot/history',
+    async (
+      request: FastifyRequest<{ Querystring: { page?: string; limit?: string; tier?: string } }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        const page = Math.max(1, parseInt(request.query.page ?? '1', 10));
+        const limit = Math.min(100, Math.max(1, parseInt(request.query.limit ?? '20', 10)));
+        const tier = parseJackpotTier(request.query.tier);
+        const history = await jackpotService.getDrawHistory({ winsOnly: true, tier, page, limit });
+        return reply.status(200).send({ success: true, data: history });
+      } catch (err) {
+        return errorResponse(reply, err);
+      }
+    },
+  );
+
+  /**
+   * GET /api/v1/casino/jackpot/draws - the user's own jackpot draws, won or not
+   */
+  app.get<{ Querystring: { page?: string; limit?: string; tier?: string } }>(
+    '/api/v1/casino/jackpot/draws',
+    { preHandler: [authenticate] },
+    async (
+      request: FastifyRequest<{ Querystring: { page?: string; limit?: string; tier?: string } }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        const page = Math.max(1, parseInt(request.query.page ?? '1', 10));
+        const limit = Math.min(100, Math.max(1, parseInt(request.query.limit ?? '20', 10)));
+        const tier = parseJackpotTier(request.query.tier);
+        const history = await jackpotService.getDrawHistory({ userId: request.user!.id, tier, page, limit });
+        return reply.status(200).send({ success: true, data: history });
+      } catch (err) {
+        return errorResponse(reply, err);
+      }
+    },
+  );
+
   // =========================================================================
   // LIVE FEED (enhanced)
   // =========================================================================
@@ -1856,7 +2159,7 @@ export default async function casinoRoutes(app: FastifyInstance): Promise<void>
    */
   app.post(
     '/api/v1/casino/tournaments/:id/join',
-    { preHandler: [authenticate] },
+    { preHandler: [authenticate, geoGuard] },
     async (
       request: FastifyRequest<{ Params: { id: string } }>,
       reply: FastifyReply,
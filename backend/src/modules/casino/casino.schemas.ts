@@ -100,6 +100,7 @@ export const verifyFairnessSchema = z.object({
     .int()
     .min(0, 'Nonce must be non-negative'),
   gameType: z.string().min(1, 'Game type is required'),
+  options: z.record(z.unknown()).optional(),
 });
 
 export type VerifyFairnessInput = z.infer<typeof verifyFairnessSchema>;
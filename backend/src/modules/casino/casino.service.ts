@@ -4,7 +4,7 @@ import { prisma } from '../../lib/prisma.js';
 import { redis } from '../../lib/redis.js';
 import { ProvablyFairService } from '../../services/casino/ProvablyFairService.js';
 import { gameRegistry } from '../../services/casino/GameRegistry.js';
-import { GameError } from '../../services/casino/BaseGame.js';
+import { GameError, type ReplayOptions } from '../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -552,17 +552,29 @@ export async function getSeedHistory(
 // ---------------------------------------------------------------------------
 
 /**
- * Verify a past game result using the revealed server seed.
+ * Verify a past game result using the revealed server seed. With `options`
+ * (the round's recorded result plus betAmount) the game replays the full
+ * outcome instead of just the raw random values.
  */
 export function verifyFairness(
   serverSeed: string,
   clientSeed: string,
   nonce: number,
   gameType: string,
+  options?: ReplayOptions,
 ): VerifyResult {
-  const result = fairService.verify(serverSeed, clientSeed, nonce, gameType);
   const expectedHash = fairService.hashServerSeed(serverSeed);
 
+  if (options) {
+    return {
+      hash: expectedHash,
+      result: gameRegistry.replay(gameType, serverSeed, clientSeed, nonce, options),
+      valid: true,
+    };
+  }
+
+  const result = fairService.verify(serverSeed, clientSeed, nonce, gameType);
+
   return {
     hash: expectedHash,
     result: result.result,
@@ -0,0 +1,281 @@
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { redis } from '../../lib/redis.js';
+import { GameError, type UserSeeds } from '../../services/casino/BaseGame.js';
+import { ProvablyFairService } from '../../services/casino/ProvablyFairService.js';
+
+// ---------------------------------------------------------------------------
+// Demo (play-money) mode
+// ---------------------------------------------------------------------------
+// Demo requests run the normal game code for a demo player inside
+// `runAsDemo()`. While a demo player is active, the BaseGame balance, seed and
+// round helpers use the player's Redis state instead of the database:
+//   - a virtual balance per currency that starts at DEMO_START_BALANCE and can
+//     be refilled at any time
+//   - its own provably fair seed pair
+//   - a short round history, kept apart from CasinoRound so demo play never
+//     reaches real history, reports, jackpots, tournaments or the live feed
+// The demo player's id is also the `userId` passed to the game, so stateful
+// games keep demo sessions apart from real ones. Logged-in users get one
+// demo player per account; visitors get one per X-Demo-Session token.
+// Crash is not available in demo mode: its rounds are shared with real bets.
+// ---------------------------------------------------------------------------
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** Set on demo-mode requests to casino game endpoints. */
+    demoPlayer?: DemoPlayer;
+  }
+}
+
+export interface DemoPlayer {
+  /** Player id passed to the games (never a real user id) */
+  id: string;
+  /** Account behind the demo player, null for visitors */
+  userId: string | null;
+}
+
+export interface DemoRound {
+  roundId: string;
+  game: string;
+  currency: string;
+  betAmount: number;
+  payout: number;
+  multiplier: number;
+  isWin: boolean;
+  result: any;
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  createdAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** Virtual balance every currency starts with (and is refilled to) */
+export const DEMO_START_BALANCE = 1000;
+
+/** Demo state expires after this long without play */
+const DEMO_TTL_SEC = 7 * 24 * 60 * 60; // 7 days
+
+/** Rounds kept in a demo player's history */
+const DEMO_HISTORY_SIZE = 100;
+
+/** Header carrying a visitor's demo session token (issued on first use) */
+export const DEMO_SESSION_HEADER = 'x-demo-session';
+
+const DEMO_TOKEN_PATTERN = /^[a-f0-9]{32}$/;
+
+const fairService = new ProvablyFairService();
+
+const demoContext = new AsyncLocalStorage<DemoPlayer>();
+
+// ---------------------------------------------------------------------------
+// Context
+// ---------------------------------------------------------------------------
+
+/**
+ * Run `fn` with `player` as the active demo player.
+ */
+export function runAsDemo<T>(player: DemoPlayer, fn: () => Promise<T>): Promise<T> {
+  return demoContext.run(player, fn);
+}
+
+/**
+ * Whether the current call chain is demo play.
+ */
+export function isDemoPlay(): boolean {
+  return demoContext.getStore() !== undefined;
+}
+
+/**
+ * Whether a request asks for demo mode (`?demo=true`, `X-Demo-Mode: true`
+ * or `"demo": true` in the body).
+ */
+export function isDemoRequest(request: FastifyRequest): boolean {
+  const query = request.query as Record<string, unknown> | undefined;
+  const body = request.body as Record<string, unknown> | undefined;
+  const header = request.headers['x-demo-mode'];
+  return (
+    query?.demo === 'true' ||
+    query?.demo === '1' ||
+    header === 'true' ||
+    header === '1' ||
+    (typeof body === 'object' && body !== null && body.demo === true)
+  );
+}
+
+/**
+ * Demo player for a request: the account's when logged in, otherwise the
+ * visitor's X-Demo-Session token (a new one is issued in the response header
+ * when missing or malformed).
+ */
+export function resolveDemoPlayer(request: FastifyRequest, reply: FastifyReply): DemoPlayer {
+  if (request.user) {
+    return { id: `demo:u:${request.user.id}`, userId: request.user.id };
+  }
+
+  let token = request.headers[DEMO_SESSION_HEADER];
+  if (typeof token !== 'string' || !DEMO_TOKEN_PATTERN.test(token)) {
+    token = crypto.randomBytes(16).toString('hex');
+  }
+  void reply.header(DEMO_SESSION_HEADER, token);
+
+  return { id: `demo:v:${token}`, userId: null };
+}
+
+// ---------------------------------------------------------------------------
+// Balance
+// ---------------------------------------------------------------------------
+
+function balanceKey(playerId: string): string {
+  return `casino:${playerId}:balance`;
+}
+
+// Adds ARGV[2] (may be negative) to the currency's balance, starting from
+// ARGV[3] when unset. Returns the new balance, or false if it would go negative.
+const ADJUST_BALANCE_SCRIPT = `
+local current = tonumber(redis.call('HGET', KEYS[1], ARGV[1]) or ARGV[3])
+local next = current + tonumber(ARGV[2])
+if next < 0 then return false end
+local value = string.format('%.8f', next)
+redis.call('HSET', KEYS[1], ARGV[1], value)
+redis.call('EXPIRE', KEYS[1], ARGV[4])
+return value
+`;
+
+async function adjustBalance(playerId: string, currency: string, delta: number): Promise<number | null> {
+  const result = await redis.eval(
+    ADJUST_BALANCE_SCRIPT,
+    1,
+    balanceKey(playerId),
+    currency.toUpperCase(),
+    delta.toFixed(8),
+    DEMO_START_BALANCE.toString(),
+    DEMO_TTL_SEC.toString(),
+  );
+  return result === null ? null : parseFloat(result as string);
+}
+
+/**
+ * Virtual balance of a demo player in `currency`.
+ */
+export async function getDemoBalance(playerId: string, currency: string): Promise<number> {
+  const raw = await redis.hget(balanceKey(playerId), currency.toUpperCase());
+  return raw === null ? DEMO_START_BALANCE : parseFloat(raw);
+}
+
+/**
+ * Virtual balances a demo player has played with.
+ */
+export async function getDemoBalances(playerId: string): Promise<Array<{ currency: string; balance: number }>> {
+  const all = await redis.hgetall(balanceKey(playerId));
+  return Object.entries(all).map(([currency, balance]) => ({ currency, balance: parseFloat(balance) }));
+}
+
+export async function deductDemoBalance(playerId: string, amount: number, currency: string): Promise<number> {
+  const balance = await adjustBalance(playerId, currency, -amount);
+  if (balance === null) {
+    throw new GameError('INSUFFICIENT_BALANCE', 'Insufficient demo balance. Refill it to keep playing.');
+  }
+  return balance;
+}
+
+export async function creditDemoBalance(playerId: string, amount: number, currency: string): Promise<number> {
+  return (await adjustBalance(playerId, currency, amount))!;
+}
+
+/**
+ * Reset a demo balance to DEMO_START_BALANCE.
+ */
+export async function refillDemoBalance(playerId: string, currency: string): Promise<number> {
+  const key = balanceKey(playerId);
+  await redis.hset(key, currency.toUpperCase(), DEMO_START_BALANCE.toFixed(8));
+  await redis.expire(key, DEMO_TTL_SEC);
+  return DEMO_START_BALANCE;
+}
+
+// ---------------------------------------------------------------------------
+// Provably fair seeds
+// ---------------------------------------------------------------------------
+
+function seedKey(playerId: string): string {
+  return `casino:${playerId}:seed`;
+}
+
+/**
+ * The demo player's seed pair, created on first use.
+ */
+export async function getDemoSeeds(playerId: string): Promise<UserSeeds> {
+  const key = seedKey(playerId);
+  let seed = await redis.hgetall(key);
+
+  if (!seed.serverSeed) {
+    const { seed: serverSeed, hash } = fairService.generateServerSeed();
+    const fresh = { serverSeed, serverSeedHash: hash, clientSeed: crypto.randomBytes(16).toString('hex'), nonce: '0' };
+    // Another request may have created the pair first; keep whichever exists
+    await redis.hsetnx(key, 'serverSeed', fresh.serverSeed);
+    seed = await redis.hgetall(key);
+    if (seed.serverSeed === fresh.serverSeed) {
+      await redis.hset(key, { serverSeedHash: fresh.serverSeedHash, clientSeed: fresh.clientSeed, nonce: fresh.nonce });
+      seed = { ...seed, ...fresh };
+    }
+  }
+  await redis.expire(key, DEMO_TTL_SEC);
+
+  return {
+    serverSeed: seed.serverSeed,
+    serverSeedHash: seed.serverSeedHash,
+    clientSeed: seed.clientSeed,
+    nonce: parseInt(seed.nonce ?? '0', 10),
+    seedId: key,
+  };
+}
+
+export async function incrementDemoNonce(playerId: string): Promise<void> {
+  await redis.hincrby(seedKey(playerId), 'nonce', 1);
+}
+
+// ---------------------------------------------------------------------------
+// Rounds
+// ---------------------------------------------------------------------------
+
+function roundsKey(playerId: string): string {
+  return `casino:${playerId}:rounds`;
+}
+
+/**
+ * Store a demo round in the player's history. Returns its round id.
+ */
+export async function recordDemoRound(
+  playerId: string,
+  data: Omit<DemoRound, 'roundId' | 'isWin' | 'createdAt'>,
+): Promise<string> {
+  const round: DemoRound = {
+    ...data,
+    roundId: `demo_${crypto.randomUUID()}`,
+    isWin: data.payout > data.betAmount,
+    createdAt: new Date().toISOString(),
+  };
+
+  const key = roundsKey(playerId);
+  await redis
+    .multi()
+    .lpush(key, JSON.stringify(round))
+    .ltrim(key, 0, DEMO_HISTORY_SIZE - 1)
+    .expire(key, DEMO_TTL_SEC)
+    .exec();
+
+  return round.roundId;
+}
+
+/**
+ * A demo player's most recent rounds, newest first.
+ */
+export async function getDemoHistory(playerId: string, limit = 20): Promise<DemoRound[]> {
+  const raw = await redis.lrange(roundsKey(playerId), 0, Math.min(limit, DEMO_HISTORY_SIZE) - 1);
+  return raw.map((entry) => JSON.parse(entry) as DemoRound);
+}
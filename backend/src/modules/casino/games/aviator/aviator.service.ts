@@ -1,4 +1,4 @@
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Aviator Game (Single-Player Instant Plane Crash)
@@ -56,19 +56,12 @@ export class AviatorGame extends BaseGame {
     // --- Get provably fair seeds ---
     const seeds = await this.getUserSeeds(userId);
 
-    // --- Generate crash point using the same algorithm as the Crash game ---
-    const crashPoint = this.fairService.generateCrashPoint(
-      seeds.serverSeed,
-      seeds.clientSeed,
-      seeds.nonce,
-    );
-
     // --- Determine outcome ---
-    const isWin = crashPoint >= targetMultiplier;
-    const multiplier = isWin ? targetMultiplier : 0;
-    const payout = isWin
-      ? Math.floor(bet.amount * targetMultiplier * 100000000) / 100000000
-      : 0;
+    const outcome = this.replay(seeds.serverSeed, seeds.clientSeed, seeds.nonce, {
+      targetMultiplier,
+      betAmount: bet.amount,
+    });
+    const { isWin, multiplier, payout } = outcome;
 
     // --- Deduct balance ---
     await this.deductBalance(userId, bet.amount, bet.currency);
@@ -85,16 +78,11 @@ export class AviatorGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: bet.currency,
       betAmount: bet.amount,
       payout,
       multiplier,
-      result: {
-        targetMultiplier,
-        crashPoint,
-        isWin,
-        payout,
-        multiplier,
-      },
+      result: outcome,
       serverSeedHash: seeds.serverSeedHash,
       clientSeed: seeds.clientSeed,
       nonce: seeds.nonce,
@@ -110,13 +98,7 @@ export class AviatorGame extends BaseGame {
       payout,
       profit: payout - bet.amount,
       multiplier,
-      result: {
-        targetMultiplier,
-        crashPoint,
-        isWin,
-        payout,
-        multiplier,
-      },
+      result: outcome,
       fairness: {
         serverSeedHash: seeds.serverSeedHash,
         clientSeed: seeds.clientSeed,
@@ -125,6 +107,27 @@ export class AviatorGame extends BaseGame {
       newBalance,
     };
   }
+
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const targetMultiplier = options.targetMultiplier as number;
+
+    // Same algorithm as the Crash game
+    const crashPoint = this.fairService.generateCrashPoint(serverSeed, clientSeed, nonce);
+
+    const isWin = crashPoint >= targetMultiplier;
+    const multiplier = isWin ? targetMultiplier : 0;
+    const payout = isWin
+      ? Math.floor(options.betAmount * targetMultiplier * 100000000) / 100000000
+      : 0;
+
+    return {
+      targetMultiplier,
+      crashPoint,
+      isWin,
+      payout,
+      multiplier,
+    };
+  }
 }
 
 export const aviatorGame = new AviatorGame();
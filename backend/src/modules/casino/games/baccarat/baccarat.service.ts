@@ -1,4 +1,4 @@
-import { BaseGame, GameError, type GameResult, type BetRequest } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameError, type GameResult, type BetRequest, type ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Card helpers
@@ -78,6 +78,63 @@ export class BaccaratGame extends BaseGame {
     const seeds = await this.getUserSeeds(userId);
     const { serverSeed, serverSeedHash, clientSeed, nonce } = seeds;
 
+    const resultData = this.replay(serverSeed, clientSeed, nonce, { betOn, betAmount: amount });
+    const { winner } = resultData;
+
+    // Calculate payout
+    const payoutMultiplier = BaccaratGame.PAYOUTS[betOn][winner];
+    const payout = amount * payoutMultiplier;
+    const profit = payout - amount;
+
+    // Deduct balance
+    await this.deductBalance(userId, amount, currency);
+
+    // Credit winnings (or return stake on push)
+    if (payout > 0) {
+      await this.creditWinnings(userId, payout, currency);
+    }
+
+    const multiplier = payoutMultiplier > 0 ? payoutMultiplier : 0;
+
+    const roundId = await this.recordRound({
+      userId,
+      gameSlug: this.slug,
+      currency,
+      betAmount: amount,
+      payout,
+      multiplier,
+      result: resultData,
+      serverSeedHash,
+      clientSeed,
+      nonce,
+    });
+
+    // Increment nonce
+    await this.incrementNonce(userId);
+
+    // Fetch updated balance to include in response
+    const newBalance = await this.getBalance(userId, currency);
+
+    return {
+      roundId,
+      game: this.slug,
+      betAmount: amount,
+      payout,
+      profit,
+      multiplier,
+      result: resultData,
+      fairness: {
+        serverSeedHash,
+        clientSeed,
+        nonce,
+      },
+      newBalance,
+    };
+  }
+
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const betOn = options.betOn as 'player' | 'banker' | 'tie';
+
     // Shuffle an 8-deck shoe using provably fair
     // For efficiency, we only need at most 6 cards, so we generate
     // 6 random values and use them to select from a virtual shoe
@@ -124,21 +181,7 @@ export class BaccaratGame extends BaseGame {
       winner = 'tie';
     }
 
-    // Calculate payout
-    const payoutMultiplier = BaccaratGame.PAYOUTS[betOn][winner];
-    const payout = amount * payoutMultiplier;
-    const profit = payout - amount;
-
-    // Deduct balance
-    await this.deductBalance(userId, amount, currency);
-
-    // Credit winnings (or return stake on push)
-    if (payout > 0) {
-      await this.creditWinnings(userId, payout, currency);
-    }
-
-    // Record round
-    const resultData = {
+    return {
       betOn,
       winner,
       playerCards: playerCards.map((c) => ({ rank: c.rank, suit: c.suit, value: c.value })),
@@ -154,42 +197,6 @@ export class BaccaratGame extends BaseGame {
         ? { rank: bankerThirdCard.rank, suit: bankerThirdCard.suit, value: bankerThirdCard.value }
         : null,
     };
-
-    const multiplier = payoutMultiplier > 0 ? payoutMultiplier : 0;
-
-    const roundId = await this.recordRound({
-      userId,
-      gameSlug: this.slug,
-      betAmount: amount,
-      payout,
-      multiplier,
-      result: resultData,
-      serverSeedHash,
-      clientSeed,
-      nonce,
-    });
-
-    // Increment nonce
-    await this.incrementNonce(userId);
-
-    // Fetch updated balance to include in response
-    const newBalance = await this.getBalance(userId, currency);
-
-    return {
-      roundId,
-      game: this.slug,
-      betAmount: amount,
-      payout,
-      profit,
-      multiplier,
-      result: resultData,
-      fairness: {
-        serverSeedHash,
-        clientSeed,
-        nonce,
-      },
-      newBalance,
-    };
   }
 
   // -------------------------------------------------------------------------
@@ -1,4 +1,4 @@
-import { BaseGame, GameError, type GameResult, type BetRequest } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameError, type GameResult, type BetRequest, type ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Bingo constants
@@ -72,6 +72,62 @@ export class BingoGame extends BaseGame {
     const seeds = await this.getUserSeeds(userId);
     const { serverSeed, serverSeedHash, clientSeed, nonce } = seeds;
 
+    const resultData = this.replay(serverSeed, clientSeed, nonce, {
+      cardCount,
+      betPerCard: amount,
+      betAmount: totalBet,
+    });
+    const { totalMultiplier, payout } = resultData;
+    const profit = payout - totalBet;
+
+    // Deduct total balance
+    await this.deductBalance(userId, totalBet, currency);
+
+    // Credit winnings if any
+    if (payout > 0) {
+      await this.creditWinnings(userId, payout, currency);
+    }
+
+    const roundId = await this.recordRound({
+      userId,
+      gameSlug: this.slug,
+      currency,
+      betAmount: totalBet,
+      payout,
+      multiplier: totalMultiplier,
+      result: resultData,
+      serverSeedHash,
+      clientSeed,
+      nonce,
+    });
+
+    // Increment nonce
+    await this.incrementNonce(userId);
+
+    // Fetch updated balance
+    const newBalance = await this.getBalance(userId, currency);
+
+    return {
+      roundId,
+      game: this.slug,
+      betAmount: totalBet,
+      payout,
+      profit,
+      multiplier: totalMultiplier,
+      result: resultData,
+      fairness: {
+        serverSeedHash,
+        clientSeed,
+        nonce,
+      },
+      newBalance,
+    };
+  }
+
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const cardCount = options.cardCount as number;
+    const betPerCard = (options.betPerCard as number | undefined) ?? options.betAmount / cardCount;
+
     // We need enough random values for:
     //   - card generation: 5 numbers per column * 5 columns * cardCount (each pick from shrinking pool)
     //   - draw: 30 numbers from 75
@@ -150,16 +206,7 @@ export class BingoGame extends BaseGame {
       }
     }
 
-    const payout = amount * totalMultiplier; // payout per card * multiplier
-    const profit = payout - totalBet;
-
-    // Deduct total balance
-    await this.deductBalance(userId, totalBet, currency);
-
-    // Credit winnings if any
-    if (payout > 0) {
-      await this.creditWinnings(userId, payout, currency);
-    }
+    const payout = betPerCard * totalMultiplier; // payout per card * multiplier
 
     // Prepare cards in row-major format for the result (5 rows x 5 cols)
     const cardsRowMajor = cards.map((card) => {
@@ -174,7 +221,7 @@ export class BingoGame extends BaseGame {
       return rows;
     });
 
-    const resultData = {
+    return {
       cards: cardsRowMajor,
       drawnNumbers,
       wins: allWins.map((w) => ({
@@ -186,40 +233,7 @@ export class BingoGame extends BaseGame {
       totalMultiplier,
       payout,
       cardCount,
-    };
-
-    const roundId = await this.recordRound({
-      userId,
-      gameSlug: this.slug,
-      betAmount: totalBet,
-      payout,
-      multiplier: totalMultiplier,
-      result: resultData,
-      serverSeedHash,
-      clientSeed,
-      nonce,
-    });
-
-    // Increment nonce
-    await this.incrementNonce(userId);
-
-    // Fetch updated balance
-    const newBalance = await this.getBalance(userId, currency);
-
-    return {
-      roundId,
-      game: this.slug,
-      betAmount: totalBet,
-      payout,
-      profit,
-      multiplier: totalMultiplier,
-      result: resultData,
-      fairness: {
-        serverSeedHash,
-        clientSeed,
-        nonce,
-      },
-      newBalance,
+      betPerCard,
     };
   }
 
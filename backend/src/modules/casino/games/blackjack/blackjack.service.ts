@@ -1,5 +1,5 @@
 import { redis } from '../../../../lib/redis.js';
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Blackjack Game
@@ -30,6 +30,14 @@ interface Hand {
   payout: number;
 }
 
+type BlackjackAction = 'hit' | 'stand' | 'double' | 'split';
+
+interface HandResolution {
+  isComplete: boolean;
+  totalPayout: number;
+  handResults?: Array<{ hand: { cards: Card[]; total: number }; payout: number; outcome: string }>;
+}
+
 interface BlackjackState {
   userId: string;
   currency: string;
@@ -39,6 +47,8 @@ interface BlackjackState {
   dealerHand: Hand;
   activeHandIndex: number;  // which hand the player is currently playing
   isComplete: boolean;
+  betPerHand: number;       // stake of the initial hand
+  actions: BlackjackAction[]; // player actions, in order
   serverSeedHash: string;
   clientSeed: string;
   nonce: number;
@@ -61,6 +71,36 @@ export class BlackjackGame extends BaseGame {
     throw new GameError('NOT_SUPPORTED', 'Use deal/hit/stand/double/split for Blackjack.');
   }
 
+  /**
+   * Replay a finished hand: deal from the seeded deck and apply the player's
+   * recorded actions with the same rules as live play.
+   */
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions): Record<string, any> {
+    const state: BlackjackState = {
+      userId: '',
+      currency: '',
+      deck: this.fairService.generateShuffledDeck(serverSeed, clientSeed, nonce),
+      deckPosition: 0,
+      playerHands: [],
+      dealerHand: this.newHand(0),
+      activeHandIndex: 0,
+      isComplete: false,
+      betPerHand: options.betPerHand ?? options.betAmount,
+      actions: [],
+      serverSeedHash: '',
+      clientSeed,
+      nonce,
+    };
+
+    this.dealInitialCards(state);
+    for (const action of (options.actions ?? []) as BlackjackAction[]) {
+      if (state.isComplete) break;
+      this.applyAction(state, action);
+    }
+
+    return this.buildResultSummary(state);
+  }
+
   // =======================================================================
   // Card helpers
   // =======================================================================
@@ -166,83 +206,23 @@ export class BlackjackGame extends BaseGame {
       deck,
       deckPosition: 0,
       playerHands: [],
-      dealerHand: {
-        cards: [],
-        bet: 0,
-        isStanding: false,
-        isDoubled: false,
-        isBusted: false,
-        isBlackjack: false,
-        payout: 0,
-      },
+      dealerHand: this.newHand(0),
       activeHandIndex: 0,
       isComplete: false,
+      betPerHand: bet.amount,
+      actions: [],
       serverSeedHash: seeds.serverSeedHash,
       clientSeed: seeds.clientSeed,
       nonce: seeds.nonce,
     };
 
-    // Deal 2 cards to player, 2 to dealer
-    const playerHand: Hand = {
-      cards: [],
-      bet: bet.amount,
-      isStanding: false,
-      isDoubled: false,
-      isBusted: false,
-      isBlackjack: false,
-      payout: 0,
-    };
-
-    playerHand.cards.push(this.drawCard(state));
-    state.dealerHand.cards.push(this.drawCard(state));
-    playerHand.cards.push(this.drawCard(state));
-    state.dealerHand.cards.push(this.drawCard(state));
-
-    state.playerHands.push(playerHand);
-
-    // Check for natural blackjack
+    const payout = this.dealInitialCards(state);
+    const playerHand = state.playerHands[0];
     const playerBJ = this.isBlackjack(playerHand.cards);
-    const dealerBJ = this.isBlackjack(state.dealerHand.cards);
 
-    let payout = 0;
-
-    if (playerBJ || dealerBJ) {
-      state.isComplete = true;
-
-      if (playerBJ && dealerBJ) {
-        // Push
-        payout = bet.amount;
-        playerHand.payout = payout;
-      } else if (playerBJ) {
-        // Player blackjack pays 3:2
-        payout = bet.amount + bet.amount * 1.5;
-        playerHand.payout = payout;
-        playerHand.isBlackjack = true;
-      } else {
-        // Dealer blackjack
-        payout = 0;
-        state.dealerHand.isBlackjack = true;
-      }
-
-      if (payout > 0) {
-        await this.creditWinnings(userId, payout, bet.currency);
-      }
-
-      await this.incrementNonce(userId);
-
-      await this.recordRound({
-        userId,
-        gameSlug: this.slug,
-        betAmount: bet.amount,
-        payout,
-        multiplier: payout / bet.amount,
-        result: this.buildResultSummary(state),
-        serverSeedHash: seeds.serverSeedHash,
-        clientSeed: seeds.clientSeed,
-        nonce: seeds.nonce,
-      });
+    if (state.isComplete) {
+      await this.finishRound(state, userId, payout);
 
-      // Game already complete — no need to save session
       return {
         playerHands: [
           {
@@ -297,54 +277,24 @@ export class BlackjackGame extends BaseGame {
     const state = await this.requireActiveGame(userId);
     const hand = state.playerHands[state.activeHandIndex];
 
-    if (hand.isStanding || hand.isBusted) {
-      throw new GameError('HAND_COMPLETE', 'This hand is already complete.');
-    }
-
-    const card = this.drawCard(state);
-    hand.cards.push(card);
-
+    const { card, resolved } = this.applyAction(state, 'hit');
     const handValue = this.calculateHandValue(hand.cards);
 
-    let result: any = {
+    const result: any = {
       card,
       hand: { cards: hand.cards, total: handValue.total, soft: handValue.soft },
-      isBusted: false,
-      isComplete: false,
-      payout: 0,
+      isBusted: hand.isBusted,
+      isComplete: resolved.isComplete,
+      payout: resolved.totalPayout,
     };
 
-    if (handValue.total > 21) {
-      hand.isBusted = true;
-      hand.payout = 0;
-      result.isBusted = true;
-
-      // Move to next hand or complete
-      const resolved = await this.advanceOrComplete(state, userId);
-      result.isComplete = resolved.isComplete;
-      result.payout = resolved.totalPayout;
-      if (resolved.isComplete) {
-        result.dealerHand = {
-          cards: state.dealerHand.cards,
-          total: this.calculateHandValue(state.dealerHand.cards).total,
-        };
-      }
-    } else if (handValue.total === 21) {
-      // Auto-stand on 21
-      hand.isStanding = true;
-      const resolved = await this.advanceOrComplete(state, userId);
-      result.isComplete = resolved.isComplete;
-      result.payout = resolved.totalPayout;
-      if (resolved.isComplete) {
-        result.dealerHand = {
-          cards: state.dealerHand.cards,
-          total: this.calculateHandValue(state.dealerHand.cards).total,
-        };
-      }
-    }
-
-    // Only save session if game is still in progress
-    if (!result.isComplete) {
+    if (resolved.isComplete) {
+      await this.finishRound(state, userId, resolved.totalPayout);
+      result.dealerHand = {
+        cards: state.dealerHand.cards,
+        total: this.calculateHandValue(state.dealerHand.cards).total,
+      };
+    } else {
       await this.saveSession(userId, state);
     }
     return result;
@@ -360,19 +310,8 @@ export class BlackjackGame extends BaseGame {
     results?: Array<{ hand: { cards: Card[]; total: number }; payout: number; outcome: string }>;
   }> {
     const state = await this.requireActiveGame(userId);
-    const hand = state.playerHands[state.activeHandIndex];
 
-    if (hand.isStanding || hand.isBusted) {
-      throw new GameError('HAND_COMPLETE', 'This hand is already complete.');
-    }
-
-    hand.isStanding = true;
-
-    const resolved = await this.advanceOrComplete(state, userId);
-    // Only save session if game is still in progress
-    if (!resolved.isComplete) {
-      await this.saveSession(userId, state);
-    }
+    const { resolved } = this.applyAction(state, 'stand');
 
     const result: any = {
       isComplete: resolved.isComplete,
@@ -380,11 +319,14 @@ export class BlackjackGame extends BaseGame {
     };
 
     if (resolved.isComplete) {
+      await this.finishRound(state, userId, resolved.totalPayout);
       result.dealerHand = {
         cards: state.dealerHand.cards,
         total: this.calculateHandValue(state.dealerHand.cards).total,
       };
       result.results = resolved.handResults;
+    } else {
+      await this.saveSession(userId, state);
     }
 
     return result;
@@ -403,39 +345,16 @@ export class BlackjackGame extends BaseGame {
   }> {
     const state = await this.requireActiveGame(userId);
     const hand = state.playerHands[state.activeHandIndex];
+    const additionalBet = hand.bet;
 
-    if (hand.cards.length !== 2) {
-      throw new GameError('CANNOT_DOUBLE', 'Can only double on initial 2 cards.');
-    }
-    if (hand.isStanding || hand.isBusted) {
-      throw new GameError('HAND_COMPLETE', 'This hand is already complete.');
-    }
+    const { card, resolved } = this.applyAction(state, 'double');
 
     // Deduct additional bet
-    await this.validateBet(userId, hand.bet, state.currency);
-    await this.deductBalance(userId, hand.bet, state.currency);
-    hand.bet *= 2;
-    hand.isDoubled = true;
-
-    // Draw exactly one card
-    const card = this.drawCard(state);
-    hand.cards.push(card);
+    await this.validateBet(userId, additionalBet, state.currency);
+    await this.deductBalance(userId, additionalBet, state.currency);
 
     const handValue = this.calculateHandValue(hand.cards);
 
-    if (handValue.total > 21) {
-      hand.isBusted = true;
-      hand.payout = 0;
-    }
-
-    // Auto-stand after double
-    hand.isStanding = true;
-
-    const resolved = await this.advanceOrComplete(state, userId);
-    if (!resolved.isComplete) {
-      await this.saveSession(userId, state);
-    }
-
     const result: any = {
       card,
       hand: { cards: hand.cards, total: handValue.total, soft: handValue.soft },
@@ -445,10 +364,13 @@ export class BlackjackGame extends BaseGame {
     };
 
     if (resolved.isComplete) {
+      await this.finishRound(state, userId, resolved.totalPayout);
       result.dealerHand = {
         cards: state.dealerHand.cards,
         total: this.calculateHandValue(state.dealerHand.cards).total,
       };
+    } else {
+      await this.saveSession(userId, state);
     }
 
     return result;
@@ -462,45 +384,13 @@ export class BlackjackGame extends BaseGame {
     isComplete: boolean;
   }> {
     const state = await this.requireActiveGame(userId);
-    const hand = state.playerHands[state.activeHandIndex];
+    const additionalBet = state.playerHands[state.activeHandIndex].bet;
 
-    if (hand.cards.length !== 2) {
-      throw new GameError('CANNOT_SPLIT', 'Can only split on initial 2 cards.');
-    }
-
-    const rankA = hand.cards[0].rank;
-    const rankB = hand.cards[1].rank;
-
-    if (rankA !== rankB) {
-      throw new GameError('CANNOT_SPLIT', 'Can only split a pair.');
-    }
-
-    if (state.playerHands.length >= 4) {
-      throw new GameError('MAX_SPLITS', 'Maximum of 4 hands allowed.');
-    }
+    this.applyAction(state, 'split');
 
     // Deduct additional bet for the new hand
-    await this.validateBet(userId, hand.bet, state.currency);
-    await this.deductBalance(userId, hand.bet, state.currency);
-
-    // Create second hand
-    const secondCard = hand.cards.pop()!;
-    const newHand: Hand = {
-      cards: [secondCard],
-      bet: hand.bet,
-      isStanding: false,
-      isDoubled: false,
-      isBusted: false,
-      isBlackjack: false,
-      payout: 0,
-    };
-
-    // Deal one card to each hand
-    hand.cards.push(this.drawCard(state));
-    newHand.cards.push(this.drawCard(state));
-
-    // Insert new hand after the current one
-    state.playerHands.splice(state.activeHandIndex + 1, 0, newHand);
+    await this.validateBet(userId, additionalBet, state.currency);
+    await this.deductBalance(userId, additionalBet, state.currency);
 
     await this.saveSession(userId, state);
 
@@ -551,18 +441,160 @@ export class BlackjackGame extends BaseGame {
   // Internal
   // =======================================================================
 
+  private newHand(bet: number): Hand {
+    return {
+      cards: [],
+      bet,
+      isStanding: false,
+      isDoubled: false,
+      isBusted: false,
+      isBlackjack: false,
+      payout: 0,
+    };
+  }
+
+  /**
+   * Deal two cards each to player and dealer and settle naturals. Returns
+   * the payout if the round ended on a blackjack, otherwise 0.
+   */
+  private dealInitialCards(state: BlackjackState): number {
+    const playerHand = this.newHand(state.betPerHand);
+
+    playerHand.cards.push(this.drawCard(state));
+    state.dealerHand.cards.push(this.drawCard(state));
+    playerHand.cards.push(this.drawCard(state));
+    state.dealerHand.cards.push(this.drawCard(state));
+
+    state.playerHands.push(playerHand);
+
+    // Check for natural blackjack
+    const playerBJ = this.isBlackjack(playerHand.cards);
+    const dealerBJ = this.isBlackjack(state.dealerHand.cards);
+
+    if (!playerBJ && !dealerBJ) {
+      return 0;
+    }
+
+    state.isComplete = true;
+
+    if (playerBJ && dealerBJ) {
+      // Push
+      playerHand.payout = state.betPerHand;
+    } else if (playerBJ) {
+      // Player blackjack pays 3:2
+      playerHand.payout = state.betPerHand + state.betPerHand * 1.5;
+      playerHand.isBlackjack = true;
+    } else {
+      // Dealer blackjack
+      state.dealerHand.isBlackjack = true;
+    }
+
+    return playerHand.payout;
+  }
+
+  /**
+   * Apply a player action to the active hand. Only the state changes here;
+   * balance movements and persistence are left to the caller so that
+   * replay() runs exactly the same rules.
+   */
+  private applyAction(
+    state: BlackjackState,
+    action: BlackjackAction,
+  ): { card?: Card; resolved: HandResolution } {
+    const hand = state.playerHands[state.activeHandIndex];
+    const inProgress: HandResolution = { isComplete: false, totalPayout: 0 };
+
+    if (action !== 'split' && (hand.isStanding || hand.isBusted)) {
+      throw new GameError('HAND_COMPLETE', 'This hand is already complete.');
+    }
+
+    switch (action) {
+      case 'hit': {
+        const card = this.drawCard(state);
+        hand.cards.push(card);
+        state.actions.push(action);
+
+        const total = this.calculateHandValue(hand.cards).total;
+        if (total > 21) {
+          hand.isBusted = true;
+          hand.payout = 0;
+        } else if (total === 21) {
+          // Auto-stand on 21
+          hand.isStanding = true;
+        } else {
+          return { card, resolved: inProgress };
+        }
+
+        // Move to next hand or complete
+        return { card, resolved: this.advanceOrComplete(state) };
+      }
+
+      case 'stand': {
+        hand.isStanding = true;
+        state.actions.push(action);
+        return { resolved: this.advanceOrComplete(state) };
+      }
+
+      case 'double': {
+        if (hand.cards.length !== 2) {
+          throw new GameError('CANNOT_DOUBLE', 'Can only double on initial 2 cards.');
+        }
+
+        hand.bet *= 2;
+        hand.isDoubled = true;
+
+        // Draw exactly one card
+        const card = this.drawCard(state);
+        hand.cards.push(card);
+        state.actions.push(action);
+
+        if (this.calculateHandValue(hand.cards).total > 21) {
+          hand.isBusted = true;
+          hand.payout = 0;
+        }
+
+        // Auto-stand after double
+        hand.isStanding = true;
+
+        return { card, resolved: this.advanceOrComplete(state) };
+      }
+
+      case 'split': {
+        if (hand.cards.length !== 2) {
+          throw new GameError('CANNOT_SPLIT', 'Can only split on initial 2 cards.');
+        }
+        if (hand.cards[0].rank !== hand.cards[1].rank) {
+          throw new GameError('CANNOT_SPLIT', 'Can only split a pair.');
+        }
+        if (state.playerHands.length >= 4) {
+          throw new GameError('MAX_SPLITS', 'Maximum of 4 hands allowed.');
+        }
+
+        // Create second hand
+        const newHand = this.newHand(hand.bet);
+        newHand.cards.push(hand.cards.pop()!);
+
+        // Deal one card to each hand
+        hand.cards.push(this.drawCard(state));
+        newHand.cards.push(this.drawCard(state));
+
+        // Insert new hand after the current one
+        state.playerHands.splice(state.activeHandIndex + 1, 0, newHand);
+        state.actions.push(action);
+
+        return { resolved: inProgress };
+      }
+
+      default:
+        throw new GameError('INVALID_ACTION', `Unknown Blackjack action: ${action}`);
+    }
+  }
+
   /**
    * After a hand completes (bust or stand), advance to the next hand
    * or play out the dealer and settle all hands.
    */
-  private async advanceOrComplete(
-    state: BlackjackState,
-    userId: string,
-  ): Promise<{
-    isComplete: boolean;
-    totalPayout: number;
-    handResults?: Array<{ hand: { cards: Card[]; total: number }; payout: number; outcome: string }>;
-  }> {
+  private advanceOrComplete(state: BlackjackState): HandResolution {
     // Check if there are more hands to play
     const nextIdx = state.activeHandIndex + 1;
     if (nextIdx < state.playerHands.length) {
@@ -606,7 +638,6 @@ export class BlackjackGame extends BaseGame {
     const dealerBusted = state.dealerHand.isBusted;
 
     let totalPayout = 0;
-    let totalBet = 0;
     const handResults: Array<{
       hand: { cards: Card[]; total: number };
       payout: number;
@@ -614,7 +645,6 @@ export class BlackjackGame extends BaseGame {
     }> = [];
 
     for (const hand of state.playerHands) {
-      totalBet += hand.bet;
       const playerTotal = this.calculateHandValue(hand.cards).total;
       let outcome: string;
 
@@ -643,18 +673,29 @@ export class BlackjackGame extends BaseGame {
       });
     }
 
+    state.isComplete = true;
+
+    return { isComplete: true, totalPayout, handResults };
+  }
+
+  /**
+   * Credit and record a completed round, then clear the session.
+   */
+  private async finishRound(state: BlackjackState, userId: string, totalPayout: number): Promise<void> {
+    const totalBet = state.playerHands.reduce((sum, h) => sum + h.bet, 0);
+
     // Credit total payout
     if (totalPayout > 0) {
       await this.creditWinnings(userId, totalPayout, state.currency);
     }
 
-    state.isComplete = true;
     await this.incrementNonce(userId);
 
     // Record round
     await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: state.currency,
       betAmount: totalBet,
       payout: totalPayout,
       multiplier: totalBet > 0 ? totalPayout / totalBet : 0,
@@ -666,8 +707,6 @@ export class BlackjackGame extends BaseGame {
 
     // Clean up session so player can start a new hand
     await this.deleteSession(userId);
-
-    return { isComplete: true, totalPayout, handResults };
   }
 
   private buildResultSummary(state: BlackjackState): any {
@@ -681,6 +720,8 @@ export class BlackjackGame extends BaseGame {
         isBlackjack: h.isBlackjack,
         isDoubled: h.isDoubled,
       })),
+      betPerHand: state.betPerHand,
+      actions: state.actions,
       dealerHand: {
         cards: state.dealerHand.cards,
         total: this.calculateHandValue(state.dealerHand.cards).total,
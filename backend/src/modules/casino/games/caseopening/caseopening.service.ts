@@ -1,4 +1,4 @@
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Case Opening Game (CS:GO Style)
@@ -206,33 +206,10 @@ export class CaseOpeningGame extends BaseGame {
     // --- Get provably fair seeds ---
     const seeds = await this.getUserSeeds(userId);
 
-    // --- Generate provably fair result ---
-    const rawResult = this.fairService.generateResult(
-      seeds.serverSeed,
-      seeds.clientSeed,
-      seeds.nonce,
-    );
-
-    // --- Determine winning item ---
-    const totalWeight = caseDef.items.reduce((sum, item) => sum + item.weight, 0);
-    const roll = rawResult * totalWeight;
-
-    let cumulative = 0;
-    let winningIndex = 0;
-    let winningItem = caseDef.items[0];
-
-    for (let i = 0; i < caseDef.items.length; i++) {
-      cumulative += caseDef.items[i].weight;
-      if (roll < cumulative) {
-        winningIndex = i;
-        winningItem = caseDef.items[i];
-        break;
-      }
-    }
-
-    // --- Calculate payout ---
-    const payout = Math.floor(betAmount * winningItem.multiplier * 100000000) / 100000000;
-    const multiplier = winningItem.multiplier;
+    // --- Open the case ---
+    const outcome = this.replay(seeds.serverSeed, seeds.clientSeed, seeds.nonce, { caseType, betAmount });
+    const { payout } = outcome;
+    const multiplier = outcome.winningItem.multiplier;
 
     // --- Deduct balance ---
     await this.deductBalance(userId, betAmount, bet.currency);
@@ -245,36 +222,15 @@ export class CaseOpeningGame extends BaseGame {
     // --- Increment nonce ---
     await this.incrementNonce(userId);
 
-    // --- Build items list for the reel display (with rarity colors) ---
-    const itemsForDisplay = caseDef.items.map((item, idx) => ({
-      name: item.name,
-      rarity: item.rarity,
-      multiplier: item.multiplier,
-      value: Math.floor(betAmount * item.multiplier * 100) / 100,
-      color: RARITY_COLORS[item.rarity],
-      isWinner: idx === winningIndex,
-    }));
-
     // --- Record round ---
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: bet.currency,
       betAmount,
       payout,
       multiplier,
-      result: {
-        caseType,
-        winningItem: {
-          name: winningItem.name,
-          rarity: winningItem.rarity,
-          multiplier: winningItem.multiplier,
-          value: payout,
-          color: RARITY_COLORS[winningItem.rarity],
-        },
-        spinIndex: winningIndex,
-        items: itemsForDisplay,
-        payout,
-      },
+      result: outcome,
       serverSeedHash: seeds.serverSeedHash,
       clientSeed: seeds.clientSeed,
       nonce: seeds.nonce,
@@ -295,15 +251,9 @@ export class CaseOpeningGame extends BaseGame {
         casePrice: betAmount,
         caseLabel: caseDef.label,
         caseColor: caseDef.color,
-        items: itemsForDisplay,
-        winningItem: {
-          name: winningItem.name,
-          rarity: winningItem.rarity,
-          multiplier: winningItem.multiplier,
-          value: payout,
-          color: RARITY_COLORS[winningItem.rarity],
-        },
-        spinIndex: winningIndex,
+        items: outcome.items,
+        winningItem: outcome.winningItem,
+        spinIndex: outcome.spinIndex,
         payout,
       },
       fairness: {
@@ -314,6 +264,59 @@ export class CaseOpeningGame extends BaseGame {
       newBalance,
     };
   }
+
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const caseType = options.caseType as CaseType;
+    const caseDef = CASES[caseType];
+    const betAmount = caseDef.price;
+
+    // --- Generate provably fair result ---
+    const rawResult = this.fairService.generateResult(serverSeed, clientSeed, nonce);
+
+    // --- Determine winning item ---
+    const totalWeight = caseDef.items.reduce((sum, item) => sum + item.weight, 0);
+    const roll = rawResult * totalWeight;
+
+    let cumulative = 0;
+    let winningIndex = 0;
+    let winningItem = caseDef.items[0];
+
+    for (let i = 0; i < caseDef.items.length; i++) {
+      cumulative += caseDef.items[i].weight;
+      if (roll < cumulative) {
+        winningIndex = i;
+        winningItem = caseDef.items[i];
+        break;
+      }
+    }
+
+    // --- Calculate payout ---
+    const payout = Math.floor(betAmount * winningItem.multiplier * 100000000) / 100000000;
+
+    // --- Build items list for the reel display (with rarity colors) ---
+    const itemsForDisplay = caseDef.items.map((item, idx) => ({
+      name: item.name,
+      rarity: item.rarity,
+      multiplier: item.multiplier,
+      value: Math.floor(betAmount * item.multiplier * 100) / 100,
+      color: RARITY_COLORS[item.rarity],
+      isWinner: idx === winningIndex,
+    }));
+
+    return {
+      caseType,
+      winningItem: {
+        name: winningItem.name,
+        rarity: winningItem.rarity,
+        multiplier: winningItem.multiplier,
+        value: payout,
+        color: RARITY_COLORS[winningItem.rarity],
+      },
+      spinIndex: winningIndex,
+      items: itemsForDisplay,
+      payout,
+    };
+  }
 }
 
 export const caseOpeningGame = new CaseOpeningGame();
@@ -1,4 +1,4 @@
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Coinflip Game
@@ -39,15 +39,11 @@ export class CoinflipGame extends BaseGame {
     // Get user seeds
     const seeds = await this.getUserSeeds(userId);
 
-    // Generate provably fair result
-    const rawResult = this.fairService.generateResult(
-      seeds.serverSeed,
-      seeds.clientSeed,
-      seeds.nonce,
-    );
-
-    const coinResult: CoinChoice = rawResult < 0.5 ? 'heads' : 'tails';
-    const isWin = coinResult === choice;
+    const outcome = this.replay(seeds.serverSeed, seeds.clientSeed, seeds.nonce, {
+      choice,
+      betAmount: bet.amount,
+    });
+    const { coinResult, isWin } = outcome;
 
     // Deduct balance
     await this.deductBalance(userId, bet.amount, bet.currency);
@@ -70,15 +66,11 @@ export class CoinflipGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: bet.currency,
       betAmount: bet.amount,
       payout,
       multiplier,
-      result: {
-        choice,
-        coinResult,
-        rawValue: rawResult,
-        isWin,
-      },
+      result: outcome,
       serverSeedHash: seeds.serverSeedHash,
       clientSeed: seeds.clientSeed,
       nonce: seeds.nonce,
@@ -107,6 +99,23 @@ export class CoinflipGame extends BaseGame {
       newBalance,
     };
   }
+
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const choice = options.choice as CoinChoice;
+
+    // Generate provably fair result
+    const rawResult = this.fairService.generateResult(serverSeed, clientSeed, nonce);
+
+    const coinResult: CoinChoice = rawResult < 0.5 ? 'heads' : 'tails';
+    const isWin = coinResult === choice;
+
+    return {
+      choice,
+      coinResult,
+      rawValue: rawResult,
+      isWin,
+    };
+  }
 }
 
 export const coinflipGame = new CoinflipGame();
@@ -1,4 +1,4 @@
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Craps (Simplified Single-Roll Casino Craps)
@@ -104,58 +104,15 @@ export class CrapsGame extends BaseGame {
     // Get user seeds
     const seeds = await this.getUserSeeds(userId);
 
-    // Generate 2 dice results from provably fair service
-    const rawResults = this.fairService.generateMultipleResults(
-      seeds.serverSeed,
-      seeds.clientSeed,
-      seeds.nonce,
-      2,
-    );
-
-    const dice: [number, number] = [
-      Math.floor(rawResults[0] * 6) + 1,
-      Math.floor(rawResults[1] * 6) + 1,
-    ];
-    const total = dice[0] + dice[1];
-    const isHardway = dice[0] === dice[1];
-
-    // Determine the "phase" for display purposes
-    let phase: string;
-    if ([7, 11].includes(total)) {
-      phase = 'natural';
-    } else if ([2, 3, 12].includes(total)) {
-      phase = 'craps';
-    } else {
-      phase = 'point';
-    }
-
     // Deduct total stake
     await this.deductBalance(userId, totalStake, bet.currency);
 
-    // Evaluate each bet
-    let totalPayout = 0;
-    const betResults: Array<{
-      type: CrapsBetType;
-      amount: number;
-      isWin: boolean;
-      isPush: boolean;
-      payout: number;
-      multiplier: number;
-    }> = [];
-
-    for (const b of options.bets) {
-      const evaluation = this.evaluateBet(b, dice, total, isHardway);
-      totalPayout += evaluation.payout;
-
-      betResults.push({
-        type: b.type,
-        amount: b.amount,
-        isWin: evaluation.isWin,
-        isPush: evaluation.isPush,
-        payout: evaluation.payout,
-        multiplier: evaluation.multiplier,
-      });
-    }
+    const outcome = this.replay(seeds.serverSeed, seeds.clientSeed, seeds.nonce, {
+      bets: options.bets,
+      betAmount: totalStake,
+    });
+    const { total, phase } = outcome;
+    const totalPayout = outcome.bets.reduce((sum, b) => sum + b.payout, 0);
 
     // Credit winnings (includes pushes which return the bet)
     if (totalPayout > 0) {
@@ -171,16 +128,11 @@ export class CrapsGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: bet.currency,
       betAmount: totalStake,
       payout: totalPayout,
       multiplier: overallMultiplier,
-      result: {
-        dice,
-        total,
-        phase,
-        isHardway,
-        bets: betResults,
-      },
+      result: outcome,
       serverSeedHash: seeds.serverSeedHash,
       clientSeed: seeds.clientSeed,
       nonce: seeds.nonce,
@@ -197,12 +149,12 @@ export class CrapsGame extends BaseGame {
       profit: totalPayout - totalStake,
       multiplier: overallMultiplier,
       result: {
-        dice,
+        dice: outcome.dice,
         total,
         phase,
         point: phase === 'point' ? total : null,
-        isHardway,
-        bets: betResults,
+        isHardway: outcome.isHardway,
+        bets: outcome.bets,
         totalPayout,
       },
       fairness: {
@@ -214,6 +166,61 @@ export class CrapsGame extends BaseGame {
     };
   }
 
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const bets = options.bets as CrapsBet[];
+
+    // Generate 2 dice results from provably fair service
+    const rawResults = this.fairService.generateMultipleResults(serverSeed, clientSeed, nonce, 2);
+
+    const dice: [number, number] = [
+      Math.floor(rawResults[0] * 6) + 1,
+      Math.floor(rawResults[1] * 6) + 1,
+    ];
+    const total = dice[0] + dice[1];
+    const isHardway = dice[0] === dice[1];
+
+    // Determine the "phase" for display purposes
+    let phase: string;
+    if ([7, 11].includes(total)) {
+      phase = 'natural';
+    } else if ([2, 3, 12].includes(total)) {
+      phase = 'craps';
+    } else {
+      phase = 'point';
+    }
+
+    // Evaluate each bet
+    const betResults: Array<{
+      type: CrapsBetType;
+      amount: number;
+      isWin: boolean;
+      isPush: boolean;
+      payout: number;
+      multiplier: number;
+    }> = [];
+
+    for (const b of bets) {
+      const evaluation = this.evaluateBet(b, dice, total, isHardway);
+
+      betResults.push({
+        type: b.type,
+        amount: b.amount,
+        isWin: evaluation.isWin,
+        isPush: evaluation.isPush,
+        payout: evaluation.payout,
+        multiplier: evaluation.multiplier,
+      });
+    }
+
+    return {
+      dice,
+      total,
+      phase,
+      isHardway,
+      bets: betResults,
+    };
+  }
+
   // =======================================================================
   // Bet validation
   // =======================================================================
@@ -0,0 +1,292 @@
+// =============================================================================
+// Crash Seed Chain
+//
+// Crash rounds draw their server seeds from a pre-generated reverse hash chain:
+//
+//   seed[length] = random genesis seed
+//   seed[n]      = sha256(seed[n + 1])
+//   seed[0]      = sha256(seed[1]) = terminating hash (published up front)
+//
+// Round n of a chain plays seed[n], so its serverSeedHash is seed[n - 1] — the
+// previous round's seed. Once a round's seed is revealed anyone can hash it
+// back to the terminating hash, which proves the whole sequence was fixed
+// before the chain went live. The client seed is a public value that did not
+// exist yet when the terminating hash was published (e.g. the hash of a
+// future Bitcoin block), so the house could not pick a chain that favours it.
+//
+// Crash point of round n: generateCrashPoint(seed[n], clientSeed, n).
+// =============================================================================
+
+import crypto from 'crypto';
+import { prisma } from '../../../../lib/prisma.js';
+import { GameError } from '../../../../services/casino/BaseGame.js';
+import { ProvablyFairService } from '../../../../services/casino/ProvablyFairService.js';
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** Chains are at most this long (one hash per round, computed on creation) */
+export const MAX_CHAIN_LENGTH = 1_000_000;
+
+/** Seeds cached every CHECKPOINT_INTERVAL hashes from the genesis seed */
+const CHECKPOINT_INTERVAL = 10_000;
+
+/** Most rounds checked by a single verification request */
+export const MAX_VERIFY_RANGE = 1_000;
+
+const fairService = new ProvablyFairService();
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ChainSeed {
+  chainId: string;
+  chainIndex: number;
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeed: string;
+}
+
+export interface PublicSeedChain {
+  id: string;
+  terminatingHash: string;
+  length: number;
+  clientSeedSource: string;
+  clientSeed: string | null;
+  status: string;
+  roundsPlayed: number;
+  activatedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface RoundVerification {
+  roundId: string;
+  chainIndex: number;
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  crashPoint: number;
+  expectedCrashPoint: number;
+  /** sha256(serverSeed) equals the hash shown before the round */
+  hashValid: boolean;
+  /** serverSeed hashes back to the previous revealed seed (or terminating hash) */
+  chainValid: boolean;
+  /** The round used the chain's client seed */
+  clientSeedValid: boolean;
+  /** The crash point follows from the seeds */
+  crashPointValid: boolean;
+  valid: boolean;
+}
+
+const PUBLIC_CHAIN_SELECT = {
+  id: true,
+  terminatingHash: true,
+  length: true,
+  clientSeedSource: true,
+  clientSeed: true,
+  status: true,
+  roundsPlayed: true,
+  activatedAt: true,
+  createdAt: true,
+} as const;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function hashTimes(seed: string, times: number): string {
+  let hash = seed;
+  for (let i = 0; i < times; i++) {
+    hash = fairService.hashServerSeed(hash);
+  }
+  return hash;
+}
+
+/** Checkpoints per chain: checkpoints[i] = seed hashed i * CHECKPOINT_INTERVAL times from genesis */
+const checkpointCache = new Map<string, string[]>();
+
+function getCheckpoints(chainId: string, genesisSeed: string, length: number): string[] {
+  let checkpoints = checkpointCache.get(chainId);
+  if (!checkpoints) {
+    checkpoints = [genesisSeed];
+    for (let p = CHECKPOINT_INTERVAL; p <= length; p += CHECKPOINT_INTERVAL) {
+      checkpoints.push(hashTimes(checkpoints[checkpoints.length - 1], CHECKPOINT_INTERVAL));
+    }
+    checkpointCache.set(chainId, checkpoints);
+  }
+  return checkpoints;
+}
+
+/** seed[index] of a chain, i.e. the genesis seed hashed (length - index) times */
+function seedAt(chainId: string, genesisSeed: string, length: number, index: number): string {
+  const distance = length - index;
+  const checkpoints = getCheckpoints(chainId, genesisSeed, length);
+  const checkpoint = Math.floor(distance / CHECKPOINT_INTERVAL);
+  return hashTimes(checkpoints[checkpoint], distance - checkpoint * CHECKPOINT_INTERVAL);
+}
+
+// ---------------------------------------------------------------------------
+// Chain management
+// ---------------------------------------------------------------------------
+
+/**
+ * Generate a new chain. It stays PENDING until its client seed is set, so the
+ * terminating hash can be published before that value exists.
+ */
+export async function createSeedChain(length: number, clientSeedSource: string): Promise<PublicSeedChain> {
+  if (!Number.isInteger(length) || length < 1 || length > MAX_CHAIN_LENGTH) {
+    throw new GameError('INVALID_CHAIN_LENGTH', `Chain length must be between 1 and ${MAX_CHAIN_LENGTH}.`);
+  }
+
+  const genesisSeed = crypto.randomBytes(32).toString('hex');
+  const terminatingHash = hashTimes(genesisSeed, length);
+
+  return prisma.crashSeedChain.create({
+    data: { genesisSeed, terminatingHash, length, clientSeedSource },
+    select: PUBLIC_CHAIN_SELECT,
+  });
+}
+
+/**
+ * Fix a pending chain's client seed and queue it for play. Chains are used in
+ * activation order, one after another.
+ */
+export async function activateSeedChain(chainId: string, clientSeed: string): Promise<PublicSeedChain> {
+  const chain = await prisma.crashSeedChain.findUnique({ where: { id: chainId }, select: { status: true } });
+  if (!chain) {
+    throw new GameError('CHAIN_NOT_FOUND', 'Seed chain not found.');
+  }
+  if (chain.status !== 'PENDING') {
+    throw new GameError('CHAIN_NOT_PENDING', 'The client seed of this chain has already been set.');
+  }
+
+  return prisma.crashSeedChain.update({
+    where: { id: chainId },
+    data: { clientSeed, status: 'ACTIVE', activatedAt: new Date() },
+    select: PUBLIC_CHAIN_SELECT,
+  });
+}
+
+/**
+ * Claim the next unused seed of the oldest active chain, or null when no
+ * chain has seeds left.
+ */
+export async function claimNextSeed(): Promise<ChainSeed | null> {
+  for (;;) {
+    const active = await prisma.crashSeedChain.findFirst({
+      where: { status: 'ACTIVE' },
+      orderBy: { activatedAt: 'asc' },
+      select: { id: true },
+    });
+    if (!active) return null;
+
+    const chain = await prisma.crashSeedChain.update({
+      where: { id: active.id },
+      data: { roundsPlayed: { increment: 1 } },
+    });
+
+    const chainIndex = chain.roundsPlayed;
+    if (chainIndex >= chain.length) {
+      await prisma.crashSeedChain.update({ where: { id: chain.id }, data: { status: 'EXHAUSTED' } });
+      checkpointCache.delete(chain.id);
+    }
+    if (chainIndex > chain.length) continue;
+
+    const serverSeed = seedAt(chain.id, chain.genesisSeed, chain.length, chainIndex);
+    return {
+      chainId: chain.id,
+      chainIndex,
+      serverSeed,
+      serverSeedHash: fairService.hashServerSeed(serverSeed),
+      clientSeed: chain.clientSeed!,
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Every chain with its terminating hash, newest first.
+ */
+export async function listSeedChains(): Promise<PublicSeedChain[]> {
+  return prisma.crashSeedChain.findMany({
+    orderBy: { createdAt: 'desc' },
+    select: PUBLIC_CHAIN_SELECT,
+  });
+}
+
+/**
+ * Check the finished rounds of a chain with index in [from, to]: each seed
+ * must hash to the round's pre-published hash, link back to the previous
+ * revealed seed (or the terminating hash) and reproduce the crash point.
+ */
+export async function verifySeedChain(
+  chainId: string,
+  from: number,
+  to: number,
+): Promise<{ chain: PublicSeedChain; from: number; to: number; valid: boolean; rounds: RoundVerification[] }> {
+  if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < from) {
+    throw new GameError('INVALID_RANGE', 'Range must satisfy 1 <= from <= to.');
+  }
+  if (to - from + 1 > MAX_VERIFY_RANGE) {
+    throw new GameError('RANGE_TOO_LARGE', `At most ${MAX_VERIFY_RANGE} rounds can be verified at once.`);
+  }
+
+  const chain = await prisma.crashSeedChain.findUnique({ where: { id: chainId }, select: PUBLIC_CHAIN_SELECT });
+  if (!chain) {
+    throw new GameError('CHAIN_NOT_FOUND', 'Seed chain not found.');
+  }
+
+  // Only finished rounds reveal their seed
+  const [previous, rounds] = await Promise.all([
+    prisma.crashRound.findFirst({
+      where: { chainId, status: 'CRASHED', chainIndex: { lt: from } },
+      orderBy: { chainIndex: 'desc' },
+      select: { serverSeed: true, chainIndex: true },
+    }),
+    prisma.crashRound.findMany({
+      where: { chainId, status: 'CRASHED', chainIndex: { gte: from, lte: to } },
+      orderBy: { chainIndex: 'asc' },
+      select: { id: true, serverSeed: true, serverSeedHash: true, clientSeed: true, crashPoint: true, chainIndex: true },
+    }),
+  ]);
+
+  // Rounds that never finished leave gaps; hash across them
+  let anchorSeed = previous?.serverSeed ?? chain.terminatingHash;
+  let anchorIndex = previous?.chainIndex ?? 0;
+
+  const results: RoundVerification[] = rounds.map((round) => {
+    const chainIndex = round.chainIndex!;
+    const crashPoint = round.crashPoint.toNumber();
+    const expectedCrashPoint = fairService.generateCrashPoint(round.serverSeed, round.clientSeed, chainIndex);
+
+    const hashValid = fairService.hashServerSeed(round.serverSeed) === round.serverSeedHash;
+    const chainValid = hashTimes(round.serverSeed, chainIndex - anchorIndex) === anchorSeed;
+    const clientSeedValid = round.clientSeed === chain.clientSeed;
+    const crashPointValid = crashPoint === expectedCrashPoint;
+
+    anchorSeed = round.serverSeed;
+    anchorIndex = chainIndex;
+
+    return {
+      roundId: round.id,
+      chainIndex,
+      serverSeed: round.serverSeed,
+      serverSeedHash: round.serverSeedHash,
+      clientSeed: round.clientSeed,
+      crashPoint,
+      expectedCrashPoint,
+      hashValid,
+      chainValid,
+      clientSeedValid,
+      crashPointValid,
+      valid: hashValid && chainValid && clientSeedValid && crashPointValid,
+    };
+  });
+
+  return { chain, from, to, valid: results.every((r) => r.valid), rounds: results };
+}
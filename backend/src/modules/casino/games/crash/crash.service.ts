@@ -1,8 +1,12 @@
+import crypto from 'crypto';
+import os from 'os';
 import { Decimal } from '@prisma/client/runtime/library';
 import { prisma } from '../../../../lib/prisma.js';
 import { redis } from '../../../../lib/redis.js';
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 import { ProvablyFairService } from '../../../../services/casino/ProvablyFairService.js';
+import { claimNextSeed } from './crash-chain.service.js';
+import { logger } from '../../../../middleware/logger.js';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -22,15 +26,117 @@ interface CrashBetEntry {
   isActive: boolean;
 }
 
-interface CrashState {
+/** The current round as held in Redis (`crash:round`). */
+interface CrashRoundState {
   roundId: string;
   phase: CrashPhase;
   crashPoint: number;
-  currentMultiplier: number;
   startedAt: number | null;      // epoch ms
-  bets: CrashBetEntry[];
   serverSeedHash: string;
-  elapsed: number;
+  clientSeed: string;
+  nonce: number;
+  /** Every bet of the round has been paid out, marked lost or refunded */
+  settled: boolean;
+  /** Phase the round was in when its leader died, once recovery began */
+  recoveredFrom: CrashPhase | null;
+}
+
+type BetOutcome =
+  | { kind: 'cashout'; multiplier: number }
+  | { kind: 'loss' }
+  | { kind: 'refund'; reason: string };
+
+// ---------------------------------------------------------------------------
+// Redis keys and scripts
+// ---------------------------------------------------------------------------
+// One instance at a time holds the leader lock and drives rounds: it creates
+// them, starts and crashes them and settles what is left. Round state and bets
+// live in Redis, so any instance can take bets and cashouts; the scripts below
+// make those checks atomic against the leader's phase changes.
+// ---------------------------------------------------------------------------
+
+const LEADER_KEY = 'crash:leader';
+const ROUND_KEY = 'crash:round';
+const betsKey = (roundId: string) => `crash:bets:${roundId}`;
+
+/** The leader lock expires this long after its last renewal (ms) */
+const LEADER_TTL_MS = 5_000;
+
+/** How often the lock is renewed, or acquisition retried (ms) */
+const LEADER_RENEW_MS = 1_500;
+
+/** Bets of a round are kept this long after it was created (s) */
+const BETS_TTL_SECONDS = 60 * 60;
+
+/**
+ * Write the round hash only while holding the leader lock. ARGV[2] 'replace'
+ * drops the previous round first. Returns 0 when the lock is not ours.
+ */
+const LEADER_WRITE_SCRIPT = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then return 0 end
+if ARGV[2] == 'replace' then redis.call('DEL', KEYS[2]) end
+redis.call('HSET', KEYS[2], unpack(ARGV, 3))
+return 1
+`;
+
+const RENEW_LEADER_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('PEXPIRE', KEYS[1], ARGV[2]) end
+return 0
+`;
+
+const RELEASE_LEADER_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) end
+return 0
+`;
+
+/** Add a bet while the round is still WAITING, at most one per user. */
+const PLACE_BET_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'roundId') ~= ARGV[1] or redis.call('HGET', KEYS[1], 'phase') ~= 'WAITING' then
+  return 'ROUND_NOT_ACCEPTING'
+end
+if redis.call('HSETNX', KEYS[2], ARGV[2], ARGV[3]) == 0 then return 'ALREADY_BET' end
+redis.call('EXPIRE', KEYS[2], ARGV[4])
+return 'OK'
+`;
+
+/**
+ * Mark an active bet cashed out at ARGV[3] while the round is RUNNING and has
+ * not passed its crash point. Returns { 'OK', bet } or { error code }.
+ */
+const CASHOUT_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'roundId') ~= ARGV[1] or redis.call('HGET', KEYS[1], 'phase') ~= 'RUNNING' then
+  return { 'NOT_RUNNING' }
+end
+if tonumber(ARGV[3]) > tonumber(redis.call('HGET', KEYS[1], 'crashPoint')) then return { 'NOT_RUNNING' } end
+local raw = redis.call('HGET', KEYS[2], ARGV[2])
+if not raw then return { 'NO_ACTIVE_BET' } end
+local bet = cjson.decode(raw)
+if not bet.isActive then return { 'NO_ACTIVE_BET' } end
+bet.isActive = false
+bet.cashoutAt = tonumber(ARGV[3])
+local updated = cjson.encode(bet)
+redis.call('HSET', KEYS[2], ARGV[2], updated)
+return { 'OK', updated }
+`;
+
+/** Multiplier after `elapsed` ms of a running round: 1.0 * e^(0.00006 * elapsed_ms). */
+function multiplierAt(elapsed: number): number {
+  return Math.floor(Math.pow(Math.E, 0.00006 * elapsed) * 100) / 100;
+}
+
+function parseRound(raw: Record<string, string>): CrashRoundState | null {
+  if (!raw.roundId) return null;
+  return {
+    roundId: raw.roundId,
+    phase: raw.phase as CrashPhase,
+    crashPoint: Number(raw.crashPoint),
+    startedAt: raw.startedAt ? Number(raw.startedAt) : null,
+    serverSeedHash: raw.serverSeedHash,
+    clientSeed: raw.clientSeed,
+    nonce: Number(raw.nonce),
+    settled: raw.settled === '1',
+    recoveredFrom: (raw.recoveredFrom as CrashPhase | undefined) ?? null,
+  };
 }
 
 // ---------------------------------------------------------------------------
@@ -44,15 +150,22 @@ export class CrashGameService extends BaseGame {
   readonly minBet = 0.0001;
   readonly maxBet = 10000;
 
-  private state: CrashState | null = null;
+  private readonly instanceId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  private isLeader = false;
+  private electionInterval: ReturnType<typeof setInterval> | null = null;
+
+  // Leader only: the round being driven and its pending auto-cashouts
+  private round: CrashRoundState | null = null;
+  private autoCashouts: CrashBetEntry[] = [];
   private tickTimeout: ReturnType<typeof setTimeout> | null = null;
   private countdownTimeout: ReturnType<typeof setTimeout> | null = null;
+  private nextRoundTimeout: ReturnType<typeof setTimeout> | null = null;
   private broadcastFn: ((event: string, data: any) => void) | null = null;
   private isTickRunning = false;
 
   private fairService2 = new ProvablyFairService();
 
-  // We use a house seed pair for the crash round (multiplayer, not per-user)
+  // Client seed of rounds played without a seed chain
   private static HOUSE_CLIENT_SEED = 'cryptobet-crash-global';
 
   /**
@@ -62,8 +175,21 @@ export class CrashGameService extends BaseGame {
     throw new GameError('NOT_SUPPORTED', 'Use placeBet/cashout for Crash game.');
   }
 
+  /**
+   * Crash point of a round from the house seed pair; `cashoutMultiplier` is
+   * the player's cashout, absent when they rode the round to the crash.
+   */
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions): Record<string, any> {
+    const crashPoint = this.fairService2.generateCrashPoint(serverSeed, clientSeed, nonce);
+    if (options.cashoutMultiplier === undefined) {
+      return { crashPoint, cashedOut: false };
+    }
+    return { crashPoint, cashedOut: true, cashoutMultiplier: options.cashoutMultiplier };
+  }
+
   /**
    * Register the Socket.IO broadcast function for the /casino namespace.
+   * With the Redis adapter, emits reach clients connected to any instance.
    */
   setBroadcast(fn: (event: string, data: any) => void): void {
     this.broadcastFn = fn;
@@ -76,39 +202,132 @@ export class CrashGameService extends BaseGame {
   }
 
   // =======================================================================
-  // Game lifecycle
+  // Leader election
   // =======================================================================
 
   /**
-   * Initialize the game loop. Call once on server startup.
+   * Join the leader election. Call once on server startup; the instance
+   * holding the lock runs the game loop, the others only serve players.
    */
   async init(): Promise<void> {
-    await this.startNewRound();
+    this.electionInterval = setInterval(() => {
+      void this.runElection();
+    }, LEADER_RENEW_MS);
+    await this.runElection();
+  }
+
+  private async runElection(): Promise<void> {
+    try {
+      if (this.isLeader) {
+        const renewed = await redis.eval(RENEW_LEADER_SCRIPT, 1, LEADER_KEY, this.instanceId, LEADER_TTL_MS);
+        if (renewed !== 1) this.stepDown('leader lock lost');
+        return;
+      }
+
+      const acquired = await redis.set(LEADER_KEY, this.instanceId, 'PX', LEADER_TTL_MS, 'NX');
+      if (!acquired) return;
+
+      this.isLeader = true;
+      logger.info({ instanceId: this.instanceId }, '[Crash] Now the crash loop leader');
+
+      // Not awaited: renewals must keep running while the round is recovered
+      void this.takeOver();
+    } catch (err) {
+      logger.error({ err }, '[Crash] Leader election error');
+    }
   }
 
   /**
-   * Start a new crash round.
+   * Finish whatever round the previous leader left behind, then start a new one.
    */
-  private async startNewRound(): Promise<void> {
-    // Clean up previous tick timeout
-    if (this.tickTimeout) {
-      clearTimeout(this.tickTimeout);
-      this.tickTimeout = null;
+  private async takeOver(): Promise<void> {
+    try {
+      const previous = parseRound(await redis.hgetall(ROUND_KEY));
+      if (previous && !previous.settled) {
+        await this.recoverRound(previous);
+      }
+      await this.startNewRound();
+    } catch (err) {
+      logger.error({ err }, '[Crash] Takeover failed');
+      this.stepDown('takeover failed');
+      await redis.eval(RELEASE_LEADER_SCRIPT, 1, LEADER_KEY, this.instanceId).catch(() => undefined);
     }
-    this.isTickRunning = false;
+  }
 
-    // Generate crash point
-    const { seed: serverSeed, hash: serverSeedHash } =
-      this.fairService2.generateServerSeed();
+  private stepDown(reason: string): void {
+    if (!this.isLeader) return;
+    logger.warn({ instanceId: this.instanceId, reason }, '[Crash] Stepping down as leader');
+    this.isLeader = false;
+    this.round = null;
+    this.autoCashouts = [];
+    this.clearTimers();
+  }
 
-    // Get a sequential nonce from Redis
-    const nonce = await redis.incr('crash:global_nonce');
+  private clearTimers(): void {
+    if (this.tickTimeout) clearTimeout(this.tickTimeout);
+    if (this.countdownTimeout) clearTimeout(this.countdownTimeout);
+    if (this.nextRoundTimeout) clearTimeout(this.nextRoundTimeout);
+    this.tickTimeout = null;
+    this.countdownTimeout = null;
+    this.nextRoundTimeout = null;
+    this.isTickRunning = false;
+  }
 
-    const crashPoint = this.fairService2.generateCrashPoint(
-      serverSeed,
-      CrashGameService.HOUSE_CLIENT_SEED,
-      nonce,
+  /**
+   * Write round fields to Redis if this instance still holds the lock.
+   * Steps down and throws otherwise, so a stale leader stops at once.
+   */
+  private async writeRound(fields: Record<string, string | number>, replace = false): Promise<void> {
+    const args = Object.entries(fields).flatMap(([k, v]) => [k, String(v)]);
+    const written = await redis.eval(
+      LEADER_WRITE_SCRIPT,
+      2,
+      LEADER_KEY,
+      ROUND_KEY,
+      this.instanceId,
+      replace ? 'replace' : 'update',
+      ...args,
     );
+    if (written !== 1) {
+      this.stepDown('leader lock lost');
+      throw new GameError('NOT_LEADER', 'This instance no longer drives the crash loop.');
+    }
+  }
+
+  private async getBets(roundId: string): Promise<CrashBetEntry[]> {
+    const raw = await redis.hgetall(betsKey(roundId));
+    return Object.values(raw).map((b) => JSON.parse(b) as CrashBetEntry);
+  }
+
+  // =======================================================================
+  // Game lifecycle (leader only)
+  // =======================================================================
+
+  /**
+   * Start a new crash round.
+   */
+  private async startNewRound(): Promise<void> {
+    if (!this.isLeader) return;
+    this.clearTimers();
+
+    // Next seed of the active hash chain; the nonce is the round's chain index
+    const chainSeed = await claimNextSeed();
+    let serverSeed: string;
+    let serverSeedHash: string;
+    let clientSeed: string;
+    let nonce: number;
+
+    if (chainSeed) {
+      ({ serverSeed, serverSeedHash, clientSeed, chainIndex: nonce } = chainSeed);
+    } else {
+      // No active chain: fall back to an unchained random seed
+      logger.warn('[Crash] No active seed chain, round seeded at random');
+      ({ seed: serverSeed, hash: serverSeedHash } = this.fairService2.generateServerSeed());
+      clientSeed = CrashGameService.HOUSE_CLIENT_SEED;
+      nonce = await redis.incr('crash:global_nonce');
+    }
+
+    const crashPoint = this.fairService2.generateCrashPoint(serverSeed, clientSeed, nonce);
 
     // Persist the round
     const round = await prisma.crashRound.create({
@@ -116,33 +335,51 @@ export class CrashGameService extends BaseGame {
         crashPoint: new Decimal(crashPoint.toFixed(8)),
         serverSeed,
         serverSeedHash,
-        clientSeed: CrashGameService.HOUSE_CLIENT_SEED,
+        clientSeed,
         nonce,
+        chainId: chainSeed?.chainId ?? null,
+        chainIndex: chainSeed?.chainIndex ?? null,
         status: 'WAITING',
       },
     });
 
-    this.state = {
+    this.round = {
       roundId: round.id,
       phase: 'WAITING',
       crashPoint,
-      currentMultiplier: 1.0,
       startedAt: null,
-      bets: [],
       serverSeedHash,
-      elapsed: 0,
+      clientSeed,
+      nonce,
+      settled: false,
+      recoveredFrom: null,
     };
+    await this.writeRound(
+      {
+        roundId: round.id,
+        phase: 'WAITING',
+        crashPoint,
+        serverSeedHash,
+        clientSeed,
+        nonce,
+        settled: 0,
+      },
+      true,
+    );
 
     this.emit('crash:newRound', {
       roundId: round.id,
       phase: 'WAITING',
       serverSeedHash,
+      clientSeed,
+      chainId: chainSeed?.chainId ?? null,
+      chainIndex: chainSeed?.chainIndex ?? null,
       countdown: 15,
     });
 
     // 15-second countdown before round starts
     this.countdownTimeout = setTimeout(() => {
-      void this.startRunning();
+      void this.startRunning().catch((err) => logger.error({ err }, '[Crash] Failed to start round'));
     }, 15_000);
   }
 
@@ -150,17 +387,24 @@ export class CrashGameService extends BaseGame {
    * Transition from WAITING to RUNNING. Begin the multiplier tick.
    */
   private async startRunning(): Promise<void> {
-    if (!this.state) return;
+    if (!this.isLeader || !this.round) return;
 
-    this.state.phase = 'RUNNING';
-    this.state.startedAt = Date.now();
+    const startedAt = Date.now();
+    await this.writeRound({ phase: 'RUNNING', startedAt });
+    this.round.phase = 'RUNNING';
+    this.round.startedAt = startedAt;
+
+    // Bets are closed now; keep the auto-cashouts sorted for the tick loop
+    this.autoCashouts = (await this.getBets(this.round.roundId))
+      .filter((b) => b.autoCashout !== null)
+      .sort((a, b) => a.autoCashout! - b.autoCashout!);
 
     await prisma.crashRound.update({
-      where: { id: this.state.roundId },
-      data: { status: 'RUNNING', startedAt: new Date() },
+      where: { id: this.round.roundId },
+      data: { status: 'RUNNING', startedAt: new Date(startedAt) },
     });
 
-    this.emit('crash:start', { roundId: this.state.roundId });
+    this.emit('crash:start', { roundId: this.round.roundId });
 
     // Start the tick loop using recursive setTimeout (prevents overlapping ticks)
     this.scheduleTick();
@@ -172,14 +416,15 @@ export class CrashGameService extends BaseGame {
    * than the interval period.
    */
   private scheduleTick(): void {
+    if (!this.isLeader) return;
     this.tickTimeout = setTimeout(() => {
       void this.tick();
     }, 50);
   }
 
   /**
-   * Called every 50ms while RUNNING. Advances the multiplier using
-   * an exponential curve: 1.0 * e^(0.00006 * elapsed_ms).
+   * Called every 50ms while RUNNING. Advances the multiplier and processes
+   * auto-cashouts that have been reached.
    */
   private async tick(): Promise<void> {
     // Guard against overlapping ticks
@@ -187,37 +432,33 @@ export class CrashGameService extends BaseGame {
       return;
     }
 
-    if (!this.state || this.state.phase !== 'RUNNING' || !this.state.startedAt) {
+    const round = this.round;
+    if (!this.isLeader || !round || round.phase !== 'RUNNING' || !round.startedAt) {
       return;
     }
 
     this.isTickRunning = true;
     try {
-      const elapsed = Date.now() - this.state.startedAt;
-      const multiplier = Math.floor(Math.pow(Math.E, 0.00006 * elapsed) * 100) / 100;
-
-      this.state.currentMultiplier = multiplier;
-      this.state.elapsed = elapsed;
+      const elapsed = Date.now() - round.startedAt;
+      const multiplier = multiplierAt(elapsed);
 
       // Process auto-cashouts
-      for (const bet of this.state.bets) {
-        if (
-          bet.isActive &&
-          bet.autoCashout !== null &&
-          multiplier >= bet.autoCashout
-        ) {
-          await this.executeCashout(bet.userId, bet.autoCashout);
-        }
+      while (this.autoCashouts.length > 0 && multiplier >= this.autoCashouts[0].autoCashout!) {
+        const bet = this.autoCashouts.shift()!;
+        await this.cashoutBet(round, bet.userId, bet.autoCashout!).catch((err) => {
+          // Already cashed out by hand
+          if (!(err instanceof GameError)) throw err;
+        });
       }
 
       // Check crash
-      if (multiplier >= this.state.crashPoint) {
+      if (multiplier >= round.crashPoint) {
         await this.crash();
         return; // crash() handles the next round; do not schedule another tick
       }
 
       this.emit('crash:tick', {
-        roundId: this.state.roundId,
+        roundId: round.roundId,
         multiplier,
         elapsed,
       });
@@ -226,7 +467,7 @@ export class CrashGameService extends BaseGame {
       this.scheduleTick();
     } catch (err) {
       // On error, still try to schedule next tick to keep game alive
-      console.error('[Crash] Tick error:', err);
+      logger.error({ err }, '[Crash] Tick error');
       this.scheduleTick();
     } finally {
       this.isTickRunning = false;
@@ -234,72 +475,227 @@ export class CrashGameService extends BaseGame {
   }
 
   /**
-   * Crash! Settle all remaining active bets as lost.
+   * Crash! Settle all remaining bets.
    */
   private async crash(): Promise<void> {
-    if (!this.state) return;
+    const round = this.round;
+    if (!round) return;
 
     if (this.tickTimeout) {
       clearTimeout(this.tickTimeout);
       this.tickTimeout = null;
     }
-    this.isTickRunning = false;
 
-    this.state.phase = 'CRASHED';
+    // From here on no cashout can succeed
+    await this.writeRound({ phase: 'CRASHED' });
+    round.phase = 'CRASHED';
+
+    const bets = await this.settleRound(round);
 
-    // Settle losers
-    for (const bet of this.state.bets) {
-      if (bet.isActive) {
+    this.emit('crash:crashed', {
+      roundId: round.roundId,
+      crashPoint: round.crashPoint,
+      bets: bets.map((b) => ({
+        userId: b.userId,
+        username: b.username,
+        amount: b.amount,
+        cashoutAt: b.cashoutAt,
+        payout: b.payout,
+      })),
+    });
+
+    // Start next round after a 5-second pause
+    this.nextRoundTimeout = setTimeout(() => {
+      void this.startNewRound().catch((err) => logger.error({ err }, '[Crash] Failed to start round'));
+    }, 5_000);
+  }
+
+  /**
+   * Settle every bet of a round that reached its crash point: cashed-out bets
+   * are paid (if their cashout is still unsettled), the rest lose. The round
+   * is then marked CRASHED, revealing its seed.
+   */
+  private async settleRound(round: CrashRoundState): Promise<CrashBetEntry[]> {
+    const bets = await this.getBets(round.roundId);
+
+    for (const bet of bets) {
+      if (bet.cashoutAt !== null) {
+        await this.settleBet(round, bet, { kind: 'cashout', multiplier: bet.cashoutAt });
+      } else {
+        await this.settleBet(round, bet, { kind: 'loss' });
         bet.isActive = false;
         bet.payout = 0;
+      }
+    }
 
-        await prisma.crashBet.update({
-          where: { id: bet.id },
-          data: { isActive: false, payout: new Decimal('0') },
-        });
+    await prisma.crashRound.update({
+      where: { id: round.roundId },
+      data: { status: 'CRASHED', crashedAt: new Date() },
+    });
+    await this.writeRound({ settled: 1 });
+    round.settled = true;
 
-        // Record as casino round
-        await this.recordRound({
-          userId: bet.userId,
-          gameSlug: this.slug,
-          betAmount: bet.amount,
-          payout: 0,
-          multiplier: 0,
-          result: { crashPoint: this.state.crashPoint, cashedOut: false },
-          serverSeedHash: this.state.serverSeedHash,
-          clientSeed: CrashGameService.HOUSE_CLIENT_SEED,
-          nonce: 0,
-        });
+    return bets;
+  }
+
+  /**
+   * Failover: finish a round whose leader died before settling it. The
+   * outcome depends only on the stored round, so it is the same whichever
+   * instance takes over:
+   *   - never started (WAITING): every bet is refunded and the round cancelled
+   *   - RUNNING: auto-cashouts at or below the crash point are paid at their
+   *     target, cashouts already made are paid, other open bets are refunded
+   *   - CRASHED: settled as usual
+   */
+  private async recoverRound(round: CrashRoundState): Promise<void> {
+    // Kept in Redis so a recovery that is itself interrupted ends the same way
+    const diedIn = round.recoveredFrom ?? round.phase;
+    logger.warn({ roundId: round.roundId, phase: diedIn }, '[Crash] Recovering round left by the previous leader');
+
+    if (diedIn === 'CRASHED') {
+      await this.settleRound(round);
+      return;
+    }
+
+    // Close the round to bets and cashouts before settling
+    await this.writeRound({ phase: 'CRASHED', recoveredFrom: diedIn });
+    const bets = await this.getBets(round.roundId);
+
+    for (const bet of bets) {
+      if (diedIn === 'WAITING') {
+        await this.settleBet(round, bet, { kind: 'refund', reason: 'ROUND_NOT_STARTED' });
+      } else if (bet.cashoutAt !== null) {
+        await this.settleBet(round, bet, { kind: 'cashout', multiplier: bet.cashoutAt });
+      } else if (bet.autoCashout !== null && bet.autoCashout <= round.crashPoint) {
+        await this.settleBet(round, bet, { kind: 'cashout', multiplier: bet.autoCashout });
+      } else {
+        await this.settleBet(round, bet, { kind: 'refund', reason: 'LEADER_FAILOVER' });
       }
     }
 
     await prisma.crashRound.update({
-      where: { id: this.state.roundId },
-      data: { status: 'CRASHED', crashedAt: new Date() },
+      where: { id: round.roundId },
+      data: diedIn === 'WAITING'
+        ? { status: 'CANCELLED' }
+        : { status: 'CRASHED', crashedAt: new Date() },
     });
+    await this.writeRound({ settled: 1 });
 
     this.emit('crash:crashed', {
-      roundId: this.state.roundId,
-      crashPoint: this.state.crashPoint,
-      bets: this.state.bets.map((b) => ({
-        userId: b.userId,
-        username: b.username,
-        amount: b.amount,
-        cashoutAt: b.cashoutAt,
-        payout: b.payout,
-      })),
+      roundId: round.roundId,
+      crashPoint: diedIn === 'WAITING' ? null : round.crashPoint,
+      recovered: true,
+      bets: [],
     });
+  }
 
-    // Start next round after a 5-second pause
-    setTimeout(() => {
-      void this.startNewRound();
-    }, 5_000);
+  /**
+   * Settle one bet. The CrashBet row is claimed first (payout still null), so
+   * whichever instance gets there first settles it and no bet is paid twice.
+   * Returns false if the bet had already been settled.
+   */
+  private async settleBet(round: CrashRoundState, bet: CrashBetEntry, outcome: BetOutcome): Promise<boolean> {
+    const payout =
+      outcome.kind === 'cashout'
+        ? Math.floor(bet.amount * outcome.multiplier * 100) / 100
+        : outcome.kind === 'refund'
+          ? bet.amount
+          : 0;
+
+    const claimed = await prisma.crashBet.updateMany({
+      where: { id: bet.id, payout: null },
+      data: {
+        isActive: false,
+        // A refund keeps cashoutAt empty; its payout is the returned stake
+        cashoutAt: outcome.kind === 'cashout' ? new Decimal(outcome.multiplier.toFixed(8)) : null,
+        payout: new Decimal(payout.toFixed(8)),
+      },
+    });
+    if (claimed.count === 0) return false;
+
+    if (outcome.kind === 'refund') {
+      await this.refundStake(round, bet, outcome.reason);
+      return true;
+    }
+
+    if (outcome.kind === 'cashout') {
+      await this.creditWinnings(bet.userId, payout, bet.currency);
+    }
+
+    await this.recordRound({
+      userId: bet.userId,
+      gameSlug: this.slug,
+      currency: bet.currency,
+      betAmount: bet.amount,
+      payout,
+      multiplier: outcome.kind === 'cashout' ? outcome.multiplier : 0,
+      result:
+        outcome.kind === 'cashout'
+          ? { crashPoint: round.crashPoint, cashedOut: true, cashoutMultiplier: outcome.multiplier }
+          : { crashPoint: round.crashPoint, cashedOut: false },
+      serverSeedHash: round.serverSeedHash,
+      clientSeed: round.clientSeed,
+      nonce: round.nonce,
+    });
+
+    if (outcome.kind === 'cashout') {
+      bet.payout = payout;
+      await redis.hset(betsKey(round.roundId), bet.userId, JSON.stringify(bet));
+
+      this.emit('crash:cashout', {
+        roundId: round.roundId,
+        userId: bet.userId,
+        username: bet.username,
+        multiplier: outcome.multiplier,
+        payout,
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Return a bet's stake as an ADJUSTMENT transaction.
+   */
+  private async refundStake(round: CrashRoundState, bet: CrashBetEntry, reason: string): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      const wallet = await tx.wallet.findFirst({
+        where: { userId: bet.userId, currency: { symbol: bet.currency } },
+      });
+      if (!wallet) {
+        throw new GameError('WALLET_NOT_FOUND', `No ${bet.currency} wallet found to refund crash bet ${bet.id}.`);
+      }
+
+      await tx.wallet.update({
+        where: { id: wallet.id },
+        data: { balance: { increment: new Decimal(bet.amount.toFixed(8)) } },
+      });
+
+      await tx.transaction.create({
+        data: {
+          walletId: wallet.id,
+          type: 'ADJUSTMENT',
+          amount: new Decimal(bet.amount.toFixed(8)),
+          status: 'COMPLETED',
+          metadata: {
+            source: 'CRASH_REFUND',
+            crashBetId: bet.id,
+            roundId: round.roundId,
+            reason,
+          },
+        },
+      });
+    });
   }
 
   // =======================================================================
-  // Player actions
+  // Player actions (any instance)
   // =======================================================================
 
+  private async getRound(): Promise<CrashRoundState | null> {
+    return parseRound(await redis.hgetall(ROUND_KEY));
+  }
+
   /**
    * Place a bet on the current crash round. Only allowed during WAITING phase.
    */
@@ -309,13 +705,13 @@ export class CrashGameService extends BaseGame {
     currency: string,
     autoCashout?: number,
   ): Promise<{ betId: string; roundId: string }> {
-    if (!this.state || this.state.phase !== 'WAITING') {
+    const round = await this.getRound();
+    if (!round || round.phase !== 'WAITING') {
       throw new GameError('ROUND_NOT_ACCEPTING', 'Round is not accepting bets.');
     }
 
     // Check if user already has a bet in this round
-    const existingBet = this.state.bets.find((b) => b.userId === userId);
-    if (existingBet) {
+    if (await redis.hexists(betsKey(round.roundId), userId)) {
       throw new GameError('ALREADY_BET', 'You already have a bet in this round.');
     }
 
@@ -330,7 +726,7 @@ export class CrashGameService extends BaseGame {
 
     const crashBet = await prisma.crashBet.create({
       data: {
-        roundId: this.state.roundId,
+        roundId: round.roundId,
         userId,
         amount: new Decimal(amount.toFixed(8)),
         autoCashout: autoCashout ? new Decimal(autoCashout.toFixed(8)) : null,
@@ -350,87 +746,73 @@ export class CrashGameService extends BaseGame {
       isActive: true,
     };
 
-    this.state.bets.push(betEntry);
+    // The round may have started (or a second bet slipped in) since the check
+    const added = await redis.eval(
+      PLACE_BET_SCRIPT,
+      2,
+      ROUND_KEY,
+      betsKey(round.roundId),
+      round.roundId,
+      userId,
+      JSON.stringify(betEntry),
+      BETS_TTL_SECONDS,
+    );
+    if (added !== 'OK') {
+      await this.settleBet(round, betEntry, { kind: 'refund', reason: String(added) });
+      throw added === 'ALREADY_BET'
+        ? new GameError('ALREADY_BET', 'You already have a bet in this round.')
+        : new GameError('ROUND_NOT_ACCEPTING', 'Round is not accepting bets.');
+    }
 
     this.emit('crash:bet', {
-      roundId: this.state.roundId,
+      roundId: round.roundId,
       userId,
       username: betEntry.username,
       amount,
       autoCashout: autoCashout ?? null,
     });
 
-    return { betId: crashBet.id, roundId: this.state.roundId };
+    return { betId: crashBet.id, roundId: round.roundId };
   }
 
   /**
-   * Cash out during the RUNNING phase.
+   * Cash out during the RUNNING phase at the current multiplier.
    */
   async cashout(userId: string): Promise<{ payout: number; multiplier: number }> {
-    if (!this.state || this.state.phase !== 'RUNNING') {
+    const round = await this.getRound();
+    if (!round || round.phase !== 'RUNNING' || !round.startedAt) {
       throw new GameError('NOT_RUNNING', 'Round is not running.');
     }
 
-    return this.executeCashout(userId, this.state.currentMultiplier);
+    return this.cashoutBet(round, userId, multiplierAt(Date.now() - round.startedAt));
   }
 
-  private async executeCashout(
+  private async cashoutBet(
+    round: CrashRoundState,
     userId: string,
     multiplier: number,
   ): Promise<{ payout: number; multiplier: number }> {
-    if (!this.state) {
-      throw new GameError('NO_STATE', 'No active round.');
-    }
+    const [status, updated] = (await redis.eval(
+      CASHOUT_SCRIPT,
+      2,
+      ROUND_KEY,
+      betsKey(round.roundId),
+      round.roundId,
+      userId,
+      multiplier,
+    )) as [string, string?];
 
-    const bet = this.state.bets.find((b) => b.userId === userId && b.isActive);
-    if (!bet) {
+    if (status === 'NOT_RUNNING') {
+      throw new GameError('NOT_RUNNING', 'Round is not running.');
+    }
+    if (status !== 'OK' || !updated) {
       throw new GameError('NO_ACTIVE_BET', 'No active bet found for this round.');
     }
 
-    bet.isActive = false;
-    bet.cashoutAt = multiplier;
-    const payout = Math.floor(bet.amount * multiplier * 100) / 100;
-    bet.payout = payout;
-
-    // Credit winnings
-    await this.creditWinnings(userId, payout, bet.currency);
-
-    // Update DB
-    await prisma.crashBet.update({
-      where: { id: bet.id },
-      data: {
-        isActive: false,
-        cashoutAt: new Decimal(multiplier.toFixed(8)),
-        payout: new Decimal(payout.toFixed(8)),
-      },
-    });
-
-    // Record round
-    await this.recordRound({
-      userId,
-      gameSlug: this.slug,
-      betAmount: bet.amount,
-      payout,
-      multiplier,
-      result: {
-        crashPoint: this.state.crashPoint,
-        cashedOut: true,
-        cashoutMultiplier: multiplier,
-      },
-      serverSeedHash: this.state.serverSeedHash,
-      clientSeed: CrashGameService.HOUSE_CLIENT_SEED,
-      nonce: 0,
-    });
-
-    this.emit('crash:cashout', {
-      roundId: this.state.roundId,
-      userId,
-      username: bet.username,
-      multiplier,
-      payout,
-    });
+    const bet = JSON.parse(updated) as CrashBetEntry;
+    await this.settleBet(round, bet, { kind: 'cashout', multiplier });
 
-    return { payout, multiplier };
+    return { payout: Math.floor(bet.amount * multiplier * 100) / 100, multiplier };
   }
 
   // =======================================================================
@@ -440,7 +822,7 @@ export class CrashGameService extends BaseGame {
   /**
    * Get the current round state (safe for clients — no server seed).
    */
-  getCurrentState(): {
+  async getCurrentState(): Promise<{
     roundId: string | null;
     phase: CrashPhase;
     currentMultiplier: number;
@@ -455,8 +837,9 @@ export class CrashGameService extends BaseGame {
       payout: number | null;
       isActive: boolean;
     }>;
-  } {
-    if (!this.state) {
+  }> {
+    const round = await this.getRound();
+    if (!round) {
       return {
         roundId: null,
         phase: 'WAITING',
@@ -467,13 +850,16 @@ export class CrashGameService extends BaseGame {
       };
     }
 
+    const elapsed = round.phase === 'RUNNING' && round.startedAt ? Date.now() - round.startedAt : 0;
+    const bets = await this.getBets(round.roundId);
+
     return {
-      roundId: this.state.roundId,
-      phase: this.state.phase,
-      currentMultiplier: this.state.currentMultiplier,
-      elapsed: this.state.elapsed,
-      serverSeedHash: this.state.serverSeedHash,
-      bets: this.state.bets.map((b) => ({
+      roundId: round.roundId,
+      phase: round.phase,
+      currentMultiplier: round.phase === 'CRASHED' ? round.crashPoint : Math.min(multiplierAt(elapsed), round.crashPoint),
+      elapsed,
+      serverSeedHash: round.serverSeedHash,
+      bets: bets.map((b) => ({
         userId: b.userId,
         username: b.username,
         amount: b.amount,
@@ -493,6 +879,8 @@ export class CrashGameService extends BaseGame {
       id: string;
       crashPoint: number;
       serverSeedHash: string;
+      chainId: string | null;
+      chainIndex: number | null;
       createdAt: Date;
     }>
   > {
@@ -504,6 +892,8 @@ export class CrashGameService extends BaseGame {
         id: true,
         crashPoint: true,
         serverSeedHash: true,
+        chainId: true,
+        chainIndex: true,
         createdAt: true,
       },
     });
@@ -512,17 +902,24 @@ export class CrashGameService extends BaseGame {
       id: r.id,
       crashPoint: r.crashPoint.toNumber(),
       serverSeedHash: r.serverSeedHash,
+      chainId: r.chainId,
+      chainIndex: r.chainIndex,
       createdAt: r.createdAt,
     }));
   }
 
   /**
-   * Graceful shutdown — stop intervals.
+   * Graceful shutdown — stop the loop and hand the lock to another instance.
+   * A round in progress is recovered by the next leader.
    */
-  shutdown(): void {
-    if (this.tickTimeout) clearTimeout(this.tickTimeout);
-    if (this.countdownTimeout) clearTimeout(this.countdownTimeout);
-    this.isTickRunning = false;
+  async shutdown(): Promise<void> {
+    if (this.electionInterval) clearInterval(this.electionInterval);
+    this.electionInterval = null;
+
+    if (this.isLeader) {
+      this.stepDown('shutting down');
+      await redis.eval(RELEASE_LEADER_SCRIPT, 1, LEADER_KEY, this.instanceId).catch(() => undefined);
+    }
   }
 }
 
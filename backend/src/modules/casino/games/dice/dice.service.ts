@@ -1,4 +1,4 @@
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Dice Game
@@ -41,26 +41,15 @@ export class DiceGame extends BaseGame {
     // Get user seeds
     const seeds = await this.getUserSeeds(userId);
 
-    // Generate provably fair result: 0 - 99.99
-    const rawResult = this.fairService.generateResult(
-      seeds.serverSeed,
-      seeds.clientSeed,
-      seeds.nonce,
-    );
-    const result = Math.floor(rawResult * 10000) / 100; // 0.00 - 99.99
-
-    // Calculate win chance and payout multiplier
-    const winChance = options.isOver
-      ? 100 - options.target      // e.g., target=50 isOver: 50% chance
-      : options.target;            // e.g., target=50 isUnder: 50% chance
+    const outcome = this.replay(seeds.serverSeed, seeds.clientSeed, seeds.nonce, {
+      ...options,
+      betAmount: bet.amount,
+    });
+    const { isWin } = outcome;
 
+    // Payout multiplier
     const multiplier =
-      Math.floor(((100 - this.houseEdge * 100) / winChance) * 10000) / 10000;
-
-    // Determine win
-    const isWin = options.isOver
-      ? result > options.target
-      : result < options.target;
+      Math.floor(((100 - this.houseEdge * 100) / outcome.winChance) * 10000) / 10000;
 
     // Deduct balance
     await this.deductBalance(userId, bet.amount, bet.currency);
@@ -78,16 +67,11 @@ export class DiceGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: bet.currency,
       betAmount: bet.amount,
       payout,
       multiplier: isWin ? multiplier : 0,
-      result: {
-        roll: result,
-        target: options.target,
-        isOver: options.isOver,
-        winChance,
-        isWin,
-      },
+      result: outcome,
       serverSeedHash: seeds.serverSeedHash,
       clientSeed: seeds.clientSeed,
       nonce: seeds.nonce,
@@ -103,13 +87,7 @@ export class DiceGame extends BaseGame {
       payout,
       profit: payout - bet.amount,
       multiplier: isWin ? multiplier : 0,
-      result: {
-        roll: result,
-        target: options.target,
-        isOver: options.isOver,
-        winChance,
-        isWin,
-      },
+      result: outcome,
       fairness: {
         serverSeedHash: seeds.serverSeedHash,
         clientSeed: seeds.clientSeed,
@@ -118,6 +96,30 @@ export class DiceGame extends BaseGame {
       newBalance,
     };
   }
+
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    // Generate provably fair result: 0 - 99.99
+    const rawResult = this.fairService.generateResult(serverSeed, clientSeed, nonce);
+    const roll = Math.floor(rawResult * 10000) / 100; // 0.00 - 99.99
+
+    // Calculate win chance
+    const winChance = options.isOver
+      ? 100 - options.target      // e.g., target=50 isOver: 50% chance
+      : options.target;            // e.g., target=50 isUnder: 50% chance
+
+    // Determine win
+    const isWin = options.isOver
+      ? roll > options.target
+      : roll < options.target;
+
+    return {
+      roll,
+      target: options.target,
+      isOver: options.isOver,
+      winChance,
+      isWin,
+    };
+  }
 }
 
 export const diceGame = new DiceGame();
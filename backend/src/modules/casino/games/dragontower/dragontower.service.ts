@@ -1,5 +1,5 @@
 import { redis } from '../../../../lib/redis.js';
-import { BaseGame, GameError, type GameResult, type BetRequest } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameError, type GameResult, type BetRequest, type ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -121,25 +121,7 @@ export class DragonTowerGame extends BaseGame {
 
     // Generate dragon positions for all 9 levels using provably fair randomness
     const config = DIFFICULTY_CONFIGS[difficulty];
-    const totalRandomsNeeded = TOTAL_LEVELS * config.traps;
-    const randoms = this.fairService.generateMultipleResults(serverSeed, clientSeed, nonce, totalRandomsNeeded);
-
-    const dragonPositions: number[][] = [];
-    let randomIdx = 0;
-
-    for (let level = 0; level < TOTAL_LEVELS; level++) {
-      const available = Array.from({ length: config.columns }, (_, i) => i);
-      const levelDragons: number[] = [];
-
-      for (let t = 0; t < config.traps; t++) {
-        const idx = Math.floor(randoms[randomIdx] * available.length);
-        levelDragons.push(available[idx]);
-        available.splice(idx, 1);
-        randomIdx++;
-      }
-
-      dragonPositions.push(levelDragons.sort((a, b) => a - b));
-    }
+    const dragonPositions = this.generateDragonPositions(serverSeed, clientSeed, nonce, difficulty);
 
     // Deduct balance
     await this.deductBalance(userId, amount, currency);
@@ -240,6 +222,7 @@ export class DragonTowerGame extends BaseGame {
       const roundId = await this.recordRound({
         userId,
         gameSlug: this.slug,
+        currency: state.currency,
         betAmount: state.betAmount,
         payout: 0,
         multiplier: 0,
@@ -388,6 +371,7 @@ export class DragonTowerGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: state.currency,
       betAmount: state.betAmount,
       payout,
       multiplier: state.multiplier,
@@ -443,6 +427,67 @@ export class DragonTowerGame extends BaseGame {
     };
   }
 
+  // -------------------------------------------------------------------------
+  // Replay
+  // -------------------------------------------------------------------------
+
+  /**
+   * Rebuild a finished climb from the difficulty and the door picked on each
+   * level. The climb ends on the first dragon, otherwise it was cashed out
+   * (by the player or automatically at the top).
+   */
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions): Record<string, any> {
+    const difficulty: Difficulty = options.difficulty;
+    const revealed: number[] = options.revealed;
+    const dragonPositions = this.generateDragonPositions(serverSeed, clientSeed, nonce, difficulty);
+
+    for (let level = 0; level < revealed.length; level++) {
+      if (dragonPositions[level].includes(revealed[level])) {
+        return {
+          status: 'dragon',
+          difficulty,
+          currentLevel: level,
+          position: revealed[level],
+          dragonPositions,
+          revealed: revealed.slice(0, level + 1),
+        };
+      }
+    }
+
+    return {
+      status: 'cashout',
+      difficulty,
+      currentLevel: revealed.length,
+      dragonPositions,
+      revealed,
+    };
+  }
+
+  private generateDragonPositions(serverSeed: string, clientSeed: string, nonce: number, difficulty: Difficulty): number[][] {
+    const config = DIFFICULTY_CONFIGS[difficulty];
+    const totalRandomsNeeded = TOTAL_LEVELS * config.traps;
+    const randoms = this.fairService.generateMultipleResults(serverSeed, clientSeed, nonce, totalRandomsNeeded);
+
+    const dragonPositions: number[][] = [];
+    let randomIdx = 0;
+
+    for (let level = 0; level < TOTAL_LEVELS; level++) {
+      const available = Array.from({ length: config.columns }, (_, i) => i);
+      const levelDragons: number[] = [];
+
+      for (let t = 0; t < config.traps; t++) {
+        const idx = Math.floor(randoms[randomIdx] * available.length);
+        levelDragons.push(available[idx]);
+        available.splice(idx, 1);
+        randomIdx++;
+      }
+
+      dragonPositions.push(levelDragons.sort((a, b) => a - b));
+    }
+
+    return dragonPositions;
+  }
+
   // -------------------------------------------------------------------------
   // Multiplier calculation
   // -------------------------------------------------------------------------
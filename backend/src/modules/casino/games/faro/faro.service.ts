@@ -1,4 +1,4 @@
-import { BaseGame, GameError, type GameResult, type BetRequest } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameError, type GameResult, type BetRequest, type ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Card helpers
@@ -77,21 +77,9 @@ export class FaroGame extends BaseGame {
     const seeds = await this.getUserSeeds(userId);
     const { serverSeed, serverSeedHash, clientSeed, nonce } = seeds;
 
-    // Draw 1 card
-    const rawResult = this.fairService.generateResult(serverSeed, clientSeed, nonce);
-    const deckIndex = Math.floor(rawResult * 52);
-    const drawnCard = indexToCard(deckIndex);
-
-    // Determine win
-    let isWin = false;
-    if (betType === 'low') {
-      isWin = drawnCard.value >= 1 && drawnCard.value <= 7;
-    } else if (betType === 'high') {
-      isWin = drawnCard.value >= 8 && drawnCard.value <= 13;
-    } else {
-      // match
-      isWin = drawnCard.value === cardValue;
-    }
+    // Result data — matches frontend FaroApiResponse.result
+    const resultData = this.replay(serverSeed, clientSeed, nonce, { bet: betType, cardValue, betAmount: amount });
+    const { isWin } = resultData;
 
     const multiplier = isWin ? PAYOUTS[betType] : 0;
     const payout = Math.floor(amount * multiplier * 100000000) / 100000000;
@@ -105,22 +93,11 @@ export class FaroGame extends BaseGame {
       await this.creditWinnings(userId, payout, currency);
     }
 
-    // Result data — matches frontend FaroApiResponse.result
-    const resultData = {
-      drawnCard: {
-        value: drawnCard.value,
-        suit: drawnCard.suit,
-        display: drawnCard.display,
-      },
-      bet: betType,
-      cardValue: cardValue ?? drawnCard.value,
-      isWin,
-    };
-
     // Record round
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency,
       betAmount: amount,
       payout,
       multiplier: isWin ? multiplier : 0,
@@ -152,6 +129,38 @@ export class FaroGame extends BaseGame {
       newBalance,
     };
   }
+
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const betType = options.bet as FaroBetType;
+    const cardValue = options.cardValue as number | undefined;
+
+    // Draw 1 card
+    const rawResult = this.fairService.generateResult(serverSeed, clientSeed, nonce);
+    const deckIndex = Math.floor(rawResult * 52);
+    const drawnCard = indexToCard(deckIndex);
+
+    // Determine win
+    let isWin = false;
+    if (betType === 'low') {
+      isWin = drawnCard.value >= 1 && drawnCard.value <= 7;
+    } else if (betType === 'high') {
+      isWin = drawnCard.value >= 8 && drawnCard.value <= 13;
+    } else {
+      // match
+      isWin = drawnCard.value === cardValue;
+    }
+
+    return {
+      drawnCard: {
+        value: drawnCard.value,
+        suit: drawnCard.suit,
+        display: drawnCard.display,
+      },
+      bet: betType,
+      cardValue: cardValue ?? drawnCard.value,
+      isWin,
+    };
+  }
 }
 
 export const faroGame = new FaroGame();
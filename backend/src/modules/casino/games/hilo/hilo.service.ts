@@ -1,5 +1,5 @@
 import { redis } from '../../../../lib/redis.js';
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // HiLo Game
@@ -30,6 +30,7 @@ interface HiLoState {
   deckPosition: number;
   currentCard: HiLoCard;
   history: HiLoCard[];      // all previously shown cards
+  guesses: Direction[];     // every guess made, in order
   currentMultiplier: number;
   roundNumber: number;      // how many guesses made
   isActive: boolean;
@@ -55,6 +56,39 @@ export class HiLoGame extends BaseGame {
     throw new GameError('NOT_SUPPORTED', 'Use start/guess/cashout for HiLo.');
   }
 
+  /**
+   * Rebuild a finished chain from the player's guesses: the first card of the
+   * seeded deck is dealt and each guess draws the next one. A wrong guess (or
+   * an equal card) ends the chain, otherwise the player cashed out.
+   */
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions): Record<string, any> {
+    const guesses: Direction[] = options.guesses;
+    const deck = this.fairService.generateShuffledDeck(serverSeed, clientSeed, nonce);
+    const history = [this.indexToCard(deck[0])];
+
+    for (let i = 0; i < guesses.length; i++) {
+      const previousCard = history[i];
+      const newCard = this.indexToCard(deck[i + 1]);
+      history.push(newCard);
+
+      const isCorrect =
+        (guesses[i] === 'higher' && newCard.value > previousCard.value) ||
+        (guesses[i] === 'lower' && newCard.value < previousCard.value);
+
+      if (!isCorrect) {
+        return {
+          history,
+          guesses: guesses.slice(0, i + 1),
+          lastGuess: guesses[i],
+          correct: false,
+          roundsPlayed: i + 1,
+        };
+      }
+    }
+
+    return { history, guesses, cashedOut: true, roundsPlayed: guesses.length };
+  }
+
   // =======================================================================
   // Card helpers
   // =======================================================================
@@ -158,6 +192,7 @@ export class HiLoGame extends BaseGame {
       deckPosition: 1,
       currentCard: firstCard,
       history: [firstCard],
+      guesses: [],
       currentMultiplier: 1.0,
       roundNumber: 0,
       isActive: true,
@@ -225,6 +260,7 @@ export class HiLoGame extends BaseGame {
 
     state.currentCard = newCard;
     state.history.push(newCard);
+    state.guesses.push(direction);
     state.roundNumber++;
 
     if (!isCorrect) {
@@ -236,11 +272,13 @@ export class HiLoGame extends BaseGame {
       await this.recordRound({
         userId,
         gameSlug: this.slug,
+        currency: state.currency,
         betAmount: state.betAmount,
         payout: 0,
         multiplier: 0,
         result: {
           history: state.history,
+          guesses: state.guesses,
           lastGuess: direction,
           correct: false,
           roundsPlayed: state.roundNumber,
@@ -327,11 +365,13 @@ export class HiLoGame extends BaseGame {
     await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: state.currency,
       betAmount: state.betAmount,
       payout,
       multiplier: state.currentMultiplier,
       result: {
         history: state.history,
+        guesses: state.guesses,
         cashedOut: true,
         roundsPlayed: state.roundNumber,
       },
@@ -1,4 +1,4 @@
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Horse Racing Casino Game
@@ -76,41 +76,28 @@ export class HorseRacingGame extends BaseGame {
     // Get user seeds
     const seeds = await this.getUserSeeds(userId);
 
-    // Generate the race using provably fair randomness
-    // We need 6 horses * 10 segments = 60 random values
-    const randoms = this.fairService.generateMultipleResults(
+    // Deduct balance
+    await this.deductBalance(userId, bet.amount, bet.currency);
+
+    // Run the race
+    const { result, raceSegments } = this.runRace(
       seeds.serverSeed,
       seeds.clientSeed,
       seeds.nonce,
-      HORSES.length * RACE_SEGMENTS,
+      horseId,
+      betType,
     );
+    const { isWin } = result;
 
-    // Deduct balance
-    await this.deductBalance(userId, bet.amount, bet.currency);
-
-    // Simulate the race
-    const { finishing, raceSegments } = this.simulateRace(randoms);
-
-    // Determine win
+    // Determine multiplier
     const selectedHorse = HORSES.find((h) => h.id === horseId)!;
-    const finishPosition = finishing.indexOf(horseId) + 1; // 1-indexed position
-
-    let isWin = false;
     let multiplier = 0;
 
-    switch (betType) {
-      case 'win':
-        isWin = finishPosition === 1;
-        multiplier = isWin ? selectedHorse.winOdds : 0;
-        break;
-      case 'place':
-        isWin = finishPosition <= 2;
-        multiplier = isWin ? selectedHorse.placeOdds : 0;
-        break;
-      case 'show':
-        isWin = finishPosition <= 3;
-        multiplier = isWin ? selectedHorse.showOdds : 0;
-        break;
+    if (isWin) {
+      multiplier =
+        betType === 'win' ? selectedHorse.winOdds
+          : betType === 'place' ? selectedHorse.placeOdds
+            : selectedHorse.showOdds;
     }
 
     // Apply house edge to multiplier
@@ -134,24 +121,11 @@ export class HorseRacingGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: bet.currency,
       betAmount: bet.amount,
       payout,
       multiplier,
-      result: {
-        selectedHorse: horseId,
-        betType,
-        finishing,
-        finishPosition,
-        isWin,
-        horses: HORSES.map((h) => ({
-          id: h.id,
-          name: h.name,
-          color: h.color,
-          winOdds: h.winOdds,
-          placeOdds: h.placeOdds,
-          showOdds: h.showOdds,
-        })),
-      },
+      result,
       serverSeedHash: seeds.serverSeedHash,
       clientSeed: seeds.clientSeed,
       nonce: seeds.nonce,
@@ -171,9 +145,61 @@ export class HorseRacingGame extends BaseGame {
         selectedHorseName: selectedHorse.name,
         selectedHorseColor: selectedHorse.color,
         betType,
+        finishing: result.finishing,
+        finishPosition: result.finishPosition,
+        raceSegments,
+        isWin,
+        horses: result.horses,
+      },
+      fairness: {
+        serverSeedHash: seeds.serverSeedHash,
+        clientSeed: seeds.clientSeed,
+        nonce: seeds.nonce,
+      },
+      newBalance,
+    };
+  }
+
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    return this.runRace(serverSeed, clientSeed, nonce, options.selectedHorse, options.betType).result;
+  }
+
+  /**
+   * Run the race for a bet: the round result as recorded, plus the
+   * segment-by-segment data used for the animation.
+   */
+  private runRace(
+    serverSeed: string,
+    clientSeed: string,
+    nonce: number,
+    horseId: number,
+    betType: BetType,
+  ) {
+    // Generate the race using provably fair randomness
+    // We need 6 horses * 10 segments = 60 random values
+    const randoms = this.fairService.generateMultipleResults(
+      serverSeed,
+      clientSeed,
+      nonce,
+      HORSES.length * RACE_SEGMENTS,
+    );
+
+    // Simulate the race
+    const { finishing, raceSegments } = this.simulateRace(randoms);
+
+    // Determine win
+    const finishPosition = finishing.indexOf(horseId) + 1; // 1-indexed position
+    const isWin =
+      betType === 'win' ? finishPosition === 1
+        : betType === 'place' ? finishPosition <= 2
+          : finishPosition <= 3;
+
+    return {
+      result: {
+        selectedHorse: horseId,
+        betType,
         finishing,
         finishPosition,
-        raceSegments,
         isWin,
         horses: HORSES.map((h) => ({
           id: h.id,
@@ -184,12 +210,7 @@ export class HorseRacingGame extends BaseGame {
           showOdds: h.showOdds,
         })),
       },
-      fairness: {
-        serverSeedHash: seeds.serverSeedHash,
-        clientSeed: seeds.clientSeed,
-        nonce: seeds.nonce,
-      },
-      newBalance,
+      raceSegments,
     };
   }
 
@@ -1,7 +1,8 @@
 import { Decimal } from '@prisma/client/runtime/library';
-import { BaseGame, GameError, type GameResult, type BetRequest } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameError, type GameResult, type BetRequest, type ReplayOptions } from '../../../../services/casino/BaseGame.js';
 import { prisma } from '../../../../lib/prisma.js';
 import { redis } from '../../../../lib/redis.js';
+import { isDemoPlay } from '../../demo.service.js';
 
 // ---------------------------------------------------------------------------
 // Symbol definitions
@@ -163,6 +164,100 @@ export class JackpotSlotsGame extends BaseGame {
     const seeds = await this.getUserSeeds(userId);
     const { serverSeed, serverSeedHash, clientSeed, nonce } = seeds;
 
+    const bonusRound = options?.bonusRound === true;
+
+    // Spin; the jackpot pools are settled below
+    const spin = this.replay(serverSeed, clientSeed, nonce, {
+      betPerLine,
+      bonusRound,
+      jackpotAmount: 0,
+      currentJackpots: null,
+      betAmount: totalBet,
+    });
+    const { jackpotWon } = spin;
+
+    // Contribute to jackpot pool (demo spins neither feed nor win the real pools)
+    const demo = isDemoPlay();
+    if (!demo) {
+      await this.contributeToJackpot(totalBet);
+    }
+
+    let jackpotAmount = 0;
+    if (jackpotWon && !demo) {
+      const tierKey = jackpotWon.toUpperCase() as JackpotTier;
+      jackpotAmount = await this.awardJackpot(userId, tierKey, currency);
+    }
+
+    // Add jackpot winnings to total
+    const totalPayout = spin.totalPayout + jackpotAmount;
+
+    const effectiveMultiplier = totalBet > 0 ? totalPayout / totalBet : 0;
+    const profit = totalPayout - totalBet;
+
+    // Deduct balance
+    await this.deductBalance(userId, totalBet, currency);
+
+    // Credit winnings (jackpot already credited in awardJackpot, so credit only slot winnings)
+    const slotWinnings = totalPayout - jackpotAmount;
+    if (slotWinnings > 0) {
+      await this.creditWinnings(userId, slotWinnings, currency);
+    }
+
+    // Get current jackpot amounts for display
+    const currentJackpots = await this.getJackpotAmounts();
+
+    const result = { ...spin, totalPayout, jackpotAmount, currentJackpots };
+
+    // Record round
+    const roundId = await this.recordRound({
+      userId,
+      gameSlug: this.slug,
+      currency,
+      betAmount: totalBet,
+      payout: totalPayout,
+      multiplier: effectiveMultiplier,
+      result,
+      serverSeedHash,
+      clientSeed,
+      nonce,
+    });
+
+    // Increment nonce
+    await this.incrementNonce(userId);
+
+    // Fetch updated balance
+    const newBalance = await this.getBalance(userId, currency);
+
+    return {
+      roundId,
+      game: this.slug,
+      betAmount: totalBet,
+      payout: totalPayout,
+      profit,
+      multiplier: effectiveMultiplier,
+      result: {
+        ...result,
+        activeLines: ACTIVE_LINES,
+      },
+      fairness: {
+        serverSeedHash,
+        clientSeed,
+        nonce,
+      },
+      newBalance,
+    };
+  }
+
+  /**
+   * Jackpot pool amounts are not derived from the seeds: the amount paid out
+   * and the pool sizes shown are taken from `options` as recorded.
+   */
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const betPerLine = options.betPerLine as number;
+    const bonusRound = options.bonusRound === true;
+    const jackpotAmount = (options.jackpotAmount as number | undefined) ?? 0;
+    const totalBet = betPerLine * ACTIVE_LINES;
+
     // Generate 15 random values (5 reels x 3 rows)
     const randoms = this.fairService.generateMultipleResults(serverSeed, clientSeed, nonce, 15);
 
@@ -177,8 +272,6 @@ export class JackpotSlotsGame extends BaseGame {
       grid.push(column);
     }
 
-    // Contribute to jackpot pool
-    await this.contributeToJackpot(totalBet);
     const jackpotContribution = totalBet * JACKPOT_CONTRIBUTION_RATE;
 
     // Count jackpot symbols on the middle row (row index 1) across all 5 reels
@@ -191,7 +284,6 @@ export class JackpotSlotsGame extends BaseGame {
 
     // Determine jackpot win
     let jackpotWon: 'mini' | 'major' | 'grand' | null = null;
-    let jackpotAmount = 0;
 
     if (jackpotSymbolCount >= 5) {
       jackpotWon = 'grand';
@@ -201,11 +293,6 @@ export class JackpotSlotsGame extends BaseGame {
       jackpotWon = 'mini';
     }
 
-    if (jackpotWon) {
-      const tierKey = jackpotWon.toUpperCase() as JackpotTier;
-      jackpotAmount = await this.awardJackpot(userId, tierKey, currency);
-    }
-
     // Count scatters
     let scatterCount = 0;
     for (let reel = 0; reel < 5; reel++) {
@@ -219,7 +306,6 @@ export class JackpotSlotsGame extends BaseGame {
     else if (scatterCount >= 4) freeSpinsWon = 20;
     else if (scatterCount >= 3) freeSpinsWon = 10;
 
-    const bonusRound = options?.bonusRound === true;
     const bonusMultiplier = bonusRound ? 3 : 1;
 
     // Evaluate paylines
@@ -278,18 +364,6 @@ export class JackpotSlotsGame extends BaseGame {
     // Add jackpot winnings to total
     totalPayout += jackpotAmount;
 
-    const effectiveMultiplier = totalBet > 0 ? totalPayout / totalBet : 0;
-    const profit = totalPayout - totalBet;
-
-    // Deduct balance
-    await this.deductBalance(userId, totalBet, currency);
-
-    // Credit winnings (jackpot already credited in awardJackpot, so credit only slot winnings)
-    const slotWinnings = totalPayout - jackpotAmount;
-    if (slotWinnings > 0) {
-      await this.creditWinnings(userId, slotWinnings, currency);
-    }
-
     // Build grid display (reel-major to row-major)
     const gridDisplay: { id: number; name: string; icon: string }[][] = [];
     for (let row = 0; row < 3; row++) {
@@ -301,66 +375,18 @@ export class JackpotSlotsGame extends BaseGame {
       gridDisplay.push(rowArr);
     }
 
-    // Get current jackpot amounts for display
-    const currentJackpots = await this.getJackpotAmounts();
-
-    // Record round
-    const roundId = await this.recordRound({
-      userId,
-      gameSlug: this.slug,
-      betAmount: totalBet,
-      payout: totalPayout,
-      multiplier: effectiveMultiplier,
-      result: {
-        grid: gridDisplay,
-        winLines,
-        scatterCount,
-        freeSpinsWon,
-        totalPayout,
-        bonusRound,
-        jackpotWon,
-        jackpotAmount,
-        currentJackpots,
-        jackpotContribution,
-      },
-      serverSeedHash,
-      clientSeed,
-      nonce,
-    });
-
-    // Increment nonce
-    await this.incrementNonce(userId);
-
-    // Fetch updated balance
-    const newBalance = await this.getBalance(userId, currency);
-
     return {
-      roundId,
-      game: this.slug,
-      betAmount: totalBet,
-      payout: totalPayout,
-      profit,
-      multiplier: effectiveMultiplier,
-      result: {
-        grid: gridDisplay,
-        winLines,
-        scatterCount,
-        freeSpinsWon,
-        totalPayout,
-        bonusRound,
-        betPerLine,
-        activeLines: ACTIVE_LINES,
-        jackpotWon,
-        jackpotAmount,
-        currentJackpots,
-        jackpotContribution,
-      },
-      fairness: {
-        serverSeedHash,
-        clientSeed,
-        nonce,
-      },
-      newBalance,
+      grid: gridDisplay,
+      winLines,
+      scatterCount,
+      freeSpinsWon,
+      totalPayout,
+      bonusRound,
+      betPerLine,
+      jackpotWon,
+      jackpotAmount,
+      currentJackpots: options.currentJackpots ?? null,
+      jackpotContribution,
     };
   }
 
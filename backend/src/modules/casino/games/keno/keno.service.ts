@@ -1,4 +1,4 @@
-import { BaseGame, GameError, type GameResult, type BetRequest } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameError, type GameResult, type BetRequest, type ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Payout table
@@ -64,13 +64,8 @@ export class KenoGame extends BaseGame {
     const seeds = await this.getUserSeeds(userId);
     const { serverSeed, serverSeedHash, clientSeed, nonce } = seeds;
 
-    // Generate 10 drawn numbers using provably fair (no duplicates)
-    const drawnNumbers = this.generateKenoDrawn(serverSeed, clientSeed, nonce);
-
-    // Count matches
-    const drawnSet = new Set(drawnNumbers);
-    const matches = picks.filter((p) => drawnSet.has(p));
-    const matchCount = matches.length;
+    const outcome = this.replay(serverSeed, clientSeed, nonce, { picks, betAmount: amount });
+    const { matchCount } = outcome;
 
     // Look up multiplier in payout table
     const table = PAYOUT_TABLE[picks.length];
@@ -90,16 +85,11 @@ export class KenoGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency,
       betAmount: amount,
       payout,
       multiplier,
-      result: {
-        picks: picks.sort((a, b) => a - b),
-        drawnNumbers: drawnNumbers.sort((a, b) => a - b),
-        matches: matches.sort((a, b) => a - b),
-        matchCount,
-        numPicks: picks.length,
-      },
+      result: outcome,
       serverSeedHash,
       clientSeed,
       nonce,
@@ -119,11 +109,7 @@ export class KenoGame extends BaseGame {
       profit,
       multiplier,
       result: {
-        picks: picks.sort((a, b) => a - b),
-        drawnNumbers: drawnNumbers.sort((a, b) => a - b),
-        matches: matches.sort((a, b) => a - b),
-        matchCount,
-        numPicks: picks.length,
+        ...outcome,
         payoutTable: table,
       },
       fairness: {
@@ -135,6 +121,25 @@ export class KenoGame extends BaseGame {
     };
   }
 
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const picks = options.picks as number[];
+
+    // Generate 10 drawn numbers using provably fair (no duplicates)
+    const drawnNumbers = this.generateKenoDrawn(serverSeed, clientSeed, nonce);
+
+    // Count matches
+    const drawnSet = new Set(drawnNumbers);
+    const matches = picks.filter((p) => drawnSet.has(p));
+
+    return {
+      picks: [...picks].sort((a, b) => a - b),
+      drawnNumbers: drawnNumbers.sort((a, b) => a - b),
+      matches: matches.sort((a, b) => a - b),
+      matchCount: matches.length,
+      numPicks: picks.length,
+    };
+  }
+
   /**
    * Generate 10 unique drawn numbers in [1, GRID_SIZE] using provably fair.
    * Uses Fisher-Yates selection from available numbers.
@@ -1,5 +1,5 @@
 import crypto from 'crypto';
-import { BaseGame, GameError, type GameResult, type BetRequest } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameError, type GameResult, type BetRequest, type ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // LimboGame
@@ -40,19 +40,14 @@ export class LimboGame extends BaseGame {
     const seeds = await this.getUserSeeds(userId);
     const { serverSeed, serverSeedHash, clientSeed, nonce } = seeds;
 
-    // Generate result using crash-like formula
-    // Result = max(1.00, (1 - houseEdge) * 2^32 / (2^32 - hashInt))
-    const resultMultiplier = this.generateLimboResult(serverSeed, clientSeed, nonce);
+    const outcome = this.replay(serverSeed, clientSeed, nonce, { targetMultiplier, betAmount: amount });
 
     // Win if result >= target
-    const isWin = resultMultiplier >= targetMultiplier;
+    const isWin = outcome.isWin;
     const payout = isWin ? amount * targetMultiplier : 0;
     const multiplier = isWin ? targetMultiplier : 0;
     const profit = payout - amount;
 
-    // Win probability = (1 - houseEdge) / target
-    const winChance = ((1 - this.houseEdge) / targetMultiplier) * 100;
-
     // Deduct balance
     await this.deductBalance(userId, amount, currency);
 
@@ -65,15 +60,11 @@ export class LimboGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency,
       betAmount: amount,
       payout,
       multiplier,
-      result: {
-        targetMultiplier,
-        resultMultiplier,
-        isWin,
-        winChance: Math.round(winChance * 100) / 100,
-      },
+      result: outcome,
       serverSeedHash,
       clientSeed,
       nonce,
@@ -92,12 +83,7 @@ export class LimboGame extends BaseGame {
       payout,
       profit,
       multiplier,
-      result: {
-        targetMultiplier,
-        resultMultiplier,
-        isWin,
-        winChance: Math.round(winChance * 100) / 100,
-      },
+      result: outcome,
       fairness: {
         serverSeedHash,
         clientSeed,
@@ -107,6 +93,24 @@ export class LimboGame extends BaseGame {
     };
   }
 
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const targetMultiplier = options.targetMultiplier as number;
+
+    // Generate result using crash-like formula
+    // Result = max(1.00, (1 - houseEdge) * 2^32 / (2^32 - hashInt))
+    const resultMultiplier = this.generateLimboResult(serverSeed, clientSeed, nonce);
+
+    // Win probability = (1 - houseEdge) / target
+    const winChance = ((1 - this.houseEdge) / targetMultiplier) * 100;
+
+    return {
+      targetMultiplier,
+      resultMultiplier,
+      isWin: resultMultiplier >= targetMultiplier,
+      winChance: Math.round(winChance * 100) / 100,
+    };
+  }
+
   /**
    * Generate a Limbo result multiplier using the crash-point formula.
    * Result = max(1.00, (1 - houseEdge) * 2^32 / (2^32 - hashInt))
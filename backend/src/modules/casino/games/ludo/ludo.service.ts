@@ -1,4 +1,4 @@
-import { BaseGame, GameError, type GameResult, type BetRequest } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameError, type GameResult, type BetRequest, type ReplayOptions } from '../../../../services/casino/BaseGame.js';
 import { prisma } from '../../../../lib/prisma.js';
 import { redis } from '../../../../lib/redis.js';
 
@@ -41,6 +41,9 @@ interface LudoGameState {
   captures: { player: number; house: number };
   awaitingMove: boolean;
   movableTokens: number[];
+  autoPlay: boolean;
+  choices: number[];   // tokens the player picked when several could move
+  serverSeed: string;
   serverSeedHash: string;
   clientSeed: string;
   nonce: number;
@@ -333,45 +336,14 @@ export class LudoGame extends BaseGame {
 
     // Get provably fair seeds
     const seeds = await this.getUserSeeds(userId);
-    const { serverSeed, serverSeedHash, clientSeed, nonce } = seeds;
+    const { serverSeedHash, clientSeed, nonce } = seeds;
 
     // Deduct bet
     await this.deductBalance(userId, amount, currency);
 
     // Create initial game state
     const roundId = `ludo-${userId}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-
-    const state: LudoGameState = {
-      roundId,
-      userId,
-      betAmount: amount,
-      currency,
-      playerTokens: [
-        { position: HOME_BASE },
-        { position: HOME_BASE },
-        { position: HOME_BASE },
-        { position: HOME_BASE },
-      ],
-      houseTokens: [
-        { position: HOME_BASE },
-        { position: HOME_BASE },
-        { position: HOME_BASE },
-        { position: HOME_BASE },
-      ],
-      currentTurn: 'player',
-      diceRoll: null,
-      isGameOver: false,
-      winner: null,
-      moveHistory: [],
-      rollCount: 0,
-      captures: { player: 0, house: 0 },
-      awaitingMove: false,
-      movableTokens: [],
-      serverSeedHash,
-      clientSeed,
-      nonce,
-      rollNonce: 0,
-    };
+    const state = this.createState(roundId, userId, amount, currency, seeds, autoPlay ?? false);
 
     // Store state in Redis
     await redis.set(
@@ -441,95 +413,12 @@ export class LudoGame extends BaseGame {
       throw new GameError('GAME_OVER', 'This game is already finished.');
     }
 
-    if (state.awaitingMove) {
-      throw new GameError('AWAITING_MOVE', 'You must move a token before rolling again.');
-    }
-
-    // Generate provably fair dice roll (1-6)
-    // Use sub-nonce for multiple rolls within the same game
-    const seeds = await this.getUserSeeds(userId);
-    const pfResult = this.fairService.generateResult(
-      seeds.serverSeed,
-      seeds.clientSeed,
-      seeds.nonce * 1000 + state.rollNonce,
-    );
-    const diceRoll = Math.floor(pfResult * 6) + 1;
-    state.diceRoll = diceRoll;
-    state.rollNonce++;
-    state.rollCount++;
-
-    const isPlayerTurn = state.currentTurn === 'player';
-    const tokens = isPlayerTurn ? state.playerTokens : state.houseTokens;
-    const enemyTokens = isPlayerTurn ? state.houseTokens : state.playerTokens;
-
-    // Find movable tokens
-    const movable = getMovableTokens(tokens, diceRoll, isPlayerTurn);
-    state.movableTokens = movable;
-
-    if (movable.length === 0) {
-      // No valid moves, skip turn
-      state.awaitingMove = false;
-      state.currentTurn = isPlayerTurn ? 'house' : 'player';
-      state.diceRoll = null;
-      state.movableTokens = [];
-
-      // If it's now the house's turn, auto-play house
-      if (state.currentTurn === 'house') {
-        await this.saveState(state);
-        return this.playHouseTurn(state, currency);
-      }
-
-      await this.saveState(state);
-    } else if (movable.length === 1) {
-      // Only one option, auto-move
-      const tokenIdx = movable[0];
-      const token = tokens[tokenIdx];
-      const fromPos = token.position;
-      const result = moveToken(token, diceRoll, isPlayerTurn, enemyTokens);
-      token.position = result.newPosition;
-
-      if (result.captured) {
-        if (isPlayerTurn) state.captures.player++;
-        else state.captures.house++;
-      }
-
-      state.moveHistory.push({
-        turn: state.currentTurn,
-        dice: diceRoll,
-        tokenIndex: tokenIdx,
-        from: fromPos,
-        to: result.newPosition,
-        captured: result.captured,
-      });
-
-      state.awaitingMove = false;
-      state.movableTokens = [];
-
-      // Check win condition
-      if (allTokensFinished(tokens)) {
-        state.isGameOver = true;
-        state.winner = isPlayerTurn ? 'player' : 'house';
-        await this.finishGame(state);
-      } else {
-        // If rolled 6, same player goes again
-        if (diceRoll !== 6) {
-          state.currentTurn = isPlayerTurn ? 'house' : 'player';
-        }
-        state.diceRoll = null;
-
-        // If house turn, auto-play
-        if (state.currentTurn === 'house' && !state.isGameOver) {
-          await this.saveState(state);
-          return this.playHouseTurn(state, currency);
-        }
-      }
+    this.applyRoll(state);
 
-      await this.saveState(state);
-    } else {
-      // Multiple options - player must choose
-      state.awaitingMove = true;
-      await this.saveState(state);
+    if (state.isGameOver) {
+      await this.finishGame(state);
     }
+    await this.saveState(state);
 
     const newBalance = await this.getBalance(userId, currency);
 
@@ -565,30 +454,158 @@ export class LudoGame extends BaseGame {
       throw new GameError('GAME_OVER', 'This game is already finished.');
     }
 
-    if (!state.awaitingMove) {
-      throw new GameError('NOT_AWAITING_MOVE', 'Roll the dice first before moving.');
+    this.applyPlayerMove(state, tokenIndex);
+
+    if (state.isGameOver) {
+      await this.finishGame(state);
     }
+    await this.saveState(state);
 
-    if (state.currentTurn !== 'player') {
-      throw new GameError('NOT_YOUR_TURN', 'It is not your turn.');
+    const newBalance = await this.getBalance(userId, currency);
+    return this.buildResult(state, newBalance);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Auto-play: run entire game automatically
+  // ---------------------------------------------------------------------------
+
+  private async runAutoPlay(state: LudoGameState): Promise<GameResult> {
+    this.applyAutoPlay(state);
+
+    await this.finishGame(state);
+    await this.saveState(state);
+    const newBalance = await this.getBalance(state.userId, state.currency);
+    return this.buildResult(state, newBalance);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Replay
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Replay a finished game from the seeds: every die is rolled from
+   * nonce * 1000 + roll index, the house (and auto-play) move by the AI,
+   * and the player's own picks come from `options.choices`.
+   */
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions): Record<string, any> {
+    const state = this.createState('', '', options.betAmount, '', { serverSeed, serverSeedHash: '', clientSeed, nonce }, options.autoPlay ?? false);
+
+    if (state.autoPlay) {
+      this.applyAutoPlay(state);
+      return this.buildRoundResult(state);
     }
 
-    if (!state.movableTokens.includes(tokenIndex)) {
-      throw new GameError('TOKEN_NOT_MOVABLE', 'This token cannot be moved with the current dice roll.');
+    const choices: number[] = options.choices ?? [];
+    let maxIterations = 2000; // Safety
+
+    while (!state.isGameOver && maxIterations-- > 0) {
+      if (state.awaitingMove) {
+        if (state.choices.length >= choices.length) break;
+        this.applyPlayerMove(state, choices[state.choices.length]);
+      } else {
+        this.applyRoll(state);
+      }
     }
 
-    const diceRoll = state.diceRoll!;
-    const token = state.playerTokens[tokenIndex];
+    if (!state.isGameOver) {
+      throw new GameError('INCOMPLETE_GAME', 'The recorded choices do not finish the game.');
+    }
+    return this.buildRoundResult(state);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Game flow
+  // ---------------------------------------------------------------------------
+  // The apply* methods only change the game state; dice come from the seeds
+  // kept on the state, so replay() runs exactly the same rules as live play.
+
+  private createState(
+    roundId: string,
+    userId: string,
+    betAmount: number,
+    currency: string,
+    seeds: Pick<LudoGameState, 'serverSeed' | 'serverSeedHash' | 'clientSeed' | 'nonce'>,
+    autoPlay: boolean,
+  ): LudoGameState {
+    return {
+      roundId,
+      userId,
+      betAmount,
+      currency,
+      playerTokens: [
+        { position: HOME_BASE },
+        { position: HOME_BASE },
+        { position: HOME_BASE },
+        { position: HOME_BASE },
+      ],
+      houseTokens: [
+        { position: HOME_BASE },
+        { position: HOME_BASE },
+        { position: HOME_BASE },
+        { position: HOME_BASE },
+      ],
+      currentTurn: 'player',
+      diceRoll: null,
+      isGameOver: false,
+      winner: null,
+      moveHistory: [],
+      rollCount: 0,
+      captures: { player: 0, house: 0 },
+      awaitingMove: false,
+      movableTokens: [],
+      autoPlay,
+      choices: [],
+      serverSeed: seeds.serverSeed,
+      serverSeedHash: seeds.serverSeedHash,
+      clientSeed: seeds.clientSeed,
+      nonce: seeds.nonce,
+      rollNonce: 0,
+    };
+  }
+
+  /**
+   * Roll the die for whoever's turn it is, using a sub-nonce for each roll
+   * within the game. The house die has an extra 3% chance of a 6.
+   */
+  private rollDie(state: LudoGameState, isPlayerTurn: boolean): number {
+    const pfResult = this.fairService.generateResult(
+      state.serverSeed,
+      state.clientSeed,
+      state.nonce * 1000 + state.rollNonce,
+    );
+    state.rollNonce++;
+    state.rollCount++;
+
+    if (isPlayerTurn) {
+      return Math.floor(pfResult * 6) + 1;
+    }
+    if (pfResult < 0.03) {
+      return 6;
+    }
+    const diceRoll = Math.floor(((pfResult - 0.03) / 0.97) * 6) + 1;
+    return Math.min(6, Math.max(1, diceRoll));
+  }
+
+  /**
+   * Move a token, count captures and log the move. Returns true (and ends
+   * the game) if that side now has all tokens home.
+   */
+  private moveAndRecord(state: LudoGameState, isPlayerTurn: boolean, tokenIndex: number, diceRoll: number): boolean {
+    const tokens = isPlayerTurn ? state.playerTokens : state.houseTokens;
+    const enemyTokens = isPlayerTurn ? state.houseTokens : state.playerTokens;
+
+    const token = tokens[tokenIndex];
     const fromPos = token.position;
-    const result = moveToken(token, diceRoll, true, state.houseTokens);
+    const result = moveToken(token, diceRoll, isPlayerTurn, enemyTokens);
     token.position = result.newPosition;
 
     if (result.captured) {
-      state.captures.player++;
+      if (isPlayerTurn) state.captures.player++;
+      else state.captures.house++;
     }
 
     state.moveHistory.push({
-      turn: 'player',
+      turn: isPlayerTurn ? 'player' : 'house',
       dice: diceRoll,
       tokenIndex,
       from: fromPos,
@@ -596,66 +613,98 @@ export class LudoGame extends BaseGame {
       captured: result.captured,
     });
 
-    state.awaitingMove = false;
-    state.movableTokens = [];
-
-    // Check win
-    if (allTokensFinished(state.playerTokens)) {
+    if (allTokensFinished(tokens)) {
       state.isGameOver = true;
-      state.winner = 'player';
-      await this.finishGame(state);
-      await this.saveState(state);
-      const newBalance = await this.getBalance(userId, currency);
-      return this.buildResult(state, newBalance);
+      state.winner = isPlayerTurn ? 'player' : 'house';
+      return true;
     }
+    return false;
+  }
 
-    // If rolled 6, player goes again
-    if (diceRoll !== 6) {
-      state.currentTurn = 'house';
+  private applyRoll(state: LudoGameState): void {
+    if (state.awaitingMove) {
+      throw new GameError('AWAITING_MOVE', 'You must move a token before rolling again.');
+    }
+
+    const isPlayerTurn = state.currentTurn === 'player';
+    const tokens = isPlayerTurn ? state.playerTokens : state.houseTokens;
+
+    const diceRoll = this.rollDie(state, isPlayerTurn);
+    state.diceRoll = diceRoll;
+
+    // Find movable tokens
+    const movable = getMovableTokens(tokens, diceRoll, isPlayerTurn);
+    state.movableTokens = movable;
+
+    if (movable.length === 0) {
+      // No valid moves, skip turn
+      state.awaitingMove = false;
+      state.currentTurn = isPlayerTurn ? 'house' : 'player';
       state.diceRoll = null;
+      state.movableTokens = [];
+    } else if (movable.length === 1) {
+      // Only one option, auto-move
+      const won = this.moveAndRecord(state, isPlayerTurn, movable[0], diceRoll);
+      state.awaitingMove = false;
+      state.movableTokens = [];
+      if (won) return;
 
-      // Auto-play house turn(s)
-      await this.saveState(state);
-      return this.playHouseTurn(state, currency);
-    } else {
+      // If rolled 6, same player goes again
+      if (diceRoll !== 6) {
+        state.currentTurn = isPlayerTurn ? 'house' : 'player';
+      }
       state.diceRoll = null;
-      await this.saveState(state);
+    } else {
+      // Multiple options - player must choose
+      state.awaitingMove = true;
+      return;
     }
 
-    const newBalance = await this.getBalance(userId, currency);
-    return this.buildResult(state, newBalance);
+    // If it's now the house's turn, auto-play house
+    if (state.currentTurn === 'house') {
+      this.applyHouseTurn(state);
+    }
   }
 
-  // ---------------------------------------------------------------------------
-  // House AI turn (loops until it's player's turn or game over)
-  // ---------------------------------------------------------------------------
+  private applyPlayerMove(state: LudoGameState, tokenIndex: number): void {
+    if (!state.awaitingMove) {
+      throw new GameError('NOT_AWAITING_MOVE', 'Roll the dice first before moving.');
+    }
+
+    if (state.currentTurn !== 'player') {
+      throw new GameError('NOT_YOUR_TURN', 'It is not your turn.');
+    }
+
+    if (!state.movableTokens.includes(tokenIndex)) {
+      throw new GameError('TOKEN_NOT_MOVABLE', 'This token cannot be moved with the current dice roll.');
+    }
+
+    const diceRoll = state.diceRoll!;
+    state.choices.push(tokenIndex);
+    const won = this.moveAndRecord(state, true, tokenIndex, diceRoll);
+
+    state.awaitingMove = false;
+    state.movableTokens = [];
+    if (won) return;
+
+    state.diceRoll = null;
 
-  private async playHouseTurn(state: LudoGameState, currency: string): Promise<GameResult> {
+    // If rolled 6, player goes again
+    if (diceRoll !== 6) {
+      state.currentTurn = 'house';
+      this.applyHouseTurn(state);
+    }
+  }
+
+  /**
+   * House AI turn (loops until it's player's turn or game over)
+   */
+  private applyHouseTurn(state: LudoGameState): void {
     let maxIterations = 200; // Safety limit
 
     while (state.currentTurn === 'house' && !state.isGameOver && maxIterations-- > 0) {
-      // Roll dice for house
-      const seeds = await this.getUserSeeds(state.userId);
-      const pfResult = this.fairService.generateResult(
-        seeds.serverSeed,
-        seeds.clientSeed,
-        seeds.nonce * 1000 + state.rollNonce,
-      );
-
-      // Slight house advantage: house dice has ~3% better chance of rolling 6
-      // This is achieved by adjusting the dice distribution slightly
-      let diceRoll: number;
-      if (pfResult < 0.03) {
-        // Extra 3% chance of 6
-        diceRoll = 6;
-      } else {
-        diceRoll = Math.floor(((pfResult - 0.03) / 0.97) * 6) + 1;
-        diceRoll = Math.min(6, Math.max(1, diceRoll));
-      }
-
+      const diceRoll = this.rollDie(state, false);
       state.diceRoll = diceRoll;
-      state.rollNonce++;
-      state.rollCount++;
 
       const movable = getMovableTokens(state.houseTokens, diceRoll, false);
 
@@ -675,29 +724,7 @@ export class LudoGame extends BaseGame {
         break;
       }
 
-      const token = state.houseTokens[bestIdx];
-      const fromPos = token.position;
-      const result = moveToken(token, diceRoll, false, state.playerTokens);
-      token.position = result.newPosition;
-
-      if (result.captured) {
-        state.captures.house++;
-      }
-
-      state.moveHistory.push({
-        turn: 'house',
-        dice: diceRoll,
-        tokenIndex: bestIdx,
-        from: fromPos,
-        to: result.newPosition,
-        captured: result.captured,
-      });
-
-      // Check win
-      if (allTokensFinished(state.houseTokens)) {
-        state.isGameOver = true;
-        state.winner = 'house';
-        await this.finishGame(state);
+      if (this.moveAndRecord(state, false, bestIdx, diceRoll)) {
         break;
       }
 
@@ -708,17 +735,12 @@ export class LudoGame extends BaseGame {
         state.movableTokens = [];
       }
     }
-
-    await this.saveState(state);
-    const newBalance = await this.getBalance(state.userId, currency);
-    return this.buildResult(state, newBalance);
   }
 
-  // ---------------------------------------------------------------------------
-  // Auto-play: run entire game automatically
-  // ---------------------------------------------------------------------------
-
-  private async runAutoPlay(state: LudoGameState): Promise<GameResult> {
+  /**
+   * Play the whole game with the AI moving for both sides.
+   */
+  private applyAutoPlay(state: LudoGameState): void {
     let maxIterations = 2000; // Safety
 
     while (!state.isGameOver && maxIterations-- > 0) {
@@ -726,39 +748,12 @@ export class LudoGame extends BaseGame {
       const tokens = isPlayerTurn ? state.playerTokens : state.houseTokens;
       const enemyTokens = isPlayerTurn ? state.houseTokens : state.playerTokens;
 
-      // Roll dice
-      const seeds = await this.getUserSeeds(state.userId);
-      const pfResult = this.fairService.generateResult(
-        seeds.serverSeed,
-        seeds.clientSeed,
-        seeds.nonce * 1000 + state.rollNonce,
-      );
-
-      let diceRoll: number;
-      if (!isPlayerTurn && pfResult < 0.03) {
-        diceRoll = 6;
-      } else if (!isPlayerTurn) {
-        diceRoll = Math.floor(((pfResult - 0.03) / 0.97) * 6) + 1;
-        diceRoll = Math.min(6, Math.max(1, diceRoll));
-      } else {
-        diceRoll = Math.floor(pfResult * 6) + 1;
-      }
-
+      const diceRoll = this.rollDie(state, isPlayerTurn);
       state.diceRoll = diceRoll;
-      state.rollNonce++;
-      state.rollCount++;
 
       const movable = getMovableTokens(tokens, diceRoll, isPlayerTurn);
+      const bestIdx = movable.length === 0 ? -1 : findBestMove(tokens, diceRoll, isPlayerTurn, enemyTokens);
 
-      if (movable.length === 0) {
-        if (diceRoll !== 6) {
-          state.currentTurn = isPlayerTurn ? 'house' : 'player';
-        }
-        state.diceRoll = null;
-        continue;
-      }
-
-      const bestIdx = findBestMove(tokens, diceRoll, isPlayerTurn, enemyTokens);
       if (bestIdx === -1) {
         if (diceRoll !== 6) {
           state.currentTurn = isPlayerTurn ? 'house' : 'player';
@@ -767,30 +762,7 @@ export class LudoGame extends BaseGame {
         continue;
       }
 
-      const token = tokens[bestIdx];
-      const fromPos = token.position;
-      const result = moveToken(token, diceRoll, isPlayerTurn, enemyTokens);
-      token.position = result.newPosition;
-
-      if (result.captured) {
-        if (isPlayerTurn) state.captures.player++;
-        else state.captures.house++;
-      }
-
-      state.moveHistory.push({
-        turn: state.currentTurn,
-        dice: diceRoll,
-        tokenIndex: bestIdx,
-        from: fromPos,
-        to: result.newPosition,
-        captured: result.captured,
-      });
-
-      // Check win
-      if (allTokensFinished(tokens)) {
-        state.isGameOver = true;
-        state.winner = isPlayerTurn ? 'player' : 'house';
-        await this.finishGame(state);
+      if (this.moveAndRecord(state, isPlayerTurn, bestIdx, diceRoll)) {
         break;
       }
 
@@ -804,12 +776,7 @@ export class LudoGame extends BaseGame {
     if (!state.isGameOver) {
       state.isGameOver = true;
       state.winner = 'house';
-      await this.finishGame(state);
     }
-
-    await this.saveState(state);
-    const newBalance = await this.getBalance(state.userId, state.currency);
-    return this.buildResult(state, newBalance);
   }
 
   // ---------------------------------------------------------------------------
@@ -829,17 +796,11 @@ export class LudoGame extends BaseGame {
     await this.recordRound({
       userId: state.userId,
       gameSlug: this.slug,
+      currency: state.currency,
       betAmount: state.betAmount,
       payout,
       multiplier,
-      result: {
-        playerTokens: state.playerTokens.map((t) => t.position),
-        houseTokens: state.houseTokens.map((t) => t.position),
-        winner: state.winner,
-        rollCount: state.rollCount,
-        captures: state.captures,
-        moveCount: state.moveHistory.length,
-      },
+      result: this.buildRoundResult(state),
       serverSeedHash: state.serverSeedHash,
       clientSeed: state.clientSeed,
       nonce: state.nonce,
@@ -852,6 +813,19 @@ export class LudoGame extends BaseGame {
     await redis.del(`${REDIS_PREFIX}user:${state.userId}`);
   }
 
+  private buildRoundResult(state: LudoGameState): Record<string, any> {
+    return {
+      playerTokens: state.playerTokens.map((t) => t.position),
+      houseTokens: state.houseTokens.map((t) => t.position),
+      winner: state.winner,
+      rollCount: state.rollCount,
+      captures: state.captures,
+      moveCount: state.moveHistory.length,
+      autoPlay: state.autoPlay,
+      choices: state.choices,
+    };
+  }
+
   // ---------------------------------------------------------------------------
   // State helpers
   // ---------------------------------------------------------------------------
@@ -1,5 +1,5 @@
 import { redis } from '../../../../lib/redis.js';
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Mines Game
@@ -46,6 +46,33 @@ export class MinesGame extends BaseGame {
     throw new GameError('NOT_SUPPORTED', 'Use start/reveal/cashout for Mines.');
   }
 
+  /**
+   * Rebuild a finished game from the mine count and the tiles the player
+   * revealed, in order. A game ends on the first mine hit, on revealing every
+   * safe tile, or otherwise by cashing out.
+   */
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions): Record<string, any> {
+    const mineCount: number = options.mineCount;
+    const revealed: number[] = options.revealed;
+    const minePositions = this.fairService.generateMinePositions(serverSeed, clientSeed, nonce, mineCount);
+
+    const hitIndex = revealed.findIndex((position) => minePositions.includes(position));
+    if (hitIndex !== -1) {
+      return {
+        mineCount,
+        minePositions,
+        revealed: revealed.slice(0, hitIndex + 1),
+        hitMine: true,
+        hitPosition: revealed[hitIndex],
+      };
+    }
+
+    if (revealed.length === 25 - mineCount) {
+      return { mineCount, minePositions, revealed, hitMine: false, autoWin: true };
+    }
+    return { mineCount, minePositions, revealed, hitMine: false, cashedOut: true };
+  }
+
   // =======================================================================
   // Game actions
   // =======================================================================
@@ -170,6 +197,7 @@ export class MinesGame extends BaseGame {
       const recordedRoundId = await this.recordRound({
         userId,
         gameSlug: this.slug,
+        currency: state.currency,
         betAmount: state.betAmount,
         payout: 0,
         multiplier: 0,
@@ -236,6 +264,7 @@ export class MinesGame extends BaseGame {
       await this.recordRound({
         userId,
         gameSlug: this.slug,
+        currency: state.currency,
         betAmount: state.betAmount,
         payout,
         multiplier: state.currentMultiplier,
@@ -315,6 +344,7 @@ export class MinesGame extends BaseGame {
     await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: state.currency,
       betAmount: state.betAmount,
       payout,
       multiplier: state.currentMultiplier,
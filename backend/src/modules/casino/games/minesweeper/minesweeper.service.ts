@@ -1,5 +1,5 @@
 import { redis } from '../../../../lib/redis.js';
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Minesweeper Casino Game
@@ -21,6 +21,8 @@ interface MinesweeperState {
   revealed: boolean[][];
   // Which tiles are flagged
   flags: boolean[][];
+  // Tiles the player clicked to reveal, in order
+  clicks: { x: number; y: number }[];
   revealedCount: number;
   totalSafeTiles: number;
   currentMultiplier: number;
@@ -75,6 +77,41 @@ export class MinesweeperGame extends BaseGame {
     throw new GameError('INVALID_ACTION', 'Must provide action: start, reveal, flag, or cashout.');
   }
 
+  /**
+   * Rebuild a finished game from the mine count and the tiles the player
+   * clicked, in order, including the cascades they triggered. The game ends
+   * on the first mine, on revealing every safe tile, or otherwise by cashing
+   * out.
+   */
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions): Record<string, any> {
+    const mineCount: number = options.mineCount;
+    const clicks: { x: number; y: number }[] = options.clicks;
+    const board = this.buildBoard(this.generateMinePositions(serverSeed, clientSeed, nonce, mineCount));
+    const minePositions = this.extractMinePositions(board);
+    const revealed = Array.from({ length: GRID_SIZE }, () => Array(GRID_SIZE).fill(false));
+    let revealedCount = 0;
+
+    for (let i = 0; i < clicks.length; i++) {
+      const { x, y } = clicks[i];
+      if (board[y][x] === -1) {
+        return {
+          mineCount,
+          minePositions,
+          revealedCount,
+          clicks: clicks.slice(0, i + 1),
+          hitMine: true,
+          hitPosition: { x, y },
+        };
+      }
+      revealedCount += this.cascadeReveal(board, revealed, y, x).length;
+    }
+
+    if (revealedCount >= TOTAL_TILES - mineCount) {
+      return { mineCount, minePositions, revealedCount, clicks, hitMine: false, autoWin: true };
+    }
+    return { mineCount, minePositions, revealedCount, clicks, hitMine: false, cashedOut: true };
+  }
+
   // =======================================================================
   // Board generation
   // =======================================================================
@@ -256,6 +293,7 @@ export class MinesweeperGame extends BaseGame {
       board,
       revealed: Array.from({ length: GRID_SIZE }, () => Array(GRID_SIZE).fill(false)),
       flags: Array.from({ length: GRID_SIZE }, () => Array(GRID_SIZE).fill(false)),
+      clicks: [],
       revealedCount: 0,
       totalSafeTiles,
       currentMultiplier: 1.0,
@@ -320,6 +358,8 @@ export class MinesweeperGame extends BaseGame {
       state.flags[row][col] = false;
     }
 
+    state.clicks.push({ x, y });
+
     const isMine = state.board[row][col] === -1;
 
     if (isMine) {
@@ -337,6 +377,7 @@ export class MinesweeperGame extends BaseGame {
       await this.recordRound({
         userId,
         gameSlug: this.slug,
+        currency: state.currency,
         betAmount: state.betAmount,
         payout: 0,
         multiplier: 0,
@@ -344,6 +385,7 @@ export class MinesweeperGame extends BaseGame {
           mineCount: state.mineCount,
           minePositions,
           revealedCount: state.revealedCount,
+          clicks: state.clicks,
           hitMine: true,
           hitPosition: { x, y },
         },
@@ -413,6 +455,7 @@ export class MinesweeperGame extends BaseGame {
       await this.recordRound({
         userId,
         gameSlug: this.slug,
+        currency: state.currency,
         betAmount: state.betAmount,
         payout,
         multiplier: state.currentMultiplier,
@@ -420,6 +463,7 @@ export class MinesweeperGame extends BaseGame {
           mineCount: state.mineCount,
           minePositions,
           revealedCount: state.revealedCount,
+          clicks: state.clicks,
           hitMine: false,
           autoWin: true,
         },
@@ -540,6 +584,7 @@ export class MinesweeperGame extends BaseGame {
     await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: state.currency,
       betAmount: state.betAmount,
       payout,
       multiplier: state.currentMultiplier,
@@ -547,6 +592,7 @@ export class MinesweeperGame extends BaseGame {
         mineCount: state.mineCount,
         minePositions,
         revealedCount: state.revealedCount,
+        clicks: state.clicks,
         hitMine: false,
         cashedOut: true,
       },
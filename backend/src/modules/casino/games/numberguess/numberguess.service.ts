@@ -1,4 +1,4 @@
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Number Guessing Game
@@ -76,21 +76,11 @@ export class NumberGuessGame extends BaseGame {
     // ------ Provably fair ------
     const seeds = await this.getUserSeeds(userId);
 
-    const rawResult = this.fairService.generateResult(
-      seeds.serverSeed,
-      seeds.clientSeed,
-      seeds.nonce,
-    );
-
-    // Map [0, 1) to 1-100 inclusive
-    const target = Math.floor(rawResult * 100) + 1;
-
-    // ------ Calculate distance and tier ------
-    const distance = Math.abs(guess - target);
-    const tier = this.getTier(distance);
-
-    const isWin = tier.multiplier > 0;
-    const multiplier = tier.multiplier;
+    const outcome = this.replay(seeds.serverSeed, seeds.clientSeed, seeds.nonce, {
+      guess,
+      betAmount: bet.amount,
+    });
+    const { target, distance, tier, tierLabel, isWin, multiplier } = outcome;
 
     // ------ Deduct balance ------
     await this.deductBalance(userId, bet.amount, bet.currency);
@@ -112,19 +102,11 @@ export class NumberGuessGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: bet.currency,
       betAmount: bet.amount,
       payout,
       multiplier: isWin ? multiplier : 0,
-      result: {
-        guess,
-        target,
-        distance,
-        tier: tier.tier,
-        tierLabel: tier.label,
-        multiplier,
-        isWin,
-        rawValue: rawResult,
-      },
+      result: outcome,
       serverSeedHash: seeds.serverSeedHash,
       clientSeed: seeds.clientSeed,
       nonce: seeds.nonce,
@@ -144,8 +126,8 @@ export class NumberGuessGame extends BaseGame {
         guess,
         target,
         distance,
-        tier: tier.tier,
-        tierLabel: tier.label,
+        tier,
+        tierLabel,
         multiplier,
         isWin,
       },
@@ -157,6 +139,30 @@ export class NumberGuessGame extends BaseGame {
       newBalance,
     };
   }
+
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const guess = options.guess as number;
+
+    const rawResult = this.fairService.generateResult(serverSeed, clientSeed, nonce);
+
+    // Map [0, 1) to 1-100 inclusive
+    const target = Math.floor(rawResult * 100) + 1;
+
+    // ------ Calculate distance and tier ------
+    const distance = Math.abs(guess - target);
+    const tier = this.getTier(distance);
+
+    return {
+      guess,
+      target,
+      distance,
+      tier: tier.tier,
+      tierLabel: tier.label,
+      multiplier: tier.multiplier,
+      isWin: tier.multiplier > 0,
+      rawValue: rawResult,
+    };
+  }
 }
 
 export const numberGuessGame = new NumberGuessGame();
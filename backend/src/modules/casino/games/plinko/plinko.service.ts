@@ -1,4 +1,4 @@
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Plinko Game
@@ -66,28 +66,13 @@ export class PlinkoGame extends BaseGame {
     // Get user seeds
     const seeds = await this.getUserSeeds(userId);
 
-    // Generate path using provably fair results
-    const randomValues = this.fairService.generateMultipleResults(
-      seeds.serverSeed,
-      seeds.clientSeed,
-      seeds.nonce,
-      options.rows,
-    );
-
-    // Build path: each random determines left (0) or right (1)
-    const path: number[] = [];
-    let position = 0;
-
-    for (let row = 0; row < options.rows; row++) {
-      const direction = randomValues[row] < 0.5 ? 0 : 1; // 0 = left, 1 = right
-      path.push(direction);
-      position += direction;
-    }
-
-    // position now equals the bucket index (0 to rows)
-    const bucketIndex = position;
+    const outcome = this.replay(seeds.serverSeed, seeds.clientSeed, seeds.nonce, {
+      rows: options.rows,
+      risk: options.risk,
+      betAmount: bet.amount,
+    });
+    const { path, bucketIndex, multiplier } = outcome;
     const multiplierTable = MULTIPLIER_TABLES[options.risk][options.rows];
-    const multiplier = multiplierTable[bucketIndex];
 
     // Deduct balance
     await this.deductBalance(userId, bet.amount, bet.currency);
@@ -107,16 +92,11 @@ export class PlinkoGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: bet.currency,
       betAmount: bet.amount,
       payout,
       multiplier,
-      result: {
-        rows: options.rows,
-        risk: options.risk,
-        path,
-        bucketIndex,
-        multiplier,
-      },
+      result: outcome,
       serverSeedHash: seeds.serverSeedHash,
       clientSeed: seeds.clientSeed,
       nonce: seeds.nonce,
@@ -148,6 +128,36 @@ export class PlinkoGame extends BaseGame {
       newBalance,
     };
   }
+
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const rows = options.rows as PlinkoRows;
+    const risk = options.risk as PlinkoRisk;
+
+    // Generate path using provably fair results
+    const randomValues = this.fairService.generateMultipleResults(serverSeed, clientSeed, nonce, rows);
+
+    // Build path: each random determines left (0) or right (1)
+    const path: number[] = [];
+    let position = 0;
+
+    for (let row = 0; row < rows; row++) {
+      const direction = randomValues[row] < 0.5 ? 0 : 1; // 0 = left, 1 = right
+      path.push(direction);
+      position += direction;
+    }
+
+    // position now equals the bucket index (0 to rows)
+    const bucketIndex = position;
+    const multiplier = MULTIPLIER_TABLES[risk][rows][bucketIndex];
+
+    return {
+      rows,
+      risk,
+      path,
+      bucketIndex,
+      multiplier,
+    };
+  }
 }
 
 export const plinkoGame = new PlinkoGame();
@@ -1,5 +1,5 @@
 import { redis } from '../../../../lib/redis.js';
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Texas Hold'em Poker vs House
@@ -26,6 +26,8 @@ interface Card {
 
 type PokerPhase = 'preflop' | 'flop' | 'turn' | 'river' | 'showdown' | 'folded';
 
+type PokerAction = 'call' | 'fold' | 'check' | 'raise';
+
 interface PokerState {
   userId: string;
   currency: string;
@@ -40,6 +42,7 @@ interface PokerState {
   turnBet: number;     // bet added at turn (1x ante)
   riverBet: number;    // bet added at river (1x ante)
   totalBet: number;
+  actions: PokerAction[]; // player actions, in order
   isComplete: boolean;
   serverSeedHash: string;
   clientSeed: string;
@@ -53,9 +56,21 @@ interface HandEvaluation {
   cards: Card[];      // best 5 cards
 }
 
+interface Showdown {
+  playerEval: HandEvaluation;
+  dealerEval: HandEvaluation;
+  winner: 'player' | 'dealer' | 'tie';
+  payout: number;
+}
+
 const SUITS = ['spades', 'hearts', 'diamonds', 'clubs'];
 const RANKS = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
 
+const HIDDEN_DEALER_HAND: Card[] = [
+  { index: -1, suit: 'hidden', rank: '?', value: 0 },
+  { index: -1, suit: 'hidden', rank: '?', value: 0 },
+];
+
 const HAND_NAMES = [
   'High Card',
   'One Pair',
@@ -402,40 +417,19 @@ export class PokerGame extends BaseGame {
     // Deduct ante
     await this.deductBalance(userId, bet.amount, bet.currency);
 
-    const state: PokerState = {
+    const state = this.dealHand(deck, bet.amount, {
       userId,
       currency: bet.currency,
-      deck,
-      deckPosition: 0,
-      playerHand: [],
-      dealerHand: [],
-      communityCards: [],
-      phase: 'preflop',
-      anteBet: bet.amount,
-      callBet: 0,
-      turnBet: 0,
-      riverBet: 0,
-      totalBet: bet.amount,
-      isComplete: false,
       serverSeedHash: seeds.serverSeedHash,
       clientSeed: seeds.clientSeed,
       nonce: seeds.nonce,
-    };
-
-    // Deal 2 cards to player, 2 to dealer
-    state.playerHand.push(this.drawCard(state));
-    state.playerHand.push(this.drawCard(state));
-    state.dealerHand.push(this.drawCard(state));
-    state.dealerHand.push(this.drawCard(state));
+    });
 
     await this.saveSession(userId, state);
 
     return {
       playerHand: state.playerHand,
-      dealerHand: [
-        { index: -1, suit: 'hidden', rank: '?', value: 0 },
-        { index: -1, suit: 'hidden', rank: '?', value: 0 },
-      ],
+      dealerHand: HIDDEN_DEALER_HAND,
       communityCards: [],
       phase: 'preflop',
       anteBet: bet.amount,
@@ -450,37 +444,14 @@ export class PokerGame extends BaseGame {
   async call(userId: string): Promise<any> {
     const state = await this.requireActiveGame(userId);
 
-    if (state.phase !== 'preflop') {
-      throw new GameError('INVALID_ACTION', 'Call is only available at preflop. Use check or raise on later streets.');
-    }
-
-    const callAmount = state.anteBet * 2;
-    await this.validateBet(userId, callAmount, state.currency);
-    await this.deductBalance(userId, callAmount, state.currency);
+    this.applyAction(state, 'call');
 
-    state.callBet = callAmount;
-    state.totalBet += callAmount;
-    state.phase = 'flop';
-
-    // Deal 3 community cards (flop)
-    state.communityCards.push(this.drawCard(state));
-    state.communityCards.push(this.drawCard(state));
-    state.communityCards.push(this.drawCard(state));
+    await this.validateBet(userId, state.callBet, state.currency);
+    await this.deductBalance(userId, state.callBet, state.currency);
 
     await this.saveSession(userId, state);
 
-    return {
-      playerHand: state.playerHand,
-      dealerHand: [
-        { index: -1, suit: 'hidden', rank: '?', value: 0 },
-        { index: -1, suit: 'hidden', rank: '?', value: 0 },
-      ],
-      communityCards: state.communityCards,
-      phase: state.phase,
-      totalBet: state.totalBet,
-      anteBet: state.anteBet,
-      callBet: state.callBet,
-    };
+    return this.streetResponse(state);
   }
 
   /**
@@ -489,18 +460,14 @@ export class PokerGame extends BaseGame {
   async fold(userId: string): Promise<any> {
     const state = await this.requireActiveGame(userId);
 
-    if (state.phase === 'showdown' || state.phase === 'folded') {
-      throw new GameError('GAME_COMPLETE', 'Game is already complete.');
-    }
-
-    state.phase = 'folded';
-    state.isComplete = true;
+    this.applyAction(state, 'fold');
 
     await this.incrementNonce(userId);
 
     await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: state.currency,
       betAmount: state.totalBet,
       payout: 0,
       multiplier: 0,
@@ -534,14 +501,13 @@ export class PokerGame extends BaseGame {
   async check(userId: string): Promise<any> {
     const state = await this.requireActiveGame(userId);
 
-    if (state.phase === 'preflop') {
-      throw new GameError('INVALID_ACTION', 'Cannot check preflop. You must call or fold.');
-    }
-    if (state.phase !== 'flop' && state.phase !== 'turn' && state.phase !== 'river') {
-      throw new GameError('INVALID_ACTION', 'Cannot check in current phase.');
-    }
+    const showdown = this.applyAction(state, 'check');
 
-    return this.advanceStreet(state, userId, 0);
+    if (showdown) {
+      return this.finishShowdown(state, userId, showdown);
+    }
+    await this.saveSession(userId, state);
+    return this.streetResponse(state);
   }
 
   /**
@@ -550,88 +516,171 @@ export class PokerGame extends BaseGame {
   async raise(userId: string): Promise<any> {
     const state = await this.requireActiveGame(userId);
 
-    if (state.phase === 'preflop') {
-      throw new GameError('INVALID_ACTION', 'Cannot raise preflop. Use call.');
-    }
-    if (state.phase !== 'flop' && state.phase !== 'turn' && state.phase !== 'river') {
-      throw new GameError('INVALID_ACTION', 'Cannot raise in current phase.');
-    }
+    const showdown = this.applyAction(state, 'raise');
 
     const raiseAmount = state.anteBet;
     await this.validateBet(userId, raiseAmount, state.currency);
     await this.deductBalance(userId, raiseAmount, state.currency);
 
-    return this.advanceStreet(state, userId, raiseAmount);
+    if (showdown) {
+      return this.finishShowdown(state, userId, showdown);
+    }
+    await this.saveSession(userId, state);
+    return this.streetResponse(state);
   }
 
   /**
-   * Advance to the next street after a check or raise
+   * Replay a finished hand: deal from the seeded deck and apply the player's
+   * recorded actions with the same rules as live play.
    */
-  private async advanceStreet(state: PokerState, userId: string, betAmount: number): Promise<any> {
-    if (state.phase === 'flop') {
-      state.turnBet = betAmount;
-      state.totalBet += betAmount;
-      state.phase = 'turn';
-      // Deal turn card
-      state.communityCards.push(this.drawCard(state));
-      await this.saveSession(userId, state);
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions): Record<string, any> {
+    const deck = this.fairService.generateShuffledDeck(serverSeed, clientSeed, nonce);
+    const state = this.dealHand(deck, options.anteBet ?? options.betAmount, {
+      userId: '',
+      currency: '',
+      serverSeedHash: '',
+      clientSeed,
+      nonce,
+    });
 
-      return {
-        playerHand: state.playerHand,
-        dealerHand: [
-          { index: -1, suit: 'hidden', rank: '?', value: 0 },
-          { index: -1, suit: 'hidden', rank: '?', value: 0 },
-        ],
-        communityCards: state.communityCards,
-        phase: state.phase,
-        totalBet: state.totalBet,
-        anteBet: state.anteBet,
-        callBet: state.callBet,
-        turnBet: state.turnBet,
-      };
+    for (const action of (options.actions ?? []) as PokerAction[]) {
+      const showdown = this.applyAction(state, action);
+      if (showdown) {
+        return this.buildResultSummary(state, showdown.playerEval, showdown.dealerEval, showdown.winner);
+      }
+      if (state.phase === 'folded') {
+        return this.buildResultSummary(state, null, null, 'fold');
+      }
     }
 
-    if (state.phase === 'turn') {
-      state.riverBet = betAmount;
-      state.totalBet += betAmount;
-      state.phase = 'river';
-      // Deal river card
-      state.communityCards.push(this.drawCard(state));
-      await this.saveSession(userId, state);
+    throw new GameError('INCOMPLETE_HAND', 'The recorded actions do not finish the hand.');
+  }
 
-      return {
-        playerHand: state.playerHand,
-        dealerHand: [
-          { index: -1, suit: 'hidden', rank: '?', value: 0 },
-          { index: -1, suit: 'hidden', rank: '?', value: 0 },
-        ],
-        communityCards: state.communityCards,
-        phase: state.phase,
-        totalBet: state.totalBet,
-        anteBet: state.anteBet,
-        callBet: state.callBet,
-        turnBet: state.turnBet,
-        riverBet: state.riverBet,
-      };
-    }
+  // =========================================================================
+  // Hand flow
+  // =========================================================================
+
+  /**
+   * Start a hand: 2 hole cards to the player, then 2 to the dealer.
+   */
+  private dealHand(
+    deck: number[],
+    anteBet: number,
+    session: Pick<PokerState, 'userId' | 'currency' | 'serverSeedHash' | 'clientSeed' | 'nonce'>,
+  ): PokerState {
+    const state: PokerState = {
+      ...session,
+      deck,
+      deckPosition: 0,
+      playerHand: [],
+      dealerHand: [],
+      communityCards: [],
+      phase: 'preflop',
+      anteBet,
+      callBet: 0,
+      turnBet: 0,
+      riverBet: 0,
+      totalBet: anteBet,
+      actions: [],
+      isComplete: false,
+    };
+
+    // Deal 2 cards to player, 2 to dealer
+    state.playerHand.push(this.drawCard(state));
+    state.playerHand.push(this.drawCard(state));
+    state.dealerHand.push(this.drawCard(state));
+    state.dealerHand.push(this.drawCard(state));
+
+    return state;
+  }
 
-    if (state.phase === 'river') {
-      // Additional river bet if raising
-      if (betAmount > 0) {
-        state.riverBet = betAmount;
-        state.totalBet += betAmount;
+  /**
+   * Apply a player action. Only the state changes here (bets, cards, phase);
+   * balance movements and persistence are left to the caller so that
+   * replay() runs exactly the same rules. Returns the showdown when the
+   * action ended the hand.
+   */
+  private applyAction(state: PokerState, action: PokerAction): Showdown | null {
+    switch (action) {
+      case 'call': {
+        if (state.phase !== 'preflop') {
+          throw new GameError('INVALID_ACTION', 'Call is only available at preflop. Use check or raise on later streets.');
+        }
+        state.actions.push(action);
+
+        state.callBet = state.anteBet * 2;
+        state.totalBet += state.callBet;
+        state.phase = 'flop';
+
+        // Deal 3 community cards (flop)
+        state.communityCards.push(this.drawCard(state));
+        state.communityCards.push(this.drawCard(state));
+        state.communityCards.push(this.drawCard(state));
+        return null;
+      }
+
+      case 'fold': {
+        if (state.phase === 'showdown' || state.phase === 'folded') {
+          throw new GameError('GAME_COMPLETE', 'Game is already complete.');
+        }
+        state.actions.push(action);
+
+        state.phase = 'folded';
+        state.isComplete = true;
+        return null;
       }
-      // Go to showdown
-      return this.showdown(state, userId);
-    }
 
-    throw new GameError('INVALID_PHASE', 'Cannot advance from current phase.');
+      case 'check':
+      case 'raise': {
+        if (state.phase === 'preflop') {
+          throw new GameError(
+            'INVALID_ACTION',
+            action === 'check' ? 'Cannot check preflop. You must call or fold.' : 'Cannot raise preflop. Use call.',
+          );
+        }
+        if (state.phase !== 'flop' && state.phase !== 'turn' && state.phase !== 'river') {
+          throw new GameError('INVALID_ACTION', `Cannot ${action} in current phase.`);
+        }
+        state.actions.push(action);
+
+        const betAmount = action === 'raise' ? state.anteBet : 0;
+
+        if (state.phase === 'flop') {
+          state.turnBet = betAmount;
+          state.totalBet += betAmount;
+          state.phase = 'turn';
+          // Deal turn card
+          state.communityCards.push(this.drawCard(state));
+          return null;
+        }
+
+        if (state.phase === 'turn') {
+          state.riverBet = betAmount;
+          state.totalBet += betAmount;
+          state.phase = 'river';
+          // Deal river card
+          state.communityCards.push(this.drawCard(state));
+          return null;
+        }
+
+        // Additional river bet if raising
+        if (betAmount > 0) {
+          state.riverBet = betAmount;
+          state.totalBet += betAmount;
+        }
+        // Go to showdown
+        return this.resolveShowdown(state);
+      }
+
+      default:
+        throw new GameError('INVALID_ACTION', `Unknown Poker action: ${action}`);
+    }
   }
 
   /**
    * Showdown: evaluate both hands and determine winner
    */
-  private async showdown(state: PokerState, userId: string): Promise<any> {
+  private resolveShowdown(state: PokerState): Showdown {
     state.phase = 'showdown';
     state.isComplete = true;
 
@@ -660,6 +709,15 @@ export class PokerGame extends BaseGame {
       payout = state.totalBet; // push - return bets
     }
 
+    return { playerEval, dealerEval, winner, payout };
+  }
+
+  /**
+   * Credit and record a hand that reached showdown.
+   */
+  private async finishShowdown(state: PokerState, userId: string, showdown: Showdown): Promise<any> {
+    const { playerEval, dealerEval, winner, payout } = showdown;
+
     if (payout > 0) {
       await this.creditWinnings(userId, payout, state.currency);
     }
@@ -672,6 +730,7 @@ export class PokerGame extends BaseGame {
     await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: state.currency,
       betAmount: state.totalBet,
       payout,
       multiplier: state.totalBet > 0 ? payout / state.totalBet : 0,
@@ -705,6 +764,23 @@ export class PokerGame extends BaseGame {
     };
   }
 
+  /**
+   * Hand state sent to the player between streets (dealer cards hidden).
+   */
+  private streetResponse(state: PokerState): any {
+    return {
+      playerHand: state.playerHand,
+      dealerHand: HIDDEN_DEALER_HAND,
+      communityCards: state.communityCards,
+      phase: state.phase,
+      totalBet: state.totalBet,
+      anteBet: state.anteBet,
+      callBet: state.callBet,
+      ...(state.phase !== 'flop' && { turnBet: state.turnBet }),
+      ...(state.phase === 'river' && { riverBet: state.riverBet }),
+    };
+  }
+
   /**
    * Get the current game state
    */
@@ -752,6 +828,7 @@ export class PokerGame extends BaseGame {
       turnBet: state.turnBet,
       riverBet: state.riverBet,
       totalBet: state.totalBet,
+      actions: state.actions,
     };
   }
 
@@ -1,4 +1,4 @@
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // European Roulette Game
@@ -97,40 +97,14 @@ export class RouletteGame extends BaseGame {
     // Get user seeds
     const seeds = await this.getUserSeeds(userId);
 
-    // Generate result: number 0-36
-    const rawResult = this.fairService.generateResult(
-      seeds.serverSeed,
-      seeds.clientSeed,
-      seeds.nonce,
-    );
-    const winningNumber = Math.floor(rawResult * 37); // 0-36
-
     // Deduct total stake
     await this.deductBalance(userId, totalStake, bet.currency);
 
-    // Evaluate each bet
-    let totalPayout = 0;
-    const betResults: Array<{
-      type: RouletteBetType;
-      numbers?: number[];
-      amount: number;
-      isWin: boolean;
-      payout: number;
-    }> = [];
-
-    for (const b of options.bets) {
-      const isWin = this.evaluateBet(b, winningNumber);
-      const payout = isWin ? b.amount + b.amount * PAYOUT_RATIOS[b.type] : 0;
-      totalPayout += payout;
-
-      betResults.push({
-        type: b.type,
-        numbers: b.numbers,
-        amount: b.amount,
-        isWin,
-        payout,
-      });
-    }
+    const outcome = this.replay(seeds.serverSeed, seeds.clientSeed, seeds.nonce, {
+      bets: options.bets,
+      betAmount: totalStake,
+    });
+    const totalPayout = outcome.bets.reduce((sum, b) => sum + b.payout, 0);
 
     // Credit winnings
     if (totalPayout > 0) {
@@ -146,16 +120,11 @@ export class RouletteGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: bet.currency,
       betAmount: totalStake,
       payout: totalPayout,
       multiplier: overallMultiplier,
-      result: {
-        winningNumber,
-        color: this.getColor(winningNumber),
-        isOdd: winningNumber > 0 && winningNumber % 2 !== 0,
-        isHigh: winningNumber >= 19,
-        bets: betResults,
-      },
+      result: outcome,
       serverSeedHash: seeds.serverSeedHash,
       clientSeed: seeds.clientSeed,
       nonce: seeds.nonce,
@@ -171,13 +140,7 @@ export class RouletteGame extends BaseGame {
       payout: totalPayout,
       profit: totalPayout - totalStake,
       multiplier: overallMultiplier,
-      result: {
-        winningNumber,
-        color: this.getColor(winningNumber),
-        isOdd: winningNumber > 0 && winningNumber % 2 !== 0,
-        isHigh: winningNumber >= 19,
-        bets: betResults,
-      },
+      result: outcome,
       fairness: {
         serverSeedHash: seeds.serverSeedHash,
         clientSeed: seeds.clientSeed,
@@ -187,6 +150,44 @@ export class RouletteGame extends BaseGame {
     };
   }
 
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const bets = options.bets as RouletteBet[];
+
+    // Generate result: number 0-36
+    const rawResult = this.fairService.generateResult(serverSeed, clientSeed, nonce);
+    const winningNumber = Math.floor(rawResult * 37); // 0-36
+
+    // Evaluate each bet
+    const betResults: Array<{
+      type: RouletteBetType;
+      numbers?: number[];
+      amount: number;
+      isWin: boolean;
+      payout: number;
+    }> = [];
+
+    for (const b of bets) {
+      const isWin = this.evaluateBet(b, winningNumber);
+      const payout = isWin ? b.amount + b.amount * PAYOUT_RATIOS[b.type] : 0;
+
+      betResults.push({
+        type: b.type,
+        numbers: b.numbers,
+        amount: b.amount,
+        isWin,
+        payout,
+      });
+    }
+
+    return {
+      winningNumber,
+      color: this.getColor(winningNumber),
+      isOdd: winningNumber > 0 && winningNumber % 2 !== 0,
+      isHigh: winningNumber >= 19,
+      bets: betResults,
+    };
+  }
+
   // =======================================================================
   // Bet evaluation
   // =======================================================================
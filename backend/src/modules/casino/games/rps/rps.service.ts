@@ -1,4 +1,4 @@
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Rock Paper Scissors Game
@@ -73,14 +73,11 @@ export class RPSGame extends BaseGame {
     // ---- Provably fair ----
     const seeds = await this.getUserSeeds(userId);
 
-    const rawResult = this.fairService.generateResult(
-      seeds.serverSeed,
-      seeds.clientSeed,
-      seeds.nonce,
-    );
-
-    const houseChoice = RPSGame.rawToChoice(rawResult);
-    const outcome = RPSGame.determineOutcome(playerChoice, houseChoice);
+    const round = this.replay(seeds.serverSeed, seeds.clientSeed, seeds.nonce, {
+      playerChoice,
+      betAmount: bet.amount,
+    });
+    const { houseChoice, outcome } = round;
 
     // ---- Deduct balance ----
     await this.deductBalance(userId, bet.amount, bet.currency);
@@ -117,15 +114,11 @@ export class RPSGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: bet.currency,
       betAmount: bet.amount,
       payout,
       multiplier,
-      result: {
-        playerChoice,
-        houseChoice,
-        outcome,
-        rawValue: rawResult,
-      },
+      result: round,
       serverSeedHash: seeds.serverSeedHash,
       clientSeed: seeds.clientSeed,
       nonce: seeds.nonce,
@@ -154,6 +147,22 @@ export class RPSGame extends BaseGame {
       newBalance,
     };
   }
+
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const playerChoice = options.playerChoice as RPSChoice;
+
+    const rawResult = this.fairService.generateResult(serverSeed, clientSeed, nonce);
+
+    const houseChoice = RPSGame.rawToChoice(rawResult);
+    const outcome = RPSGame.determineOutcome(playerChoice, houseChoice);
+
+    return {
+      playerChoice,
+      houseChoice,
+      outcome,
+      rawValue: rawResult,
+    };
+  }
 }
 
 export const rpsGame = new RPSGame();
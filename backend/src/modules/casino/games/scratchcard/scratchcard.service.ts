@@ -1,4 +1,4 @@
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Scratch Card Game
@@ -164,49 +164,11 @@ export class ScratchCardGame extends BaseGame {
     // ------ Provably fair ------
     const seeds = await this.getUserSeeds(userId);
 
-    const rawResult = this.fairService.generateResult(
-      seeds.serverSeed,
-      seeds.clientSeed,
-      seeds.nonce,
-    );
-
-    // Generate 9 random values for the 3x3 grid
-    const gridValues = this.generateGridValues(rawResult);
-
-    // Build the 3x3 symbol grid
-    const grid: string[][] = [];
-    for (let row = 0; row < 3; row++) {
-      const rowSymbols: string[] = [];
-      for (let col = 0; col < 3; col++) {
-        const idx = row * 3 + col;
-        rowSymbols.push(this.pickSymbol(gridValues[idx], cardType));
-      }
-      grid.push(rowSymbols);
-    }
-
-    // ------ Check all winning lines ------
-    const winLines: WinLine[] = [];
-
-    for (const line of WIN_LINES) {
-      const symbols = line.map(([r, c]) => grid[r][c]);
-      // Check if all 3 symbols match
-      if (symbols[0] === symbols[1] && symbols[1] === symbols[2]) {
-        const symbol = symbols[0];
-        const mult = this.getMultiplier(symbol);
-        // Only count as a win if multiplier > 0 (3 skulls = not a win)
-        if (mult > 0) {
-          winLines.push({
-            positions: line as [number, number][],
-            symbol,
-            multiplier: mult,
-          });
-        }
-      }
-    }
-
-    // Total multiplier is the sum of all winning lines
-    const totalMultiplier = winLines.reduce((sum, wl) => sum + wl.multiplier, 0);
-    const isWin = totalMultiplier > 0;
+    const outcome = this.replay(seeds.serverSeed, seeds.clientSeed, seeds.nonce, {
+      cardType,
+      betAmount: bet.amount,
+    });
+    const { totalMultiplier, isWin } = outcome;
 
     // ------ Deduct balance ------
     await this.deductBalance(userId, bet.amount, bet.currency);
@@ -228,21 +190,11 @@ export class ScratchCardGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: bet.currency,
       betAmount: bet.amount,
       payout,
       multiplier: isWin ? totalMultiplier : 0,
-      result: {
-        grid,
-        cardType,
-        winLines: winLines.map((wl) => ({
-          positions: wl.positions,
-          symbol: wl.symbol,
-          multiplier: wl.multiplier,
-        })),
-        totalMultiplier,
-        isWin,
-        rawValue: rawResult,
-      },
+      result: outcome,
       serverSeedHash: seeds.serverSeedHash,
       clientSeed: seeds.clientSeed,
       nonce: seeds.nonce,
@@ -259,13 +211,9 @@ export class ScratchCardGame extends BaseGame {
       profit: payout - bet.amount,
       multiplier: isWin ? totalMultiplier : 0,
       result: {
-        grid,
+        grid: outcome.grid,
         cardType,
-        winLines: winLines.map((wl) => ({
-          positions: wl.positions,
-          symbol: wl.symbol,
-          multiplier: wl.multiplier,
-        })),
+        winLines: outcome.winLines,
         totalMultiplier,
         isWin,
       },
@@ -277,6 +225,62 @@ export class ScratchCardGame extends BaseGame {
       newBalance,
     };
   }
+
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const cardType = options.cardType as CardType;
+
+    const rawResult = this.fairService.generateResult(serverSeed, clientSeed, nonce);
+
+    // Generate 9 random values for the 3x3 grid
+    const gridValues = this.generateGridValues(rawResult);
+
+    // Build the 3x3 symbol grid
+    const grid: string[][] = [];
+    for (let row = 0; row < 3; row++) {
+      const rowSymbols: string[] = [];
+      for (let col = 0; col < 3; col++) {
+        const idx = row * 3 + col;
+        rowSymbols.push(this.pickSymbol(gridValues[idx], cardType));
+      }
+      grid.push(rowSymbols);
+    }
+
+    // ------ Check all winning lines ------
+    const winLines: WinLine[] = [];
+
+    for (const line of WIN_LINES) {
+      const symbols = line.map(([r, c]) => grid[r][c]);
+      // Check if all 3 symbols match
+      if (symbols[0] === symbols[1] && symbols[1] === symbols[2]) {
+        const symbol = symbols[0];
+        const mult = this.getMultiplier(symbol);
+        // Only count as a win if multiplier > 0 (3 skulls = not a win)
+        if (mult > 0) {
+          winLines.push({
+            positions: line as [number, number][],
+            symbol,
+            multiplier: mult,
+          });
+        }
+      }
+    }
+
+    // Total multiplier is the sum of all winning lines
+    const totalMultiplier = winLines.reduce((sum, wl) => sum + wl.multiplier, 0);
+
+    return {
+      grid,
+      cardType,
+      winLines: winLines.map((wl) => ({
+        positions: wl.positions,
+        symbol: wl.symbol,
+        multiplier: wl.multiplier,
+      })),
+      totalMultiplier,
+      isWin: totalMultiplier > 0,
+      rawValue: rawResult,
+    };
+  }
 }
 
 export const scratchCardGame = new ScratchCardGame();
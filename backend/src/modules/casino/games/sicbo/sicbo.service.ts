@@ -1,4 +1,4 @@
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Sic Bo (Chinese Dice Game)
@@ -78,49 +78,14 @@ export class SicBoGame extends BaseGame {
     // Get user seeds
     const seeds = await this.getUserSeeds(userId);
 
-    // Generate 3 dice results from provably fair service
-    const rawResults = this.fairService.generateMultipleResults(
-      seeds.serverSeed,
-      seeds.clientSeed,
-      seeds.nonce,
-      3,
-    );
-
-    const dice: [number, number, number] = [
-      Math.floor(rawResults[0] * 6) + 1,
-      Math.floor(rawResults[1] * 6) + 1,
-      Math.floor(rawResults[2] * 6) + 1,
-    ];
-    const total = dice[0] + dice[1] + dice[2];
-    const isTriple = dice[0] === dice[1] && dice[1] === dice[2];
-
     // Deduct total stake
     await this.deductBalance(userId, totalStake, bet.currency);
 
-    // Evaluate each bet
-    let totalPayout = 0;
-    const betResults: Array<{
-      type: SicBoBetType;
-      value?: number | number[];
-      amount: number;
-      isWin: boolean;
-      payout: number;
-      multiplier: number;
-    }> = [];
-
-    for (const b of options.bets) {
-      const evaluation = this.evaluateBet(b, dice, total, isTriple);
-      totalPayout += evaluation.payout;
-
-      betResults.push({
-        type: b.type,
-        value: b.value,
-        amount: b.amount,
-        isWin: evaluation.isWin,
-        payout: evaluation.payout,
-        multiplier: evaluation.multiplier,
-      });
-    }
+    const outcome = this.replay(seeds.serverSeed, seeds.clientSeed, seeds.nonce, {
+      bets: options.bets,
+      betAmount: totalStake,
+    });
+    const totalPayout = outcome.bets.reduce((sum, b) => sum + b.payout, 0);
 
     // Credit winnings
     if (totalPayout > 0) {
@@ -136,15 +101,11 @@ export class SicBoGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: bet.currency,
       betAmount: totalStake,
       payout: totalPayout,
       multiplier: overallMultiplier,
-      result: {
-        dice,
-        total,
-        isTriple,
-        bets: betResults,
-      },
+      result: outcome,
       serverSeedHash: seeds.serverSeedHash,
       clientSeed: seeds.clientSeed,
       nonce: seeds.nonce,
@@ -161,10 +122,7 @@ export class SicBoGame extends BaseGame {
       profit: totalPayout - totalStake,
       multiplier: overallMultiplier,
       result: {
-        dice,
-        total,
-        isTriple,
-        bets: betResults,
+        ...outcome,
         totalPayout,
       },
       fairness: {
@@ -176,6 +134,51 @@ export class SicBoGame extends BaseGame {
     };
   }
 
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const bets = options.bets as SicBoBet[];
+
+    // Generate 3 dice results from provably fair service
+    const rawResults = this.fairService.generateMultipleResults(serverSeed, clientSeed, nonce, 3);
+
+    const dice: [number, number, number] = [
+      Math.floor(rawResults[0] * 6) + 1,
+      Math.floor(rawResults[1] * 6) + 1,
+      Math.floor(rawResults[2] * 6) + 1,
+    ];
+    const total = dice[0] + dice[1] + dice[2];
+    const isTriple = dice[0] === dice[1] && dice[1] === dice[2];
+
+    // Evaluate each bet
+    const betResults: Array<{
+      type: SicBoBetType;
+      value?: number | number[];
+      amount: number;
+      isWin: boolean;
+      payout: number;
+      multiplier: number;
+    }> = [];
+
+    for (const b of bets) {
+      const evaluation = this.evaluateBet(b, dice, total, isTriple);
+
+      betResults.push({
+        type: b.type,
+        value: b.value,
+        amount: b.amount,
+        isWin: evaluation.isWin,
+        payout: evaluation.payout,
+        multiplier: evaluation.multiplier,
+      });
+    }
+
+    return {
+      dice,
+      total,
+      isTriple,
+      bets: betResults,
+    };
+  }
+
   // =======================================================================
   // Bet validation
   // =======================================================================
@@ -1,4 +1,4 @@
-import { BaseGame, GameError, type GameResult, type BetRequest } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameError, type GameResult, type BetRequest, type ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Symbol definitions
@@ -65,48 +65,9 @@ export class SlotsGame extends BaseGame {
     const seeds = await this.getUserSeeds(userId);
     const { serverSeed, serverSeedHash, clientSeed, nonce } = seeds;
 
-    // Generate 9 symbols (3x3) using weighted provably fair selection
-    const randoms = this.fairService.generateMultipleResults(serverSeed, clientSeed, nonce, 9);
-    const grid = randoms.map((r) => this.weightedSelect(r));
-
-    // Arrange into 3x3 for display
-    const gridDisplay = [
-      [grid[0], grid[1], grid[2]],
-      [grid[3], grid[4], grid[5]],
-      [grid[6], grid[7], grid[8]],
-    ];
-
-    // Check all 5 paylines for matches
+    const outcome = this.replay(serverSeed, clientSeed, nonce, { betAmount: amount });
+    const { totalPayout } = outcome;
     const betPerLine = amount / PAYLINES.length;
-    let totalMultiplier = 0;
-    const paylineResults: {
-      paylineIndex: number;
-      positions: number[];
-      symbols: string[];
-      matchType: string | null;
-      multiplier: number;
-      payout: number;
-    }[] = [];
-
-    for (let pl = 0; pl < PAYLINES.length; pl++) {
-      const positions = PAYLINES[pl];
-      const lineSymbols = positions.map((pos) => grid[pos]);
-      const result = this.evaluatePayline(lineSymbols);
-
-      const linePayout = betPerLine * result.multiplier;
-      totalMultiplier += result.multiplier / PAYLINES.length; // Normalized
-
-      paylineResults.push({
-        paylineIndex: pl,
-        positions,
-        symbols: lineSymbols.map((s) => s.name),
-        matchType: result.matchType,
-        multiplier: result.multiplier,
-        payout: linePayout,
-      });
-    }
-
-    const totalPayout = paylineResults.reduce((sum, pr) => sum + pr.payout, 0);
     const effectiveMultiplier = amount > 0 ? totalPayout / amount : 0;
     const profit = totalPayout - amount;
 
@@ -122,16 +83,11 @@ export class SlotsGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency,
       betAmount: amount,
       payout: totalPayout,
       multiplier: effectiveMultiplier,
-      result: {
-        grid: gridDisplay.map((row) =>
-          row.map((s) => ({ id: s.id, name: s.name, icon: s.icon })),
-        ),
-        paylines: paylineResults,
-        totalPayout,
-      },
+      result: outcome,
       serverSeedHash,
       clientSeed,
       nonce,
@@ -151,11 +107,7 @@ export class SlotsGame extends BaseGame {
       profit,
       multiplier: effectiveMultiplier,
       result: {
-        grid: gridDisplay.map((row) =>
-          row.map((s) => ({ id: s.id, name: s.name, icon: s.icon })),
-        ),
-        paylines: paylineResults,
-        totalPayout,
+        ...outcome,
         betPerLine,
       },
       fairness: {
@@ -167,6 +119,57 @@ export class SlotsGame extends BaseGame {
     };
   }
 
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    // Generate 9 symbols (3x3) using weighted provably fair selection
+    const randoms = this.fairService.generateMultipleResults(serverSeed, clientSeed, nonce, 9);
+    const grid = randoms.map((r) => this.weightedSelect(r));
+
+    // Arrange into 3x3 for display
+    const gridDisplay = [
+      [grid[0], grid[1], grid[2]],
+      [grid[3], grid[4], grid[5]],
+      [grid[6], grid[7], grid[8]],
+    ];
+
+    // Check all 5 paylines for matches
+    const betPerLine = options.betAmount / PAYLINES.length;
+    const paylineResults: {
+      paylineIndex: number;
+      positions: number[];
+      symbols: string[];
+      matchType: string | null;
+      multiplier: number;
+      payout: number;
+    }[] = [];
+
+    for (let pl = 0; pl < PAYLINES.length; pl++) {
+      const positions = PAYLINES[pl];
+      const lineSymbols = positions.map((pos) => grid[pos]);
+      const result = this.evaluatePayline(lineSymbols);
+
+      const linePayout = betPerLine * result.multiplier;
+
+      paylineResults.push({
+        paylineIndex: pl,
+        positions,
+        symbols: lineSymbols.map((s) => s.name),
+        matchType: result.matchType,
+        multiplier: result.multiplier,
+        payout: linePayout,
+      });
+    }
+
+    const totalPayout = paylineResults.reduce((sum, pr) => sum + pr.payout, 0);
+
+    return {
+      grid: gridDisplay.map((row) =>
+        row.map((s) => ({ id: s.id, name: s.name, icon: s.icon })),
+      ),
+      paylines: paylineResults,
+      totalPayout,
+    };
+  }
+
   // -------------------------------------------------------------------------
   // Weighted symbol selection
   // -------------------------------------------------------------------------
@@ -1,4 +1,4 @@
-import { BaseGame, GameError, type GameResult, type BetRequest } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameError, type GameResult, type BetRequest, type ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Symbol definitions
@@ -145,6 +145,74 @@ export class Slots5Game extends BaseGame {
     const seeds = await this.getUserSeeds(userId);
     const { serverSeed, serverSeedHash, clientSeed, nonce } = seeds;
 
+    // Check if this is a bonus (free spin) round
+    const bonusRound = options?.bonusRound === true;
+
+    const outcome = this.replay(serverSeed, clientSeed, nonce, {
+      lines,
+      betPerLine,
+      bonusRound,
+      betAmount: totalBet,
+    });
+    const { totalPayout } = outcome;
+
+    const effectiveMultiplier = totalBet > 0 ? totalPayout / totalBet : 0;
+    const profit = totalPayout - totalBet;
+
+    // Deduct balance
+    await this.deductBalance(userId, totalBet, currency);
+
+    // Credit winnings
+    if (totalPayout > 0) {
+      await this.creditWinnings(userId, totalPayout, currency);
+    }
+
+    // Record round
+    const roundId = await this.recordRound({
+      userId,
+      gameSlug: this.slug,
+      currency,
+      betAmount: totalBet,
+      payout: totalPayout,
+      multiplier: effectiveMultiplier,
+      result: outcome,
+      serverSeedHash,
+      clientSeed,
+      nonce,
+    });
+
+    // Increment nonce
+    await this.incrementNonce(userId);
+
+    // Fetch updated balance
+    const newBalance = await this.getBalance(userId, currency);
+
+    return {
+      roundId,
+      game: this.slug,
+      betAmount: totalBet,
+      payout: totalPayout,
+      profit,
+      multiplier: effectiveMultiplier,
+      result: {
+        ...outcome,
+        activeLines: lines,
+      },
+      fairness: {
+        serverSeedHash,
+        clientSeed,
+        nonce,
+      },
+      newBalance,
+    };
+  }
+
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const lines = options.lines as number;
+    const betPerLine = options.betPerLine as number;
+    const bonusRound = options.bonusRound === true;
+    const totalBet = betPerLine * lines;
+
     // Generate 15 random values (5 reels x 3 rows)
     const randoms = this.fairService.generateMultipleResults(serverSeed, clientSeed, nonce, 15);
 
@@ -176,7 +244,6 @@ export class Slots5Game extends BaseGame {
     else if (scatterCount >= 3) freeSpinsWon = 10;
 
     // Check if this is a bonus (free spin) round
-    const bonusRound = options?.bonusRound === true;
     const bonusMultiplier = bonusRound ? 3 : 1;
 
     // Evaluate active paylines
@@ -233,17 +300,6 @@ export class Slots5Game extends BaseGame {
       });
     }
 
-    const effectiveMultiplier = totalBet > 0 ? totalPayout / totalBet : 0;
-    const profit = totalPayout - totalBet;
-
-    // Deduct balance
-    await this.deductBalance(userId, totalBet, currency);
-
-    // Credit winnings
-    if (totalPayout > 0) {
-      await this.creditWinnings(userId, totalPayout, currency);
-    }
-
     // Build grid display (reel-major to row-major for frontend display)
     const gridDisplay: { id: number; name: string; icon: string }[][] = [];
     for (let row = 0; row < 3; row++) {
@@ -255,55 +311,15 @@ export class Slots5Game extends BaseGame {
       gridDisplay.push(rowArr);
     }
 
-    // Record round
-    const roundId = await this.recordRound({
-      userId,
-      gameSlug: this.slug,
-      betAmount: totalBet,
-      payout: totalPayout,
-      multiplier: effectiveMultiplier,
-      result: {
-        grid: gridDisplay,
-        winLines,
-        scatterCount,
-        freeSpinsWon,
-        totalPayout,
-        bonusRound,
-      },
-      serverSeedHash,
-      clientSeed,
-      nonce,
-    });
-
-    // Increment nonce
-    await this.incrementNonce(userId);
-
-    // Fetch updated balance
-    const newBalance = await this.getBalance(userId, currency);
-
     return {
-      roundId,
-      game: this.slug,
-      betAmount: totalBet,
-      payout: totalPayout,
-      profit,
-      multiplier: effectiveMultiplier,
-      result: {
-        grid: gridDisplay,
-        winLines,
-        scatterCount,
-        freeSpinsWon,
-        totalPayout,
-        bonusRound,
-        betPerLine,
-        activeLines: lines,
-      },
-      fairness: {
-        serverSeedHash,
-        clientSeed,
-        nonce,
-      },
-      newBalance,
+      grid: gridDisplay,
+      winLines,
+      scatterCount,
+      freeSpinsWon,
+      totalPayout,
+      bonusRound,
+      lines,
+      betPerLine,
     };
   }
 
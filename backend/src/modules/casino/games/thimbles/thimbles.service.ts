@@ -1,4 +1,4 @@
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Thimbles / Shell Game
@@ -42,15 +42,11 @@ export class ThimblesGame extends BaseGame {
     // Get user seeds
     const seeds = await this.getUserSeeds(userId);
 
-    // Generate provably fair result
-    const rawResult = this.fairService.generateResult(
-      seeds.serverSeed,
-      seeds.clientSeed,
-      seeds.nonce,
-    );
-
-    const ballPosition = Math.floor(rawResult * ThimblesGame.NUM_CUPS);
-    const isWin = ballPosition === guess;
+    const outcome = this.replay(seeds.serverSeed, seeds.clientSeed, seeds.nonce, {
+      guess,
+      betAmount: bet.amount,
+    });
+    const { ballPosition, isWin } = outcome;
 
     // Deduct balance
     await this.deductBalance(userId, bet.amount, bet.currency);
@@ -73,16 +69,11 @@ export class ThimblesGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: bet.currency,
       betAmount: bet.amount,
       payout,
       multiplier,
-      result: {
-        guess,
-        ballPosition,
-        rawValue: rawResult,
-        isWin,
-        cups: ThimblesGame.NUM_CUPS,
-      },
+      result: outcome,
       serverSeedHash: seeds.serverSeedHash,
       clientSeed: seeds.clientSeed,
       nonce: seeds.nonce,
@@ -112,6 +103,24 @@ export class ThimblesGame extends BaseGame {
       newBalance,
     };
   }
+
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const guess = options.guess as number;
+
+    // Generate provably fair result
+    const rawResult = this.fairService.generateResult(serverSeed, clientSeed, nonce);
+
+    const ballPosition = Math.floor(rawResult * ThimblesGame.NUM_CUPS);
+    const isWin = ballPosition === guess;
+
+    return {
+      guess,
+      ballPosition,
+      rawValue: rawResult,
+      isWin,
+      cups: ThimblesGame.NUM_CUPS,
+    };
+  }
 }
 
 export const thimblesGame = new ThimblesGame();
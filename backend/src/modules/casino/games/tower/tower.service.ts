@@ -1,5 +1,5 @@
 import { redis } from '../../../../lib/redis.js';
-import { BaseGame, GameError, type GameResult, type BetRequest } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameError, type GameResult, type BetRequest, type ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -97,25 +97,7 @@ export class TowerGame extends BaseGame {
 
     // Generate trap positions for all 10 rows using provably fair
     const config = DIFFICULTY_CONFIGS[difficulty];
-    const totalRandomsNeeded = TOTAL_ROWS * config.traps;
-    const randoms = this.fairService.generateMultipleResults(serverSeed, clientSeed, nonce, totalRandomsNeeded);
-
-    const trapPositions: number[][] = [];
-    let randomIdx = 0;
-
-    for (let row = 0; row < TOTAL_ROWS; row++) {
-      const available = Array.from({ length: config.columns }, (_, i) => i);
-      const rowTraps: number[] = [];
-
-      for (let t = 0; t < config.traps; t++) {
-        const idx = Math.floor(randoms[randomIdx] * available.length);
-        rowTraps.push(available[idx]);
-        available.splice(idx, 1);
-        randomIdx++;
-      }
-
-      trapPositions.push(rowTraps.sort((a, b) => a - b));
-    }
+    const trapPositions = this.generateTrapPositions(serverSeed, clientSeed, nonce, difficulty);
 
     // Deduct balance
     await this.deductBalance(userId, amount, currency);
@@ -207,6 +189,7 @@ export class TowerGame extends BaseGame {
       const roundId = await this.recordRound({
         userId,
         gameSlug: this.slug,
+        currency: state.currency,
         betAmount: state.betAmount,
         payout: 0,
         multiplier: 0,
@@ -327,6 +310,67 @@ export class TowerGame extends BaseGame {
     return this.cashoutInternal(userId, state, key);
   }
 
+  // -------------------------------------------------------------------------
+  // Replay
+  // -------------------------------------------------------------------------
+
+  /**
+   * Rebuild a finished climb from the difficulty and the column picked on
+   * each row. The climb ends on the first trap, otherwise it was cashed out
+   * (by the player or automatically at the top).
+   */
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions): Record<string, any> {
+    const difficulty: Difficulty = options.difficulty;
+    const revealed: number[] = options.revealed;
+    const trapPositions = this.generateTrapPositions(serverSeed, clientSeed, nonce, difficulty);
+
+    for (let row = 0; row < revealed.length; row++) {
+      if (trapPositions[row].includes(revealed[row])) {
+        return {
+          status: 'busted',
+          difficulty,
+          currentRow: row,
+          column: revealed[row],
+          trapPositions,
+          revealed: revealed.slice(0, row + 1),
+        };
+      }
+    }
+
+    return {
+      status: 'cashout',
+      difficulty,
+      currentRow: revealed.length,
+      trapPositions,
+      revealed,
+    };
+  }
+
+  private generateTrapPositions(serverSeed: string, clientSeed: string, nonce: number, difficulty: Difficulty): number[][] {
+    const config = DIFFICULTY_CONFIGS[difficulty];
+    const totalRandomsNeeded = TOTAL_ROWS * config.traps;
+    const randoms = this.fairService.generateMultipleResults(serverSeed, clientSeed, nonce, totalRandomsNeeded);
+
+    const trapPositions: number[][] = [];
+    let randomIdx = 0;
+
+    for (let row = 0; row < TOTAL_ROWS; row++) {
+      const available = Array.from({ length: config.columns }, (_, i) => i);
+      const rowTraps: number[] = [];
+
+      for (let t = 0; t < config.traps; t++) {
+        const idx = Math.floor(randoms[randomIdx] * available.length);
+        rowTraps.push(available[idx]);
+        available.splice(idx, 1);
+        randomIdx++;
+      }
+
+      trapPositions.push(rowTraps.sort((a, b) => a - b));
+    }
+
+    return trapPositions;
+  }
+
   // -------------------------------------------------------------------------
   // Internal cashout
   // -------------------------------------------------------------------------
@@ -342,6 +386,7 @@ export class TowerGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: state.currency,
       betAmount: state.betAmount,
       payout,
       multiplier: state.multiplier,
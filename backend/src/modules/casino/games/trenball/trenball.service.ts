@@ -1,4 +1,4 @@
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Trenball - Football-themed Crash Variant (Single Player Instant)
@@ -55,20 +55,66 @@ export class TrenballGame extends BaseGame {
     // Deduct balance
     await this.deductBalance(userId, amount, currency);
 
+    const result = this.replay(seeds.serverSeed, seeds.clientSeed, seeds.nonce, {
+      team,
+      autoCashout,
+      betAmount: amount,
+    });
+    const { cashoutMultiplier, isWin, payout } = result;
+
+    // Credit winnings if won
+    if (payout > 0) {
+      await this.creditWinnings(userId, payout, currency);
+    }
+
+    // Increment nonce
+    await this.incrementNonce(userId);
+
+    // Get new balance
+    const newBalance = await this.getBalance(userId, currency);
+
+    // Record round
+    const roundId = await this.recordRound({
+      userId,
+      gameSlug: this.slug,
+      currency,
+      betAmount: amount,
+      payout,
+      multiplier: isWin ? cashoutMultiplier : 0,
+      result,
+      serverSeedHash: seeds.serverSeedHash,
+      clientSeed: seeds.clientSeed,
+      nonce: seeds.nonce,
+    });
+
+    return {
+      roundId,
+      game: this.slug,
+      betAmount: amount,
+      payout,
+      profit: payout - amount,
+      multiplier: isWin ? cashoutMultiplier : 0,
+      result,
+      fairness: {
+        serverSeedHash: seeds.serverSeedHash,
+        clientSeed: seeds.clientSeed,
+        nonce: seeds.nonce,
+      },
+      newBalance,
+    };
+  }
+
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const team = options.team as 'red' | 'blue';
+    const autoCashout = (options.autoCashout ?? null) as number | null;
+    const amount = options.betAmount;
+
     // Generate crash point using provably fair algorithm (same as crash game)
-    const crashPoint = this.fairService.generateCrashPoint(
-      seeds.serverSeed,
-      seeds.clientSeed,
-      seeds.nonce,
-    );
+    const crashPoint = this.fairService.generateCrashPoint(serverSeed, clientSeed, nonce);
 
     // Determine which team scores using a separate provably fair result
     // We use the generateResult method with a different sub-index
-    const teamResult = this.fairService.generateResult(
-      seeds.serverSeed,
-      `${seeds.clientSeed}:team`,
-      seeds.nonce,
-    );
+    const teamResult = this.fairService.generateResult(serverSeed, `${clientSeed}:team`, nonce);
     const scoringTeam: 'red' | 'blue' = teamResult < 0.5 ? 'red' : 'blue';
 
     // Determine outcome
@@ -98,19 +144,7 @@ export class TrenballGame extends BaseGame {
       }
     }
 
-    // Credit winnings if won
-    if (payout > 0) {
-      await this.creditWinnings(userId, payout, currency);
-    }
-
-    // Increment nonce
-    await this.incrementNonce(userId);
-
-    // Get new balance
-    const newBalance = await this.getBalance(userId, currency);
-
-    // Build result
-    const result: any = {
+    return {
       team,
       scoringTeam,
       crashPoint,
@@ -120,35 +154,6 @@ export class TrenballGame extends BaseGame {
       autoCashout,
       wasAutoCashout: autoCashout !== null && autoCashout < crashPoint,
     };
-
-    // Record round
-    const roundId = await this.recordRound({
-      userId,
-      gameSlug: this.slug,
-      betAmount: amount,
-      payout,
-      multiplier: isWin ? cashoutMultiplier : 0,
-      result,
-      serverSeedHash: seeds.serverSeedHash,
-      clientSeed: seeds.clientSeed,
-      nonce: seeds.nonce,
-    });
-
-    return {
-      roundId,
-      game: this.slug,
-      betAmount: amount,
-      payout,
-      profit: payout - amount,
-      multiplier: isWin ? cashoutMultiplier : 0,
-      result,
-      fairness: {
-        serverSeedHash: seeds.serverSeedHash,
-        clientSeed: seeds.clientSeed,
-        nonce: seeds.nonce,
-      },
-      newBalance,
-    };
   }
 }
 
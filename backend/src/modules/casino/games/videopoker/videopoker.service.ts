@@ -1,5 +1,5 @@
 import { redis } from '../../../../lib/redis.js';
-import { BaseGame, GameError, type GameResult, type BetRequest } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameError, type GameResult, type BetRequest, type ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Card helpers
@@ -202,18 +202,7 @@ export class VideoPokerGame extends BaseGame {
     }
 
     // Replace non-held cards
-    const newHand = [...state.hand];
-    let deckPos = state.deckPosition;
-
-    for (let i = 0; i < 5; i++) {
-      if (!holds[i]) {
-        if (deckPos >= state.deck.length) {
-          throw new GameError('DECK_EXHAUSTED', 'Not enough cards in deck.');
-        }
-        newHand[i] = state.deck[deckPos];
-        deckPos++;
-      }
-    }
+    const newHand = this.drawCards(state.deck, state.hand, state.deckPosition, holds);
 
     // Evaluate final hand
     const cards = newHand.map(indexToCard);
@@ -232,6 +221,7 @@ export class VideoPokerGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency: state.currency,
       betAmount: state.betAmount,
       payout,
       multiplier,
@@ -277,6 +267,42 @@ export class VideoPokerGame extends BaseGame {
     };
   }
 
+  /**
+   * Rebuild a completed hand: the dealt cards are the top five of the seeded
+   * deck and every card not in `options.holds` is replaced from position 5 on.
+   */
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions): Record<string, any> {
+    const deck = this.fairService.generateShuffledDeck(serverSeed, clientSeed, nonce);
+    const hand = deck.slice(0, 5);
+    const finalHand = this.drawCards(deck, hand, 5, options.holds).map(indexToCard);
+    const handEval = this.evaluateHand(finalHand);
+
+    return {
+      initialHand: hand.map(indexToCard).map((c) => ({ rank: c.rank, suit: c.suit })),
+      holds: options.holds,
+      finalHand: finalHand.map((c) => ({ rank: c.rank, suit: c.suit })),
+      handName: handEval.name,
+      handRank: handEval.rank,
+    };
+  }
+
+  private drawCards(deck: number[], hand: number[], deckPosition: number, holds: boolean[]): number[] {
+    const newHand = [...hand];
+    let deckPos = deckPosition;
+
+    for (let i = 0; i < 5; i++) {
+      if (!holds[i]) {
+        if (deckPos >= deck.length) {
+          throw new GameError('DECK_EXHAUSTED', 'Not enough cards in deck.');
+        }
+        newHand[i] = deck[deckPos];
+        deckPos++;
+      }
+    }
+
+    return newHand;
+  }
+
   // -------------------------------------------------------------------------
   // Hand evaluation
   // -------------------------------------------------------------------------
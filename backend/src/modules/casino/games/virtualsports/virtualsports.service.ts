@@ -1,4 +1,4 @@
-import { BaseGame, GameResult, BetRequest, GameError } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameResult, BetRequest, GameError, ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Virtual Sports Game
@@ -405,12 +405,7 @@ export class VirtualSportsGame extends BaseGame {
     const seeds = await this.getUserSeeds(userId);
 
     // Generate multiple provably fair results for the match simulation
-    const rawResults: number[] = [];
-    for (let i = 0; i < 16; i++) {
-      rawResults.push(
-        this.fairService.generateResult(seeds.serverSeed, seeds.clientSeed, seeds.nonce + i),
-      );
-    }
+    const rawResults = this.generateRawResults(seeds.serverSeed, seeds.clientSeed, seeds.nonce);
 
     // Determine or retrieve the match
     let match: GeneratedMatch;
@@ -455,6 +450,79 @@ export class VirtualSportsGame extends BaseGame {
     // Deduct balance
     await this.deductBalance(userId, bet.amount, bet.currency);
 
+    // Simulate the match
+    const matchResult = this.replay(seeds.serverSeed, seeds.clientSeed, seeds.nonce, {
+      sport,
+      homeTeam: match.homeTeam.name,
+      awayTeam: match.awayTeam.name,
+      userBet: betType,
+      odds: userOdds,
+      betAmount: bet.amount,
+    });
+    const { isWin, payout } = matchResult;
+    const multiplier = isWin ? userOdds : 0;
+
+    // Credit winnings
+    if (isWin && payout > 0) {
+      await this.creditWinnings(userId, payout, bet.currency);
+    }
+
+    // Increment nonce
+    await this.incrementNonce(userId);
+
+    // Record round
+    const roundId = await this.recordRound({
+      userId,
+      gameSlug: this.slug,
+      currency: bet.currency,
+      betAmount: bet.amount,
+      payout,
+      multiplier,
+      result: matchResult,
+      serverSeedHash: seeds.serverSeedHash,
+      clientSeed: seeds.clientSeed,
+      nonce: seeds.nonce,
+    });
+
+    // Fetch updated balance
+    const newBalance = await this.getBalance(userId, bet.currency);
+
+    // Remove consumed match
+    activeMatches.delete(match.matchId);
+
+    return {
+      roundId,
+      game: this.slug,
+      betAmount: bet.amount,
+      payout,
+      profit: payout - bet.amount,
+      multiplier,
+      result: matchResult,
+      fairness: {
+        serverSeedHash: seeds.serverSeedHash,
+        clientSeed: seeds.clientSeed,
+        nonce: seeds.nonce,
+      },
+      newBalance,
+    };
+  }
+
+  /**
+   * Teams are looked up by the names recorded on the round.
+   */
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions): MatchResult {
+    const sport = options.sport as Sport;
+    const betType = options.userBet as BetType;
+    const userOdds = options.odds as number;
+    const teams = getTeamsBySport(sport);
+    const homeTeam = teams.find((t) => t.name === options.homeTeam);
+    const awayTeam = teams.find((t) => t.name === options.awayTeam);
+    if (!homeTeam || !awayTeam) {
+      throw new GameError('UNKNOWN_TEAM', `Unknown ${sport} team in match ${options.homeTeam} vs ${options.awayTeam}.`);
+    }
+
+    const rawResults = this.generateRawResults(serverSeed, clientSeed, nonce);
+
     // Simulate the match
     let homeScore: number;
     let awayScore: number;
@@ -462,28 +530,28 @@ export class VirtualSportsGame extends BaseGame {
 
     switch (sport) {
       case 'football': {
-        const sim = simulateFootballScore(match.homeTeam.strength, match.awayTeam.strength, rawResults);
+        const sim = simulateFootballScore(homeTeam.strength, awayTeam.strength, rawResults);
         homeScore = sim.homeScore;
         awayScore = sim.awayScore;
         matchHighlights = sim.highlights;
         break;
       }
       case 'basketball': {
-        const sim = simulateBasketballScore(match.homeTeam.strength, match.awayTeam.strength, rawResults);
+        const sim = simulateBasketballScore(homeTeam.strength, awayTeam.strength, rawResults);
         homeScore = sim.homeScore;
         awayScore = sim.awayScore;
         matchHighlights = sim.highlights;
         break;
       }
       case 'tennis': {
-        const sim = simulateTennisScore(match.homeTeam.strength, match.awayTeam.strength, rawResults);
+        const sim = simulateTennisScore(homeTeam.strength, awayTeam.strength, rawResults);
         homeScore = sim.homeScore;
         awayScore = sim.awayScore;
         matchHighlights = sim.highlights;
         break;
       }
       default: {
-        const sim = simulateFootballScore(match.homeTeam.strength, match.awayTeam.strength, rawResults);
+        const sim = simulateFootballScore(homeTeam.strength, awayTeam.strength, rawResults);
         homeScore = sim.homeScore;
         awayScore = sim.awayScore;
         matchHighlights = sim.highlights;
@@ -502,22 +570,13 @@ export class VirtualSportsGame extends BaseGame {
 
     // Check if user bet wins
     const isWin = betType === winner;
-    const multiplier = isWin ? userOdds : 0;
-    const payout = isWin ? Math.floor(bet.amount * userOdds * 100000000) / 100000000 : 0;
-
-    // Credit winnings
-    if (isWin && payout > 0) {
-      await this.creditWinnings(userId, payout, bet.currency);
-    }
-
-    // Increment nonce
-    await this.incrementNonce(userId);
+    const payout = isWin ? Math.floor(options.betAmount * userOdds * 100000000) / 100000000 : 0;
 
     // Build result object
     const matchResult: MatchResult = {
       sport,
-      homeTeam: match.homeTeam.name,
-      awayTeam: match.awayTeam.name,
+      homeTeam: homeTeam.name,
+      awayTeam: awayTeam.name,
       homeScore,
       awayScore,
       winner,
@@ -528,40 +587,18 @@ export class VirtualSportsGame extends BaseGame {
       matchHighlights,
     };
 
-    // Record round
-    const roundId = await this.recordRound({
-      userId,
-      gameSlug: this.slug,
-      betAmount: bet.amount,
-      payout,
-      multiplier,
-      result: matchResult,
-      serverSeedHash: seeds.serverSeedHash,
-      clientSeed: seeds.clientSeed,
-      nonce: seeds.nonce,
-    });
-
-    // Fetch updated balance
-    const newBalance = await this.getBalance(userId, bet.currency);
-
-    // Remove consumed match
-    activeMatches.delete(match.matchId);
+    return matchResult;
+  }
 
-    return {
-      roundId,
-      game: this.slug,
-      betAmount: bet.amount,
-      payout,
-      profit: payout - bet.amount,
-      multiplier,
-      result: matchResult,
-      fairness: {
-        serverSeedHash: seeds.serverSeedHash,
-        clientSeed: seeds.clientSeed,
-        nonce: seeds.nonce,
-      },
-      newBalance,
-    };
+  /**
+   * 16 provably fair values for a match, one per consecutive nonce.
+   */
+  private generateRawResults(serverSeed: string, clientSeed: string, nonce: number): number[] {
+    const rawResults: number[] = [];
+    for (let i = 0; i < 16; i++) {
+      rawResults.push(this.fairService.generateResult(serverSeed, clientSeed, nonce + i));
+    }
+    return rawResults;
   }
 }
 
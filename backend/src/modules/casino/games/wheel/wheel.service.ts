@@ -1,4 +1,4 @@
-import { BaseGame, GameError, type GameResult, type BetRequest } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameError, type GameResult, type BetRequest, type ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -87,14 +87,10 @@ export class WheelGame extends BaseGame {
     const seeds = await this.getUserSeeds(userId);
     const { serverSeed, serverSeedHash, clientSeed, nonce } = seeds;
 
-    // Generate segment index using provably fair
+    const outcome = this.replay(serverSeed, clientSeed, nonce, { riskLevel, betAmount: amount });
     const segments = WHEEL_CONFIGS[riskLevel];
-    const totalSegments = segments.length; // 54
-    const pfResult = this.fairService.generateResult(serverSeed, clientSeed, nonce);
-    const segmentIndex = Math.floor(pfResult * totalSegments);
-    const segment = segments[segmentIndex];
 
-    const multiplier = segment.multiplier;
+    const multiplier = outcome.segmentMultiplier;
     const payout = amount * multiplier;
     const profit = payout - amount;
 
@@ -108,16 +104,11 @@ export class WheelGame extends BaseGame {
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency,
       betAmount: amount,
       payout,
       multiplier,
-      result: {
-        segmentIndex,
-        segmentColor: segment.color,
-        segmentMultiplier: multiplier,
-        riskLevel,
-        totalSegments,
-      },
+      result: outcome,
       serverSeedHash,
       clientSeed,
       nonce,
@@ -137,11 +128,7 @@ export class WheelGame extends BaseGame {
       profit,
       multiplier,
       result: {
-        segmentIndex,
-        segmentColor: segment.color,
-        segmentMultiplier: multiplier,
-        riskLevel,
-        totalSegments,
+        ...outcome,
         allSegments: segments,
       },
       fairness: {
@@ -152,6 +139,25 @@ export class WheelGame extends BaseGame {
       newBalance,
     };
   }
+
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    const riskLevel = options.riskLevel as RiskLevel;
+
+    // Generate segment index using provably fair
+    const segments = WHEEL_CONFIGS[riskLevel];
+    const totalSegments = segments.length; // 54
+    const pfResult = this.fairService.generateResult(serverSeed, clientSeed, nonce);
+    const segmentIndex = Math.floor(pfResult * totalSegments);
+    const segment = segments[segmentIndex];
+
+    return {
+      segmentIndex,
+      segmentColor: segment.color,
+      segmentMultiplier: segment.multiplier,
+      riskLevel,
+      totalSegments,
+    };
+  }
 }
 
 export const wheelGame = new WheelGame();
@@ -1,4 +1,4 @@
-import { BaseGame, GameError, type GameResult, type BetRequest } from '../../../../services/casino/BaseGame.js';
+import { BaseGame, GameError, type GameResult, type BetRequest, type ReplayOptions } from '../../../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -98,38 +98,8 @@ export class WheelOfMillionsGame extends BaseGame {
     const seeds = await this.getUserSeeds(userId);
     const { serverSeed, serverSeedHash, clientSeed, nonce } = seeds;
 
-    // Generate 3 random values (one for each possible tier) using provably fair
-    const pfResults = this.fairService.generateMultipleResults(serverSeed, clientSeed, nonce, 3);
-
-    // --- Tier 1 (Outer Wheel) - always spins ---
-    const tier1Pick = pickSegment(TIER1_SEGMENTS, TIER1_TOTAL, pfResults[0]);
-    const tier1: TierResult = { segment: tier1Pick.segment, multiplier: tier1Pick.multiplier };
-
-    let tier2: TierResult | undefined;
-    let tier3: TierResult | undefined;
-    let finalMultiplier: number;
-    let tiersReached = 1;
-
-    if (tier1Pick.segment === 'BONUS') {
-      // --- Tier 2 (Middle Wheel) ---
-      tiersReached = 2;
-      const tier2Pick = pickSegment(TIER2_SEGMENTS, TIER2_TOTAL, pfResults[1]);
-      tier2 = { segment: tier2Pick.segment, multiplier: tier2Pick.multiplier };
-
-      if (tier2Pick.segment === 'MEGA BONUS') {
-        // --- Tier 3 (Inner Wheel) ---
-        tiersReached = 3;
-        const tier3Pick = pickSegment(TIER3_SEGMENTS, TIER3_TOTAL, pfResults[2]);
-        tier3 = { segment: tier3Pick.segment, multiplier: tier3Pick.multiplier };
-        finalMultiplier = tier3Pick.multiplier;
-      } else {
-        finalMultiplier = tier2Pick.multiplier;
-      }
-    } else {
-      finalMultiplier = tier1Pick.multiplier;
-    }
-
-    const payout = Math.floor(amount * finalMultiplier * 100000000) / 100000000;
+    const outcome = this.replay(serverSeed, clientSeed, nonce, { betAmount: amount });
+    const { finalMultiplier, payout } = outcome;
     const profit = payout - amount;
 
     // Atomic transaction: deduct, credit if win, record round
@@ -139,28 +109,14 @@ export class WheelOfMillionsGame extends BaseGame {
       await this.creditWinnings(userId, payout, currency);
     }
 
-    const resultData: WheelOfMillionsResult = {
-      tier1,
-      tier2,
-      tier3,
-      finalMultiplier,
-      payout,
-      tiersReached,
-    };
-
     const roundId = await this.recordRound({
       userId,
       gameSlug: this.slug,
+      currency,
       betAmount: amount,
       payout,
       multiplier: finalMultiplier,
-      result: {
-        ...resultData,
-        pfValues: pfResults,
-        tier1Index: pickSegment(TIER1_SEGMENTS, TIER1_TOTAL, pfResults[0]).index,
-        tier2Index: tier2 ? pickSegment(TIER2_SEGMENTS, TIER2_TOTAL, pfResults[1]).index : null,
-        tier3Index: tier3 ? pickSegment(TIER3_SEGMENTS, TIER3_TOTAL, pfResults[2]).index : null,
-      },
+      result: outcome,
       serverSeedHash,
       clientSeed,
       nonce,
@@ -180,13 +136,10 @@ export class WheelOfMillionsGame extends BaseGame {
       profit,
       multiplier: finalMultiplier,
       result: {
-        ...resultData,
+        ...outcome,
         tier1Segments: TIER1_SEGMENTS.map((s) => ({ segment: s.segment, multiplier: s.multiplier })),
         tier2Segments: TIER2_SEGMENTS.map((s) => ({ segment: s.segment, multiplier: s.multiplier })),
         tier3Segments: TIER3_SEGMENTS.map((s) => ({ segment: s.segment, multiplier: s.multiplier })),
-        tier1Index: pickSegment(TIER1_SEGMENTS, TIER1_TOTAL, pfResults[0]).index,
-        tier2Index: tier2 ? pickSegment(TIER2_SEGMENTS, TIER2_TOTAL, pfResults[1]).index : null,
-        tier3Index: tier3 ? pickSegment(TIER3_SEGMENTS, TIER3_TOTAL, pfResults[2]).index : null,
       },
       fairness: {
         serverSeedHash,
@@ -196,6 +149,58 @@ export class WheelOfMillionsGame extends BaseGame {
       newBalance,
     };
   }
+
+  replay(serverSeed: string, clientSeed: string, nonce: number, options: ReplayOptions) {
+    // Generate 3 random values (one for each possible tier) using provably fair
+    const pfResults = this.fairService.generateMultipleResults(serverSeed, clientSeed, nonce, 3);
+
+    // --- Tier 1 (Outer Wheel) - always spins ---
+    const tier1Pick = pickSegment(TIER1_SEGMENTS, TIER1_TOTAL, pfResults[0]);
+    const tier1: TierResult = { segment: tier1Pick.segment, multiplier: tier1Pick.multiplier };
+
+    let tier2: TierResult | undefined;
+    let tier3: TierResult | undefined;
+    let finalMultiplier: number;
+    let tiersReached = 1;
+
+    if (tier1Pick.segment === 'BONUS') {
+      // --- Tier 2 (Middle Wheel) ---
+      tiersReached = 2;
+      const tier2Pick = pickSegment(TIER2_SEGMENTS, TIER2_TOTAL, pfResults[1]);
+      tier2 = { segment: tier2Pick.segment, multiplier: tier2Pick.multiplier };
+
+      if (tier2Pick.segment === 'MEGA BONUS') {
+        // --- Tier 3 (Inner Wheel) ---
+        tiersReached = 3;
+        const tier3Pick = pickSegment(TIER3_SEGMENTS, TIER3_TOTAL, pfResults[2]);
+        tier3 = { segment: tier3Pick.segment, multiplier: tier3Pick.multiplier };
+        finalMultiplier = tier3Pick.multiplier;
+      } else {
+        finalMultiplier = tier2Pick.multiplier;
+      }
+    } else {
+      finalMultiplier = tier1Pick.multiplier;
+    }
+
+    const payout = Math.floor(options.betAmount * finalMultiplier * 100000000) / 100000000;
+
+    const resultData: WheelOfMillionsResult = {
+      tier1,
+      tier2,
+      tier3,
+      finalMultiplier,
+      payout,
+      tiersReached,
+    };
+
+    return {
+      ...resultData,
+      pfValues: pfResults,
+      tier1Index: tier1Pick.index,
+      tier2Index: tier2 ? pickSegment(TIER2_SEGMENTS, TIER2_TOTAL, pfResults[1]).index : null,
+      tier3Index: tier3 ? pickSegment(TIER3_SEGMENTS, TIER3_TOTAL, pfResults[2]).index : null,
+    };
+  }
 }
 
 export const wheelOfMillionsGame = new WheelOfMillionsGame();
@@ -1,4 +1,5 @@
 import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 import { prisma } from '../../lib/prisma.js';
 import { redis } from '../../lib/redis.js';
@@ -9,7 +10,7 @@ import { JACKPOT_TIERS } from '../../config/constants.js';
 // Types
 // ---------------------------------------------------------------------------
 
-type JackpotTier = 'MINI' | 'MAJOR' | 'GRAND';
+export type JackpotTier = 'MINI' | 'MAJOR' | 'GRAND';
 
 interface JackpotPoolInfo {
   tier: JackpotTier;
@@ -22,10 +23,31 @@ interface JackpotPoolInfo {
 
 interface JackpotWinResult {
   tier: JackpotTier;
+  /** Paid in `currency` */
   amount: string;
+  currency: string;
+  amountUsd: string;
   userId: string;
 }
 
+interface JackpotDrawInfo {
+  id: string;
+  username: string;
+  gameSlug: string;
+  currency: string;
+  betAmount: string;
+  betAmountUsd: string;
+  tier: JackpotTier | null;
+  winAmount: string | null;
+  winAmountUsd: string | null;
+  serverSeedHash: string;
+  serverSeed: string | null;
+  clientSeed: string;
+  nonce: number;
+  result: number;
+  createdAt: string;
+}
+
 // ---------------------------------------------------------------------------
 // Config
 // ---------------------------------------------------------------------------
@@ -55,7 +77,7 @@ const WIN_PROBABILITY: Record<JackpotTier, number> = {
 };
 
 /**
- * Seed amounts for each tier (used when pool resets after a win).
+ * Seed amounts for each tier in USD (used when pool resets after a win).
  */
 const SEED_AMOUNTS: Record<JackpotTier, number> = {
   MINI: JACKPOT_TIERS.MINI,     // 100
@@ -96,16 +118,30 @@ export class JackpotService {
     await this.syncPoolsToRedis();
   }
 
+  /**
+   * Contribute to the pools and run the jackpot draw for a settled bet.
+   * Called after every casino round.
+   */
+  async processBet(userId: string, betAmount: number, currency: string, gameSlug: string): Promise<JackpotWinResult | null> {
+    await this.contributeToJackpot(betAmount, currency, gameSlug);
+    return this.checkJackpotWin(userId, betAmount, currency, gameSlug);
+  }
+
   /**
    * Contribute a portion of a bet to the jackpot pools.
-   * Called after every casino bet.
+   * Pools are held in USD, so the contribution is converted at the bet
+   * currency's `exchangeRateUsd`.
    *
-   * @param betAmount - The bet amount (number)
+   * @param betAmount - The bet amount, in `currency`
+   * @param currency - The bet currency symbol
    * @param gameSlug - The game slug for looking up per-game contribution rate
    */
-  async contributeToJackpot(betAmount: number, gameSlug: string): Promise<void> {
+  async contributeToJackpot(betAmount: number, currency: string, gameSlug: string): Promise<void> {
     if (betAmount <= 0) return;
 
+    const rate = await this.getUsdRate(currency);
+    if (!rate) return;
+
     // Look up per-game contribution rate
     let contributionRate = DEFAULT_JACKPOT_CONTRIBUTION;
 
@@ -118,7 +154,7 @@ export class JackpotService {
       contributionRate = gameConfig.jackpotContribution.toNumber();
     }
 
-    const totalContribution = betAmount * contributionRate;
+    const totalContribution = betAmount * rate * contributionRate;
     if (totalContribution <= 0) return;
 
     // Split across tiers and update atomically
@@ -142,47 +178,72 @@ export class JackpotService {
 
   /**
    * Check if a bet wins a jackpot.
-   * Uses provably fair randomness to determine the outcome.
+   *
+   * The draw uses the player's active seed pair with its own jackpot nonce:
+   * value = HMAC-SHA256(serverSeed, "<clientSeed>:jackpot:<nonce>") / 2^32.
+   * Every draw is recorded so it can be verified once the seed is revealed.
    *
    * @param userId - The user who placed the bet
-   * @param betAmount - The bet amount (affects contribution, not win chance)
+   * @param betAmount - The bet amount (recorded, does not affect win chance)
+   * @param currency - The bet currency; a jackpot is paid out in it
+   * @param gameSlug - The game the bet was placed on
    * @returns The tier won, or null if no win
    */
   async checkJackpotWin(
     userId: string,
     betAmount: number,
+    currency: string,
+    gameSlug: string,
   ): Promise<JackpotWinResult | null> {
     if (betAmount <= 0) return null;
 
-    // Generate a provably fair random value for jackpot check
-    // Use a dedicated server seed for jackpot to avoid affecting game seeds
-    const jackpotSeed = crypto.randomBytes(32).toString('hex');
-    const clientSeed = `jackpot_${userId}_${Date.now()}`;
-    const nonce = 0;
-
-    // Check each tier from most valuable to least
-    for (const tier of ['GRAND', 'MAJOR', 'MINI'] as JackpotTier[]) {
-      const result = provablyFairService.generateResult(jackpotSeed, clientSeed, nonce);
-      const threshold = 1 / WIN_PROBABILITY[tier];
-
-      if (result < threshold) {
-        // Winner! Award the jackpot
-        const winResult = await this.awardJackpot(userId, tier);
-        if (winResult) {
-          return winResult;
-        }
-      }
-    }
+    const rate = await this.getUsdRate(currency);
+    if (!rate) return null;
+
+    // Claim the next jackpot nonce of the active seed pair
+    const active = await this.getActiveSeed(userId);
+    const seed = await prisma.provablyFairSeed.update({
+      where: { id: active.id },
+      data: { jackpotNonce: { increment: 1 } },
+    });
+    const nonce = seed.jackpotNonce - 1;
+
+    const result = provablyFairService.generateResult(seed.serverSeed, `${seed.clientSeed}:jackpot`, nonce);
+
+    // One value decides the draw: the rarest tier whose threshold it is under
+    const tier = (['GRAND', 'MAJOR', 'MINI'] as JackpotTier[]).find((t) => result < 1 / WIN_PROBABILITY[t]) ?? null;
 
-    return null;
+    const draw = await prisma.jackpotDraw.create({
+      data: {
+        userId,
+        seedId: seed.id,
+        gameSlug,
+        currency,
+        betAmount: new Decimal(betAmount.toFixed(8)),
+        betAmountUsd: new Decimal((betAmount * rate).toFixed(8)),
+        serverSeedHash: seed.serverSeedHash,
+        clientSeed: seed.clientSeed,
+        nonce,
+        result,
+      },
+    });
+
+    if (!tier) return null;
+
+    return this.awardJackpot(userId, tier, currency, draw.id);
   }
 
   /**
-   * Award a jackpot to a user.
+   * Award a jackpot to a user, paid in `currency` at its USD exchange rate.
    * Resets the pool to seed amount.
    */
-  async awardJackpot(userId: string, tier: JackpotTier): Promise<JackpotWinResult | null> {
-    return prisma.$transaction(async (tx) => {
+  async awardJackpot(
+    userId: string,
+    tier: JackpotTier,
+    currency: string,
+    drawId?: string,
+  ): Promise<JackpotWinResult | null> {
+    const result = await prisma.$transaction(async (tx) => {
       // Get current pool
       const pool = await tx.jackpotPool.findFirst({
         where: { tier },
@@ -190,7 +251,13 @@ export class JackpotService {
 
       if (!pool) return null;
 
-      const winAmount = pool.amount;
+      const currencyRecord = await tx.currency.findUnique({
+        where: { symbol: currency.toUpperCase() },
+      });
+      if (!currencyRecord || currencyRecord.exchangeRateUsd.lte(0)) return null;
+
+      const winAmountUsd = pool.amount;
+      const winAmount = winAmountUsd.div(currencyRecord.exchangeRateUsd).toDecimalPlaces(8, Decimal.ROUND_DOWN);
 
       // Reset pool to seed amount
       await tx.jackpotPool.updateMany({
@@ -199,39 +266,43 @@ export class JackpotService {
           amount: pool.seedAmount,
           lastWonAt: new Date(),
           lastWonBy: userId,
-          lastWonAmount: winAmount,
+          lastWonAmount: winAmountUsd,
         },
       });
 
-      // Credit the user's primary wallet (USDT by default)
-      const wallet = await tx.wallet.findFirst({
-        where: {
-          userId,
-          currency: { symbol: 'USDT' },
+      // Credit the wallet of the bet currency
+      const wallet =
+        (await tx.wallet.findFirst({ where: { userId, currencyId: currencyRecord.id } })) ??
+        (await tx.wallet.create({ data: { userId, currencyId: currencyRecord.id } }));
+
+      await tx.wallet.update({
+        where: { id: wallet.id },
+        data: {
+          balance: { increment: winAmount },
         },
       });
 
-      if (wallet) {
-        await tx.wallet.update({
-          where: { id: wallet.id },
-          data: {
-            balance: { increment: winAmount },
+      // Record WIN transaction
+      await tx.transaction.create({
+        data: {
+          walletId: wallet.id,
+          type: 'WIN',
+          amount: winAmount,
+          status: 'COMPLETED',
+          metadata: {
+            type: 'jackpot',
+            tier,
+            jackpotAmount: winAmount.toFixed(8),
+            jackpotAmountUsd: winAmountUsd.toFixed(8),
+            drawId: drawId ?? null,
           },
-        });
+        },
+      });
 
-        // Record WIN transaction
-        await tx.transaction.create({
-          data: {
-            walletId: wallet.id,
-            type: 'WIN',
-            amount: winAmount,
-            status: 'COMPLETED',
-            metadata: {
-              type: 'jackpot',
-              tier,
-              jackpotAmount: winAmount.toFixed(8),
-            },
-          },
+      if (drawId) {
+        await tx.jackpotDraw.update({
+          where: { id: drawId },
+          data: { tier, winAmountUsd, winAmount },
         });
       }
 
@@ -241,10 +312,12 @@ export class JackpotService {
           userId,
           type: 'BET_WON',
           title: `${tier} Jackpot Won!`,
-          message: `Congratulations! You won the ${tier} jackpot of $${winAmount.toFixed(2)}!`,
+          message: `Congratulations! You won the ${tier} jackpot of ${winAmount.toFixed()} ${currencyRecord.symbol} ($${winAmountUsd.toFixed(2)})!`,
           data: {
             tier,
             amount: winAmount.toFixed(8),
+            currency: currencyRecord.symbol,
+            amountUsd: winAmountUsd.toFixed(8),
           },
         },
       });
@@ -252,9 +325,106 @@ export class JackpotService {
       return {
         tier,
         amount: winAmount.toFixed(8),
+        currency: currencyRecord.symbol,
+        amountUsd: winAmountUsd.toFixed(8),
         userId,
       };
     });
+
+    if (result) {
+      this.syncPoolsToRedis().catch(() => { /* ignore */ });
+    }
+    return result;
+  }
+
+  /**
+   * Jackpot draws, newest first, with what is needed to verify them. The
+   * server seed is included once the player has revealed it.
+   */
+  async getDrawHistory(query: {
+    userId?: string;
+    winsOnly?: boolean;
+    tier?: JackpotTier;
+    page: number;
+    limit: number;
+  }): Promise<{ draws: JackpotDrawInfo[]; total: number; page: number; limit: number }> {
+    const where: Prisma.JackpotDrawWhereInput = {};
+    if (query.userId) where.userId = query.userId;
+    if (query.tier) where.tier = query.tier;
+    else if (query.winsOnly) where.tier = { not: null };
+
+    const [draws, total] = await Promise.all([
+      prisma.jackpotDraw.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+        include: {
+          user: { select: { username: true } },
+          seed: { select: { serverSeed: true, isRevealed: true } },
+        },
+      }),
+      prisma.jackpotDraw.count({ where }),
+    ]);
+
+    return {
+      draws: draws.map((d) => ({
+        id: d.id,
+        username: d.user.username,
+        gameSlug: d.gameSlug,
+        currency: d.currency,
+        betAmount: d.betAmount.toFixed(8),
+        betAmountUsd: d.betAmountUsd.toFixed(2),
+        tier: (d.tier as JackpotTier | null) ?? null,
+        winAmount: d.winAmount?.toFixed(8) ?? null,
+        winAmountUsd: d.winAmountUsd?.toFixed(2) ?? null,
+        serverSeedHash: d.serverSeedHash,
+        serverSeed: d.seed.isRevealed ? d.seed.serverSeed : null,
+        clientSeed: d.clientSeed,
+        nonce: d.nonce,
+        result: d.result,
+        createdAt: d.createdAt.toISOString(),
+      })),
+      total,
+      page: query.page,
+      limit: query.limit,
+    };
+  }
+
+  /**
+   * USD value of one unit of `currency`, or null if unknown.
+   */
+  private async getUsdRate(currency: string): Promise<number | null> {
+    const record = await prisma.currency.findUnique({
+      where: { symbol: currency.toUpperCase() },
+      select: { exchangeRateUsd: true },
+    });
+    const rate = record?.exchangeRateUsd.toNumber() ?? 0;
+    return rate > 0 ? rate : null;
+  }
+
+  /**
+   * The player's active (unrevealed) seed pair, created if there is none.
+   */
+  private async getActiveSeed(userId: string): Promise<{ id: string }> {
+    const seed = await prisma.provablyFairSeed.findFirst({
+      where: { userId, isRevealed: false },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true },
+    });
+    if (seed) return seed;
+
+    const { seed: serverSeed, hash } = provablyFairService.generateServerSeed();
+    return prisma.provablyFairSeed.create({
+      data: {
+        userId,
+        serverSeed,
+        serverSeedHash: hash,
+        clientSeed: crypto.randomBytes(16).toString('hex'),
+        nonce: 0,
+      },
+      select: { id: true },
+    });
   }
 
   /**
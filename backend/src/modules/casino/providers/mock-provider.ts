@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import { SIGNATURE_HEADER, signPayload } from './provider.service.js';
+
+// ---------------------------------------------------------------------------
+// Mock game provider
+// ---------------------------------------------------------------------------
+// Plays the provider's side of the seamless-wallet protocol: takes the session
+// token from a launch URL and sends signed balance/debit/credit/rollback
+// callbacks. The transport is pluggable, so tests can drive a Fastify
+// instance through `inject()` and local runs can target a live server.
+// ---------------------------------------------------------------------------
+
+export interface MockResponse {
+  statusCode: number;
+  body: any;
+}
+
+export type MockTransport = (
+  path: string,
+  payload: string,
+  headers: Record<string, string>,
+) => Promise<MockResponse>;
+
+/**
+ * Transport posting to a running API server.
+ */
+export function httpTransport(baseUrl: string): MockTransport {
+  return async (path, payload, headers) => {
+    const res = await fetch(new URL(path, baseUrl), { method: 'POST', body: payload, headers });
+    return { statusCode: res.status, body: await res.json() };
+  };
+}
+
+export class MockGameProvider {
+  constructor(
+    readonly slug: string,
+    private readonly apiKey: string,
+    private readonly transport: MockTransport,
+  ) {}
+
+  /** Session token from a launch URL */
+  static tokenFromLaunchUrl(launchUrl: string): string {
+    const token = new URL(launchUrl).searchParams.get('token');
+    if (!token) throw new Error('Launch URL has no session token');
+    return token;
+  }
+
+  /** Fresh provider-side transaction id */
+  static transactionId(): string {
+    return `mock_${crypto.randomUUID()}`;
+  }
+
+  /**
+   * Send a signed callback. Pass `signature` to override the real one.
+   */
+  async call(action: string, body: Record<string, unknown>, signature?: string): Promise<MockResponse> {
+    const payload = JSON.stringify(body);
+    return this.transport(`/api/v1/providers/${this.slug}/wallet/${action}`, payload, {
+      'content-type': 'application/json',
+      [SIGNATURE_HEADER]: signature ?? signPayload(this.apiKey, payload),
+    });
+  }
+
+  balance(token: string): Promise<MockResponse> {
+    return this.call('balance', { token });
+  }
+
+  debit(token: string, amount: number, roundId: string, transactionId = MockGameProvider.transactionId()) {
+    return this.call('debit', { token, transactionId, roundId, amount });
+  }
+
+  credit(token: string, amount: number, roundId: string, transactionId = MockGameProvider.transactionId()) {
+    return this.call('credit', { token, transactionId, roundId, amount });
+  }
+
+  rollback(token: string, referenceTransactionId: string, transactionId = MockGameProvider.transactionId()) {
+    return this.call('rollback', { token, transactionId, referenceTransactionId });
+  }
+
+  /**
+   * One complete round: stake `bet`, then pay `payout` (0 for a loss).
+   */
+  async playRound(token: string, bet: number, payout: number): Promise<MockResponse> {
+    const roundId = `round_${crypto.randomUUID()}`;
+    const staked = await this.debit(token, bet, roundId);
+    if (staked.statusCode !== 200) return staked;
+    return this.credit(token, payout, roundId);
+  }
+}
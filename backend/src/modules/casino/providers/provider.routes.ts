@@ -0,0 +1,185 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { GameProvider } from '@prisma/client';
+import type { z } from 'zod';
+import { authenticate } from '../../../middleware/auth.js';
+import { geoGuard } from '../../../middleware/geo.js';
+import {
+  launchGameSchema,
+  balanceCallbackSchema,
+  debitCallbackSchema,
+  creditCallbackSchema,
+  rollbackCallbackSchema,
+} from './provider.schemas.js';
+import {
+  ProviderError,
+  SIGNATURE_HEADER,
+  authenticateProvider,
+  launchGame,
+  getBalance,
+  debit,
+  credit,
+  rollback,
+  type WalletResponse,
+} from './provider.service.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** Unparsed JSON body, kept on provider callbacks for signature checks. */
+    rawBody?: string;
+    /** Provider that signed the callback. */
+    gameProvider?: GameProvider;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function errorResponse(reply: FastifyReply, err: unknown): FastifyReply {
+  if (err instanceof ProviderError) {
+    return reply.status(err.statusCode).send({
+      success: false,
+      error: { code: err.code, message: err.message },
+    });
+  }
+  const message = err instanceof Error ? err.message : 'Internal server error';
+  console.error('[Providers] Unhandled error:', err);
+  return reply.status(500).send({
+    success: false,
+    error: { code: 'INTERNAL_ERROR', message },
+  });
+}
+
+/**
+ * preHandler for callbacks: resolves the provider from the URL and checks the
+ * body signature against its apiKey.
+ */
+async function providerSignature(
+  request: FastifyRequest<{ Params: { provider: string } }>,
+  reply: FastifyReply,
+): Promise<void> {
+  try {
+    const signature = request.headers[SIGNATURE_HEADER];
+    request.gameProvider = await authenticateProvider(
+      request.params.provider,
+      request.rawBody ?? '',
+      typeof signature === 'string' ? signature : undefined,
+    );
+  } catch (err) {
+    errorResponse(reply, err);
+  }
+}
+
+async function handleCallback<S extends z.ZodTypeAny>(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  schema: S,
+  handler: (provider: GameProvider, input: z.infer<S>) => Promise<WalletResponse>,
+) {
+  const parsed = schema.safeParse(request.body);
+  if (!parsed.success) {
+    return reply.status(400).send({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: parsed.error.issues[0].message },
+    });
+  }
+
+  try {
+    const data = await handler(request.gameProvider!, parsed.data);
+    return reply.status(200).send({ success: true, data });
+  } catch (err) {
+    return errorResponse(reply, err);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Route plugin
+// ---------------------------------------------------------------------------
+
+export default async function providerRoutes(app: FastifyInstance): Promise<void> {
+  /**
+   * POST /api/v1/casino/games/:slug/launch — open a provider game
+   */
+  app.post<{ Params: { slug: string }; Body: { currency: string } }>(
+    '/api/v1/casino/games/:slug/launch',
+    { preHandler: [authenticate, geoGuard] },
+    async (
+      request: FastifyRequest<{ Params: { slug: string }; Body: { currency: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const parsed = launchGameSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: parsed.error.issues[0].message },
+        });
+      }
+
+      try {
+        const launch = await launchGame(request.user!.id, request.params.slug, parsed.data.currency);
+        return reply.status(200).send({ success: true, data: launch });
+      } catch (err) {
+        return errorResponse(reply, err);
+      }
+    },
+  );
+
+  // =========================================================================
+  // SEAMLESS WALLET CALLBACKS — /api/v1/providers/:provider/wallet/*
+  // =========================================================================
+
+  await app.register(async (callbacks) => {
+    // Keep the raw body: signatures are computed over the exact bytes sent
+    callbacks.removeContentTypeParser('application/json');
+    callbacks.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+      request.rawBody = body as string;
+      try {
+        done(null, body ? JSON.parse(body as string) : {});
+      } catch (err: unknown) {
+        const error: Error & { statusCode?: number } = err instanceof Error ? err : new Error(String(err));
+        error.statusCode = 400;
+        done(error, undefined);
+      }
+    });
+
+    /**
+     * POST /api/v1/providers/:provider/wallet/balance — player balance
+     */
+    callbacks.post(
+      '/api/v1/providers/:provider/wallet/balance',
+      { preHandler: [providerSignature] },
+      async (request: FastifyRequest, reply: FastifyReply) =>
+        handleCallback(request, reply, balanceCallbackSchema, getBalance),
+    );
+
+    /**
+     * POST /api/v1/providers/:provider/wallet/debit — take a stake
+     */
+    callbacks.post(
+      '/api/v1/providers/:provider/wallet/debit',
+      { preHandler: [providerSignature] },
+      async (request: FastifyRequest, reply: FastifyReply) =>
+        handleCallback(request, reply, debitCallbackSchema, debit),
+    );
+
+    /**
+     * POST /api/v1/providers/:provider/wallet/credit — pay a win
+     */
+    callbacks.post(
+      '/api/v1/providers/:provider/wallet/credit',
+      { preHandler: [providerSignature] },
+      async (request: FastifyRequest, reply: FastifyReply) =>
+        handleCallback(request, reply, creditCallbackSchema, credit),
+    );
+
+    /**
+     * POST /api/v1/providers/:provider/wallet/rollback — undo a debit or credit
+     */
+    callbacks.post(
+      '/api/v1/providers/:provider/wallet/rollback',
+      { preHandler: [providerSignature] },
+      async (request: FastifyRequest, reply: FastifyReply) =>
+        handleCallback(request, reply, rollbackCallbackSchema, rollback),
+    );
+  });
+}
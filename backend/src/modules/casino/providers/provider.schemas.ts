@@ -0,0 +1,64 @@
+import { z } from 'zod';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const currencySymbol = z
+  .string()
+  .min(1, 'Currency symbol is required')
+  .max(20)
+  .transform((v) => v.toUpperCase());
+
+const sessionToken = z.string().min(1, 'Session token is required');
+
+const transactionId = z.string().min(1, 'Transaction id is required').max(128);
+
+// Providers send amounts as numbers or decimal strings
+const amount = z.coerce.number().finite('Amount must be a valid number');
+
+// ---------------------------------------------------------------------------
+// Launch
+// ---------------------------------------------------------------------------
+
+export const launchGameSchema = z.object({
+  currency: currencySymbol,
+});
+
+export type LaunchGameInput = z.infer<typeof launchGameSchema>;
+
+// ---------------------------------------------------------------------------
+// Seamless wallet callbacks
+// ---------------------------------------------------------------------------
+
+export const balanceCallbackSchema = z.object({
+  token: sessionToken,
+});
+
+export type BalanceCallbackInput = z.infer<typeof balanceCallbackSchema>;
+
+export const debitCallbackSchema = z.object({
+  token: sessionToken,
+  transactionId,
+  roundId: z.string().max(128).optional(),
+  amount: amount.positive('Amount must be greater than 0'),
+});
+
+export type DebitCallbackInput = z.infer<typeof debitCallbackSchema>;
+
+export const creditCallbackSchema = z.object({
+  token: sessionToken,
+  transactionId,
+  roundId: z.string().max(128).optional(),
+  amount: amount.nonnegative('Amount cannot be negative'),
+});
+
+export type CreditCallbackInput = z.infer<typeof creditCallbackSchema>;
+
+export const rollbackCallbackSchema = z.object({
+  token: sessionToken,
+  transactionId,
+  referenceTransactionId: transactionId,
+});
+
+export type RollbackCallbackInput = z.infer<typeof rollbackCallbackSchema>;
@@ -0,0 +1,603 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Prisma, type GameProvider, type ProviderTransaction } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { config } from '../../../config/index.js';
+import { prisma } from '../../../lib/prisma.js';
+import { checkLossLimit } from '../../users/responsibleGambling.service.js';
+import { queueWager } from '../../rewards/wager.service.js';
+import { DEFAULT_CASINO_HOUSE_EDGE } from '../../../config/constants.js';
+
+// =============================================================================
+// Game Provider Integration — seamless wallet
+//
+// Provider games run on the provider's servers while the player's money stays
+// in our Wallet. Launching a game opens a CasinoSession and hands the provider
+// a signed session token in the launch URL. The provider then calls back for
+// every balance movement:
+//
+//   balance  — balance of the session's currency
+//   debit    — take a stake (BET)
+//   credit   — pay a win (WIN)
+//   rollback — undo a debit or credit the provider could not settle (ADJUSTMENT)
+//
+// Callbacks are signed with the provider's apiKey: X-Provider-Signature is the
+// hex HMAC-SHA256 of the raw request body. Debits, credits and rollbacks carry
+// the provider's transaction id; repeating an id returns the original result
+// without moving money again, and a rollback that arrives before its debit is
+// recorded so the late debit is refused.
+// =============================================================================
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+const SESSION_TOKEN_SECRET = config.JWT_SECRET + ':provider-session';
+const SESSION_TOKEN_EXPIRY_SEC = 6 * 60 * 60; // 6 hours
+
+export const SIGNATURE_HEADER = 'x-provider-signature';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export class ProviderError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly statusCode: number = 400,
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export interface GameLaunch {
+  url: string;
+  token: string;
+  sessionId: string;
+  expiresAt: Date;
+}
+
+export interface ProviderSession {
+  sessionId: string;
+  userId: string;
+  gameId: string;
+  currency: string;
+}
+
+export interface WalletResponse {
+  /** Our id for the provider transaction (absent for balance calls) */
+  transactionId?: string;
+  currency: string;
+  balance: number;
+}
+
+interface SessionTokenPayload {
+  type: 'provider-session';
+  sid: string;
+  uid: string;
+  gid: string;
+  pid: string;
+  cur: string;
+}
+
+type ProviderTxType = 'debit' | 'credit' | 'rollback';
+
+// ---------------------------------------------------------------------------
+// Signatures and session tokens
+// ---------------------------------------------------------------------------
+
+/**
+ * Hex HMAC-SHA256 of a callback body with the provider's apiKey.
+ */
+export function signPayload(apiKey: string, body: string): string {
+  return crypto.createHmac('sha256', apiKey).update(body).digest('hex');
+}
+
+/**
+ * Look up an active provider by slug and check the callback signature.
+ */
+export async function authenticateProvider(
+  slug: string,
+  body: string,
+  signature: string | undefined,
+): Promise<GameProvider> {
+  const provider = await prisma.gameProvider.findUnique({ where: { slug } });
+  if (!provider || !provider.isActive || !provider.apiKey) {
+    throw new ProviderError('PROVIDER_NOT_FOUND', 'Unknown game provider.', 404);
+  }
+
+  const expected = Buffer.from(signPayload(provider.apiKey, body), 'hex');
+  const given = Buffer.from(signature ?? '', 'hex');
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    throw new ProviderError('INVALID_SIGNATURE', 'Request signature is invalid.', 401);
+  }
+
+  return provider;
+}
+
+/**
+ * Session behind a token issued for `provider`. Wins and rollbacks may
+ * settle after the game was closed, so they accept expired tokens.
+ */
+function resolveSession(provider: GameProvider, token: string, allowExpired = false): ProviderSession {
+  let payload: SessionTokenPayload;
+  try {
+    payload = jwt.verify(token, SESSION_TOKEN_SECRET, { ignoreExpiration: allowExpired }) as SessionTokenPayload;
+  } catch {
+    throw new ProviderError('INVALID_TOKEN', 'Session token is invalid or expired.', 401);
+  }
+  if (payload.type !== 'provider-session' || payload.pid !== provider.id) {
+    throw new ProviderError('INVALID_TOKEN', 'Session token is invalid or expired.', 401);
+  }
+
+  return { sessionId: payload.sid, userId: payload.uid, gameId: payload.gid, currency: payload.cur };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Hand a closed round to the reward pipeline. The wager is the sum of the
+ * round's debits that were not rolled back; later credits for the same round
+ * are no-ops thanks to the wager key.
+ */
+async function queueRoundWager(provider: GameProvider, session: ProviderSession, roundId: string): Promise<void> {
+  const [staked, game] = await Promise.all([
+    prisma.providerTransaction.aggregate({
+      where: { providerId: provider.id, roundId, type: 'debit', status: 'completed' },
+      _sum: { amount: true },
+    }),
+    prisma.casinoGame.findUnique({
+      where: { id: session.gameId },
+      select: { slug: true, category: true, houseEdge: true, rtp: true },
+    }),
+  ]);
+
+  const amount = staked._sum.amount;
+  if (!amount || amount.lte(0)) return;
+
+  // Games publish house edge and RTP in percent
+  const houseEdge = game?.houseEdge
+    ? game.houseEdge.div(100)
+    : game?.rtp
+      ? new Decimal(100).sub(game.rtp).div(100)
+      : new Decimal(DEFAULT_CASINO_HOUSE_EDGE);
+
+  await queueWager({
+    key: `provider-${provider.id}-${roundId}`,
+    userId: session.userId,
+    currency: session.currency,
+    amount: amount.toString(),
+    houseEdge: houseEdge.toString(),
+    game: game?.category ?? game?.slug,
+  });
+}
+
+async function assertCanWager(
+  userId: string,
+  currency: string,
+  amount: Decimal,
+  db: Prisma.TransactionClient = prisma,
+): Promise<void> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { isActive: true, isBanned: true, selfExcludedUntil: true, coolingOffUntil: true },
+  });
+
+  if (!user || !user.isActive || user.isBanned) {
+    throw new ProviderError('PLAYER_BLOCKED', 'Player account is suspended.', 403);
+  }
+  const now = new Date();
+  if ((user.selfExcludedUntil && user.selfExcludedUntil > now) || (user.coolingOffUntil && user.coolingOffUntil > now)) {
+    throw new ProviderError('PLAYER_BLOCKED', 'Player is excluded from gambling.', 403);
+  }
+
+  if (amount.gt(0)) {
+    const lossBreach = await checkLossLimit(userId, currency, amount, db);
+    if (lossBreach) {
+      throw new ProviderError(lossBreach.code, lossBreach.message, 403);
+    }
+  }
+}
+
+async function getBalanceOf(userId: string, currency: string): Promise<number> {
+  const wallet = await prisma.wallet.findFirst({
+    where: { userId, currency: { symbol: currency } },
+    select: { balance: true },
+  });
+  return wallet ? wallet.balance.toNumber() : 0;
+}
+
+async function findOrCreateWallet(tx: Prisma.TransactionClient, userId: string, currency: string) {
+  const wallet = await tx.wallet.findFirst({ where: { userId, currency: { symbol: currency } } });
+  if (wallet) return wallet;
+
+  const currencyRecord = await tx.currency.findUnique({ where: { symbol: currency } });
+  if (!currencyRecord) {
+    throw new ProviderError('CURRENCY_NOT_FOUND', `Currency ${currency} not found.`);
+  }
+  return tx.wallet.create({ data: { userId, currencyId: currencyRecord.id } });
+}
+
+/**
+ * Take `amount` from the wallet's available balance (balance minus funds
+ * locked for pending withdrawals) under a row lock. Returns false, leaving
+ * the wallet untouched, when the available balance is too low.
+ */
+async function debitAvailable(tx: Prisma.TransactionClient, walletId: string, amount: Decimal): Promise<boolean> {
+  await tx.$queryRaw`SELECT id FROM wallets WHERE id = ${walletId} FOR UPDATE`;
+
+  const wallet = await tx.wallet.findUniqueOrThrow({
+    where: { id: walletId },
+    select: { balance: true, lockedBalance: true },
+  });
+  if (wallet.balance.sub(wallet.lockedBalance).lt(amount)) return false;
+
+  await tx.wallet.update({
+    where: { id: walletId },
+    data: { balance: { decrement: amount } },
+  });
+  return true;
+}
+
+/**
+ * Serialize a debit with the rollbacks that reference it until the
+ * transaction commits, so whichever runs second sees the first.
+ */
+async function lockProviderTransaction(
+  tx: Prisma.TransactionClient,
+  providerId: string,
+  externalId: string,
+): Promise<void> {
+  const key = `provider-tx:${providerId}:${externalId}`;
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${key}))`;
+}
+
+/**
+ * Run a money-moving callback once per provider transaction id. A repeated
+ * id (including one that raced the first call) gets the original result.
+ */
+async function settleOnce(
+  provider: GameProvider,
+  externalId: string,
+  type: ProviderTxType,
+  settle: () => Promise<ProviderTransaction>,
+): Promise<WalletResponse> {
+  const where = { providerId_externalId: { providerId: provider.id, externalId } };
+
+  let record = await prisma.providerTransaction.findUnique({ where });
+  if (!record) {
+    try {
+      record = await settle();
+    } catch (err) {
+      if (!(err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002')) throw err;
+      record = await prisma.providerTransaction.findUnique({ where });
+      if (!record) throw err;
+    }
+  }
+
+  if (record.type !== type) {
+    throw new ProviderError('TRANSACTION_ID_CONFLICT', `Transaction id was already used for a ${record.type}.`, 409);
+  }
+
+  return {
+    transactionId: record.id,
+    currency: record.currency,
+    balance: await getBalanceOf(record.userId, record.currency),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Launch
+// ---------------------------------------------------------------------------
+
+/**
+ * Open a provider game for a player: creates the CasinoSession and returns
+ * the game's launch URL carrying a signed session token.
+ */
+export async function launchGame(userId: string, slug: string, currency: string): Promise<GameLaunch> {
+  const game = await prisma.casinoGame.findUnique({
+    where: { slug },
+    include: { provider: true },
+  });
+  if (!game || !game.isActive) {
+    throw new ProviderError('GAME_NOT_FOUND', `Game "${slug}" not found.`, 404);
+  }
+  if (!game.provider || !game.provider.isActive || !game.launchUrl) {
+    throw new ProviderError('GAME_NOT_LAUNCHABLE', `"${slug}" is not a provider game.`);
+  }
+
+  const symbol = currency.toUpperCase();
+  const currencyRecord = await prisma.currency.findUnique({ where: { symbol } });
+  if (!currencyRecord || !currencyRecord.isActive) {
+    throw new ProviderError('CURRENCY_NOT_FOUND', `Currency ${currency} not found.`);
+  }
+
+  await assertCanWager(userId, symbol, new Decimal(0));
+
+  const session = await prisma.casinoSession.create({
+    data: { userId, gameId: game.id, currency: symbol },
+  });
+
+  const payload: SessionTokenPayload = {
+    type: 'provider-session',
+    sid: session.id,
+    uid: userId,
+    gid: game.id,
+    pid: game.provider.id,
+    cur: symbol,
+  };
+  const token = jwt.sign(payload, SESSION_TOKEN_SECRET, { expiresIn: SESSION_TOKEN_EXPIRY_SEC });
+
+  const url = new URL(game.launchUrl);
+  url.searchParams.set('token', token);
+  url.searchParams.set('game', game.slug);
+  url.searchParams.set('currency', symbol);
+
+  return {
+    url: url.toString(),
+    token,
+    sessionId: session.id,
+    expiresAt: new Date(Date.now() + SESSION_TOKEN_EXPIRY_SEC * 1000),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Seamless wallet callbacks
+// ---------------------------------------------------------------------------
+
+export async function getBalance(provider: GameProvider, input: { token: string }): Promise<WalletResponse> {
+  const session = resolveSession(provider, input.token);
+  return { currency: session.currency, balance: await getBalanceOf(session.userId, session.currency) };
+}
+
+/**
+ * Take a stake from the player's wallet.
+ */
+export async function debit(
+  provider: GameProvider,
+  input: { token: string; transactionId: string; roundId?: string; amount: number },
+): Promise<WalletResponse> {
+  const session = resolveSession(provider, input.token);
+  const amount = new Decimal(input.amount.toFixed(8));
+
+  return settleOnce(provider, input.transactionId, 'debit', () =>
+    prisma.$transaction(async (tx) => {
+      // A rollback of this transaction may arrive before or alongside it
+      await lockProviderTransaction(tx, provider.id, input.transactionId);
+      const rolledBack = await tx.providerTransaction.findFirst({
+        where: { providerId: provider.id, referenceId: input.transactionId, type: 'rollback' },
+        select: { id: true },
+      });
+      if (rolledBack) {
+        throw new ProviderError('TRANSACTION_ROLLED_BACK', 'This transaction has already been rolled back.', 409);
+      }
+
+      // The user row lock serializes the loss-limit check with other wagers
+      await tx.$queryRaw`SELECT id FROM users WHERE id = ${session.userId} FOR UPDATE`;
+      await assertCanWager(session.userId, session.currency, amount, tx);
+
+      const wallet = await findOrCreateWallet(tx, session.userId, session.currency);
+      if (!(await debitAvailable(tx, wallet.id, amount))) {
+        throw new ProviderError('INSUFFICIENT_BALANCE', 'Insufficient balance.', 402);
+      }
+
+      const ledger = await tx.transaction.create({
+        data: {
+          walletId: wallet.id,
+          type: 'BET',
+          amount,
+          status: 'COMPLETED',
+          metadata: {
+            source: 'PROVIDER',
+            provider: provider.slug,
+            sessionId: session.sessionId,
+            roundId: input.roundId ?? null,
+            externalId: input.transactionId,
+          },
+        },
+      });
+
+      await tx.casinoSession.update({
+        where: { id: session.sessionId },
+        data: { totalBet: { increment: amount }, rounds: { increment: 1 } },
+      });
+
+      return tx.providerTransaction.create({
+        data: {
+          providerId: provider.id,
+          externalId: input.transactionId,
+          type: 'debit',
+          userId: session.userId,
+          sessionId: session.sessionId,
+          roundId: input.roundId,
+          currency: session.currency,
+          amount,
+          transactionId: ledger.id,
+        },
+      });
+    }),
+  );
+}
+
+/**
+ * Pay a win into the player's wallet. Zero-amount credits close a lost round
+ * and are recorded without a ledger entry. The round is then queued for the
+ * reward pipeline.
+ */
+export async function credit(
+  provider: GameProvider,
+  input: { token: string; transactionId: string; roundId?: string; amount: number },
+): Promise<WalletResponse> {
+  const session = resolveSession(provider, input.token, true);
+  const amount = new Decimal(input.amount.toFixed(8));
+
+  const response = await settleOnce(provider, input.transactionId, 'credit', () =>
+    prisma.$transaction(async (tx) => {
+      let transactionId: string | null = null;
+
+      if (amount.gt(0)) {
+        const wallet = await findOrCreateWallet(tx, session.userId, session.currency);
+
+        await tx.wallet.update({
+          where: { id: wallet.id },
+          data: { balance: { increment: amount } },
+        });
+
+        const ledger = await tx.transaction.create({
+          data: {
+            walletId: wallet.id,
+            type: 'WIN',
+            amount,
+            status: 'COMPLETED',
+            metadata: {
+              source: 'PROVIDER',
+              provider: provider.slug,
+              sessionId: session.sessionId,
+              roundId: input.roundId ?? null,
+              externalId: input.transactionId,
+            },
+          },
+        });
+        transactionId = ledger.id;
+
+        await tx.casinoSession.update({
+          where: { id: session.sessionId },
+          data: { totalWin: { increment: amount } },
+        });
+      }
+
+      return tx.providerTransaction.create({
+        data: {
+          providerId: provider.id,
+          externalId: input.transactionId,
+          type: 'credit',
+          userId: session.userId,
+          sessionId: session.sessionId,
+          roundId: input.roundId,
+          currency: session.currency,
+          amount,
+          transactionId,
+        },
+      });
+    }),
+  );
+
+  // A credit closes the round: its stake counts towards rewards
+  if (input.roundId) {
+    await queueRoundWager(provider, session, input.roundId);
+  }
+
+  return response;
+}
+
+/**
+ * Undo a debit (refund the stake) or a credit (take the win back). Rolling
+ * back an unknown transaction only records the rollback, which blocks that
+ * transaction if it arrives later.
+ */
+export async function rollback(
+  provider: GameProvider,
+  input: { token: string; transactionId: string; referenceTransactionId: string },
+): Promise<WalletResponse> {
+  const session = resolveSession(provider, input.token, true);
+
+  return settleOnce(provider, input.transactionId, 'rollback', () =>
+    prisma.$transaction(async (tx) => {
+      await lockProviderTransaction(tx, provider.id, input.referenceTransactionId);
+      const original = await tx.providerTransaction.findUnique({
+        where: { providerId_externalId: { providerId: provider.id, externalId: input.referenceTransactionId } },
+      });
+      if (original && original.type === 'rollback') {
+        throw new ProviderError('INVALID_ROLLBACK', 'A rollback cannot be rolled back.');
+      }
+      if (original && original.userId !== session.userId) {
+        throw new ProviderError('INVALID_ROLLBACK', 'Transaction belongs to another player.');
+      }
+
+      const record = {
+        providerId: provider.id,
+        externalId: input.transactionId,
+        type: 'rollback',
+        userId: session.userId,
+        sessionId: session.sessionId,
+        roundId: original?.roundId,
+        currency: original?.currency ?? session.currency,
+        referenceId: input.referenceTransactionId,
+      };
+
+      // Unknown or already rolled back: nothing to move
+      const claimed = original
+        ? await tx.providerTransaction.updateMany({
+          where: { id: original.id, status: 'completed' },
+          data: { status: 'rolled_back' },
+        })
+        : { count: 0 };
+      if (!original || claimed.count === 0 || !original.transactionId) {
+        return tx.providerTransaction.create({ data: { ...record, amount: new Decimal(0) } });
+      }
+
+      const ledgerEntry = await tx.transaction.findUniqueOrThrow({ where: { id: original.transactionId } });
+      const refund = original.type === 'debit';
+
+      if (refund) {
+        await tx.wallet.update({
+          where: { id: ledgerEntry.walletId },
+          data: { balance: { increment: original.amount } },
+        });
+      } else if (!(await debitAvailable(tx, ledgerEntry.walletId, original.amount))) {
+        throw new ProviderError('INSUFFICIENT_BALANCE', 'Insufficient balance to roll back the win.', 402);
+      }
+
+      const ledger = await tx.transaction.create({
+        data: {
+          walletId: ledgerEntry.walletId,
+          type: 'ADJUSTMENT',
+          amount: original.amount,
+          status: 'COMPLETED',
+          metadata: {
+            source: 'PROVIDER_ROLLBACK',
+            type: refund ? 'credit' : 'debit',
+            // A refunded stake no longer counts towards loss limits
+            ...(refund ? { betId: original.transactionId } : {}),
+            provider: provider.slug,
+            externalId: input.transactionId,
+            referenceId: input.referenceTransactionId,
+          },
+        },
+      });
+
+      if (original.sessionId) {
+        await tx.casinoSession.update({
+          where: { id: original.sessionId },
+          data: refund
+            ? { totalBet: { decrement: original.amount }, rounds: { decrement: 1 } }
+            : { totalWin: { decrement: original.amount } },
+        });
+      }
+
+      return tx.providerTransaction.create({
+        data: { ...record, amount: original.amount, transactionId: ledger.id },
+      });
+    }),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Exported service object
+// ---------------------------------------------------------------------------
+
+export const providerService = {
+  signPayload,
+  authenticateProvider,
+  launchGame,
+  getBalance,
+  debit,
+  credit,
+  rollback,
+};
+
+export default providerService;
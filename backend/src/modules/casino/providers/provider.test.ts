@@ -0,0 +1,168 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { prisma } from '../../../lib/prisma.js';
+import { redis } from '../../../lib/redis.js';
+import { closeQueues } from '../../../queues/index.js';
+import providerRoutes from './provider.routes.js';
+import { launchGame } from './provider.service.js';
+import { MockGameProvider } from './mock-provider.js';
+
+// ---------------------------------------------------------------------------
+// Seamless wallet flow
+// ---------------------------------------------------------------------------
+// Launches a provider game for a throwaway player and drives the callback API
+// through the mock provider: balances must move exactly once per provider
+// transaction id, and rollbacks must undo (or pre-empt) their transaction.
+// ---------------------------------------------------------------------------
+
+const suffix = crypto.randomBytes(4).toString('hex');
+const CURRENCY = `MCK${suffix.slice(0, 4).toUpperCase()}`;
+const API_KEY = `mock-key-${suffix}`;
+const START_BALANCE = 100;
+
+let app: FastifyInstance;
+let provider: MockGameProvider;
+let userId: string;
+let token: string;
+let sessionId: string;
+
+async function walletBalance(): Promise<number> {
+  const wallet = await prisma.wallet.findFirstOrThrow({ where: { userId, currency: { symbol: CURRENCY } } });
+  return wallet.balance.toNumber();
+}
+
+before(async () => {
+  const currency = await prisma.currency.create({
+    data: {
+      symbol: CURRENCY,
+      name: 'Mock Coin',
+      type: 'CRYPTO',
+      decimals: 8,
+      minWithdrawal: 0,
+      withdrawalFee: 0,
+      exchangeRateUsd: 1,
+    },
+  });
+  const user = await prisma.user.create({
+    data: { email: `mock-${suffix}@example.com`, username: `mock_${suffix}`, passwordHash: 'x' },
+  });
+  userId = user.id;
+  await prisma.wallet.create({ data: { userId, currencyId: currency.id, balance: START_BALANCE } });
+
+  const gameProvider = await prisma.gameProvider.create({
+    data: { name: `Mock ${suffix}`, slug: `mock-${suffix}`, apiKey: API_KEY },
+  });
+  await prisma.casinoGame.create({
+    data: {
+      providerId: gameProvider.id,
+      name: 'Mock Slot',
+      slug: `mock-slot-${suffix}`,
+      type: 'SLOT',
+      launchUrl: 'https://games.mock.test/launch',
+    },
+  });
+
+  app = Fastify();
+  await app.register(providerRoutes);
+  await app.ready();
+
+  provider = new MockGameProvider(gameProvider.slug, API_KEY, async (url, payload, headers) => {
+    const res = await app.inject({ method: 'POST', url, payload, headers });
+    return { statusCode: res.statusCode, body: res.json() };
+  });
+
+  const launch = await launchGame(userId, `mock-slot-${suffix}`, CURRENCY.toLowerCase());
+  token = MockGameProvider.tokenFromLaunchUrl(launch.url);
+  sessionId = launch.sessionId;
+});
+
+after(async () => {
+  await app?.close();
+  await prisma.providerTransaction.deleteMany({ where: { provider: { slug: `mock-${suffix}` } } });
+  await prisma.casinoSession.deleteMany({ where: { game: { slug: `mock-slot-${suffix}` } } });
+  await prisma.casinoGame.deleteMany({ where: { slug: `mock-slot-${suffix}` } });
+  await prisma.gameProvider.deleteMany({ where: { slug: `mock-${suffix}` } });
+  await prisma.user.deleteMany({ where: { username: `mock_${suffix}` } });
+  await prisma.currency.deleteMany({ where: { symbol: CURRENCY } });
+  await closeQueues();
+  redis.disconnect();
+  await prisma.$disconnect();
+});
+
+describe('provider seamless wallet', () => {
+  test('rejects callbacks with a bad signature', async () => {
+    const res = await provider.call('balance', { token }, 'ab'.repeat(32));
+    assert.equal(res.statusCode, 401);
+    assert.equal(res.body.error.code, 'INVALID_SIGNATURE');
+  });
+
+  test('reports the session balance', async () => {
+    const res = await provider.balance(token);
+    assert.equal(res.statusCode, 200);
+    assert.deepEqual(res.body.data, { currency: CURRENCY, balance: START_BALANCE });
+  });
+
+  test('a round debits the stake and credits the win', async () => {
+    const res = await provider.playRound(token, 10, 25);
+    assert.equal(res.statusCode, 200);
+    assert.equal(res.body.data.balance, START_BALANCE + 15);
+    assert.equal(await walletBalance(), START_BALANCE + 15);
+
+    const session = await prisma.casinoSession.findUniqueOrThrow({ where: { id: sessionId } });
+    assert.equal(session.totalBet.toNumber(), 10);
+    assert.equal(session.totalWin.toNumber(), 25);
+    assert.equal(session.rounds, 1);
+  });
+
+  test('repeating a transaction id does not move money twice', async () => {
+    const before = await walletBalance();
+    const txId = MockGameProvider.transactionId();
+
+    const first = await provider.debit(token, 5, 'round-repeat', txId);
+    const second = await provider.debit(token, 5, 'round-repeat', txId);
+
+    assert.equal(first.statusCode, 200);
+    assert.equal(second.statusCode, 200);
+    assert.equal(second.body.data.transactionId, first.body.data.transactionId);
+    assert.equal(await walletBalance(), before - 5);
+
+    const conflict = await provider.credit(token, 5, 'round-repeat', txId);
+    assert.equal(conflict.statusCode, 409);
+  });
+
+  test('rolling back a debit refunds it once', async () => {
+    const before = await walletBalance();
+    const debitId = MockGameProvider.transactionId();
+    const debit = await provider.debit(token, 7, 'round-rollback', debitId);
+    assert.equal(debit.statusCode, 200);
+    assert.equal(await walletBalance(), before - 7);
+
+    const rollbackId = MockGameProvider.transactionId();
+    const first = await provider.rollback(token, debitId, rollbackId);
+    const again = await provider.rollback(token, debitId, rollbackId);
+    assert.equal(first.statusCode, 200);
+    assert.equal(again.statusCode, 200);
+    assert.equal(await walletBalance(), before);
+  });
+
+  test('a rollback that arrives first blocks its debit', async () => {
+    const before = await walletBalance();
+    const txId = MockGameProvider.transactionId();
+
+    const rollback = await provider.rollback(token, txId);
+    assert.equal(rollback.statusCode, 200);
+
+    const debit = await provider.debit(token, 3, 'round-late', txId);
+    assert.equal(debit.statusCode, 409);
+    assert.equal(debit.body.error.code, 'TRANSACTION_ROLLED_BACK');
+    assert.equal(await walletBalance(), before);
+  });
+
+  test('refuses stakes above the balance', async () => {
+    const res = await provider.debit(token, 1_000_000, 'round-broke');
+    assert.equal(res.statusCode, 402);
+    assert.equal(res.body.error.code, 'INSUFFICIENT_BALANCE');
+  });
+});
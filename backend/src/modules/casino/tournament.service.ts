@@ -1,17 +1,23 @@
-import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 import { prisma } from '../../lib/prisma.js';
 import { redis } from '../../lib/redis.js';
+import { getIO } from '../../lib/socket.js';
 import { GameError } from '../../services/casino/BaseGame.js';
 
 // ---------------------------------------------------------------------------
-// Tournament System — In-Memory + Redis backed
+// Tournament System — database backed
 // ---------------------------------------------------------------------------
 // Tournaments run on specific casino games. Players pay an entry fee that
-// goes to a prize pool. During the tournament window, the system tracks each
-// participant's casino rounds for the target game to compute scores.
-// Scoring modes: highest_multiplier, most_profit, wagering_volume.
-// Prize distribution: 1st 50%, 2nd 25%, 3rd 15%, 4th-5th 5% each.
+// goes to a prize pool. While a tournament is active, every casino round a
+// participant plays on its game (in its currency) adds to their entry score:
+//   highest_multiplier — best single-round multiplier
+//   most_profit        — total payout minus total stake
+//   wagering_volume    — total stake
+// The tournament scheduler starts tournaments at startTime and, at endTime,
+// ranks the entries and pays the prize pool out per `prizeDistribution`
+// (default: 1st 50%, 2nd 25%, 3rd 15%, 4th-5th 5% each). Tournaments that end
+// below `minParticipants` are cancelled and their entry fees refunded.
 // ---------------------------------------------------------------------------
 
 // ---------------------------------------------------------------------------
@@ -21,6 +27,9 @@ import { GameError } from '../../services/casino/BaseGame.js';
 export type TournamentStatus = 'upcoming' | 'active' | 'completed' | 'cancelled';
 export type ScoringType = 'highest_multiplier' | 'most_profit' | 'wagering_volume';
 
+export const TOURNAMENT_STATUSES: TournamentStatus[] = ['upcoming', 'active', 'completed', 'cancelled'];
+export const SCORING_TYPES: ScoringType[] = ['highest_multiplier', 'most_profit', 'wagering_volume'];
+
 export interface Tournament {
   id: string;
   name: string;
@@ -28,7 +37,9 @@ export interface Tournament {
   game: string; // game slug
   entryFee: number;
   currency: string;
+  basePrizePool: number;
   prizePool: number;
+  prizeDistribution: number[];
   startTime: Date;
   endTime: Date;
   status: TournamentStatus;
@@ -36,6 +47,7 @@ export interface Tournament {
   maxParticipants: number;
   minParticipants: number;
   participants: TournamentParticipant[];
+  finalizedAt: Date | null;
   createdAt: Date;
 }
 
@@ -74,315 +86,195 @@ export interface LeaderboardEntry {
   prize: number;
 }
 
-// ---------------------------------------------------------------------------
-// In-memory tournament store
-// ---------------------------------------------------------------------------
-
-const tournaments = new Map<string, Tournament>();
-
-// Prize distribution percentages
-const PRIZE_DISTRIBUTION: Record<number, number> = {
-  1: 0.50,
-  2: 0.25,
-  3: 0.15,
-  4: 0.05,
-  5: 0.05,
-};
+export interface TournamentInput {
+  name: string;
+  description?: string;
+  game: string;
+  entryFee: number;
+  currency: string;
+  basePrizePool: number;
+  prizeDistribution?: number[];
+  startTime: Date;
+  endTime: Date;
+  scoringType: ScoringType;
+  maxParticipants: number;
+  minParticipants: number;
+}
 
 // ---------------------------------------------------------------------------
-// Seed some default tournaments
+// Configuration
 // ---------------------------------------------------------------------------
 
-function seedDefaultTournaments(): void {
-  const now = new Date();
+/** Share of the prize pool per rank, used when a tournament sets none */
+export const DEFAULT_PRIZE_DISTRIBUTION = [0.5, 0.25, 0.15, 0.05, 0.05];
 
-  const defaultTournaments: Omit<Tournament, 'participants'>[] = [
-    {
-      id: crypto.randomUUID(),
-      name: 'Dice Masters Championship',
-      description: 'Hit the highest multiplier in Dice to climb the leaderboard! Top 5 win prizes from the pool.',
-      game: 'dice',
-      entryFee: 5,
-      currency: 'USDT',
-      prizePool: 100,
-      startTime: new Date(now.getTime() - 30 * 60 * 1000), // started 30 min ago
-      endTime: new Date(now.getTime() + 2 * 60 * 60 * 1000), // ends in 2 hours
-      status: 'active',
-      scoringType: 'highest_multiplier',
-      maxParticipants: 100,
-      minParticipants: 2,
-      createdAt: new Date(now.getTime() - 60 * 60 * 1000),
-    },
-    {
-      id: crypto.randomUUID(),
-      name: 'Crash Tournament',
-      description: 'Ride the crash curve to the moon. Highest single-round multiplier wins!',
-      game: 'crash',
-      entryFee: 10,
-      currency: 'USDT',
-      prizePool: 250,
-      startTime: new Date(now.getTime() + 1 * 60 * 60 * 1000),
-      endTime: new Date(now.getTime() + 4 * 60 * 60 * 1000),
-      status: 'upcoming',
-      scoringType: 'highest_multiplier',
-      maxParticipants: 200,
-      minParticipants: 5,
-      createdAt: now,
-    },
-    {
-      id: crypto.randomUUID(),
-      name: 'Coinflip Profit Rush',
-      description: 'Flip your way to profit! Player with the highest total profit wins.',
-      game: 'coinflip',
-      entryFee: 2,
-      currency: 'USDT',
-      prizePool: 50,
-      startTime: new Date(now.getTime() - 3 * 60 * 60 * 1000),
-      endTime: new Date(now.getTime() + 30 * 60 * 1000),
-      status: 'active',
-      scoringType: 'most_profit',
-      maxParticipants: 50,
-      minParticipants: 2,
-      createdAt: new Date(now.getTime() - 4 * 60 * 60 * 1000),
-    },
-    {
-      id: crypto.randomUUID(),
-      name: 'Mines Wagering War',
-      description: 'Wager the most in Mines during the tournament period to climb the leaderboard.',
-      game: 'mines',
-      entryFee: 5,
-      currency: 'USDT',
-      prizePool: 150,
-      startTime: new Date(now.getTime() + 6 * 60 * 60 * 1000),
-      endTime: new Date(now.getTime() + 12 * 60 * 60 * 1000),
-      status: 'upcoming',
-      scoringType: 'wagering_volume',
-      maxParticipants: 100,
-      minParticipants: 3,
-      createdAt: now,
-    },
-    {
-      id: crypto.randomUUID(),
-      name: 'Plinko Drop Party',
-      description: 'Completed tournament! Here were the results.',
-      game: 'plinko',
-      entryFee: 3,
-      currency: 'USDT',
-      prizePool: 75,
-      startTime: new Date(now.getTime() - 24 * 60 * 60 * 1000),
-      endTime: new Date(now.getTime() - 20 * 60 * 60 * 1000),
-      status: 'completed',
-      scoringType: 'highest_multiplier',
-      maxParticipants: 80,
-      minParticipants: 2,
-      createdAt: new Date(now.getTime() - 25 * 60 * 60 * 1000),
-    },
-    {
-      id: crypto.randomUUID(),
-      name: 'Virtual Sports Showdown',
-      description: 'Bet on virtual sports matches and score the highest multiplier!',
-      game: 'virtualsports',
-      entryFee: 5,
-      currency: 'USDT',
-      prizePool: 200,
-      startTime: new Date(now.getTime() + 2 * 60 * 60 * 1000),
-      endTime: new Date(now.getTime() + 8 * 60 * 60 * 1000),
-      status: 'upcoming',
-      scoringType: 'highest_multiplier',
-      maxParticipants: 150,
-      minParticipants: 3,
-      createdAt: now,
-    },
-  ];
-
-  // Seed some fake participants for the completed tournament
-  for (const t of defaultTournaments) {
-    const participants: TournamentParticipant[] = [];
-
-    if (t.status === 'completed') {
-      const fakeUsers = [
-        { userId: 'demo_user_1', username: 'CryptoKing', score: 52.4 },
-        { userId: 'demo_user_2', username: 'LuckyAce', score: 38.7 },
-        { userId: 'demo_user_3', username: 'BetMaster', score: 24.1 },
-        { userId: 'demo_user_4', username: 'GambleGuru', score: 18.9 },
-        { userId: 'demo_user_5', username: 'RollHigh', score: 12.3 },
-      ];
-      fakeUsers.forEach((u, idx) => {
-        participants.push({
-          userId: u.userId,
-          username: u.username,
-          joinedAt: new Date(t.startTime.getTime() + idx * 60000),
-          score: u.score,
-          roundsPlayed: 10 + idx * 5,
-          prize: t.prizePool * (PRIZE_DISTRIBUTION[idx + 1] || 0),
-          rank: idx + 1,
-        });
-      });
-    }
+/** Leaderboard pushes per tournament are batched into one per window */
+const LEADERBOARD_PUSH_MS = 2_000;
 
-    if (t.status === 'active') {
-      // Add a few demo participants to active tournaments
-      const demoParticipants = [
-        { userId: 'demo_user_1', username: 'CryptoKing', score: 12.5 },
-        { userId: 'demo_user_3', username: 'BetMaster', score: 8.2 },
-      ];
-      demoParticipants.forEach((u, idx) => {
-        participants.push({
-          userId: u.userId,
-          username: u.username,
-          joinedAt: new Date(t.startTime.getTime() + idx * 120000),
-          score: u.score,
-          roundsPlayed: 5 + idx * 3,
-          prize: 0,
-          rank: idx + 1,
-        });
-      });
-    }
+/** Entries included in a leaderboard push */
+const LEADERBOARD_PUSH_SIZE = 10;
 
-    tournaments.set(t.id, { ...t, participants });
-  }
-}
+type TournamentRow = Prisma.TournamentGetPayload<{}>;
 
-// Initialize on module load
-seedDefaultTournaments();
+const ENTRY_ORDER: Prisma.TournamentEntryOrderByWithRelationInput[] = [
+  { score: 'desc' },
+  { joinedAt: 'asc' },
+];
 
 // ---------------------------------------------------------------------------
-// Status updater — check tournaments for status transitions
+// Helpers
 // ---------------------------------------------------------------------------
 
-function updateTournamentStatuses(): void {
-  const now = new Date();
-  for (const [, tournament] of tournaments) {
-    if (tournament.status === 'upcoming' && now >= tournament.startTime) {
-      tournament.status = 'active';
-    }
-    if (tournament.status === 'active' && now >= tournament.endTime) {
-      tournament.status = 'completed';
-      distributePrizes(tournament);
-    }
-  }
+function toDecimal(value: number): Decimal {
+  return new Decimal(value.toFixed(8));
 }
 
-// Run status check every 30 seconds
-setInterval(updateTournamentStatuses, 30 * 1000);
+function getDistribution(row: Pick<TournamentRow, 'prizeDistribution'>): number[] {
+  return Array.isArray(row.prizeDistribution) ? (row.prizeDistribution as number[]) : DEFAULT_PRIZE_DISTRIBUTION;
+}
 
-// ---------------------------------------------------------------------------
-// Prize distribution
-// ---------------------------------------------------------------------------
+/** Prize of a rank, rounded down to 8 decimals so payouts never exceed the pool */
+function prizeForRank(prizePool: Decimal, distribution: number[], rank: number): Decimal {
+  const share = distribution[rank - 1] ?? 0;
+  return prizePool.mul(share).toDecimalPlaces(8, Decimal.ROUND_DOWN);
+}
 
-function distributePrizes(tournament: Tournament): void {
-  // Sort participants by score descending
-  const sorted = [...tournament.participants].sort((a, b) => b.score - a.score);
+function toListEntry(row: TournamentRow & { _count: { entries: number } }): TournamentListEntry {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    game: row.gameSlug,
+    entryFee: row.entryFee.toNumber(),
+    currency: row.currency,
+    prizePool: row.prizePool.toNumber(),
+    startTime: row.startTime,
+    endTime: row.endTime,
+    status: row.status as TournamentStatus,
+    scoringType: row.scoringType as ScoringType,
+    participantCount: row._count.entries,
+    maxParticipants: row.maxParticipants,
+  };
+}
 
-  sorted.forEach((p, idx) => {
-    const rank = idx + 1;
-    p.rank = rank;
-    p.prize = tournament.prizePool * (PRIZE_DISTRIBUTION[rank] || 0);
+/**
+ * Current standings of a tournament. Completed tournaments report their
+ * final ranks and prizes; others the prize each rank would win right now.
+ */
+async function loadParticipants(row: TournamentRow, take?: number): Promise<TournamentParticipant[]> {
+  const entries = await prisma.tournamentEntry.findMany({
+    where: { tournamentId: row.id },
+    orderBy: row.status === 'completed' ? [{ rank: 'asc' }, ...ENTRY_ORDER] : ENTRY_ORDER,
+    take,
+    include: { user: { select: { username: true } } },
   });
 
-  tournament.participants = sorted;
+  const distribution = getDistribution(row);
+
+  return entries.map((entry, idx) => {
+    const rank = entry.rank ?? idx + 1;
+    const prize = row.status === 'completed' ? entry.prize : prizeForRank(row.prizePool, distribution, rank);
+    return {
+      userId: entry.userId,
+      username: entry.user.username,
+      joinedAt: entry.joinedAt,
+      score: entry.score.toNumber(),
+      roundsPlayed: entry.roundsPlayed,
+      prize: row.status === 'cancelled' ? 0 : prize.toNumber(),
+      rank,
+    };
+  });
+}
 
-  // Credit prizes to user wallets (fire-and-forget)
-  for (const p of sorted) {
-    if (p.prize > 0 && !p.userId.startsWith('demo_')) {
-      creditTournamentPrize(p.userId, p.prize, tournament.currency).catch((err) => {
-        console.error(`[Tournament] Failed to credit prize to ${p.userId}:`, err);
-      });
-    }
-  }
+function toTournament(row: TournamentRow, participants: TournamentParticipant[]): Tournament {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    game: row.gameSlug,
+    entryFee: row.entryFee.toNumber(),
+    currency: row.currency,
+    basePrizePool: row.basePrizePool.toNumber(),
+    prizePool: row.prizePool.toNumber(),
+    prizeDistribution: getDistribution(row),
+    startTime: row.startTime,
+    endTime: row.endTime,
+    status: row.status as TournamentStatus,
+    scoringType: row.scoringType as ScoringType,
+    maxParticipants: row.maxParticipants,
+    minParticipants: row.minParticipants,
+    participants,
+    finalizedAt: row.finalizedAt,
+    createdAt: row.createdAt,
+  };
 }
 
-async function creditTournamentPrize(userId: string, amount: number, currency: string): Promise<void> {
-  try {
-    await prisma.$transaction(async (tx) => {
-      const wallet = await tx.wallet.findFirst({
-        where: { userId, currency: { symbol: currency } },
-      });
+/**
+ * Credit `amount` to the user's wallet in `currency` and record the
+ * transaction, inside the caller's database transaction.
+ */
+async function creditWallet(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  currency: string,
+  amount: Decimal,
+  type: 'WIN' | 'ADJUSTMENT',
+  metadata: Prisma.InputJsonObject,
+): Promise<void> {
+  const currencyRecord = await tx.currency.findUnique({ where: { symbol: currency }, select: { id: true } });
+  if (!currencyRecord) {
+    throw new GameError('CURRENCY_NOT_FOUND', `Currency ${currency} not found.`);
+  }
 
-      if (!wallet) return;
+  const wallet =
+    (await tx.wallet.findFirst({ where: { userId, currencyId: currencyRecord.id } })) ??
+    (await tx.wallet.create({ data: { userId, currencyId: currencyRecord.id } }));
 
-      await tx.wallet.update({
-        where: { id: wallet.id },
-        data: {
-          balance: { increment: new Decimal(amount.toFixed(8)) },
-        },
-      });
+  await tx.wallet.update({
+    where: { id: wallet.id },
+    data: { balance: { increment: amount } },
+  });
 
-      await tx.transaction.create({
-        data: {
-          walletId: wallet.id,
-          type: 'WIN',
-          amount: new Decimal(amount.toFixed(8)),
-          status: 'COMPLETED',
-        },
-      });
-    });
-  } catch (err) {
-    console.error(`[Tournament] Credit prize error for user ${userId}:`, err);
-  }
+  await tx.transaction.create({
+    data: {
+      walletId: wallet.id,
+      type,
+      amount,
+      status: 'COMPLETED',
+      metadata,
+    },
+  });
 }
 
-// ---------------------------------------------------------------------------
-// Score calculation from CasinoRound table
-// ---------------------------------------------------------------------------
+/**
+ * Push the tournament's top entries to the `game:<slug>` room of the /casino
+ * namespace. Pushes are batched: the first score change in a window schedules
+ * one push at its end, which then carries every change made in between.
+ */
+async function scheduleLeaderboardPush(tournamentId: string, gameSlug: string): Promise<void> {
+  const scheduled = await redis.set(`tournament:${tournamentId}:push`, '1', 'PX', LEADERBOARD_PUSH_MS, 'NX');
+  if (!scheduled) return;
 
-async function calculateUserScore(
-  userId: string,
-  gameSlug: string,
-  scoringType: ScoringType,
-  startTime: Date,
-  endTime: Date,
-): Promise<{ score: number; roundsPlayed: number }> {
-  const now = new Date();
-  const effectiveEnd = now < endTime ? now : endTime;
+  setTimeout(() => {
+    void pushLeaderboard(tournamentId, gameSlug);
+  }, LEADERBOARD_PUSH_MS);
+}
 
+async function pushLeaderboard(tournamentId: string, gameSlug: string): Promise<void> {
   try {
-    const rounds = await prisma.casinoRound.findMany({
-      where: {
-        userId,
-        gameSlug,
-        createdAt: {
-          gte: startTime,
-          lte: effectiveEnd,
-        },
-      },
-      select: {
-        betAmount: true,
-        payout: true,
-        multiplier: true,
-      },
+    const row = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+    if (!row) return;
+
+    const participants = await loadParticipants(row, LEADERBOARD_PUSH_SIZE);
+    const io = getIO();
+    io.of('/casino').to(`game:${gameSlug}`).emit('tournament:leaderboard', {
+      tournamentId,
+      status: row.status,
+      prizePool: row.prizePool.toNumber(),
+      leaderboard: participants.map(({ joinedAt: _joinedAt, ...entry }) => entry),
     });
-
-    const roundsPlayed = rounds.length;
-
-    switch (scoringType) {
-      case 'highest_multiplier': {
-        let maxMultiplier = 0;
-        for (const r of rounds) {
-          const m = r.multiplier.toNumber();
-          if (m > maxMultiplier) maxMultiplier = m;
-        }
-        return { score: Math.round(maxMultiplier * 100) / 100, roundsPlayed };
-      }
-      case 'most_profit': {
-        let totalProfit = 0;
-        for (const r of rounds) {
-          totalProfit += r.payout.toNumber() - r.betAmount.toNumber();
-        }
-        return { score: Math.round(totalProfit * 100) / 100, roundsPlayed };
-      }
-      case 'wagering_volume': {
-        let totalWagered = 0;
-        for (const r of rounds) {
-          totalWagered += r.betAmount.toNumber();
-        }
-        return { score: Math.round(totalWagered * 100) / 100, roundsPlayed };
-      }
-      default:
-        return { score: 0, roundsPlayed };
-    }
   } catch {
-    return { score: 0, roundsPlayed: 0 };
+    // Socket.IO may not be initialized (e.g. in workers)
   }
 }
 
@@ -396,33 +288,17 @@ async function calculateUserScore(
 export async function listTournaments(
   statusFilter?: TournamentStatus,
 ): Promise<TournamentListEntry[]> {
-  updateTournamentStatuses();
-
-  const results: TournamentListEntry[] = [];
-
-  for (const [, t] of tournaments) {
-    if (statusFilter && t.status !== statusFilter) continue;
-
-    results.push({
-      id: t.id,
-      name: t.name,
-      description: t.description,
-      game: t.game,
-      entryFee: t.entryFee,
-      currency: t.currency,
-      prizePool: t.prizePool,
-      startTime: t.startTime,
-      endTime: t.endTime,
-      status: t.status,
-      scoringType: t.scoringType,
-      participantCount: t.participants.length,
-      maxParticipants: t.maxParticipants,
-    });
-  }
+  const rows = await prisma.tournament.findMany({
+    where: statusFilter ? { status: statusFilter } : undefined,
+    include: { _count: { select: { entries: true } } },
+    orderBy: { startTime: 'asc' },
+  });
+
+  const results = rows.map(toListEntry);
 
-  // Sort: active first, then upcoming by start time, then completed by end time
+  // Sort: active first, then upcoming, then completed and cancelled (each by start time)
+  const statusOrder: Record<string, number> = { active: 0, upcoming: 1, completed: 2, cancelled: 3 };
   results.sort((a, b) => {
-    const statusOrder: Record<string, number> = { active: 0, upcoming: 1, completed: 2, cancelled: 3 };
     const diff = (statusOrder[a.status] || 0) - (statusOrder[b.status] || 0);
     if (diff !== 0) return diff;
     return a.startTime.getTime() - b.startTime.getTime();
@@ -443,58 +319,34 @@ export async function getTournamentDetails(
   userRank: number | null;
   isJoined: boolean;
 }> {
-  updateTournamentStatuses();
-
-  const tournament = tournaments.get(tournamentId);
-  if (!tournament) {
+  const row = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+  if (!row) {
     throw new GameError('TOURNAMENT_NOT_FOUND', 'Tournament not found.');
   }
 
-  // Recalculate live scores for active tournaments
-  if (tournament.status === 'active') {
-    for (const participant of tournament.participants) {
-      if (!participant.userId.startsWith('demo_')) {
-        const { score, roundsPlayed } = await calculateUserScore(
-          participant.userId,
-          tournament.game,
-          tournament.scoringType,
-          tournament.startTime,
-          tournament.endTime,
-        );
-        participant.score = score;
-        participant.roundsPlayed = roundsPlayed;
-      }
-    }
+  const participants = await loadParticipants(row);
 
-    // Re-rank
-    const sorted = [...tournament.participants].sort((a, b) => b.score - a.score);
-    sorted.forEach((p, idx) => {
-      p.rank = idx + 1;
-    });
-    tournament.participants = sorted;
-  }
-
-  const leaderboard: LeaderboardEntry[] = tournament.participants.map((p) => ({
+  const leaderboard: LeaderboardEntry[] = participants.map((p) => ({
     rank: p.rank,
     userId: p.userId,
     username: p.username,
     score: p.score,
     roundsPlayed: p.roundsPlayed,
-    prize: p.prize > 0 ? p.prize : tournament.prizePool * (PRIZE_DISTRIBUTION[p.rank] || 0),
+    prize: p.prize,
   }));
 
   let userRank: number | null = null;
   let isJoined = false;
 
   if (requestingUserId) {
-    const participant = tournament.participants.find((p) => p.userId === requestingUserId);
+    const participant = participants.find((p) => p.userId === requestingUserId);
     if (participant) {
       userRank = participant.rank;
       isJoined = true;
     }
   }
 
-  return { tournament, leaderboard, userRank, isJoined };
+  return { tournament: toTournament(row, participants), leaderboard, userRank, isJoined };
 }
 
 /**
@@ -504,88 +356,85 @@ export async function joinTournament(
   userId: string,
   tournamentId: string,
 ): Promise<{ success: boolean; message: string; newBalance?: number }> {
-  updateTournamentStatuses();
-
-  const tournament = tournaments.get(tournamentId);
+  const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
   if (!tournament) {
     throw new GameError('TOURNAMENT_NOT_FOUND', 'Tournament not found.');
   }
 
-  if (tournament.status === 'completed' || tournament.status === 'cancelled') {
+  if (tournament.status !== 'upcoming' && tournament.status !== 'active') {
     throw new GameError('TOURNAMENT_ENDED', 'This tournament has already ended.');
   }
 
-  if (tournament.participants.length >= tournament.maxParticipants) {
-    throw new GameError('TOURNAMENT_FULL', 'This tournament is full.');
-  }
-
-  // Check if user already joined
-  if (tournament.participants.find((p) => p.userId === userId)) {
-    throw new GameError('ALREADY_JOINED', 'You have already joined this tournament.');
-  }
-
-  // Get username
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { username: true },
+  const wallet = await prisma.wallet.findFirst({
+    where: {
+      userId,
+      currency: { symbol: tournament.currency },
+    },
   });
 
-  if (!user) {
-    throw new GameError('USER_NOT_FOUND', 'User not found.');
-  }
-
-  // Deduct entry fee
-  if (tournament.entryFee > 0) {
-    const wallet = await prisma.wallet.findFirst({
-      where: {
-        userId,
-        currency: { symbol: tournament.currency },
-      },
-    });
-
+  if (tournament.entryFee.gt(0)) {
     if (!wallet) {
       throw new GameError('WALLET_NOT_FOUND', `No ${tournament.currency} wallet found.`);
     }
 
-    if (wallet.balance.toNumber() < tournament.entryFee) {
+    if (wallet.balance.lt(tournament.entryFee)) {
       throw new GameError(
         'INSUFFICIENT_BALANCE',
-        `Insufficient ${tournament.currency} balance. Need ${tournament.entryFee}, have ${wallet.balance.toNumber()}.`,
+        `Insufficient ${tournament.currency} balance. Need ${tournament.entryFee.toNumber()}, have ${wallet.balance.toNumber()}.`,
       );
     }
+  }
 
+  try {
     await prisma.$transaction(async (tx) => {
-      await tx.wallet.update({
-        where: { id: wallet.id },
-        data: {
-          balance: { decrement: new Decimal(tournament.entryFee.toFixed(8)) },
-        },
-      });
+      // Lock the tournament row so concurrent joins see each other's entries
+      await tx.$queryRaw`SELECT id FROM tournaments WHERE id = ${tournamentId} FOR UPDATE`;
 
-      await tx.transaction.create({
-        data: {
-          walletId: wallet.id,
-          type: 'BET',
-          amount: new Decimal(tournament.entryFee.toFixed(8)),
-          status: 'COMPLETED',
-        },
+      const current = await tx.tournament.findUnique({
+        where: { id: tournamentId },
+        select: { status: true, _count: { select: { entries: true } } },
       });
-    });
+      if (!current || (current.status !== 'upcoming' && current.status !== 'active')) {
+        throw new GameError('TOURNAMENT_ENDED', 'This tournament has already ended.');
+      }
+      if (current._count.entries >= tournament.maxParticipants) {
+        throw new GameError('TOURNAMENT_FULL', 'This tournament is full.');
+      }
 
-    // Add to prize pool
-    tournament.prizePool += tournament.entryFee;
-  }
+      await tx.tournamentEntry.create({ data: { tournamentId, userId } });
 
-  // Add participant
-  tournament.participants.push({
-    userId,
-    username: user.username,
-    joinedAt: new Date(),
-    score: 0,
-    roundsPlayed: 0,
-    prize: 0,
-    rank: tournament.participants.length + 1,
-  });
+      if (tournament.entryFee.gt(0)) {
+        const debited = await tx.wallet.updateMany({
+          where: { id: wallet!.id, balance: { gte: tournament.entryFee } },
+          data: { balance: { decrement: tournament.entryFee } },
+        });
+        if (debited.count === 0) {
+          throw new GameError('INSUFFICIENT_BALANCE', `Insufficient ${tournament.currency} balance.`);
+        }
+
+        await tx.transaction.create({
+          data: {
+            walletId: wallet!.id,
+            type: 'BET',
+            amount: tournament.entryFee,
+            status: 'COMPLETED',
+            metadata: { type: 'tournament_entry', tournamentId },
+          },
+        });
+
+        // Entry fees go to the prize pool
+        await tx.tournament.update({
+          where: { id: tournamentId },
+          data: { prizePool: { increment: tournament.entryFee } },
+        });
+      }
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      throw new GameError('ALREADY_JOINED', 'You have already joined this tournament.');
+    }
+    throw err;
+  }
 
   // Get updated balance
   const updatedWallet = await prisma.wallet.findFirst({
@@ -594,10 +443,7 @@ export async function joinTournament(
   });
   const newBalance = updatedWallet ? updatedWallet.balance.toNumber() : 0;
 
-  // Cache participant list in Redis for quick lookups
-  await redis
-    .sadd(`tournament:${tournamentId}:participants`, userId)
-    .catch(() => {});
+  void scheduleLeaderboardPush(tournamentId, tournament.gameSlug).catch(() => {});
 
   return {
     success: true,
@@ -609,54 +455,250 @@ export async function joinTournament(
 /**
  * Create a new tournament (admin or system use).
  */
-export function createTournament(data: {
-  name: string;
-  description: string;
-  game: string;
-  entryFee: number;
-  currency: string;
-  basePrizePool: number;
-  startTime: Date;
-  endTime: Date;
-  scoringType: ScoringType;
-  maxParticipants: number;
-  minParticipants: number;
-}): Tournament {
-  const id = crypto.randomUUID();
-
-  const tournament: Tournament = {
-    id,
-    name: data.name,
-    description: data.description,
-    game: data.game,
-    entryFee: data.entryFee,
-    currency: data.currency,
-    prizePool: data.basePrizePool,
-    startTime: new Date(data.startTime),
-    endTime: new Date(data.endTime),
-    status: new Date() >= new Date(data.startTime) ? 'active' : 'upcoming',
-    scoringType: data.scoringType,
-    maxParticipants: data.maxParticipants,
-    minParticipants: data.minParticipants,
-    participants: [],
-    createdAt: new Date(),
-  };
+export async function createTournament(data: TournamentInput, createdBy?: string): Promise<Tournament> {
+  const row = await prisma.tournament.create({
+    data: {
+      name: data.name,
+      description: data.description ?? '',
+      gameSlug: data.game,
+      scoringType: data.scoringType,
+      entryFee: toDecimal(data.entryFee),
+      currency: data.currency.toUpperCase(),
+      basePrizePool: toDecimal(data.basePrizePool),
+      prizePool: toDecimal(data.basePrizePool),
+      prizeDistribution: data.prizeDistribution ?? DEFAULT_PRIZE_DISTRIBUTION,
+      maxParticipants: data.maxParticipants,
+      minParticipants: data.minParticipants,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      createdBy: createdBy ?? null,
+    },
+  });
 
-  tournaments.set(id, tournament);
-  return tournament;
+  return toTournament(row, []);
 }
 
 /**
- * Get tournament IDs a user has joined.
+ * Update a tournament. Once it has started, only its name, description, end
+ * time and capacity can change; the scoring rules and stakes are fixed.
  */
-export function getUserTournaments(userId: string): string[] {
-  const result: string[] = [];
-  for (const [id, t] of tournaments) {
-    if (t.participants.some((p) => p.userId === userId)) {
-      result.push(id);
+export async function updateTournament(tournamentId: string, data: Partial<TournamentInput>): Promise<Tournament> {
+  const row = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+  if (!row) {
+    throw new GameError('TOURNAMENT_NOT_FOUND', 'Tournament not found.');
+  }
+  if (row.status === 'completed' || row.status === 'cancelled') {
+    throw new GameError('TOURNAMENT_ENDED', 'This tournament has already ended.');
+  }
+
+  if (row.status === 'active') {
+    const locked = (['game', 'scoringType', 'currency', 'entryFee', 'basePrizePool', 'prizeDistribution', 'startTime'] as const)
+      .filter((field) => data[field] !== undefined);
+    if (locked.length > 0) {
+      throw new GameError('TOURNAMENT_STARTED', `Cannot change ${locked.join(', ')} of a running tournament.`);
     }
   }
-  return result;
+
+  const startTime = data.startTime ?? row.startTime;
+  const endTime = data.endTime ?? row.endTime;
+  if (endTime <= startTime) {
+    throw new GameError('INVALID_SCHEDULE', 'The tournament must end after it starts.');
+  }
+
+  const updateData: Prisma.TournamentUpdateInput = {};
+  if (data.name !== undefined) updateData.name = data.name;
+  if (data.description !== undefined) updateData.description = data.description;
+  if (data.game !== undefined) updateData.gameSlug = data.game;
+  if (data.scoringType !== undefined) updateData.scoringType = data.scoringType;
+  if (data.currency !== undefined) updateData.currency = data.currency.toUpperCase();
+  if (data.entryFee !== undefined) updateData.entryFee = toDecimal(data.entryFee);
+  if (data.prizeDistribution !== undefined) updateData.prizeDistribution = data.prizeDistribution;
+  if (data.maxParticipants !== undefined) updateData.maxParticipants = data.maxParticipants;
+  if (data.minParticipants !== undefined) updateData.minParticipants = data.minParticipants;
+  if (data.startTime !== undefined) updateData.startTime = data.startTime;
+  if (data.endTime !== undefined) updateData.endTime = data.endTime;
+  if (data.basePrizePool !== undefined) {
+    // Entry fees already collected stay in the pool
+    const newBase = toDecimal(data.basePrizePool);
+    updateData.basePrizePool = newBase;
+    updateData.prizePool = { increment: newBase.sub(row.basePrizePool) };
+  }
+
+  const updated = await prisma.tournament.update({ where: { id: tournamentId }, data: updateData });
+  return toTournament(updated, await loadParticipants(updated));
+}
+
+/**
+ * Cancel a tournament that has not completed and refund every entry fee.
+ * Returns the number of refunded entries, or null if it had already ended.
+ */
+export async function cancelTournament(tournamentId: string, reason: string): Promise<number | null> {
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.tournament.updateMany({
+      where: { id: tournamentId, status: { in: ['upcoming', 'active'] } },
+      data: { status: 'cancelled', finalizedAt: new Date() },
+    });
+    if (claimed.count === 0) return null;
+
+    const tournament = await tx.tournament.findUniqueOrThrow({ where: { id: tournamentId } });
+    const entries = await tx.tournamentEntry.findMany({ where: { tournamentId }, select: { userId: true } });
+
+    if (tournament.entryFee.gt(0)) {
+      for (const entry of entries) {
+        await creditWallet(tx, entry.userId, tournament.currency, tournament.entryFee, 'ADJUSTMENT', {
+          source: 'TOURNAMENT_REFUND',
+          tournamentId,
+          reason,
+        });
+      }
+    }
+
+    return entries.length;
+  }, { timeout: 60_000 });
+}
+
+/**
+ * Rank an active tournament that has reached its end time and pay its prize
+ * pool into the winners' wallets. Returns false if it was already finalized.
+ */
+export async function finalizeTournament(tournamentId: string): Promise<boolean> {
+  const finalized = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.tournament.updateMany({
+      where: { id: tournamentId, status: 'active' },
+      data: { status: 'completed', finalizedAt: new Date() },
+    });
+    if (claimed.count === 0) return null;
+
+    const tournament = await tx.tournament.findUniqueOrThrow({ where: { id: tournamentId } });
+    const distribution = getDistribution(tournament);
+    const entries = await tx.tournamentEntry.findMany({ where: { tournamentId }, orderBy: ENTRY_ORDER });
+
+    for (const [idx, entry] of entries.entries()) {
+      const rank = idx + 1;
+      const prize = prizeForRank(tournament.prizePool, distribution, rank);
+
+      await tx.tournamentEntry.update({ where: { id: entry.id }, data: { rank, prize } });
+
+      if (prize.gt(0)) {
+        await creditWallet(tx, entry.userId, tournament.currency, prize, 'WIN', {
+          type: 'tournament_prize',
+          tournamentId,
+          rank,
+        });
+      }
+    }
+
+    return tournament;
+  }, { timeout: 60_000 });
+
+  if (!finalized) return false;
+
+  void pushLeaderboard(finalized.id, finalized.gameSlug);
+  return true;
+}
+
+/**
+ * Move tournaments along their schedule: start upcoming ones whose start time
+ * has passed, and finish (or cancel, if short of participants) active ones
+ * whose end time has passed.
+ */
+export async function processTournamentSchedule(now = new Date()): Promise<{
+  started: number;
+  completed: number;
+  cancelled: number;
+}> {
+  const started = await prisma.tournament.updateMany({
+    where: { status: 'upcoming', startTime: { lte: now } },
+    data: { status: 'active' },
+  });
+
+  const due = await prisma.tournament.findMany({
+    where: { status: 'active', endTime: { lte: now } },
+    select: { id: true, minParticipants: true, _count: { select: { entries: true } } },
+  });
+
+  let completed = 0;
+  let cancelled = 0;
+
+  for (const tournament of due) {
+    if (tournament._count.entries < tournament.minParticipants) {
+      const refunded = await cancelTournament(tournament.id, 'Not enough participants');
+      if (refunded !== null) cancelled++;
+    } else if (await finalizeTournament(tournament.id)) {
+      completed++;
+    }
+  }
+
+  return { started: started.count, completed, cancelled };
+}
+
+/**
+ * Add a finished casino round to the user's score in every running
+ * tournament they entered for that game and currency.
+ */
+export async function recordTournamentRound(data: {
+  userId: string;
+  gameSlug: string;
+  currency: string;
+  betAmount: number;
+  payout: number;
+  multiplier: number;
+}): Promise<void> {
+  const now = new Date();
+  const entries = await prisma.tournamentEntry.findMany({
+    where: {
+      userId: data.userId,
+      tournament: {
+        status: 'active',
+        gameSlug: data.gameSlug,
+        currency: data.currency.toUpperCase(),
+        startTime: { lte: now },
+        endTime: { gt: now },
+      },
+    },
+    select: { id: true, tournamentId: true, tournament: { select: { scoringType: true } } },
+  });
+
+  for (const entry of entries) {
+    switch (entry.tournament.scoringType as ScoringType) {
+      case 'highest_multiplier':
+        await prisma.tournamentEntry.update({
+          where: { id: entry.id },
+          data: { roundsPlayed: { increment: 1 } },
+        });
+        await prisma.tournamentEntry.updateMany({
+          where: { id: entry.id, score: { lt: toDecimal(data.multiplier) } },
+          data: { score: toDecimal(data.multiplier) },
+        });
+        break;
+      case 'most_profit':
+        await prisma.tournamentEntry.update({
+          where: { id: entry.id },
+          data: { roundsPlayed: { increment: 1 }, score: { increment: toDecimal(data.payout - data.betAmount) } },
+        });
+        break;
+      case 'wagering_volume':
+        await prisma.tournamentEntry.update({
+          where: { id: entry.id },
+          data: { roundsPlayed: { increment: 1 }, score: { increment: toDecimal(data.betAmount) } },
+        });
+        break;
+    }
+
+    await scheduleLeaderboardPush(entry.tournamentId, data.gameSlug);
+  }
+}
+
+/**
+ * Get tournament IDs a user has joined.
+ */
+export async function getUserTournaments(userId: string): Promise<string[]> {
+  const entries = await prisma.tournamentEntry.findMany({
+    where: { userId },
+    select: { tournamentId: true },
+    orderBy: { joinedAt: 'desc' },
+  });
+  return entries.map((e) => e.tournamentId);
 }
 
 export const tournamentService = {
@@ -664,6 +706,11 @@ export const tournamentService = {
   getTournamentDetails,
   joinTournament,
   createTournament,
+  updateTournament,
+  cancelTournament,
+  finalizeTournament,
+  processTournamentSchedule,
+  recordTournamentRound,
   getUserTournaments,
 };
 
@@ -0,0 +1,70 @@
+import { config } from '../../config/index.js';
+
+// ---------------------------------------------------------------------------
+// Community chat content filter
+// ---------------------------------------------------------------------------
+// Profanity is masked rather than rejected so a message with one bad word
+// still goes through. Links are rejected outright (phishing and referral spam
+// are the main abuse in public rooms) except for links to our own frontend,
+// and moderators may post any link.
+// ---------------------------------------------------------------------------
+
+const PROFANITY = [
+  'asshole',
+  'bastard',
+  'bitch',
+  'bollocks',
+  'cunt',
+  'dickhead',
+  'fuck',
+  'fucker',
+  'fucking',
+  'motherfucker',
+  'nigger',
+  'retard',
+  'shit',
+  'slut',
+  'twat',
+  'whore',
+];
+
+const PROFANITY_PATTERN = new RegExp(`\\b(${PROFANITY.join('|')})\\b`, 'gi');
+
+// Bare domains (example.com/...) as well as explicit schemes and www. prefixes
+const LINK_PATTERN =
+  /\b(?:https?:\/\/|www\.)[^\s]+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|gg|xyz|co|me|ru|info|biz|link|click|to|ly|app|bet|casino)\b(?:\/[^\s]*)?/gi;
+
+function allowedHost(): string | null {
+  try {
+    return new URL(config.FRONTEND_URL).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+function linkHost(link: string): string | null {
+  try {
+    const url = new URL(/^https?:\/\//i.test(link) ? link : `http://${link}`);
+    return url.hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Links in `content` that point somewhere other than our own frontend.
+ */
+export function findDisallowedLinks(content: string): string[] {
+  const ownHost = allowedHost();
+  return (content.match(LINK_PATTERN) ?? []).filter((link) => {
+    const host = linkHost(link);
+    return !host || !ownHost || (host !== ownHost && !host.endsWith(`.${ownHost}`));
+  });
+}
+
+/**
+ * Replace profanity with asterisks, keeping the first letter.
+ */
+export function maskProfanity(content: string): string {
+  return content.replace(PROFANITY_PATTERN, (word) => word[0] + '*'.repeat(word.length - 1));
+}
@@ -1,21 +1,28 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { ZodSchema } from 'zod';
 import { authenticate } from '../../middleware/auth.js';
-import { validate, validateParams, validateQuery } from '../../middleware/validate.js';
 import {
   idParamSchema,
   roomsQuerySchema,
   messagesQuerySchema,
   sendMessageSchema,
   tipUserSchema,
-  type IdParam,
-  type RoomsQuery,
-  type MessagesQuery,
-  type SendMessageInput,
-  type TipUserInput,
+  rainSchema,
+  muteUserSchema,
+  unmuteUserQuerySchema,
+  slowModeSchema,
 } from './chat.schemas.js';
 import * as chatService from './chat.service.js';
 import { ChatError } from './chat.service.js';
 
+// ---------------------------------------------------------------------------
+// Community chat routes. Mounted under /api/v1/chat/community so they do not
+// collide with the support chat (modules/live/chat.routes.ts) at
+// /api/v1/chat/rooms.
+// ---------------------------------------------------------------------------
+
+const BASE = '/api/v1/chat/community';
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -31,128 +38,241 @@ function error(reply: FastifyReply, code: string, message: string, statusCode =
   });
 }
 
+/**
+ * Parse `input` with `schema`, or throw a ChatError carrying the first issue.
+ */
+function parse<T>(schema: ZodSchema<T>, input: unknown): T {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    throw new ChatError('VALIDATION_ERROR', `${path}${issue.message}`, 400);
+  }
+  return result.data;
+}
+
+function handleError(reply: FastifyReply, err: unknown) {
+  if (err instanceof ChatError) {
+    return error(reply, err.code, err.message, err.statusCode);
+  }
+  throw err;
+}
+
 // ---------------------------------------------------------------------------
 // Route registration
 // ---------------------------------------------------------------------------
 
-export default async function chatRoutes(fastify: FastifyInstance): Promise<void> {
+export default async function communityChatRoutes(fastify: FastifyInstance): Promise<void> {
   // =======================================================================
   // PUBLIC ROUTES
   // =======================================================================
 
   /**
-   * GET /api/v1/chat/rooms - List all active chat rooms
+   * GET /api/v1/chat/community/rooms - List active community rooms
+   *
+   * Query params:
+   *   - type: optional filter by room type (GENERAL, LANGUAGE, SPORT)
+   *   - language: optional ISO 639-1 code
+   *   - sport: optional sport slug
+   */
+  fastify.get(`${BASE}/rooms`, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const query = parse(roomsQuerySchema, request.query);
+      const rooms = await chatService.getRooms(query);
+      return success(reply, { rooms });
+    } catch (err) {
+      return handleError(reply, err);
+    }
+  });
+
+  /**
+   * GET /api/v1/chat/community/rooms/:id - Get a single room
+   */
+  fastify.get(`${BASE}/rooms/:id`, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = parse(idParamSchema, request.params);
+      const room = await chatService.getRoom(id);
+      return success(reply, { room });
+    } catch (err) {
+      return handleError(reply, err);
+    }
+  });
+
+  /**
+   * GET /api/v1/chat/community/rooms/:id/messages - Get messages with pagination
    *
    * Query params:
-   *   - type: optional filter by room type (GENERAL, SPORT, CASINO, VIP)
+   *   - page: page number (default 1)
+   *   - limit: messages per page (default 50, max 100)
+   *   - before: ISO date string for cursor-based pagination
+   */
+  fastify.get(`${BASE}/rooms/:id/messages`, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = parse(idParamSchema, request.params);
+      const query = parse(messagesQuerySchema, request.query);
+      const result = await chatService.getMessages(id, query);
+      return success(reply, result);
+    } catch (err) {
+      return handleError(reply, err);
+    }
+  });
+
+  // =======================================================================
+  // AUTHENTICATED ROUTES
+  // =======================================================================
+
+  /**
+   * POST /api/v1/chat/community/rooms/:id/messages - Post a message
+   *
+   * Body:
+   *   - content: string (1-2000 chars); moderators may send slash commands
+   *   - replyToId: optional message ID to reply to
    */
-  fastify.get(
-    '/api/v1/chat/rooms',
-    { preHandler: [validateQuery(roomsQuerySchema)] },
+  fastify.post(
+    `${BASE}/rooms/:id/messages`,
+    { preHandler: [authenticate] },
     async (request: FastifyRequest, reply: FastifyReply) => {
       try {
-        const { type } = request.query as RoomsQuery;
-        const rooms = await chatService.getRooms(type);
-        return success(reply, { rooms });
+        const { id } = parse(idParamSchema, request.params);
+        const body = parse(sendMessageSchema, request.body);
+        const result = await chatService.sendMessage(request.user!.id, id, body);
+        return success(reply, result, 'message' in result ? 201 : 200);
       } catch (err) {
-        if (err instanceof ChatError) {
-          return error(reply, err.code, err.message, err.statusCode);
-        }
-        throw err;
+        return handleError(reply, err);
       }
     },
   );
 
   /**
-   * GET /api/v1/chat/rooms/:id/messages - Get messages with pagination
+   * POST /api/v1/chat/community/rooms/:id/tip - Tip another user in a room
    *
-   * Query params:
-   *   - page: page number (default 1)
-   *   - limit: messages per page (default 50, max 100)
-   *   - before: ISO date string for cursor-based pagination
+   * Body:
+   *   - recipientId: string
+   *   - amount: number (min 0.01)
+   *   - currency: string
+   *   - message: optional string (max 200 chars)
+   */
+  fastify.post(
+    `${BASE}/rooms/:id/tip`,
+    { preHandler: [authenticate] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = parse(idParamSchema, request.params);
+        const body = parse(tipUserSchema, request.body);
+        const result = await chatService.tipUser(request.user!.id, id, body);
+        return success(reply, result);
+      } catch (err) {
+        return handleError(reply, err);
+      }
+    },
+  );
+
+  /**
+   * POST /api/v1/chat/community/rooms/:id/rain - Split an amount among
+   * recently active chatters
+   *
+   * Body:
+   *   - amount: number
+   *   - currency: string
+   *   - recipients: optional max number of players (default 10, max 50)
    */
-  fastify.get(
-    '/api/v1/chat/rooms/:id/messages',
-    { preHandler: [validateParams(idParamSchema), validateQuery(messagesQuerySchema)] },
+  fastify.post(
+    `${BASE}/rooms/:id/rain`,
+    { preHandler: [authenticate] },
     async (request: FastifyRequest, reply: FastifyReply) => {
       try {
-        const { id } = request.params as IdParam;
-        const query = request.query as MessagesQuery;
-        const result = await chatService.getMessages(id, query);
+        const { id } = parse(idParamSchema, request.params);
+        const body = parse(rainSchema, request.body);
+        const result = await chatService.rain(request.user!.id, id, body);
         return success(reply, result);
       } catch (err) {
-        if (err instanceof ChatError) {
-          return error(reply, err.code, err.message, err.statusCode);
-        }
-        throw err;
+        return handleError(reply, err);
       }
     },
   );
 
   // =======================================================================
-  // AUTHENTICATED ROUTES
+  // MODERATOR ROUTES (ADMIN / SUPER_ADMIN, checked in the service)
   // =======================================================================
 
   /**
-   * POST /api/v1/chat/rooms/:id/messages - Send a message to a chat room
+   * DELETE /api/v1/chat/community/messages/:id - Delete a message
+   */
+  fastify.delete(
+    `${BASE}/messages/:id`,
+    { preHandler: [authenticate] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = parse(idParamSchema, request.params);
+        const result = await chatService.deleteMessage(request.user!.id, id);
+        return success(reply, result);
+      } catch (err) {
+        return handleError(reply, err);
+      }
+    },
+  );
+
+  /**
+   * POST /api/v1/chat/community/users/:id/mute - Mute a user
    *
    * Body:
-   *   - content: string (1-2000 chars)
-   *   - replyToId: optional message ID to reply to
+   *   - roomId: optional; omit to mute in every room
+   *   - minutes: optional duration (max 7 days); omit for an indefinite mute
+   *   - reason: optional string
    */
   fastify.post(
-    '/api/v1/chat/rooms/:id/messages',
-    {
-      preHandler: [
-        authenticate,
-        validateParams(idParamSchema),
-        validate(sendMessageSchema),
-      ],
+    `${BASE}/users/:id/mute`,
+    { preHandler: [authenticate] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = parse(idParamSchema, request.params);
+        const body = parse(muteUserSchema, request.body ?? {});
+        const result = await chatService.muteUser(request.user!.id, id, body);
+        return success(reply, result, 201);
+      } catch (err) {
+        return handleError(reply, err);
+      }
     },
+  );
+
+  /**
+   * DELETE /api/v1/chat/community/users/:id/mute - Lift a user's mutes
+   *
+   * Query params:
+   *   - roomId: optional; omit to lift every mute
+   */
+  fastify.delete(
+    `${BASE}/users/:id/mute`,
+    { preHandler: [authenticate] },
     async (request: FastifyRequest, reply: FastifyReply) => {
       try {
-        const { id } = request.params as IdParam;
-        const body = request.body as SendMessageInput;
-        const message = await chatService.sendMessage(request.user!.id, id, body);
-        return success(reply, { message }, 201);
+        const { id } = parse(idParamSchema, request.params);
+        const { roomId } = parse(unmuteUserQuerySchema, request.query);
+        const result = await chatService.unmuteUser(request.user!.id, id, roomId);
+        return success(reply, result);
       } catch (err) {
-        if (err instanceof ChatError) {
-          return error(reply, err.code, err.message, err.statusCode);
-        }
-        throw err;
+        return handleError(reply, err);
       }
     },
   );
 
   /**
-   * POST /api/v1/chat/rooms/:id/tip - Tip another user in a chat room
+   * PUT /api/v1/chat/community/rooms/:id/slow-mode - Set a room's slow mode
    *
    * Body:
-   *   - recipientId: string
-   *   - amount: number (min 0.01)
-   *   - currency: string
-   *   - message: optional string (max 200 chars)
+   *   - seconds: number (0-300, 0 turns slow mode off)
    */
-  fastify.post(
-    '/api/v1/chat/rooms/:id/tip',
-    {
-      preHandler: [
-        authenticate,
-        validateParams(idParamSchema),
-        validate(tipUserSchema),
-      ],
-    },
+  fastify.put(
+    `${BASE}/rooms/:id/slow-mode`,
+    { preHandler: [authenticate] },
     async (request: FastifyRequest, reply: FastifyReply) => {
       try {
-        const { id } = request.params as IdParam;
-        const body = request.body as TipUserInput;
-        const result = await chatService.tipUser(request.user!.id, id, body);
+        const { id } = parse(idParamSchema, request.params);
+        const { seconds } = parse(slowModeSchema, request.body);
+        const result = await chatService.setSlowMode(request.user!.id, id, seconds);
         return success(reply, result);
       } catch (err) {
-        if (err instanceof ChatError) {
-          return error(reply, err.code, err.message, err.statusCode);
-        }
-        throw err;
+        return handleError(reply, err);
       }
     },
   );
@@ -15,7 +15,9 @@ export type IdParam = z.infer<typeof idParamSchema>;
 // ---------------------------------------------------------------------------
 
 export const roomsQuerySchema = z.object({
-  type: z.enum(['GENERAL', 'SPORT', 'CASINO', 'VIP']).optional(),
+  type: z.enum(['GENERAL', 'LANGUAGE', 'SPORT']).optional(),
+  language: z.string().min(2).max(5).optional(),
+  sport: z.string().min(1).optional(),
 });
 
 export type RoomsQuery = z.infer<typeof roomsQuerySchema>;
@@ -61,3 +63,31 @@ export const tipUserSchema = z.object({
 });
 
 export type TipUserInput = z.infer<typeof tipUserSchema>;
+
+export const rainSchema = z.object({
+  amount: z.number().positive('Rain amount must be positive'),
+  currency: z.string().min(1, 'Currency is required'),
+  recipients: z.number().int().min(1).max(50, 'Rain can reach at most 50 players').optional(),
+});
+
+export type RainInput = z.infer<typeof rainSchema>;
+
+export const muteUserSchema = z.object({
+  roomId: z.string().optional(),
+  minutes: z.number().int().min(1).max(10080, 'A mute can last at most 7 days').optional(),
+  reason: z.string().max(200, 'Reason must be at most 200 characters').optional(),
+});
+
+export type MuteUserInput = z.infer<typeof muteUserSchema>;
+
+export const unmuteUserQuerySchema = z.object({
+  roomId: z.string().optional(),
+});
+
+export type UnmuteUserQuery = z.infer<typeof unmuteUserQuerySchema>;
+
+export const slowModeSchema = z.object({
+  seconds: z.number().int().min(0).max(300, 'Slow mode can be at most 300 seconds'),
+});
+
+export type SlowModeInput = z.infer<typeof slowModeSchema>;
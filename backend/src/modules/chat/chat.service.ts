@@ -1,7 +1,37 @@
 import { Prisma } from '@prisma/client';
 import { prisma } from '../../lib/prisma.js';
 import { redis } from '../../lib/redis.js';
-import type { SendMessageInput, TipUserInput, MessagesQuery } from './chat.schemas.js';
+import { createNotification } from '../notifications/notification.service.js';
+import { checkWithdrawalLimits } from '../wallets/withdrawal.service.js';
+import { findDisallowedLinks, maskProfanity } from './chat.filter.js';
+import type {
+  SendMessageInput,
+  TipUserInput,
+  RainInput,
+  MuteUserInput,
+  MessagesQuery,
+  RoomsQuery,
+} from './chat.schemas.js';
+
+// ---------------------------------------------------------------------------
+// Community chat
+// ---------------------------------------------------------------------------
+// Public rooms (a general lobby plus one per language and per sport) that any
+// signed-in player can post in. This is separate from the support chat in
+// modules/live, which has its own ChatRoom / ChatMessage models.
+//
+// Moderators (ADMIN and SUPER_ADMIN users) can mute players, delete messages
+// and set a per-room slow mode, either through the REST endpoints or with
+// slash commands typed into the room:
+//
+//   /mute @username [minutes] [reason]
+//   /unmute @username
+//   /delete <messageId>
+//   /slow <seconds>          (0 turns slow mode off)
+//
+// New messages and moderation events are pushed to the `community:<roomId>`
+// room of the /chat Socket.IO namespace.
+// ---------------------------------------------------------------------------
 
 // ---------------------------------------------------------------------------
 // Error class
@@ -25,26 +55,124 @@ export class ChatError extends Error {
 const MESSAGE_RATE_LIMIT_KEY = 'chat:rate:';
 const MESSAGE_RATE_LIMIT_MAX = 10; // messages per window
 const MESSAGE_RATE_LIMIT_WINDOW = 10; // seconds
+const SLOW_MODE_KEY = 'chat:slow:';
 const ONLINE_USERS_KEY = 'chat:online:';
 const TIP_MIN_AMOUNT = 0.01;
+/** Only players who posted this recently can catch rain */
+const RAIN_ACTIVITY_WINDOW_MS = 15 * 60 * 1000;
+const RAIN_DEFAULT_RECIPIENTS = 10;
+
+const MODERATOR_ROLES = ['ADMIN', 'SUPER_ADMIN'];
+
+const userSelect = {
+  id: true,
+  username: true,
+  avatar: true,
+  vipTier: true,
+} satisfies Prisma.UserSelect;
+
+const messageSelect = {
+  id: true,
+  roomId: true,
+  content: true,
+  type: true,
+  metadata: true,
+  createdAt: true,
+  replyToId: true,
+  user: { select: userSelect },
+  replyTo: {
+    select: {
+      id: true,
+      content: true,
+      isDeleted: true,
+      user: { select: { id: true, username: true } },
+    },
+  },
+} satisfies Prisma.CommunityMessageSelect;
 
 // ---------------------------------------------------------------------------
-// Chat Rooms
+// Helpers
 // ---------------------------------------------------------------------------
 
 /**
- * List all active chat rooms, optionally filtered by type.
+ * Push an event to everyone in a community room. Socket failures are logged,
+ * never thrown, so a message is not lost because the broadcast failed.
  */
-export async function getRooms(type?: string) {
-  const where: Prisma.ChatRoomWhereInput = {
-    isActive: true,
-  };
+async function emitToRoom(roomId: string, event: string, payload: unknown): Promise<void> {
+  try {
+    const { getIO } = await import('../../lib/socket.js');
+    getIO().of('/chat').to(`community:${roomId}`).emit(event, payload);
+  } catch (err) {
+    console.error(`[Chat] Failed to emit ${event} to room ${roomId}:`, err);
+  }
+}
+
+async function getActiveRoom(roomId: string) {
+  const room = await prisma.communityRoom.findUnique({
+    where: { id: roomId },
+    select: { id: true, name: true, isActive: true, slowModeSeconds: true },
+  });
+
+  if (!room) {
+    throw new ChatError('ROOM_NOT_FOUND', 'Chat room not found', 404);
+  }
+
+  if (!room.isActive) {
+    throw new ChatError('ROOM_INACTIVE', 'This chat room is currently inactive', 403);
+  }
+
+  return room;
+}
+
+async function getChatUser(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { ...userSelect, role: true, isBanned: true },
+  });
+
+  if (!user) {
+    throw new ChatError('USER_NOT_FOUND', 'User not found', 404);
+  }
 
-  if (type) {
-    where.type = type;
+  if (user.isBanned) {
+    throw new ChatError('USER_BANNED', 'Your account is banned', 403);
   }
 
-  const rooms = await prisma.chatRoom.findMany({
+  return { ...user, isModerator: MODERATOR_ROLES.includes(user.role) };
+}
+
+async function requireModerator(userId: string) {
+  const user = await getChatUser(userId);
+  if (!user.isModerator) {
+    throw new ChatError('FORBIDDEN', 'Only moderators can do this', 403);
+  }
+  return user;
+}
+
+/** Mutes that apply to `roomId` right now (room mutes and all-room mutes) */
+function activeMuteWhere(roomId: string): Prisma.CommunityMuteWhereInput {
+  return {
+    OR: [{ roomId: null }, { roomId }],
+    AND: [{ OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] }],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Chat Rooms
+// ---------------------------------------------------------------------------
+
+/**
+ * List all active community rooms, optionally filtered by type, language or
+ * sport.
+ */
+export async function getRooms(query: RoomsQuery = {}) {
+  const where: Prisma.CommunityRoomWhereInput = { isActive: true };
+
+  if (query.type) where.type = query.type;
+  if (query.language) where.language = query.language;
+  if (query.sport) where.sportSlug = query.sport;
+
+  const rooms = await prisma.communityRoom.findMany({
     where,
     orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
     select: {
@@ -53,44 +181,30 @@ export async function getRooms(type?: string) {
       slug: true,
       description: true,
       type: true,
-      isActive: true,
+      language: true,
+      sportSlug: true,
+      slowModeSeconds: true,
       sortOrder: true,
       createdAt: true,
-      _count: {
-        select: {
-          messages: true,
-        },
-      },
     },
   });
 
   // Get online user counts from Redis
-  const roomsWithOnline = await Promise.all(
-    rooms.map(async (room) => {
-      const onlineCount = await redis.scard(`${ONLINE_USERS_KEY}${room.id}`);
-      return {
-        id: room.id,
-        name: room.name,
-        slug: room.slug,
-        description: room.description,
-        type: room.type,
-        isActive: room.isActive,
-        sortOrder: room.sortOrder,
-        messageCount: room._count.messages,
-        onlineCount: Number(onlineCount),
-        createdAt: room.createdAt,
-      };
-    }),
+  return Promise.all(
+    rooms.map(async (room) => ({
+      ...room,
+      onlineCount: await getOnlineCount(room.id),
+    })),
   );
-
-  return roomsWithOnline;
 }
 
 /**
- * Get a single chat room by ID.
+ * Get a single active community room by ID.
  */
 export async function getRoom(roomId: string) {
-  const room = await prisma.chatRoom.findUnique({
+  await getActiveRoom(roomId);
+
+  const room = await prisma.communityRoom.findUniqueOrThrow({
     where: { id: roomId },
     select: {
       id: true,
@@ -98,19 +212,13 @@ export async function getRoom(roomId: string) {
       slug: true,
       description: true,
       type: true,
-      isActive: true,
+      language: true,
+      sportSlug: true,
+      slowModeSeconds: true,
     },
   });
 
-  if (!room) {
-    throw new ChatError('ROOM_NOT_FOUND', 'Chat room not found', 404);
-  }
-
-  if (!room.isActive) {
-    throw new ChatError('ROOM_INACTIVE', 'This chat room is currently inactive', 403);
-  }
-
-  return room;
+  return { ...room, onlineCount: await getOnlineCount(roomId) };
 }
 
 // ---------------------------------------------------------------------------
@@ -118,22 +226,14 @@ export async function getRoom(roomId: string) {
 // ---------------------------------------------------------------------------
 
 /**
- * Get messages for a chat room with cursor-based or offset pagination.
+ * Get messages for a room with cursor-based or offset pagination.
  */
 export async function getMessages(roomId: string, query: MessagesQuery) {
   const { page, limit, before } = query;
 
-  // Verify room exists
-  const room = await prisma.chatRoom.findUnique({
-    where: { id: roomId },
-    select: { id: true, isActive: true },
-  });
+  await getActiveRoom(roomId);
 
-  if (!room) {
-    throw new ChatError('ROOM_NOT_FOUND', 'Chat room not found', 404);
-  }
-
-  const where: Prisma.ChatMessageWhereInput = {
+  const where: Prisma.CommunityMessageWhereInput = {
     roomId,
     isDeleted: false,
   };
@@ -146,41 +246,14 @@ export async function getMessages(roomId: string, query: MessagesQuery) {
   const skip = before ? 0 : (page - 1) * limit;
 
   const [messages, total] = await Promise.all([
-    prisma.chatMessage.findMany({
+    prisma.communityMessage.findMany({
       where,
       orderBy: { createdAt: 'desc' },
       skip,
       take: limit,
-      select: {
-        id: true,
-        content: true,
-        type: true,
-        metadata: true,
-        createdAt: true,
-        replyToId: true,
-        user: {
-          select: {
-            id: true,
-            username: true,
-            avatar: true,
-            vipTier: true,
-          },
-        },
-        replyTo: {
-          select: {
-            id: true,
-            content: true,
-            user: {
-              select: {
-                id: true,
-                username: true,
-              },
-            },
-          },
-        },
-      },
+      select: messageSelect,
     }),
-    prisma.chatMessage.count({ where: { roomId, isDeleted: false } }),
+    prisma.communityMessage.count({ where: { roomId, isDeleted: false } }),
   ]);
 
   return {
@@ -195,64 +268,35 @@ export async function getMessages(roomId: string, query: MessagesQuery) {
 }
 
 /**
- * Send a message to a chat room.
+ * Send a message to a community room. Moderator slash commands are run
+ * instead of being posted; their result is returned as `{ command }`.
  */
 export async function sendMessage(
   userId: string,
   roomId: string,
   input: SendMessageInput,
 ) {
-  // Verify room exists and is active
-  const room = await prisma.chatRoom.findUnique({
-    where: { id: roomId },
-    select: { id: true, isActive: true, type: true },
-  });
-
-  if (!room) {
-    throw new ChatError('ROOM_NOT_FOUND', 'Chat room not found', 404);
-  }
+  const room = await getActiveRoom(roomId);
+  const user = await getChatUser(userId);
 
-  if (!room.isActive) {
-    throw new ChatError('ROOM_INACTIVE', 'This chat room is currently inactive', 403);
-  }
-
-  // Check user is not banned or muted
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: {
-      id: true,
-      username: true,
-      isBanned: true,
-      isChatMuted: true,
-      chatMutedUntil: true,
-      vipTier: true,
-      avatar: true,
-    },
+  const mute = await prisma.communityMute.findFirst({
+    where: { userId, ...activeMuteWhere(roomId) },
+    orderBy: { expiresAt: { sort: 'desc', nulls: 'first' } },
   });
-
-  if (!user) {
-    throw new ChatError('USER_NOT_FOUND', 'User not found', 404);
+  if (mute) {
+    throw new ChatError(
+      'USER_MUTED',
+      mute.expiresAt
+        ? `You are muted until ${mute.expiresAt.toISOString()}`
+        : 'You are muted from chat',
+      403,
+    );
   }
 
-  if (user.isBanned) {
-    throw new ChatError('USER_BANNED', 'Your account is banned', 403);
-  }
+  const content = input.content.trim();
 
-  if (user.isChatMuted) {
-    if (!user.chatMutedUntil || user.chatMutedUntil > new Date()) {
-      throw new ChatError(
-        'USER_MUTED',
-        user.chatMutedUntil
-          ? `You are muted until ${user.chatMutedUntil.toISOString()}`
-          : 'You are muted from chat',
-        403,
-      );
-    }
-    // Mute period expired, unset it
-    await prisma.user.update({
-      where: { id: userId },
-      data: { isChatMuted: false, chatMutedUntil: null },
-    });
+  if (user.isModerator && content.startsWith('/')) {
+    return { command: await runModeratorCommand(user.id, roomId, content) };
   }
 
   // Rate limiting
@@ -269,65 +313,334 @@ export async function sendMessage(
     );
   }
 
+  // Slow mode: one message per user per interval; moderators are exempt
+  if (room.slowModeSeconds > 0 && !user.isModerator) {
+    const allowed = await redis.set(
+      `${SLOW_MODE_KEY}${roomId}:${userId}`,
+      '1',
+      'EX',
+      room.slowModeSeconds,
+      'NX',
+    );
+    if (!allowed) {
+      const ttl = await redis.ttl(`${SLOW_MODE_KEY}${roomId}:${userId}`);
+      throw new ChatError(
+        'SLOW_MODE',
+        `Slow mode is on. You can post again in ${Math.max(ttl, 1)} seconds.`,
+        429,
+      );
+    }
+  }
+
+  if (!user.isModerator && findDisallowedLinks(content).length > 0) {
+    throw new ChatError('LINKS_NOT_ALLOWED', 'Links are not allowed in chat', 400);
+  }
+
   // Verify reply target exists if provided
   if (input.replyToId) {
-    const replyTarget = await prisma.chatMessage.findUnique({
+    const replyTarget = await prisma.communityMessage.findUnique({
       where: { id: input.replyToId },
-      select: { id: true, roomId: true },
+      select: { id: true, roomId: true, isDeleted: true },
     });
-    if (!replyTarget || replyTarget.roomId !== roomId) {
+    if (!replyTarget || replyTarget.roomId !== roomId || replyTarget.isDeleted) {
       throw new ChatError('REPLY_NOT_FOUND', 'Reply target message not found in this room', 404);
     }
   }
 
-  // Create message
-  const message = await prisma.chatMessage.create({
+  const message = await prisma.communityMessage.create({
     data: {
       roomId,
       userId,
-      content: input.content,
+      content: maskProfanity(content),
       type: 'TEXT',
       replyToId: input.replyToId ?? null,
     },
-    select: {
-      id: true,
-      content: true,
-      type: true,
-      metadata: true,
-      createdAt: true,
-      replyToId: true,
-      user: {
-        select: {
-          id: true,
-          username: true,
-          avatar: true,
-          vipTier: true,
-        },
-      },
-      replyTo: {
-        select: {
-          id: true,
-          content: true,
-          user: {
-            select: {
-              id: true,
-              username: true,
-            },
-          },
-        },
-      },
+    select: messageSelect,
+  });
+
+  await emitToRoom(roomId, 'community:message', message);
+
+  return { message };
+}
+
+// ---------------------------------------------------------------------------
+// Moderation
+// ---------------------------------------------------------------------------
+
+async function findUserByMention(mention: string | undefined) {
+  const username = mention?.replace(/^@/, '');
+  if (!username) {
+    throw new ChatError('INVALID_COMMAND', 'Usage: /mute @username [minutes] [reason]', 400);
+  }
+  const target = await prisma.user.findUnique({
+    where: { username },
+    select: { id: true, username: true },
+  });
+  if (!target) {
+    throw new ChatError('USER_NOT_FOUND', `User "${username}" not found`, 404);
+  }
+  return target;
+}
+
+async function runModeratorCommand(moderatorId: string, roomId: string, content: string) {
+  const [command, ...args] = content.slice(1).split(/\s+/);
+
+  switch (command.toLowerCase()) {
+    case 'mute': {
+      const target = await findUserByMention(args[0]);
+      const minutes = args[1] && /^\d+$/.test(args[1]) ? parseInt(args[1], 10) : undefined;
+      const reason = args.slice(minutes !== undefined ? 2 : 1).join(' ') || undefined;
+      return muteUser(moderatorId, target.id, { roomId, minutes, reason });
+    }
+    case 'unmute': {
+      const target = await findUserByMention(args[0]);
+      return unmuteUser(moderatorId, target.id, roomId);
+    }
+    case 'delete': {
+      if (!args[0]) {
+        throw new ChatError('INVALID_COMMAND', 'Usage: /delete <messageId>', 400);
+      }
+      return deleteMessage(moderatorId, args[0]);
+    }
+    case 'slow': {
+      const seconds = parseInt(args[0] ?? '', 10);
+      if (Number.isNaN(seconds) || seconds < 0 || seconds > 300) {
+        throw new ChatError('INVALID_COMMAND', 'Usage: /slow <seconds> (0-300)', 400);
+      }
+      return setSlowMode(moderatorId, roomId, seconds);
+    }
+    default:
+      throw new ChatError('UNKNOWN_COMMAND', `Unknown command "/${command}"`, 400);
+  }
+}
+
+/**
+ * Soft-delete a message. Deleted messages stay in the database for audit but
+ * are hidden from history and removed from connected clients.
+ */
+export async function deleteMessage(moderatorId: string, messageId: string) {
+  await requireModerator(moderatorId);
+
+  const message = await prisma.communityMessage.findUnique({
+    where: { id: messageId },
+    select: { id: true, roomId: true, isDeleted: true },
+  });
+
+  if (!message || message.isDeleted) {
+    throw new ChatError('MESSAGE_NOT_FOUND', 'Message not found', 404);
+  }
+
+  await prisma.communityMessage.update({
+    where: { id: messageId },
+    data: { isDeleted: true, deletedBy: moderatorId },
+  });
+
+  await emitToRoom(message.roomId, 'community:message:deleted', { messageId });
+
+  return { messageId, roomId: message.roomId, deleted: true };
+}
+
+/**
+ * Mute a user in one room, or in every room when `roomId` is omitted. Without
+ * `minutes` the mute lasts until lifted.
+ */
+export async function muteUser(moderatorId: string, userId: string, input: MuteUserInput) {
+  await requireModerator(moderatorId);
+
+  if (moderatorId === userId) {
+    throw new ChatError('SELF_MUTE', 'You cannot mute yourself', 400);
+  }
+
+  const target = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, username: true, role: true },
+  });
+
+  if (!target) {
+    throw new ChatError('USER_NOT_FOUND', 'User not found', 404);
+  }
+
+  if (MODERATOR_ROLES.includes(target.role)) {
+    throw new ChatError('CANNOT_MUTE_MODERATOR', 'Moderators cannot be muted', 400);
+  }
+
+  if (input.roomId) {
+    await getActiveRoom(input.roomId);
+  }
+
+  const mute = await prisma.communityMute.create({
+    data: {
+      userId,
+      roomId: input.roomId ?? null,
+      reason: input.reason ?? null,
+      mutedBy: moderatorId,
+      expiresAt: input.minutes ? new Date(Date.now() + input.minutes * 60 * 1000) : null,
     },
   });
 
-  return message;
+  const payload = {
+    userId,
+    username: target.username,
+    roomId: mute.roomId,
+    reason: mute.reason,
+    expiresAt: mute.expiresAt?.toISOString() ?? null,
+  };
+
+  if (mute.roomId) {
+    await emitToRoom(mute.roomId, 'community:muted', payload);
+  }
+
+  return { muteId: mute.id, ...payload };
+}
+
+/**
+ * Lift a user's mutes in one room (plus any all-room mute), or every mute
+ * when `roomId` is omitted.
+ */
+export async function unmuteUser(moderatorId: string, userId: string, roomId?: string) {
+  await requireModerator(moderatorId);
+
+  const { count } = await prisma.communityMute.deleteMany({
+    where: roomId ? { userId, OR: [{ roomId: null }, { roomId }] } : { userId },
+  });
+
+  if (count === 0) {
+    throw new ChatError('NOT_MUTED', 'This user is not muted', 404);
+  }
+
+  return { userId, roomId: roomId ?? null, unmuted: true };
+}
+
+/**
+ * Limit how often each player may post in a room. 0 turns slow mode off.
+ */
+export async function setSlowMode(moderatorId: string, roomId: string, seconds: number) {
+  await requireModerator(moderatorId);
+  await getActiveRoom(roomId);
+
+  const room = await prisma.communityRoom.update({
+    where: { id: roomId },
+    data: { slowModeSeconds: seconds },
+    select: { id: true, slowModeSeconds: true },
+  });
+
+  await emitToRoom(roomId, 'community:room:updated', room);
+
+  return { roomId, slowModeSeconds: room.slowModeSeconds };
 }
 
 // ---------------------------------------------------------------------------
 // Tips
 // ---------------------------------------------------------------------------
 
+async function getSenderWallet(tx: Prisma.TransactionClient, userId: string, currency: string) {
+  const currencyRecord = await tx.currency.findUnique({
+    where: { symbol: currency.toUpperCase() },
+    select: { id: true, symbol: true },
+  });
+
+  if (!currencyRecord) {
+    throw new ChatError('CURRENCY_NOT_FOUND', `Currency "${currency}" not found`, 404);
+  }
+
+  const wallet = await tx.wallet.findUnique({
+    where: { userId_currencyId: { userId, currencyId: currencyRecord.id } },
+  });
+
+  if (!wallet) {
+    throw new ChatError('WALLET_NOT_FOUND', `No ${currencyRecord.symbol} wallet found`, 404);
+  }
+
+  return { wallet, currencyId: currencyRecord.id, symbol: currencyRecord.symbol };
+}
+
+/**
+ * Tips and rain move funds to another player, so the sender must pass the
+ * same account, email verification and KYC/personal limit checks as a
+ * withdrawal of that amount; what they send counts toward those limits.
+ */
+async function checkSenderEligibility(userId: string, currency: string, amount: Prisma.Decimal) {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { kycLevel: true, depositLimit: true, isActive: true, emailVerifiedAt: true },
+  });
+
+  if (!user.isActive) {
+    throw new ChatError('ACCOUNT_RESTRICTED', 'Account is restricted', 403);
+  }
+  if (!user.emailVerifiedAt) {
+    throw new ChatError('EMAIL_NOT_VERIFIED', 'Please verify your email address before sending funds', 403);
+  }
+
+  const currencyRecord = await prisma.currency.findUnique({
+    where: { symbol: currency.toUpperCase() },
+    select: { exchangeRateUsd: true },
+  });
+  if (!currencyRecord) {
+    throw new ChatError('CURRENCY_NOT_FOUND', `Currency "${currency}" not found`, 404);
+  }
+
+  try {
+    await checkWithdrawalLimits(userId, user.kycLevel, user.depositLimit, amount.mul(currencyRecord.exchangeRateUsd));
+  } catch (err) {
+    throw new ChatError('TRANSFER_LIMIT_EXCEEDED', err instanceof Error ? err.message : String(err), 400);
+  }
+}
+
+/**
+ * Take a tip or rain from the sender's available balance (balance minus funds
+ * locked for pending withdrawals). Like a withdrawal, it is refused while a
+ * bonus in the wallet is still being wagered.
+ */
+async function debitSender(
+  tx: Prisma.TransactionClient,
+  walletId: string,
+  amount: Prisma.Decimal,
+  symbol: string,
+) {
+  // Serialize with withdrawals and other transfers from this wallet
+  await tx.$queryRaw`SELECT id FROM wallets WHERE id = ${walletId} FOR UPDATE`;
+
+  const activeBonuses = await tx.bonus.count({
+    where: { walletId, status: 'ACTIVE', balance: { gt: 0 } },
+  });
+  if (activeBonuses > 0) {
+    throw new ChatError(
+      'BONUS_ACTIVE',
+      'You have an active bonus that has not met its wagering requirement. Complete the wagering or forfeit the bonus before sending funds.',
+      400,
+    );
+  }
+
+  const wallet = await tx.wallet.findUniqueOrThrow({
+    where: { id: walletId },
+    select: { balance: true, lockedBalance: true },
+  });
+  if (wallet.balance.sub(wallet.lockedBalance).lt(amount)) {
+    throw new ChatError('INSUFFICIENT_BALANCE', `Insufficient ${symbol} balance`, 400);
+  }
+
+  await tx.wallet.update({
+    where: { id: walletId },
+    data: { balance: { decrement: amount } },
+  });
+}
+
+async function creditRecipient(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  currencyId: string,
+  amount: Prisma.Decimal,
+) {
+  return tx.wallet.upsert({
+    where: { userId_currencyId: { userId, currencyId } },
+    create: { userId, currencyId, balance: amount },
+    update: { balance: { increment: amount } },
+  });
+}
+
 /**
- * Tip another user in a chat room.
+ * Tip another user in a room.
  * Transfers funds from sender's wallet to recipient's wallet.
  */
 export async function tipUser(
@@ -346,19 +659,8 @@ export async function tipUser(
     throw new ChatError('TIP_TOO_LOW', `Minimum tip amount is ${TIP_MIN_AMOUNT}`, 400);
   }
 
-  // Verify room exists and is active
-  const room = await prisma.chatRoom.findUnique({
-    where: { id: roomId },
-    select: { id: true, isActive: true },
-  });
-
-  if (!room) {
-    throw new ChatError('ROOM_NOT_FOUND', 'Chat room not found', 404);
-  }
-
-  if (!room.isActive) {
-    throw new ChatError('ROOM_INACTIVE', 'This chat room is currently inactive', 403);
-  }
+  await getActiveRoom(roomId);
+  const sender = await getChatUser(senderId);
 
   // Verify recipient exists and is not banned
   const recipient = await prisma.user.findUnique({
@@ -374,92 +676,21 @@ export async function tipUser(
     throw new ChatError('RECIPIENT_BANNED', 'Cannot tip a banned user', 400);
   }
 
-  // Verify sender is not banned
-  const sender = await prisma.user.findUnique({
-    where: { id: senderId },
-    select: { id: true, username: true, isBanned: true },
-  });
-
-  if (!sender) {
-    throw new ChatError('USER_NOT_FOUND', 'Sender not found', 404);
+  const cleanTipMessage = tipMessage ? maskProfanity(tipMessage) : null;
+  if (cleanTipMessage && !sender.isModerator && findDisallowedLinks(cleanTipMessage).length > 0) {
+    throw new ChatError('LINKS_NOT_ALLOWED', 'Links are not allowed in chat', 400);
   }
 
-  if (sender.isBanned) {
-    throw new ChatError('USER_BANNED', 'Your account is banned', 403);
-  }
+  const amountDecimal = new Prisma.Decimal(amount.toFixed(8));
+  await checkSenderEligibility(senderId, currency, amountDecimal);
 
-  // Atomic transaction: transfer funds and create messages
+  // Atomic transaction: transfer funds and post the tip message
   const result = await prisma.$transaction(async (tx) => {
-    // Find sender's wallet
-    const currencyRecord = await tx.currency.findUnique({
-      where: { symbol: currency.toUpperCase() },
-      select: { id: true, symbol: true },
-    });
-
-    if (!currencyRecord) {
-      throw new ChatError('CURRENCY_NOT_FOUND', `Currency "${currency}" not found`, 404);
-    }
+    const { wallet: senderWallet, currencyId, symbol } = await getSenderWallet(tx, senderId, currency);
 
-    const senderWallet = await tx.wallet.findUnique({
-      where: {
-        userId_currencyId: {
-          userId: senderId,
-          currencyId: currencyRecord.id,
-        },
-      },
-    });
+    await debitSender(tx, senderWallet.id, amountDecimal, symbol);
+    const recipientWallet = await creditRecipient(tx, recipientId, currencyId, amountDecimal);
 
-    if (!senderWallet) {
-      throw new ChatError('WALLET_NOT_FOUND', `No ${currency} wallet found`, 404);
-    }
-
-    const amountDecimal = new Prisma.Decimal(amount.toFixed(8));
-
-    if (senderWallet.balance.lt(amountDecimal)) {
-      throw new ChatError(
-        'INSUFFICIENT_BALANCE',
-        `Insufficient ${currency} balance. Available: ${senderWallet.balance.toString()}`,
-        400,
-      );
-    }
-
-    // Find or create recipient's wallet
-    let recipientWallet = await tx.wallet.findUnique({
-      where: {
-        userId_currencyId: {
-          userId: recipientId,
-          currencyId: currencyRecord.id,
-        },
-      },
-    });
-
-    if (!recipientWallet) {
-      recipientWallet = await tx.wallet.create({
-        data: {
-          userId: recipientId,
-          currencyId: currencyRecord.id,
-          balance: new Prisma.Decimal(0),
-        },
-      });
-    }
-
-    // Deduct from sender
-    await tx.wallet.update({
-      where: { id: senderWallet.id },
-      data: {
-        balance: { decrement: amountDecimal },
-      },
-    });
-
-    // Credit to recipient
-    await tx.wallet.update({
-      where: { id: recipientWallet.id },
-      data: {
-        balance: { increment: amountDecimal },
-      },
-    });
-
-    // Record transactions
     await tx.transaction.create({
       data: {
         walletId: senderWallet.id,
@@ -470,7 +701,7 @@ export async function tipUser(
           recipientId,
           recipientUsername: recipient.username,
           chatRoomId: roomId,
-          tipMessage: tipMessage ?? null,
+          tipMessage: cleanTipMessage,
         },
       },
     });
@@ -485,78 +716,196 @@ export async function tipUser(
           senderId,
           senderUsername: sender.username,
           chatRoomId: roomId,
-          tipMessage: tipMessage ?? null,
+          tipMessage: cleanTipMessage,
         },
       },
     });
 
-    // Create a system message in the chat room about the tip
-    const tipChatMessage = await tx.chatMessage.create({
+    const tipChatMessage = await tx.communityMessage.create({
       data: {
         roomId,
         userId: senderId,
-        content: tipMessage
-          ? `tipped @${recipient.username} ${amount} ${currency.toUpperCase()} - "${tipMessage}"`
-          : `tipped @${recipient.username} ${amount} ${currency.toUpperCase()}`,
+        content: cleanTipMessage
+          ? `tipped @${recipient.username} ${amountDecimal.toString()} ${symbol} - "${cleanTipMessage}"`
+          : `tipped @${recipient.username} ${amountDecimal.toString()} ${symbol}`,
         type: 'TIP',
         metadata: {
           recipientId,
           recipientUsername: recipient.username,
-          amount: amount.toFixed(8),
-          currency: currency.toUpperCase(),
-          tipMessage: tipMessage ?? null,
+          amount: amountDecimal.toFixed(8),
+          currency: symbol,
+          tipMessage: cleanTipMessage,
         },
       },
-      select: {
-        id: true,
-        content: true,
-        type: true,
-        metadata: true,
-        createdAt: true,
-        user: {
-          select: {
-            id: true,
-            username: true,
-            avatar: true,
-            vipTier: true,
-          },
+      select: messageSelect,
+    });
+
+    return {
+      tipId: tipChatMessage.id,
+      message: tipChatMessage,
+      amount: amountDecimal.toFixed(8),
+      currency: symbol,
+      sender: { id: sender.id, username: sender.username },
+      recipient: { id: recipient.id, username: recipient.username },
+    };
+  });
+
+  await createNotification(
+    recipientId,
+    'TIP_RECEIVED',
+    'Tip Received!',
+    `${sender.username} tipped you ${result.amount} ${result.currency}${cleanTipMessage ? `: "${cleanTipMessage}"` : ''}`,
+    {
+      senderId,
+      senderUsername: sender.username,
+      amount: result.amount,
+      currency: result.currency,
+      chatRoomId: roomId,
+    },
+  );
+
+  await emitToRoom(roomId, 'community:message', result.message);
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Rain
+// ---------------------------------------------------------------------------
+
+/**
+ * Split `amount` evenly among players who chatted in the room recently. The
+ * share is rounded down to 8 decimals and the sender is only debited what is
+ * actually handed out. Muted and banned players are skipped.
+ */
+export async function rain(senderId: string, roomId: string, input: RainInput) {
+  const maxRecipients = input.recipients ?? RAIN_DEFAULT_RECIPIENTS;
+
+  await getActiveRoom(roomId);
+  const sender = await getChatUser(senderId);
+
+  const recentPosters = await prisma.communityMessage.findMany({
+    where: {
+      roomId,
+      type: 'TEXT',
+      isDeleted: false,
+      userId: { not: senderId },
+      createdAt: { gte: new Date(Date.now() - RAIN_ACTIVITY_WINDOW_MS) },
+      user: { isBanned: false },
+    },
+    distinct: ['userId'],
+    orderBy: { createdAt: 'desc' },
+    select: { user: { select: { id: true, username: true } } },
+    take: maxRecipients * 2,
+  });
+
+  const muted = new Set(
+    (await prisma.communityMute.findMany({
+      where: {
+        userId: { in: recentPosters.map((p) => p.user.id) },
+        ...activeMuteWhere(roomId),
+      },
+      select: { userId: true },
+    })).map((m) => m.userId),
+  );
+
+  const recipients = recentPosters
+    .map((p) => p.user)
+    .filter((u) => !muted.has(u.id))
+    .slice(0, maxRecipients);
+
+  if (recipients.length === 0) {
+    throw new ChatError('NO_RAIN_RECIPIENTS', 'Nobody has been active in this room recently', 400);
+  }
+
+  const share = new Prisma.Decimal(input.amount)
+    .div(recipients.length)
+    .toDecimalPlaces(8, Prisma.Decimal.ROUND_DOWN);
+
+  if (share.lte(0)) {
+    throw new ChatError('RAIN_TOO_LOW', 'Amount is too small to split among recipients', 400);
+  }
+
+  const total = share.mul(recipients.length);
+  await checkSenderEligibility(senderId, input.currency, total);
+
+  const result = await prisma.$transaction(async (tx) => {
+    const { wallet: senderWallet, currencyId, symbol } = await getSenderWallet(tx, senderId, input.currency);
+
+    await debitSender(tx, senderWallet.id, total, symbol);
+
+    await tx.transaction.create({
+      data: {
+        walletId: senderWallet.id,
+        type: 'RAIN',
+        amount: total.negated(),
+        status: 'COMPLETED',
+        metadata: {
+          chatRoomId: roomId,
+          share: share.toFixed(8),
+          recipientIds: recipients.map((r) => r.id),
         },
       },
     });
 
-    // Create notification for recipient
-    await tx.notification.create({
-      data: {
-        userId: recipientId,
-        type: 'TIP_RECEIVED',
-        title: 'Tip Received!',
-        message: `${sender.username} tipped you ${amount} ${currency.toUpperCase()}${tipMessage ? `: "${tipMessage}"` : ''}`,
+    for (const recipient of recipients) {
+      const wallet = await creditRecipient(tx, recipient.id, currencyId, share);
+      await tx.transaction.create({
         data: {
-          senderId,
-          senderUsername: sender.username,
-          amount: amount.toFixed(8),
-          currency: currency.toUpperCase(),
-          chatRoomId: roomId,
+          walletId: wallet.id,
+          type: 'RAIN',
+          amount: share,
+          status: 'COMPLETED',
+          metadata: { chatRoomId: roomId, senderId, senderUsername: sender.username },
+        },
+      });
+    }
+
+    const rainMessage = await tx.communityMessage.create({
+      data: {
+        roomId,
+        userId: senderId,
+        content: `made it rain ${total.toString()} ${symbol} on ${recipients.length} players`,
+        type: 'RAIN',
+        metadata: {
+          amount: total.toFixed(8),
+          share: share.toFixed(8),
+          currency: symbol,
+          recipients: recipients.map((r) => ({ id: r.id, username: r.username })),
         },
       },
+      select: messageSelect,
     });
 
     return {
-      tipId: tipChatMessage.id,
-      message: tipChatMessage,
-      amount: amount.toFixed(8),
-      currency: currency.toUpperCase(),
-      sender: {
-        id: sender.id,
-        username: sender.username,
-      },
-      recipient: {
-        id: recipient.id,
-        username: recipient.username,
-      },
+      rainId: rainMessage.id,
+      message: rainMessage,
+      amount: total.toFixed(8),
+      share: share.toFixed(8),
+      currency: symbol,
+      recipients,
     };
   });
 
+  for (const recipient of recipients) {
+    await createNotification(
+      recipient.id,
+      'TIP_RECEIVED',
+      'You caught some rain!',
+      `${sender.username} made it rain and you received ${result.share} ${result.currency}`,
+      { senderId, senderUsername: sender.username, amount: result.share, currency: result.currency, chatRoomId: roomId },
+    );
+  }
+
+  await emitToRoom(roomId, 'community:message', result.message);
+  await emitToRoom(roomId, 'community:rain', {
+    rainId: result.rainId,
+    sender: { id: sender.id, username: sender.username },
+    share: result.share,
+    currency: result.currency,
+    recipients: result.recipients,
+  });
+
   return result;
 }
 
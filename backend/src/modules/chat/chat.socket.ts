@@ -0,0 +1,72 @@
+import type { Namespace, Socket } from 'socket.io';
+import type { JwtPayload } from '../../middleware/auth.js';
+import { ChatError, markUserOffline, markUserOnline, sendMessage } from './chat.service.js';
+import { idParamSchema, sendMessageSchema } from './chat.schemas.js';
+
+// ---------------------------------------------------------------------------
+// Community chat over the /chat namespace
+// ---------------------------------------------------------------------------
+// Guests may join rooms and read; posting needs a socket authenticated in
+// the handshake (lib/socket.ts). The sender is always the verified user,
+// never taken from the event payload.
+//
+//   community:join    roomId
+//   community:leave   roomId
+//   community:message { roomId, content, replyToId? }, ack(result)
+// ---------------------------------------------------------------------------
+
+type Ack = (result: { success: boolean; data?: unknown; error?: { code: string; message: string } }) => void;
+
+export function registerCommunityChatSocket(nsp: Namespace): void {
+  nsp.on('connection', (socket: Socket) => {
+    const user = (socket.data as { user?: JwtPayload }).user;
+    const joined = new Set<string>();
+
+    socket.on('community:join', (roomId: string) => {
+      if (!idParamSchema.safeParse({ id: roomId }).success) return;
+      void socket.join(`community:${roomId}`);
+      joined.add(roomId);
+      if (user) void markUserOnline(roomId, user.id);
+    });
+
+    socket.on('community:leave', (roomId: string) => {
+      if (!joined.delete(roomId)) return;
+      void socket.leave(`community:${roomId}`);
+      if (user) void markUserOffline(roomId, user.id);
+    });
+
+    socket.on('community:message', async (data: { roomId: string; content: string; replyToId?: string }, ack?: Ack) => {
+      const reply: Ack = typeof ack === 'function' ? ack : () => {};
+
+      if (!user) {
+        reply({ success: false, error: { code: 'UNAUTHORIZED', message: 'Sign in to chat' } });
+        return;
+      }
+
+      const input = sendMessageSchema.safeParse(data);
+      if (!data?.roomId || !input.success) {
+        reply({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid message' } });
+        return;
+      }
+
+      try {
+        // The service broadcasts the stored message to the room
+        reply({ success: true, data: await sendMessage(user.id, data.roomId, input.data) });
+      } catch (err) {
+        if (err instanceof ChatError) {
+          reply({ success: false, error: { code: err.code, message: err.message } });
+          return;
+        }
+        console.error(`[Socket.IO /chat] community:message failed on ${socket.id}:`, err);
+        reply({ success: false, error: { code: 'INTERNAL_ERROR', message: 'Message could not be sent' } });
+      }
+    });
+
+    socket.on('disconnect', () => {
+      if (!user) return;
+      for (const roomId of joined) {
+        void markUserOffline(roomId, user.id);
+      }
+    });
+  });
+}
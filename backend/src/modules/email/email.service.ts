@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import { prisma } from '../../lib/prisma.js';
+import { config } from '../../config/index.js';
+import { logger } from '../../middleware/logger.js';
+import {
+  OutboxTransport,
+  SmtpTransport,
+  type EmailMessage,
+  type EmailTransport,
+} from './email.transports.js';
+import {
+  renderTemplate,
+  resolveLocale,
+  type EmailLocale,
+  type EmailTemplateName,
+  type TemplateVars,
+} from './email.templates.js';
+
+// ---------------------------------------------------------------------------
+// Email service
+// ---------------------------------------------------------------------------
+// Messages are rendered when they are sent and queued as 'send-email' jobs on
+// the notification-sender queue; the worker calls deliverEmail(), so failed
+// deliveries are retried with the queue's backoff.
+// ---------------------------------------------------------------------------
+
+export const APP_NAME = 'CryptoBet';
+
+let transport: EmailTransport | null = null;
+
+function createTransport(): EmailTransport {
+  if (config.EMAIL_TRANSPORT === 'smtp' && config.SMTP_HOST) {
+    return new SmtpTransport({
+      host: config.SMTP_HOST,
+      port: config.SMTP_PORT,
+      secure: config.SMTP_SECURE,
+      user: config.SMTP_USER,
+      pass: config.SMTP_PASS,
+    });
+  }
+  return new OutboxTransport(config.EMAIL_OUTBOX_DIR);
+}
+
+export function getEmailTransport(): EmailTransport {
+  transport ??= createTransport();
+  return transport;
+}
+
+/**
+ * Replace the delivery transport (e.g. a third-party API, or a capturing
+ * transport in tests).
+ */
+export function setEmailTransport(next: EmailTransport): void {
+  transport = next;
+}
+
+// ---------------------------------------------------------------------------
+// Sending
+// ---------------------------------------------------------------------------
+
+export interface SendEmailInput {
+  to: string;
+  template: EmailTemplateName;
+  data: TemplateVars;
+  locale?: EmailLocale;
+}
+
+export function buildEmail(input: SendEmailInput): EmailMessage {
+  const rendered = renderTemplate(input.template, input.locale ?? 'en', {
+    appName: APP_NAME,
+    appUrl: config.FRONTEND_URL,
+    ...input.data,
+  });
+
+  return {
+    id: crypto.randomUUID(),
+    from: `${APP_NAME} <${config.SMTP_FROM}>`,
+    to: input.to,
+    template: input.template,
+    ...rendered,
+  };
+}
+
+/**
+ * Render a message and queue it for delivery. Never throws: email is a side
+ * channel and must not fail the operation that triggered it.
+ */
+export async function sendEmail(input: SendEmailInput): Promise<void> {
+  const message = buildEmail(input);
+  try {
+    const { notificationSenderQueue } = await import('../../queues/index.js');
+    await notificationSenderQueue.add('send-email', message, { jobId: `email-${message.id}` });
+  } catch (err) {
+    logger.error({ err, template: input.template, to: input.to }, '[email] Failed to queue email');
+  }
+}
+
+/**
+ * Send a template to a user's address in their language. `username` is
+ * filled in automatically.
+ */
+export async function sendUserEmail(
+  userId: string,
+  template: EmailTemplateName,
+  data: TemplateVars = {},
+): Promise<void> {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, username: true, language: true },
+    });
+    if (!user) return;
+
+    await sendEmail({
+      to: user.email,
+      template,
+      locale: resolveLocale(user.language),
+      data: { username: user.username, ...data },
+    });
+  } catch (err) {
+    logger.error({ err, userId, template }, '[email] Failed to send user email');
+  }
+}
+
+/**
+ * Deliver a queued message through the configured transport. Errors
+ * propagate so the queue retries the job.
+ */
+export async function deliverEmail(message: EmailMessage): Promise<void> {
+  const active = getEmailTransport();
+  await active.send(message);
+  logger.info(
+    { emailId: message.id, template: message.template, transport: active.name },
+    '[email] Email delivered',
+  );
+}
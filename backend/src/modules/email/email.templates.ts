@@ -0,0 +1,453 @@
+// ---------------------------------------------------------------------------
+// Email templates
+// ---------------------------------------------------------------------------
+// Each template has a version per supported language; users get the version
+// for their `language` setting, falling back to English. `{{name}}`
+// placeholders are filled from the template variables (HTML-escaped in the
+// HTML part). A template may end with an action button linking to a URL.
+// ---------------------------------------------------------------------------
+
+export const EMAIL_LOCALES = ['en', 'es', 'de'] as const;
+export type EmailLocale = (typeof EMAIL_LOCALES)[number];
+
+export const DEFAULT_LOCALE: EmailLocale = 'en';
+
+export type EmailTemplateName =
+  | 'password-reset'
+  | 'welcome'
+  | 'verify-email'
+  | 'login-confirmation'
+  | 'new-device-login'
+  | 'withdrawal-requested'
+  | 'withdrawal-approved'
+  | 'withdrawal-rejected'
+  | 'deposit-confirmed'
+  | 'kyc-approved'
+  | 'kyc-rejected'
+  | 'bet-won'
+  | 'bet-lost'
+  | 'vip-level-up'
+  | 'promo-available';
+
+export type TemplateVars = Record<string, string | number | null | undefined>;
+
+interface LocalizedTemplate {
+  subject: string;
+  /** Paragraphs of the message */
+  body: string[];
+  /** Optional button: label and the variable holding its URL */
+  action?: { label: string; urlVar: string };
+}
+
+const TEMPLATES: Record<EmailTemplateName, Record<EmailLocale, LocalizedTemplate>> = {
+  'password-reset': {
+    en: {
+      subject: 'Reset your password',
+      body: [
+        'Hi {{username}},',
+        'We received a request to reset your password. The link below is valid for {{expiresMinutes}} minutes.',
+        'If you did not ask for this, you can ignore this email; your password stays unchanged.',
+      ],
+      action: { label: 'Reset password', urlVar: 'resetUrl' },
+    },
+    es: {
+      subject: 'Restablece tu contraseña',
+      body: [
+        'Hola {{username}}:',
+        'Hemos recibido una solicitud para restablecer tu contraseña. El enlace es válido durante {{expiresMinutes}} minutos.',
+        'Si no lo has solicitado, ignora este correo; tu contraseña no cambiará.',
+      ],
+      action: { label: 'Restablecer contraseña', urlVar: 'resetUrl' },
+    },
+    de: {
+      subject: 'Passwort zurücksetzen',
+      body: [
+        'Hallo {{username}},',
+        'wir haben eine Anfrage zum Zurücksetzen deines Passworts erhalten. Der Link ist {{expiresMinutes}} Minuten gültig.',
+        'Wenn du das nicht angefordert hast, ignoriere diese E-Mail; dein Passwort bleibt unverändert.',
+      ],
+      action: { label: 'Passwort zurücksetzen', urlVar: 'resetUrl' },
+    },
+  },
+  welcome: {
+    en: {
+      subject: 'Welcome to {{appName}}',
+      body: [
+        'Hi {{username}},',
+        'Your account is ready. Your welcome package is active for the next 30 days.',
+      ],
+      action: { label: 'Start playing', urlVar: 'appUrl' },
+    },
+    es: {
+      subject: 'Bienvenido a {{appName}}',
+      body: [
+        'Hola {{username}}:',
+        'Tu cuenta está lista. Tu paquete de bienvenida está activo durante los próximos 30 días.',
+      ],
+      action: { label: 'Empezar a jugar', urlVar: 'appUrl' },
+    },
+    de: {
+      subject: 'Willkommen bei {{appName}}',
+      body: [
+        'Hallo {{username}},',
+        'dein Konto ist bereit. Dein Willkommenspaket ist die nächsten 30 Tage aktiv.',
+      ],
+      action: { label: 'Jetzt spielen', urlVar: 'appUrl' },
+    },
+  },
+  'verify-email': {
+    en: {
+      subject: 'Confirm your email address',
+      body: [
+        'Hi {{username}},',
+        'Please confirm that this is your email address. The link is valid for {{expiresHours}} hours.',
+        'Withdrawals are available once your address is confirmed.',
+      ],
+      action: { label: 'Confirm email', urlVar: 'verifyUrl' },
+    },
+    es: {
+      subject: 'Confirma tu dirección de correo',
+      body: [
+        'Hola {{username}}:',
+        'Confirma que esta es tu dirección de correo. El enlace es válido durante {{expiresHours}} horas.',
+        'Los retiros estarán disponibles cuando hayas confirmado tu dirección.',
+      ],
+      action: { label: 'Confirmar correo', urlVar: 'verifyUrl' },
+    },
+    de: {
+      subject: 'Bestätige deine E-Mail-Adresse',
+      body: [
+        'Hallo {{username}},',
+        'bitte bestätige, dass dies deine E-Mail-Adresse ist. Der Link ist {{expiresHours}} Stunden gültig.',
+        'Auszahlungen sind möglich, sobald deine Adresse bestätigt ist.',
+      ],
+      action: { label: 'E-Mail bestätigen', urlVar: 'verifyUrl' },
+    },
+  },
+  'login-confirmation': {
+    en: {
+      subject: 'Your sign-in code: {{code}}',
+      body: [
+        'Hi {{username}},',
+        'Someone is signing in to your account from a new device: {{device}} (IP {{ipAddress}}, {{location}}) at {{time}}.',
+        'Enter this code to confirm it is you: {{code}}. It expires in {{expiresMinutes}} minutes.',
+        'If this was not you, do not share the code and change your password.',
+      ],
+    },
+    es: {
+      subject: 'Tu código de inicio de sesión: {{code}}',
+      body: [
+        'Hola {{username}}:',
+        'Alguien está iniciando sesión en tu cuenta desde un dispositivo nuevo: {{device}} (IP {{ipAddress}}, {{location}}) el {{time}}.',
+        'Introduce este código para confirmar que eres tú: {{code}}. Caduca en {{expiresMinutes}} minutos.',
+        'Si no has sido tú, no compartas el código y cambia tu contraseña.',
+      ],
+    },
+    de: {
+      subject: 'Dein Anmeldecode: {{code}}',
+      body: [
+        'Hallo {{username}},',
+        'jemand meldet sich auf einem neuen Gerät bei deinem Konto an: {{device}} (IP {{ipAddress}}, {{location}}) am {{time}}.',
+        'Gib diesen Code ein, um zu bestätigen, dass du es bist: {{code}}. Er läuft in {{expiresMinutes}} Minuten ab.',
+        'Wenn du das nicht warst, gib den Code nicht weiter und ändere dein Passwort.',
+      ],
+    },
+  },
+  'new-device-login': {
+    en: {
+      subject: 'New sign-in to your account',
+      body: [
+        'Hi {{username}},',
+        'Your account was just signed in from a new device: {{device}} (IP {{ipAddress}}, {{location}}) at {{time}}.',
+        'If this was not you, change your password and revoke the session now.',
+      ],
+      action: { label: 'Review sessions', urlVar: 'securityUrl' },
+    },
+    es: {
+      subject: 'Nuevo inicio de sesión en tu cuenta',
+      body: [
+        'Hola {{username}}:',
+        'Se ha iniciado sesión en tu cuenta desde un dispositivo nuevo: {{device}} (IP {{ipAddress}}, {{location}}) el {{time}}.',
+        'Si no has sido tú, cambia tu contraseña y cierra esa sesión ahora.',
+      ],
+      action: { label: 'Revisar sesiones', urlVar: 'securityUrl' },
+    },
+    de: {
+      subject: 'Neue Anmeldung bei deinem Konto',
+      body: [
+        'Hallo {{username}},',
+        'dein Konto wurde soeben auf einem neuen Gerät angemeldet: {{device}} (IP {{ipAddress}}, {{location}}) am {{time}}.',
+        'Wenn du das nicht warst, ändere sofort dein Passwort und beende die Sitzung.',
+      ],
+      action: { label: 'Sitzungen prüfen', urlVar: 'securityUrl' },
+    },
+  },
+  'withdrawal-requested': {
+    en: {
+      subject: 'Withdrawal request received',
+      body: [
+        'Hi {{username}},',
+        'We received your withdrawal of {{amount}} {{currency}} to {{toAddress}}. It is now waiting for review.',
+      ],
+    },
+    es: {
+      subject: 'Solicitud de retiro recibida',
+      body: [
+        'Hola {{username}}:',
+        'Hemos recibido tu retiro de {{amount}} {{currency}} a {{toAddress}}. Ahora está pendiente de revisión.',
+      ],
+    },
+    de: {
+      subject: 'Auszahlungsanfrage erhalten',
+      body: [
+        'Hallo {{username}},',
+        'wir haben deine Auszahlung von {{amount}} {{currency}} an {{toAddress}} erhalten. Sie wird nun geprüft.',
+      ],
+    },
+  },
+  'withdrawal-approved': {
+    en: {
+      subject: 'Withdrawal approved',
+      body: [
+        'Hi {{username}},',
+        'Your withdrawal of {{amount}} {{currency}} has been approved and is being sent.',
+      ],
+    },
+    es: {
+      subject: 'Retiro aprobado',
+      body: [
+        'Hola {{username}}:',
+        'Tu retiro de {{amount}} {{currency}} ha sido aprobado y se está enviando.',
+      ],
+    },
+    de: {
+      subject: 'Auszahlung genehmigt',
+      body: [
+        'Hallo {{username}},',
+        'deine Auszahlung von {{amount}} {{currency}} wurde genehmigt und wird gesendet.',
+      ],
+    },
+  },
+  'withdrawal-rejected': {
+    en: {
+      subject: 'Withdrawal rejected',
+      body: [
+        'Hi {{username}},',
+        'Your withdrawal of {{amount}} {{currency}} has been rejected and the funds are back in your balance.',
+        'Reason: {{reason}}',
+      ],
+    },
+    es: {
+      subject: 'Retiro rechazado',
+      body: [
+        'Hola {{username}}:',
+        'Tu retiro de {{amount}} {{currency}} ha sido rechazado y los fondos han vuelto a tu saldo.',
+        'Motivo: {{reason}}',
+      ],
+    },
+    de: {
+      subject: 'Auszahlung abgelehnt',
+      body: [
+        'Hallo {{username}},',
+        'deine Auszahlung von {{amount}} {{currency}} wurde abgelehnt; das Guthaben ist wieder verfügbar.',
+        'Grund: {{reason}}',
+      ],
+    },
+  },
+  'deposit-confirmed': {
+    en: {
+      subject: 'Deposit confirmed',
+      body: ['Hi {{username}},', 'Your deposit of {{amount}} {{currency}} has been confirmed.'],
+    },
+    es: {
+      subject: 'Depósito confirmado',
+      body: ['Hola {{username}}:', 'Tu depósito de {{amount}} {{currency}} ha sido confirmado.'],
+    },
+    de: {
+      subject: 'Einzahlung bestätigt',
+      body: ['Hallo {{username}},', 'deine Einzahlung von {{amount}} {{currency}} wurde bestätigt.'],
+    },
+  },
+  'kyc-approved': {
+    en: {
+      subject: 'Verification document approved',
+      body: [
+        'Hi {{username}},',
+        'Your {{docType}} document has been approved. Your verification level is now {{kycLevel}}.',
+      ],
+    },
+    es: {
+      subject: 'Documento de verificación aprobado',
+      body: [
+        'Hola {{username}}:',
+        'Tu documento {{docType}} ha sido aprobado. Tu nivel de verificación ahora es {{kycLevel}}.',
+      ],
+    },
+    de: {
+      subject: 'Verifizierungsdokument genehmigt',
+      body: [
+        'Hallo {{username}},',
+        'dein Dokument {{docType}} wurde genehmigt. Deine Verifizierungsstufe ist jetzt {{kycLevel}}.',
+      ],
+    },
+  },
+  'kyc-rejected': {
+    en: {
+      subject: 'Verification document rejected',
+      body: [
+        'Hi {{username}},',
+        'Your {{docType}} document has been rejected. Reason: {{reason}}',
+        'You can upload a new document from your account.',
+      ],
+      action: { label: 'Upload document', urlVar: 'kycUrl' },
+    },
+    es: {
+      subject: 'Documento de verificación rechazado',
+      body: [
+        'Hola {{username}}:',
+        'Tu documento {{docType}} ha sido rechazado. Motivo: {{reason}}',
+        'Puedes subir un documento nuevo desde tu cuenta.',
+      ],
+      action: { label: 'Subir documento', urlVar: 'kycUrl' },
+    },
+    de: {
+      subject: 'Verifizierungsdokument abgelehnt',
+      body: [
+        'Hallo {{username}},',
+        'dein Dokument {{docType}} wurde abgelehnt. Grund: {{reason}}',
+        'Du kannst in deinem Konto ein neues Dokument hochladen.',
+      ],
+      action: { label: 'Dokument hochladen', urlVar: 'kycUrl' },
+    },
+  },
+  'bet-won': {
+    en: {
+      subject: 'Your bet won!',
+      body: ['Hi {{username}},', 'Congratulations, your bet has won {{amount}} {{currency}}!'],
+    },
+    es: {
+      subject: '¡Tu apuesta ha ganado!',
+      body: ['Hola {{username}}:', '¡Enhorabuena, tu apuesta ha ganado {{amount}} {{currency}}!'],
+    },
+    de: {
+      subject: 'Deine Wette hat gewonnen!',
+      body: ['Hallo {{username}},', 'Glückwunsch, deine Wette hat {{amount}} {{currency}} gewonnen!'],
+    },
+  },
+  'bet-lost': {
+    en: {
+      subject: 'Your bet has been settled',
+      body: ['Hi {{username}},', 'Unfortunately, your bet did not win this time.'],
+    },
+    es: {
+      subject: 'Tu apuesta ha sido liquidada',
+      body: ['Hola {{username}}:', 'Lamentablemente, tu apuesta no ha ganado esta vez.'],
+    },
+    de: {
+      subject: 'Deine Wette wurde abgerechnet',
+      body: ['Hallo {{username}},', 'leider hat deine Wette diesmal nicht gewonnen.'],
+    },
+  },
+  'vip-level-up': {
+    en: {
+      subject: 'You reached {{tier}}!',
+      body: ['Hi {{username}},', 'Congratulations! You have been promoted to the {{tier}} VIP tier.'],
+    },
+    es: {
+      subject: '¡Has alcanzado {{tier}}!',
+      body: ['Hola {{username}}:', '¡Enhorabuena! Has ascendido al nivel VIP {{tier}}.'],
+    },
+    de: {
+      subject: 'Du hast {{tier}} erreicht!',
+      body: ['Hallo {{username}},', 'Glückwunsch! Du bist in die VIP-Stufe {{tier}} aufgestiegen.'],
+    },
+  },
+  'promo-available': {
+    en: {
+      subject: 'New promotion: {{promoTitle}}',
+      body: ['Hi {{username}},', 'A new promotion is available for you: {{promoTitle}}.'],
+      action: { label: 'View promotion', urlVar: 'promoUrl' },
+    },
+    es: {
+      subject: 'Nueva promoción: {{promoTitle}}',
+      body: ['Hola {{username}}:', 'Tienes una nueva promoción disponible: {{promoTitle}}.'],
+      action: { label: 'Ver promoción', urlVar: 'promoUrl' },
+    },
+    de: {
+      subject: 'Neue Aktion: {{promoTitle}}',
+      body: ['Hallo {{username}},', 'Eine neue Aktion ist für dich verfügbar: {{promoTitle}}.'],
+      action: { label: 'Aktion ansehen', urlVar: 'promoUrl' },
+    },
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function fill(template: string, vars: TemplateVars, escape: (value: string) => string): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => escape(String(vars[name] ?? '')));
+}
+
+/**
+ * Supported locale for a user's language setting (e.g. "es-MX" -> "es").
+ */
+export function resolveLocale(language: string | null | undefined): EmailLocale {
+  const base = (language ?? '').toLowerCase().split(/[-_]/)[0];
+  return (EMAIL_LOCALES as readonly string[]).includes(base) ? (base as EmailLocale) : DEFAULT_LOCALE;
+}
+
+export function renderTemplate(
+  name: EmailTemplateName,
+  locale: EmailLocale,
+  vars: TemplateVars,
+): RenderedEmail {
+  const template = TEMPLATES[name][locale] ?? TEMPLATES[name][DEFAULT_LOCALE];
+  const raw = (value: string) => value;
+
+  const subject = fill(template.subject, vars, raw);
+  const paragraphs = template.body.map((p) => fill(p, vars, raw));
+  const actionUrl = template.action ? vars[template.action.urlVar] : undefined;
+
+  const text = [
+    ...paragraphs,
+    ...(template.action && actionUrl ? [`${template.action.label}: ${actionUrl}`] : []),
+    `— ${vars.appName ?? ''}`,
+  ].join('\n\n');
+
+  const htmlParagraphs = template.body
+    .map((p) => `<p style="margin:0 0 16px">${fill(p, vars, escapeHtml)}</p>`)
+    .join('\n');
+  const htmlAction = template.action && actionUrl
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(String(actionUrl))}" style="background:#00b37e;color:#fff;padding:12px 20px;border-radius:6px;text-decoration:none;display:inline-block">${escapeHtml(template.action.label)}</a></p>`
+    : '';
+
+  const html = `<!DOCTYPE html>
+<html lang="${locale}">
+<body style="margin:0;padding:24px;background:#f4f5f7;font-family:Arial,Helvetica,sans-serif;color:#1a1d24">
+<div style="max-width:560px;margin:0 auto;background:#fff;border-radius:8px;padding:32px">
+<h1 style="font-size:20px;margin:0 0 24px">${escapeHtml(subject)}</h1>
+${htmlParagraphs}
+${htmlAction}
+<p style="margin:32px 0 0;font-size:12px;color:#6b7280">${escapeHtml(String(vars.appName ?? ''))}</p>
+</div>
+</body>
+</html>`;
+
+  return { subject, text, html };
+}
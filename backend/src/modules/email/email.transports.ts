@@ -0,0 +1,253 @@
+import crypto from 'crypto';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+import { mkdir, writeFile } from 'fs/promises';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A rendered email, ready for delivery. */
+export interface EmailMessage {
+  id: string;
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  /** Template the message was rendered from (for logs and the outbox) */
+  template?: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Outbox transport
+// ---------------------------------------------------------------------------
+
+/**
+ * Writes every message as a JSON file instead of sending it. Used in
+ * development and tests; file names sort in delivery order.
+ */
+export class OutboxTransport implements EmailTransport {
+  readonly name = 'outbox';
+
+  constructor(private readonly dir: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const file = path.join(this.dir, `${Date.now()}-${message.id}.json`);
+    await writeFile(file, JSON.stringify({ ...message, createdAt: new Date().toISOString() }, null, 2));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SMTP transport
+// ---------------------------------------------------------------------------
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS; otherwise STARTTLS is used when the server offers it */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+/**
+ * Reads SMTP replies off a socket; a reply may span several lines
+ * ("250-..." continuation lines, then "250 ...").
+ */
+class SmtpConnection {
+  private buffer = '';
+  private pendingLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: ((reply: SmtpReply) => void) | null = null;
+  private failure: Error | null = null;
+  private failWaiter: ((err: Error) => void) | null = null;
+
+  constructor(public socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')));
+    socket.on('error', (err) => this.fail(err));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  detach(): net.Socket {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+    this.socket.setTimeout(0);
+    return this.socket;
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let end: number;
+    while ((end = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.pendingLines.push(line.slice(4));
+      if (line[3] !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.pendingLines };
+        this.pendingLines = [];
+        if (this.waiter) {
+          const resolve = this.waiter;
+          this.waiter = null;
+          this.failWaiter = null;
+          resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(err: Error): void {
+    this.failure ??= err;
+    if (this.failWaiter) {
+      const reject = this.failWaiter;
+      this.waiter = null;
+      this.failWaiter = null;
+      reject(err);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiter = resolve;
+      this.failWaiter = reject;
+    });
+  }
+
+  /** Send a command (or none, to read the greeting) and expect one of `codes`. */
+  async command(line: string | null, codes: number[]): Promise<SmtpReply> {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      const shown = line?.startsWith('AUTH') ? 'AUTH' : line ?? 'greeting';
+      throw new Error(`SMTP ${shown} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+}
+
+function encodeHeader(value: string): string {
+  // RFC 2047 encoded-word for non-ASCII subjects
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function base64Lines(value: string): string {
+  return Buffer.from(value).toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+function buildMime(message: EmailMessage, hostname: string): string {
+  const boundary = `----=_Part_${crypto.randomBytes(12).toString('hex')}`;
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${message.id}@${hostname}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+/** Bare address from `Name <address>` */
+function addressOf(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+/**
+ * Minimal SMTP client: EHLO, STARTTLS, AUTH PLAIN, one message per
+ * connection. Retries are left to the email queue.
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure } = this.options;
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+  }
+
+  private upgrade(socket: net.Socket): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const secured = tls.connect({ socket, servername: this.options.host }, () => resolve(secured));
+      secured.once('error', reject);
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const hostname = os.hostname();
+    const connection = new SmtpConnection(await this.connect());
+
+    try {
+      await connection.command(null, [220]);
+      const ehlo = await connection.command(`EHLO ${hostname}`, [250]);
+
+      if (!this.options.secure && ehlo.lines.some((l) => l.toUpperCase().startsWith('STARTTLS'))) {
+        await connection.command('STARTTLS', [220]);
+        connection.attach(await this.upgrade(connection.detach()));
+        await connection.command(`EHLO ${hostname}`, [250]);
+      }
+
+      if (this.options.user) {
+        const credentials = Buffer.from(`\0${this.options.user}\0${this.options.pass ?? ''}`).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${addressOf(message.from)}>`, [250]);
+      await connection.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+      await connection.command('DATA', [354]);
+
+      // Dot-stuff lines starting with "." and terminate with <CRLF>.<CRLF>
+      const body = buildMime(message, hostname).replace(/^\./gm, '..');
+      await connection.command(`${body}\r\n.`, [250]);
+
+      await connection.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      connection.socket.destroy();
+    }
+  }
+}
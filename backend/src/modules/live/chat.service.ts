@@ -1,5 +1,5 @@
 import { prisma } from '../../lib/prisma.js';
-import { getIO } from '../../lib/socket.js';
+import { getIO, ADMIN_ROOM } from '../../lib/socket.js';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -74,6 +74,15 @@ function emitToRoom(roomId: string, event: string, data: unknown) {
   }
 }
 
+function emitToAdmins(event: string, data: unknown) {
+  try {
+    const io = getIO();
+    io.of('/admin').to(ADMIN_ROOM).emit(event, data);
+  } catch {
+    // Socket.IO may not be initialized in tests
+  }
+}
+
 // ---------------------------------------------------------------------------
 // User: Chat Rooms
 // ---------------------------------------------------------------------------
@@ -129,6 +138,13 @@ export async function createRoom(userId: string, subject: string) {
     },
   });
 
+  emitToAdmins('support:room:created', {
+    roomId: room.id,
+    userId,
+    subject,
+    createdAt: room.createdAt.toISOString(),
+  });
+
   return room;
 }
 
@@ -1,6 +1,7 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { Prisma } from '@prisma/client';
 import { authenticate } from '../../middleware/auth.js';
+import { geoGuard } from '../../middleware/geo.js';
 import { validate, validateParams, validateQuery } from '../../middleware/validate.js';
 import { prisma } from '../../lib/prisma.js';
 import { redis } from '../../lib/redis.js';
@@ -15,6 +16,10 @@ import {
   type PlaceLiveBetInput,
 } from './live.schemas.js';
 import * as liveService from './live.service.js';
+import { scheduleLiveBetAcceptance } from '../betting/betting.service.js';
+import { captureBetPricing, getStakeFactor } from '../../services/riskEngine.js';
+import { getLiabilityHeadroom } from '../betting/liability.service.js';
+import { checkLossLimit } from '../users/responsibleGambling.service.js';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -24,10 +29,16 @@ function success(reply: FastifyReply, data: unknown, statusCode = 200) {
   return reply.status(statusCode).send({ success: true, data });
 }
 
-function error(reply: FastifyReply, code: string, message: string, statusCode = 400) {
+function error(
+  reply: FastifyReply,
+  code: string,
+  message: string,
+  statusCode = 400,
+  extra: Record<string, unknown> = {},
+) {
   return reply.status(statusCode).send({
     success: false,
-    error: { code, message },
+    error: { code, message, ...extra },
   });
 }
 
@@ -40,6 +51,7 @@ class LiveBetError extends Error {
     public readonly code: string,
     message: string,
     public readonly statusCode: number = 400,
+    public readonly details: Record<string, unknown> = {},
   ) {
     super(message);
     this.name = 'LiveBetError';
@@ -50,7 +62,6 @@ class LiveBetError extends Error {
 // Constants
 // ---------------------------------------------------------------------------
 
-const LIVE_BET_DELAY_MS = 6000; // 6 second acceptance delay for live bets
 const MIN_STAKE = new Prisma.Decimal('0.01');
 const MAX_STAKE_DEFAULT = new Prisma.Decimal('100000');
 const CACHE_TTL_LIVE_EVENTS = 5; // seconds
@@ -490,14 +501,16 @@ export default async function liveRoutes(fastify: FastifyInstance): Promise<void
   /**
    * POST /api/v1/live/events/:id/bet - Place a live bet on an event
    *
-   * Live bets have a delay period (typically 6 seconds) during which odds
-   * can change. The oddsChangePolicy controls behavior on odds movement.
+   * Live bets are held in PENDING for the configured acceptance delay, then
+   * re-validated by the bet-processing worker. The oddsChangePolicy controls
+   * behavior on odds movement both here and at acceptance.
    */
   fastify.post(
     '/api/v1/live/events/:id/bet',
     {
       preHandler: [
         authenticate,
+        geoGuard,
         validateParams(idParamSchema),
         validate(placeLiveBetSchema),
       ],
@@ -600,9 +613,12 @@ export default async function liveRoutes(fastify: FastifyInstance): Promise<void
           return error(reply, 'STAKE_TOO_LOW', `Minimum stake is ${MIN_STAKE.toString()}`, 400);
         }
 
-        const maxStake = selection.maxStake ?? MAX_STAKE_DEFAULT;
+        const stakeFactor = await getStakeFactor(userId);
+        const maxStake = (selection.maxStake ?? MAX_STAKE_DEFAULT).mul(stakeFactor);
         if (stakeDecimal.gt(maxStake)) {
-          return error(reply, 'STAKE_TOO_HIGH', `Maximum stake is ${maxStake.toString()}`, 400);
+          return error(reply, 'STAKE_TOO_HIGH', `Maximum stake is ${maxStake.toString()}`, 400, {
+            maxStake: maxStake.toString(),
+          });
         }
 
         // Check user restrictions
@@ -629,10 +645,33 @@ export default async function liveRoutes(fastify: FastifyInstance): Promise<void
           return error(reply, 'COOLING_OFF', 'You are in a cooling-off period', 403);
         }
 
+        const lossBreach = await checkLossLimit(userId, currency, stakeDecimal);
+        if (lossBreach) {
+          return error(reply, lossBreach.code, lossBreach.message, 403);
+        }
+
         // Atomic transaction: deduct balance + create live bet
         const potentialWin = stakeDecimal.mul(currentOdds);
 
         const bet = await prisma.$transaction(async (tx) => {
+          // Liability caps, checked under the caps' locks so concurrent bets
+          // cannot together run past them
+          const liability = await getLiabilityHeadroom(
+            tx,
+            [{ selectionId: selection.id, marketId: selection.marketId, eventId }],
+            currency,
+            currentOdds.minus(1),
+          );
+          if (liability && stakeDecimal.gt(liability.maxStake)) {
+            const maxAcceptableStake = Prisma.Decimal.min(liability.maxStake, maxStake);
+            throw new LiveBetError(
+              'LIABILITY_LIMIT_EXCEEDED',
+              `This bet would exceed the liability limit on ${liability.scope} "${liability.name}". Maximum stake is ${maxAcceptableStake.toString()}`,
+              400,
+              { maxStake: maxAcceptableStake.toString() },
+            );
+          }
+
           // Find wallet
           const currencyRecord = await tx.currency.findUnique({
             where: { symbol: currency.toUpperCase() },
@@ -690,9 +729,9 @@ export default async function liveRoutes(fastify: FastifyInstance): Promise<void
               currencySymbol: currency.toUpperCase(),
               potentialWin,
               odds: currentOdds,
-              status: 'ACCEPTED',
+              status: 'PENDING',
               isLive: true,
-              isCashoutAvailable: true,
+              isCashoutAvailable: false,
               ipAddress: request.ip,
               legs: {
                 create: [
@@ -752,13 +791,9 @@ export default async function liveRoutes(fastify: FastifyInstance): Promise<void
           return createdBet;
         });
 
-        // Update user's total wagered (fire-and-forget)
-        prisma.user
-          .update({
-            where: { id: userId },
-            data: { totalWagered: { increment: stakeDecimal } },
-          })
-          .catch(() => {});
+        // Accepted (and counted towards total wagered) by the bet-processing worker
+        await scheduleLiveBetAcceptance(bet.id, oddsChangePolicy);
+        void captureBetPricing(bet.id);
 
         return success(
           reply,
@@ -789,7 +824,7 @@ export default async function liveRoutes(fastify: FastifyInstance): Promise<void
         );
       } catch (err) {
         if (err instanceof LiveBetError) {
-          return error(reply, err.code, err.message, err.statusCode);
+          return error(reply, err.code, err.message, err.statusCode, err.details);
         }
         throw err;
       }
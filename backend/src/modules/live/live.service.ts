@@ -253,6 +253,34 @@ export function broadcastBetSettlement(
   }
 }
 
+/**
+ * Broadcast the outcome of a delayed live bet (accepted or rejected) to a specific user.
+ */
+export function broadcastBetAcceptance(
+  userId: string,
+  data: {
+    betId: string;
+    status: 'ACCEPTED' | 'REJECTED';
+    odds: string;
+    potentialWin: string;
+    reason?: string;
+  },
+): void {
+  try {
+    const io = getIO();
+    const liveNsp = io.of('/live');
+
+    liveNsp
+      .to(`user:${userId}`)
+      .emit(data.status === 'ACCEPTED' ? 'bet:accepted' : 'bet:rejected', {
+        ...data,
+        timestamp: new Date().toISOString(),
+      });
+  } catch (err) {
+    console.error('[Live] Failed to broadcast bet acceptance:', err);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Utility: Get live stats
 // ---------------------------------------------------------------------------
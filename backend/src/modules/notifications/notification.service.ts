@@ -1,5 +1,7 @@
 import { prisma } from '../../lib/prisma.js';
 import type { NotifType } from '@prisma/client';
+import { config } from '../../config/index.js';
+import { sendUserEmail } from '../email/email.service.js';
 
 // ---------------------------------------------------------------------------
 // Socket.IO helper - lazy import to avoid circular dependency
@@ -197,6 +199,7 @@ export async function createBulkNotifications(
 // ---------------------------------------------------------------------------
 // Helper: Specific notification creators
 // ---------------------------------------------------------------------------
+// Each creates the in-app notification and sends the matching email.
 
 export async function notifyBetWon(
   userId: string,
@@ -204,6 +207,7 @@ export async function notifyBetWon(
   amount: string,
   currency: string,
 ) {
+  await sendUserEmail(userId, 'bet-won', { amount, currency });
   return createNotification(userId, 'BET_WON', 'Bet Won!', `Your bet has won ${amount} ${currency}!`, {
     betId,
     amount,
@@ -212,6 +216,7 @@ export async function notifyBetWon(
 }
 
 export async function notifyBetLost(userId: string, betId: string) {
+  await sendUserEmail(userId, 'bet-lost');
   return createNotification(userId, 'BET_LOST', 'Bet Lost', 'Unfortunately, your bet did not win this time.', {
     betId,
   });
@@ -223,6 +228,7 @@ export async function notifyDepositConfirmed(
   currency: string,
   txHash?: string,
 ) {
+  await sendUserEmail(userId, 'deposit-confirmed', { amount, currency });
   return createNotification(
     userId,
     'DEPOSIT_CONFIRMED',
@@ -237,6 +243,7 @@ export async function notifyWithdrawalApproved(
   amount: string,
   currency: string,
 ) {
+  await sendUserEmail(userId, 'withdrawal-approved', { amount, currency });
   return createNotification(
     userId,
     'WITHDRAWAL_APPROVED',
@@ -247,6 +254,7 @@ export async function notifyWithdrawalApproved(
 }
 
 export async function notifyVipLevelUp(userId: string, newTier: string) {
+  await sendUserEmail(userId, 'vip-level-up', { tier: newTier });
   return createNotification(
     userId,
     'VIP_LEVEL_UP',
@@ -257,6 +265,10 @@ export async function notifyVipLevelUp(userId: string, newTier: string) {
 }
 
 export async function notifyPromoAvailable(userId: string, promoTitle: string, promoId: string) {
+  await sendUserEmail(userId, 'promo-available', {
+    promoTitle,
+    promoUrl: `${config.FRONTEND_URL}/promotions`,
+  });
   return createNotification(
     userId,
     'PROMO_AVAILABLE',
@@ -267,6 +279,7 @@ export async function notifyPromoAvailable(userId: string, promoTitle: string, p
 }
 
 export async function notifyKycApproved(userId: string, docType: string, newLevel: string) {
+  await sendUserEmail(userId, 'kyc-approved', { docType, kycLevel: newLevel });
   return createNotification(
     userId,
     'SYSTEM',
@@ -277,6 +290,11 @@ export async function notifyKycApproved(userId: string, docType: string, newLeve
 }
 
 export async function notifyKycRejected(userId: string, docType: string, reason: string) {
+  await sendUserEmail(userId, 'kyc-rejected', {
+    docType,
+    reason,
+    kycUrl: `${config.FRONTEND_URL}/profile/kyc`,
+  });
   return createNotification(
     userId,
     'SYSTEM',
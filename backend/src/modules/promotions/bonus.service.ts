@@ -0,0 +1,470 @@
+import { Prisma, type Bonus } from '@prisma/client';
+import { prisma } from '../../lib/prisma.js';
+import { config } from '../../config/index.js';
+import { logger } from '../../middleware/logger.js';
+import {
+  BONUS_EXPIRY_DAYS,
+  BONUS_SPORTS_MIN_ODDS,
+  BONUS_WAGERING_CONTRIBUTIONS,
+  DEFAULT_BONUS_WAGERING_CONTRIBUTION,
+} from '../../config/constants.js';
+import { claimRewardStep } from '../rewards/rewardSteps.js';
+import { createNotification } from '../notifications/notification.service.js';
+
+// ---------------------------------------------------------------------------
+// Bonus wallet
+// ---------------------------------------------------------------------------
+// Bonus funds live in Wallet.bonusBalance; every grant opens a Bonus row that
+// tracks its share of those funds and the turnover still required.
+//
+//   - Stakes are paid from cash first, then from bonus funds (oldest bonus
+//     first). The bonus share of a stake's payout goes back to bonus funds.
+//     Provider games use the seamless wallet's cash balance only, but their
+//     stakes still count toward wagering.
+//   - Settled wagers count toward the oldest active bonus, weighted by game
+//     (BONUS_WAGERING_CONTRIBUTIONS) or, for sports, by minimum odds.
+//   - Once the requirement is met the bonus's balance is converted to cash,
+//     capped by maxConversion.
+//   - Withdrawals follow BONUS_WITHDRAWAL_POLICY while a bonus holds funds.
+// ---------------------------------------------------------------------------
+
+export type BonusStatus = 'ACTIVE' | 'CONVERTED' | 'FORFEITED' | 'EXPIRED';
+
+const ZERO = new Prisma.Decimal(0);
+
+function toAmount(value: Prisma.Decimal): Prisma.Decimal {
+  return value.toDecimalPlaces(8, Prisma.Decimal.ROUND_DOWN);
+}
+
+// ---------------------------------------------------------------------------
+// Granting
+// ---------------------------------------------------------------------------
+
+export interface GrantBonusInput {
+  userId: string;
+  walletId: string;
+  amount: Prisma.Decimal;
+  /** PROMOTION, WELCOME_DAILY_DROP, CALENDAR */
+  source: string;
+  sourceId?: string;
+  /** Required turnover as a multiple of the amount */
+  wageringMultiplier: number;
+  minOdds?: number | null;
+  contributions?: Record<string, number> | null;
+  maxConversion?: Prisma.Decimal | null;
+  expiresAt?: Date;
+}
+
+/**
+ * Open the ledger entry for funds the caller has just added to the wallet's
+ * bonusBalance. Run it in the same transaction as the credit.
+ */
+export async function grantBonus(tx: Prisma.TransactionClient, input: GrantBonusInput): Promise<Bonus> {
+  return tx.bonus.create({
+    data: {
+      userId: input.userId,
+      walletId: input.walletId,
+      source: input.source,
+      sourceId: input.sourceId ?? null,
+      amount: input.amount,
+      balance: input.amount,
+      wageringRequired: toAmount(input.amount.mul(input.wageringMultiplier)),
+      minOdds: input.minOdds != null ? new Prisma.Decimal(input.minOdds) : null,
+      contributions: input.contributions ?? undefined,
+      maxConversion: input.maxConversion ?? null,
+      expiresAt: input.expiresAt ?? new Date(Date.now() + BONUS_EXPIRY_DAYS * 24 * 60 * 60 * 1000),
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Staking
+// ---------------------------------------------------------------------------
+
+export interface StakeSplit {
+  cash: Prisma.Decimal;
+  bonus: Prisma.Decimal;
+}
+
+/**
+ * Split a stake into its cash and bonus parts, cash first. Returns null when
+ * the two together do not cover it.
+ */
+export function splitStake(
+  cashAvailable: Prisma.Decimal,
+  bonusAvailable: Prisma.Decimal,
+  amount: Prisma.Decimal,
+): StakeSplit | null {
+  const cash = Prisma.Decimal.max(ZERO, Prisma.Decimal.min(cashAvailable, amount));
+  const bonus = amount.sub(cash);
+  if (bonus.gt(Prisma.Decimal.max(ZERO, bonusAvailable))) return null;
+  return { cash, bonus };
+}
+
+/**
+ * Debit a split stake from the wallet. The bonus part is taken from the
+ * active bonuses oldest first.
+ */
+export async function debitStake(
+  tx: Prisma.TransactionClient,
+  walletId: string,
+  split: StakeSplit,
+): Promise<void> {
+  await tx.wallet.update({
+    where: { id: walletId },
+    data: {
+      balance: { decrement: split.cash },
+      ...(split.bonus.gt(0) ? { bonusBalance: { decrement: split.bonus } } : {}),
+    },
+  });
+
+  if (split.bonus.lte(0)) return;
+
+  const bonuses = await tx.bonus.findMany({
+    where: { walletId, status: 'ACTIVE', balance: { gt: 0 } },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, balance: true },
+  });
+
+  let remaining = split.bonus;
+  for (const bonus of bonuses) {
+    if (remaining.lte(0)) break;
+    const take = Prisma.Decimal.min(bonus.balance, remaining);
+    await tx.bonus.update({
+      where: { id: bonus.id },
+      data: { balance: { decrement: take } },
+    });
+    remaining = remaining.sub(take);
+  }
+}
+
+/** Fraction of a stake that was paid from bonus funds. */
+export function bonusShareOf(stake: Prisma.Decimal, bonusStake: Prisma.Decimal): Prisma.Decimal {
+  if (stake.lte(0) || bonusStake.lte(0)) return ZERO;
+  return Prisma.Decimal.min(bonusStake.div(stake), 1);
+}
+
+/**
+ * Credit a payout (win, refund or cashout) to the wallet. `bonusShare` of it
+ * goes back to the oldest active bonus, or to cash when no bonus is active
+ * any more; the rest is cash.
+ */
+export async function creditStakeReturn(
+  tx: Prisma.TransactionClient,
+  walletId: string,
+  amount: Prisma.Decimal,
+  bonusShare: Prisma.Decimal = ZERO,
+): Promise<StakeSplit> {
+  let bonus = bonusShare.gt(0) ? toAmount(amount.mul(bonusShare)) : ZERO;
+
+  if (bonus.gt(0)) {
+    const target = await tx.bonus.findFirst({
+      where: { walletId, status: 'ACTIVE' },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+    if (target) {
+      await tx.bonus.update({
+        where: { id: target.id },
+        data: { balance: { increment: bonus } },
+      });
+    } else {
+      bonus = ZERO;
+    }
+  }
+
+  const cash = amount.sub(bonus);
+  await tx.wallet.update({
+    where: { id: walletId },
+    data: {
+      balance: { increment: cash },
+      ...(bonus.gt(0) ? { bonusBalance: { increment: bonus } } : {}),
+    },
+  });
+
+  return { cash, bonus };
+}
+
+// ---------------------------------------------------------------------------
+// Wagering and conversion
+// ---------------------------------------------------------------------------
+
+export interface WageringContext {
+  /** In-house game slug or provider game category */
+  game?: string;
+  /** Combined odds of a sports bet */
+  odds?: string;
+}
+
+/** Percent of a stake that counts toward `bonus`. */
+export function wageringContribution(
+  bonus: Pick<Bonus, 'minOdds' | 'contributions'>,
+  context: WageringContext,
+): number {
+  const overrides = (bonus.contributions ?? {}) as Record<string, number>;
+
+  if (context.odds !== undefined) {
+    const minOdds = bonus.minOdds ? bonus.minOdds.toNumber() : BONUS_SPORTS_MIN_ODDS;
+    if (Number(context.odds) < minOdds) return 0;
+    return overrides.sports ?? BONUS_WAGERING_CONTRIBUTIONS.sports ?? DEFAULT_BONUS_WAGERING_CONTRIBUTION;
+  }
+
+  if (!context.game) return DEFAULT_BONUS_WAGERING_CONTRIBUTION;
+  return overrides[context.game] ?? BONUS_WAGERING_CONTRIBUTIONS[context.game] ?? DEFAULT_BONUS_WAGERING_CONTRIBUTION;
+}
+
+/**
+ * Move a bonus's balance to cash (up to maxConversion; the excess is
+ * forfeited). Returns the cash credited, or null if the bonus was no longer
+ * active.
+ */
+async function convertBonus(tx: Prisma.TransactionClient, bonus: Bonus): Promise<Prisma.Decimal | null> {
+  const cash = bonus.maxConversion && bonus.balance.gt(bonus.maxConversion)
+    ? bonus.maxConversion
+    : bonus.balance;
+
+  const { count } = await tx.bonus.updateMany({
+    where: { id: bonus.id, status: 'ACTIVE' },
+    data: { status: 'CONVERTED', balance: 0, convertedAmount: cash, closedAt: new Date() },
+  });
+  if (count === 0) return null;
+
+  await tx.wallet.update({
+    where: { id: bonus.walletId },
+    data: {
+      bonusBalance: { decrement: bonus.balance },
+      balance: { increment: cash },
+    },
+  });
+
+  if (cash.gt(0)) {
+    await tx.transaction.create({
+      data: {
+        walletId: bonus.walletId,
+        type: 'BONUS',
+        amount: cash,
+        status: 'COMPLETED',
+        metadata: {
+          source: 'BONUS_CONVERSION',
+          bonusId: bonus.id,
+          forfeited: bonus.balance.sub(cash).toString(),
+        },
+      },
+    });
+  }
+
+  return cash;
+}
+
+/**
+ * Count a settled wager toward the oldest active bonus in its currency and
+ * convert the bonus once its requirement is met. Applied once per wager key.
+ */
+export async function recordBonusWagering(
+  userId: string,
+  currency: string,
+  amount: Prisma.Decimal,
+  context: WageringContext,
+  key: string,
+): Promise<void> {
+  const wallet = await prisma.wallet.findFirst({
+    where: { userId, currency: { symbol: currency } },
+    select: { id: true },
+  });
+  if (!wallet) return;
+
+  const activeWhere: Prisma.BonusWhereInput = {
+    walletId: wallet.id,
+    status: 'ACTIVE',
+    balance: { gt: 0 },
+    OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+  };
+
+  // Most wagers are made without a bonus; skip the marker for those
+  if ((await prisma.bonus.count({ where: activeWhere })) === 0) return;
+
+  const converted = await prisma.$transaction(async (tx) => {
+    if (!(await claimRewardStep(tx, key, 'bonus'))) return null;
+
+    const bonus = await tx.bonus.findFirst({ where: activeWhere, orderBy: { createdAt: 'asc' } });
+    if (!bonus) return null;
+
+    const percent = wageringContribution(bonus, context);
+    if (percent <= 0) return null;
+
+    const updated = await tx.bonus.update({
+      where: { id: bonus.id },
+      data: { wageringProgress: { increment: toAmount(amount.mul(percent).div(100)) } },
+    });
+
+    if (updated.wageringProgress.lt(updated.wageringRequired)) return null;
+
+    const cash = await convertBonus(tx, updated);
+    return cash ? { bonusId: updated.id, cash } : null;
+  });
+
+  if (converted) {
+    logger.info({ userId, bonusId: converted.bonusId, cash: converted.cash.toString() }, '[bonus] Bonus converted to cash');
+    await createNotification(
+      userId,
+      'REWARD_AVAILABLE',
+      'Bonus Unlocked!',
+      `You completed the wagering requirement. ${converted.cash.toString()} ${currency} has been moved to your balance.`,
+      { bonusId: converted.bonusId, amount: converted.cash.toString(), currency },
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Forfeit and expiry
+// ---------------------------------------------------------------------------
+
+/**
+ * Close an active bonus and remove its remaining balance from the wallet.
+ * Returns the amount removed, or null if it was no longer active.
+ */
+async function closeBonus(
+  tx: Prisma.TransactionClient,
+  bonusId: string,
+  status: 'FORFEITED' | 'EXPIRED',
+): Promise<Prisma.Decimal | null> {
+  const bonus = await tx.bonus.findFirst({ where: { id: bonusId, status: 'ACTIVE' } });
+  if (!bonus) return null;
+
+  const { count } = await tx.bonus.updateMany({
+    where: { id: bonusId, status: 'ACTIVE' },
+    data: { status, balance: 0, closedAt: new Date() },
+  });
+  if (count === 0) return null;
+
+  if (bonus.balance.gt(0)) {
+    await tx.wallet.update({
+      where: { id: bonus.walletId },
+      data: { bonusBalance: { decrement: bonus.balance } },
+    });
+
+    await tx.transaction.create({
+      data: {
+        walletId: bonus.walletId,
+        type: 'ADJUSTMENT',
+        amount: bonus.balance.negated(),
+        status: 'COMPLETED',
+        metadata: { source: `BONUS_${status}`, bonusId },
+      },
+    });
+  }
+
+  return bonus.balance;
+}
+
+/**
+ * Forfeit one of the user's active bonuses.
+ */
+export async function forfeitBonus(userId: string, bonusId: string): Promise<void> {
+  const bonus = await prisma.bonus.findFirst({
+    where: { id: bonusId, userId },
+    select: { status: true },
+  });
+
+  if (!bonus) {
+    throw new Error('Bonus not found.');
+  }
+  if (bonus.status !== 'ACTIVE') {
+    throw new Error('Only active bonuses can be forfeited.');
+  }
+
+  await prisma.$transaction((tx) => closeBonus(tx, bonusId, 'FORFEITED'));
+}
+
+/**
+ * Apply BONUS_WITHDRAWAL_POLICY before a withdrawal from `walletId`: 'block'
+ * refuses it while a bonus still holds funds, 'forfeit' cancels those
+ * bonuses.
+ */
+export async function applyWithdrawalBonusPolicy(walletId: string): Promise<void> {
+  const active = await prisma.bonus.findMany({
+    where: { walletId, status: 'ACTIVE', balance: { gt: 0 } },
+    select: { id: true },
+  });
+  if (active.length === 0) return;
+
+  if (config.BONUS_WITHDRAWAL_POLICY === 'forfeit') {
+    await prisma.$transaction(async (tx) => {
+      for (const bonus of active) {
+        await closeBonus(tx, bonus.id, 'FORFEITED');
+      }
+    });
+    return;
+  }
+
+  throw new Error(
+    'You have an active bonus that has not met its wagering requirement. Complete the wagering or forfeit the bonus before withdrawing.',
+  );
+}
+
+/**
+ * Expire active bonuses past their expiry date. Returns how many expired.
+ */
+export async function expireBonuses(limit = 500): Promise<number> {
+  const due = await prisma.bonus.findMany({
+    where: { status: 'ACTIVE', expiresAt: { lte: new Date() } },
+    select: { id: true },
+    take: limit,
+  });
+
+  let expired = 0;
+  for (const bonus of due) {
+    const removed = await prisma.$transaction((tx) => closeBonus(tx, bonus.id, 'EXPIRED'));
+    if (removed) expired++;
+  }
+  return expired;
+}
+
+// ---------------------------------------------------------------------------
+// Listing
+// ---------------------------------------------------------------------------
+
+export interface BonusSummary {
+  id: string;
+  currency: string;
+  source: string;
+  amount: string;
+  balance: string;
+  wageringRequired: string;
+  wageringProgress: string;
+  progressPercent: number;
+  minOdds: string | null;
+  status: string;
+  convertedAmount: string | null;
+  expiresAt: string | null;
+  closedAt: string | null;
+  createdAt: string;
+}
+
+export async function listBonuses(userId: string, status?: BonusStatus): Promise<BonusSummary[]> {
+  const bonuses = await prisma.bonus.findMany({
+    where: { userId, ...(status ? { status } : {}) },
+    orderBy: { createdAt: 'desc' },
+    take: 100,
+    include: { wallet: { select: { currency: { select: { symbol: true } } } } },
+  });
+
+  return bonuses.map((b) => ({
+    id: b.id,
+    currency: b.wallet.currency.symbol,
+    source: b.source,
+    amount: b.amount.toString(),
+    balance: b.balance.toString(),
+    wageringRequired: b.wageringRequired.toString(),
+    wageringProgress: b.wageringProgress.toString(),
+    progressPercent: b.wageringRequired.gt(0)
+      ? Math.min(100, b.wageringProgress.div(b.wageringRequired).mul(100).toDecimalPlaces(2).toNumber())
+      : 100,
+    minOdds: b.minOdds?.toString() ?? null,
+    status: b.status,
+    convertedAmount: b.convertedAmount?.toString() ?? null,
+    expiresAt: b.expiresAt?.toISOString() ?? null,
+    closedAt: b.closedAt?.toISOString() ?? null,
+    createdAt: b.createdAt.toISOString(),
+  }));
+}
@@ -2,11 +2,14 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { authenticate } from '../../middleware/auth.js';
 import { validate } from '../../middleware/validate.js';
 import * as promotionsService from './promotions.service.js';
+import * as bonusService from './bonus.service.js';
 import {
   claimPromotionParamsSchema,
   redeemPromoCodeSchema,
   promotionIdParamsSchema,
   listPromotionsQuerySchema,
+  listBonusesQuerySchema,
+  bonusIdParamsSchema,
   type ClaimPromotionParams,
   type RedeemPromoCodeInput,
   type PromotionIdParams,
@@ -134,4 +137,47 @@ export default async function promotionsRoutes(app: FastifyInstance): Promise<vo
     },
   );
 
+  // ── GET /api/v1/bonuses ── the user's bonuses with wagering progress
+  app.get(
+    '/api/v1/bonuses',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Promotions'],
+        summary: 'List my bonuses and their wagering progress',
+      },
+    },
+    async (request: FastifyRequest, _reply: FastifyReply) => {
+      const { status } = listBonusesQuerySchema.parse(request.query);
+      const bonuses = await bonusService.listBonuses(request.user!.id, status);
+      return { success: true, data: bonuses };
+    },
+  );
+
+  // ── POST /api/v1/bonuses/:id/forfeit ── give up an active bonus
+  app.post(
+    '/api/v1/bonuses/:id/forfeit',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Promotions'],
+        summary: 'Forfeit an active bonus and its remaining balance',
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = bonusIdParamsSchema.parse(request.params);
+
+      try {
+        await bonusService.forfeitBonus(request.user!.id, id);
+        return { success: true, data: { id, status: 'FORFEITED' } };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to forfeit bonus';
+        return reply.status(400).send({
+          success: false,
+          error: { code: 'FORFEIT_FAILED', message },
+        });
+      }
+    },
+  );
+
 }
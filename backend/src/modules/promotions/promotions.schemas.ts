@@ -32,6 +32,16 @@ export const listPromotionsQuerySchema = z.object({
 });
 export type ListPromotionsQuery = z.infer<typeof listPromotionsQuerySchema>;
 
+export const listBonusesQuerySchema = z.object({
+  status: z.enum(['ACTIVE', 'CONVERTED', 'FORFEITED', 'EXPIRED']).optional(),
+});
+export type ListBonusesQuery = z.infer<typeof listBonusesQuerySchema>;
+
+export const bonusIdParamsSchema = z.object({
+  id: z.string().min(1, 'Bonus ID is required'),
+});
+export type BonusIdParams = z.infer<typeof bonusIdParamsSchema>;
+
 // ---------------------------------------------------------------------------
 // Admin schemas
 // ---------------------------------------------------------------------------
@@ -53,6 +63,16 @@ export const createPromotionSchema = z.object({
     wageringRequirement: z.number().min(0).optional(),
     minOdds: z.number().min(1).optional(),
     validGames: z.array(z.string()).optional(),
+    // Bonus wagering: per-game contribution (percent) by game slug, provider
+    // category or "sports"; conversion cap and days before the bonus expires
+    contributions: z.record(z.string(), z.number().min(0).max(100)).optional(),
+    maxConversion: z.number().min(0).optional(),
+    bonusExpiryDays: z.number().int().min(1).optional(),
+    // Free-bet tokens (minOdds above applies to the whole slip): eligible
+    // sport slugs and market types, and days before the token expires
+    validSports: z.array(z.string()).optional(),
+    validMarketTypes: z.array(z.enum(['MONEYLINE', 'SPREAD', 'TOTAL', 'PROP', 'OUTRIGHT'])).optional(),
+    freeBetExpiryDays: z.number().int().min(1).optional(),
     minVipTier: z
       .enum(['BRONZE', 'SILVER', 'GOLD', 'PLATINUM', 'DIAMOND', 'ELITE', 'BLACK_DIAMOND', 'BLUE_DIAMOND'])
       .optional(),
@@ -3,6 +3,8 @@ import { Prisma, VipTier } from '@prisma/client';
 import { prisma } from '../../lib/prisma.js';
 import { redis } from '../../lib/redis.js';
 import { createNotification } from '../notifications/notification.service.js';
+import { grantBonus } from './bonus.service.js';
+import { issueFreeBet } from '../betting/freeBet.service.js';
 import type {
   CreatePromotionInput,
   UpdatePromotionInput,
@@ -56,6 +58,8 @@ interface ClaimResult {
   rewardValue: string;
   creditedAmount: string;
   currency: string;
+  /** FREE_BET promotions: the token issued */
+  freeBetId?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -320,10 +324,25 @@ export async function claimPromotion(
       creditAmount = rewardValue;
   }
 
+  // FREE_BET promotions issue a free-bet token worth the reward. ODDS_BOOST
+  // promotions credit nothing: the claim unlocks the promotion's boosted
+  // prices in the sportsbook.
+  const grantsFreeBet = promotion.type === 'FREE_BET' || rewardType === 'FREE_BET';
+  const unlocksBoosts = !grantsFreeBet && (promotion.type === 'ODDS_BOOST' || rewardType === 'ODDS_BOOST');
+  if (unlocksBoosts) {
+    creditAmount = new Prisma.Decimal(0);
+  }
+
+  // Rewards with a wagering requirement are bonus funds, which convert to
+  // cash once wagered
+  const wageringRequirement = Number(conditions.wageringRequirement ?? 0);
+  const isBonus = !grantsFreeBet && wageringRequirement > 0;
+
   // Execute claim in transaction
+  let freeBetId: string | undefined;
   await prisma.$transaction(async (tx) => {
     // Create claim record
-    await tx.promoClaim.create({
+    const claim = await tx.promoClaim.create({
       data: {
         userId,
         promotionId,
@@ -338,15 +357,29 @@ export async function claimPromotion(
       data: { claimCount: { increment: 1 } },
     });
 
+    if (grantsFreeBet && creditAmount.gt(0)) {
+      const freeBet = await issueFreeBet(tx, {
+        userId,
+        currency: rewardCurrency,
+        amount: creditAmount,
+        promotionId,
+        minOdds: conditions.minOdds as number | undefined,
+        sportSlugs: conditions.validSports as string[] | undefined,
+        marketTypes: conditions.validMarketTypes as string[] | undefined,
+        expiryDays: conditions.freeBetExpiryDays as number | undefined,
+      });
+      freeBetId = freeBet.id;
+    }
+
     // Credit to wallet based on reward type
-    if (creditAmount.gt(0) && (rewardType === 'FIXED' || rewardType === 'PERCENTAGE' || rewardType === 'FREE_BET')) {
+    if (creditAmount.gt(0) && !grantsFreeBet && (rewardType === 'FIXED' || rewardType === 'PERCENTAGE')) {
       const currency = await tx.currency.findUnique({
         where: { symbol: rewardCurrency },
         select: { id: true },
       });
 
       if (currency) {
-        const balanceField = rewardType === 'FREE_BET' ? 'bonusBalance' : 'balance';
+        const balanceField = isBonus ? 'bonusBalance' : 'balance';
 
         await tx.wallet.upsert({
           where: { userId_currencyId: { userId, currencyId: currency.id } },
@@ -380,31 +413,57 @@ export async function claimPromotion(
               },
             },
           });
+
+          if (isBonus) {
+            await grantBonus(tx, {
+              userId,
+              walletId: wallet.id,
+              amount: creditAmount,
+              source: 'PROMOTION',
+              sourceId: claim.id,
+              wageringMultiplier: Math.max(wageringRequirement, 1),
+              minOdds: conditions.minOdds as number | undefined,
+              contributions: conditions.contributions as Record<string, number> | undefined,
+              maxConversion: conditions.maxConversion != null
+                ? new Prisma.Decimal(String(conditions.maxConversion))
+                : null,
+              expiresAt: conditions.bonusExpiryDays
+                ? new Date(now.getTime() + (conditions.bonusExpiryDays as number) * 24 * 60 * 60 * 1000)
+                : undefined,
+            });
+          }
         }
       }
     }
 
     // Create reward record
-    await tx.reward.create({
-      data: {
-        userId,
-        type: 'TURBO', // Using closest RewardType — these are promo rewards
-        amount: creditAmount,
-        currency: rewardCurrency,
-        source: `PROMO:${promotionId}`,
-        status: 'CLAIMED',
-        claimedAt: now,
-      },
-    });
+    if (creditAmount.gt(0)) {
+      await tx.reward.create({
+        data: {
+          userId,
+          type: 'TURBO', // Using closest RewardType — these are promo rewards
+          amount: creditAmount,
+          currency: rewardCurrency,
+          source: `PROMO:${promotionId}`,
+          status: 'CLAIMED',
+          claimedAt: now,
+        },
+      });
+    }
   });
 
   // Notify user
+  const claimedMessage = grantsFreeBet
+    ? `You have received a ${creditAmount.toString()} ${rewardCurrency} free bet.`
+    : unlocksBoosts
+      ? 'Its boosted prices are now available in the sportsbook.'
+      : `${creditAmount.toString()} ${rewardCurrency} has been credited to your ${isBonus ? 'bonus balance' : 'account'}.`;
   await createNotification(
     userId,
     'PROMO_AVAILABLE',
     'Promotion Claimed!',
-    `You have successfully claimed "${promotion.title}". ${creditAmount.toString()} ${rewardCurrency} has been credited to your account.`,
-    { promotionId, amount: creditAmount.toString(), currency: rewardCurrency },
+    `You have successfully claimed "${promotion.title}". ${claimedMessage}`,
+    { promotionId, amount: creditAmount.toString(), currency: rewardCurrency, ...(freeBetId ? { freeBetId } : {}) },
   );
 
   return {
@@ -413,6 +472,7 @@ export async function claimPromotion(
     rewardValue: rewardValue.toString(),
     creditedAmount: creditAmount.toString(),
     currency: rewardCurrency,
+    ...(freeBetId ? { freeBetId } : {}),
   };
 }
 
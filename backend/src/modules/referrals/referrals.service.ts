@@ -3,6 +3,7 @@ import { prisma } from '../../lib/prisma.js';
 import { config } from '../../config/index.js';
 import { REFERRAL_REWARDS } from '../../config/constants.js';
 import { createNotification } from '../notifications/notification.service.js';
+import { claimRewardStep } from '../rewards/rewardSteps.js';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -228,12 +229,18 @@ export async function processReferral(
 }
 
 // ---------------------------------------------------------------------------
-// checkQualification - called when referred user wagers
+// checkQualification - called by the reward pipeline when a referred user wagers
 // ---------------------------------------------------------------------------
 
+/**
+ * Add a wager (in USD) to the referred user's progress and qualify the
+ * referral once it reaches the minimum. A `wagerKey` that was already
+ * counted is skipped.
+ */
 export async function checkQualification(
   referredUserId: string,
   additionalWagered: Prisma.Decimal,
+  wagerKey?: string,
 ): Promise<boolean> {
   // Find the referral record for this user
   const referral = await prisma.referral.findFirst({
@@ -245,23 +252,35 @@ export async function checkQualification(
   }
 
   // Update wagered amount
-  const newWagered = referral.referredWagered.add(additionalWagered);
-
-  await prisma.referral.update({
-    where: { id: referral.id },
-    data: { referredWagered: newWagered },
+  const updated = await prisma.$transaction(async (tx) => {
+    if (wagerKey && !(await claimRewardStep(tx, wagerKey, 'referral'))) {
+      return null;
+    }
+    return tx.referral.update({
+      where: { id: referral.id },
+      data: { referredWagered: { increment: additionalWagered } },
+    });
   });
 
+  if (!updated) {
+    return false;
+  }
+
   // Check if qualification threshold met
-  if (newWagered.gte(MIN_WAGER_QUALIFICATION)) {
-    await prisma.referral.update({
-      where: { id: referral.id },
+  if (updated.referredWagered.gte(MIN_WAGER_QUALIFICATION)) {
+    // Only one concurrent wager gets to qualify the referral
+    const qualified = await prisma.referral.updateMany({
+      where: { id: referral.id, status: 'PENDING' },
       data: {
         status: 'QUALIFIED',
         qualifiedAt: new Date(),
       },
     });
 
+    if (qualified.count === 0) {
+      return false;
+    }
+
     // Count total qualified referrals for the referrer
     const qualifiedCount = await prisma.referral.count({
       where: {
@@ -396,6 +415,95 @@ async function creditReferralReward(
   });
 }
 
+// ---------------------------------------------------------------------------
+// creditAffiliateCommission - called by the reward pipeline for every wager
+// ---------------------------------------------------------------------------
+
+/**
+ * Pay the player's affiliate their share of the house's expected revenue on
+ * a wager (wager in USD x house edge x commission percent), in USDT.
+ */
+export async function creditAffiliateCommission(
+  playerId: string,
+  wageredUsd: Prisma.Decimal,
+  houseEdge: Prisma.Decimal,
+  wagerKey: string,
+): Promise<void> {
+  const player = await prisma.affiliatePlayer.findUnique({
+    where: { userId: playerId },
+    include: { affiliate: true },
+  });
+
+  if (!player || !player.affiliate.isActive) {
+    return;
+  }
+
+  const commission = wageredUsd
+    .mul(houseEdge)
+    .mul(player.affiliate.commissionPercent)
+    .div(100)
+    .toDecimalPlaces(8, Prisma.Decimal.ROUND_DOWN);
+
+  await prisma.$transaction(async (tx) => {
+    if (!(await claimRewardStep(tx, wagerKey, 'affiliate'))) {
+      return;
+    }
+
+    await tx.affiliatePlayer.update({
+      where: { id: player.id },
+      data: {
+        totalWagered: { increment: wageredUsd },
+        totalCommission: { increment: commission },
+      },
+    });
+
+    if (commission.lte(0)) {
+      return;
+    }
+
+    await tx.affiliate.update({
+      where: { id: player.affiliateId },
+      data: { totalEarned: { increment: commission } },
+    });
+
+    const usdtCurrency = await tx.currency.findUnique({
+      where: { symbol: 'USDT' },
+      select: { id: true },
+    });
+
+    if (usdtCurrency) {
+      const wallet = await tx.wallet.upsert({
+        where: { userId_currencyId: { userId: player.affiliate.userId, currencyId: usdtCurrency.id } },
+        create: {
+          userId: player.affiliate.userId,
+          currencyId: usdtCurrency.id,
+          balance: commission,
+        },
+        update: {
+          balance: { increment: commission },
+        },
+        select: { id: true },
+      });
+
+      await tx.transaction.create({
+        data: {
+          walletId: wallet.id,
+          type: 'REFERRAL',
+          amount: commission,
+          status: 'COMPLETED',
+          metadata: {
+            source: 'AFFILIATE_COMMISSION',
+            playerId,
+            wagerKey,
+            wageredUsd: wageredUsd.toString(),
+            commissionPercent: player.affiliate.commissionPercent.toString(),
+          },
+        },
+      });
+    }
+  });
+}
+
 // ---------------------------------------------------------------------------
 // findReferrerByCode - lookup a user by referral code
 // ---------------------------------------------------------------------------
@@ -1,6 +1,8 @@
 import { Prisma } from '@prisma/client';
 import { prisma } from '../../lib/prisma.js';
+import { DEFAULT_BONUS_WAGERING_MULTIPLIER } from '../../config/constants.js';
 import { getTierConfig } from '../vip/vip.service.js';
+import { grantBonus } from '../promotions/bonus.service.js';
 import * as turboService from './turbo.service.js';
 
 // ---------------------------------------------------------------------------
@@ -293,6 +295,14 @@ export async function claimSlot(userId: string, slot: 1 | 2 | 3): Promise<ClaimR
             },
           },
         });
+
+        await grantBonus(tx, {
+          userId,
+          walletId: wallet.id,
+          amount: slotAmount,
+          source: 'CALENDAR',
+          wageringMultiplier: DEFAULT_BONUS_WAGERING_MULTIPLIER,
+        });
       }
     }
   });
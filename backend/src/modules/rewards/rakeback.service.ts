@@ -4,6 +4,7 @@ import { redis } from '../../lib/redis.js';
 import { getTierConfig } from '../vip/vip.service.js';
 import { checkAndUpgrade } from '../vip/vip.service.js';
 import * as turboService from './turbo.service.js';
+import { claimRewardStep } from './rewardSteps.js';
 import { RAKEBACK_WALLET_SPLIT } from '../../config/constants.js';
 
 // ---------------------------------------------------------------------------
@@ -37,14 +38,20 @@ interface ClaimResult {
 }
 
 // ---------------------------------------------------------------------------
-// calculateRakeback - called on every bet
+// calculateRakeback - called by the reward pipeline for every wager
 // ---------------------------------------------------------------------------
 
+/**
+ * Add a wager (in USD) to the user's totalWagered and pay its rakeback.
+ * With a `wagerKey`, a wager that was already processed is skipped and
+ * null is returned.
+ */
 export async function calculateRakeback(
   userId: string,
   betAmount: Prisma.Decimal,
   houseEdge: Prisma.Decimal,
-): Promise<RakebackResult> {
+  wagerKey?: string,
+): Promise<RakebackResult | null> {
   const user = await prisma.user.findUniqueOrThrow({
     where: { id: userId },
     select: { vipTier: true, totalWagered: true },
@@ -84,6 +91,10 @@ export async function calculateRakeback(
 
   // Execute all in a transaction
   const newTotalWagered = await prisma.$transaction(async (tx) => {
+    if (wagerKey && !(await claimRewardStep(tx, wagerKey, 'rakeback'))) {
+      return null;
+    }
+
     // 1. Update user's totalWagered
     const updatedUser = await tx.user.update({
       where: { id: userId },
@@ -144,6 +155,7 @@ export async function calculateRakeback(
                 houseEdge: houseEdge.toString(),
                 rakebackPercent: rakebackPercent.toString(),
                 turboBonus: turboBonus.toString(),
+                wagerKey: wagerKey ?? null,
               },
             },
           });
@@ -168,6 +180,10 @@ export async function calculateRakeback(
     return updatedUser.totalWagered;
   });
 
+  if (!newTotalWagered) {
+    return null;
+  }
+
   // 4. Check for VIP tier upgrade (outside transaction to avoid long locks)
   const tierUpgraded = await checkAndUpgrade(userId);
 
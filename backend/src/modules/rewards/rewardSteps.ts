@@ -0,0 +1,28 @@
+import type { Prisma } from '@prisma/client';
+
+// ---------------------------------------------------------------------------
+// Reward step markers
+// ---------------------------------------------------------------------------
+// Every money-moving step of the reward pipeline claims a (wager key, step)
+// marker inside its own transaction. A replayed job finds the marker and
+// skips the step, so it never pays twice.
+// ---------------------------------------------------------------------------
+
+export type RewardStep = 'rakeback' | 'referral' | 'affiliate' | 'bonus';
+
+/**
+ * Claim `step` for `key`. Returns false when it was already applied; the
+ * caller must then leave the transaction without moving money.
+ */
+export async function claimRewardStep(
+  tx: Prisma.TransactionClient,
+  key: string,
+  step: RewardStep,
+): Promise<boolean> {
+  // ON CONFLICT DO NOTHING: a duplicate must not abort the transaction
+  const { count } = await tx.rewardEvent.createMany({
+    data: [{ key, step }],
+    skipDuplicates: true,
+  });
+  return count === 1;
+}
@@ -0,0 +1,125 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma.js';
+import { logger } from '../../middleware/logger.js';
+import { SPORTS_HOUSE_EDGE } from '../../config/constants.js';
+import { rewardCalculationQueue } from '../../queues/index.js';
+import { calculateRakeback } from './rakeback.service.js';
+import { checkMilestone } from './levelUp.service.js';
+import { checkQualification, creditAffiliateCommission } from '../referrals/referrals.service.js';
+import { recordBonusWagering } from '../promotions/bonus.service.js';
+
+// ---------------------------------------------------------------------------
+// Reward pipeline
+// ---------------------------------------------------------------------------
+// Settled sports bets and casino rounds are queued as 'wager' jobs on the
+// reward-calculation queue. Each job adds the wager (in USD) to the user's
+// totalWagered, pays rakeback (with any TURBO boost), checks VIP and level-up
+// milestones, advances referral qualification, pays affiliate commission and
+// counts the stake toward bonus wagering.
+// Jobs are keyed by bet/round id and every paying step is claimed once per
+// key (see rewardSteps.ts), so replays never pay twice.
+// ---------------------------------------------------------------------------
+
+export interface WagerEvent {
+  /** Idempotency key: "bet-<id>", "round-<id>" or "provider-<id>" */
+  key: string;
+  userId: string;
+  currency: string;
+  /** Stake in `currency` */
+  amount: string;
+  /** House edge as a fraction (0.02 = 2%) */
+  houseEdge: string;
+  /** Casino game slug or provider game category (bonus contribution weights) */
+  game?: string;
+  /** Combined odds of a sports bet (bonus minimum odds) */
+  odds?: string;
+}
+
+/**
+ * Queue a wager for reward processing. The key doubles as the job id, so
+ * a wager queued twice while its job is still retained is only added once.
+ */
+export async function queueWager(event: WagerEvent): Promise<void> {
+  // BullMQ job ids may not contain ':' (provider round ids might)
+  await rewardCalculationQueue.add('wager', event, { jobId: `wager-${event.key.replace(/:/g, '_')}` });
+}
+
+/**
+ * Run one wager through the pipeline. Safe to replay.
+ */
+export async function processWager(event: WagerEvent): Promise<void> {
+  const currency = await prisma.currency.findUnique({
+    where: { symbol: event.currency },
+    select: { exchangeRateUsd: true },
+  });
+
+  if (!currency) {
+    logger.warn({ key: event.key, currency: event.currency }, '[reward-calculation] Unknown currency, wager skipped');
+    return;
+  }
+
+  const wageredUsd = new Prisma.Decimal(event.amount)
+    .mul(currency.exchangeRateUsd)
+    .toDecimalPlaces(8, Prisma.Decimal.ROUND_DOWN);
+
+  if (wageredUsd.lte(0)) {
+    return;
+  }
+
+  const houseEdge = new Prisma.Decimal(event.houseEdge);
+
+  // 1. totalWagered, rakeback (incl. TURBO) and VIP upgrade
+  const rakeback = await calculateRakeback(event.userId, wageredUsd, houseEdge, event.key);
+
+  // 2. Level-up milestones (one reward per milestone, safe to re-check)
+  await checkMilestone(event.userId);
+
+  // 3. Referral qualification
+  await checkQualification(event.userId, wageredUsd, event.key);
+
+  // 4. Affiliate commission
+  await creditAffiliateCommission(event.userId, wageredUsd, houseEdge, event.key);
+
+  // 5. Bonus wagering and conversion (in the wager's own currency)
+  await recordBonusWagering(
+    event.userId,
+    event.currency,
+    new Prisma.Decimal(event.amount),
+    { game: event.game, odds: event.odds },
+    event.key,
+  );
+
+  logger.info(
+    {
+      key: event.key,
+      userId: event.userId,
+      wageredUsd: wageredUsd.toString(),
+      rakeback: rakeback?.totalRakeback ?? 'already applied',
+    },
+    '[reward-calculation] Wager processed',
+  );
+}
+
+/**
+ * Queue a settled sports bet. Void, rejected and open bets are not wagers,
+ * and neither are free bets (no cash was staked).
+ */
+export async function queueSportsBetWager(betId: string): Promise<void> {
+  const bet = await prisma.bet.findUnique({
+    where: { id: betId },
+    select: { id: true, userId: true, stake: true, odds: true, currencySymbol: true, status: true, freeBetId: true },
+  });
+
+  if (!bet || bet.freeBetId || !['WON', 'LOST', 'CASHOUT'].includes(bet.status)) {
+    return;
+  }
+
+  await queueWager({
+    key: `bet-${bet.id}`,
+    userId: bet.userId,
+    currency: bet.currencySymbol,
+    amount: bet.stake.toString(),
+    houseEdge: String(SPORTS_HOUSE_EDGE),
+    odds: bet.odds.toString(),
+  });
+}
@@ -1,7 +1,12 @@
 import { Prisma } from '@prisma/client';
 import { prisma } from '../../lib/prisma.js';
-import { WELCOME_PACKAGE_MAX, WELCOME_PACKAGE_DAYS } from '../../config/constants.js';
+import {
+  WELCOME_PACKAGE_MAX,
+  WELCOME_PACKAGE_DAYS,
+  DEFAULT_BONUS_WAGERING_MULTIPLIER,
+} from '../../config/constants.js';
 import { createNotification } from '../notifications/notification.service.js';
+import { grantBonus } from '../promotions/bonus.service.js';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -238,6 +243,14 @@ export async function processDailyDrop(userId: string): Promise<DailyDropResult>
             },
           },
         });
+
+        await grantBonus(tx, {
+          userId,
+          walletId: wallet.id,
+          amount: actualDrop,
+          source: 'WELCOME_DAILY_DROP',
+          wageringMultiplier: DEFAULT_BONUS_WAGERING_MULTIPLIER,
+        });
       }
     }
 
@@ -1,6 +1,11 @@
 import { Prisma, type BetStatus, type BetLegStatus } from '@prisma/client';
 import { prisma } from '../../lib/prisma.js';
-import { rewardCalculationQueue } from '../../queues/index.js';
+import { queueSportsBetWager } from '../rewards/wager.service.js';
+import { bonusShareOf, creditStakeReturn } from '../promotions/bonus.service.js';
+import { settleSystemLines } from '../betting/system.service.js';
+import { betBuilderCorrelationFactor } from '../betting/betBuilder.service.js';
+import { recordSettledBet } from '../../services/riskEngine.js';
+import { reinstateFreeBet } from '../betting/freeBet.service.js';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -19,7 +24,11 @@ interface SettlementReport {
   totalLost: string;
   totalVoid: string;
   totalPayout: string;
+  /** Cash stakes only; free-bet stakes are reported separately */
   totalStake: string;
+  freeBetStake: string;
+  /** Part of totalPayout paid because of odds boosts */
+  totalBoostCost: string;
   grossProfit: string;
   dateFrom: string;
   dateTo: string;
@@ -34,6 +43,13 @@ interface SettlementReport {
  *
  * SINGLE: if WON -> payout = stake * odds. LOST -> payout = 0. VOID -> return stake. PUSH -> return stake.
  * PARLAY: all legs must be WON to win. Void legs reduce combined odds. Push = return stake for that leg proportion.
+ * BET_BUILDER: settled like a parlay, scaled by the correlation discount priced in at placement.
+ * SYSTEM: every line is settled as its own parlay at stakePerLine; payout is the sum of line returns.
+ *   WON when the return beats the total stake, VOID when it equals it, LOST otherwise (a LOST bet
+ *   can still return part of its stake, recorded as partialReturn on its WIN transaction).
+ *
+ * Free bets pay the return minus the stake; boosted bets record the extra
+ * payout over the unboosted prices as boostCost.
  */
 export async function settleBet(betId: string): Promise<SettlementResult> {
   const result = await prisma.$transaction(async (tx) => {
@@ -55,8 +71,10 @@ export async function settleBet(betId: string): Promise<SettlementResult> {
       },
     });
 
-    // Skip if already settled or cashed out
-    if (bet.status === 'WON' || bet.status === 'LOST' || bet.status === 'VOID' || bet.status === 'CASHOUT') {
+    // Skip if already settled, cashed out or rejected, and live bets still
+    // waiting out their acceptance delay (they are settled once accepted)
+    const skipStatuses: BetStatus[] = ['WON', 'LOST', 'VOID', 'CASHOUT', 'PENDING', 'REJECTED'];
+    if (skipStatuses.includes(bet.status)) {
       return {
         betId: bet.id,
         status: bet.status,
@@ -89,115 +107,28 @@ export async function settleBet(betId: string): Promise<SettlementResult> {
 
     // All legs settled - determine bet outcome
     const settledAt = new Date();
-    let betStatus: BetStatus;
-    let payout: Prisma.Decimal;
-
-    if (bet.type === 'SINGLE') {
-      const leg = bet.legs[0];
-      if (!leg) {
-        throw new Error('Single bet has no legs');
-      }
-
-      switch (leg.status) {
-        case 'WON':
-          betStatus = 'WON';
-          payout = bet.stake.mul(leg.oddsAtPlacement);
-          break;
-        case 'LOST':
-          betStatus = 'LOST';
-          payout = new Prisma.Decimal(0);
-          break;
-        case 'VOID':
-          betStatus = 'VOID';
-          payout = bet.stake; // Return stake
-          break;
-        case 'PUSH':
-          betStatus = 'VOID';
-          payout = bet.stake; // Return stake on push
-          break;
-        case 'HALF_WIN':
-          betStatus = 'WON';
-          // Half win: half the profit
-          const halfProfit = bet.stake.mul(leg.oddsAtPlacement).minus(bet.stake).div(2);
-          payout = bet.stake.add(halfProfit);
-          break;
-        case 'HALF_LOSE':
-          betStatus = 'LOST';
-          // Half lose: lose half the stake
-          payout = bet.stake.div(2);
-          break;
-        default:
-          betStatus = 'LOST';
-          payout = new Prisma.Decimal(0);
-      }
-    } else {
-      // PARLAY or SYSTEM
-      let allWon = true;
-      let anyLost = false;
-      let allVoidOrPush = true;
-      let combinedOdds = new Prisma.Decimal(1);
-      let voidCount = 0;
-
-      for (const leg of bet.legs) {
-        switch (leg.status) {
-          case 'WON':
-            allVoidOrPush = false;
-            combinedOdds = combinedOdds.mul(leg.oddsAtPlacement);
-            break;
-          case 'LOST':
-            allWon = false;
-            anyLost = true;
-            allVoidOrPush = false;
-            break;
-          case 'VOID':
-          case 'PUSH':
-            // Void legs are removed from parlay (odds = 1.0 for that leg)
-            allWon = false; // technically not all "won" but the bet isn't lost
-            voidCount++;
-            break;
-          case 'HALF_WIN':
-            allVoidOrPush = false;
-            // Half win: use average between 1.0 and full odds
-            const adjustedWinOdds = new Prisma.Decimal(1).add(
-              leg.oddsAtPlacement.minus(1).div(2),
-            );
-            combinedOdds = combinedOdds.mul(adjustedWinOdds);
-            break;
-          case 'HALF_LOSE':
-            allVoidOrPush = false;
-            // Half lose: use 0.5 as the effective multiplier for this leg
-            combinedOdds = combinedOdds.mul(new Prisma.Decimal('0.5'));
-            anyLost = true; // Still considered a loss leg
-            break;
-          default:
-            allWon = false;
-            anyLost = true;
-            allVoidOrPush = false;
-        }
-      }
+    const outcome = determineOutcome(bet);
+    const betStatus = outcome.betStatus;
+    let payout = outcome.payout;
+
+    // Boosted legs: what the boost added to the payout, priced at the odds
+    // the boosts replaced
+    let boostCost: Prisma.Decimal | null = null;
+    if (bet.legs.some((l) => l.originalOdds)) {
+      const base = determineOutcome({
+        ...bet,
+        legs: bet.legs.map((l) => ({ ...l, oddsAtPlacement: l.originalOdds ?? l.oddsAtPlacement })),
+      });
+      boostCost = Prisma.Decimal.max(payout.minus(base.payout), 0);
+    }
 
-      if (allVoidOrPush) {
-        // All legs void/push -> return stake
-        betStatus = 'VOID';
-        payout = bet.stake;
-      } else if (anyLost) {
-        // Any lost leg in parlay = entire parlay lost (except half-lose edge case)
-        const hasOnlyHalfLose = bet.legs.every(
-          (l) => l.status === 'WON' || l.status === 'VOID' || l.status === 'PUSH' || l.status === 'HALF_WIN' || l.status === 'HALF_LOSE',
-        );
-
-        if (hasOnlyHalfLose && !bet.legs.some((l) => l.status === 'LOST')) {
-          // No full losses, only half-loses mixed with wins
-          betStatus = 'WON';
-          payout = bet.stake.mul(combinedOdds);
-        } else {
-          betStatus = 'LOST';
-          payout = new Prisma.Decimal(0);
-        }
+    // Free bets: a win pays the profit only; a void bet gives the token back
+    if (bet.freeBetId) {
+      if (betStatus === 'VOID') {
+        await reinstateFreeBet(tx, bet.freeBetId);
+        payout = new Prisma.Decimal(0);
       } else {
-        // All non-void legs won
-        betStatus = 'WON';
-        payout = bet.stake.mul(combinedOdds);
+        payout = Prisma.Decimal.max(payout.minus(bet.stake), 0);
       }
     }
 
@@ -207,6 +138,7 @@ export async function settleBet(betId: string): Promise<SettlementResult> {
       data: {
         status: betStatus,
         actualWin: payout,
+        boostCost,
         settledAt,
         isCashoutAvailable: false,
       },
@@ -225,10 +157,8 @@ export async function settleBet(betId: string): Promise<SettlementResult> {
         });
 
         if (wallet) {
-          await tx.wallet.update({
-            where: { id: wallet.id },
-            data: { balance: { increment: payout } },
-          });
+          // The bonus-funded share of the stake wins back into bonus funds
+          const credited = await creditStakeReturn(tx, wallet.id, payout, bonusShareOf(bet.stake, bet.bonusStake));
 
           // Create WIN or VOID transaction
           const txType = betStatus === 'VOID' ? 'ADJUSTMENT' : 'WIN';
@@ -245,6 +175,12 @@ export async function settleBet(betId: string): Promise<SettlementResult> {
                 originalStake: bet.stake.toString(),
                 originalOdds: bet.odds.toString(),
                 settlementType: betStatus,
+                // A lost bet that still returned part of its stake (void lines, half-lose)
+                ...(betStatus === 'LOST' ? { partialReturn: true } : {}),
+                ...(bet.type === 'SYSTEM' ? { lineCount: bet.lineCount } : {}),
+                ...(bet.freeBetId ? { freeBetId: bet.freeBetId } : {}),
+                ...(boostCost?.gt(0) ? { boostCost: boostCost.toString() } : {}),
+                ...(credited.bonus.gt(0) ? { bonusAmount: credited.bonus.toString() } : {}),
               },
             },
           });
@@ -289,17 +225,173 @@ export async function settleBet(betId: string): Promise<SettlementResult> {
     };
   });
 
-  // Trigger async post-settlement tasks
-  await rewardCalculationQueue.add('bet-settled', {
-    betId: result.betId,
-    status: result.status,
-    actualWin: result.actualWin,
-    timestamp: new Date().toISOString(),
-  });
+  // Trigger async post-settlement tasks: rakeback, VIP, milestones, referrals
+  await queueSportsBetWager(result.betId);
+
+  // Fire-and-forget: risk profile update and pattern detection
+  void recordSettledBet(result.betId);
 
   return result;
 }
 
+// ---------------------------------------------------------------------------
+// Bet outcome
+// ---------------------------------------------------------------------------
+
+interface OutcomeBet {
+  type: string;
+  stake: Prisma.Decimal;
+  stakePerLine: Prisma.Decimal | null;
+  lineCount: number;
+  systemSizes: number[];
+  odds: Prisma.Decimal;
+  legs: Array<{ status: BetLegStatus; oddsAtPlacement: Prisma.Decimal }>;
+}
+
+/**
+ * Status and total return of a bet whose legs are all settled, at the
+ * legs' oddsAtPlacement.
+ */
+function determineOutcome(bet: OutcomeBet): { betStatus: BetStatus; payout: Prisma.Decimal } {
+  let betStatus: BetStatus;
+  let payout: Prisma.Decimal;
+
+  if (bet.type === 'SINGLE') {
+    const leg = bet.legs[0];
+    if (!leg) {
+      throw new Error('Single bet has no legs');
+    }
+
+    switch (leg.status) {
+      case 'WON':
+        betStatus = 'WON';
+        payout = bet.stake.mul(leg.oddsAtPlacement);
+        break;
+      case 'LOST':
+        betStatus = 'LOST';
+        payout = new Prisma.Decimal(0);
+        break;
+      case 'VOID':
+        betStatus = 'VOID';
+        payout = bet.stake; // Return stake
+        break;
+      case 'PUSH':
+        betStatus = 'VOID';
+        payout = bet.stake; // Return stake on push
+        break;
+      case 'HALF_WIN':
+        betStatus = 'WON';
+        // Half win: half the profit
+        const halfProfit = bet.stake.mul(leg.oddsAtPlacement).minus(bet.stake).div(2);
+        payout = bet.stake.add(halfProfit);
+        break;
+      case 'HALF_LOSE':
+        betStatus = 'LOST';
+        // Half lose: lose half the stake
+        payout = bet.stake.div(2);
+        break;
+      default:
+        betStatus = 'LOST';
+        payout = new Prisma.Decimal(0);
+    }
+  } else if (bet.type === 'SYSTEM') {
+    const stakePerLine = bet.stakePerLine ?? bet.stake.div(bet.lineCount);
+    const lines = settleSystemLines(bet.legs, bet.systemSizes, stakePerLine);
+
+    // Judged on the total return: more than the stake is a win, exactly the
+    // stake back is void, less is a loss even when some lines returned money
+    payout = lines.payout;
+    if (payout.gt(bet.stake)) {
+      betStatus = 'WON';
+    } else if (payout.eq(bet.stake)) {
+      betStatus = 'VOID';
+    } else {
+      betStatus = 'LOST';
+    }
+  } else {
+    // PARLAY / BET_BUILDER
+    let allWon = true;
+    let anyLost = false;
+    let allVoidOrPush = true;
+    let combinedOdds = new Prisma.Decimal(1);
+    let voidCount = 0;
+
+    for (const leg of bet.legs) {
+      switch (leg.status) {
+        case 'WON':
+          allVoidOrPush = false;
+          combinedOdds = combinedOdds.mul(leg.oddsAtPlacement);
+          break;
+        case 'LOST':
+          allWon = false;
+          anyLost = true;
+          allVoidOrPush = false;
+          break;
+        case 'VOID':
+        case 'PUSH':
+          // Void legs are removed from parlay (odds = 1.0 for that leg)
+          allWon = false; // technically not all "won" but the bet isn't lost
+          voidCount++;
+          break;
+        case 'HALF_WIN':
+          allVoidOrPush = false;
+          // Half win: use average between 1.0 and full odds
+          const adjustedWinOdds = new Prisma.Decimal(1).add(
+            leg.oddsAtPlacement.minus(1).div(2),
+          );
+          combinedOdds = combinedOdds.mul(adjustedWinOdds);
+          break;
+        case 'HALF_LOSE':
+          allVoidOrPush = false;
+          // Half lose: use 0.5 as the effective multiplier for this leg
+          combinedOdds = combinedOdds.mul(new Prisma.Decimal('0.5'));
+          anyLost = true; // Still considered a loss leg
+          break;
+        default:
+          allWon = false;
+          anyLost = true;
+          allVoidOrPush = false;
+      }
+    }
+
+    // BET_BUILDER legs are correlated: scale by the discount taken at
+    // placement (all legs won => exactly the accepted price), never paying
+    // less than the stake back on a winning builder.
+    if (bet.type === 'BET_BUILDER') {
+      combinedOdds = combinedOdds.mul(betBuilderCorrelationFactor(bet.odds, bet.legs));
+      if (!bet.legs.some((l) => l.status === 'HALF_LOSE')) {
+        combinedOdds = Prisma.Decimal.max(combinedOdds, 1);
+      }
+    }
+
+    if (allVoidOrPush) {
+      // All legs void/push -> return stake
+      betStatus = 'VOID';
+      payout = bet.stake;
+    } else if (anyLost) {
+      // Any lost leg in parlay = entire parlay lost (except half-lose edge case)
+      const hasOnlyHalfLose = bet.legs.every(
+        (l) => l.status === 'WON' || l.status === 'VOID' || l.status === 'PUSH' || l.status === 'HALF_WIN' || l.status === 'HALF_LOSE',
+      );
+
+      if (hasOnlyHalfLose && !bet.legs.some((l) => l.status === 'LOST')) {
+        // No full losses, only half-loses mixed with wins
+        betStatus = 'WON';
+        payout = bet.stake.mul(combinedOdds);
+      } else {
+        betStatus = 'LOST';
+        payout = new Prisma.Decimal(0);
+      }
+    } else {
+      // All non-void legs won
+      betStatus = 'WON';
+      payout = bet.stake.mul(combinedOdds);
+    }
+  }
+
+  return { betStatus, payout };
+}
+
 // ---------------------------------------------------------------------------
 // Settle all bets for a market
 // ---------------------------------------------------------------------------
@@ -448,6 +540,8 @@ export async function getSettlementReport(
       status: true,
       stake: true,
       actualWin: true,
+      freeBetId: true,
+      boostCost: true,
     },
   });
 
@@ -456,12 +550,20 @@ export async function getSettlementReport(
   let totalVoid = new Prisma.Decimal(0);
   let totalPayout = new Prisma.Decimal(0);
   let totalStake = new Prisma.Decimal(0);
+  let freeBetStake = new Prisma.Decimal(0);
+  let totalBoostCost = new Prisma.Decimal(0);
   let wonCount = 0;
   let lostCount = 0;
   let voidCount = 0;
 
   for (const bet of settledBets) {
-    totalStake = totalStake.add(bet.stake);
+    // Free bets stake nothing the house keeps or returns
+    const cashStake = bet.freeBetId ? new Prisma.Decimal(0) : bet.stake;
+    if (bet.freeBetId) {
+      freeBetStake = freeBetStake.add(bet.stake);
+    }
+    totalStake = totalStake.add(cashStake);
+    totalBoostCost = totalBoostCost.add(bet.boostCost ?? 0);
     const win = bet.actualWin ?? new Prisma.Decimal(0);
 
     switch (bet.status) {
@@ -472,12 +574,12 @@ export async function getSettlementReport(
         break;
       case 'LOST':
         lostCount++;
-        totalLost = totalLost.add(bet.stake);
+        totalLost = totalLost.add(cashStake);
         break;
       case 'VOID':
         voidCount++;
-        totalVoid = totalVoid.add(bet.stake);
-        totalPayout = totalPayout.add(bet.stake); // Stake returned
+        totalVoid = totalVoid.add(cashStake);
+        totalPayout = totalPayout.add(cashStake); // Stake returned
         break;
       case 'CASHOUT':
         totalPayout = totalPayout.add(win);
@@ -494,6 +596,8 @@ export async function getSettlementReport(
     totalVoid: totalVoid.toString(),
     totalPayout: totalPayout.toString(),
     totalStake: totalStake.toString(),
+    freeBetStake: freeBetStake.toString(),
+    totalBoostCost: totalBoostCost.toString(),
     grossProfit: grossProfit.toString(),
     dateFrom: from.toISOString(),
     dateTo: to.toISOString(),
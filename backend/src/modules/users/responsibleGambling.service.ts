@@ -0,0 +1,360 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const LIMIT_PERIODS = ['daily', 'weekly', 'monthly'] as const;
+
+export type LimitPeriod = (typeof LIMIT_PERIODS)[number];
+export type LimitKind = 'deposit' | 'loss';
+
+/** Rolling window length of each limit period. */
+const PERIOD_MS: Record<LimitPeriod, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+  monthly: 30 * 24 * 60 * 60 * 1000,
+};
+
+/** Raising or removing a limit only takes effect after this delay. */
+export const LIMIT_INCREASE_DELAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Limits are stored in USD as `{ daily?, weekly?, monthly? }`. */
+export type LimitSet = Partial<Record<LimitPeriod, number>>;
+
+export interface PendingLimitChange {
+  kind: LimitKind;
+  period: LimitPeriod;
+  /** New limit, or null when the limit is being removed. */
+  value: number | null;
+  effectiveAt: string;
+}
+
+export interface LimitBreach {
+  code: 'LOSS_LIMIT_EXCEEDED' | 'DEPOSIT_LIMIT_EXCEEDED';
+  message: string;
+  period: LimitPeriod;
+  limit: number;
+  used: string;
+}
+
+interface EffectiveLimits {
+  depositLimit: LimitSet;
+  lossLimit: LimitSet;
+  pending: PendingLimitChange[];
+}
+
+// ---------------------------------------------------------------------------
+// Limits
+// ---------------------------------------------------------------------------
+
+function toLimitSet(value: Prisma.JsonValue | null): LimitSet {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const limits: LimitSet = {};
+  for (const period of LIMIT_PERIODS) {
+    const v = (value as Record<string, unknown>)[period];
+    if (typeof v === 'number') limits[period] = v;
+  }
+  return limits;
+}
+
+function toPendingChanges(value: Prisma.JsonValue | null): PendingLimitChange[] {
+  return Array.isArray(value) ? (value as unknown as PendingLimitChange[]) : [];
+}
+
+/**
+ * Current deposit and loss limits for a user. Pending increases whose cooling
+ * delay has passed are promoted into the live limits (and persisted) first.
+ */
+export async function getEffectiveLimits(
+  userId: string,
+  db: Prisma.TransactionClient = prisma,
+): Promise<EffectiveLimits> {
+  const user = await db.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { depositLimit: true, lossLimit: true, pendingLimitChanges: true },
+  });
+
+  const depositLimit = toLimitSet(user.depositLimit);
+  const lossLimit = toLimitSet(user.lossLimit);
+  const pending = toPendingChanges(user.pendingLimitChanges);
+
+  const now = Date.now();
+  const due = pending.filter((c) => new Date(c.effectiveAt).getTime() <= now);
+  if (due.length === 0) {
+    return { depositLimit, lossLimit, pending };
+  }
+
+  for (const change of due) {
+    const target = change.kind === 'deposit' ? depositLimit : lossLimit;
+    if (change.value === null) {
+      delete target[change.period];
+    } else {
+      target[change.period] = change.value;
+    }
+  }
+  const remaining = pending.filter((c) => !due.includes(c));
+
+  await db.user.update({
+    where: { id: userId },
+    data: {
+      depositLimit,
+      lossLimit,
+      pendingLimitChanges: remaining.length > 0
+        ? (remaining as unknown as Prisma.InputJsonValue)
+        : Prisma.DbNull,
+    },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'RESPONSIBLE_GAMBLING_LIMIT_APPLIED',
+      resource: 'user',
+      resourceId: userId,
+      details: { applied: due as unknown as Prisma.InputJsonValue },
+    },
+  });
+
+  return { depositLimit, lossLimit, pending: remaining };
+}
+
+/**
+ * Split requested limit changes into those applied now and those that must
+ * wait out the cooling delay. Setting a limit where there was none, or
+ * lowering one, is immediate; raising or removing (null) one is deferred.
+ * Any earlier pending change for the same limit is replaced.
+ */
+export function planLimitChanges(
+  kind: LimitKind,
+  current: LimitSet,
+  requested: Partial<Record<LimitPeriod, number | null>>,
+  pending: PendingLimitChange[],
+): { limits: LimitSet; pending: PendingLimitChange[]; deferred: PendingLimitChange[] } {
+  const limits = { ...current };
+  let nextPending = [...pending];
+  const deferred: PendingLimitChange[] = [];
+
+  for (const period of LIMIT_PERIODS) {
+    const value = requested[period];
+    if (value === undefined) continue;
+
+    nextPending = nextPending.filter((c) => !(c.kind === kind && c.period === period));
+
+    const currentValue = current[period];
+    const isLooser = currentValue !== undefined && (value === null || value > currentValue);
+
+    if (isLooser) {
+      const change: PendingLimitChange = {
+        kind,
+        period,
+        value,
+        effectiveAt: new Date(Date.now() + LIMIT_INCREASE_DELAY_MS).toISOString(),
+      };
+      nextPending.push(change);
+      deferred.push(change);
+    } else if (value === null) {
+      delete limits[period];
+    } else {
+      limits[period] = value;
+    }
+  }
+
+  return { limits, pending: nextPending, deferred };
+}
+
+// ---------------------------------------------------------------------------
+// Usage (USD, rolling windows)
+// ---------------------------------------------------------------------------
+
+async function getUserWallets(userId: string, db: Prisma.TransactionClient = prisma) {
+  return db.wallet.findMany({
+    where: { userId },
+    select: { id: true, currency: { select: { exchangeRateUsd: true } } },
+  });
+}
+
+/**
+ * Completed deposits since `since`, in USD.
+ */
+export async function getDepositTotalUsd(userId: string, since: Date): Promise<Prisma.Decimal> {
+  const wallets = await getUserWallets(userId);
+  if (wallets.length === 0) return new Prisma.Decimal(0);
+  const rates = new Map(wallets.map((w) => [w.id, w.currency.exchangeRateUsd]));
+
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      walletId: { in: wallets.map((w) => w.id) },
+      type: 'DEPOSIT',
+      status: 'COMPLETED',
+      createdAt: { gte: since },
+    },
+    select: { walletId: true, amount: true },
+  });
+
+  return transactions.reduce(
+    (acc, t) => acc.add(t.amount.abs().mul(rates.get(t.walletId) ?? 0)),
+    new Prisma.Decimal(0),
+  );
+}
+
+/**
+ * Net gaming loss since `since`, in USD, across sportsbook and casino:
+ * stakes (BET) minus returns (WIN, and bet refunds recorded as ADJUSTMENT
+ * with a betId). Negative when the user is up over the window.
+ */
+export async function getNetLossUsd(
+  userId: string,
+  since: Date,
+  db: Prisma.TransactionClient = prisma,
+): Promise<Prisma.Decimal> {
+  const wallets = await getUserWallets(userId, db);
+  if (wallets.length === 0) return new Prisma.Decimal(0);
+  const rates = new Map(wallets.map((w) => [w.id, w.currency.exchangeRateUsd]));
+
+  const transactions = await db.transaction.findMany({
+    where: {
+      walletId: { in: wallets.map((w) => w.id) },
+      type: { in: ['BET', 'WIN', 'ADJUSTMENT'] },
+      status: 'COMPLETED',
+      createdAt: { gte: since },
+    },
+    select: { walletId: true, type: true, amount: true, metadata: true },
+  });
+
+  let netLoss = new Prisma.Decimal(0);
+  for (const t of transactions) {
+    const usd = t.amount.abs().mul(rates.get(t.walletId) ?? 0);
+    if (t.type === 'BET') {
+      // Sportsbook records stakes as negative amounts, casino as positive
+      netLoss = netLoss.add(usd);
+    } else if (t.type === 'WIN') {
+      netLoss = netLoss.minus(usd);
+    } else {
+      const metadata = t.metadata as Record<string, unknown> | null;
+      if (metadata?.betId) netLoss = netLoss.minus(usd);
+    }
+  }
+
+  return netLoss;
+}
+
+async function toUsd(
+  currency: string,
+  amount: Prisma.Decimal,
+  db: Prisma.TransactionClient = prisma,
+): Promise<Prisma.Decimal> {
+  const record = await db.currency.findUnique({
+    where: { symbol: currency.toUpperCase() },
+    select: { exchangeRateUsd: true },
+  });
+  return amount.mul(record?.exchangeRateUsd ?? 0);
+}
+
+// ---------------------------------------------------------------------------
+// Enforcement
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether staking `amount` of `currency` could take the user past one of their
+ * loss limits. The whole stake is treated as a potential loss. Returns the
+ * first breached limit, or null when the wager is allowed.
+ *
+ * To enforce the limit, pass the transaction that takes the stake as `db`,
+ * after locking the user's row in it: concurrent wagers are then checked one
+ * at a time, each seeing the stakes committed before it.
+ */
+export async function checkLossLimit(
+  userId: string,
+  currency: string,
+  amount: Prisma.Decimal,
+  db: Prisma.TransactionClient = prisma,
+): Promise<LimitBreach | null> {
+  const { lossLimit } = await getEffectiveLimits(userId, db);
+  if (Object.keys(lossLimit).length === 0) return null;
+
+  const amountUsd = await toUsd(currency, amount, db);
+
+  for (const period of LIMIT_PERIODS) {
+    const limit = lossLimit[period];
+    if (limit === undefined) continue;
+
+    const used = await getNetLossUsd(userId, new Date(Date.now() - PERIOD_MS[period]), db);
+    if (Prisma.Decimal.max(used, 0).add(amountUsd).gt(limit)) {
+      return {
+        code: 'LOSS_LIMIT_EXCEEDED',
+        message: `This wager would exceed your ${period} loss limit of $${limit} USD (net loss so far: $${Prisma.Decimal.max(used, 0).toFixed(2)}).`,
+        period,
+        limit,
+        used: used.toFixed(2),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether crediting a deposit of `amount` `currency` would take the user past
+ * one of their deposit limits. Returns the first breached limit, or null.
+ */
+export async function checkDepositLimit(
+  userId: string,
+  currency: string,
+  amount: Prisma.Decimal,
+): Promise<LimitBreach | null> {
+  const { depositLimit } = await getEffectiveLimits(userId);
+  if (Object.keys(depositLimit).length === 0) return null;
+
+  const amountUsd = await toUsd(currency, amount);
+
+  for (const period of LIMIT_PERIODS) {
+    const limit = depositLimit[period];
+    if (limit === undefined) continue;
+
+    const used = await getDepositTotalUsd(userId, new Date(Date.now() - PERIOD_MS[period]));
+    if (used.add(amountUsd).gt(limit)) {
+      return {
+        code: 'DEPOSIT_LIMIT_EXCEEDED',
+        message: `This deposit would exceed your ${period} deposit limit of $${limit} USD (deposited so far: $${used.toFixed(2)}).`,
+        period,
+        limit,
+        used: used.toFixed(2),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Limits, pending changes and current usage per period, for the user's
+ * responsible gambling page.
+ */
+export async function getLimitStatus(userId: string) {
+  const { depositLimit, lossLimit, pending } = await getEffectiveLimits(userId);
+
+  const usage = await Promise.all(
+    LIMIT_PERIODS.map(async (period) => {
+      const since = new Date(Date.now() - PERIOD_MS[period]);
+      const [deposited, netLoss] = await Promise.all([
+        getDepositTotalUsd(userId, since),
+        getNetLossUsd(userId, since),
+      ]);
+      return {
+        period,
+        depositLimit: depositLimit[period] ?? null,
+        deposited: deposited.toFixed(2),
+        lossLimit: lossLimit[period] ?? null,
+        netLoss: Prisma.Decimal.max(netLoss, 0).toFixed(2),
+      };
+    }),
+  );
+
+  return { depositLimit, lossLimit, pendingChanges: pending, usage };
+}
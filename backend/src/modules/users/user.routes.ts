@@ -30,6 +30,7 @@ import {
   type AddNoteInput,
 } from './user.schemas.js';
 import * as userService from './user.service.js';
+import * as responsibleGamblingService from './responsibleGambling.service.js';
 
 // ---------------------------------------------------------------------------
 // User routes — /api/v1/users
@@ -166,6 +167,19 @@ export async function userRoutes(fastify: FastifyInstance): Promise<void> {
     },
   );
 
+  // ─── GET /api/v1/users/responsible-gambling ───────────────────────────────
+  fastify.get(
+    '/responsible-gambling',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const result = await responsibleGamblingService.getLimitStatus(request.user!.id);
+
+      return reply.status(200).send({
+        success: true,
+        data: result,
+      });
+    },
+  );
+
   // ─── PUT /api/v1/users/responsible-gambling ───────────────────────────────
   fastify.put(
     '/responsible-gambling',
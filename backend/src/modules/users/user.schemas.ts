@@ -98,18 +98,20 @@ export type ActivityLogQuery = z.infer<typeof activityLogQuerySchema>;
 // ---------------------------------------------------------------------------
 
 export const responsibleGamblingSchema = z.object({
+  // USD per rolling period; null removes the limit (after the cooling delay)
   depositLimit: z
     .object({
-      daily: z.number().min(0).optional(),
-      weekly: z.number().min(0).optional(),
-      monthly: z.number().min(0).optional(),
+      daily: z.number().min(0).nullable().optional(),
+      weekly: z.number().min(0).nullable().optional(),
+      monthly: z.number().min(0).nullable().optional(),
     })
     .optional(),
+  // USD per rolling period; null removes the limit (after the cooling delay)
   lossLimit: z
     .object({
-      daily: z.number().min(0).optional(),
-      weekly: z.number().min(0).optional(),
-      monthly: z.number().min(0).optional(),
+      daily: z.number().min(0).nullable().optional(),
+      weekly: z.number().min(0).nullable().optional(),
+      monthly: z.number().min(0).nullable().optional(),
     })
     .optional(),
   sessionTimeout: z
@@ -3,14 +3,15 @@ import { Prisma } from '@prisma/client';
 import type { VipTier, KycLevel } from '@prisma/client';
 import { prisma } from '../../lib/prisma.js';
 import { redis } from '../../lib/redis.js';
+import { disconnectSessionSockets } from '../../lib/socket.js';
 import { notifyVipLevelUp } from '../notifications/notification.service.js';
+import { getEffectiveLimits, planLimitChanges, type LimitPeriod } from './responsibleGambling.service.js';
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
 const BCRYPT_ROUNDS = 12;
-const PENDING_LIMIT_TTL = 24 * 60 * 60; // 24 hours in seconds
 
 // ---------------------------------------------------------------------------
 // getProfile
@@ -254,6 +255,7 @@ export async function changePassword(
     },
     data: { isRevoked: true },
   });
+  disconnectSessionSockets(userId);
 
   // Audit log
   await prisma.auditLog.create({
@@ -313,20 +315,15 @@ export async function getActivityLog(userId: string, page: number, limit: number
 export async function setResponsibleGambling(
   userId: string,
   settings: {
-    depositLimit?: { daily?: number; weekly?: number; monthly?: number };
-    lossLimit?: { daily?: number; weekly?: number; monthly?: number };
+    depositLimit?: Partial<Record<LimitPeriod, number | null>>;
+    lossLimit?: Partial<Record<LimitPeriod, number | null>>;
     sessionTimeout?: number | null;
     realityCheckInterval?: number | null;
   },
 ) {
   const user = await prisma.user.findUnique({
     where: { id: userId },
-    select: {
-      depositLimit: true,
-      lossLimit: true,
-      sessionTimeout: true,
-      realityCheckInterval: true,
-    },
+    select: { id: true },
   });
 
   if (!user) {
@@ -336,52 +333,42 @@ export async function setResponsibleGambling(
   const updateData: Prisma.UserUpdateInput = {};
   const pendingChanges: string[] = [];
 
-  // Handle deposit limits - increases take 24h, decreases are instant
-  if (settings.depositLimit) {
-    const currentLimits = (user.depositLimit as Record<string, number> | null) ?? {};
-    const newLimits = { ...currentLimits };
-    const pendingLimits: Record<string, number> = {};
-
-    for (const [period, value] of Object.entries(settings.depositLimit)) {
-      if (value === undefined) continue;
-      const currentValue = currentLimits[period] ?? 0;
-
-      if (value > currentValue && currentValue > 0) {
-        // Increase - schedule for 24h from now
-        pendingLimits[period] = value;
-        pendingChanges.push(`Deposit limit ${period}: increase to ${value} will take effect in 24 hours`);
+  // Deposit / loss limits - decreases are instant, increases and removals
+  // wait out the cooling delay (see responsibleGambling.service)
+  if (settings.depositLimit || settings.lossLimit) {
+    const current = await getEffectiveLimits(userId);
+    let pending = current.pending;
+
+    for (const kind of ['deposit', 'loss'] as const) {
+      const requested = kind === 'deposit' ? settings.depositLimit : settings.lossLimit;
+      if (!requested) continue;
+
+      const plan = planLimitChanges(
+        kind,
+        kind === 'deposit' ? current.depositLimit : current.lossLimit,
+        requested,
+        pending,
+      );
+      pending = plan.pending;
+
+      if (kind === 'deposit') {
+        updateData.depositLimit = plan.limits;
       } else {
-        // Decrease or first-time set - instant
-        newLimits[period] = value;
+        updateData.lossLimit = plan.limits;
       }
-    }
-
-    updateData.depositLimit = newLimits;
-
-    // Store pending increases in Redis with 24h TTL
-    if (Object.keys(pendingLimits).length > 0) {
-      const pendingKey = `user:${userId}:pending_deposit_limit`;
-      const existingPending = await redis.get(pendingKey);
-      const merged = {
-        ...(existingPending ? JSON.parse(existingPending) : {}),
-        ...pendingLimits,
-      };
-      await redis.set(pendingKey, JSON.stringify(merged), 'EX', PENDING_LIMIT_TTL);
-    }
-  }
-
-  // Handle loss limits - always instant
-  if (settings.lossLimit) {
-    const currentLimits = (user.lossLimit as Record<string, number> | null) ?? {};
-    const newLimits = { ...currentLimits };
 
-    for (const [period, value] of Object.entries(settings.lossLimit)) {
-      if (value !== undefined) {
-        newLimits[period] = value;
+      for (const change of plan.deferred) {
+        pendingChanges.push(
+          change.value === null
+            ? `${kind === 'deposit' ? 'Deposit' : 'Loss'} limit ${change.period}: removal will take effect at ${change.effectiveAt}`
+            : `${kind === 'deposit' ? 'Deposit' : 'Loss'} limit ${change.period}: increase to ${change.value} will take effect at ${change.effectiveAt}`,
+        );
       }
     }
 
-    updateData.lossLimit = newLimits;
+    updateData.pendingLimitChanges = pending.length > 0
+      ? (pending as unknown as Prisma.InputJsonValue)
+      : Prisma.DbNull;
   }
 
   // Session timeout
@@ -399,6 +386,7 @@ export async function setResponsibleGambling(
     select: {
       depositLimit: true,
       lossLimit: true,
+      pendingLimitChanges: true,
       sessionTimeout: true,
       realityCheckInterval: true,
     },
@@ -546,6 +534,7 @@ export async function activateSelfExclusion(
     where: { userId, isRevoked: false },
     data: { isRevoked: true },
   });
+  disconnectSessionSockets(userId);
 
   // Audit log
   await prisma.auditLog.create({
@@ -838,6 +827,7 @@ export async function adminBanUser(userId: string, adminId: string, reason: stri
     where: { userId, isRevoked: false },
     data: { isRevoked: true },
   });
+  disconnectSessionSockets(userId);
 
   // Audit log
   await prisma.auditLog.create({
@@ -1,6 +1,7 @@
 import { Prisma } from '@prisma/client';
 import { prisma } from '../../lib/prisma.js';
 import { redis } from '../../lib/redis.js';
+import { checkDepositLimit, type LimitBreach } from '../users/responsibleGambling.service.js';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -26,9 +27,13 @@ interface DepositResult {
 /**
  * Process an incoming deposit detected on-chain (or via webhook).
  *
- * 1. Look up the wallet by deposit address (cached in Redis or DB lookup).
+ * 1. Look up the wallet by deposit address (HD-derived address, Redis cache
+ *    or the wallet's current address).
  * 2. Create or update the transaction with confirmation count.
  * 3. When confirmations reach the required threshold, credit the balance.
+ *
+ * Safe to call repeatedly and concurrently for the same deposit: there is one
+ * row per wallet, txHash and type (unique index), and it is credited once.
  */
 export async function processDeposit(
   walletAddress: string,
@@ -39,8 +44,13 @@ export async function processDeposit(
   const depositAmount = new Prisma.Decimal(amount);
 
   // 1. Resolve wallet from address
-  //    First check Redis cache, then fallback to DB
-  let walletId = await redis.get(`deposit_addr:${walletAddress}`);
+  //    HD-derived addresses also pin the network they were issued for
+  const derived = await prisma.depositAddress.findUnique({
+    where: { address: walletAddress },
+    select: { walletId: true, networkId: true },
+  });
+
+  let walletId = derived?.walletId ?? (await redis.get(`deposit_addr:${walletAddress}`));
 
   if (!walletId) {
     const wallet = await prisma.wallet.findFirst({
@@ -78,8 +88,9 @@ export async function processDeposit(
   }
 
   // Determine required confirmations from the network
-  const network = wallet.networkId
-    ? wallet.currency.networks.find((n) => n.id === wallet.networkId)
+  const networkId = derived?.networkId ?? wallet.networkId;
+  const network = networkId
+    ? wallet.currency.networks.find((n) => n.id === networkId)
     : wallet.currency.networks[0];
 
   const requiredConfirmations = network?.confirmations ?? 1;
@@ -111,12 +122,57 @@ export async function processDeposit(
       };
     }
 
+    // Confirmed, but crediting it would breach the user's deposit limit:
+    // hold the funds uncredited until the limit allows it or support steps in
+    const breach = confirmations >= requiredConfirmations
+      ? await checkDepositLimit(wallet.userId, wallet.currency.symbol, depositAmount)
+      : null;
+    if (breach) {
+      const heldTx = await holdDeposit(existing.id, wallet.userId, confirmations, existing.metadata, breach, {
+        amount: depositAmount.toFixed(wallet.currency.decimals),
+        currency: wallet.currency.symbol,
+        txHash,
+      });
+
+      return {
+        id: heldTx.id,
+        walletId: wallet.id,
+        amount: depositAmount.toFixed(wallet.currency.decimals),
+        currency: wallet.currency.symbol,
+        status: heldTx.status,
+        txHash,
+        confirmations,
+        requiredConfirmations,
+        credited: false,
+        createdAt: heldTx.createdAt.toISOString(),
+      };
+    }
+
+    // Held earlier and now within the limit: credit it once, racing the release job
+    if (existing.status === 'PENDING' && confirmations >= requiredConfirmations) {
+      const credited = await creditHeldDeposit(existing.id);
+      const current = credited ? null : await prisma.transaction.findUnique({ where: { id: existing.id } });
+      return {
+        id: existing.id,
+        walletId: wallet.id,
+        amount: depositAmount.toFixed(wallet.currency.decimals),
+        currency: wallet.currency.symbol,
+        status: credited ? 'COMPLETED' : current?.status ?? existing.status,
+        txHash,
+        confirmations,
+        requiredConfirmations,
+        credited: credited || current?.status === 'COMPLETED',
+        createdAt: existing.createdAt.toISOString(),
+      };
+    }
+
     // Update confirmation count
     if (confirmations >= requiredConfirmations) {
-      // Credit the balance atomically
+      // Credit the balance atomically, once: only the call that moves the
+      // deposit out of its current status credits it
       const result = await prisma.$transaction(async (tx) => {
-        const updatedTx = await tx.transaction.update({
-          where: { id: existing.id },
+        const claimed = await tx.transaction.updateMany({
+          where: { id: existing.id, status: existing.status },
           data: {
             confirmations,
             status: 'COMPLETED',
@@ -129,6 +185,7 @@ export async function processDeposit(
             },
           },
         });
+        if (claimed.count === 0) return null;
 
         await tx.wallet.update({
           where: { id: wallet.id },
@@ -143,7 +200,7 @@ export async function processDeposit(
             title: 'Deposit Confirmed',
             message: `Your deposit of ${depositAmount.toFixed(wallet.currency.decimals)} ${wallet.currency.symbol} has been confirmed.`,
             data: {
-              transactionId: updatedTx.id,
+              transactionId: existing.id,
               amount: depositAmount.toString(),
               currency: wallet.currency.symbol,
               txHash,
@@ -151,9 +208,14 @@ export async function processDeposit(
           },
         });
 
-        return updatedTx;
+        return existing;
       });
 
+      // A concurrent call moved it first: report the deposit as it is now
+      if (!result) {
+        return processDeposit(walletAddress, amount, txHash, confirmations);
+      }
+
       return {
         id: result.id,
         walletId: wallet.id,
@@ -191,8 +253,11 @@ export async function processDeposit(
     };
   }
 
-  // 4. New deposit: create transaction
-  const isConfirmed = confirmations >= requiredConfirmations;
+  // 4. New deposit: create transaction (held uncredited if it breaches a deposit limit)
+  const breach = confirmations >= requiredConfirmations
+    ? await checkDepositLimit(wallet.userId, wallet.currency.symbol, depositAmount)
+    : null;
+  const isConfirmed = confirmations >= requiredConfirmations && !breach;
 
   const result = await prisma.$transaction(async (tx) => {
     const newTx = await tx.transaction.create({
@@ -203,17 +268,36 @@ export async function processDeposit(
         fee: new Prisma.Decimal(0),
         txHash,
         fromAddress: walletAddress,
-        networkId: wallet.networkId,
-        status: isConfirmed ? 'COMPLETED' : 'CONFIRMING',
+        networkId,
+        status: isConfirmed ? 'COMPLETED' : breach ? 'PENDING' : 'CONFIRMING',
         confirmations,
         metadata: {
           detectedAt: new Date().toISOString(),
           requiredConfirmations,
           networkName: network?.networkName ?? 'unknown',
+          ...(breach ? { heldReason: breach.code, heldMessage: breach.message } : {}),
         },
       },
     });
 
+    if (breach) {
+      await tx.notification.create({
+        data: {
+          userId: wallet.userId,
+          type: 'SYSTEM',
+          title: 'Deposit On Hold',
+          message: `Your deposit of ${depositAmount.toFixed(wallet.currency.decimals)} ${wallet.currency.symbol} has not been credited. ${breach.message}`,
+          data: {
+            transactionId: newTx.id,
+            amount: depositAmount.toString(),
+            currency: wallet.currency.symbol,
+            txHash,
+            code: breach.code,
+          },
+        },
+      });
+    }
+
     // Credit balance immediately if confirmed
     if (isConfirmed) {
       await tx.wallet.update({
@@ -239,14 +323,23 @@ export async function processDeposit(
     }
 
     return newTx;
+  }).catch((err) => {
+    // Already recorded by a concurrent call (unique per wallet, txHash and type)
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') return null;
+    throw err;
   });
 
+  // Carry on from the recorded deposit, which is credited at most once
+  if (!result) {
+    return processDeposit(walletAddress, amount, txHash, confirmations);
+  }
+
   return {
     id: result.id,
     walletId: wallet.id,
     amount: depositAmount.toFixed(wallet.currency.decimals),
     currency: wallet.currency.symbol,
-    status: isConfirmed ? 'COMPLETED' : 'CONFIRMING',
+    status: isConfirmed ? 'COMPLETED' : breach ? 'PENDING' : 'CONFIRMING',
     txHash,
     confirmations,
     requiredConfirmations,
@@ -255,6 +348,140 @@ export async function processDeposit(
   };
 }
 
+/**
+ * Keep a confirmed deposit uncredited because it would breach the user's
+ * deposit limit. The user is notified the first time it is held; the
+ * held-deposit release job credits it once the limit allows, or an admin
+ * releases it (creditHeldDeposit).
+ */
+async function holdDeposit(
+  transactionId: string,
+  userId: string,
+  confirmations: number,
+  metadata: Prisma.JsonValue,
+  breach: LimitBreach,
+  deposit: { amount: string; currency: string; txHash: string },
+) {
+  const existingMetadata =
+    typeof metadata === 'object' && metadata !== null && !Array.isArray(metadata) ? metadata : {};
+  const alreadyHeld = 'heldReason' in existingMetadata;
+
+  return prisma.$transaction(async (tx) => {
+    const heldTx = await tx.transaction.update({
+      where: { id: transactionId },
+      data: {
+        confirmations,
+        status: 'PENDING',
+        metadata: {
+          ...existingMetadata,
+          heldReason: breach.code,
+          heldMessage: breach.message,
+        },
+      },
+    });
+
+    if (!alreadyHeld) {
+      await tx.notification.create({
+        data: {
+          userId,
+          type: 'SYSTEM',
+          title: 'Deposit On Hold',
+          message: `Your deposit of ${deposit.amount} ${deposit.currency} has not been credited. ${breach.message}`,
+          data: {
+            transactionId,
+            amount: deposit.amount,
+            currency: deposit.currency,
+            txHash: deposit.txHash,
+            code: breach.code,
+          },
+        },
+      });
+    }
+
+    return heldTx;
+  });
+}
+
+/**
+ * Credit a deposit held by holdDeposit. The PENDING -> COMPLETED update is
+ * status-guarded so the release job and an admin can never both credit it.
+ * The row is re-stamped with the credit time so it counts toward the
+ * deposit-limit windows it lands in, not the ones it was held in.
+ * Returns false when the deposit was no longer held.
+ */
+export async function creditHeldDeposit(transactionId: string, releasedBy?: string): Promise<boolean> {
+  const held = await prisma.transaction.findUnique({
+    where: { id: transactionId },
+    include: { wallet: { select: { id: true, userId: true, currency: { select: { symbol: true, decimals: true } } } } },
+  });
+  if (!held || held.type !== 'DEPOSIT' || held.status !== 'PENDING') return false;
+
+  const existingMetadata =
+    typeof held.metadata === 'object' && held.metadata !== null && !Array.isArray(held.metadata) ? held.metadata : {};
+  const now = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.transaction.updateMany({
+      where: { id: held.id, status: 'PENDING' },
+      data: {
+        status: 'COMPLETED',
+        createdAt: now,
+        metadata: {
+          ...existingMetadata,
+          completedAt: now.toISOString(),
+          releasedAt: now.toISOString(),
+          ...(releasedBy ? { releasedBy } : {}),
+        },
+      },
+    });
+    if (count === 0) return false;
+
+    await tx.wallet.update({
+      where: { id: held.wallet.id },
+      data: { balance: { increment: held.amount } },
+    });
+
+    await tx.notification.create({
+      data: {
+        userId: held.wallet.userId,
+        type: 'DEPOSIT_CONFIRMED',
+        title: 'Deposit Confirmed',
+        message: `Your deposit of ${held.amount.toFixed(held.wallet.currency.decimals)} ${held.wallet.currency.symbol} has been credited.`,
+        data: {
+          transactionId: held.id,
+          amount: held.amount.toString(),
+          currency: held.wallet.currency.symbol,
+          txHash: held.txHash,
+        },
+      },
+    });
+
+    return true;
+  });
+}
+
+/**
+ * Re-check every held deposit against the owner's deposit limits, oldest
+ * first, and credit those that now fit (a limit window has rolled or the
+ * limit was raised). Returns the number credited.
+ */
+export async function releaseHeldDeposits(): Promise<number> {
+  const held = await prisma.transaction.findMany({
+    where: { type: 'DEPOSIT', status: 'PENDING' },
+    include: { wallet: { select: { userId: true, currency: { select: { symbol: true } } } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let released = 0;
+  for (const deposit of held) {
+    const breach = await checkDepositLimit(deposit.wallet.userId, deposit.wallet.currency.symbol, deposit.amount);
+    if (breach) continue;
+    if (await creditHeldDeposit(deposit.id)) released++;
+  }
+
+  return released;
+}
+
 /**
  * Simulate a deposit for testing/development. Directly credits the wallet
  * and creates a COMPLETED transaction. NOT for production use.
@@ -282,6 +509,11 @@ export async function simulateDeposit(
     throw new Error(`${currency.symbol} is currently not available`);
   }
 
+  const breach = await checkDepositLimit(userId, currency.symbol, depositAmount);
+  if (breach) {
+    throw new Error(breach.message);
+  }
+
   // Generate a mock tx hash
   const mockTxHash = `0xsim_${Date.now().toString(16)}_${Math.random().toString(36).slice(2, 10)}`;
 
@@ -0,0 +1,110 @@
+import { Contract, HDNodeWallet, JsonRpcProvider, Wallet, type HDNodeVoidWallet } from 'ethers';
+import { config } from '../../config/index.js';
+
+// ---------------------------------------------------------------------------
+// Networks
+// ---------------------------------------------------------------------------
+
+/** CurrencyNetwork.networkName values that are EVM chains. */
+const EVM_NETWORK_NAMES = new Set([
+  'ethereum',
+  'ethereum-mainnet',
+  'ethereum-sepolia',
+  'bsc',
+  'polygon',
+  'avalanche-c',
+  'arbitrum',
+  'optimism',
+  'base',
+  'fantom',
+]);
+
+export function isEvmNetwork(networkName: string): boolean {
+  return EVM_NETWORK_NAMES.has(networkName.toLowerCase());
+}
+
+const providers = new Map<string, JsonRpcProvider>();
+
+/**
+ * Shared JSON-RPC provider per URL. The chain ID is fetched once and then
+ * treated as static so an unreachable node does not trigger endless network
+ * detection retries.
+ */
+export function getEvmProvider(rpcUrl: string): JsonRpcProvider {
+  let provider = providers.get(rpcUrl);
+  if (!provider) {
+    provider = new JsonRpcProvider(rpcUrl, undefined, { staticNetwork: true });
+    providers.set(rpcUrl, provider);
+  }
+  return provider;
+}
+
+const ERC20_ABI = ['function decimals() view returns (uint8)'];
+
+const tokenDecimals = new Map<string, number>();
+
+/**
+ * On-chain decimals of an ERC-20 token (cached per RPC URL and contract).
+ */
+export async function getTokenDecimals(rpcUrl: string, contractAddress: string): Promise<number> {
+  const key = `${rpcUrl}:${contractAddress.toLowerCase()}`;
+  const cached = tokenDecimals.get(key);
+  if (cached !== undefined) return cached;
+
+  const token = new Contract(contractAddress, ERC20_ABI, getEvmProvider(rpcUrl));
+  const decimals = Number(await token.decimals());
+  tokenDecimals.set(key, decimals);
+  return decimals;
+}
+
+// ---------------------------------------------------------------------------
+// HD deposit addresses
+// ---------------------------------------------------------------------------
+
+/** Account-level path; deposit addresses are its external chain children. */
+const DEPOSIT_ACCOUNT_PATH = "m/44'/60'/0'";
+
+let accountNode: HDNodeWallet | HDNodeVoidWallet | null = null;
+
+function getAccountNode(): HDNodeWallet | HDNodeVoidWallet | null {
+  if (accountNode) return accountNode;
+
+  if (config.EVM_DEPOSIT_XPUB) {
+    accountNode = HDNodeWallet.fromExtendedKey(config.EVM_DEPOSIT_XPUB);
+  } else if (config.EVM_DEPOSIT_MNEMONIC) {
+    // Only the public half is kept in memory
+    accountNode = HDNodeWallet.fromPhrase(config.EVM_DEPOSIT_MNEMONIC, undefined, DEPOSIT_ACCOUNT_PATH).neuter();
+  }
+  return accountNode;
+}
+
+/**
+ * Whether an xpub or mnemonic is configured for deriving deposit addresses.
+ */
+export function isHdDerivationConfigured(): boolean {
+  return Boolean(config.EVM_DEPOSIT_XPUB || config.EVM_DEPOSIT_MNEMONIC);
+}
+
+/**
+ * Checksummed deposit address at m/44'/60'/0'/0/<index>.
+ */
+export function deriveEvmDepositAddress(index: number): string {
+  const node = getAccountNode();
+  if (!node) {
+    throw new Error('No EVM deposit key configured (set EVM_DEPOSIT_XPUB or EVM_DEPOSIT_MNEMONIC)');
+  }
+  return node.derivePath(`0/${index}`).address;
+}
+
+// ---------------------------------------------------------------------------
+// Hot wallet
+// ---------------------------------------------------------------------------
+
+/**
+ * Signer for withdrawals on the chain behind `rpcUrl`, or null when no hot
+ * wallet key is configured.
+ */
+export function getHotWalletSigner(rpcUrl: string): Wallet | null {
+  if (!config.EVM_HOT_WALLET_PRIVATE_KEY) return null;
+  return new Wallet(config.EVM_HOT_WALLET_PRIVATE_KEY, getEvmProvider(rpcUrl));
+}
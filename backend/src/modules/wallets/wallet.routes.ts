@@ -1,6 +1,7 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { Prisma } from '@prisma/client';
 import { authenticate, adminGuard } from '../../middleware/auth.js';
+import { geoGuard } from '../../middleware/geo.js';
 import { prisma } from '../../lib/prisma.js';
 import {
   generateAddressSchema,
@@ -195,7 +196,7 @@ export default async function walletRoutes(fastify: FastifyInstance): Promise<vo
   // ---- POST /api/v1/wallets/:currency/address — generate deposit address ----
   fastify.post(
     '/api/v1/wallets/:currency/address',
-    { preHandler: [authenticate] },
+    { preHandler: [authenticate, geoGuard] },
     async (
       request: FastifyRequest<{ Params: { currency: string } }>,
       reply: FastifyReply,
@@ -3,6 +3,7 @@ import { Prisma } from '@prisma/client';
 import { prisma } from '../../lib/prisma.js';
 import { redis } from '../../lib/redis.js';
 import type { TransactionFilterInput } from './wallet.schemas.js';
+import { deriveEvmDepositAddress, isEvmNetwork, isHdDerivationConfigured } from './evm.service.js';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -137,6 +138,41 @@ function generateMockAddress(networkName: string): string {
   return `${prefix}${randomHex.slice(0, 34)}`;
 }
 
+/**
+ * HD-derived deposit address of a wallet on an EVM network, created on first
+ * use. The derivation index is reserved from the table's sequence before the
+ * row is inserted, since the address is a function of it.
+ */
+async function getOrCreateEvmDepositAddress(walletId: string, networkId: string): Promise<string> {
+  const existing = await prisma.depositAddress.findUnique({
+    where: { walletId_networkId: { walletId, networkId } },
+    select: { address: true },
+  });
+  if (existing) return existing.address;
+
+  const [{ index }] = await prisma.$queryRaw<[{ index: number }]>`
+    SELECT nextval('"deposit_addresses_derivationIndex_seq"')::int AS "index"
+  `;
+  const address = deriveEvmDepositAddress(index);
+
+  try {
+    await prisma.depositAddress.create({
+      data: { walletId, networkId, address, derivationIndex: index },
+    });
+    return address;
+  } catch (err) {
+    // A concurrent request for the same wallet and network got there first
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      const winner = await prisma.depositAddress.findUniqueOrThrow({
+        where: { walletId_networkId: { walletId, networkId } },
+        select: { address: true },
+      });
+      return winner.address;
+    }
+    throw err;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Service
 // ---------------------------------------------------------------------------
@@ -333,6 +369,26 @@ export async function generateDepositAddress(
     });
   }
 
+  // EVM networks: one HD-derived address per wallet and network, watched by
+  // the deposit-detection worker
+  if (isEvmNetwork(network.networkName) && isHdDerivationConfigured()) {
+    const address = await getOrCreateEvmDepositAddress(wallet.id, networkId);
+
+    if (wallet.depositAddress !== address || wallet.networkId !== networkId) {
+      await prisma.wallet.update({
+        where: { id: wallet.id },
+        data: { depositAddress: address, networkId },
+      });
+      await redis.set(`deposit_addr:${address}`, wallet.id, 'EX', 60 * 60 * 24 * 365);
+    }
+
+    return {
+      address,
+      qrData: buildQrData(currency.symbol, address, network.networkName),
+      network: network.networkLabel,
+    };
+  }
+
   // If the wallet already has an address for this network, return it
   if (wallet.depositAddress && wallet.networkId === networkId) {
     const qrData = buildQrData(currency.symbol, wallet.depositAddress, network.networkName);
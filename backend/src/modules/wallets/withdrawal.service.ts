@@ -1,7 +1,9 @@
-import crypto from 'node:crypto';
 import { Prisma } from '@prisma/client';
 import { prisma } from '../../lib/prisma.js';
 import { redis } from '../../lib/redis.js';
+import { queueWithdrawalBroadcast, supportsAutomaticPayout } from '../../services/withdrawal-broadcaster.js';
+import { sendUserEmail } from '../email/email.service.js';
+import { applyWithdrawalBonusPolicy } from '../promotions/bonus.service.js';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -17,6 +19,18 @@ const KYC_DAILY_LIMITS: Record<string, number> = {
 
 const WITHDRAWAL_QUEUE_KEY = 'withdrawal:pending_queue';
 
+/**
+ * Funds leaving the account that count toward withdrawal limits: withdrawals
+ * that are not rejected or failed, and tips and rain sent to other players
+ * (stored with a negative amount on the sender's wallet).
+ */
+const OUTGOING_TRANSFERS: Prisma.TransactionWhereInput = {
+  OR: [
+    { type: 'WITHDRAWAL', status: { in: ['PENDING', 'APPROVED', 'COMPLETED', 'CONFIRMING'] } },
+    { type: { in: ['TIP', 'RAIN'] }, amount: { lt: 0 } },
+  ],
+};
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -46,7 +60,8 @@ function startOfMonth(): Date {
 // ---------------------------------------------------------------------------
 
 /**
- * Get the sum of today's completed + pending withdrawal amounts for a user (in USD).
+ * Get the sum of today's completed + pending withdrawal amounts for a user,
+ * including tips and rain sent (in USD).
  */
 export async function getDailyWithdrawalTotal(userId: string): Promise<Prisma.Decimal> {
   const todayStart = startOfDay();
@@ -66,8 +81,7 @@ export async function getDailyWithdrawalTotal(userId: string): Promise<Prisma.De
   const transactions = await prisma.transaction.findMany({
     where: {
       walletId: { in: wallets.map((w) => w.id) },
-      type: 'WITHDRAWAL',
-      status: { in: ['PENDING', 'APPROVED', 'COMPLETED', 'CONFIRMING'] },
+      ...OUTGOING_TRANSFERS,
       createdAt: { gte: todayStart },
     },
     select: { walletId: true, amount: true },
@@ -76,14 +90,15 @@ export async function getDailyWithdrawalTotal(userId: string): Promise<Prisma.De
   let totalUsd = new Prisma.Decimal(0);
   for (const tx of transactions) {
     const rate = walletMap.get(tx.walletId) ?? new Prisma.Decimal(0);
-    totalUsd = totalUsd.add(tx.amount.mul(rate));
+    totalUsd = totalUsd.add(tx.amount.abs().mul(rate));
   }
 
   return totalUsd;
 }
 
 /**
- * Get withdrawal totals for a given period (for user-set limits).
+ * Get withdrawal totals, including tips and rain sent, for a given period
+ * (for user-set limits).
  */
 async function getPeriodWithdrawalTotal(
   userId: string,
@@ -104,8 +119,7 @@ async function getPeriodWithdrawalTotal(
   const transactions = await prisma.transaction.findMany({
     where: {
       walletId: { in: wallets.map((w) => w.id) },
-      type: 'WITHDRAWAL',
-      status: { in: ['PENDING', 'APPROVED', 'COMPLETED', 'CONFIRMING'] },
+      ...OUTGOING_TRANSFERS,
       createdAt: { gte: since },
     },
     select: { walletId: true, amount: true },
@@ -114,12 +128,67 @@ async function getPeriodWithdrawalTotal(
   let totalUsd = new Prisma.Decimal(0);
   for (const tx of transactions) {
     const rate = walletMap.get(tx.walletId) ?? new Prisma.Decimal(0);
-    totalUsd = totalUsd.add(tx.amount.mul(rate));
+    totalUsd = totalUsd.add(tx.amount.abs().mul(rate));
   }
 
   return totalUsd;
 }
 
+/**
+ * Throw if sending `amountUsd` out of the account would exceed the KYC daily
+ * withdrawal limit or the user's own limits. Withdrawals, tips and rain all
+ * count toward the same limits.
+ */
+export async function checkWithdrawalLimits(
+  userId: string,
+  kycLevel: string,
+  depositLimit: Prisma.JsonValue,
+  amountUsd: Prisma.Decimal,
+): Promise<void> {
+  // KYC daily limit check
+  const dailyLimitUsd = KYC_DAILY_LIMITS[kycLevel] ?? KYC_DAILY_LIMITS.UNVERIFIED;
+  const dailyTotalUsd = await getDailyWithdrawalTotal(userId);
+
+  if (dailyTotalUsd.add(amountUsd).gt(new Prisma.Decimal(dailyLimitUsd))) {
+    throw new Error(
+      `Daily withdrawal limit exceeded. Your ${kycLevel} KYC level allows $${dailyLimitUsd.toLocaleString()} USD per day. ` +
+        `Today's total: $${dailyTotalUsd.toFixed(2)} USD.`,
+    );
+  }
+
+  // User-set deposit limits (stored as JSON: { daily?, weekly?, monthly? } in USD)
+  if (depositLimit && typeof depositLimit === 'object') {
+    const limits = depositLimit as Record<string, number | undefined>;
+
+    if (limits.daily !== undefined) {
+      const dayTotal = await getPeriodWithdrawalTotal(userId, startOfDay());
+      if (dayTotal.add(amountUsd).gt(new Prisma.Decimal(limits.daily))) {
+        throw new Error(
+          `Your personal daily withdrawal limit of $${limits.daily} USD would be exceeded.`,
+        );
+      }
+    }
+
+    if (limits.weekly !== undefined) {
+      const weekTotal = await getPeriodWithdrawalTotal(userId, startOfWeek());
+      if (weekTotal.add(amountUsd).gt(new Prisma.Decimal(limits.weekly))) {
+        throw new Error(
+          `Your personal weekly withdrawal limit of $${limits.weekly} USD would be exceeded.`,
+        );
+      }
+    }
+
+    if (limits.monthly !== undefined) {
+      const monthTotal = await getPeriodWithdrawalTotal(userId, startOfMonth());
+      if (monthTotal.add(amountUsd).gt(new Prisma.Decimal(limits.monthly))) {
+        throw new Error(
+          `Your personal monthly withdrawal limit of $${limits.monthly} USD would be exceeded.`,
+        );
+      }
+    }
+  }
+}
+
 /**
  * Request a withdrawal. Validates balance, KYC limits, and user-set limits.
  * Locks the balance and creates a PENDING transaction.
@@ -169,11 +238,15 @@ export async function requestWithdrawal(
       depositLimit: true,
       isBanned: true,
       isActive: true,
+      emailVerifiedAt: true,
     },
   });
 
   if (!user) throw new Error('User not found');
   if (user.isBanned || !user.isActive) throw new Error('Account is restricted');
+  if (!user.emailVerifiedAt) {
+    throw new Error('Please verify your email address before requesting a withdrawal');
+  }
 
   // 4. Check 2FA if enabled (placeholder - real verification would use speakeasy)
   // In a real implementation, verify the token here.
@@ -181,54 +254,23 @@ export async function requestWithdrawal(
   //   throw new Error('Two-factor authentication code is required');
   // }
 
-  // 5. KYC daily limit check
-  const dailyLimitUsd = KYC_DAILY_LIMITS[user.kycLevel] ?? KYC_DAILY_LIMITS.UNVERIFIED;
-  const dailyTotalUsd = await getDailyWithdrawalTotal(userId);
+  // 5-6. KYC daily limit and user-set limits
   const withdrawalUsd = withdrawAmount.mul(currency.exchangeRateUsd);
+  await checkWithdrawalLimits(userId, user.kycLevel, user.depositLimit, withdrawalUsd);
 
-  if (dailyTotalUsd.add(withdrawalUsd).gt(new Prisma.Decimal(dailyLimitUsd))) {
-    throw new Error(
-      `Daily withdrawal limit exceeded. Your ${user.kycLevel} KYC level allows $${dailyLimitUsd.toLocaleString()} USD per day. ` +
-        `Today's total: $${dailyTotalUsd.toFixed(2)} USD.`,
-    );
-  }
-
-  // 6. Check user-set deposit limits (stored as JSON: { daily?, weekly?, monthly? } in USD)
-  if (user.depositLimit && typeof user.depositLimit === 'object') {
-    const limits = user.depositLimit as Record<string, number | undefined>;
-
-    if (limits.daily !== undefined) {
-      const dayTotal = await getPeriodWithdrawalTotal(userId, startOfDay());
-      if (dayTotal.add(withdrawalUsd).gt(new Prisma.Decimal(limits.daily))) {
-        throw new Error(
-          `Your personal daily withdrawal limit of $${limits.daily} USD would be exceeded.`,
-        );
-      }
-    }
-
-    if (limits.weekly !== undefined) {
-      const weekTotal = await getPeriodWithdrawalTotal(userId, startOfWeek());
-      if (weekTotal.add(withdrawalUsd).gt(new Prisma.Decimal(limits.weekly))) {
-        throw new Error(
-          `Your personal weekly withdrawal limit of $${limits.weekly} USD would be exceeded.`,
-        );
-      }
-    }
-
-    if (limits.monthly !== undefined) {
-      const monthTotal = await getPeriodWithdrawalTotal(userId, startOfMonth());
-      if (monthTotal.add(withdrawalUsd).gt(new Prisma.Decimal(limits.monthly))) {
-        throw new Error(
-          `Your personal monthly withdrawal limit of $${limits.monthly} USD would be exceeded.`,
-        );
-      }
-    }
+  // 7. Bonus funds still being wagered block the withdrawal or are forfeited
+  const bonusWallet = await prisma.wallet.findUnique({
+    where: { userId_currencyId: { userId, currencyId: currency.id } },
+    select: { id: true },
+  });
+  if (bonusWallet) {
+    await applyWithdrawalBonusPolicy(bonusWallet.id);
   }
 
-  // 7. Total amount including fee
+  // 8. Total amount including fee
   const totalDebit = withdrawAmount.add(currency.withdrawalFee);
 
-  // 8. Atomic: validate balance, lock funds, create transaction
+  // 9. Atomic: validate balance, lock funds, create transaction
   const result = await prisma.$transaction(async (tx) => {
     const wallet = await tx.wallet.findUnique({
       where: { userId_currencyId: { userId, currencyId: currency.id } },
@@ -278,9 +320,15 @@ export async function requestWithdrawal(
     return { transaction, wallet: updatedWallet };
   });
 
-  // 9. Add to Redis withdrawal queue for admin processing
+  // 10. Add to Redis withdrawal queue for admin processing
   await redis.zadd(WITHDRAWAL_QUEUE_KEY, Date.now(), result.transaction.id);
 
+  await sendUserEmail(userId, 'withdrawal-requested', {
+    amount: withdrawAmount.toFixed(currency.decimals),
+    currency: currency.symbol,
+    toAddress,
+  });
+
   return {
     id: result.transaction.id,
     type: 'WITHDRAWAL',
@@ -295,12 +343,19 @@ export async function requestWithdrawal(
 }
 
 /**
- * Admin: approve a pending withdrawal. Processes (mock broadcasts) and completes.
+ * Admin: approve a pending withdrawal. On EVM networks with an RPC endpoint
+ * it is queued for signing and broadcast; the funds stay locked until the
+ * withdrawal-processing worker completes (debits) or fails (releases) it.
+ * Elsewhere it stays APPROVED until an admin completes it with the payout's
+ * txHash.
  */
 export async function approveWithdrawal(
   txId: string,
   adminId: string,
 ): Promise<Record<string, unknown>> {
+  const pending = await prisma.transaction.findUnique({ where: { id: txId }, select: { networkId: true } });
+  const automatic = await supportsAutomaticPayout(pending?.networkId ?? null);
+
   const result = await prisma.$transaction(async (tx) => {
     // Fetch the transaction with a lock
     const transaction = await tx.transaction.findUnique({
@@ -325,67 +380,57 @@ export async function approveWithdrawal(
       throw new Error(`Cannot approve a withdrawal with status: ${transaction.status}`);
     }
 
-    const totalDebit = transaction.amount.add(transaction.fee);
-
-    // Mock broadcast: generate a fake tx hash
-    const mockTxHash = `0x${crypto.randomBytes(32).toString('hex')}`;
-
-    // Mark as APPROVED -> COMPLETED
     const updatedTx = await tx.transaction.update({
       where: { id: txId },
       data: {
-        status: 'COMPLETED',
+        status: 'APPROVED',
         approvedBy: adminId,
-        txHash: mockTxHash,
-        confirmations: 1,
         metadata: {
           ...(typeof transaction.metadata === 'object' && transaction.metadata !== null
             ? transaction.metadata
             : {}),
           approvedAt: new Date().toISOString(),
           approvedBy: adminId,
-          broadcastTxHash: mockTxHash,
         },
       },
     });
 
-    // Deduct from balance and unlock
-    await tx.wallet.update({
-      where: { id: transaction.walletId },
-      data: {
-        balance: { decrement: totalDebit },
-        lockedBalance: { decrement: totalDebit },
-      },
-    });
-
     // Create notification for the user
     await tx.notification.create({
       data: {
         userId: transaction.wallet.userId,
         type: 'WITHDRAWAL_APPROVED',
         title: 'Withdrawal Approved',
-        message: `Your withdrawal of ${transaction.amount.toFixed(transaction.wallet.currency.decimals)} ${transaction.wallet.currency.symbol} has been approved and processed.`,
+        message: `Your withdrawal of ${transaction.amount.toFixed(transaction.wallet.currency.decimals)} ${transaction.wallet.currency.symbol} has been approved${automatic ? ' and is being sent' : ''}.`,
         data: {
           transactionId: txId,
           amount: transaction.amount.toString(),
           currency: transaction.wallet.currency.symbol,
-          txHash: mockTxHash,
         },
       },
     });
 
-    return updatedTx;
+    return { updatedTx, wallet: transaction.wallet, amount: transaction.amount };
   });
 
-  // Remove from Redis queue
+  // Remove from Redis queue and hand over to the broadcaster
   await redis.zrem(WITHDRAWAL_QUEUE_KEY, txId);
+  if (automatic) {
+    await queueWithdrawalBroadcast(txId);
+  }
+
+  await sendUserEmail(result.wallet.userId, 'withdrawal-approved', {
+    amount: result.amount.toFixed(result.wallet.currency.decimals),
+    currency: result.wallet.currency.symbol,
+  });
 
+  const { updatedTx } = result;
   return {
-    id: result.id,
-    status: result.status,
-    txHash: result.txHash,
-    approvedBy: result.approvedBy,
-    updatedAt: result.updatedAt.toISOString(),
+    id: updatedTx.id,
+    status: updatedTx.status,
+    txHash: updatedTx.txHash,
+    approvedBy: updatedTx.approvedBy,
+    updatedAt: updatedTx.updatedAt.toISOString(),
   };
 }
 
@@ -464,17 +509,24 @@ export async function rejectWithdrawal(
       },
     });
 
-    return updatedTx;
+    return { updatedTx, wallet: transaction.wallet, amount: transaction.amount };
   });
 
   // Remove from Redis queue
   await redis.zrem(WITHDRAWAL_QUEUE_KEY, txId);
 
+  await sendUserEmail(result.wallet.userId, 'withdrawal-rejected', {
+    amount: result.amount.toFixed(result.wallet.currency.decimals),
+    currency: result.wallet.currency.symbol,
+    reason,
+  });
+
+  const { updatedTx } = result;
   return {
-    id: result.id,
-    status: result.status,
-    rejectedReason: result.rejectedReason,
-    updatedAt: result.updatedAt.toISOString(),
+    id: updatedTx.id,
+    status: updatedTx.status,
+    rejectedReason: updatedTx.rejectedReason,
+    updatedAt: updatedTx.updatedAt.toISOString(),
   };
 }
 
@@ -1,4 +1,4 @@
-import { Queue, Worker, type Job, type ConnectionOptions } from 'bullmq';
+import { Queue, Worker, DelayedError, type Job, type ConnectionOptions } from 'bullmq';
 import { config } from '../config/index.js';
 import { logger } from '../middleware/logger.js';
 import { autoSettleEvent } from '../services/auto-settlement.js';
@@ -89,6 +89,18 @@ export const oddsSyncQueue = new Queue('odds-sync', {
   },
 });
 
+// One long-lived job per autobet session (jobId = session id). Each run plays
+// a single bet and then delays the same job until the next one is due.
+export const autobetQueue = new Queue('autobet', {
+  connection,
+  defaultJobOptions: {
+    removeOnComplete: true,
+    removeOnFail: { count: 1000 },
+    attempts: 3,
+    backoff: { type: 'exponential', delay: 1000 },
+  },
+});
+
 // --- Worker Definitions ---
 
 let workers: Worker[] = [];
@@ -98,8 +110,18 @@ function createWorkers(): Worker[] {
     'bet-processing',
     async (job: Job) => {
       logger.info({ jobId: job.id, data: job.data }, '[bet-processing] Processing job');
-      // Bet validation, odds check, balance deduction, bet placement
-      logger.info({ jobId: job.id }, '[bet-processing] Job completed');
+
+      if (job.name === 'live-bet-acceptance') {
+        // Lazy import: betting.service enqueues onto queues defined in this module
+        const { processLiveBetAcceptance } = await import('../modules/betting/betting.service.js');
+        const result = await processLiveBetAcceptance(job.data);
+        logger.info({ jobId: job.id, ...result }, '[bet-processing] Live bet processed');
+      } else if (job.name === 'risk-price-check') {
+        const { recordPriceAfterPlacement } = await import('../services/riskEngine.js');
+        await recordPriceAfterPlacement(job.data.betId);
+      } else {
+        logger.warn({ jobId: job.id, jobName: job.name }, '[bet-processing] Unknown job type');
+      }
     },
     { connection, concurrency: 5 },
   );
@@ -137,9 +159,14 @@ function createWorkers(): Worker[] {
   const rewardCalculationWorker = new Worker(
     'reward-calculation',
     async (job: Job) => {
-      logger.info({ jobId: job.id, data: job.data }, '[reward-calculation] Processing job');
-      // Calculate rakeback, VIP progress, level-up rewards, referral rewards
-      logger.info({ jobId: job.id }, '[reward-calculation] Job completed');
+      if (job.name === 'wager') {
+        // Lazy import: the pipeline enqueues onto a queue defined in this module.
+        // Errors propagate so BullMQ retries; steps already paid are skipped.
+        const { processWager } = await import('../modules/rewards/wager.service.js');
+        await processWager(job.data);
+      } else {
+        logger.warn({ jobId: job.id, jobName: job.name }, '[reward-calculation] Unknown job type');
+      }
     },
     { connection, concurrency: 2 },
   );
@@ -148,8 +175,23 @@ function createWorkers(): Worker[] {
     'withdrawal-processing',
     async (job: Job) => {
       logger.info({ jobId: job.id, data: job.data }, '[withdrawal-processing] Processing job');
-      // Validate withdrawal, check limits, process on-chain transaction
-      logger.info({ jobId: job.id }, '[withdrawal-processing] Job completed');
+
+      // Lazy import: the broadcaster enqueues onto a queue defined in this module
+      const { broadcastWithdrawal, confirmWithdrawal, requeueStrandedWithdrawals } = await import('../services/withdrawal-broadcaster.js');
+
+      if (job.name === 'broadcast-withdrawal') {
+        const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+        const outcome = await broadcastWithdrawal(job.data.transactionId, finalAttempt);
+        logger.info({ jobId: job.id, transactionId: job.data.transactionId, outcome }, '[withdrawal-processing] Broadcast processed');
+      } else if (job.name === 'confirm-withdrawal') {
+        const outcome = await confirmWithdrawal(job.data.transactionId, job.data.check);
+        logger.info({ jobId: job.id, transactionId: job.data.transactionId, outcome }, '[withdrawal-processing] Confirmation checked');
+      } else if (job.name === 'withdrawal-sweep') {
+        const requeued = await requeueStrandedWithdrawals();
+        logger.info({ jobId: job.id, requeued }, '[withdrawal-processing] Withdrawal sweep complete');
+      } else {
+        logger.warn({ jobId: job.id, jobName: job.name }, '[withdrawal-processing] Unknown job type');
+      }
     },
     { connection, concurrency: 2 },
   );
@@ -157,9 +199,22 @@ function createWorkers(): Worker[] {
   const depositDetectionWorker = new Worker(
     'deposit-detection',
     async (job: Job) => {
-      logger.info({ jobId: job.id, data: job.data }, '[deposit-detection] Processing job');
-      // Monitor blockchain for incoming deposits, confirm transactions, credit balances
-      logger.info({ jobId: job.id }, '[deposit-detection] Job completed');
+      if (job.name === 'evm-deposit-scan') {
+        // Lazy import: the watcher schedules itself onto a queue defined in this module
+        const { scanEvmDeposits } = await import('../services/deposit-watcher.js');
+        const result = await scanEvmDeposits();
+        if (result.detected > 0 || result.processed > 0) {
+          logger.info({ jobId: job.id, ...result }, '[deposit-detection] EVM scan complete');
+        }
+      } else if (job.name === 'held-deposit-release') {
+        const { releaseHeldDeposits } = await import('../modules/wallets/deposit.service.js');
+        const released = await releaseHeldDeposits();
+        if (released > 0) {
+          logger.info({ jobId: job.id, released }, '[deposit-detection] Held deposits credited');
+        }
+      } else {
+        logger.warn({ jobId: job.id, jobName: job.name }, '[deposit-detection] Unknown job type');
+      }
     },
     { connection, concurrency: 3 },
   );
@@ -207,6 +262,10 @@ function createWorkers(): Worker[] {
         } catch (err) {
           logger.error({ userId, betId, err }, '[notification-sender] Failed to create notification');
         }
+      } else if (job.name === 'send-email') {
+        // Let delivery errors propagate so BullMQ retries with backoff
+        const { deliverEmail } = await import('../modules/email/email.service.js');
+        await deliverEmail(job.data);
       } else {
         logger.info({ jobId: job.id, jobName: job.name }, '[notification-sender] Job processed');
       }
@@ -224,6 +283,22 @@ function createWorkers(): Worker[] {
     { connection, concurrency: 2 },
   );
 
+  const autobetWorker = new Worker(
+    'autobet',
+    async (job: Job, token?: string) => {
+      // Lazy import: the autobet service enqueues onto a queue defined in this module
+      const { autoBetService } = await import('../modules/casino/autobet.service.js');
+      const nextDelayMs = await autoBetService.runStep(job.data.sessionId);
+
+      if (nextDelayMs !== null) {
+        await job.moveToDelayed(Date.now() + nextDelayMs, token);
+        throw new DelayedError();
+      }
+    },
+    // Each run is one short bet; sessions wait between bets as delayed jobs
+    { connection, concurrency: 20 },
+  );
+
   const allWorkers = [
     betProcessingWorker,
     betSettlementWorker,
@@ -232,6 +307,7 @@ function createWorkers(): Worker[] {
     depositDetectionWorker,
     notificationSenderWorker,
     oddsSyncWorker,
+    autobetWorker,
   ];
 
   // Attach error handlers to all workers
@@ -274,6 +350,7 @@ export async function setupQueues(): Promise<void> {
         'deposit-detection',
         'notification-sender',
         'odds-sync',
+        'autobet',
       ],
       workerCount: workers.length,
     },
@@ -299,6 +376,7 @@ export async function closeQueues(): Promise<void> {
     depositDetectionQueue.close(),
     notificationSenderQueue.close(),
     oddsSyncQueue.close(),
+    autobetQueue.close(),
   ]);
 
   logger.info('All BullMQ workers and queues closed');
@@ -312,6 +390,7 @@ export const queues = {
   depositDetection: depositDetectionQueue,
   notificationSender: notificationSenderQueue,
   oddsSync: oddsSyncQueue,
+  autobet: autobetQueue,
 };
 
 export default queues;
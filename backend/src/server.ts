@@ -15,6 +15,7 @@ import { setupSocketIO } from './lib/socket.js';
 import { setupQueues, closeQueues } from './queues/index.js';
 import { errorHandler } from './middleware/errorHandler.js';
 import { logger, requestLogger } from './middleware/logger.js';
+import { resolveCountry, isTrustedProxy } from './middleware/geo.js';
 
 // Casino services
 import { crashGameService } from './modules/casino/games/crash/crash.service.js';
@@ -27,6 +28,7 @@ import kycRoutes from './modules/kyc/kyc.routes.js';
 import sportsRoutes from './modules/sports/sports.routes.js';
 import bettingRoutes from './modules/betting/betting.routes.js';
 import casinoRoutes from './modules/casino/casino.routes.js';
+import providerRoutes from './modules/casino/providers/provider.routes.js';
 import oddsRoutes from './modules/odds/odds.routes.js';
 import vipRoutes from './modules/vip/vip.routes.js';
 import rewardsRoutes from './modules/rewards/rewards.routes.js';
@@ -39,6 +41,7 @@ import academyRoutes from './modules/academy/academy.routes.js';
 import adminRoutes from './modules/admin/admin.routes.js';
 import liveRoutes from './modules/live/live.routes.js';
 import chatRoutes from './modules/live/chat.routes.js';
+import communityChatRoutes from './modules/chat/chat.routes.js';
 import pulseRoutes from './modules/pulse/pulse.routes.js';
 
 // ---------------------------------------------------------------------------
@@ -49,7 +52,7 @@ const httpServer = createServer();
 
 const app = Fastify({
   logger: false, // We use our own pino logger via the requestLogger hook
-  trustProxy: true,
+  trustProxy: (address: string) => isTrustedProxy(address),
   bodyLimit: 10 * 1024 * 1024, // 10 MB
   serverFactory: (handler) => {
     httpServer.on('request', handler);
@@ -177,7 +180,7 @@ function registerHooks(): void {
   // Selective caching for API responses based on endpoint
   const longCachePaths = ['/api/v1/sports', '/api/v1/casino/games', '/api/v1/help', '/api/v1/blog', '/api/v1/academy'];
   const shortCachePaths = ['/api/v1/events/featured', '/api/v1/sports/popular-competitions'];
-  const noCachePaths = ['/api/v1/live', '/api/v1/odds', '/api/v1/betting', '/api/v1/wallets', '/api/v1/auth'];
+  const noCachePaths = ['/api/v1/live', '/api/v1/odds', '/api/v1/betting', '/api/v1/wallets', '/api/v1/auth', '/api/v1/providers'];
 
   app.addHook('onSend', async (request, reply, payload) => {
     const url = request.url;
@@ -211,6 +214,9 @@ function registerHooks(): void {
     return payload;
   });
 
+  // Resolve the client's country for geo-restriction checks and session/audit records
+  app.addHook('onRequest', resolveCountry);
+
   // Request logging on response
   app.addHook('onResponse', requestLogger);
 
@@ -362,7 +368,7 @@ async function gracefulShutdown(signal: string): Promise<void> {
   try {
     // 0. Stop crash game loop and stale event settlement
     logger.info('Stopping crash game loop...');
-    crashGameService.shutdown();
+    await crashGameService.shutdown();
 
     // Stop event status transition cron
     try {
@@ -376,6 +382,24 @@ async function gracefulShutdown(signal: string): Promise<void> {
       stopStaleEventSettlement();
     } catch { /* may not be loaded */ }
 
+    // Stop responsible gambling session monitor
+    try {
+      const { stopSessionMonitor } = await import('./services/session-monitor.js');
+      stopSessionMonitor();
+    } catch { /* may not be loaded */ }
+
+    // Stop casino tournament scheduler
+    try {
+      const { stopTournamentScheduler } = await import('./services/tournament-scheduler.js');
+      stopTournamentScheduler();
+    } catch { /* may not be loaded */ }
+
+    // Stop bonus expiry sweep
+    try {
+      const { stopBonusExpiry } = await import('./services/bonus-expiry.js');
+      stopBonusExpiry();
+    } catch { /* may not be loaded */ }
+
     // 1. Close queues and workers
     logger.info('Closing BullMQ queues...');
     await closeQueues();
@@ -449,6 +473,7 @@ async function start(): Promise<void> {
     await app.register(authRoutes);          // /api/v1/auth/*
     await app.register(walletRoutes);        // /api/v1/wallets/*
     await app.register(casinoRoutes);        // /api/v1/casino/*
+    await app.register(providerRoutes);      // /api/v1/casino/games/:slug/launch, /api/v1/providers/*
     await app.register(vipRoutes);           // /api/v1/vip/*
     await app.register(rewardsRoutes);       // /api/v1/rewards/*
     await app.register(promotionsRoutes);    // /api/v1/promotions/*
@@ -457,6 +482,7 @@ async function start(): Promise<void> {
     await app.register(helpRoutes);          // /api/v1/help/*
     await app.register(academyRoutes);       // /api/v1/academy/*
     await app.register(chatRoutes);          // /api/v1/chat/*
+    await app.register(communityChatRoutes); // /api/v1/chat/community/*
     await app.register(pulseRoutes);         // /api/v1/pulse/*
 
     // Relative-path modules — need prefix
@@ -476,6 +502,15 @@ async function start(): Promise<void> {
     // Setup BullMQ queues and workers
     await setupQueues();
 
+    // Re-queue running autobet sessions whose job was lost
+    try {
+      const { autoBetService } = await import('./modules/casino/autobet.service.js');
+      const resumed = await autoBetService.resumeSessions();
+      if (resumed > 0) logger.info({ resumed }, 'Autobet sessions checked for resume');
+    } catch (err) {
+      logger.warn({ err }, 'Autobet sessions could not be resumed');
+    }
+
     // Wait for Fastify to be ready (compiles schemas, finishes plugin loading)
     await app.ready();
 
@@ -556,6 +591,78 @@ async function start(): Promise<void> {
       logger.warn({ err }, 'Stale event settlement cron could not be started');
     }
 
+    // -----------------------------------------------------------------------
+    // Start responsible gambling session monitor (every 60 seconds)
+    // Pushes reality checks and expires sessions past their time limit
+    // -----------------------------------------------------------------------
+    try {
+      const { startSessionMonitor } = await import('./services/session-monitor.js');
+      startSessionMonitor();
+      logger.info('Session monitor started (every 60 seconds)');
+    } catch (err) {
+      logger.warn({ err }, 'Session monitor could not be started');
+    }
+
+    // -----------------------------------------------------------------------
+    // Start casino tournament scheduler (every 30 seconds)
+    // Starts, finishes and pays out tournaments on schedule
+    // -----------------------------------------------------------------------
+    try {
+      const { startTournamentScheduler } = await import('./services/tournament-scheduler.js');
+      startTournamentScheduler();
+      logger.info('Tournament scheduler started (every 30 seconds)');
+    } catch (err) {
+      logger.warn({ err }, 'Tournament scheduler could not be started');
+    }
+
+    // -----------------------------------------------------------------------
+    // Start bonus expiry sweep (every 5 minutes)
+    // Removes the remaining balance of bonuses past their expiry date
+    // -----------------------------------------------------------------------
+    try {
+      const { startBonusExpiry } = await import('./services/bonus-expiry.js');
+      startBonusExpiry();
+      logger.info('Bonus expiry sweep started (every 5 minutes)');
+    } catch (err) {
+      logger.warn({ err }, 'Bonus expiry sweep could not be started');
+    }
+
+    // -----------------------------------------------------------------------
+    // Schedule EVM deposit detection (every 15 seconds)
+    // Scans networks with an rpcUrl for transfers to HD-derived deposit addresses
+    // -----------------------------------------------------------------------
+    try {
+      const { scheduleEvmDepositScan } = await import('./services/deposit-watcher.js');
+      await scheduleEvmDepositScan();
+      logger.info('EVM deposit scan scheduled (every 15 seconds)');
+    } catch (err) {
+      logger.warn({ err }, 'EVM deposit scan could not be scheduled');
+    }
+
+    // -----------------------------------------------------------------------
+    // Schedule held-deposit release (every 15 minutes)
+    // Credits deposits held by a deposit limit once the limit allows them
+    // -----------------------------------------------------------------------
+    try {
+      const { scheduleHeldDepositRelease } = await import('./services/deposit-watcher.js');
+      await scheduleHeldDepositRelease();
+      logger.info('Held deposit release scheduled (every 15 minutes)');
+    } catch (err) {
+      logger.warn({ err }, 'Held deposit release could not be scheduled');
+    }
+
+    // -----------------------------------------------------------------------
+    // Schedule stranded-withdrawal sweep (every 5 minutes)
+    // Re-queues approved withdrawals whose broadcast job was never added
+    // -----------------------------------------------------------------------
+    try {
+      const { scheduleWithdrawalSweep } = await import('./services/withdrawal-broadcaster.js');
+      await scheduleWithdrawalSweep();
+      logger.info('Withdrawal sweep scheduled (every 5 minutes)');
+    } catch (err) {
+      logger.warn({ err }, 'Withdrawal sweep could not be scheduled');
+    }
+
     // -----------------------------------------------------------------------
     // Initialize Crash game loop (multiplayer, Socket.IO driven)
     // -----------------------------------------------------------------------
@@ -0,0 +1,89 @@
+// =============================================================================
+// Bonus Expiry
+//
+// Expires active bonuses whose expiry date has passed: the bonus is closed
+// with status EXPIRED and its remaining balance is removed from the wallet's
+// bonus balance. Each bonus is closed with a status-guarded update, so
+// several instances can run the sweep. Unused free-bet tokens past their
+// expiry date are expired in the same pass.
+//
+// Runs every 5 minutes.
+// =============================================================================
+
+import { logger } from '../middleware/logger.js';
+import { expireBonuses } from '../modules/promotions/bonus.service.js';
+import { expireFreeBets } from '../modules/betting/freeBet.service.js';
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** How often to look for expired bonuses (ms) */
+const CHECK_INTERVAL_MS = 5 * 60_000; // 5 minutes
+
+// ---------------------------------------------------------------------------
+// Main Function
+// ---------------------------------------------------------------------------
+
+let running = false;
+
+/**
+ * Expires every bonus and free-bet token that is past its expiry date.
+ */
+export async function runBonusExpiry(): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    const expired = await expireBonuses();
+    if (expired > 0) {
+      logger.info({ expired }, '[BonusExpiry] Expired bonuses');
+    }
+
+    const expiredFreeBets = await expireFreeBets();
+    if (expiredFreeBets > 0) {
+      logger.info({ expired: expiredFreeBets }, '[BonusExpiry] Expired free bets');
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.error({ error: msg }, '[BonusExpiry] Failed to expire bonuses');
+  } finally {
+    running = false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Periodic Runner
+// ---------------------------------------------------------------------------
+
+let expiryInterval: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Starts the periodic bonus expiry sweep.
+ * Runs immediately on first call, then every 5 minutes.
+ */
+export function startBonusExpiry(): void {
+  if (expiryInterval) {
+    logger.info('[BonusExpiry] Already running');
+    return;
+  }
+
+  logger.info(`[BonusExpiry] Starting periodic check (every ${CHECK_INTERVAL_MS / 1000}s)`);
+
+  void runBonusExpiry();
+
+  expiryInterval = setInterval(() => {
+    void runBonusExpiry();
+  }, CHECK_INTERVAL_MS);
+}
+
+/**
+ * Stops the periodic bonus expiry sweep.
+ */
+export function stopBonusExpiry(): void {
+  if (expiryInterval) {
+    clearInterval(expiryInterval);
+    expiryInterval = null;
+    logger.info('[BonusExpiry] Stopped periodic check');
+  }
+}
@@ -3,6 +3,29 @@ import { Decimal } from '@prisma/client/runtime/library';
 import { prisma } from '../../lib/prisma.js';
 import { redis } from '../../lib/redis.js';
 import { ProvablyFairService } from './ProvablyFairService.js';
+import { checkLossLimit } from '../../modules/users/responsibleGambling.service.js';
+import { recordCasinoRound } from '../riskEngine.js';
+import { jackpotService } from '../../modules/casino/jackpot.service.js';
+import { recordTournamentRound } from '../../modules/casino/tournament.service.js';
+import {
+  isDemoPlay,
+  getDemoBalance,
+  deductDemoBalance,
+  creditDemoBalance,
+  getDemoSeeds,
+  incrementDemoNonce,
+  recordDemoRound,
+} from '../../modules/casino/demo.service.js';
+import {
+  splitStake,
+  debitStake,
+  bonusShareOf,
+  creditStakeReturn,
+  type StakeSplit,
+} from '../../modules/promotions/bonus.service.js';
+
+/** How long an open round's cash/bonus stake split is remembered (seconds) */
+const STAKE_SPLIT_TTL_SECONDS = 24 * 60 * 60;
 
 // ---------------------------------------------------------------------------
 // Types
@@ -38,6 +61,12 @@ export interface UserSeeds {
   seedId: string;
 }
 
+/**
+ * Inputs for replaying a settled round: the `result` recorded on its
+ * CasinoRound (which carries the player's choices) plus the stake.
+ */
+export type ReplayOptions = Record<string, any> & { betAmount: number };
+
 // ---------------------------------------------------------------------------
 // Abstract base game
 // ---------------------------------------------------------------------------
@@ -58,8 +87,22 @@ export abstract class BaseGame {
    */
   abstract play(userId: string, bet: BetRequest): Promise<GameResult>;
 
+  /**
+   * Deterministically recompute a round from its seeds and the player's
+   * choices. Returns exactly what was stored as the CasinoRound `result`,
+   * so a revealed server seed can be checked against any past round.
+   */
+  abstract replay(
+    serverSeed: string,
+    clientSeed: string,
+    nonce: number,
+    options: ReplayOptions,
+  ): Record<string, any>;
+
   // -----------------------------------------------------------------------
-  // Balance helpers — all use Prisma interactive transactions for atomicity
+  // Balance helpers — all use Prisma interactive transactions for atomicity.
+  // During demo play (see demo.service) they use the demo player's Redis
+  // balance, seeds and history instead.
   // -----------------------------------------------------------------------
 
   protected async validateBet(
@@ -89,6 +132,8 @@ export abstract class BaseGame {
       );
     }
 
+    if (isDemoPlay()) return;
+
     // Check user is not banned / self-excluded
     const user = await prisma.user.findUnique({
       where: { id: userId },
@@ -143,16 +188,19 @@ export abstract class BaseGame {
       wallet = newWallet;
     }
 
-    if (wallet.balance.toNumber() < amount) {
+    // Stakes are paid from cash first, then from bonus funds
+    const available = wallet.balance.add(wallet.bonusBalance).toNumber();
+    if (available < amount) {
       throw new GameError(
         'INSUFFICIENT_BALANCE',
-        `Insufficient ${currency} balance. Available: ${wallet.balance.toNumber()}.`,
+        `Insufficient ${currency} balance. Available: ${available}.`,
       );
     }
   }
 
   /**
-   * Atomically deduct balance and record the BET transaction.
+   * Atomically check the user's loss limits, deduct the stake (cash first,
+   * then bonus funds) and record the BET transaction.
    */
   protected async deductBalance(
     userId: string,
@@ -163,7 +211,20 @@ export abstract class BaseGame {
       throw new GameError('BET_INVALID', 'Bet amount must be a valid number.');
     }
 
-    return prisma.$transaction(async (tx) => {
+    if (isDemoPlay()) {
+      await deductDemoBalance(userId, amount, currency);
+      return '';
+    }
+
+    const { id, split, hasBonus } = await prisma.$transaction(async (tx) => {
+      // Responsible gambling: the bet must fit inside the user's loss limits.
+      // The user row lock serializes this with the user's other wagers.
+      await tx.$queryRaw`SELECT id FROM users WHERE id = ${userId} FOR UPDATE`;
+      const lossBreach = await checkLossLimit(userId, currency, new Decimal(amount.toFixed(8)), tx);
+      if (lossBreach) {
+        throw new GameError(lossBreach.code, lossBreach.message);
+      }
+
       let wallet = await tx.wallet.findFirst({
         where: {
           userId,
@@ -184,16 +245,12 @@ export abstract class BaseGame {
         });
       }
 
-      if (wallet.balance.toNumber() < amount) {
+      const stakeSplit = splitStake(wallet.balance, wallet.bonusBalance, new Decimal(amount.toFixed(8)));
+      if (!stakeSplit) {
         throw new GameError('INSUFFICIENT_BALANCE', 'Insufficient balance.');
       }
 
-      await tx.wallet.update({
-        where: { id: wallet.id },
-        data: {
-          balance: { decrement: new Decimal(amount.toFixed(8)) },
-        },
-      });
+      await debitStake(tx, wallet.id, stakeSplit);
 
       const tx_record = await tx.transaction.create({
         data: {
@@ -201,15 +258,23 @@ export abstract class BaseGame {
           type: 'BET',
           amount: new Decimal(amount.toFixed(8)),
           status: 'COMPLETED',
+          ...(stakeSplit.bonus.gt(0) ? { metadata: { bonusAmount: stakeSplit.bonus.toString() } } : {}),
         },
       });
 
-      return tx_record.id;
+      return { id: tx_record.id, split: stakeSplit, hasBonus: wallet.bonusBalance.gt(0) };
     });
+
+    if (hasBonus) {
+      await this.trackStakeSplit(userId, currency, split);
+    }
+
+    return id;
   }
 
   /**
-   * Atomically credit winnings and record the WIN transaction.
+   * Atomically credit winnings and record the WIN transaction. The share of
+   * the round's stake that came from bonus funds is paid back to bonus funds.
    */
   protected async creditWinnings(
     userId: string,
@@ -221,6 +286,13 @@ export abstract class BaseGame {
     }
     if (amount <= 0) return '';
 
+    if (isDemoPlay()) {
+      await creditDemoBalance(userId, amount, currency);
+      return '';
+    }
+
+    const bonusShare = await this.getStakeBonusShare(userId, currency);
+
     return prisma.$transaction(async (tx) => {
       let wallet = await tx.wallet.findFirst({
         where: {
@@ -242,12 +314,7 @@ export abstract class BaseGame {
         });
       }
 
-      await tx.wallet.update({
-        where: { id: wallet.id },
-        data: {
-          balance: { increment: new Decimal(amount.toFixed(8)) },
-        },
-      });
+      const credited = await creditStakeReturn(tx, wallet.id, new Decimal(amount.toFixed(8)), bonusShare);
 
       const tx_record = await tx.transaction.create({
         data: {
@@ -255,6 +322,7 @@ export abstract class BaseGame {
           type: 'WIN',
           amount: new Decimal(amount.toFixed(8)),
           status: 'COMPLETED',
+          ...(credited.bonus.gt(0) ? { metadata: { bonusAmount: credited.bonus.toString() } } : {}),
         },
       });
 
@@ -268,6 +336,7 @@ export abstract class BaseGame {
   protected async recordRound(data: {
     userId: string;
     gameSlug: string;
+    currency: string;
     betAmount: number;
     payout: number;
     multiplier: number;
@@ -282,6 +351,21 @@ export abstract class BaseGame {
     const payout = typeof data.payout === 'number' && !isNaN(data.payout) ? data.payout : 0;
     const multiplier = typeof data.multiplier === 'number' && !isNaN(data.multiplier) ? data.multiplier : 0;
 
+    // Demo rounds stay out of CasinoRound, stats, jackpots, tournaments and the feed
+    if (isDemoPlay()) {
+      return recordDemoRound(data.userId, {
+        game: data.gameSlug,
+        currency: data.currency,
+        betAmount,
+        payout,
+        multiplier,
+        result: data.result,
+        serverSeedHash: data.serverSeedHash,
+        clientSeed: data.clientSeed,
+        nonce: data.nonce,
+      });
+    }
+
     const round = await prisma.casinoRound.create({
       data: {
         userId: data.userId,
@@ -298,6 +382,11 @@ export abstract class BaseGame {
       },
     });
 
+    // The round is closed: forget its stake split
+    redis.del(this.stakeSplitKey(data.userId, data.currency)).catch(() => {
+      /* ignore */
+    });
+
     // Fire-and-forget: increment play count
     prisma.casinoGame
       .updateMany({
@@ -308,16 +397,50 @@ export abstract class BaseGame {
         /* ignore */
       });
 
-    // Fire-and-forget: update user totalWagered
-    prisma.user
-      .update({
-        where: { id: data.userId },
-        data: { totalWagered: { increment: new Decimal(betAmount.toFixed(8)) } },
-      })
+    // Fire-and-forget: reward pipeline (totalWagered, rakeback, VIP, referrals).
+    // Lazy import: the pipeline pulls in the BullMQ queues.
+    import('../../modules/rewards/wager.service.js')
+      .then(({ queueWager }) =>
+        queueWager({
+          key: `round-${round.id}`,
+          userId: data.userId,
+          currency: data.currency,
+          amount: betAmount.toFixed(8),
+          houseEdge: String(this.houseEdge),
+          game: data.gameSlug,
+        }),
+      )
       .catch(() => {
         /* ignore */
       });
 
+    // Fire-and-forget: risk profile update
+    void recordCasinoRound({
+      userId: data.userId,
+      currency: data.currency,
+      betAmount,
+      payout,
+    });
+
+    // Fire-and-forget: jackpot contribution and draw (Jackpot Slots runs its own jackpot)
+    if (data.gameSlug !== 'jackpotslots') {
+      jackpotService.processBet(data.userId, betAmount, data.currency, data.gameSlug).catch(() => {
+        /* ignore */
+      });
+    }
+
+    // Fire-and-forget: tournament scores
+    recordTournamentRound({
+      userId: data.userId,
+      gameSlug: data.gameSlug,
+      currency: data.currency,
+      betAmount,
+      payout,
+      multiplier,
+    }).catch(() => {
+      /* ignore */
+    });
+
     // Push to live feed (Redis list, keep last 50)
     const feedEntry = JSON.stringify({
       roundId: round.id,
@@ -343,6 +466,8 @@ export abstract class BaseGame {
    * Get the active provably fair seed pair for a user, or create one.
    */
   protected async getUserSeeds(userId: string): Promise<UserSeeds> {
+    if (isDemoPlay()) return getDemoSeeds(userId);
+
     let seed = await prisma.provablyFairSeed.findFirst({
       where: {
         userId,
@@ -379,6 +504,8 @@ export abstract class BaseGame {
    * Increment the nonce for the user's active seed pair.
    */
   protected async incrementNonce(userId: string): Promise<void> {
+    if (isDemoPlay()) return incrementDemoNonce(userId);
+
     const seed = await prisma.provablyFairSeed.findFirst({
       where: { userId, isRevealed: false },
       orderBy: { createdAt: 'desc' },
@@ -402,6 +529,8 @@ export abstract class BaseGame {
    * the displayed balance without a separate fetch.
    */
   async getBalance(userId: string, currency: string): Promise<number> {
+    if (isDemoPlay()) return getDemoBalance(userId, currency);
+
     const wallet = await prisma.wallet.findFirst({
       where: {
         userId,
@@ -416,6 +545,38 @@ export abstract class BaseGame {
   // Helpers
   // -----------------------------------------------------------------------
 
+  private stakeSplitKey(userId: string, currency: string): string {
+    return `casino:stake-split:${userId}:${this.slug}:${currency}`;
+  }
+
+  /**
+   * Remember how much of the open round's stake came from bonus funds. Rounds
+   * of stateful games span several requests, so this lives in Redis until
+   * recordRound closes the round.
+   */
+  private async trackStakeSplit(userId: string, currency: string, split: StakeSplit): Promise<void> {
+    const key = this.stakeSplitKey(userId, currency);
+    await redis
+      .multi()
+      .hincrbyfloat(key, 'total', split.cash.add(split.bonus).toNumber())
+      .hincrbyfloat(key, 'bonus', split.bonus.toNumber())
+      .expire(key, STAKE_SPLIT_TTL_SECONDS)
+      .exec()
+      .catch(() => {
+        /* ignore: winnings are then paid as cash */
+      });
+  }
+
+  private async getStakeBonusShare(userId: string, currency: string): Promise<Decimal> {
+    try {
+      const split = await redis.hgetall(this.stakeSplitKey(userId, currency));
+      if (!split.total || !split.bonus) return new Decimal(0);
+      return bonusShareOf(new Decimal(split.total), new Decimal(split.bonus));
+    } catch {
+      return new Decimal(0);
+    }
+  }
+
   private generateDefaultClientSeed(): string {
     return crypto.randomBytes(16).toString('hex');
   }
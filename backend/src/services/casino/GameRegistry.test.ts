@@ -0,0 +1,290 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { redis } from '../../lib/redis.js';
+import { getDemoHistory, runAsDemo } from '../../modules/casino/demo.service.js';
+import { gameRegistry } from './GameRegistry.js';
+import { ProvablyFairService } from './ProvablyFairService.js';
+
+// ---------------------------------------------------------------------------
+// Replay determinism
+// ---------------------------------------------------------------------------
+// A round is verified by feeding its stored `result` (plus the stake) back
+// into the game's replay(). For every registered game, replay a sample round
+// and check that replaying its stored form reproduces it exactly.
+// ---------------------------------------------------------------------------
+
+const BET_AMOUNT = 1.5;
+
+/**
+ * Games not played through play() below: rounds that settle over several
+ * requests, and Jackpot Slots, which reads its jackpot pools from the database.
+ */
+const UNPLAYED_GAMES = new Set([
+  'mines',
+  'blackjack',
+  'hilo',
+  'tower',
+  'video-poker',
+  'dragontower',
+  'minesweeper',
+  'poker',
+  'ludo',
+  'jackpotslots',
+]);
+
+/** Player choices for one sample round of every registered game. */
+const SAMPLE_OPTIONS: Record<string, Record<string, any>> = {
+  dice: { target: 50, isOver: true },
+  mines: { mineCount: 3, revealed: [0, 6, 12, 18, 24] },
+  plinko: { rows: 16, risk: 'high' },
+  coinflip: { choice: 'heads' },
+  roulette: {
+    bets: [
+      { type: 'red', amount: 1 },
+      { type: 'straight', numbers: [17], amount: 0.5 },
+    ],
+  },
+  blackjack: { actions: ['stand'] },
+  hilo: { guesses: ['higher', 'lower', 'higher'] },
+  wheel: { riskLevel: 'medium' },
+  tower: { difficulty: 'easy', revealed: [0, 1, 2, 3] },
+  limbo: { targetMultiplier: 2 },
+  keno: { picks: [40, 3, 17, 22, 9] },
+  'video-poker': { holds: [true, false, true, false, false] },
+  baccarat: { betOn: 'banker' },
+  slots: {},
+  rps: { playerChoice: 'rock' },
+  numberguess: { guess: 42 },
+  scratchcard: { cardType: 'premium' },
+  thimbles: { guess: 1 },
+  dragontower: { difficulty: 'hard', revealed: [0, 1, 2] },
+  sicbo: {
+    bets: [
+      { type: 'big', amount: 1 },
+      { type: 'total', value: 10, amount: 0.5 },
+    ],
+  },
+  craps: {
+    bets: [
+      { type: 'pass', amount: 1 },
+      { type: 'field', amount: 0.5 },
+    ],
+  },
+  aviator: { targetMultiplier: 1.8 },
+  caseopening: { caseType: 'gold' },
+  bingo: { cardCount: 3, betPerCard: 0.5 },
+  faro: { bet: 'high', cardValue: 7 },
+  minesweeper: { mineCount: 10, clicks: [{ x: 0, y: 0 }, { x: 7, y: 7 }, { x: 3, y: 4 }] },
+  horseracing: { selectedHorse: 3, betType: 'place' },
+  slots5: { lines: 20, betPerLine: 0.075, bonusRound: false },
+  jackpotslots: { betPerLine: 0.075, bonusRound: false },
+  poker: { actions: ['call', 'check', 'raise', 'check'] },
+  trenball: { team: 'red', autoCashout: 2 },
+  wheelofmillions: {},
+  ludo: { autoPlay: true },
+  virtualsports: { sport: 'football', homeTeam: 'FC Bayern', awayTeam: 'Real Madrid', userBet: 'home', odds: 1.9 },
+};
+
+/** What the round's `result` column would hold after a JSON round-trip. */
+function asStored(result: Record<string, any>): Record<string, any> {
+  return JSON.parse(JSON.stringify(result));
+}
+
+describe('GameRegistry.replay', () => {
+  const fair = new ProvablyFairService();
+  const { seed: serverSeed } = fair.generateServerSeed();
+  const clientSeed = 'replay-test-client-seed';
+
+  test('every registered game has sample options', () => {
+    const missing = gameRegistry.getAll().map((g) => g.slug).filter((slug) => !(slug in SAMPLE_OPTIONS));
+    assert.deepEqual(missing, []);
+  });
+
+  for (const game of gameRegistry.getAll()) {
+    test(`${game.slug}: replaying the stored result reproduces it`, () => {
+      const options = SAMPLE_OPTIONS[game.slug] ?? {};
+
+      for (let nonce = 0; nonce < 25; nonce++) {
+        const stored = asStored(
+          gameRegistry.replay(game.slug, serverSeed, clientSeed, nonce, { ...options, betAmount: BET_AMOUNT }),
+        );
+        const replayed = asStored(
+          gameRegistry.replay(game.slug, serverSeed, clientSeed, nonce, { ...stored, betAmount: BET_AMOUNT }),
+        );
+
+        assert.deepStrictEqual(replayed, stored, `nonce ${nonce}`);
+      }
+    });
+
+    test(`${game.slug}: outcome depends on the seeds`, () => {
+      const options = { ...(SAMPLE_OPTIONS[game.slug] ?? {}), betAmount: BET_AMOUNT };
+      const results = new Set<string>();
+
+      for (let nonce = 0; nonce < 25; nonce++) {
+        results.add(JSON.stringify(gameRegistry.replay(game.slug, serverSeed, clientSeed, nonce, options)));
+      }
+
+      assert.ok(results.size > 1, 'every nonce produced the same outcome');
+    });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Played rounds
+// ---------------------------------------------------------------------------
+// Plays rounds of every instant game through its real play() as a demo
+// player, whose balance, seeds and round history live in Redis (replaced
+// below by an in-memory store, so no database or Redis server is needed).
+// Replaying each stored round from its seeds and stored `result` must give
+// back that result and the payout the round recorded. UNPLAYED_GAMES are
+// only covered by the determinism tests above.
+// ---------------------------------------------------------------------------
+
+/** Player choices as the play endpoint takes them, for every instant game. */
+const PLAY_OPTIONS: Record<string, Record<string, any>> = {
+  dice: { target: 50, isOver: true },
+  plinko: { rows: 16, risk: 'high' },
+  coinflip: { choice: 'heads' },
+  roulette: SAMPLE_OPTIONS.roulette,
+  wheel: { riskLevel: 'medium' },
+  limbo: { targetMultiplier: 2 },
+  keno: { picks: [40, 3, 17, 22, 9] },
+  baccarat: { betOn: 'banker' },
+  slots: {},
+  rps: { choice: 'rock' },
+  numberguess: { guess: 42 },
+  scratchcard: { cardType: 'premium' },
+  thimbles: { guess: 1 },
+  sicbo: SAMPLE_OPTIONS.sicbo,
+  craps: SAMPLE_OPTIONS.craps,
+  aviator: { targetMultiplier: 1.8 },
+  caseopening: { caseType: 'gold' },
+  bingo: { cardCount: 3, betPerCard: 0.5 },
+  faro: { bet: 'high', cardValue: 7 },
+  horseracing: { horse: 3, betType: 'place' },
+  slots5: { lines: 20, betPerLine: 0.075, bonusRound: false },
+  trenball: { team: 'red', autoCashout: 2 },
+  wheelofmillions: {},
+  virtualsports: { sport: 'football', homeTeam: 'FC Bayern', awayTeam: 'Real Madrid', betType: 'home' },
+};
+
+const ROUNDS_PER_GAME = 10;
+
+/**
+ * Replace the shared Redis client's commands used by demo play with an
+ * in-memory store. Returns the store (hashes are Maps, lists are arrays).
+ */
+function stubRedis(): Map<string, any> {
+  const store = new Map<string, any>();
+  const hash = (key: string): Map<string, string> => {
+    if (!store.has(key)) store.set(key, new Map());
+    return store.get(key);
+  };
+
+  const stub = {
+    // Only the demo balance script is evaluated: add ARGV[2] to field ARGV[1],
+    // starting from ARGV[3]; refuse to go negative
+    async eval(_script: string, _keys: number, key: string, field: string, delta: string, start: string) {
+      const next = parseFloat(hash(key).get(field) ?? start) + parseFloat(delta);
+      if (next < 0) return null;
+      hash(key).set(field, next.toFixed(8));
+      return next.toFixed(8);
+    },
+    async hget(key: string, field: string) {
+      return store.get(key)?.get(field) ?? null;
+    },
+    async hgetall(key: string) {
+      return Object.fromEntries(store.get(key) ?? []);
+    },
+    async hset(key: string, fields: Record<string, string> | string, value?: string) {
+      const entries = typeof fields === 'string' ? [[fields, value!]] : Object.entries(fields);
+      for (const [field, v] of entries) hash(key).set(field, String(v));
+      return entries.length;
+    },
+    async hsetnx(key: string, field: string, value: string) {
+      if (hash(key).has(field)) return 0;
+      hash(key).set(field, value);
+      return 1;
+    },
+    async hincrby(key: string, field: string, by: number) {
+      const next = parseInt(hash(key).get(field) ?? '0', 10) + by;
+      hash(key).set(field, String(next));
+      return next;
+    },
+    async expire() {
+      return 1;
+    },
+    async lrange(key: string, start: number, stop: number) {
+      return (store.get(key) ?? []).slice(start, stop + 1);
+    },
+    multi() {
+      const ops: Array<() => void> = [];
+      const pipeline = {
+        lpush(key: string, value: string) {
+          ops.push(() => store.set(key, [value, ...(store.get(key) ?? [])]));
+          return pipeline;
+        },
+        ltrim(key: string, start: number, stop: number) {
+          ops.push(() => store.set(key, (store.get(key) ?? []).slice(start, stop + 1)));
+          return pipeline;
+        },
+        expire() {
+          return pipeline;
+        },
+        async exec() {
+          ops.forEach((op) => op());
+          return [];
+        },
+      };
+      return pipeline;
+    },
+  };
+
+  Object.assign(redis, stub);
+  return store;
+}
+
+describe('GameRegistry.replay of played rounds', () => {
+  const store = stubRedis();
+
+  test('every instant game has play options', () => {
+    const missing = gameRegistry.getAll()
+      .map((g) => g.slug)
+      .filter((slug) => !(slug in PLAY_OPTIONS) && !UNPLAYED_GAMES.has(slug));
+    assert.deepEqual(missing, []);
+  });
+
+  for (const [slug, options] of Object.entries(PLAY_OPTIONS)) {
+    test(`${slug}: replaying a played round gives its stored result and payout`, async () => {
+      const game = gameRegistry.get(slug)!;
+      const player = { id: `demo:v:replay-${slug}`, userId: null };
+
+      const paid: number[] = [];
+      for (let i = 0; i < ROUNDS_PER_GAME; i++) {
+        const played = await runAsDemo(player, () =>
+          game.play(player.id, { amount: BET_AMOUNT, currency: 'USDT', options }),
+        );
+        paid.unshift(played.payout);
+      }
+
+      const serverSeed = store.get(`casino:${player.id}:seed`).get('serverSeed');
+      const rounds = await getDemoHistory(player.id, ROUNDS_PER_GAME);
+      assert.equal(rounds.length, ROUNDS_PER_GAME);
+
+      rounds.forEach((round, i) => {
+        const replayed = asStored(
+          game.replay(serverSeed, round.clientSeed, round.nonce, { ...round.result, betAmount: round.betAmount }),
+        );
+        assert.deepStrictEqual(replayed, round.result, `nonce ${round.nonce}`);
+
+        // The recorded payout is what the player was paid, and matches the
+        // payout the replayed result states (for games whose result has one)
+        assert.equal(round.payout, paid[i], `nonce ${round.nonce}`);
+        const statedPayout = replayed.payout ?? replayed.totalPayout;
+        if (statedPayout !== undefined) {
+          assert.ok(Math.abs(statedPayout - round.payout) < 1e-8, `nonce ${round.nonce}: ${statedPayout} != ${round.payout}`);
+        }
+      });
+    });
+  }
+});
@@ -1,4 +1,4 @@
-import { BaseGame } from './BaseGame.js';
+import { BaseGame, GameError, type ReplayOptions } from './BaseGame.js';
 import { diceGame } from '../../modules/casino/games/dice/dice.service.js';
 import { minesGame } from '../../modules/casino/games/mines/mines.service.js';
 import { plinkoGame } from '../../modules/casino/games/plinko/plinko.service.js';
@@ -95,6 +95,24 @@ class GameRegistry {
     return Array.from(this.games.values());
   }
 
+  /**
+   * Recompute a round of the given game from its seeds and the options
+   * recorded with it (see BaseGame.replay).
+   */
+  replay(
+    slug: string,
+    serverSeed: string,
+    clientSeed: string,
+    nonce: number,
+    options: ReplayOptions,
+  ): Record<string, any> {
+    const game = this.get(slug);
+    if (!game) {
+      throw new GameError('GAME_NOT_FOUND', `Game "${slug}" not found.`);
+    }
+    return game.replay(serverSeed, clientSeed, nonce, options);
+  }
+
   /**
    * Return game catalog data suitable for the /games endpoint.
    */
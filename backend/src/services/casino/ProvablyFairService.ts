@@ -179,6 +179,13 @@ export class ProvablyFairService {
         return { hash, result: draws };
       }
 
+      case 'jackpot':
+        // `nonce` is the draw's jackpot nonce, not a game round nonce
+        return {
+          hash,
+          result: this.generateResult(serverSeed, `${clientSeed}:jackpot`, nonce),
+        };
+
       default:
         return {
           hash,
@@ -1,3 +1,3 @@
 export { ProvablyFairService, provablyFairService } from './ProvablyFairService.js';
-export { BaseGame, GameResult, BetRequest, GameError, UserSeeds } from './BaseGame.js';
+export { BaseGame, GameResult, BetRequest, GameError, UserSeeds, ReplayOptions } from './BaseGame.js';
 export { gameRegistry } from './GameRegistry.js';
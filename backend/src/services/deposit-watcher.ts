@@ -0,0 +1,370 @@
+// =============================================================================
+// EVM Deposit Watcher
+//
+// Scans every active EVM CurrencyNetwork that has an `rpcUrl` for deposits to
+// the HD-derived addresses in `deposit_addresses`:
+//   - native transfers: top-level transactions whose `to` is a deposit address
+//   - ERC-20 transfers: Transfer logs of the network's token contract
+// Detected transfers wait in Redis until they have `confirmations` blocks on
+// top. The receipt is then re-checked (succeeded, still in the same block)
+// and processDeposit is called once per transaction and deposit address.
+//
+// Networks sharing an rpcUrl are scanned together as one chain. Runs as the
+// repeatable `evm-deposit-scan` job on the deposit-detection queue.
+//
+// Deposits held for breaching a deposit limit leave the pending set once
+// processed; the repeatable `held-deposit-release` job re-checks them and
+// credits each once the user's limit allows it.
+// =============================================================================
+
+import { dataSlice, formatUnits, getAddress, id, type JsonRpcProvider } from 'ethers';
+import { prisma } from '../lib/prisma.js';
+import { redis } from '../lib/redis.js';
+import { depositDetectionQueue } from '../queues/index.js';
+import { logger } from '../middleware/logger.js';
+import { getEvmProvider, getTokenDecimals, isEvmNetwork } from '../modules/wallets/evm.service.js';
+import { processDeposit } from '../modules/wallets/deposit.service.js';
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** How often the scan job runs (ms) */
+const SCAN_INTERVAL_MS = 15_000; // 15 seconds
+
+/** How often held deposits are re-checked against deposit limits (ms) */
+const HELD_RELEASE_INTERVAL_MS = 15 * 60_000; // 15 minutes
+
+/** Upper bound on blocks scanned per chain per run */
+const MAX_BLOCKS_PER_SCAN = 200;
+
+/** Where scanning starts the first time a chain is seen */
+const INITIAL_LOOKBACK_BLOCKS = 100;
+
+/** Per-chain scan lock, in case a run outlives the interval */
+const LOCK_TTL_SECONDS = 120;
+
+/** How long a credited transfer is remembered, to never process it twice */
+const PROCESSED_TTL_SECONDS = 90 * 24 * 60 * 60; // 90 days
+
+const TRANSFER_TOPIC = id('Transfer(address,address,uint256)');
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface WatchedNetwork {
+  id: string;
+  networkName: string;
+  contractAddress: string | null;
+  confirmations: number;
+  /** Lowercased address -> address as stored on the DepositAddress row */
+  addresses: Map<string, string>;
+}
+
+interface PendingDeposit {
+  networkId: string;
+  txHash: string;
+  address: string;
+  /** Amount in the token's base units */
+  amount: string;
+  decimals: number;
+  blockNumber: number;
+  blockHash: string;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Active EVM networks with an RPC endpoint and at least one deposit address,
+ * grouped by rpcUrl.
+ */
+async function loadWatchedChains(): Promise<Map<string, WatchedNetwork[]>> {
+  const networks = (
+    await prisma.currencyNetwork.findMany({
+      where: { isActive: true, rpcUrl: { not: null } },
+      select: { id: true, networkName: true, contractAddress: true, confirmations: true, rpcUrl: true },
+    })
+  ).filter((n) => isEvmNetwork(n.networkName));
+
+  const chains = new Map<string, WatchedNetwork[]>();
+  if (networks.length === 0) return chains;
+
+  const depositAddresses = await prisma.depositAddress.findMany({
+    where: { networkId: { in: networks.map((n) => n.id) } },
+    select: { networkId: true, address: true },
+  });
+
+  for (const network of networks) {
+    const addresses = new Map(
+      depositAddresses
+        .filter((a) => a.networkId === network.id)
+        .map((a) => [a.address.toLowerCase(), a.address] as const),
+    );
+    if (addresses.size === 0) continue;
+
+    const chain = chains.get(network.rpcUrl!) ?? [];
+    chain.push({
+      id: network.id,
+      networkName: network.networkName,
+      contractAddress: network.contractAddress,
+      confirmations: network.confirmations,
+      addresses,
+    });
+    chains.set(network.rpcUrl!, chain);
+  }
+
+  return chains;
+}
+
+/**
+ * Scan blocks after the chain's cursor for transfers to deposit addresses and
+ * add them to the pending set. Returns the number of transfers found.
+ */
+async function scanNewBlocks(
+  provider: JsonRpcProvider,
+  rpcUrl: string,
+  chainId: bigint,
+  head: number,
+  networks: WatchedNetwork[],
+): Promise<number> {
+  const cursorKey = `deposits:evm:cursor:${chainId}`;
+  const cursor = await redis.get(cursorKey);
+  const fromBlock = cursor !== null ? parseInt(cursor, 10) + 1 : Math.max(head - INITIAL_LOOKBACK_BLOCKS, 0);
+  if (fromBlock > head) return 0;
+  const toBlock = Math.min(head, fromBlock + MAX_BLOCKS_PER_SCAN - 1);
+
+  // Several transfers to the same address in one transaction are summed
+  const found = new Map<string, PendingDeposit>();
+  const addDeposit = (deposit: PendingDeposit) => {
+    const key = `${deposit.networkId}:${deposit.txHash}:${deposit.address}`;
+    const existing = found.get(key);
+    if (existing) {
+      existing.amount = (BigInt(existing.amount) + BigInt(deposit.amount)).toString();
+    } else {
+      found.set(key, deposit);
+    }
+  };
+
+  // Native transfers: walk every block's transactions
+  const nativeNetworks = networks.filter((n) => !n.contractAddress);
+  if (nativeNetworks.length > 0) {
+    for (let blockNumber = fromBlock; blockNumber <= toBlock; blockNumber++) {
+      const block = await provider.getBlock(blockNumber, true);
+      if (!block?.hash) continue;
+
+      for (const tx of block.prefetchedTransactions) {
+        if (!tx.to || tx.value === 0n) continue;
+        const to = tx.to.toLowerCase();
+        const network = nativeNetworks.find((n) => n.addresses.has(to));
+        if (!network) continue;
+
+        addDeposit({
+          networkId: network.id,
+          txHash: tx.hash,
+          address: network.addresses.get(to)!,
+          amount: tx.value.toString(),
+          decimals: 18,
+          blockNumber,
+          blockHash: block.hash,
+        });
+      }
+    }
+  }
+
+  // ERC-20 transfers: Transfer(from, to, value) logs of the watched tokens
+  const tokenNetworks = networks.filter((n) => n.contractAddress);
+  if (tokenNetworks.length > 0) {
+    const logs = await provider.getLogs({
+      fromBlock,
+      toBlock,
+      address: tokenNetworks.map((n) => n.contractAddress!),
+      topics: [TRANSFER_TOPIC],
+    });
+
+    for (const log of logs) {
+      if (log.topics.length < 3 || log.removed) continue;
+      const network = tokenNetworks.find((n) => n.contractAddress!.toLowerCase() === log.address.toLowerCase());
+      const to = getAddress(dataSlice(log.topics[2], 12)).toLowerCase();
+      if (!network || !network.addresses.has(to)) continue;
+
+      const value = BigInt(log.data);
+      if (value === 0n) continue;
+
+      addDeposit({
+        networkId: network.id,
+        txHash: log.transactionHash,
+        address: network.addresses.get(to)!,
+        amount: value.toString(),
+        decimals: await getTokenDecimals(rpcUrl, network.contractAddress!),
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+      });
+    }
+  }
+
+  if (found.size > 0) {
+    await redis.hset(
+      `deposits:evm:pending:${chainId}`,
+      Object.fromEntries([...found].map(([key, deposit]) => [key, JSON.stringify(deposit)])),
+    );
+    logger.info({ chainId: chainId.toString(), fromBlock, toBlock, found: found.size }, '[DepositWatcher] Deposits detected');
+  }
+
+  await redis.set(cursorKey, String(toBlock));
+  return found.size;
+}
+
+/**
+ * Credit pending transfers that have enough confirmations. Returns the number
+ * passed to processDeposit.
+ */
+async function confirmPending(
+  provider: JsonRpcProvider,
+  chainId: bigint,
+  head: number,
+  networks: WatchedNetwork[],
+): Promise<number> {
+  const pendingKey = `deposits:evm:pending:${chainId}`;
+  const pending = await redis.hgetall(pendingKey);
+  let processed = 0;
+
+  for (const [key, raw] of Object.entries(pending)) {
+    const deposit = JSON.parse(raw) as PendingDeposit;
+    const network = networks.find((n) => n.id === deposit.networkId);
+    if (!network) continue; // Network deactivated: keep waiting
+
+    const confirmations = head - deposit.blockNumber + 1;
+    if (confirmations < network.confirmations) continue;
+
+    const receipt = await provider.getTransactionReceipt(deposit.txHash);
+    if (!receipt || receipt.status !== 1) {
+      // Dropped by a reorg or reverted: nothing arrived
+      await redis.hdel(pendingKey, key);
+      logger.warn({ txHash: deposit.txHash, networkId: deposit.networkId }, '[DepositWatcher] Deposit transaction no longer valid, dropped');
+      continue;
+    }
+    if (receipt.blockHash !== deposit.blockHash) {
+      // Re-mined in another block after a reorg: count confirmations from there
+      await redis.hset(
+        pendingKey,
+        key,
+        JSON.stringify({ ...deposit, blockNumber: receipt.blockNumber, blockHash: receipt.blockHash }),
+      );
+      continue;
+    }
+
+    const processedKey = `deposits:evm:processed:${key}`;
+    const claimed = await redis.set(processedKey, '1', 'EX', PROCESSED_TTL_SECONDS, 'NX');
+    if (!claimed) {
+      await redis.hdel(pendingKey, key);
+      continue;
+    }
+
+    try {
+      const result = await processDeposit(
+        deposit.address,
+        formatUnits(BigInt(deposit.amount), deposit.decimals),
+        deposit.txHash,
+        confirmations,
+      );
+      await redis.hdel(pendingKey, key);
+      processed++;
+      logger.info(
+        { txHash: deposit.txHash, network: network.networkName, amount: result.amount, currency: result.currency, status: result.status },
+        '[DepositWatcher] Deposit processed',
+      );
+    } catch (err) {
+      // Left pending and retried on the next scan
+      await redis.del(processedKey);
+      const msg = err instanceof Error ? err.message : String(err);
+      logger.error({ error: msg, txHash: deposit.txHash, networkId: deposit.networkId }, '[DepositWatcher] Failed to process deposit');
+    }
+  }
+
+  return processed;
+}
+
+async function scanChain(rpcUrl: string, networks: WatchedNetwork[]): Promise<{ detected: number; processed: number }> {
+  const provider = getEvmProvider(rpcUrl);
+  const { chainId } = await provider.getNetwork();
+
+  const lockKey = `deposits:evm:lock:${chainId}`;
+  const locked = await redis.set(lockKey, '1', 'EX', LOCK_TTL_SECONDS, 'NX');
+  if (!locked) return { detected: 0, processed: 0 };
+
+  try {
+    const head = await provider.getBlockNumber();
+    const detected = await scanNewBlocks(provider, rpcUrl, chainId, head, networks);
+    const processed = await confirmPending(provider, chainId, head, networks);
+    return { detected, processed };
+  } finally {
+    await redis.del(lockKey);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Main Functions
+// ---------------------------------------------------------------------------
+
+/**
+ * One scan of every watched EVM chain. A chain that fails (e.g. its RPC node
+ * is down) is logged and skipped; its cursor is left where it was.
+ */
+export async function scanEvmDeposits(): Promise<{ chains: number; detected: number; processed: number }> {
+  const chains = await loadWatchedChains();
+  let detected = 0;
+  let processed = 0;
+
+  for (const [rpcUrl, networks] of chains) {
+    try {
+      const result = await scanChain(rpcUrl, networks);
+      detected += result.detected;
+      processed += result.processed;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logger.error(
+        { error: msg, networks: networks.map((n) => n.networkName) },
+        '[DepositWatcher] Chain scan failed',
+      );
+    }
+  }
+
+  return { chains: chains.size, detected, processed };
+}
+
+/**
+ * Registers the repeatable scan job (idempotent across restarts).
+ */
+export async function scheduleEvmDepositScan(): Promise<void> {
+  await depositDetectionQueue.add(
+    'evm-deposit-scan',
+    {},
+    {
+      repeat: { every: SCAN_INTERVAL_MS },
+      jobId: 'evm-deposit-scan',
+      attempts: 1,
+      removeOnComplete: true,
+      removeOnFail: { count: 100 },
+    },
+  );
+}
+
+/**
+ * Registers the repeatable held-deposit release job (idempotent across restarts).
+ */
+export async function scheduleHeldDepositRelease(): Promise<void> {
+  await depositDetectionQueue.add(
+    'held-deposit-release',
+    {},
+    {
+      repeat: { every: HELD_RELEASE_INTERVAL_MS },
+      jobId: 'held-deposit-release',
+      attempts: 1,
+      removeOnComplete: true,
+      removeOnFail: { count: 100 },
+    },
+  );
+}
@@ -334,6 +334,114 @@ function calculateMarginLiveOdds(
   return { homeWin, draw: 0, awayWin };
 }
 
+// ---------------------------------------------------------------------------
+// Final Score Distribution (Bet Builder / same-game pricing)
+// Joint distribution of the final score, so that legs from different markets
+// of the same event can be priced together instead of multiplied.
+// ---------------------------------------------------------------------------
+
+export interface ScoreOutcome {
+  home: number;
+  away: number;
+  prob: number;
+}
+
+export interface FinalScoreDistribution {
+  hasDraws: boolean;
+  outcomes: ScoreOutcome[];
+}
+
+function logFactorial(n: number): number {
+  let result = 0;
+  for (let i = 2; i <= n; i++) result += Math.log(i);
+  return result;
+}
+
+// Probability mass of additional goals for one team. Unlike poissonPMF this has
+// no k > 15 cut-off, so high-scoring sports (handball, rugby) are covered.
+function poissonMasses(lambda: number): Array<{ k: number; p: number }> {
+  if (lambda <= 0) return [{ k: 0, p: 1 }];
+  const spread = 6 * Math.sqrt(lambda);
+  const lo = Math.max(0, Math.floor(lambda - spread));
+  const hi = Math.ceil(lambda + spread) + 2;
+  const masses: Array<{ k: number; p: number }> = [];
+  for (let k = lo; k <= hi; k++) {
+    const p = Math.exp(k * Math.log(lambda) - lambda - logFactorial(k));
+    if (p >= 1e-8) masses.push({ k, p });
+  }
+  return masses;
+}
+
+// Discretised normal for the additional points of one team (margin model).
+function normalMasses(mean: number, std: number): Array<{ k: number; p: number }> {
+  if (std <= 0.5) return [{ k: Math.max(0, Math.round(mean)), p: 1 }];
+  const lo = Math.max(0, Math.floor(mean - 4 * std));
+  const hi = Math.ceil(mean + 4 * std);
+  const masses: Array<{ k: number; p: number }> = [];
+  for (let k = lo; k <= hi; k++) {
+    const p = normalCDF((k + 0.5 - mean) / std) - normalCDF((k - 0.5 - mean) / std);
+    if (p >= 1e-8) masses.push({ k, p });
+  }
+  return masses;
+}
+
+/**
+ * Distribution of the final score of an event, using the same sport configs as
+ * the live moneyline models: independent Poisson goals for draw sports and a
+ * discretised normal per team for the score-margin sports. Pre-match events are
+ * modelled from kick-off; live events from the current score and elapsed time.
+ *
+ * Returns null when the sport is not modelled or the elapsed time is unknown.
+ */
+export function buildFinalScoreDistribution(
+  sportSlug: string,
+  currentHome: number,
+  currentAway: number,
+  metadata: Record<string, unknown> | null,
+  isLive: boolean,
+): FinalScoreDistribution | null {
+  const config = ODDS_CONFIGS[sportSlug];
+  if (!config) return null;
+
+  let elapsed = 0;
+  if (isLive) {
+    const liveElapsed = getElapsedMinutes(metadata, sportSlug, config);
+    if (liveElapsed === null) return null;
+    elapsed = liveElapsed;
+  }
+
+  const timeRemaining = Math.max(0, config.totalTime - elapsed);
+  const timeRatio = timeRemaining / config.totalTime;
+
+  let homeMasses: Array<{ k: number; p: number }>;
+  let awayMasses: Array<{ k: number; p: number }>;
+  if (config.model === 'poisson') {
+    homeMasses = poissonMasses(config.avgLambdaHome * timeRatio);
+    awayMasses = poissonMasses(config.avgLambdaAway * timeRatio);
+  } else {
+    // Split the margin variance evenly between the two teams
+    const teamStd = (config.scoreStdPerMin * Math.sqrt(timeRemaining)) / Math.SQRT2;
+    homeMasses = normalMasses(config.avgLambdaHome * timeRatio, teamStd);
+    awayMasses = normalMasses(config.avgLambdaAway * timeRatio, teamStd);
+  }
+
+  const outcomes: ScoreOutcome[] = [];
+  let total = 0;
+  for (const h of homeMasses) {
+    for (const a of awayMasses) {
+      const prob = h.p * a.p;
+      if (prob < 1e-10) continue;
+      outcomes.push({ home: currentHome + h.k, away: currentAway + a.k, prob });
+      total += prob;
+    }
+  }
+
+  if (total <= 0) return null;
+  for (const o of outcomes) o.prob /= total;
+
+  return { hasDraws: config.hasDraws, outcomes };
+}
+
 // ---------------------------------------------------------------------------
 // Convert Probability to Decimal Odds with Margin
 // ---------------------------------------------------------------------------
@@ -0,0 +1,457 @@
+// =============================================================================
+// Risk Engine
+//
+// Keeps each user's UserRiskProfile current and drives automatic risk actions:
+//   - updates totals, win rate and stake statistics (USD) on every settled
+//     sportsbook bet and every casino round
+//   - detects late-odds sniping, arbitrage-style betting on stale prices and
+//     bonus abuse from the user's recent activity
+//   - raises an AdminAlert the first time a flag appears
+//   - derives riskLevel from the active flags and, unless disabled through the
+//     `risk_auto_stake_factors` site config, sets the stake factor that bet
+//     placement applies to selection max stakes
+//
+// Pricing evidence is captured per bet leg: the market overround at placement
+// and the selection's price shortly afterwards (`risk-price-check` job).
+// =============================================================================
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { redis } from '../lib/redis.js';
+import { betProcessingQueue } from '../queues/index.js';
+import { logger } from '../middleware/logger.js';
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** How long after placement the selection price is re-read (ms) */
+const PRICE_CHECK_DELAY_MS = 60_000;
+
+/** Recent activity window used for pattern detection */
+const DETECTION_WINDOW_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const RECENT_BETS = 100;
+const RECENT_ROUNDS = 500;
+
+/** Late-odds sniping: price shortened by this much within the check delay */
+const SNIPE_MOVE = 0.05;
+const SNIPE_MIN_LEGS = 10;
+const SNIPE_RATIO = 0.3;
+const SNIPE_RATIO_HIGH = 0.6;
+
+/** Stale prices: the market was arbitrageable (overround below 1) at placement */
+const STALE_MIN_LEGS = 3;
+const STALE_RATIO = 0.2;
+
+/** Bonus abuse: low-variance casino wagering while a promotion is being cleared */
+const LOW_VARIANCE_MIN_ROUNDS = 100;
+const LOW_VARIANCE_WIN_RATIO = 0.85;
+const LOW_VARIANCE_MAX_MULTIPLIER = 1.15;
+
+/** Casino rounds re-run detection at most this often per user (seconds) */
+const CASINO_DETECTION_THROTTLE_S = 300;
+
+export const RISK_LEVELS = ['NORMAL', 'ELEVATED', 'HIGH'] as const;
+export type RiskLevel = (typeof RISK_LEVELS)[number];
+
+const STAKE_FACTORS: Record<RiskLevel, Prisma.Decimal> = {
+  NORMAL: new Prisma.Decimal(1),
+  ELEVATED: new Prisma.Decimal('0.5'),
+  HIGH: new Prisma.Decimal('0.25'),
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RiskFlagCode = 'LATE_ODDS_SNIPING' | 'STALE_PRICE_ARBITRAGE' | 'BONUS_ABUSE';
+export type RiskSeverity = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export interface RiskFlag {
+  code: RiskFlagCode;
+  severity: RiskSeverity;
+  detectedAt: string;
+  details: Record<string, unknown>;
+}
+
+const FLAG_TITLES: Record<RiskFlagCode, string> = {
+  LATE_ODDS_SNIPING: 'Late-odds sniping detected',
+  STALE_PRICE_ARBITRAGE: 'Betting on stale prices detected',
+  BONUS_ABUSE: 'Possible bonus abuse',
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function toUsd(currency: string, amount: Prisma.Decimal): Promise<Prisma.Decimal> {
+  const record = await prisma.currency.findUnique({
+    where: { symbol: currency.toUpperCase() },
+    select: { exchangeRateUsd: true },
+  });
+  return amount.mul(record?.exchangeRateUsd ?? 0);
+}
+
+function toFlags(value: Prisma.JsonValue | null): RiskFlag[] {
+  return Array.isArray(value) ? (value as unknown as RiskFlag[]) : [];
+}
+
+function severityRank(severity: RiskSeverity): number {
+  return severity === 'HIGH' ? 2 : severity === 'MEDIUM' ? 1 : 0;
+}
+
+function riskLevelFor(flags: RiskFlag[]): RiskLevel {
+  const worst = Math.max(-1, ...flags.map((f) => severityRank(f.severity)));
+  if (worst >= 2) return 'HIGH';
+  if (worst >= 1) return 'ELEVATED';
+  return 'NORMAL';
+}
+
+async function isAutoStakeFactorEnabled(): Promise<boolean> {
+  const row = await prisma.siteConfig.findUnique({
+    where: { key: 'risk_auto_stake_factors' },
+    select: { value: true },
+  });
+  return row?.value !== false;
+}
+
+/**
+ * Add one settled wager to the profile's running statistics. Done in a single
+ * UPDATE so concurrent settlements (e.g. autobet) do not lose counts.
+ */
+async function addToProfile(userId: string, stakeUsd: Prisma.Decimal, profitUsd: Prisma.Decimal): Promise<void> {
+  await prisma.userRiskProfile.upsert({
+    where: { userId },
+    create: { userId },
+    update: {},
+  });
+
+  const won = profitUsd.gt(0) ? profitUsd : new Prisma.Decimal(0);
+  const lost = profitUsd.lt(0) ? profitUsd.negated() : new Prisma.Decimal(0);
+  const isWin = profitUsd.gt(0) ? 1 : 0;
+
+  await prisma.$executeRaw`
+    UPDATE "user_risk_profiles" SET
+      "totalBets" = "totalBets" + 1,
+      "totalWon"  = "totalWon" + ${won},
+      "totalLost" = "totalLost" + ${lost},
+      "winRate"   = ("winRate" * "totalBets" + ${isWin}) / ("totalBets" + 1),
+      "avgStake"  = ("avgStake" * "totalBets" + ${stakeUsd}) / ("totalBets" + 1),
+      "maxStake"  = GREATEST("maxStake", ${stakeUsd}),
+      "updatedAt" = NOW()
+    WHERE "userId" = ${userId}
+  `;
+}
+
+// ---------------------------------------------------------------------------
+// Pricing evidence
+// ---------------------------------------------------------------------------
+
+/**
+ * Record the market overround of each leg at placement and queue the delayed
+ * price check. Best-effort: failures are logged, never thrown.
+ */
+export async function captureBetPricing(betId: string): Promise<void> {
+  try {
+    const legs = await prisma.betLeg.findMany({
+      where: { betId },
+      select: {
+        id: true,
+        selection: {
+          select: {
+            market: {
+              select: { selections: { where: { status: 'ACTIVE' }, select: { odds: true } } },
+            },
+          },
+        },
+      },
+    });
+
+    for (const leg of legs) {
+      const prices = leg.selection.market.selections.filter((s) => s.odds.gt(1));
+      if (prices.length < 2) continue;
+      const overround = prices.reduce((acc, s) => acc.add(new Prisma.Decimal(1).div(s.odds)), new Prisma.Decimal(0));
+      await prisma.betLeg.update({
+        where: { id: leg.id },
+        data: { marketOverround: overround.toDecimalPlaces(8) },
+      });
+    }
+
+    await betProcessingQueue.add('risk-price-check', { betId }, {
+      delay: PRICE_CHECK_DELAY_MS,
+      jobId: `risk-price-${betId}`,
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.error({ betId, error: msg }, '[RiskEngine] Failed to capture bet pricing');
+  }
+}
+
+/**
+ * Delayed job: store each leg's selection price shortly after placement.
+ */
+export async function recordPriceAfterPlacement(betId: string): Promise<void> {
+  const legs = await prisma.betLeg.findMany({
+    where: { betId },
+    select: { id: true, selection: { select: { odds: true } } },
+  });
+  for (const leg of legs) {
+    await prisma.betLeg.update({
+      where: { id: leg.id },
+      data: { oddsAfterPlacement: leg.selection.odds },
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+async function detectOddsPatterns(userId: string, since: Date): Promise<RiskFlag[]> {
+  const bets = await prisma.bet.findMany({
+    where: {
+      userId,
+      status: { in: ['WON', 'LOST', 'CASHOUT', 'PARTIALLY_SETTLED'] },
+      createdAt: { gte: since },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: RECENT_BETS,
+    select: {
+      legs: { select: { oddsAtPlacement: true, oddsAfterPlacement: true, marketOverround: true } },
+    },
+  });
+  const legs = bets.flatMap((b) => b.legs);
+  const flags: RiskFlag[] = [];
+  const detectedAt = new Date().toISOString();
+
+  // Late-odds sniping: the price shortened right after the bet went in
+  const checked = legs.filter((l) => l.oddsAfterPlacement && l.oddsAfterPlacement.gt(1));
+  const sniped = checked.filter((l) =>
+    l.oddsAtPlacement.div(l.oddsAfterPlacement!).minus(1).gte(SNIPE_MOVE),
+  );
+  if (checked.length >= SNIPE_MIN_LEGS) {
+    const ratio = sniped.length / checked.length;
+    if (ratio >= SNIPE_RATIO) {
+      flags.push({
+        code: 'LATE_ODDS_SNIPING',
+        severity: ratio >= SNIPE_RATIO_HIGH ? 'HIGH' : 'MEDIUM',
+        detectedAt,
+        details: { legsChecked: checked.length, legsBeforeMove: sniped.length, ratio: Number(ratio.toFixed(2)) },
+      });
+    }
+  }
+
+  // Arbitrage on stale prices: backed the out-of-line side of an arbitrageable book
+  const priced = legs.filter((l) => l.marketOverround !== null);
+  const stale = priced.filter((l) => l.marketOverround!.lt(1));
+  if (stale.length >= STALE_MIN_LEGS && stale.length / priced.length >= STALE_RATIO) {
+    flags.push({
+      code: 'STALE_PRICE_ARBITRAGE',
+      severity: 'HIGH',
+      detectedAt,
+      details: {
+        legsPriced: priced.length,
+        legsOnStaleBooks: stale.length,
+        ratio: Number((stale.length / priced.length).toFixed(2)),
+      },
+    });
+  }
+
+  return flags;
+}
+
+async function detectBonusAbuse(userId: string, since: Date): Promise<RiskFlag | null> {
+  const claims = await prisma.promoClaim.findMany({
+    where: { userId, claimedAt: { gte: since } },
+    select: { promotionId: true, claimedAt: true },
+    orderBy: { claimedAt: 'asc' },
+  });
+  if (claims.length === 0) return null;
+
+  const signals: Record<string, unknown> = {};
+  const firstClaim = claims[0].claimedAt;
+
+  // Low-variance casino play (near-certain wins at tiny multipliers) to clear wagering
+  const rounds = await prisma.casinoRound.findMany({
+    where: { userId, createdAt: { gte: firstClaim } },
+    orderBy: { createdAt: 'desc' },
+    take: RECENT_ROUNDS,
+    select: { betAmount: true, payout: true, multiplier: true },
+  });
+  if (rounds.length >= LOW_VARIANCE_MIN_ROUNDS) {
+    const paid = rounds.filter((r) => r.payout.gte(r.betAmount) && r.payout.gt(0));
+    const winRatio = paid.length / rounds.length;
+    const avgMultiplier = paid.length > 0
+      ? paid.reduce((acc, r) => acc + r.multiplier.toNumber(), 0) / paid.length
+      : 0;
+    if (winRatio >= LOW_VARIANCE_WIN_RATIO && avgMultiplier <= LOW_VARIANCE_MAX_MULTIPLIER) {
+      signals.lowVarianceRounds = { rounds: rounds.length, winRatio: Number(winRatio.toFixed(2)), avgMultiplier: Number(avgMultiplier.toFixed(3)) };
+    }
+  }
+
+  // Hedging: backing more than one outcome of the same market
+  const legs = await prisma.betLeg.findMany({
+    where: { bet: { userId, createdAt: { gte: firstClaim } } },
+    select: { selectionId: true, selection: { select: { marketId: true } } },
+  });
+  const outcomesByMarket = new Map<string, Set<string>>();
+  for (const leg of legs) {
+    const set = outcomesByMarket.get(leg.selection.marketId) ?? new Set<string>();
+    set.add(leg.selectionId);
+    outcomesByMarket.set(leg.selection.marketId, set);
+  }
+  const hedgedMarkets = [...outcomesByMarket.values()].filter((s) => s.size > 1).length;
+  if (hedgedMarkets >= 2) {
+    signals.hedgedMarkets = hedgedMarkets;
+  }
+
+  // Other accounts on the same IP claiming the same promotions
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { lastLoginIp: true } });
+  if (user?.lastLoginIp) {
+    const sharedClaims = await prisma.promoClaim.count({
+      where: {
+        promotionId: { in: claims.map((c) => c.promotionId) },
+        userId: { not: userId },
+        user: { lastLoginIp: user.lastLoginIp },
+      },
+    });
+    if (sharedClaims > 0) {
+      signals.sharedIpClaims = sharedClaims;
+    }
+  }
+
+  const count = Object.keys(signals).length;
+  if (count === 0) return null;
+
+  return {
+    code: 'BONUS_ABUSE',
+    severity: count > 1 || signals.sharedIpClaims ? 'HIGH' : 'MEDIUM',
+    detectedAt: new Date().toISOString(),
+    details: signals,
+  };
+}
+
+/**
+ * Re-run detection for a user, persist flags, risk level and stake factor,
+ * and raise an AdminAlert for every flag that was not already active.
+ */
+export async function evaluateUser(userId: string, relatedBetId?: string): Promise<RiskFlag[]> {
+  const since = new Date(Date.now() - DETECTION_WINDOW_MS);
+  const [oddsFlags, bonusFlag] = await Promise.all([
+    detectOddsPatterns(userId, since),
+    detectBonusAbuse(userId, since),
+  ]);
+  const detected = bonusFlag ? [...oddsFlags, bonusFlag] : oddsFlags;
+
+  const profile = await prisma.userRiskProfile.upsert({
+    where: { userId },
+    create: { userId },
+    update: {},
+  });
+  const previous = toFlags(profile.flags);
+
+  // Keep the original detection time for flags that are still active
+  const flags = detected.map((flag) => {
+    const existing = previous.find((p) => p.code === flag.code);
+    return existing ? { ...flag, detectedAt: existing.detectedAt } : flag;
+  });
+
+  const riskLevel = riskLevelFor(flags);
+  const autoStakeFactor = await isAutoStakeFactorEnabled();
+
+  await prisma.userRiskProfile.update({
+    where: { userId },
+    data: {
+      flags: flags.length > 0 ? (flags as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+      riskLevel,
+      ...(autoStakeFactor ? { stakeFactor: STAKE_FACTORS[riskLevel] } : {}),
+    },
+  });
+
+  for (const flag of flags) {
+    const escalated = previous.find((p) => p.code === flag.code);
+    if (escalated && severityRank(escalated.severity) >= severityRank(flag.severity)) continue;
+
+    await prisma.adminAlert.create({
+      data: {
+        type: 'risk',
+        severity: flag.severity,
+        title: FLAG_TITLES[flag.code],
+        message: `${FLAG_TITLES[flag.code]} (${flag.code}). Risk level is now ${riskLevel}${autoStakeFactor ? `, stake factor ${STAKE_FACTORS[riskLevel].toString()}` : ''}. Details: ${JSON.stringify(flag.details)}`,
+        relatedUserId: userId,
+        relatedBetId: relatedBetId ?? null,
+      },
+    });
+  }
+
+  if (riskLevel !== profile.riskLevel) {
+    logger.info({ userId, from: profile.riskLevel, to: riskLevel }, '[RiskEngine] Risk level changed');
+  }
+
+  return flags;
+}
+
+// ---------------------------------------------------------------------------
+// Entry points
+// ---------------------------------------------------------------------------
+
+/**
+ * Update the profile from a settled (or cashed out) sportsbook bet and re-run
+ * detection. Best-effort: failures are logged, never thrown.
+ */
+export async function recordSettledBet(betId: string): Promise<void> {
+  try {
+    const bet = await prisma.bet.findUnique({
+      where: { id: betId },
+      select: { id: true, userId: true, stake: true, actualWin: true, currencySymbol: true, status: true, freeBetId: true },
+    });
+    if (!bet || bet.status === 'VOID') return;
+
+    // A free-bet stake was never the player's money, so the whole return is profit
+    const actualWin = bet.actualWin ?? new Prisma.Decimal(0);
+    const stakeUsd = await toUsd(bet.currencySymbol, bet.stake);
+    const profitUsd = await toUsd(bet.currencySymbol, bet.freeBetId ? actualWin : actualWin.minus(bet.stake));
+    await addToProfile(bet.userId, stakeUsd, profitUsd);
+    await evaluateUser(bet.userId, bet.id);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.error({ betId, error: msg }, '[RiskEngine] Failed to record settled bet');
+  }
+}
+
+/**
+ * Update the profile from a finished casino round. Detection is throttled per
+ * user since rounds can arrive several times a second. Best-effort.
+ */
+export async function recordCasinoRound(round: {
+  userId: string;
+  currency: string;
+  betAmount: number;
+  payout: number;
+}): Promise<void> {
+  try {
+    const stakeUsd = await toUsd(round.currency, new Prisma.Decimal(round.betAmount.toFixed(8)));
+    const profitUsd = await toUsd(round.currency, new Prisma.Decimal((round.payout - round.betAmount).toFixed(8)));
+    await addToProfile(round.userId, stakeUsd, profitUsd);
+
+    const due = await redis.set(`risk:casino-eval:${round.userId}`, '1', 'EX', CASINO_DETECTION_THROTTLE_S, 'NX');
+    if (due) {
+      await evaluateUser(round.userId);
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.error({ userId: round.userId, error: msg }, '[RiskEngine] Failed to record casino round');
+  }
+}
+
+/**
+ * Multiplier applied to selection max stakes for this user: the automatic
+ * stake factor times the trader-set stake multiplier (1 when unprofiled).
+ */
+export async function getStakeFactor(userId: string): Promise<Prisma.Decimal> {
+  const profile = await prisma.userRiskProfile.findUnique({
+    where: { userId },
+    select: { stakeFactor: true, stakeMultiplier: true },
+  });
+  return profile ? profile.stakeFactor.mul(profile.stakeMultiplier) : new Prisma.Decimal(1);
+}
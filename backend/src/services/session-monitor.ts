@@ -0,0 +1,180 @@
+// =============================================================================
+// Session Monitor (responsible gambling)
+//
+// Periodically walks active login sessions of users who have set a
+// `realityCheckInterval` or `sessionTimeout`:
+//   - pushes a `reality:check` event (time played, net result this session)
+//     to the user's socket rooms every `realityCheckInterval` minutes
+//   - force-expires the Session row once `sessionTimeout` minutes have passed
+//     since the session started, so `authenticate` rejects further calls,
+//     and disconnects the session's live sockets
+//
+// Runs every 60 seconds. With several backend instances only the one holding
+// the run lock does the pass, and each session update is conditional on the
+// row being unchanged, so a reality check or expiry is sent once.
+// =============================================================================
+
+import { prisma } from '../lib/prisma.js';
+import { redis } from '../lib/redis.js';
+import { getIO, disconnectSessionSockets } from '../lib/socket.js';
+import { logger } from '../middleware/logger.js';
+import { getNetLossUsd } from '../modules/users/responsibleGambling.service.js';
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** How often to check active sessions (ms) */
+const CHECK_INTERVAL_MS = 60_000; // 60 seconds
+
+/** One pass at a time across instances; expires before the next tick */
+const RUN_LOCK_KEY = 'session-monitor:lock';
+const RUN_LOCK_TTL_MS = CHECK_INTERVAL_MS - 5_000;
+
+/** Namespaces with per-user `user:<id>` rooms */
+const USER_NAMESPACES = ['/notifications', '/live'];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function emitToUserRooms(userId: string, event: string, data: Record<string, unknown>): void {
+  try {
+    const io = getIO();
+    for (const nsp of USER_NAMESPACES) {
+      io.of(nsp).to(`user:${userId}`).emit(event, data);
+    }
+  } catch {
+    // Socket.IO not initialized - nothing to push to
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Main Function
+// ---------------------------------------------------------------------------
+
+/**
+ * Sends due reality checks and expires sessions past their time limit.
+ * Returns the number of reality checks sent and sessions expired.
+ */
+export async function checkActiveSessions(): Promise<{ realityChecks: number; expired: number }> {
+  let realityChecks = 0;
+  let expired = 0;
+
+  try {
+    const locked = await redis.set(RUN_LOCK_KEY, '1', 'PX', RUN_LOCK_TTL_MS, 'NX');
+    if (!locked) {
+      return { realityChecks, expired };
+    }
+
+    const now = new Date();
+    const sessions = await prisma.session.findMany({
+      where: {
+        isRevoked: false,
+        expiresAt: { gt: now },
+        user: {
+          OR: [{ sessionTimeout: { not: null } }, { realityCheckInterval: { not: null } }],
+        },
+      },
+      select: {
+        id: true,
+        userId: true,
+        startedAt: true,
+        lastRealityCheckAt: true,
+        user: { select: { sessionTimeout: true, realityCheckInterval: true } },
+      },
+    });
+
+    for (const session of sessions) {
+      const playedMs = now.getTime() - session.startedAt.getTime();
+      const minutesPlayed = Math.floor(playedMs / 60_000);
+      const { sessionTimeout, realityCheckInterval } = session.user;
+
+      // Session time limit reached: expire the row and tell the client
+      if (sessionTimeout && playedMs >= sessionTimeout * 60_000) {
+        const { count } = await prisma.session.updateMany({
+          where: { id: session.id, expiresAt: { gt: now } },
+          data: { expiresAt: now },
+        });
+        if (count === 0) continue;
+        emitToUserRooms(session.userId, 'session:expired', {
+          sessionId: session.id,
+          reason: 'SESSION_TIMEOUT',
+          minutesPlayed,
+          timestamp: now.toISOString(),
+        });
+        disconnectSessionSockets(session.userId, session.id);
+        expired++;
+        continue;
+      }
+
+      if (!realityCheckInterval) continue;
+
+      const lastCheck = session.lastRealityCheckAt ?? session.startedAt;
+      if (now.getTime() - lastCheck.getTime() < realityCheckInterval * 60_000) continue;
+
+      // Claim the check: another pass may have sent it since we read the row
+      const { count } = await prisma.session.updateMany({
+        where: { id: session.id, lastRealityCheckAt: session.lastRealityCheckAt },
+        data: { lastRealityCheckAt: now },
+      });
+      if (count === 0) continue;
+
+      const netLoss = await getNetLossUsd(session.userId, session.startedAt);
+      emitToUserRooms(session.userId, 'reality:check', {
+        sessionId: session.id,
+        startedAt: session.startedAt.toISOString(),
+        minutesPlayed,
+        netResultUsd: netLoss.negated().toFixed(2),
+        sessionTimeout,
+        timestamp: now.toISOString(),
+      });
+      realityChecks++;
+    }
+
+    if (realityChecks > 0 || expired > 0) {
+      logger.info({ realityChecks, expired }, '[SessionMonitor] Processed active sessions');
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.error({ error: msg }, '[SessionMonitor] Failed to check active sessions');
+  }
+
+  return { realityChecks, expired };
+}
+
+// ---------------------------------------------------------------------------
+// Periodic Runner
+// ---------------------------------------------------------------------------
+
+let monitorInterval: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Starts the periodic session check.
+ * Runs immediately on first call, then every 60 seconds.
+ */
+export function startSessionMonitor(): void {
+  if (monitorInterval) {
+    logger.info('[SessionMonitor] Already running');
+    return;
+  }
+
+  logger.info(`[SessionMonitor] Starting periodic check (every ${CHECK_INTERVAL_MS / 1000}s)`);
+
+  void checkActiveSessions();
+
+  monitorInterval = setInterval(() => {
+    void checkActiveSessions();
+  }, CHECK_INTERVAL_MS);
+}
+
+/**
+ * Stops the periodic session check.
+ */
+export function stopSessionMonitor(): void {
+  if (monitorInterval) {
+    clearInterval(monitorInterval);
+    monitorInterval = null;
+    logger.info('[SessionMonitor] Stopped periodic check');
+  }
+}
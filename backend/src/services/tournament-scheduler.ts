@@ -0,0 +1,88 @@
+// =============================================================================
+// Tournament Scheduler
+//
+// Moves casino tournaments along their schedule:
+//   - upcoming -> active once startTime has passed
+//   - active -> completed once endTime has passed, ranking the entries and
+//     paying the prize pool into the winners' wallets
+//   - active -> cancelled instead, with entry fees refunded, when fewer than
+//     minParticipants joined
+//
+// Every transition claims the tournament with a status-guarded update, so
+// running the scheduler on several instances cannot pay a tournament twice.
+//
+// Runs every 30 seconds.
+// =============================================================================
+
+import { logger } from '../middleware/logger.js';
+import { processTournamentSchedule } from '../modules/casino/tournament.service.js';
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** How often to check tournament schedules (ms) */
+const CHECK_INTERVAL_MS = 30_000; // 30 seconds
+
+// ---------------------------------------------------------------------------
+// Main Function
+// ---------------------------------------------------------------------------
+
+let running = false;
+
+/**
+ * Applies every due tournament transition.
+ */
+export async function runTournamentSchedule(): Promise<void> {
+  // A slow payout run must not overlap the next tick
+  if (running) return;
+  running = true;
+
+  try {
+    const { started, completed, cancelled } = await processTournamentSchedule();
+    if (started > 0 || completed > 0 || cancelled > 0) {
+      logger.info({ started, completed, cancelled }, '[TournamentScheduler] Processed tournament transitions');
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.error({ error: msg }, '[TournamentScheduler] Failed to process tournament transitions');
+  } finally {
+    running = false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Periodic Runner
+// ---------------------------------------------------------------------------
+
+let schedulerInterval: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Starts the periodic tournament check.
+ * Runs immediately on first call, then every 30 seconds.
+ */
+export function startTournamentScheduler(): void {
+  if (schedulerInterval) {
+    logger.info('[TournamentScheduler] Already running');
+    return;
+  }
+
+  logger.info(`[TournamentScheduler] Starting periodic check (every ${CHECK_INTERVAL_MS / 1000}s)`);
+
+  void runTournamentSchedule();
+
+  schedulerInterval = setInterval(() => {
+    void runTournamentSchedule();
+  }, CHECK_INTERVAL_MS);
+}
+
+/**
+ * Stops the periodic tournament check.
+ */
+export function stopTournamentScheduler(): void {
+  if (schedulerInterval) {
+    clearInterval(schedulerInterval);
+    schedulerInterval = null;
+    logger.info('[TournamentScheduler] Stopped periodic check');
+  }
+}
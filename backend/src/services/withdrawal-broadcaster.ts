@@ -0,0 +1,548 @@
+// =============================================================================
+// Withdrawal Broadcaster
+//
+// Pays out approved withdrawals on EVM networks with an rpcUrl from the
+// active HOT AdminWallet of the currency and network (other networks stay
+// APPROVED until an admin pays them out and completes them by hand):
+//   - broadcast-withdrawal: build the native or ERC-20 transfer, estimate gas
+//     and fees, take the hot wallet's next nonce, sign, record the hash
+//     (status CONFIRMING) and broadcast
+//   - confirm-withdrawal: poll the receipt until CurrencyNetwork.confirmations
+//     is reached, then debit the locked funds and mark it COMPLETED
+//
+// Once signed, the transaction is recorded (CONFIRMING) before it is sent and
+// stays that way unless the node definitively rejects it (nonce too low,
+// invalid, insufficient funds) and does not know its hash; only then is the
+// withdrawal put back to APPROVED and retried by BullMQ with a fresh nonce.
+// Any other send error leaves it CONFIRMING and the confirmation checks
+// re-send the same signed transaction. Once retries run out before anything
+// was sent, or when the transaction reverts on-chain, the withdrawal is FAILED
+// and the locked funds are released back to the user. A broadcast transaction
+// that never gets mined is never refunded automatically (it could still
+// land); it is re-sent and an admin alert is raised instead.
+//
+// withdrawal-sweep re-queues approved withdrawals whose broadcast job was
+// never added (e.g. Redis was down right after approval). The job id is
+// derived from the withdrawal id, so re-queueing never duplicates a job.
+// =============================================================================
+
+import { Interface, Transaction as EvmTransaction, parseUnits, type TransactionRequest } from 'ethers';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { redis } from '../lib/redis.js';
+import { withdrawalProcessingQueue } from '../queues/index.js';
+import { logger } from '../middleware/logger.js';
+import {
+  getEvmProvider,
+  getHotWalletSigner,
+  getTokenDecimals,
+  isEvmNetwork,
+} from '../modules/wallets/evm.service.js';
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** Delay between receipt checks (ms) */
+const CONFIRM_POLL_MS = 15_000; // 15 seconds
+
+/** Receipt checks without inclusion before admins are alerted (~15 minutes) */
+const STUCK_ALERT_CHECKS = 60;
+
+/** How often approved withdrawals without a broadcast job are looked for (ms) */
+const SWEEP_INTERVAL_MS = 5 * 60_000; // 5 minutes
+
+/** How long an approved withdrawal may wait before it counts as stranded (ms) */
+const STRANDED_AFTER_MS = 2 * 60_000; // 2 minutes
+
+/** Gas limit headroom over the node's estimate, in percent */
+const GAS_LIMIT_BUFFER_PERCENT = 20n;
+
+/** Hot wallet send lock: how long it is held at most, and how long to wait for it */
+const SENDER_LOCK_TTL_SECONDS = 60;
+const SENDER_LOCK_WAIT_MS = 30_000;
+
+const ERC20_INTERFACE = new Interface(['function transfer(address to, uint256 amount) returns (bool)']);
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type BroadcastOutcome = 'BROADCAST' | 'SKIPPED' | 'FAILED';
+type ConfirmOutcome = 'PENDING' | 'COMPLETED' | 'FAILED' | 'SKIPPED';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function mergeMetadata(metadata: Prisma.JsonValue, extra: Record<string, unknown>): Prisma.InputJsonValue {
+  const base = typeof metadata === 'object' && metadata !== null && !Array.isArray(metadata) ? metadata : {};
+  return { ...base, ...extra } as Prisma.InputJsonValue;
+}
+
+function loadWithdrawal(transactionId: string) {
+  return prisma.transaction.findUnique({
+    where: { id: transactionId },
+    include: { wallet: { include: { currency: true } } },
+  });
+}
+
+function isAlreadyKnownError(err: unknown): boolean {
+  const msg = err instanceof Error ? err.message : String(err);
+  return /already known|known transaction|already imported/i.test(msg);
+}
+
+/**
+ * Send errors after which the transaction can never be mined as signed.
+ * Anything else (timeouts, rate limits, node errors) may still have reached
+ * the mempool.
+ */
+function isDefinitiveRejection(err: unknown): boolean {
+  const code = (err as { code?: unknown } | null)?.code;
+  if (code === 'NONCE_EXPIRED' || code === 'INSUFFICIENT_FUNDS') return true;
+  const msg = err instanceof Error ? err.message : String(err);
+  return /nonce too low|nonce has already been used|insufficient funds|invalid transaction|invalid sender|intrinsic gas too low|exceeds block gas limit/i.test(msg);
+}
+
+async function acquireSenderLock(key: string): Promise<boolean> {
+  const deadline = Date.now() + SENDER_LOCK_WAIT_MS;
+  while (Date.now() < deadline) {
+    if (await redis.set(key, '1', 'EX', SENDER_LOCK_TTL_SECONDS, 'NX')) return true;
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+  return false;
+}
+
+/**
+ * Next nonce for the hot wallet: the node's pending count, unless a nonce we
+ * handed out ourselves is further ahead (the node may not have seen it yet).
+ */
+async function nextNonce(nonceKey: string, pendingCount: number): Promise<number> {
+  const cached = await redis.get(nonceKey);
+  return Math.max(pendingCount, cached !== null ? parseInt(cached, 10) : 0);
+}
+
+async function scheduleConfirmationCheck(transactionId: string, check: number): Promise<void> {
+  await withdrawalProcessingQueue.add(
+    'confirm-withdrawal',
+    { transactionId, check },
+    { delay: CONFIRM_POLL_MS },
+  );
+}
+
+/**
+ * Mark the withdrawal FAILED and release the locked amount + fee back to the
+ * user's available balance. No-op unless it is still in one of `fromStatuses`.
+ */
+async function failWithdrawal(
+  transactionId: string,
+  code: string,
+  reason: string,
+  fromStatuses: Array<'APPROVED' | 'CONFIRMING'> = ['APPROVED', 'CONFIRMING'],
+): Promise<void> {
+  const withdrawal = await loadWithdrawal(transactionId);
+  if (!withdrawal) return;
+
+  const totalDebit = withdrawal.amount.add(withdrawal.fee);
+  const { decimals, symbol } = withdrawal.wallet.currency;
+
+  const failed = await prisma.$transaction(async (tx) => {
+    const updated = await tx.transaction.updateMany({
+      where: { id: transactionId, status: { in: fromStatuses } },
+      data: {
+        status: 'FAILED',
+        rejectedReason: reason,
+        metadata: mergeMetadata(withdrawal.metadata, {
+          failedAt: new Date().toISOString(),
+          failureCode: code,
+        }),
+      },
+    });
+    if (updated.count === 0) return false;
+
+    await tx.wallet.update({
+      where: { id: withdrawal.walletId },
+      data: { lockedBalance: { decrement: totalDebit } },
+    });
+
+    await tx.notification.create({
+      data: {
+        userId: withdrawal.wallet.userId,
+        type: 'WITHDRAWAL_REJECTED',
+        title: 'Withdrawal Failed',
+        message: `Your withdrawal of ${withdrawal.amount.toFixed(decimals)} ${symbol} could not be sent and the funds have been returned to your balance.`,
+        data: {
+          transactionId,
+          amount: withdrawal.amount.toString(),
+          currency: symbol,
+          code,
+        },
+      },
+    });
+
+    return true;
+  });
+
+  if (failed) {
+    logger.warn({ transactionId, code, reason }, '[WithdrawalBroadcaster] Withdrawal failed, funds released');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Main Functions
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether withdrawals on this network are paid out by the broadcaster, i.e.
+ * it is an EVM network with an RPC endpoint.
+ */
+export async function supportsAutomaticPayout(networkId: string | null): Promise<boolean> {
+  if (!networkId) return false;
+  const network = await prisma.currencyNetwork.findUnique({
+    where: { id: networkId },
+    select: { networkName: true, rpcUrl: true },
+  });
+  return !!network?.rpcUrl && isEvmNetwork(network.networkName);
+}
+
+/**
+ * Queue an APPROVED withdrawal for signing and broadcast. Only for networks
+ * where supportsAutomaticPayout holds.
+ */
+export async function queueWithdrawalBroadcast(transactionId: string): Promise<void> {
+  await withdrawalProcessingQueue.add(
+    'broadcast-withdrawal',
+    { transactionId },
+    { jobId: broadcastJobId(transactionId) },
+  );
+}
+
+function broadcastJobId(transactionId: string): string {
+  return `withdrawal-broadcast-${transactionId}`;
+}
+
+/**
+ * Re-queue APPROVED withdrawals on automatic-payout networks that have no
+ * pending broadcast job. Returns the number re-queued.
+ */
+export async function requeueStrandedWithdrawals(): Promise<number> {
+  const stranded = await prisma.transaction.findMany({
+    where: {
+      type: 'WITHDRAWAL',
+      status: 'APPROVED',
+      updatedAt: { lt: new Date(Date.now() - STRANDED_AFTER_MS) },
+    },
+    select: { id: true, networkId: true },
+  });
+
+  let requeued = 0;
+  for (const withdrawal of stranded) {
+    if (!(await supportsAutomaticPayout(withdrawal.networkId))) continue;
+
+    const job = await withdrawalProcessingQueue.getJob(broadcastJobId(withdrawal.id));
+    if (job) {
+      const state = await job.getState();
+      if (state !== 'completed' && state !== 'failed') continue; // Still waiting, delayed or running
+      // A finished job keeps its id in use; remove it so the withdrawal can be queued again
+      await job.remove();
+    }
+
+    await queueWithdrawalBroadcast(withdrawal.id);
+    requeued++;
+  }
+
+  if (requeued > 0) {
+    logger.warn({ requeued }, '[WithdrawalBroadcaster] Re-queued approved withdrawals without a broadcast job');
+  }
+  return requeued;
+}
+
+/**
+ * Registers the repeatable stranded-withdrawal sweep (idempotent across restarts).
+ */
+export async function scheduleWithdrawalSweep(): Promise<void> {
+  await withdrawalProcessingQueue.add(
+    'withdrawal-sweep',
+    {},
+    {
+      repeat: { every: SWEEP_INTERVAL_MS },
+      jobId: 'withdrawal-sweep',
+      attempts: 1,
+      removeOnComplete: true,
+      removeOnFail: { count: 100 },
+    },
+  );
+}
+
+/**
+ * Sign and broadcast an APPROVED withdrawal. Throws on transient errors so
+ * the job is retried; on the final attempt the withdrawal is failed and
+ * refunded instead, but only if nothing that could still land was sent.
+ */
+export async function broadcastWithdrawal(transactionId: string, finalAttempt: boolean): Promise<BroadcastOutcome> {
+  try {
+    return await signAndBroadcast(transactionId);
+  } catch (err) {
+    if (!finalAttempt) throw err;
+    const msg = err instanceof Error ? err.message : String(err);
+    await failWithdrawal(transactionId, 'BROADCAST_FAILED', `Broadcast failed: ${msg}`, ['APPROVED']);
+    return 'FAILED';
+  }
+}
+
+async function signAndBroadcast(transactionId: string): Promise<BroadcastOutcome> {
+  const withdrawal = await loadWithdrawal(transactionId);
+  if (!withdrawal || withdrawal.type !== 'WITHDRAWAL' || withdrawal.status !== 'APPROVED') return 'SKIPPED';
+  if (!withdrawal.toAddress) {
+    await failWithdrawal(transactionId, 'INVALID_WITHDRAWAL', 'Withdrawal has no destination address');
+    return 'FAILED';
+  }
+
+  const network = withdrawal.networkId
+    ? await prisma.currencyNetwork.findUnique({ where: { id: withdrawal.networkId } })
+    : null;
+  if (!network?.rpcUrl || !isEvmNetwork(network.networkName)) {
+    // Left APPROVED for an admin to pay out and complete by hand
+    logger.warn({ transactionId, network: network?.networkName }, '[WithdrawalBroadcaster] No automatic payout for this network, skipped');
+    return 'SKIPPED';
+  }
+
+  const symbol = withdrawal.wallet.currency.symbol;
+  const hotWallet = await prisma.adminWallet.findFirst({
+    where: { type: 'HOT', isActive: true, currencySymbol: symbol, network: network.networkName },
+  });
+  const signer = getHotWalletSigner(network.rpcUrl);
+  if (!hotWallet || !signer) {
+    throw new Error(`No active HOT wallet configured for ${symbol} on ${network.networkName}`);
+  }
+  if (signer.address.toLowerCase() !== hotWallet.address.toLowerCase()) {
+    throw new Error(`Hot wallet key does not match AdminWallet ${hotWallet.label} (${hotWallet.address})`);
+  }
+
+  const provider = getEvmProvider(network.rpcUrl);
+  const { chainId } = await provider.getNetwork();
+
+  // Native coin or ERC-20 transfer
+  const request: TransactionRequest = network.contractAddress
+    ? {
+        to: network.contractAddress,
+        value: 0n,
+        data: ERC20_INTERFACE.encodeFunctionData('transfer', [
+          withdrawal.toAddress,
+          parseUnits(
+            withdrawal.amount.toFixed(),
+            await getTokenDecimals(network.rpcUrl, network.contractAddress),
+          ),
+        ]),
+      }
+    : { to: withdrawal.toAddress, value: parseUnits(withdrawal.amount.toFixed(), 18) };
+
+  // One send at a time per hot wallet and chain, so nonces are handed out in order
+  const senderKey = `withdrawals:evm:${chainId}:${signer.address.toLowerCase()}`;
+  const lockKey = `${senderKey}:lock`;
+  const nonceKey = `${senderKey}:nonce`;
+  if (!(await acquireSenderLock(lockKey))) {
+    throw new Error('Timed out waiting for the hot wallet send lock');
+  }
+
+  try {
+    // Re-check under the lock: a duplicate job may already have sent it
+    const current = await prisma.transaction.findUnique({
+      where: { id: transactionId },
+      select: { status: true, metadata: true },
+    });
+    if (current?.status !== 'APPROVED') return 'SKIPPED';
+
+    const nonce = await nextNonce(nonceKey, await provider.getTransactionCount(signer.address, 'pending'));
+    const gasEstimate = await provider.estimateGas({ ...request, from: signer.address });
+    const gasLimit = (gasEstimate * (100n + GAS_LIMIT_BUFFER_PERCENT)) / 100n;
+    const feeData = await provider.getFeeData();
+    const fees = feeData.maxFeePerGas && feeData.maxPriorityFeePerGas
+      ? { type: 2, maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas }
+      : { type: 0, gasPrice: feeData.gasPrice };
+
+    const signedTx = await signer.signTransaction({ ...request, ...fees, nonce, gasLimit, chainId });
+    const txHash = EvmTransaction.from(signedTx).hash!;
+
+    // Recorded before sending so a crash mid-broadcast can re-send the same transaction
+    const broadcast = {
+      broadcastTxHash: txHash,
+      signedTx,
+      nonce,
+      gasLimit: gasLimit.toString(),
+      ...(fees.type === 2
+        ? { maxFeePerGas: fees.maxFeePerGas!.toString(), maxPriorityFeePerGas: fees.maxPriorityFeePerGas!.toString() }
+        : { gasPrice: fees.gasPrice?.toString() ?? null }),
+      broadcastAt: new Date().toISOString(),
+    };
+    await prisma.transaction.update({
+      where: { id: transactionId },
+      data: {
+        status: 'CONFIRMING',
+        txHash,
+        fromAddress: signer.address,
+        confirmations: 0,
+        metadata: mergeMetadata(current.metadata, broadcast),
+      },
+    });
+
+    // Tracked from here on, even if this process dies before or during the send
+    await scheduleConfirmationCheck(transactionId, 1);
+
+    try {
+      await provider.broadcastTransaction(signedTx);
+    } catch (err) {
+      if (!isAlreadyKnownError(err)) {
+        const msg = err instanceof Error ? err.message : String(err);
+
+        if (isDefinitiveRejection(err) && !(await provider.getTransaction(txHash))) {
+          // Never entered the mempool: safe to sign again with a fresh nonce
+          await prisma.transaction.updateMany({
+            where: { id: transactionId, status: 'CONFIRMING', txHash },
+            data: {
+              status: 'APPROVED',
+              txHash: null,
+              fromAddress: null,
+              metadata: mergeMetadata(current.metadata, { lastBroadcastError: msg }),
+            },
+          });
+          // The nonce was not used; let the node's pending count win next time
+          await redis.del(nonceKey);
+          throw err;
+        }
+
+        // May still land: keep it CONFIRMING, the confirmation checks re-send it
+        await prisma.transaction.updateMany({
+          where: { id: transactionId, status: 'CONFIRMING', txHash },
+          data: {
+            metadata: mergeMetadata(current.metadata, { ...broadcast, lastBroadcastError: msg }),
+          },
+        });
+        logger.warn({ transactionId, txHash, error: msg }, '[WithdrawalBroadcaster] Broadcast error, will re-send');
+      }
+    }
+
+    await redis.set(nonceKey, String(nonce + 1));
+    logger.info({ transactionId, txHash, nonce, chainId: chainId.toString() }, '[WithdrawalBroadcaster] Withdrawal broadcast');
+  } finally {
+    await redis.del(lockKey);
+  }
+
+  return 'BROADCAST';
+}
+
+/**
+ * Check the receipt of a CONFIRMING withdrawal: update its confirmation
+ * count, complete it once CurrencyNetwork.confirmations is reached, fail and
+ * refund it if it reverted, and schedule the next check otherwise.
+ */
+export async function confirmWithdrawal(transactionId: string, check: number): Promise<ConfirmOutcome> {
+  const withdrawal = await loadWithdrawal(transactionId);
+  if (!withdrawal || withdrawal.status !== 'CONFIRMING' || !withdrawal.txHash) return 'SKIPPED';
+
+  const network = withdrawal.networkId
+    ? await prisma.currencyNetwork.findUnique({ where: { id: withdrawal.networkId } })
+    : null;
+  if (!network?.rpcUrl) return 'SKIPPED';
+
+  const provider = getEvmProvider(network.rpcUrl);
+  const metadata = (withdrawal.metadata ?? {}) as Record<string, unknown>;
+  const receipt = await provider.getTransactionReceipt(withdrawal.txHash);
+
+  if (!receipt) {
+    // Not mined yet. Re-send the signed transaction if the node has dropped it
+    if (typeof metadata.signedTx === 'string' && !(await provider.getTransaction(withdrawal.txHash))) {
+      try {
+        await provider.broadcastTransaction(metadata.signedTx);
+      } catch (err) {
+        if (!isAlreadyKnownError(err)) {
+          const msg = err instanceof Error ? err.message : String(err);
+          logger.warn({ transactionId, error: msg }, '[WithdrawalBroadcaster] Re-broadcast failed');
+        }
+      }
+    }
+
+    if (check >= STUCK_ALERT_CHECKS && !metadata.stuckAlertedAt) {
+      await prisma.adminAlert.create({
+        data: {
+          type: 'withdrawal',
+          severity: 'HIGH',
+          title: 'Withdrawal not mined',
+          message: `Withdrawal ${transactionId} (${withdrawal.txHash}) on ${network.networkName} has not been mined after ${check} checks. The nonce may need replacing.`,
+          relatedUserId: withdrawal.wallet.userId,
+        },
+      });
+      await prisma.transaction.update({
+        where: { id: transactionId },
+        data: { metadata: mergeMetadata(withdrawal.metadata, { stuckAlertedAt: new Date().toISOString() }) },
+      });
+    }
+
+    await scheduleConfirmationCheck(transactionId, check + 1);
+    return 'PENDING';
+  }
+
+  if (receipt.status !== 1) {
+    await failWithdrawal(transactionId, 'TX_REVERTED', `Transaction ${withdrawal.txHash} reverted on-chain`);
+    return 'FAILED';
+  }
+
+  const confirmations = await receipt.confirmations();
+  if (confirmations < network.confirmations) {
+    await prisma.transaction.updateMany({
+      where: { id: transactionId, status: 'CONFIRMING' },
+      data: { confirmations },
+    });
+    await scheduleConfirmationCheck(transactionId, check + 1);
+    return 'PENDING';
+  }
+
+  const totalDebit = withdrawal.amount.add(withdrawal.fee);
+  const { decimals, symbol } = withdrawal.wallet.currency;
+
+  const completed = await prisma.$transaction(async (tx) => {
+    const updated = await tx.transaction.updateMany({
+      where: { id: transactionId, status: 'CONFIRMING' },
+      data: {
+        status: 'COMPLETED',
+        confirmations,
+        metadata: mergeMetadata(withdrawal.metadata, {
+          completedAt: new Date().toISOString(),
+          blockNumber: receipt.blockNumber,
+          gasUsed: receipt.gasUsed.toString(),
+        }),
+      },
+    });
+    if (updated.count === 0) return false;
+
+    await tx.wallet.update({
+      where: { id: withdrawal.walletId },
+      data: {
+        balance: { decrement: totalDebit },
+        lockedBalance: { decrement: totalDebit },
+      },
+    });
+
+    await tx.notification.create({
+      data: {
+        userId: withdrawal.wallet.userId,
+        type: 'WITHDRAWAL_APPROVED',
+        title: 'Withdrawal Sent',
+        message: `Your withdrawal of ${withdrawal.amount.toFixed(decimals)} ${symbol} has been sent and confirmed on-chain.`,
+        data: {
+          transactionId,
+          amount: withdrawal.amount.toString(),
+          currency: symbol,
+          txHash: withdrawal.txHash,
+        },
+      },
+    });
+
+    return true;
+  });
+
+  if (completed) {
+    logger.info({ transactionId, txHash: withdrawal.txHash, confirmations }, '[WithdrawalBroadcaster] Withdrawal completed');
+  }
+  return completed ? 'COMPLETED' : 'SKIPPED';
+}
@@ -24,10 +24,16 @@ export interface SocketEvents {
   // Bet updates
   'bet:settled': (data: { betId: string; status: 'WON' | 'LOST' | 'VOID'; actualWin: string; timestamp: string }) => void;
   'bet:cashoutAvailable': (data: { betId: string; cashoutAmount: number }) => void;
+  'bet:accepted': (data: { betId: string; status: 'ACCEPTED'; odds: string; potentialWin: string; timestamp: string }) => void;
+  'bet:rejected': (data: { betId: string; status: 'REJECTED'; odds: string; potentialWin: string; reason?: string; timestamp: string }) => void;
 
   // User notifications
   'notification': (data: { type: string; title: string; message: string; data?: unknown }) => void;
 
+  // Responsible gambling
+  'reality:check': (data: { sessionId: string; startedAt: string; minutesPlayed: number; netResultUsd: string; sessionTimeout: number | null; timestamp: string }) => void;
+  'session:expired': (data: { sessionId: string; reason: 'SESSION_TIMEOUT'; minutesPlayed: number; timestamp: string }) => void;
+
   // Balance updates
   'balance:update': (data: { currency: string; available: number; locked: number }) => void;
 
@@ -31,7 +31,7 @@ export interface SystemBetType {
 }
 
 interface PlaceBetPayload {
-  type: 'SINGLE' | 'PARLAY' | 'BET_BUILDER';
+  type: 'SINGLE' | 'PARLAY' | 'SYSTEM' | 'BET_BUILDER';
   selections: Array<{
     selectionId: string;
     odds: number;
@@ -40,6 +40,7 @@ interface PlaceBetPayload {
   currency: string;
   oddsChangePolicy: 'ACCEPT_ANY' | 'ACCEPT_HIGHER' | 'REJECT';
   isLive?: boolean;
+  systemSize?: number;
 }
 
 interface PlaceBetResponse {
@@ -466,7 +467,7 @@ export const useBetSlipStore = create<BetSlipState>()((set, getState) => ({
         totalStake = stakes['system'] || 0;
       }
 
-      const backendType = betType === 'betBuilder' ? 'BET_BUILDER' : betType === 'parlay' || betType === 'system' ? 'PARLAY' : 'SINGLE';
+      const backendType = betType === 'betBuilder' ? 'BET_BUILDER' : betType === 'system' ? 'SYSTEM' : betType === 'parlay' ? 'PARLAY' : 'SINGLE';
       const backendOddsPolicy = oddsChangePolicy.toUpperCase().replace(/_/g, '_') as 'ACCEPT_ANY' | 'ACCEPT_HIGHER' | 'REJECT';
       const hasLive = selections.some((s) => s.isLive);
 
@@ -480,6 +481,7 @@ export const useBetSlipStore = create<BetSlipState>()((set, getState) => ({
         currency,
         oddsChangePolicy: backendOddsPolicy,
         ...(hasLive ? { isLive: true } : {}),
+        ...(betType === 'system' ? { systemSize } : {}),
       };
 
       console.log('[BetSlip] Placing bet:', JSON.stringify(payload, null, 2));